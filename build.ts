@@ -28,7 +28,13 @@ const outDir = './dist';
 const target = 'node' as const;
 const sourcemap = 'linked' as const;
 const minify = true;
-const external = ['postcss', 'postcss-import', 'postcss-value-parser', 'vite'];
+const external = [
+  'postcss',
+  'postcss-import',
+  'postcss-value-parser',
+  'typescript',
+  'vite',
+];
 
 // Entry points for different builds
 const entryPoints = [
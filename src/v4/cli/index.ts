@@ -2,23 +2,95 @@
 /**
  * CLI tool for generating Tailwind theme types and runtime objects
  */
+import type { DiagnosticsBaseline, ThemeDiagnostics } from '../core';
+import type { EntrySummary } from '../shared/entries';
 import type {
+  ColorFormat,
+  DiagnosticLevel,
+  EvaluateMathOptions,
+  FailOnOptions,
+  ImportAliases,
+  NestingConfig,
   NestingOptions,
+  OutputFormatOptions,
+  OverrideOptions,
   ReportGenerationOptions,
+  ResolverConfig,
   RuntimeGenerationOptions,
   TailwindDefaultsOptions,
+  TailwindResult,
+  ThemeEntryConfig,
+  UnitsOptions,
 } from '../types';
 
-import { dirname, join, resolve } from 'node:path';
+import { existsSync } from 'node:fs';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname, extname, relative, resolve } from 'node:path';
 import { parseArgs } from 'node:util';
 
-import { OUTPUT_FILES } from '../shared/constants';
-import { generateThemeFiles } from '../shared/file_generator';
-import { autoDetectOutputDir } from '../shared/utils';
+import {
+  DIAGNOSTIC_LEVELS,
+  generateThemeDiffJSON,
+  generateThemeDiffMarkdown,
+  hasThemeChanges,
+} from '../core';
+import { JSON_INDENT_SPACES } from '../core/constants/formatting';
+import { resolveAliasTargets } from '../core/parser/module_resolver';
+import {
+  diffTheme,
+  explainToken,
+  importFigmaVariables,
+  migrateTailwindV3Config,
+  resolveTheme,
+} from '../index';
+import { checkGeneratedFiles } from '../shared/check';
+import { loadConfig, mergeConfigs, readModuleFile } from '../shared/config';
+import {
+  DEFAULT_INTERFACE_NAME,
+  OUTPUT_FILES,
+  VALID_DEFAULT_CATEGORIES,
+  VALID_OUTPUT_FORMATS,
+  VALID_REPORT_CATEGORIES,
+} from '../shared/constants';
+import {
+  DiagnosticsError,
+  enforceDiagnostics,
+  writeBaseline,
+} from '../shared/diagnostics';
+import { formatEntrySummary, resolveEntries } from '../shared/entries';
+import {
+  findPackageVersion,
+  generateThemeFiles,
+  renderThemeFiles,
+} from '../shared/file_generator';
+import {
+  loadOverridesFile,
+  mergeOverrides,
+  parseOverrideFlag,
+} from '../shared/overrides';
+import {
+  generateRuntimeFile,
+  generateTypeDeclarations,
+} from '../shared/type_generator';
+import {
+  autoDetectOutputDir,
+  normalizeReportOptions,
+  normalizeRuntimeOptions,
+} from '../shared/utils';
+import { formatTokenExplanation } from './inspect';
+import {
+  findTailwindV3Config,
+  formatMigrationReport,
+  V3_CONFIG_FILE_NAMES,
+} from './migrate';
+import { watchThemeFiles } from './watcher';
 
 interface CliOptions {
+  command?: string;
+  argument?: string;
   input?: string;
   output?: string;
+  config?: string;
   runtime?: boolean;
   'include-defaults'?: string | boolean;
   'exclude-defaults'?: string | boolean;
@@ -27,19 +99,79 @@ interface CliOptions {
   'nesting-max-depth'?: string;
   'nesting-consecutive-camel'?: boolean;
   'nesting-flatten-mode'?: string;
+  'color-format'?: string;
+  'evaluate-math'?: boolean;
+  'root-font-size'?: string;
+  units?: string;
+  'time-units'?: string;
+  alias?: Array<string>;
+  entry?: Array<string>;
+  override?: Array<string>;
+  overrides?: string;
+  since?: string;
+  against?: string;
+  format?: string;
+  variant?: string;
+  stdin?: boolean;
+  'base-path'?: string;
+  print?: string;
+  formats?: string;
+  'fail-on'?: string;
+  baseline?: string;
+  'update-baseline'?: boolean;
+  watch?: boolean;
   debug?: boolean;
   help?: boolean;
 }
 
+/**
+ * Settings resolved from the config file with CLI flags layered on top
+ */
+interface ResolvedSettings {
+  /** Merged config */
+  config: ResolverConfig;
+  /** Path to the loaded config file, if one was found */
+  configPath?: string;
+  /** Absolute path to the CSS input file */
+  inputPath: string;
+  /** Absolute output directory */
+  outputDir: string;
+  /** Normalized runtime generation options */
+  runtimeOptions: RuntimeGenerationOptions | false;
+  /** Normalized report generation options */
+  reportOptions: ReportGenerationOptions;
+}
+
 const HELP_TEXT = `
 Tailwind Theme Resolver CLI
 
 Usage:
-  tailwind-resolver [options]
+  tailwind-resolver [command] [options]
+
+Commands:
+  (none)                           Generate theme files
+  check                            Check that generated files are up to date
+                                   Prints a diff and exits with code 1 on drift (writes nothing)
+  diff                             Compare tokens with a git revision or another CSS file
+                                   Prints added, removed and changed tokens per variant
+  inspect <token>                  Explain how a token was resolved (e.g., colors.primary)
+                                   Prints each var() hop with its source and file location
+  migrate [config]                 Convert a Tailwind v3 config to a v4 @theme CSS file
+                                   (default: tailwind.config.{js,cjs,mjs,ts} in cwd)
+                                   Prints the CSS (or writes it to -o) and reports what was not migrated
+  import-figma <file>              Convert Figma variables to overrides (values that differ from the theme)
+                                   Reads a POST /variables payload or a GET /variables/local response
+                                   Prints the overrides JSON (or merges them into the -o file)
 
 Options:
-  --input, -i <path>               Path to CSS input file (required)
+  --input, -i <path>               Path to CSS input file (required unless set in config)
   --output, -o <path>              Output directory (default: auto-detect)
+                                   migrate: output CSS file (default: stdout)
+                                   import-figma: overrides .json file to merge into (default: stdout)
+  --entry <input>=<outputDir>      Generate several themes in one run (repeatable)
+                                   Replaces the config's entries; prints a summary per entry
+  --config, -c <path>              Path to config file
+                                   (default: tailwind-resolver.config.{ts,mjs,json} in cwd)
   --runtime, -r                    Generate runtime theme object (default: true)
   --no-runtime                     Skip runtime generation (types only)
   --include-defaults [categories]  Include Tailwind defaults (default: all)
@@ -55,6 +187,48 @@ Options:
   --nesting-flatten-mode <mode>    How to flatten remaining parts after maxDepth
                                    Options: 'camelcase' (default), 'literal'
   --nesting-consecutive-camel      Treat consecutive dashes (--) as camelCase boundary
+  --color-format <format>          Convert resolved colors to a single format
+                                   Options: 'hex', 'rgb', 'hsl'
+  --evaluate-math                  Fold static calc()/min()/max()/clamp() expressions
+  --units <unit>                   Convert theme lengths to a single unit
+                                   Options: 'px', 'rem', 'number' (unitless px)
+  --time-units <unit>              Convert animation durations to a single unit
+                                   Options: 'ms', 's'
+  --root-font-size <px>            Root font size for rem/px conversion (default: 16)
+                                   Used by --evaluate-math and --units
+  --alias <prefix=path>            Path alias for @import resolution (repeatable)
+                                   Example: --alias @=./src --alias ~=./src
+  --override <selector:path=value> Override a theme value (repeatable)
+                                   Example: --override 'dark:colors.background=#000'
+                                   Object form: --override '*:fonts.sans={"value":"Inter","resolveVars":false}'
+  --overrides <path>               Load overrides from a .json, .ts or .mjs file
+                                   (selector → path → value; --override flags win)
+  --since <revision>               diff: compare against the input at a git revision
+  --against <path>                 diff: compare against another CSS file
+                                   (combine with --since to read it from the revision)
+  --format <format>                diff/inspect: output format
+                                   diff: 'markdown' (default), 'json'
+                                   inspect: 'text' (default), 'json'
+  --variant <name>                 inspect: variant name or selector (default: default)
+  --formats <formats>              Also write token formats (comma-separated)
+                                   Options: 'dtcg' (W3C Design Tokens: tokens.json + tokens.<variant>.json),
+                                   'styleDictionary' (style-dictionary/<variant>.json),
+                                   'scss' (_tokens.scss), 'less' (tokens.less), 'stylus' (tokens.styl),
+                                   'vanillaExtract' (theme.css.ts), 'styledComponents' (styled.d.ts),
+                                   'figma' (figma-variables.json), 'swift' (Theme.swift),
+                                   'kotlin' (Theme.kt), 'dart' (theme.dart)
+  --print <format>                 Print to stdout instead of writing files
+                                   Options: 'json' (resolved result), 'ts' (runtime file), 'types'
+  --stdin                          Read CSS from stdin (requires --print)
+  --base-path <path>               Directory for @import and node_modules resolution with --stdin
+                                   (default: cwd)
+  --fail-on <categories>           Exit with code 1 on diagnostics (comma-separated)
+                                   <category>[:<level>], levels: 'low', 'medium', 'high'
+                                   Example: --fail-on unresolved,conflicts:medium
+  --baseline <path>                Accept the diagnostics in a baseline file; only new ones fail
+                                   (without --fail-on, any new diagnostic fails)
+  --update-baseline                Write the current diagnostics to the --baseline file
+  --watch, -w                      Regenerate when the input or any imported file changes
   --debug, -d                      Enable debug mode (logging + include debug data in runtime)
   --help, -h                       Show this help message
 
@@ -66,6 +240,11 @@ Valid default categories:
 Valid report categories:
   conflicts, unresolved
 
+Diagnostic levels (--fail-on):
+  conflicts    Confidence of the conflict ('high' = a rule certainly overrides the variable)
+  unresolved   'high' without a fallback, 'medium' with a fallback,
+               'low' for --tw-* and self-referential variables
+
 Examples:
   # Generate types and runtime (production optimized, includes all Tailwind defaults)
   tailwind-resolver -i src/styles.css
@@ -112,13 +291,97 @@ Examples:
   # Combine nesting options
   tailwind-resolver -i src/styles.css --nesting-max-depth 2 --nesting-flatten-mode literal --nesting-consecutive-camel
 
+  # Convert oklch() and other colors to hex
+  tailwind-resolver -i src/styles.css --color-format hex
+
+  # Fold calc() expressions using a 10px root font size
+  tailwind-resolver -i src/styles.css --evaluate-math --root-font-size 10
+
+  # Emit lengths as pixel numbers and durations in milliseconds
+  tailwind-resolver -i src/styles.css --units number --time-units ms
+
+  # Build a white-label variant with overrides from a file plus one flag
+  tailwind-resolver -i src/styles.css --overrides brands/acme.json --override 'dark:colors.background=#000'
+
+  # Resolve @import "@/styles/tokens.css" to ./src/styles/tokens.css
+  tailwind-resolver -i src/styles.css --alias @=./src
+
+  # Regenerate on every change to the input or its imports
+  tailwind-resolver -i src/styles.css --watch
+
+  # Fail CI on unresolved variables and medium/high confidence conflicts
+  tailwind-resolver -i src/styles.css --fail-on unresolved,conflicts:medium
+
+  # Accept today's diagnostics, then fail only on new ones
+  tailwind-resolver -i src/styles.css --baseline diagnostics.json --update-baseline
+  tailwind-resolver -i src/styles.css --baseline diagnostics.json
+
+  # Also write W3C Design Tokens (DTCG) JSON for design tools
+  tailwind-resolver -i src/styles.css --formats dtcg
+
+  # Also write Style Dictionary sources for native builds
+  tailwind-resolver -i src/styles.css --formats styleDictionary
+
+  # Also write SCSS variables and maps for legacy stylesheets
+  tailwind-resolver -i src/styles.css --formats scss
+
+  # Also write a vanilla-extract theme and a styled-components theme type
+  tailwind-resolver -i src/styles.css --formats vanillaExtract,styledComponents
+
+  # Generate two themes of a monorepo in one run
+  tailwind-resolver --entry apps/web/theme.css=apps/web/src/generated --entry apps/docs/theme.css=apps/docs/src/generated
+
+  # Generate only one of the entries defined in the config
+  tailwind-resolver -i apps/web/theme.css -o apps/web/src/generated
+
+  # Pipe CSS in and the resolved theme out as JSON
+  cat src/styles.css | tailwind-resolver --stdin --base-path src --print json | jq '.selectors'
+
+  # Print type declarations instead of writing them
+  tailwind-resolver -i src/styles.css --print types > src/theme.d.ts
+
   # Custom output directory
   tailwind-resolver -i src/styles.css -o src/theme
 
+  # Use tailwind-resolver.config.ts from the current directory (flags override it)
+  tailwind-resolver --color-format hex
+
+  # Use a specific config file
+  tailwind-resolver --config config/theme.config.json
+
+  # Fail CI when committed generated files are out of date
+  tailwind-resolver check -i src/styles.css
+
+  # Show which tokens changed since main
+  tailwind-resolver diff -i src/styles.css --since main
+
+  # Compare two CSS files as JSON
+  tailwind-resolver diff -i src/new.css --against src/old.css --format json
+
+  # Explain where the dark variant's primary color comes from
+  tailwind-resolver inspect colors.primary --variant dark -i src/styles.css
+
+  # Migrate a Tailwind v3 config to CSS
+  tailwind-resolver migrate tailwind.config.js -o src/theme.css
+
+  # Write Figma Variables and merge designers' edits back into the overrides
+  tailwind-resolver -i src/styles.css --formats figma
+  tailwind-resolver import-figma variables.json -i src/styles.css -o overrides.json
+
+  # Write theme tokens for iOS, Android and Flutter apps
+  tailwind-resolver -i src/styles.css --formats swift,kotlin,dart
+
 Generated Files:
   - ${OUTPUT_FILES.TYPES} (TypeScript interface definition)
   - ${OUTPUT_FILES.THEME} (Runtime theme objects, if --runtime enabled)
   - ${OUTPUT_FILES.INDEX} (Re-exports, if --runtime enabled)
+  - ${OUTPUT_FILES.DTCG}, tokens.<variant>.json (W3C Design Tokens, if --formats dtcg)
+  - ${OUTPUT_FILES.STYLE_DICTIONARY_DIR}/<variant>.json (Style Dictionary sources, if --formats styleDictionary)
+  - ${OUTPUT_FILES.SCSS}, ${OUTPUT_FILES.LESS}, ${OUTPUT_FILES.STYLUS} (Preprocessor variables and maps, if --formats scss/less/stylus)
+  - ${OUTPUT_FILES.VANILLA_EXTRACT} (vanilla-extract theme contract, if --formats vanillaExtract)
+  - ${OUTPUT_FILES.STYLED_COMPONENTS} (styled-components DefaultTheme, if --formats styledComponents)
+  - ${OUTPUT_FILES.FIGMA} (Figma Variables REST API payload, if --formats figma)
+  - ${OUTPUT_FILES.SWIFT}, ${OUTPUT_FILES.KOTLIN}, ${OUTPUT_FILES.DART} (Native app theme tokens, if --formats swift/kotlin/dart)
   - conflicts.md (Human-readable conflict report, if conflicts detected and reports enabled)
   - conflicts.json (Machine-readable conflict report, if conflicts detected and reports enabled)
   - unresolved.md (Human-readable unresolved variable report, if detected and reports enabled)
@@ -135,6 +398,42 @@ Debug Mode (--debug):
  */
 const CLI_ARGS_START_INDEX = 2;
 
+/**
+ * Status labels for the Defaults and Reports log lines
+ */
+const DEFAULTS_STATUS_LABELS = { all: 'all included', none: 'all excluded' };
+const REPORTS_STATUS_LABELS = { all: 'all enabled', none: 'all disabled' };
+
+/**
+ * Commands that take a second positional (inspect: token path, migrate: v3 config
+ * path, import-figma: Figma variables file)
+ */
+const ARGUMENT_COMMANDS = ['inspect', 'migrate', 'import-figma'];
+
+/**
+ * Parses the command and its positional arguments
+ *
+ * @param positionals - Positional arguments
+ * @returns Command and its argument
+ */
+function parseCommand(
+  positionals: Array<string>,
+): Pick<CliOptions, 'command' | 'argument'> {
+  const [command, argument, ...unexpected] = positionals;
+  const takesArgument =
+    command !== undefined && ARGUMENT_COMMANDS.includes(command);
+  const unexpectedArgument = takesArgument
+    ? unexpected[0]
+    : (argument ?? unexpected[0]);
+
+  if (unexpectedArgument !== undefined) {
+    console.error(`Error: Unexpected argument: ${unexpectedArgument}\n`);
+    process.exit(1);
+  }
+
+  return { command, argument };
+}
+
 /**
  * Parses CLI arguments and returns validated options
  *
@@ -143,25 +442,48 @@ const CLI_ARGS_START_INDEX = 2;
 function parseCliOptions(): CliOptions {
   const args = process.argv.slice(CLI_ARGS_START_INDEX);
 
-  const { values } = parseArgs({
+  const { values, positionals } = parseArgs({
     options: {
       input: { type: 'string', short: 'i' },
       output: { type: 'string', short: 'o' },
-      runtime: { type: 'boolean', short: 'r', default: true },
+      config: { type: 'string', short: 'c' },
+      runtime: { type: 'boolean', short: 'r' },
       'include-defaults': { type: 'string' },
       'exclude-defaults': { type: 'string' },
       reports: { type: 'string' },
       'exclude-reports': { type: 'string' },
       'nesting-max-depth': { type: 'string' },
-      'nesting-consecutive-camel': { type: 'boolean', default: false },
+      'nesting-consecutive-camel': { type: 'boolean' },
       'nesting-flatten-mode': { type: 'string' },
-      debug: { type: 'boolean', short: 'd', default: false },
+      'color-format': { type: 'string' },
+      'evaluate-math': { type: 'boolean' },
+      'root-font-size': { type: 'string' },
+      units: { type: 'string' },
+      'time-units': { type: 'string' },
+      alias: { type: 'string', multiple: true },
+      entry: { type: 'string', multiple: true },
+      override: { type: 'string', multiple: true },
+      overrides: { type: 'string' },
+      since: { type: 'string' },
+      against: { type: 'string' },
+      format: { type: 'string' },
+      variant: { type: 'string' },
+      stdin: { type: 'boolean' },
+      'base-path': { type: 'string' },
+      print: { type: 'string' },
+      formats: { type: 'string' },
+      'fail-on': { type: 'string' },
+      baseline: { type: 'string' },
+      'update-baseline': { type: 'boolean' },
+      watch: { type: 'boolean', short: 'w', default: false },
+      debug: { type: 'boolean', short: 'd' },
       help: { type: 'boolean', short: 'h' },
     },
     strict: true,
+    allowPositionals: true,
   });
 
-  const options = values as CliOptions;
+  const options: CliOptions = { ...values, ...parseCommand(positionals) };
 
   // Handle flags when provided without a value
   // If flag is present but value is undefined, treat as boolean true (all)
@@ -190,6 +512,270 @@ function parseCliOptions(): CliOptions {
   return options;
 }
 
+/**
+ * Commands accepted as the first positional argument
+ */
+const CLI_COMMANDS = ['check', 'diff', 'inspect', 'migrate', 'import-figma'];
+
+/**
+ * Output formats per command (the first one is the default)
+ */
+const COMMAND_FORMATS: Record<string, Array<string>> = {
+  diff: ['markdown', 'json'],
+  inspect: ['text', 'json'],
+};
+
+/**
+ * Validates --format against the formats of the command
+ *
+ * @param options - CLI options to validate
+ */
+function validateFormat(options: CliOptions): void {
+  if (options.format === undefined) {
+    return;
+  }
+
+  const formats =
+    options.command === undefined
+      ? undefined
+      : COMMAND_FORMATS[options.command];
+
+  if (formats === undefined) {
+    console.error(
+      'Error: --format can only be used with the diff and inspect commands\n',
+    );
+    process.exit(1);
+  }
+
+  if (!formats.includes(options.format)) {
+    console.error(
+      `Error: Invalid format: ${options.format}\nValid formats: ${formats.join(', ')}\n`,
+    );
+    process.exit(1);
+  }
+}
+
+/**
+ * Validates the inspect command flags
+ *
+ * @param options - CLI options to validate
+ */
+function validateInspectOptions(options: CliOptions): void {
+  if (options.command !== 'inspect') {
+    if (options.variant !== undefined) {
+      console.error(
+        'Error: --variant can only be used with the inspect command\n',
+      );
+      process.exit(1);
+    }
+    return;
+  }
+
+  if (options.argument === undefined) {
+    console.error(
+      'Error: inspect requires a token path (e.g., tailwind-resolver inspect colors.primary)\n',
+    );
+    process.exit(1);
+  }
+}
+
+/**
+ * Validates the import-figma command arguments
+ *
+ * @param options - CLI options to validate
+ */
+function validateImportFigmaOptions(options: CliOptions): void {
+  if (options.command !== 'import-figma') {
+    return;
+  }
+
+  if (options.argument === undefined) {
+    console.error(
+      'Error: import-figma requires a Figma variables file (e.g., tailwind-resolver import-figma variables.json)\n',
+    );
+    process.exit(1);
+  }
+
+  if (options.output !== undefined && extname(options.output) !== '.json') {
+    console.error(
+      'Error: import-figma writes JSON overrides; -o must be a .json file\n',
+    );
+    process.exit(1);
+  }
+}
+
+/**
+ * Validates the diff command flags
+ *
+ * @param options - CLI options to validate
+ */
+function validateDiffOptions(options: CliOptions): void {
+  const diffFlags = (['since', 'against'] as const).filter(
+    (flag) => options[flag] !== undefined,
+  );
+
+  if (options.command !== 'diff') {
+    if (diffFlags.length > 0) {
+      console.error(
+        `Error: --${diffFlags[0]} can only be used with the diff command\n`,
+      );
+      process.exit(1);
+    }
+    return;
+  }
+
+  if (options.since === undefined && options.against === undefined) {
+    console.error(
+      'Error: diff requires --since <revision> or --against <path>\n',
+    );
+    process.exit(1);
+  }
+}
+
+/**
+ * Formats accepted by --print
+ */
+const PRINT_FORMATS = ['json', 'ts', 'types'];
+
+/**
+ * Validates the --print, --stdin and --base-path flags
+ *
+ * @param options - CLI options to validate
+ */
+function validatePrintOptions(options: CliOptions): void {
+  const printFlags = (['print', 'stdin', 'base-path'] as const).filter(
+    (flag) => options[flag] !== undefined,
+  );
+
+  if (printFlags.length === 0) {
+    return;
+  }
+
+  if (options.command !== undefined) {
+    console.error(
+      `Error: --${printFlags[0]} cannot be used with the ${options.command} command\n`,
+    );
+    process.exit(1);
+  }
+
+  if (options.print === undefined) {
+    console.error(`Error: --${printFlags[0]} requires --print <format>\n`);
+    process.exit(1);
+  }
+
+  if (!PRINT_FORMATS.includes(options.print)) {
+    console.error(
+      `Error: Invalid print format: ${options.print}\nValid formats: ${PRINT_FORMATS.join(', ')}\n`,
+    );
+    process.exit(1);
+  }
+
+  if (options.watch === true) {
+    console.error('Error: --print cannot be used with --watch\n');
+    process.exit(1);
+  }
+
+  validateStdinOptions(options);
+}
+
+/**
+ * Validates the --stdin and --base-path flags
+ *
+ * @param options - CLI options to validate
+ */
+function validateStdinOptions(options: CliOptions): void {
+  if (options.stdin === true && options.input !== undefined) {
+    console.error('Error: Cannot use both --stdin and --input\n');
+    process.exit(1);
+  }
+
+  if (options['base-path'] !== undefined && options.stdin !== true) {
+    console.error('Error: --base-path can only be used with --stdin\n');
+    process.exit(1);
+  }
+}
+
+/**
+ * Validates the --entry flag
+ * Entries are only supported when generating files
+ *
+ * @param options - CLI options to validate
+ */
+function validateEntryOptions(options: CliOptions): void {
+  if (options.entry === undefined) {
+    return;
+  }
+
+  if (options.input !== undefined) {
+    console.error('Error: Cannot use both --entry and --input\n');
+    process.exit(1);
+  }
+
+  if (options.command !== undefined) {
+    console.error(
+      `Error: --entry cannot be used with the ${options.command} command\n`,
+    );
+    process.exit(1);
+  }
+
+  if (options.print !== undefined) {
+    console.error('Error: --entry cannot be used with --print\n');
+    process.exit(1);
+  }
+}
+
+/**
+ * Validates the --fail-on, --baseline and --update-baseline flags
+ * Diagnostics are only gated when generating files
+ *
+ * @param options - CLI options to validate
+ */
+function validateGateOptions(options: CliOptions): void {
+  const gateFlag = (['fail-on', 'baseline', 'update-baseline'] as const).find(
+    (flag) => options[flag] !== undefined,
+  );
+
+  if (gateFlag === undefined) {
+    return;
+  }
+
+  if (options.command !== undefined) {
+    console.error(
+      `Error: --${gateFlag} cannot be used with the ${options.command} command\n`,
+    );
+    process.exit(1);
+  }
+
+  if (options.print !== undefined) {
+    console.error(`Error: --${gateFlag} cannot be used with --print\n`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Validates the command and flags that conflict with it
+ *
+ * @param options - CLI options to validate
+ */
+function validateCommand(options: CliOptions): void {
+  if (options.command === undefined) {
+    return;
+  }
+
+  if (!CLI_COMMANDS.includes(options.command)) {
+    console.error(`Error: Unknown command: ${options.command}\n`);
+    console.log(HELP_TEXT);
+    process.exit(1);
+  }
+
+  if (options.watch === true) {
+    console.error(
+      `Error: --watch cannot be used with the ${options.command} command\n`,
+    );
+    process.exit(1);
+  }
+}
+
 /**
  * Validates CLI options and shows help/errors if needed
  *
@@ -201,11 +787,14 @@ function validateOptions(options: CliOptions): void {
     process.exit(0);
   }
 
-  if (options.input === undefined) {
-    console.error('Error: --input is required\n');
-    console.log(HELP_TEXT);
-    process.exit(1);
-  }
+  validateCommand(options);
+  validateDiffOptions(options);
+  validateInspectOptions(options);
+  validateImportFigmaOptions(options);
+  validateFormat(options);
+  validatePrintOptions(options);
+  validateGateOptions(options);
+  validateEntryOptions(options);
 
   // Validate defaults flags: only one of --include-defaults or --exclude-defaults
   const hasIncludeDefaults = options['include-defaults'] !== undefined;
@@ -290,50 +879,15 @@ function parseCategories<T>(
   return options;
 }
 
-/**
- * Valid Tailwind default category names
- */
-const VALID_DEFAULT_CATEGORIES: ReadonlyArray<keyof TailwindDefaultsOptions> = [
-  'colors',
-  'spacing',
-  'fonts',
-  'fontSize',
-  'fontWeight',
-  'tracking',
-  'leading',
-  'breakpoints',
-  'containers',
-  'radius',
-  'shadows',
-  'insetShadows',
-  'dropShadows',
-  'textShadows',
-  'blur',
-  'perspective',
-  'aspect',
-  'ease',
-  'animations',
-  'defaults',
-  'keyframes',
-];
-
-/**
- * Valid report category names
- */
-const VALID_REPORT_CATEGORIES: ReadonlyArray<keyof ReportGenerationOptions> = [
-  'conflicts',
-  'unresolved',
-];
-
 /**
  * Determines includeDefaults value from CLI options
  *
  * @param options - CLI options
- * @returns includeDefaults value (boolean or granular options)
+ * @returns includeDefaults value (boolean or granular options), or undefined without defaults flags
  */
 function determineIncludeTailwindDefaults(
   options: CliOptions,
-): boolean | TailwindDefaultsOptions {
+): boolean | TailwindDefaultsOptions | undefined {
   if (options['exclude-defaults'] === true) {
     // --exclude-defaults (no value) → exclude all
     return false;
@@ -364,17 +918,19 @@ function determineIncludeTailwindDefaults(
     );
   }
 
-  // Default: include all
-  return true;
+  // No flag: defer to the config file (default: include all)
+  return undefined;
 }
 
 /**
  * Determines report options from CLI options
  *
  * @param options - CLI options
- * @returns ReportGenerationOptions object
+ * @returns ReportGenerationOptions object, or undefined without report flags
  */
-function determineReportOptions(options: CliOptions): ReportGenerationOptions {
+function determineReportOptions(
+  options: CliOptions,
+): ReportGenerationOptions | undefined {
   if (options['exclude-reports'] === true) {
     // --exclude-reports (no value) → exclude all
     return {
@@ -411,11 +967,8 @@ function determineReportOptions(options: CliOptions): ReportGenerationOptions {
     );
   }
 
-  // Default: include all
-  return {
-    conflicts: true,
-    unresolved: true,
-  };
+  // No flag: defer to the config file (default: include all)
+  return undefined;
 }
 
 /**
@@ -464,141 +1017,470 @@ function parseFlattenMode(
 }
 
 /**
- * Determines nesting options from CLI flags
+ * Validates and parses colorFormat option
  *
- * @param options - CLI options
- * @returns NestingOptions object or undefined
+ * @param colorFormatStr - Color format string from CLI
+ * @returns Validated color format or undefined
  */
-function determineNestingOptions(
-  options: CliOptions,
-): NestingOptions | undefined {
-  const maxDepth = parseMaxDepth(options['nesting-max-depth']);
-  const consecutiveCamel = options['nesting-consecutive-camel'] ?? false;
-  const flattenMode = parseFlattenMode(options['nesting-flatten-mode']);
+function parseColorFormat(
+  colorFormatStr: string | undefined,
+): ColorFormat | undefined {
+  if (colorFormatStr === undefined) {
+    return undefined;
+  }
 
-  // If no nesting options provided, return undefined
   if (
-    maxDepth === undefined &&
-    !consecutiveCamel &&
-    flattenMode === undefined
+    colorFormatStr !== 'hex' &&
+    colorFormatStr !== 'rgb' &&
+    colorFormatStr !== 'hsl'
   ) {
-    return undefined;
+    console.error(
+      `Error: --color-format must be 'hex', 'rgb' or 'hsl' (got: ${colorFormatStr})\n`,
+    );
+    process.exit(1);
   }
 
-  // Build default config object
-  const defaultConfig = {
-    ...(maxDepth !== undefined && { maxDepth }),
-    ...(consecutiveCamel && { consecutiveDashesAsCamelCase: true }),
-    ...(flattenMode !== undefined && { flattenMode }),
-  };
-
-  // Return nesting options with default config
-  return {
-    default: defaultConfig,
-  };
+  return colorFormatStr;
 }
 
 /**
- * Determines defaults status string for logging
+ * Validates and parses rootFontSize option
  *
- * @param options - CLI options
- * @returns Status string
+ * @param rootFontSizeStr - Root font size string from CLI
+ * @returns Validated root font size in pixels or undefined
  */
-function getDefaultsStatus(options: CliOptions): string {
-  if (options['exclude-defaults'] === true) {
-    return 'all excluded';
-  }
-  if (typeof options['exclude-defaults'] === 'string') {
-    return `excluding ${options['exclude-defaults']}`;
+function parseRootFontSize(
+  rootFontSizeStr: string | undefined,
+): number | undefined {
+  if (rootFontSizeStr === undefined) {
+    return undefined;
   }
-  if (typeof options['include-defaults'] === 'string') {
-    return `only ${options['include-defaults']}`;
+
+  const rootFontSize = parseFloat(rootFontSizeStr);
+  if (isNaN(rootFontSize) || rootFontSize <= 0) {
+    console.error(
+      `Error: --root-font-size must be a positive number (got: ${rootFontSizeStr})\n`,
+    );
+    process.exit(1);
   }
-  return 'all included';
+
+  return rootFontSize;
 }
 
 /**
- * Determines reports status string for logging
+ * Determines math evaluation options from CLI flags
  *
  * @param options - CLI options
- * @returns Status string
+ * @param rootFontSize - Validated root font size (undefined uses the default)
+ * @returns Math evaluation options, or undefined without --evaluate-math
  */
-function getReportsStatus(options: CliOptions): string {
-  if (options['exclude-reports'] === true) {
-    return 'all disabled';
+function determineEvaluateMath(
+  options: CliOptions,
+  rootFontSize: number | undefined,
+): EvaluateMathOptions | true | undefined {
+  if (options['evaluate-math'] !== true) {
+    return undefined;
   }
-  if (typeof options['exclude-reports'] === 'string') {
-    return `excluding ${options['exclude-reports']}`;
+
+  return rootFontSize === undefined ? true : { rootFontSize };
+}
+
+/**
+ * Validates and parses --formats
+ *
+ * @param formatsStr - Comma-separated format names (e.g., 'dtcg,styleDictionary')
+ * @returns Formats enabled with default options, or undefined if not provided
+ */
+function parseFormats(
+  formatsStr: string | undefined,
+): OutputFormatOptions | undefined {
+  if (formatsStr === undefined) {
+    return undefined;
   }
-  if (typeof options.reports === 'string') {
-    return `only ${options.reports}`;
+
+  const formats: OutputFormatOptions = {};
+  const valid: ReadonlyArray<string> = VALID_OUTPUT_FORMATS;
+
+  for (const format of formatsStr.split(',').map((entry) => entry.trim())) {
+    if (!valid.includes(format)) {
+      console.error(
+        `Error: Invalid --formats entry: ${format} (valid: ${valid.join(', ')})\n`,
+      );
+      process.exit(1);
+    }
+    formats[format as keyof OutputFormatOptions] = true;
+  }
+
+  return formats;
+}
+
+/**
+ * Validates and parses --fail-on
+ *
+ * @param failOnStr - Comma-separated `<category>[:<level>]` entries (e.g., 'unresolved,conflicts:low')
+ * @returns Thresholds per category (`true` without a level), or undefined if not provided
+ */
+function parseFailOn(failOnStr: string | undefined): FailOnOptions | undefined {
+  if (failOnStr === undefined) {
+    return undefined;
+  }
+
+  const failOn: FailOnOptions = {};
+  const entries = failOnStr
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+
+  const categories: ReadonlyArray<string> = VALID_REPORT_CATEGORIES;
+  const levels: ReadonlyArray<string> = DIAGNOSTIC_LEVELS;
+
+  for (const entry of entries) {
+    const [category = '', level, ...rest] = entry.split(':');
+    const validLevel = level === undefined || levels.includes(level);
+
+    if (!categories.includes(category) || !validLevel || rest.length > 0) {
+      console.error(`Error: Invalid --fail-on entry: ${entry}\n`);
+      console.error(
+        `Use <category>[:<level>] with categories ${categories.join(', ')} and levels ${levels.join(', ')}\n`,
+      );
+      process.exit(1);
+    }
+
+    failOn[category as keyof FailOnOptions] =
+      (level as DiagnosticLevel | undefined) ?? true;
   }
-  return 'all enabled';
+
+  return failOn;
 }
 
 /**
- * Determines nesting status string for logging
+ * Validates and parses units option
+ *
+ * @param unitsStr - Length unit string from CLI
+ * @returns Validated length unit or undefined
+ */
+function parseLengthUnit(unitsStr: string | undefined): UnitsOptions['length'] {
+  if (unitsStr === undefined) {
+    return undefined;
+  }
+
+  if (unitsStr !== 'px' && unitsStr !== 'rem' && unitsStr !== 'number') {
+    console.error(
+      `Error: --units must be 'px', 'rem' or 'number' (got: ${unitsStr})\n`,
+    );
+    process.exit(1);
+  }
+
+  return unitsStr;
+}
+
+/**
+ * Validates and parses timeUnits option
+ *
+ * @param timeUnitsStr - Time unit string from CLI
+ * @returns Validated time unit or undefined
+ */
+function parseTimeUnit(timeUnitsStr: string | undefined): UnitsOptions['time'] {
+  if (timeUnitsStr === undefined) {
+    return undefined;
+  }
+
+  if (timeUnitsStr !== 'ms' && timeUnitsStr !== 's') {
+    console.error(
+      `Error: --time-units must be 'ms' or 's' (got: ${timeUnitsStr})\n`,
+    );
+    process.exit(1);
+  }
+
+  return timeUnitsStr;
+}
+
+/**
+ * Determines unit normalization options from CLI flags
  *
  * @param options - CLI options
- * @returns Status string
+ * @param rootFontSize - Validated root font size (undefined uses the default)
+ * @returns Units options, or undefined when no conversion is requested
  */
-function getNestingStatus(options: CliOptions): string {
-  const maxDepth = options['nesting-max-depth'];
+function determineUnits(
+  options: CliOptions,
+  rootFontSize: number | undefined,
+): UnitsOptions | undefined {
+  const length = parseLengthUnit(options.units);
+  const time = parseTimeUnit(options['time-units']);
+
+  if (length === undefined && time === undefined) {
+    return undefined;
+  }
+
+  return {
+    ...(length !== undefined && { length }),
+    ...(time !== undefined && { time }),
+    ...(rootFontSize !== undefined && { rootFontSize }),
+  };
+}
+
+/**
+ * Validates and parses alias options
+ *
+ * @param aliasStrs - Alias strings from CLI (e.g., ['@=./src', '~=./src'])
+ * @returns Alias map or undefined
+ */
+function parseAliases(
+  aliasStrs: Array<string> | undefined,
+): ImportAliases | undefined {
+  if (aliasStrs === undefined || aliasStrs.length === 0) {
+    return undefined;
+  }
+
+  const aliases: ImportAliases = {};
+
+  for (const aliasStr of aliasStrs) {
+    const separatorIndex = aliasStr.indexOf('=');
+    const prefix = aliasStr.slice(0, separatorIndex).trim();
+    const target = aliasStr.slice(separatorIndex + 1).trim();
+
+    if (separatorIndex === -1 || prefix === '' || target === '') {
+      console.error(
+        `Error: --alias must be in the form <prefix>=<path> (got: ${aliasStr})\n`,
+      );
+      process.exit(1);
+    }
+
+    aliases[prefix] = target;
+  }
+
+  return aliases;
+}
+
+/**
+ * Validates and parses --entry options
+ *
+ * @param entryStrs - Entry strings from CLI (e.g., ['apps/web/theme.css=apps/web/src/generated'])
+ * @returns Entries with absolute paths, or undefined
+ */
+function parseEntries(
+  entryStrs: Array<string> | undefined,
+): Array<ThemeEntryConfig> | undefined {
+  if (entryStrs === undefined || entryStrs.length === 0) {
+    return undefined;
+  }
+
+  const cwd = process.cwd();
+
+  return entryStrs.map((entryStr) => {
+    const separatorIndex = entryStr.indexOf('=');
+    const input = entryStr.slice(0, separatorIndex).trim();
+    const outputDir = entryStr.slice(separatorIndex + 1).trim();
+
+    if (separatorIndex === -1 || input === '' || outputDir === '') {
+      console.error(
+        `Error: --entry must be in the form <input>=<outputDir> (got: ${entryStr})\n`,
+      );
+      process.exit(1);
+    }
+
+    return { input: resolve(cwd, input), outputDir: resolve(cwd, outputDir) };
+  });
+}
+
+/**
+ * Determines nesting options from CLI flags
+ *
+ * @param options - CLI options
+ * @returns NestingOptions object or undefined
+ */
+function determineNestingOptions(
+  options: CliOptions,
+): NestingOptions | undefined {
+  const maxDepth = parseMaxDepth(options['nesting-max-depth']);
   const consecutiveCamel = options['nesting-consecutive-camel'] ?? false;
-  const flattenMode = options['nesting-flatten-mode'];
+  const flattenMode = parseFlattenMode(options['nesting-flatten-mode']);
 
+  // If no nesting options provided, return undefined
   if (
     maxDepth === undefined &&
     !consecutiveCamel &&
     flattenMode === undefined
   ) {
-    return 'default';
+    return undefined;
   }
 
+  // Build default config object
+  const defaultConfig = {
+    ...(maxDepth !== undefined && { maxDepth }),
+    ...(consecutiveCamel && { consecutiveDashes: 'camelcase' as const }),
+    ...(flattenMode !== undefined && { flattenMode }),
+  };
+
+  // Return nesting options with default config
+  return {
+    default: defaultConfig,
+  };
+}
+
+/**
+ * Describes which categories are enabled for logging
+ *
+ * @param value - Category toggles (boolean, or per-category object where unset means enabled)
+ * @param categories - All valid category names
+ * @param labels - Status strings for all and no categories enabled
+ * @param labels.all - Status when every category is enabled
+ * @param labels.none - Status when no category is enabled
+ * @returns Status string (e.g., 'only colors, spacing', 'excluding shadows')
+ */
+function getCategoriesStatus<T extends object>(
+  value: boolean | T,
+  categories: ReadonlyArray<keyof T & string>,
+  labels: { all: string; none: string },
+): string {
+  if (typeof value === 'boolean') {
+    return value ? labels.all : labels.none;
+  }
+
+  const included = categories.filter((category) => value[category] !== false);
+  const excluded = categories.filter((category) => value[category] === false);
+
+  if (excluded.length === 0) {
+    return labels.all;
+  }
+  if (included.length === 0) {
+    return labels.none;
+  }
+
+  return included.length <= excluded.length
+    ? `only ${included.join(', ')}`
+    : `excluding ${excluded.join(', ')}`;
+}
+
+/**
+ * Describes a single nesting config for logging
+ *
+ * @param config - Nesting config for one namespace
+ * @returns Status string (e.g., 'maxDepth=2, flatten=literal')
+ */
+function describeNestingConfig(config: NestingConfig): string {
   const parts: Array<string> = [];
-  if (maxDepth !== undefined) {
-    parts.push(`maxDepth=${maxDepth}`);
+  if (config.maxDepth !== undefined) {
+    parts.push(`maxDepth=${config.maxDepth}`);
   }
-  if (flattenMode !== undefined) {
-    parts.push(`flatten=${flattenMode}`);
+  if (config.flattenMode !== undefined) {
+    parts.push(`flatten=${config.flattenMode}`);
   }
-  if (consecutiveCamel) {
-    parts.push('consecutive-camel');
+  if (config.consecutiveDashes !== undefined) {
+    parts.push(`consecutiveDashes=${config.consecutiveDashes}`);
+  }
+  if (config.pattern !== undefined) {
+    parts.push(`pattern=${String(config.pattern)}`);
   }
 
   return parts.join(', ');
 }
 
+/**
+ * Determines nesting status string for logging
+ *
+ * @param nesting - Merged nesting options
+ * @returns Status string (namespaces other than `default` are labelled)
+ */
+function getNestingStatus(nesting: NestingOptions | undefined): string {
+  const entries = Object.entries(nesting ?? {}) as Array<
+    [string, NestingConfig | undefined]
+  >;
+  const parts = entries.flatMap(([namespace, config]) => {
+    if (config === undefined) {
+      return [];
+    }
+    const description = describeNestingConfig(config);
+    return namespace === 'default'
+      ? [description]
+      : [`${namespace}(${description})`];
+  });
+
+  return parts.length === 0 ? 'default' : parts.join(', ');
+}
+
+/**
+ * Determines math evaluation status string for logging
+ *
+ * @param evaluateMath - Merged math evaluation option
+ * @returns Status string describing math folding
+ */
+function getMathStatus(
+  evaluateMath: boolean | EvaluateMathOptions | undefined,
+): string {
+  if (evaluateMath === undefined || evaluateMath === false) {
+    return 'as authored';
+  }
+
+  return evaluateMath === true || evaluateMath.rootFontSize === undefined
+    ? 'folded'
+    : `folded (root font size: ${evaluateMath.rootFontSize}px)`;
+}
+
+/**
+ * Determines unit normalization status string for logging
+ *
+ * @param units - Merged units options
+ * @returns Status string describing unit conversion
+ */
+function getUnitsStatus(units: UnitsOptions | undefined): string {
+  const parts: Array<string> = [];
+  if (units?.length !== undefined) {
+    parts.push(`lengths=${units.length}`);
+  }
+  if (units?.time !== undefined) {
+    parts.push(`times=${units.time}`);
+  }
+
+  return parts.length === 0 ? 'as authored' : parts.join(', ');
+}
+
 /**
  * Logs the configuration before generation
  *
- * @param options - CLI options
- * @param outputDir - Resolved output directory
+ * @param settings - Settings resolved from the config file and CLI flags
+ * @param watch - Whether watch mode is enabled
  */
-function logConfiguration(options: CliOptions, outputDir: string): void {
+function logConfiguration(settings: ResolvedSettings, watch: boolean): void {
+  const { config, configPath, runtimeOptions, reportOptions } = settings;
+
   console.log('Tailwind Theme Resolver\n');
-  console.log(`  Input:    ${options.input}`);
-  console.log(`  Output:   ${outputDir}`);
-  console.log(`  Runtime:  ${options.runtime ? 'enabled' : 'disabled'}`);
-  console.log(`  Defaults: ${getDefaultsStatus(options)}`);
-  console.log(`  Reports:  ${getReportsStatus(options)}`);
-  console.log(`  Nesting:  ${getNestingStatus(options)}`);
-  console.log(`  Debug:    ${options.debug ? 'enabled' : 'disabled'}\n`);
+  if (configPath !== undefined) {
+    console.log(`  Config:   ${configPath}`);
+  }
+  console.log(`  Input:    ${settings.inputPath}`);
+  console.log(`  Output:   ${settings.outputDir}`);
+  console.log(
+    `  Runtime:  ${runtimeOptions === false ? 'disabled' : 'enabled'}`,
+  );
+  console.log(
+    `  Defaults: ${getCategoriesStatus(config.includeDefaults ?? true, VALID_DEFAULT_CATEGORIES, DEFAULTS_STATUS_LABELS)}`,
+  );
+  console.log(
+    `  Reports:  ${getCategoriesStatus(reportOptions, VALID_REPORT_CATEGORIES, REPORTS_STATUS_LABELS)}`,
+  );
+  console.log(`  Nesting:  ${getNestingStatus(config.nesting)}`);
+  console.log(`  Colors:   ${config.colorFormat ?? 'as authored'}`);
+  console.log(`  Math:     ${getMathStatus(config.evaluateMath)}`);
+  console.log(`  Units:    ${getUnitsStatus(config.units)}`);
+  console.log(`  Watch:    ${watch ? 'enabled' : 'disabled'}`);
+  console.log(
+    `  Debug:    ${config.debug === true ? 'enabled' : 'disabled'}\n`,
+  );
 }
 
 /**
  * Logs success message with generated files
  *
- * @param outputDir - Output directory path
- * @param generateRuntime - Whether runtime files were generated
+ * @param outputFiles - Absolute paths of the written files
  * @param conflictCount - Number of CSS conflicts detected (optional)
  * @param conflictReportPath - Path to conflict report (optional)
  * @param unresolvedCount - Number of unresolved variables detected (optional)
  * @param unresolvedReportPath - Path to unresolved report (optional)
  */
 function logSuccess(
-  outputDir: string,
-  generateRuntime: boolean,
+  outputFiles: Array<string>,
   conflictCount?: number,
   conflictReportPath?: string,
   unresolvedCount?: number,
@@ -606,10 +1488,8 @@ function logSuccess(
 ): void {
   console.log('✓ Theme types generated successfully\n');
   console.log('Generated files:');
-  console.log(`  - ${join(outputDir, OUTPUT_FILES.TYPES)}`);
-  if (generateRuntime) {
-    console.log(`  - ${join(outputDir, OUTPUT_FILES.THEME)}`);
-    console.log(`  - ${join(outputDir, OUTPUT_FILES.INDEX)}`);
+  for (const file of outputFiles) {
+    console.log(`  - ${file}`);
   }
 
   // Display conflict info if present
@@ -629,68 +1509,963 @@ function logSuccess(
   }
 }
 
-async function main(): Promise<void> {
+/**
+ * Logs an error without exiting (watch mode keeps running after failures)
+ *
+ * @param error - Error thrown during generation
+ */
+function logError(error: unknown): void {
+  if (error instanceof Error) {
+    console.error(`Error: ${error.message}`);
+  } else {
+    console.error('An unknown error occurred');
+  }
+}
+
+/**
+ * Input watched in watch mode
+ */
+interface WatchTarget {
+  /** Files to watch initially (processed by the last run) */
+  files: Array<string>;
+  /** Regenerates theme files and returns the processed files */
+  generate: () => Promise<Array<string>>;
+}
+
+/**
+ * Watches each target's files and regenerates it when one of them changes
+ * Errors are logged and watching continues
+ *
+ * @param targets - Inputs to watch
+ */
+function watchTargets(targets: Array<WatchTarget>): void {
+  const watchers = targets.map(({ files, generate }) =>
+    watchThemeFiles(files, generate, {
+      onChange: (file) => {
+        console.log(`\nChange detected in ${file}, regenerating...\n`);
+      },
+      onError: logError,
+    }),
+  );
+  const fileCount = new Set(watchers.flatMap((watcher) => [...watcher.files]))
+    .size;
+
+  console.log(
+    `\nWatching ${fileCount} file${fileCount === 1 ? '' : 's'} for changes (press Ctrl+C to stop)`,
+  );
+
+  process.on('SIGINT', () => {
+    for (const watcher of watchers) {
+      watcher.close();
+    }
+    process.exit(0);
+  });
+}
+
+/**
+ * Runs the initial generation and regenerates whenever a processed file changes
+ *
+ * Errors are logged and watching continues, so a typo in a CSS file
+ * does not stop the process. If the initial run fails, the input file is watched.
+ *
+ * @param inputPath - Absolute path to the CSS input file
+ * @param generate - Generates theme files and returns the processed files
+ */
+async function startWatchMode(
+  inputPath: string,
+  generate: () => Promise<Array<string>>,
+): Promise<void> {
+  let files = [inputPath];
+
   try {
-    const options = parseCliOptions();
-    validateOptions(options);
+    files = await generate();
+  } catch (error) {
+    logError(error);
+  }
 
-    const outputDir = options.output ?? autoDetectOutputDir(process.cwd());
-    logConfiguration(options, outputDir);
+  watchTargets([{ files, generate }]);
+}
 
-    // Derive basePath from input file's directory for resolving node_modules
-    const inputPath = options.input as string;
-    const absoluteInputPath = resolve(process.cwd(), inputPath);
-    const absoluteOutputDir = resolve(process.cwd(), outputDir);
-    const basePath = dirname(absoluteInputPath);
-
-    // Convert boolean runtime option to RuntimeGenerationOptions
-    // When --debug is enabled, include debug data (files, variables) in runtime
-    const runtimeOptions: RuntimeGenerationOptions | false =
-      options.runtime === false
-        ? false
-        : {
-            variants: true,
-            selectors: true,
-            files: options.debug as boolean, // Include when debug mode is on
-            variables: options.debug as boolean, // Include when debug mode is on
-          };
-
-    // Determine report options from CLI flags
-    const reportOptions = determineReportOptions(options);
-
-    // Determine includeDefaults value
-    const includeDefaults = determineIncludeTailwindDefaults(options);
-
-    // Determine nesting options from CLI flags
-    const nestingOptions = determineNestingOptions(options);
-
-    const result = await generateThemeFiles(
-      absoluteInputPath,
-      absoluteOutputDir,
-      true, // resolveImports
-      runtimeOptions,
-      includeDefaults,
-      options.debug as boolean,
-      basePath,
-      reportOptions,
-      undefined, // overrides (not exposed in CLI yet)
-      nestingOptions,
+/**
+ * Builds a config layer from the CLI flags that were passed
+ * Omitted flags stay undefined, so values from the config file apply
+ *
+ * @param options - CLI options
+ * @returns Config containing only explicitly passed options
+ */
+function buildCliConfig(options: CliOptions): ResolverConfig {
+  const cwd = process.cwd();
+
+  // Root font size is shared by math evaluation and unit normalization
+  const rootFontSize = parseRootFontSize(options['root-font-size']);
+  const aliases = parseAliases(options.alias);
+
+  return {
+    input:
+      options.input === undefined ? undefined : resolve(cwd, options.input),
+    outputDir:
+      options.output === undefined ? undefined : resolve(cwd, options.output),
+    includeDefaults: determineIncludeTailwindDefaults(options),
+    nesting: determineNestingOptions(options),
+    colorFormat: parseColorFormat(options['color-format']),
+    evaluateMath: determineEvaluateMath(options, rootFontSize),
+    units: determineUnits(options, rootFontSize),
+    aliases:
+      aliases === undefined ? undefined : resolveAliasTargets(aliases, cwd),
+    entries: parseEntries(options.entry),
+    formats: parseFormats(options.formats),
+    failOn: parseFailOn(options['fail-on']),
+    baseline:
+      options.baseline === undefined
+        ? undefined
+        : resolve(cwd, options.baseline),
+    debug: options.debug,
+  };
+}
+
+/**
+ * Determines runtime generation options from the config and --runtime/--no-runtime
+ * When debug mode is on, debug data (files, variables) is included in the runtime
+ *
+ * @param options - CLI options
+ * @param config - Merged config
+ * @returns Runtime generation options, or false for types only
+ */
+function determineRuntimeOptions(
+  options: CliOptions,
+  config: ResolverConfig,
+): RuntimeGenerationOptions | false {
+  if (options.runtime === false) {
+    return false;
+  }
+
+  // --runtime re-enables runtime generation disabled in the config file
+  const runtimeOptions = normalizeRuntimeOptions(
+    options.runtime === true && config.generateRuntime === false
+      ? true
+      : config.generateRuntime,
+  );
+
+  if (runtimeOptions === false || config.debug !== true) {
+    return runtimeOptions;
+  }
+
+  return { ...runtimeOptions, files: true, variables: true };
+}
+
+/**
+ * Layers overrides from the config file, --overrides file and --override flags
+ *
+ * @param options - CLI options
+ * @param config - Merged config
+ * @returns Merged overrides, or undefined if none are set
+ * @throws OverrideError if the overrides file or a flag is invalid
+ */
+async function determineOverrides(
+  options: CliOptions,
+  config: ResolverConfig,
+): Promise<OverrideOptions | undefined> {
+  const fileOverrides =
+    options.overrides === undefined
+      ? undefined
+      : await loadOverridesFile(options.overrides, process.cwd());
+  const flagOverrides = (options.override ?? []).map(parseOverrideFlag);
+
+  return mergeOverrides(config.overrides, fileOverrides, ...flagOverrides);
+}
+
+/**
+ * Loads the config file and layers the CLI flags on top
+ *
+ * @param options - CLI options
+ * @returns Merged config and the path of the loaded config file
+ */
+async function loadCliConfig(
+  options: CliOptions,
+): Promise<Pick<ResolvedSettings, 'config' | 'configPath'>> {
+  const loaded = await loadConfig(process.cwd(), options.config);
+  const config = mergeConfigs(loaded?.config ?? {}, buildCliConfig(options));
+  config.overrides = await determineOverrides(options, config);
+
+  // --input selects a single theme, so entries from the config file are skipped
+  if (options.input !== undefined) {
+    config.entries = undefined;
+  }
+
+  return { config, configPath: loaded?.path };
+}
+
+/**
+ * Returns the input file from the config, exiting with help if none is set
+ *
+ * @param config - Merged config
+ * @returns Absolute path to the CSS input file
+ */
+function requireInput(config: ResolverConfig): string {
+  if (config.input === undefined && config.entries !== undefined) {
+    console.error(
+      'Error: --input is required to select one theme when the config defines entries\n',
     );
+    process.exit(1);
+  }
+
+  if (config.input === undefined) {
+    console.error(
+      'Error: --input is required (or set `input` in tailwind-resolver.config)\n',
+    );
+    console.log(HELP_TEXT);
+    process.exit(1);
+  }
+
+  return config.input;
+}
+
+/**
+ * Derives the settings for generating one theme from a merged config
+ *
+ * @param options - CLI options
+ * @param loaded - Merged config (or entry config) and the config file path
+ * @returns Settings for generation
+ */
+function resolveSettings(
+  options: CliOptions,
+  loaded: Pick<ResolvedSettings, 'config' | 'configPath'>,
+): ResolvedSettings {
+  const cwd = process.cwd();
+  const { config, configPath } = loaded;
+  const inputPath = requireInput(config);
+
+  const runtimeOptions = determineRuntimeOptions(options, config);
+
+  // Report flags win; otherwise use generateRuntime.reports from the config file
+  const reportOptions =
+    determineReportOptions(options) ??
+    normalizeReportOptions(
+      runtimeOptions === false ? undefined : runtimeOptions.reports,
+    );
+
+  return {
+    config,
+    configPath,
+    inputPath,
+    outputDir: config.outputDir ?? resolve(cwd, autoDetectOutputDir(cwd)),
+    runtimeOptions,
+    reportOptions,
+  };
+}
+
+/**
+ * Checks that generated files on disk match the current CSS, without writing anything
+ * Prints a unified diff for each out-of-date file and exits with code 1 on drift
+ *
+ * @param settings - Settings resolved from the config file and CLI flags
+ */
+async function runCheck(settings: ResolvedSettings): Promise<void> {
+  const { config, inputPath, outputDir, runtimeOptions } = settings;
+
+  const { contents } = await renderThemeFiles({
+    inputPath,
+    outputDir,
+    resolveImports: config.resolveImports ?? true,
+    runtimeOptions,
+    includeDefaults: config.includeDefaults ?? true,
+    debug: config.debug ?? false,
+    basePath: dirname(inputPath),
+    overrides: config.overrides,
+    nesting: config.nesting,
+    colorFormat: config.colorFormat,
+    evaluateMath: config.evaluateMath,
+    units: config.units,
+    aliases: config.aliases,
+    formats: config.formats,
+  });
+
+  const drift = await checkGeneratedFiles(outputDir, contents);
+
+  if (drift.length === 0) {
+    console.log(`✓ Generated files in ${outputDir} are up to date`);
+    return;
+  }
+
+  for (const { diff } of drift) {
+    process.stdout.write(diff);
+  }
+  console.error(
+    `\n✖  ${drift.length} generated file${drift.length === 1 ? ' is' : 's are'} out of date (${drift.map(({ file }) => file).join(', ')})`,
+  );
+  console.error('   Run tailwind-resolver to regenerate them');
+  process.exit(1);
+}
+
+/**
+ * Compares the theme with a git revision or another CSS file and prints the changes
+ *
+ * @param settings - Settings resolved from the config file and CLI flags
+ * @param options - CLI options (--since, --against, --format)
+ */
+async function runDiff(
+  settings: ResolvedSettings,
+  options: CliOptions,
+): Promise<void> {
+  const { config, inputPath } = settings;
+  const cwd = process.cwd();
+  const baselinePath =
+    options.against === undefined ? inputPath : resolve(cwd, options.against);
+  const baselineLabel = relative(cwd, baselinePath);
+
+  const diff = await diffTheme({
+    before: { input: baselinePath, revision: options.since },
+    after: inputPath,
+    resolveImports: config.resolveImports,
+    includeDefaults: config.includeDefaults,
+    overrides: config.overrides,
+    nesting: config.nesting,
+    colorFormat: config.colorFormat,
+    evaluateMath: config.evaluateMath,
+    units: config.units,
+    aliases: config.aliases,
+    debug: config.debug,
+    basePath: dirname(inputPath),
+  });
+
+  const metadata = {
+    generatedAt: new Date().toISOString(),
+    before:
+      options.since === undefined
+        ? baselineLabel
+        : `${options.since}:${baselineLabel}`,
+    after: relative(cwd, inputPath),
+    version: await findPackageVersion(),
+  };
+
+  process.stdout.write(
+    `${options.format === 'json' ? generateThemeDiffJSON(diff, metadata) : generateThemeDiffMarkdown(diff, metadata)}\n`,
+  );
+
+  if (!hasThemeChanges(diff)) {
+    console.error('✓ No token changes');
+  }
+}
+
+/**
+ * Explains how a single token was resolved and prints the resolution chain
+ *
+ * @param settings - Settings resolved from the config file and CLI flags
+ * @param options - CLI options (token path, --variant, --format)
+ */
+async function runInspect(
+  settings: ResolvedSettings,
+  options: CliOptions,
+): Promise<void> {
+  const { config, inputPath } = settings;
+
+  const explanation = await explainToken({
+    input: inputPath,
+    path: options.argument ?? '',
+    variant: options.variant,
+    resolveImports: config.resolveImports,
+    includeDefaults: config.includeDefaults,
+    overrides: config.overrides,
+    nesting: config.nesting,
+    colorFormat: config.colorFormat,
+    evaluateMath: config.evaluateMath,
+    units: config.units,
+    aliases: config.aliases,
+    debug: config.debug,
+    basePath: dirname(inputPath),
+  });
+
+  process.stdout.write(
+    `${options.format === 'json' ? JSON.stringify(explanation, null, JSON_INDENT_SPACES) : formatTokenExplanation(explanation, process.cwd())}\n`,
+  );
+}
+
+/**
+ * Converts a Tailwind v3 config to v4 CSS
+ * The CSS goes to stdout (or -o) and the report to stderr
+ *
+ * @param options - CLI options (config path, --output)
+ */
+async function runMigrate(options: CliOptions): Promise<void> {
+  const cwd = process.cwd();
+  const configPath =
+    options.argument === undefined
+      ? findTailwindV3Config(cwd)
+      : resolve(cwd, options.argument);
+
+  if (configPath === null || !existsSync(configPath)) {
+    console.error(
+      `Error: Tailwind config not found: ${options.argument ?? `${V3_CONFIG_FILE_NAMES.join(', ')} in ${cwd}`}\n`,
+    );
+    process.exit(1);
+  }
+
+  const migration = migrateTailwindV3Config(
+    await readModuleFile(configPath),
+    relative(cwd, configPath),
+  );
+
+  if (options.output === undefined) {
+    process.stdout.write(migration.css);
+    console.error(formatMigrationReport(migration, 'stdout'));
+    return;
+  }
+
+  const outputPath = resolve(cwd, options.output);
+  await mkdir(dirname(outputPath), { recursive: true });
+  await writeFile(outputPath, migration.css, 'utf-8');
+  console.error(formatMigrationReport(migration, relative(cwd, outputPath)));
+}
+
+/**
+ * Converts Figma variables to overrides
+ * Only values that differ from the resolved theme are kept. The overrides go to
+ * stdout, or are merged into the -o file (imported values win).
+ *
+ * @param settings - Settings resolved from the config file and CLI flags
+ * @param options - CLI options (Figma variables file, --output)
+ */
+async function runImportFigma(
+  settings: ResolvedSettings,
+  options: CliOptions,
+): Promise<void> {
+  const { config, inputPath } = settings;
+  const cwd = process.cwd();
+  const documentPath = resolve(cwd, options.argument ?? '');
+
+  if (!existsSync(documentPath)) {
+    console.error(
+      `Error: Figma variables file not found: ${options.argument}\n`,
+    );
+    process.exit(1);
+  }
+
+  const baseline = await resolveTheme({
+    input: inputPath,
+    resolveImports: config.resolveImports,
+    includeDefaults: config.includeDefaults,
+    overrides: config.overrides,
+    nesting: config.nesting,
+    colorFormat: config.colorFormat,
+    evaluateMath: config.evaluateMath,
+    units: config.units,
+    aliases: config.aliases,
+    debug: config.debug,
+    basePath: dirname(inputPath),
+  });
+  const document: unknown = JSON.parse(await readFile(documentPath, 'utf-8'));
+  const imported = importFigmaVariables(document, {
+    baseline,
+    nesting: config.nesting,
+    rootFontSize: config.units?.rootFontSize,
+  });
+  const count = Object.values(imported).reduce(
+    (total, values) => total + Object.keys(values).length,
+    0,
+  );
+  const summary = `✓ Imported ${count} override${count === 1 ? '' : 's'} from ${relative(cwd, documentPath)}`;
+
+  if (options.output === undefined) {
+    process.stdout.write(
+      `${JSON.stringify(imported, null, JSON_INDENT_SPACES)}\n`,
+    );
+    console.error(summary);
+    return;
+  }
+
+  const outputPath = resolve(cwd, options.output);
+  const existing = existsSync(outputPath)
+    ? await loadOverridesFile(outputPath, cwd)
+    : undefined;
+  await mkdir(dirname(outputPath), { recursive: true });
+  await writeFile(
+    outputPath,
+    `${JSON.stringify(mergeOverrides(existing, imported) ?? {}, null, JSON_INDENT_SPACES)}\n`,
+    'utf-8',
+  );
+  console.error(`${summary} into ${relative(cwd, outputPath)}`);
+}
+
+/**
+ * Reads all of standard input
+ *
+ * @returns Standard input as text
+ */
+async function readStdin(): Promise<string> {
+  if (process.stdin.isTTY) {
+    console.error('Error: --stdin expects CSS piped to standard input\n');
+    process.exit(1);
+  }
+
+  const chunks: Array<Buffer> = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(Buffer.from(chunk as Buffer));
+  }
+
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+/**
+ * Renders the resolved theme in a --print format
+ *
+ * @param result - Resolved theme
+ * @param format - Print format ('json', 'ts' or 'types')
+ * @param sourceFile - Source shown in the type declarations header
+ * @param runtimeOptions - Runtime options for 'ts' (undefined uses production defaults)
+ * @returns Output for stdout
+ */
+function renderPrintOutput(
+  result: TailwindResult,
+  format: string | undefined,
+  sourceFile: string,
+  runtimeOptions: RuntimeGenerationOptions | undefined,
+): string {
+  if (format === 'ts') {
+    return generateRuntimeFile(result, DEFAULT_INTERFACE_NAME, runtimeOptions);
+  }
+
+  if (format === 'types') {
+    return generateTypeDeclarations(result, DEFAULT_INTERFACE_NAME, sourceFile);
+  }
+
+  return JSON.stringify(result, null, JSON_INDENT_SPACES);
+}
+
+/**
+ * Logs conflict and unresolved variable counts to stderr
+ *
+ * @param result - Resolved theme
+ */
+function logPrintDiagnostics(result: TailwindResult): void {
+  const conflictCount = result.cssConflicts?.length ?? 0;
+  const unresolvedCount = result.unresolvedVariables?.length ?? 0;
+
+  if (conflictCount > 0) {
+    console.error(
+      `⚠  ${conflictCount} CSS conflict${conflictCount === 1 ? '' : 's'} detected`,
+    );
+  }
+  if (unresolvedCount > 0) {
+    console.error(
+      `ℹ  ${unresolvedCount} unresolved variable${unresolvedCount === 1 ? '' : 's'} detected`,
+    );
+  }
+}
+
+/**
+ * Resolves the theme and prints it to stdout instead of writing files
+ * Diagnostics go to stderr, so stdout stays machine-readable
+ *
+ * @param options - CLI options (--print, --stdin, --base-path)
+ */
+async function runPrint(options: CliOptions): Promise<void> {
+  const { config } = await loadCliConfig(options);
+  const cwd = process.cwd();
+  const stdin = options.stdin === true;
+  const inputPath = stdin ? undefined : requireInput(config);
+
+  const result = await resolveTheme({
+    input: inputPath,
+    css: stdin ? await readStdin() : undefined,
+    resolveImports: config.resolveImports,
+    includeDefaults: config.includeDefaults,
+    overrides: config.overrides,
+    nesting: config.nesting,
+    colorFormat: config.colorFormat,
+    evaluateMath: config.evaluateMath,
+    units: config.units,
+    aliases: config.aliases,
+    debug: config.debug,
+    basePath:
+      inputPath === undefined
+        ? resolve(cwd, options['base-path'] ?? '.')
+        : dirname(inputPath),
+  });
+
+  const runtimeOptions = determineRuntimeOptions(options, config);
+
+  process.stdout.write(
+    `${renderPrintOutput(
+      result,
+      options.print,
+      inputPath === undefined ? 'stdin' : relative(cwd, inputPath),
+      runtimeOptions === false ? undefined : runtimeOptions,
+    )}\n`,
+  );
+
+  logPrintDiagnostics(result);
+}
+
+/**
+ * Exits with an error when --update-baseline has no baseline file to write
+ *
+ * @param options - CLI options
+ * @param config - Merged config
+ */
+function requireBaseline(options: CliOptions, config: ResolverConfig): void {
+  if (options['update-baseline'] === true && config.baseline === undefined) {
+    console.error(
+      'Error: --update-baseline requires --baseline <path> (or `baseline` in tailwind-resolver.config)\n',
+    );
+    process.exit(1);
+  }
+}
+
+/**
+ * Logs where a baseline was written
+ *
+ * @param path - Absolute path to the baseline file
+ * @param baseline - Written baseline
+ */
+function logBaselineWritten(path: string, baseline: DiagnosticsBaseline): void {
+  console.log(
+    `\n✓ Baseline written to ${relative(process.cwd(), path)} (${baseline.conflicts.length} conflicts, ${baseline.unresolved.length} unresolved variables)`,
+  );
+}
+
+/**
+ * Writes the baseline (--update-baseline) or fails on diagnostics above --fail-on
+ * In watch mode failures are logged and watching continues
+ *
+ * @param diagnostics - Diagnostics from generation
+ * @param config - Merged config
+ * @param options - CLI options
+ * @throws DiagnosticsError if new diagnostics exceed the thresholds (not in watch mode)
+ */
+async function checkDiagnostics(
+  diagnostics: ThemeDiagnostics,
+  config: ResolverConfig,
+  options: CliOptions,
+): Promise<void> {
+  if (options['update-baseline'] === true && config.baseline !== undefined) {
+    logBaselineWritten(
+      config.baseline,
+      await writeBaseline(config.baseline, diagnostics),
+    );
+    return;
+  }
+
+  try {
+    const gate = await enforceDiagnostics(diagnostics, {
+      failOn: config.failOn,
+      baseline: config.baseline,
+      baseDir: process.cwd(),
+    });
+
+    if (gate !== undefined && gate.baselined > 0) {
+      console.log(
+        `\nℹ  ${gate.baselined} known diagnostic${gate.baselined === 1 ? '' : 's'} accepted by baseline`,
+      );
+    }
+  } catch (error) {
+    if (options.watch !== true) {
+      throw error;
+    }
+    logError(error);
+  }
+}
+
+/**
+ * Generates theme files for one input
+ *
+ * @param settings - Settings resolved from the config file and CLI flags
+ * @returns Processed files and diagnostics
+ */
+async function generateFiles(
+  settings: ResolvedSettings,
+): Promise<Awaited<ReturnType<typeof generateThemeFiles>>> {
+  const { config, inputPath, outputDir, runtimeOptions, reportOptions } =
+    settings;
+
+  return generateThemeFiles({
+    inputPath,
+    outputDir,
+    resolveImports: config.resolveImports ?? true,
+    runtimeOptions,
+    includeDefaults: config.includeDefaults ?? true,
+    debug: config.debug ?? false,
+    // Derive basePath from input file's directory for resolving node_modules
+    basePath: dirname(inputPath),
+    reportOptions,
+    overrides: config.overrides,
+    nesting: config.nesting,
+    colorFormat: config.colorFormat,
+    evaluateMath: config.evaluateMath,
+    units: config.units,
+    aliases: config.aliases,
+    formats: config.formats,
+  });
+}
+
+/**
+ * Generates theme files for a single input, then watches it with --watch
+ *
+ * @param settings - Settings resolved from the config file and CLI flags
+ * @param options - CLI options
+ */
+async function runGenerate(
+  settings: ResolvedSettings,
+  options: CliOptions,
+): Promise<void> {
+  const { config, inputPath } = settings;
+  requireBaseline(options, config);
+  logConfiguration(settings, options.watch === true);
+
+  // Generates theme files and returns the processed files (input + imports)
+  const generate = async (): Promise<Array<string>> => {
+    const result = await generateFiles(settings);
 
     logSuccess(
-      outputDir,
-      options.runtime as boolean,
+      result.outputFiles,
       result.conflictCount,
       result.conflictReportPath,
       result.unresolvedCount,
       result.unresolvedReportPath,
     );
-  } catch (error) {
-    if (error instanceof Error) {
-      console.error(`Error: ${error.message}`);
-    } else {
-      console.error('An unknown error occurred');
+
+    await checkDiagnostics(result.diagnostics, config, options);
+
+    return result.files;
+  };
+
+  if (options.watch === true) {
+    await startWatchMode(inputPath, generate);
+    return;
+  }
+
+  await generate();
+}
+
+/**
+ * A config entry with its generation settings
+ */
+interface EntrySettings {
+  /** Entry name */
+  name: string;
+  /** Settings resolved from the entry config and CLI flags */
+  settings: ResolvedSettings;
+}
+
+/**
+ * Writes one baseline per baseline file, combining the diagnostics of entries that share it
+ *
+ * @param entries - Entries in generation order
+ * @param rows - Summary rows (diagnostics are missing for entries that failed to generate)
+ */
+async function updateEntryBaselines(
+  entries: Array<EntrySettings>,
+  rows: Array<EntrySummary>,
+): Promise<void> {
+  const byBaseline = new Map<string, ThemeDiagnostics>();
+
+  entries.forEach(({ settings }, index) => {
+    const { baseline } = settings.config;
+    const diagnostics = rows[index]?.diagnostics;
+    if (baseline === undefined || diagnostics === undefined) {
+      return;
+    }
+    const combined = byBaseline.get(baseline) ?? {
+      conflicts: [],
+      unresolved: [],
+    };
+    combined.conflicts.push(...diagnostics.conflicts);
+    combined.unresolved.push(...diagnostics.unresolved);
+    byBaseline.set(baseline, combined);
+  });
+
+  for (const [path, diagnostics] of byBaseline) {
+    logBaselineWritten(path, await writeBaseline(path, diagnostics));
+  }
+}
+
+/**
+ * Checks each entry's diagnostics against its --fail-on thresholds and baseline
+ * Marks failing entries in the summary and prints their diagnostics
+ *
+ * @param entries - Entries in generation order
+ * @param rows - Summary rows, updated in place
+ * @throws Error if a baseline file is missing or invalid
+ */
+async function gateEntries(
+  entries: Array<EntrySettings>,
+  rows: Array<EntrySummary>,
+): Promise<void> {
+  for (const [index, { name, settings }] of entries.entries()) {
+    const row = rows[index];
+    if (row?.diagnostics === undefined) {
+      continue;
+    }
+
+    try {
+      await enforceDiagnostics(row.diagnostics, {
+        failOn: settings.config.failOn,
+        baseline: settings.config.baseline,
+        baseDir: process.cwd(),
+      });
+    } catch (error) {
+      if (!(error instanceof DiagnosticsError)) {
+        throw error;
+      }
+      console.error(`\n[${name}] ${error.message}`);
+      row.status = 'failed';
+    }
+  }
+}
+
+/**
+ * Logs the configuration before generating several entries
+ *
+ * @param configPath - Path to the loaded config file, if one was found
+ * @param entries - Entries to generate
+ * @param watch - Whether watch mode is enabled
+ */
+function logEntriesConfiguration(
+  configPath: string | undefined,
+  entries: Array<EntrySettings>,
+  watch: boolean,
+): void {
+  console.log('Tailwind Theme Resolver\n');
+  if (configPath !== undefined) {
+    console.log(`  Config:   ${configPath}`);
+  }
+  console.log(`  Entries:  ${entries.map(({ name }) => name).join(', ')}`);
+  console.log(`  Watch:    ${watch ? 'enabled' : 'disabled'}\n`);
+}
+
+/**
+ * Generates every entry in one process, then prints a diagnostics summary per entry
+ * Entries run one after another, so Tailwind defaults and shared imports are parsed once.
+ * A failing entry does not stop the others; the run fails at the end.
+ *
+ * @param loaded - Merged config with `entries` and the config file path
+ * @param options - CLI options
+ * @throws Error if any entry failed to generate or exceeded its --fail-on thresholds
+ */
+async function runEntries(
+  loaded: Pick<ResolvedSettings, 'config' | 'configPath'>,
+  options: CliOptions,
+): Promise<void> {
+  const cwd = process.cwd();
+  const entries = resolveEntries(loaded.config, cwd).map(
+    ({ name, config }) => ({
+      name,
+      settings: resolveSettings(options, {
+        config,
+        configPath: loaded.configPath,
+      }),
+    }),
+  );
+
+  for (const { settings } of entries) {
+    requireBaseline(options, settings.config);
+  }
+  logEntriesConfiguration(loaded.configPath, entries, options.watch === true);
+
+  const rows: Array<EntrySummary> = [];
+  const targets: Array<WatchTarget> = [];
+
+  for (const { name, settings } of entries) {
+    const row: EntrySummary = {
+      name,
+      outputDir: settings.outputDir,
+      status: 'error',
+    };
+    const target: WatchTarget = {
+      files: [settings.inputPath],
+      generate: async () => {
+        const result = await generateFiles(settings);
+        console.log(`✓ ${name} regenerated`);
+        await checkDiagnostics(result.diagnostics, settings.config, {
+          ...options,
+          // Baselines shared by several entries are only written by the initial run
+          'update-baseline': false,
+        });
+        return result.files;
+      },
+    };
+
+    try {
+      // generateThemeFiles logs its own errors
+      const result = await generateFiles(settings);
+      row.status = 'ok';
+      row.diagnostics = result.diagnostics;
+      target.files = result.files;
+    } catch {
+      // Reported in the summary
     }
+
+    rows.push(row);
+    targets.push(target);
+  }
+
+  if (options['update-baseline'] === true) {
+    await updateEntryBaselines(entries, rows);
+  } else {
+    await gateEntries(entries, rows);
+  }
+
+  console.log(`\n${formatEntrySummary(rows, cwd)}`);
+
+  if (options.watch === true) {
+    watchTargets(targets);
+    return;
+  }
+
+  const failed = rows.filter((row) => row.status !== 'ok').length;
+  if (failed > 0) {
+    throw new Error(
+      `${failed} of ${rows.length} entries failed (see the summary above)`,
+    );
+  }
+}
+
+async function main(): Promise<void> {
+  try {
+    const options = parseCliOptions();
+    validateOptions(options);
+
+    if (options.print !== undefined) {
+      await runPrint(options);
+      return;
+    }
+
+    if (options.command === 'migrate') {
+      await runMigrate(options);
+      return;
+    }
+
+    const loaded = await loadCliConfig(options);
+
+    if (options.command === undefined && loaded.config.entries !== undefined) {
+      await runEntries(loaded, options);
+      return;
+    }
+
+    const settings = resolveSettings(options, loaded);
+
+    if (options.command === 'check') {
+      await runCheck(settings);
+      return;
+    }
+
+    if (options.command === 'diff') {
+      await runDiff(settings, options);
+      return;
+    }
+
+    if (options.command === 'inspect') {
+      await runInspect(settings, options);
+      return;
+    }
+
+    if (options.command === 'import-figma') {
+      await runImportFigma(settings, options);
+      return;
+    }
+
+    await runGenerate(settings, options);
+  } catch (error) {
+    logError(error);
     process.exit(1);
   }
 }
@@ -0,0 +1,131 @@
+/**
+ * Text output for CLI inspect mode
+ * Prints how a single token was resolved, one var() hop per line
+ */
+
+import type {
+  ConflictResolution,
+  ResolutionStep,
+  TokenExplanation,
+} from '../core';
+import type { SourceLocation } from '../types';
+
+import {
+  formatSourceLocation,
+  relativizeSourceLocation,
+} from '../core/utils/source_location';
+
+/**
+ * Formats a token value for display (strings as-is, everything else as JSON)
+ *
+ * @param value - Token value
+ * @returns Display string
+ */
+function formatValue(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * Formats a source location relative to the working directory
+ *
+ * @param location - Source location, if known
+ * @param baseDir - Directory paths are shown relative to
+ * @returns ` (file:line:column)`, or an empty string without a location
+ */
+function formatLocation(
+  location: SourceLocation | undefined,
+  baseDir: string,
+): string {
+  return location === undefined
+    ? ''
+    : ` (${formatSourceLocation(relativizeSourceLocation(location, baseDir))})`;
+}
+
+/**
+ * Describes the source of a resolution step
+ *
+ * @param step - Resolution step
+ * @returns Source label (e.g., 'theme', 'variant .dark', 'tailwind defaults')
+ */
+function describeSource(step: ResolutionStep): string {
+  if (step.source === 'variant') {
+    return `variant ${step.selector ?? step.variantName ?? ''}`.trim();
+  }
+
+  return step.source === 'defaults' ? 'tailwind defaults' : step.source;
+}
+
+/**
+ * Formats a conflicting CSS rule
+ *
+ * @param conflict - Conflict affecting the token
+ * @param baseDir - Directory paths are shown relative to
+ * @returns Conflict line
+ */
+function formatConflict(conflict: ConflictResolution, baseDir: string): string {
+  const status = conflict.applied ? 'applied' : 'not applied';
+  return `  ${conflict.ruleSelector}: ${conflict.ruleValue} (${conflict.confidence} confidence, ${status})${formatLocation(conflict.location, baseDir)}`;
+}
+
+/**
+ * Formats a token explanation for the terminal
+ *
+ * @param explanation - Token explanation from explainToken
+ * @param baseDir - Directory file paths are shown relative to
+ * @returns Multi-line text
+ *
+ * @example
+ * formatTokenExplanation(explanation, process.cwd())
+ * // colors.primary [dark: .dark]
+ * //   = #112233
+ * //
+ * // Resolution:
+ * //   1. --color-primary: var(--brand)  theme (src/theme.css:2:3)
+ * //   2. --brand: #112233  variant .dark (src/theme.css:11:3)
+ */
+export function formatTokenExplanation(
+  explanation: TokenExplanation,
+  baseDir: string,
+): string {
+  const lines = [
+    `${explanation.path} [${explanation.variant}: ${explanation.selector}]`,
+    `  = ${formatValue(explanation.value)}`,
+    '',
+    'Resolution:',
+  ];
+
+  if (explanation.chain.length === 0) {
+    lines.push('  (not declared by a CSS variable)');
+  }
+
+  explanation.chain.forEach((step, index) => {
+    lines.push(
+      `  ${index + 1}. ${step.variable}: ${step.value}  ${describeSource(step)}${formatLocation(step.location, baseDir)}`,
+    );
+  });
+
+  if (explanation.unresolved.length > 0) {
+    lines.push('', 'Unresolved (left as var()):');
+    lines.push(...explanation.unresolved.map((name) => `  ${name}`));
+  }
+
+  if (explanation.conflicts.length > 0) {
+    lines.push('', 'Conflicting CSS rules:');
+    lines.push(
+      ...explanation.conflicts.map((conflict) =>
+        formatConflict(conflict, baseDir),
+      ),
+    );
+  }
+
+  if (explanation.overrides.length > 0) {
+    lines.push('', 'Overrides:');
+    lines.push(
+      ...explanation.overrides.map(
+        (override) => `  ${override.selector} → ${override.value}`,
+      ),
+    );
+  }
+
+  return lines.join('\n');
+}
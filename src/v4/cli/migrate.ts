@@ -0,0 +1,90 @@
+/**
+ * CLI migrate command helpers
+ * Finds a Tailwind v3 config and prints the migration report
+ */
+
+import type { MigrationIssue, TailwindV3Migration } from '../core';
+
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+
+/**
+ * Tailwind v3 config file names, in lookup order
+ */
+export const V3_CONFIG_FILE_NAMES = [
+  'tailwind.config.js',
+  'tailwind.config.cjs',
+  'tailwind.config.mjs',
+  'tailwind.config.ts',
+];
+
+/**
+ * Report headings per issue kind, in output order
+ */
+const ISSUE_HEADINGS: Array<[MigrationIssue['kind'], string]> = [
+  ['unmapped', 'Not migrated'],
+  ['deprecated', 'Deprecated in Tailwind v4'],
+  ['converted', 'Converted'],
+];
+
+/**
+ * Finds the Tailwind v3 config in a directory
+ *
+ * @param directory - Directory to search (usually the project root)
+ * @returns Absolute path to the first matching config file, or null if none exists
+ */
+export function findTailwindV3Config(directory: string): string | null {
+  for (const fileName of V3_CONFIG_FILE_NAMES) {
+    const candidate = join(directory, fileName);
+    if (existsSync(candidate)) {
+      return candidate;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Formats a migration issue
+ *
+ * @param issue - Migration issue
+ * @returns Issue line
+ */
+function formatIssue(issue: MigrationIssue): string {
+  const replacement =
+    issue.replacement === undefined ? '' : ` (use ${issue.replacement})`;
+  return `  - ${issue.path}: ${issue.message}${replacement}`;
+}
+
+/**
+ * Formats the migration report for the terminal
+ *
+ * @param migration - Migration result
+ * @param output - Where the CSS was written (file path or 'stdout')
+ * @returns Multi-line text
+ *
+ * @example
+ * formatMigrationReport(migration, 'src/theme.css')
+ * // ✓ Migrated 42 theme variables to src/theme.css
+ * //
+ * // Not migrated:
+ * //   - theme.extend.opacity: No Tailwind v4 theme namespace; ...
+ */
+export function formatMigrationReport(
+  migration: TailwindV3Migration,
+  output: string,
+): string {
+  const count = migration.variableCount;
+  const lines = [
+    `✓ Migrated ${count} theme variable${count === 1 ? '' : 's'} to ${output}`,
+  ];
+
+  for (const [kind, heading] of ISSUE_HEADINGS) {
+    const issues = migration.issues.filter((issue) => issue.kind === kind);
+    if (issues.length > 0) {
+      lines.push('', `${heading}:`, ...issues.map(formatIssue));
+    }
+  }
+
+  return lines.join('\n');
+}
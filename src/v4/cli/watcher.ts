@@ -0,0 +1,169 @@
+/**
+ * File watcher for CLI watch mode
+ * Regenerates theme files when any processed CSS file changes
+ */
+
+import type { FSWatcher } from 'node:fs';
+
+import { watch } from 'node:fs';
+
+/**
+ * Default delay before regenerating, so editor save bursts trigger a single run
+ */
+const DEFAULT_DEBOUNCE_MS = 100;
+
+/**
+ * Options for watching theme files
+ */
+export interface WatchOptions {
+  /** Milliseconds to wait after the last change before regenerating (default: 100) */
+  debounceMs?: number;
+  /** Called when regeneration fails; watching continues afterwards */
+  onError?: (error: unknown) => void;
+  /** Called with the changed file before each regeneration */
+  onChange?: (file: string) => void;
+}
+
+/**
+ * Handle for a running theme watcher
+ */
+export interface ThemeWatcher {
+  /** Files currently being watched (the last processed file list) */
+  readonly files: ReadonlySet<string>;
+  /** Stops watching and cancels any pending regeneration */
+  close: () => void;
+}
+
+/**
+ * Watches theme files and regenerates on change
+ *
+ * Changes are debounced, and a change during regeneration schedules one more run.
+ * After each run the watch list is replaced by the returned files, so newly
+ * added `@import`s are picked up and removed ones are released. The changed
+ * file itself is always kept, since a syntax error drops it from the import graph.
+ *
+ * @param files - Files to watch initially (e.g., `result.files`)
+ * @param regenerate - Regenerates theme files and returns the files that were processed
+ * @param options - Watch options
+ * @returns Watcher handle
+ *
+ * @example
+ * const watcher = watchThemeFiles(result.files, async () => {
+ *   const next = await generateThemeFiles({
+ *     inputPath: input,
+ *     outputDir: output,
+ *     resolveImports: true,
+ *     runtimeOptions: false,
+ *     includeDefaults: true,
+ *   });
+ *   return next.files;
+ * });
+ */
+export function watchThemeFiles(
+  files: Array<string>,
+  regenerate: () => Promise<Array<string>>,
+  options: WatchOptions = {},
+): ThemeWatcher {
+  const { debounceMs = DEFAULT_DEBOUNCE_MS, onError, onChange } = options;
+  const watchers = new Map<string, FSWatcher>();
+  let watchedFiles = new Set(files);
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let running = false;
+  let pending = false;
+  let closed = false;
+  let changedFile = '';
+
+  const unwatch = (file: string): void => {
+    watchers.get(file)?.close();
+    watchers.delete(file);
+  };
+
+  const run = async (): Promise<void> => {
+    if (running) {
+      pending = true;
+      return;
+    }
+
+    running = true;
+    const file = changedFile;
+    onChange?.(file);
+
+    try {
+      const next = await regenerate();
+      // An import that fails to parse is dropped from the processed files;
+      // keep watching the file being edited so fixing it triggers a rebuild
+      syncWatchers(
+        next.includes(file) || !watchedFiles.has(file) ? next : [...next, file],
+      );
+    } catch (error) {
+      onError?.(error);
+      // Files replaced on save need a new watcher even when generation fails
+      syncWatchers([...watchedFiles]);
+    } finally {
+      running = false;
+    }
+
+    if (pending && !closed) {
+      pending = false;
+      await run();
+    }
+  };
+
+  const schedule = (file: string): void => {
+    if (closed) {
+      return;
+    }
+    changedFile = file;
+    clearTimeout(timer);
+    timer = setTimeout(() => void run(), debounceMs);
+  };
+
+  const watchFile = (file: string): void => {
+    try {
+      const watcher = watch(file, (eventType) => {
+        // Editors that save by replacing the file end this watcher
+        if (eventType === 'rename') {
+          unwatch(file);
+        }
+        schedule(file);
+      });
+      watcher.on('error', () => unwatch(file));
+      watchers.set(file, watcher);
+    } catch {
+      // Missing files (e.g., deleted imports) are watched again once regenerated
+    }
+  };
+
+  function syncWatchers(next: Array<string>): void {
+    if (closed) {
+      return;
+    }
+
+    watchedFiles = new Set(next);
+    for (const file of [...watchers.keys()]) {
+      if (!watchedFiles.has(file)) {
+        unwatch(file);
+      }
+    }
+    for (const file of watchedFiles) {
+      if (!watchers.has(file)) {
+        watchFile(file);
+      }
+    }
+  }
+
+  syncWatchers(files);
+
+  return {
+    get files() {
+      return watchedFiles;
+    },
+    close() {
+      closed = true;
+      clearTimeout(timer);
+      for (const file of [...watchers.keys()]) {
+        unwatch(file);
+      }
+    },
+  };
+}
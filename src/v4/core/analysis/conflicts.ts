@@ -3,7 +3,7 @@
  * Analyzes CSS rules against theme variables to detect overrides
  */
 
-import type { Theme } from '../../types';
+import type { SourceLocation, Theme } from '../../types';
 import type { CSSRuleOverride } from '../extraction/rules';
 
 import { mapPropertyToTheme } from '../extraction/rules';
@@ -36,6 +36,8 @@ export interface CSSRuleConflict {
   confidence: 'high' | 'medium' | 'low';
   /** Original CSS rule override */
   cssRule: CSSRuleOverride;
+  /** Where the overriding CSS rule declaration was written */
+  location?: SourceLocation;
 }
 
 /**
@@ -150,6 +152,7 @@ export function detectConflicts(
       canResolve,
       confidence,
       cssRule: rule,
+      location: rule.location,
     });
   }
 
@@ -0,0 +1,455 @@
+/**
+ * Token resolution tracing
+ * Explains how a single theme token got its value: each var() hop, the source
+ * that supplied it, and any conflict auto-resolution or override applied
+ */
+
+import type {
+  CSSVariable,
+  NestingOptions,
+  OverrideOptions,
+  SourceLocation,
+  ThemeVariant,
+} from '../../types';
+import type { CSSRuleConflict } from './conflicts';
+
+import { hasThemeMode, variantNameToCamelCase } from '../parser/extractor';
+import { getVariableThemePath } from '../theme/builder';
+import {
+  injectVariableOverrides,
+  parseOverrideConfig,
+  resolveVariantName,
+} from '../theme/overrides';
+import { isRecord } from '../utils/type_guards';
+import { filterResolvableConflicts } from './conflicts';
+
+/**
+ * Compiled regex pattern for var() references the builder substitutes (no fallback)
+ */
+const VAR_REFERENCE_REGEX_GLOBAL = /var\((--[\w-]+)\)/g;
+
+/**
+ * Key that holds a scalar value when a token also has nested tokens
+ */
+const DEFAULT_KEY = 'DEFAULT';
+
+/**
+ * Where a value in the resolution chain came from
+ * - `theme`, `root`, `variant`: user CSS (`@theme`, `:root`, variant selectors)
+ * - `defaults`: Tailwind's default theme
+ * - `override`: a variable injected by the `overrides` option
+ */
+export type ResolutionSource =
+  | 'theme'
+  | 'root'
+  | 'variant'
+  | 'defaults'
+  | 'override';
+
+/**
+ * A single declaration in a token's resolution chain
+ */
+export interface ResolutionStep {
+  /** Variable name (e.g., '--color-primary') */
+  variable: string;
+  /** Declared value, before var() substitution */
+  value: string;
+  /** Source that supplied the declaration */
+  source: ResolutionSource;
+  /** Variant name for variant declarations (e.g., 'dark') */
+  variantName?: string;
+  /** CSS selector for variant declarations (e.g., '.dark') */
+  selector?: string;
+  /** Where the variable was declared */
+  location?: SourceLocation;
+}
+
+/**
+ * A CSS rule that conflicts with the token
+ */
+export interface ConflictResolution {
+  /** CSS selector of the conflicting rule */
+  ruleSelector: string;
+  /** Value from the CSS rule */
+  ruleValue: string;
+  /** Value from the CSS variable */
+  variableValue: string;
+  /** Confidence level for resolution */
+  confidence: 'high' | 'medium' | 'low';
+  /** Whether the rule value was applied to the token */
+  applied: boolean;
+  /** Where the CSS rule declaration was written */
+  location?: SourceLocation;
+}
+
+/**
+ * A theme override that was applied to the token
+ */
+export interface OverrideResolution {
+  /** Override key that matched the variant ('*', variant name or selector) */
+  selector: string;
+  /** Value written to the token */
+  value: string;
+}
+
+/**
+ * How a token got its value
+ */
+export interface TokenExplanation {
+  /** Token path (e.g., 'colors.primary') */
+  path: string;
+  /** Variant name ('default' for the base theme) */
+  variant: string;
+  /** CSS selector of the variant */
+  selector: string;
+  /** Final value in the resolved theme */
+  value: unknown;
+  /**
+   * Declarations in resolution order: the variable that places the token,
+   * followed by every variable reached through var() references
+   * Empty when no variable declares the token (e.g., keyframes)
+   */
+  chain: Array<ResolutionStep>;
+  /** var() references with no declaration (left as-is in the value) */
+  unresolved: Array<string>;
+  /** CSS rules that conflict with the token */
+  conflicts: Array<ConflictResolution>;
+  /** Theme overrides applied to the token, in order (the last one wins) */
+  overrides: Array<OverrideResolution>;
+}
+
+/**
+ * Inputs needed to explain a token
+ */
+export interface ExplainContext {
+  /** Token path (e.g., 'colors.primary') */
+  path: string;
+  /** Variant name as in the resolved result ('default' for the base theme) */
+  variant: string;
+  /** Final value in the resolved theme */
+  value: unknown;
+  /** Selectors of all resolved variants, keyed by variant name */
+  selectors: Record<string, string>;
+  /** Raw variables from extraction (values still contain var() references) */
+  variables: Array<CSSVariable>;
+  /** Original Tailwind default variables */
+  defaultVariables?: Array<CSSVariable>;
+  /** CSS rule conflicts detected while building the theme */
+  cssConflicts: Array<CSSRuleConflict>;
+  /** Theme overrides */
+  overrides?: OverrideOptions;
+  /** Nesting configuration */
+  nesting?: NestingOptions;
+}
+
+/**
+ * A declaration with the source it is attributed to
+ */
+interface SourcedVariable {
+  variable: CSSVariable;
+  source: ResolutionSource;
+}
+
+/**
+ * Reads a token from a theme by dot path
+ *
+ * @param theme - Resolved theme
+ * @param path - Dot-separated token path
+ * @returns Token value, or undefined if the path does not exist
+ */
+export function getTokenValue(theme: unknown, path: string): unknown {
+  let current = theme;
+
+  for (const key of path.split('.')) {
+    if (!isRecord(current)) {
+      return undefined;
+    }
+    current = current[key];
+  }
+
+  return current;
+}
+
+/**
+ * Lists the declarations visible to a variant, lowest precedence first
+ * Mirrors the resolution map the builder creates for the variant
+ *
+ * @param context - Explain context
+ * @returns Visible declarations with their sources
+ */
+function collectVisibleVariables(
+  context: ExplainContext,
+): Array<SourcedVariable> {
+  // Injected overrides are appended after the extracted variables
+  const withInjected = [...context.variables];
+  if (context.overrides !== undefined) {
+    injectVariableOverrides(withInjected, context.overrides);
+  }
+
+  const sourced = withInjected.map(
+    (variable, index): SourcedVariable => ({
+      variable,
+      source: index < context.variables.length ? variable.source : 'override',
+    }),
+  );
+  const theme = sourced.filter(
+    (v) => v.variable.source === 'theme' && v.source !== 'override',
+  );
+  const root = sourced.filter((v) => v.variable.source === 'root');
+  const variant = collectVariantVariables(sourced, context.variant);
+
+  return [
+    ...(context.defaultVariables ?? []).map(
+      (variable): SourcedVariable => ({ variable, source: 'defaults' }),
+    ),
+    // `@theme default` values are overridable, so they come first
+    ...theme.filter((v) => hasThemeMode(v.variable, 'default')),
+    ...theme.filter((v) => !hasThemeMode(v.variable, 'default')),
+    ...sourced.filter((v) => v.source === 'override'),
+    ...root,
+    ...variant,
+  ];
+}
+
+/**
+ * Collects declarations of a variant and its parent variants (for nested variants)
+ *
+ * @param sourced - All declarations
+ * @param variant - Variant name as in the resolved result
+ * @returns Parent variant declarations followed by the variant's own
+ */
+function collectVariantVariables(
+  sourced: Array<SourcedVariable>,
+  variant: string,
+): Array<SourcedVariable> {
+  const variantVariables = sourced.filter(
+    (v) =>
+      v.variable.source === 'variant' && v.variable.variantName !== undefined,
+  );
+  const own = variantVariables.filter(
+    (v) => variantNameToCamelCase(v.variable.variantName ?? '') === variant,
+  );
+  const rawName = own[0]?.variable.variantName ?? '';
+
+  if (!rawName.includes('.')) {
+    return own;
+  }
+
+  const parents = rawName
+    .split('.')
+    .flatMap((part) =>
+      variantVariables.filter((v) => v.variable.variantName === part),
+    );
+
+  return [...parents, ...own];
+}
+
+/**
+ * Checks whether a variable is placed at the token path
+ *
+ * @param variable - Declaration to check
+ * @param path - Requested token path
+ * @param nesting - Nesting configuration
+ * @returns True if the variable places the token
+ */
+function placesToken(
+  variable: CSSVariable,
+  path: string,
+  nesting?: NestingOptions,
+): boolean {
+  if (hasThemeMode(variable, 'reference') || variable.value === 'initial') {
+    return false;
+  }
+
+  const placed = getVariableThemePath(variable.name, nesting)?.join('.');
+
+  // A scalar moves to DEFAULT when nested tokens share its key
+  return placed === path || `${placed}.${DEFAULT_KEY}` === path;
+}
+
+/**
+ * Finds the declaration that places the token (the last one wins)
+ *
+ * @param visible - Declarations visible to the variant, lowest precedence first
+ * @param context - Explain context
+ * @returns The placing declaration, or undefined
+ */
+function findPlacingVariable(
+  visible: Array<SourcedVariable>,
+  context: ExplainContext,
+): SourcedVariable | undefined {
+  // Variants only contain user tokens; defaults are merged into the base theme
+  const candidates = visible.filter(
+    (v) =>
+      v.source !== 'override' &&
+      (v.source !== 'defaults' || context.variant === 'default'),
+  );
+  const user = candidates.filter((v) => v.source !== 'defaults');
+  const defaults = candidates.filter((v) => v.source === 'defaults');
+
+  const matches = (v: SourcedVariable): boolean =>
+    placesToken(v.variable, context.path, context.nesting);
+
+  return user.findLast(matches) ?? defaults.findLast(matches);
+}
+
+/**
+ * Converts a declaration to a resolution step
+ *
+ * @param sourced - Declaration with its source
+ * @param sourced.variable - Declared variable
+ * @param sourced.source - Source the declaration is attributed to
+ * @returns Resolution step
+ */
+function toStep({ variable, source }: SourcedVariable): ResolutionStep {
+  return {
+    variable: variable.name,
+    value: variable.value,
+    source,
+    ...(variable.variantName !== undefined && {
+      variantName: variable.variantName,
+    }),
+    ...(variable.selector !== undefined && { selector: variable.selector }),
+    ...(variable.location !== undefined && { location: variable.location }),
+  };
+}
+
+/**
+ * Follows var() references depth-first, recording each declaration once
+ *
+ * @param value - Value to follow references in
+ * @param lookup - Winning declaration per variable name
+ * @param explanation - Explanation to append steps and unresolved references to
+ * @param visited - Variables already followed (prevents loops)
+ */
+function followReferences(
+  value: string,
+  lookup: Map<string, SourcedVariable>,
+  explanation: Pick<TokenExplanation, 'chain' | 'unresolved'>,
+  visited: Set<string>,
+): void {
+  for (const match of value.matchAll(VAR_REFERENCE_REGEX_GLOBAL)) {
+    const name = match[1];
+    if (name === undefined || visited.has(name)) {
+      continue;
+    }
+    visited.add(name);
+
+    const declaration = lookup.get(name);
+    if (declaration === undefined) {
+      explanation.unresolved.push(name);
+      continue;
+    }
+
+    explanation.chain.push(toStep(declaration));
+    followReferences(declaration.variable.value, lookup, explanation, visited);
+  }
+}
+
+/**
+ * Finds CSS rule conflicts for the token
+ *
+ * @param context - Explain context
+ * @returns Conflicts with whether they were auto-resolved
+ */
+function findConflicts(context: ExplainContext): Array<ConflictResolution> {
+  const resolvable = new Set(filterResolvableConflicts(context.cssConflicts));
+
+  return context.cssConflicts
+    .filter(
+      (conflict) =>
+        variantNameToCamelCase(conflict.variantName) === context.variant &&
+        `${conflict.themeProperty}.${conflict.themeKey}` === context.path,
+    )
+    .map((conflict) => ({
+      ruleSelector: conflict.ruleSelector,
+      ruleValue: conflict.ruleValue,
+      variableValue: conflict.variableValue,
+      confidence: conflict.confidence,
+      applied: resolvable.has(conflict),
+      ...(conflict.location !== undefined && { location: conflict.location }),
+    }));
+}
+
+/**
+ * Finds theme overrides applied to the token
+ *
+ * @param context - Explain context
+ * @returns Applied overrides in order
+ */
+function findOverrides(context: ExplainContext): Array<OverrideResolution> {
+  if (context.overrides === undefined) {
+    return [];
+  }
+
+  // resolveVariantName only needs variant names and selectors
+  const variants = Object.fromEntries(
+    Object.entries(context.selectors)
+      .filter(([name]) => name !== 'default')
+      .map(([name, selector]): [string, ThemeVariant] => [
+        name,
+        { selector, theme: {} as ThemeVariant['theme'] },
+      ]),
+  );
+
+  return Object.entries(context.overrides).flatMap(([selector, config]) =>
+    resolveVariantName(selector, variants).includes(context.variant)
+      ? parseOverrideConfig(config)
+          .filter((override) => override.path.join('.') === context.path)
+          .map((override) => ({ selector, value: override.value }))
+      : [],
+  );
+}
+
+/**
+ * Explains how a token got its value
+ *
+ * Finds the variable that places the token (the last declaration wins, as in
+ * the builder), then follows each var() reference through the declarations
+ * visible to the variant: Tailwind defaults, `@theme`, injected overrides,
+ * `:root`, parent variants and the variant itself.
+ *
+ * @param context - Resolved value, raw variables and resolution options
+ * @returns Resolution chain, unresolved references, conflicts and overrides
+ *
+ * @example
+ * const explanation = explainTokenResolution({
+ *   path: 'colors.background',
+ *   variant: 'dark',
+ *   value: '#000',
+ *   selectors: { default: ':root', dark: '.dark' },
+ *   variables,
+ *   cssConflicts: [],
+ * });
+ * // explanation.chain: --color-background (theme) → --background (variant .dark)
+ */
+export function explainTokenResolution(
+  context: ExplainContext,
+): TokenExplanation {
+  const visible = collectVisibleVariables(context);
+  const lookup = new Map(visible.map((v) => [v.variable.name, v]));
+  const placing = findPlacingVariable(visible, context);
+
+  const explanation: TokenExplanation = {
+    path: context.path,
+    variant: context.variant,
+    selector: context.selectors[context.variant] ?? '',
+    value: context.value,
+    chain: [],
+    unresolved: [],
+    conflicts: findConflicts(context),
+    overrides: findOverrides(context),
+  };
+
+  if (placing !== undefined) {
+    explanation.chain.push(toStep(placing));
+    followReferences(
+      placing.variable.value,
+      lookup,
+      explanation,
+      new Set([placing.variable.name]),
+    );
+  }
+
+  return explanation;
+}
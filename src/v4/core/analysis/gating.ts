@@ -0,0 +1,342 @@
+/**
+ * Diagnostic gating
+ * Decides which conflicts and unresolved variables fail generation,
+ * accepting the known issues recorded in a baseline
+ */
+
+import type {
+  DiagnosticLevel,
+  FailOnOptions,
+  SourceLocation,
+} from '../../types';
+import type { CSSRuleConflict } from './conflicts';
+import type { UnresolvedVariable } from './unresolved';
+
+import {
+  formatSourceLocation,
+  relativizeSourceLocation,
+} from '../utils/source_location';
+
+/**
+ * Diagnostic levels from least to most severe
+ */
+export const DIAGNOSTIC_LEVELS: ReadonlyArray<DiagnosticLevel> = [
+  'low',
+  'medium',
+  'high',
+];
+
+/**
+ * Diagnostics collected while resolving a theme
+ */
+export interface ThemeDiagnostics {
+  /** CSS rules that conflict with theme variables */
+  conflicts: Array<CSSRuleConflict>;
+  /** var() references that could not be resolved */
+  unresolved: Array<UnresolvedVariable>;
+}
+
+/**
+ * Accepted conflict in a baseline
+ */
+export interface BaselineConflict {
+  /** Variant name (e.g., 'dark') */
+  variant: string;
+  /** Selector of the overriding CSS rule */
+  selector: string;
+  /** Token path (e.g., 'radius.lg') */
+  token: string;
+}
+
+/**
+ * Accepted unresolved variable in a baseline
+ */
+export interface BaselineUnresolved {
+  /** Variable containing the reference (e.g., '--font-sans') */
+  variable: string;
+  /** Referenced variable (e.g., '--font-geist-sans') */
+  reference: string;
+  /** Where the variable was declared */
+  source: UnresolvedVariable['source'];
+  /** Variant name if declared in a variant */
+  variant?: string;
+}
+
+/**
+ * Known diagnostics that do not fail generation
+ */
+export interface DiagnosticsBaseline {
+  conflicts: Array<BaselineConflict>;
+  unresolved: Array<BaselineUnresolved>;
+}
+
+/**
+ * Outcome of checking diagnostics against `failOn` thresholds
+ */
+export interface GateResult {
+  /** Whether any diagnostic met its threshold */
+  failed: boolean;
+  /** New conflicts at or above the conflicts threshold */
+  conflicts: Array<CSSRuleConflict>;
+  /** New unresolved variables at or above the unresolved threshold */
+  unresolved: Array<UnresolvedVariable>;
+  /** Number of diagnostics accepted by the baseline */
+  baselined: number;
+}
+
+/**
+ * Thresholds used when only a baseline is given: every new diagnostic fails
+ */
+const FAIL_ON_ANY: FailOnOptions = { conflicts: true, unresolved: true };
+
+/**
+ * Gets the level of a conflict (its confidence)
+ *
+ * @param conflict - CSS rule conflict
+ * @returns Diagnostic level
+ */
+export function getConflictLevel(conflict: CSSRuleConflict): DiagnosticLevel {
+  return conflict.confidence;
+}
+
+/**
+ * Gets the level of an unresolved variable
+ *
+ * Unknown references without a fallback are most likely typos or missing imports;
+ * Tailwind (`--tw-*`) and self-referential variables are expected to stay unresolved.
+ *
+ * @param variable - Unresolved variable
+ * @returns Diagnostic level
+ */
+export function getUnresolvedLevel(
+  variable: UnresolvedVariable,
+): DiagnosticLevel {
+  if (variable.likelyCause !== 'unknown') {
+    return 'low';
+  }
+
+  return variable.fallbackValue === undefined ? 'high' : 'medium';
+}
+
+/**
+ * Checks whether a level meets a category threshold
+ *
+ * @param level - Diagnostic level
+ * @param threshold - Category threshold from `failOn`
+ * @returns True if the diagnostic fails generation
+ */
+function meetsThreshold(
+  level: DiagnosticLevel,
+  threshold: boolean | DiagnosticLevel | undefined,
+): boolean {
+  if (threshold === undefined || threshold === false) {
+    return false;
+  }
+
+  return (
+    threshold === true ||
+    DIAGNOSTIC_LEVELS.indexOf(level) >= DIAGNOSTIC_LEVELS.indexOf(threshold)
+  );
+}
+
+/**
+ * Converts a conflict to its baseline entry
+ *
+ * @param conflict - CSS rule conflict
+ * @returns Baseline entry
+ */
+function toBaselineConflict(conflict: CSSRuleConflict): BaselineConflict {
+  return {
+    variant: conflict.variantName,
+    selector: conflict.ruleSelector,
+    token: `${conflict.themeProperty}.${conflict.themeKey}`,
+  };
+}
+
+/**
+ * Converts an unresolved variable to its baseline entry
+ *
+ * @param variable - Unresolved variable
+ * @returns Baseline entry
+ */
+function toBaselineUnresolved(
+  variable: UnresolvedVariable,
+): BaselineUnresolved {
+  return {
+    variable: variable.variableName,
+    reference: variable.referencedVariable,
+    source: variable.source,
+    ...(variable.variantName !== undefined && {
+      variant: variable.variantName,
+    }),
+  };
+}
+
+/**
+ * Creates the identity key of a baseline conflict
+ *
+ * @param entry - Baseline conflict
+ * @returns Key
+ */
+function conflictKey(entry: BaselineConflict): string {
+  return JSON.stringify([entry.variant, entry.selector, entry.token]);
+}
+
+/**
+ * Creates the identity key of a baseline unresolved variable
+ *
+ * @param entry - Baseline unresolved variable
+ * @returns Key
+ */
+function unresolvedKey(entry: BaselineUnresolved): string {
+  return JSON.stringify([
+    entry.source,
+    entry.variant ?? '',
+    entry.variable,
+    entry.reference,
+  ]);
+}
+
+/**
+ * Removes duplicate entries and sorts them by key, so baselines diff cleanly
+ *
+ * @param entries - Baseline entries
+ * @param getKey - Identity key of an entry
+ * @returns Unique entries in key order
+ */
+function uniqueSorted<T>(
+  entries: Array<T>,
+  getKey: (entry: T) => string,
+): Array<T> {
+  const byKey = new Map(entries.map((entry) => [getKey(entry), entry]));
+
+  return [...byKey]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([, entry]) => entry);
+}
+
+/**
+ * Creates a baseline accepting all current diagnostics
+ *
+ * @param diagnostics - Diagnostics from theme resolution
+ * @returns Baseline with sorted, de-duplicated entries
+ */
+export function createDiagnosticsBaseline(
+  diagnostics: ThemeDiagnostics,
+): DiagnosticsBaseline {
+  return {
+    conflicts: uniqueSorted(
+      diagnostics.conflicts.map(toBaselineConflict),
+      conflictKey,
+    ),
+    unresolved: uniqueSorted(
+      diagnostics.unresolved.map(toBaselineUnresolved),
+      unresolvedKey,
+    ),
+  };
+}
+
+/**
+ * Checks diagnostics against `failOn` thresholds
+ * Diagnostics recorded in the baseline never fail.
+ *
+ * @param diagnostics - Diagnostics from theme resolution
+ * @param failOn - Thresholds per category (default: fail on any diagnostic)
+ * @param baseline - Accepted diagnostics
+ * @returns Failing diagnostics and the number accepted by the baseline
+ *
+ * @example
+ * evaluateDiagnostics(diagnostics, { unresolved: true, conflicts: 'low' }, baseline)
+ * // { failed: true, conflicts: [], unresolved: [...], baselined: 3 }
+ */
+export function evaluateDiagnostics(
+  diagnostics: ThemeDiagnostics,
+  failOn: FailOnOptions = FAIL_ON_ANY,
+  baseline?: DiagnosticsBaseline,
+): GateResult {
+  const acceptedConflicts = new Set(
+    (baseline?.conflicts ?? []).map(conflictKey),
+  );
+  const acceptedUnresolved = new Set(
+    (baseline?.unresolved ?? []).map(unresolvedKey),
+  );
+
+  const newConflicts = diagnostics.conflicts.filter(
+    (conflict) =>
+      !acceptedConflicts.has(conflictKey(toBaselineConflict(conflict))),
+  );
+  const newUnresolved = diagnostics.unresolved.filter(
+    (variable) =>
+      !acceptedUnresolved.has(unresolvedKey(toBaselineUnresolved(variable))),
+  );
+
+  const conflicts = newConflicts.filter((conflict) =>
+    meetsThreshold(getConflictLevel(conflict), failOn.conflicts),
+  );
+  const unresolved = newUnresolved.filter((variable) =>
+    meetsThreshold(getUnresolvedLevel(variable), failOn.unresolved),
+  );
+
+  return {
+    failed: conflicts.length + unresolved.length > 0,
+    conflicts,
+    unresolved,
+    baselined:
+      diagnostics.conflicts.length -
+      newConflicts.length +
+      diagnostics.unresolved.length -
+      newUnresolved.length,
+  };
+}
+
+/**
+ * Formats a source location suffix
+ *
+ * @param location - Source location, if known
+ * @param baseDir - Directory paths are shown relative to
+ * @returns ` (file:line:column)`, or an empty string without a location
+ */
+function formatLocation(
+  location: SourceLocation | undefined,
+  baseDir: string | undefined,
+): string {
+  return location === undefined
+    ? ''
+    : ` (${formatSourceLocation(relativizeSourceLocation(location, baseDir))})`;
+}
+
+/**
+ * Formats the diagnostics that failed generation
+ *
+ * @param result - Failed gate result
+ * @param baseDir - Directory file paths are shown relative to
+ * @returns Multi-line message
+ *
+ * @example
+ * formatGateFailure(result, process.cwd())
+ * // 2 diagnostics exceed the fail-on thresholds (1 accepted by baseline):
+ * //   - unresolved (high): --color-brand references --brand-500 in theme (src/theme.css:4:3)
+ * //   - conflict (high): .dark .rounded-lg overrides radius.lg in dark (src/theme.css:20:5)
+ */
+export function formatGateFailure(
+  result: GateResult,
+  baseDir?: string,
+): string {
+  const count = result.conflicts.length + result.unresolved.length;
+  const accepted =
+    result.baselined > 0 ? ` (${result.baselined} accepted by baseline)` : '';
+
+  const lines = [
+    `${count} diagnostic${count === 1 ? '' : 's'} exceed${count === 1 ? 's' : ''} the fail-on thresholds${accepted}:`,
+    ...result.unresolved.map(
+      (variable) =>
+        `  - unresolved (${getUnresolvedLevel(variable)}): ${variable.variableName} references ${variable.referencedVariable} in ${variable.variantName ?? variable.source}${formatLocation(variable.location, baseDir)}`,
+    ),
+    ...result.conflicts.map(
+      (conflict) =>
+        `  - conflict (${getConflictLevel(conflict)}): ${conflict.ruleSelector} overrides ${conflict.themeProperty}.${conflict.themeKey} in ${conflict.variantName}${formatLocation(conflict.location, baseDir)}`,
+    ),
+  ];
+
+  return lines.join('\n');
+}
@@ -0,0 +1,300 @@
+/**
+ * Token-level theme comparison
+ * Compares two resolved themes per variant and token path
+ */
+
+import { isRecord } from '../utils/type_guards';
+
+/**
+ * Name of the base variant that other variants are layered over
+ */
+const DEFAULT_VARIANT = 'default';
+
+/**
+ * Kind of change between two themes
+ */
+export type ThemeChangeType = 'added' | 'removed' | 'changed';
+
+/**
+ * A token whose value differs between two themes
+ */
+export interface TokenChange {
+  /** Variant name ('default' for the base theme) */
+  variant: string;
+  /** Dot-separated token path (e.g., 'colors.primary.500') */
+  path: string;
+  /** Whether the token was added, removed or changed */
+  type: ThemeChangeType;
+  /** Previous value (undefined for added tokens) */
+  before?: unknown;
+  /** New value (undefined for removed tokens) */
+  after?: unknown;
+}
+
+/**
+ * A variant that was added, removed or moved to another selector
+ */
+export interface VariantChange {
+  /** Variant name */
+  variant: string;
+  /** Whether the variant was added, removed or its selector changed */
+  type: ThemeChangeType;
+  /** Previous selector (undefined for added variants) */
+  before?: string;
+  /** New selector (undefined for removed variants) */
+  after?: string;
+}
+
+/**
+ * Result of comparing two themes
+ */
+export interface ThemeDiff {
+  /** Added, removed and re-targeted variants */
+  variants: Array<VariantChange>;
+  /** Added, removed and changed tokens, grouped by variant */
+  tokens: Array<TokenChange>;
+}
+
+/**
+ * The parts of a resolved theme that are compared
+ */
+export interface ComparableTheme {
+  /** Resolved themes keyed by variant name */
+  variants: Record<string, unknown>;
+  /** Selectors keyed by variant name */
+  selectors: Record<string, string>;
+}
+
+/**
+ * Flattens a theme object into token paths and leaf values
+ * Arrays and primitives are leaves; empty objects produce no tokens
+ *
+ * @param value - Theme (or nested theme object)
+ * @param prefix - Path of `value` within the theme
+ * @param tokens - Map to collect tokens into
+ * @returns The collected tokens
+ */
+function flattenTokens(
+  value: unknown,
+  prefix = '',
+  tokens = new Map<string, unknown>(),
+): Map<string, unknown> {
+  if (!isRecord(value)) {
+    if (prefix !== '' && value !== undefined) {
+      tokens.set(prefix, value);
+    }
+    return tokens;
+  }
+
+  for (const [key, child] of Object.entries(value)) {
+    flattenTokens(child, prefix === '' ? key : `${prefix}.${key}`, tokens);
+  }
+
+  return tokens;
+}
+
+/**
+ * Compares two leaf values structurally
+ *
+ * @param a - First value
+ * @param b - Second value
+ * @returns True if both values serialize to the same JSON
+ */
+function isSameValue(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Collects keys from both sides, keeping the order of `before` and appending new keys
+ *
+ * @param before - Previous keys
+ * @param after - New keys
+ * @returns Union of keys
+ */
+function unionKeys(
+  before: Iterable<string>,
+  after: Iterable<string>,
+): Array<string> {
+  return [...new Set([...before, ...after])];
+}
+
+/**
+ * Flattens the effective tokens of a variant
+ * Layered variants are the default theme with the variant's own tokens on top.
+ *
+ * @param theme - Theme holding the variant
+ * @param variant - Variant name
+ * @param layered - Whether to layer the variant over the default theme
+ * @returns Effective tokens of the variant
+ */
+function flattenVariantTokens(
+  theme: ComparableTheme,
+  variant: string,
+  layered: boolean,
+): Map<string, unknown> {
+  const tokens = flattenTokens(theme.variants[variant]);
+
+  return layered
+    ? new Map([...flattenTokens(theme.variants[DEFAULT_VARIANT]), ...tokens])
+    : tokens;
+}
+
+/**
+ * Checks whether a variant token change is the base theme change showing through
+ *
+ * @param change - Change of a layered variant token
+ * @param baseChange - Change of the same path in the default theme
+ * @returns True if both changes have the same type and values
+ */
+function isInheritedChange(
+  change: TokenChange,
+  baseChange: TokenChange | undefined,
+): boolean {
+  return (
+    baseChange !== undefined &&
+    change.type === baseChange.type &&
+    isSameValue(change.before, baseChange.before) &&
+    isSameValue(change.after, baseChange.after)
+  );
+}
+
+/**
+ * Compares the tokens of a single variant
+ *
+ * @param variant - Variant name
+ * @param beforeTokens - Previous tokens (empty if the variant was added)
+ * @param afterTokens - New tokens (empty if the variant was removed)
+ * @returns Token changes in path order
+ */
+function diffVariantTokens(
+  variant: string,
+  beforeTokens: Map<string, unknown>,
+  afterTokens: Map<string, unknown>,
+): Array<TokenChange> {
+  const changes: Array<TokenChange> = [];
+
+  for (const path of unionKeys(beforeTokens.keys(), afterTokens.keys())) {
+    const oldValue = beforeTokens.get(path);
+    const newValue = afterTokens.get(path);
+
+    if (!beforeTokens.has(path)) {
+      changes.push({ variant, path, type: 'added', after: newValue });
+    } else if (!afterTokens.has(path)) {
+      changes.push({ variant, path, type: 'removed', before: oldValue });
+    } else if (!isSameValue(oldValue, newValue)) {
+      changes.push({
+        variant,
+        path,
+        type: 'changed',
+        before: oldValue,
+        after: newValue,
+      });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Compares the presence and selector of a variant
+ *
+ * @param variant - Variant name
+ * @param before - Baseline theme
+ * @param after - Theme compared against the baseline
+ * @returns The variant change, or null if the variant is unchanged
+ */
+function diffVariant(
+  variant: string,
+  before: ComparableTheme,
+  after: ComparableTheme,
+): VariantChange | null {
+  const oldSelector = before.selectors[variant];
+  const newSelector = after.selectors[variant];
+
+  if (!(variant in before.variants)) {
+    return { variant, type: 'added', after: newSelector };
+  }
+  if (!(variant in after.variants)) {
+    return { variant, type: 'removed', before: oldSelector };
+  }
+  return oldSelector === newSelector
+    ? null
+    : { variant, type: 'changed', before: oldSelector, after: newSelector };
+}
+
+/**
+ * Compares two resolved themes per variant and token path
+ *
+ * Variants present on both sides are compared layered over that side's default
+ * theme, and only changes that differ from the default theme's change of the
+ * same path are reported: a base change the variant does not override shows up
+ * once under `default`, while a variant whose override was removed reports its
+ * value changing to the base value. Tokens of added or removed variants are
+ * reported as added or removed tokens.
+ * Values are compared structurally, so array values (e.g., font stacks kept as
+ * arrays) only count as changed when their contents differ.
+ *
+ * @param before - Baseline theme (e.g., resolved from `main`)
+ * @param after - Theme to compare against the baseline
+ * @returns Variant and token changes; both empty when the themes are equal
+ *
+ * @example
+ * const diff = diffThemes(
+ *   { variants: { default: { colors: { primary: 'blue' } } }, selectors: { default: ':root' } },
+ *   { variants: { default: { colors: { primary: 'red' } } }, selectors: { default: ':root' } },
+ * );
+ * // diff.tokens: [{ variant: 'default', path: 'colors.primary', type: 'changed', before: 'blue', after: 'red' }]
+ */
+export function diffThemes(
+  before: ComparableTheme,
+  after: ComparableTheme,
+): ThemeDiff {
+  const diff: ThemeDiff = { variants: [], tokens: [] };
+  const variantNames = unionKeys(
+    Object.keys(before.variants),
+    Object.keys(after.variants),
+  );
+
+  const baseChanges = new Map(
+    diffVariantTokens(
+      DEFAULT_VARIANT,
+      flattenVariantTokens(before, DEFAULT_VARIANT, false),
+      flattenVariantTokens(after, DEFAULT_VARIANT, false),
+    ).map((change) => [change.path, change]),
+  );
+
+  for (const variant of variantNames) {
+    const variantChange = diffVariant(variant, before, after);
+    if (variantChange !== null) {
+      diff.variants.push(variantChange);
+    }
+
+    const layered =
+      variant !== DEFAULT_VARIANT &&
+      variant in before.variants &&
+      variant in after.variants;
+    const changes = diffVariantTokens(
+      variant,
+      flattenVariantTokens(before, variant, layered),
+      flattenVariantTokens(after, variant, layered),
+    );
+    diff.tokens.push(
+      ...changes.filter(
+        (change) =>
+          !layered || !isInheritedChange(change, baseChanges.get(change.path)),
+      ),
+    );
+  }
+
+  return diff;
+}
+
+/**
+ * Checks whether a theme diff contains any changes
+ *
+ * @param diff - Theme diff
+ * @returns True if any variant or token changed
+ */
+export function hasThemeChanges(diff: ThemeDiff): boolean {
+  return diff.variants.length > 0 || diff.tokens.length > 0;
+}
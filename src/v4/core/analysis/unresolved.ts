@@ -3,7 +3,7 @@
  * Detects CSS variables with var() references that couldn't be resolved
  */
 
-import type { CSSVariable } from '../../types';
+import type { CSSVariable, SourceLocation } from '../../types';
 
 /**
  * Compiled regex pattern for var() reference extraction (global flag)
@@ -35,6 +35,8 @@ export interface UnresolvedVariable {
   selector?: string;
   /** Likely cause of unresolved reference */
   likelyCause: UnresolvedCause;
+  /** Where the variable was declared */
+  location?: SourceLocation;
 }
 
 /**
@@ -185,6 +187,7 @@ export function detectUnresolvedVariables(
         variantName: original.variantName,
         selector: original.selector,
         likelyCause,
+        location: original.location,
       });
     }
   }
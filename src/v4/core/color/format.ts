@@ -0,0 +1,164 @@
+/**
+ * Color format conversion for resolved theme colors
+ * Serializes parsed CSS colors as hex, rgb() or hsl() strings
+ */
+
+import type { ColorFormat, ThemeColors } from '../../types';
+import type { ColorTriplet } from './spaces';
+
+import { isRecord, isString } from '../utils/type_guards';
+import { parseColor } from './parser';
+import { srgbToHsl, toSrgbGamut } from './spaces';
+
+const MAX_CHANNEL_VALUE = 255;
+const HEX_RADIX = 16;
+const HEX_PAIR_LENGTH = 2;
+
+/**
+ * Decimal places kept for alpha and HSL components in rgb()/hsl() output
+ */
+const ALPHA_PRECISION = 1000;
+const HSL_PRECISION = 10;
+const FULL_CIRCLE_DEGREES = 360;
+
+/**
+ * Rounds a value to a fixed precision, normalizing negative zero
+ *
+ * @param value - Value to round
+ * @param precision - Multiplier defining the number of decimals (e.g., 1000)
+ * @returns Rounded value
+ */
+function round(value: number, precision: number): number {
+  return Math.round(value * precision) / precision + 0;
+}
+
+/**
+ * Converts 0-1 sRGB channels to 0-255 integers
+ *
+ * @param rgb - sRGB channels in the 0-1 range
+ * @returns Integer channels in the 0-255 range
+ */
+function toByteChannels(rgb: ColorTriplet): ColorTriplet {
+  return rgb.map((channel) =>
+    Math.round(channel * MAX_CHANNEL_VALUE),
+  ) as ColorTriplet;
+}
+
+/**
+ * Formats a 0-255 channel as a two-digit hex string
+ *
+ * @param channel - Channel value in the 0-255 range
+ * @returns Two-digit lowercase hex string
+ */
+function toHexPair(channel: number): string {
+  return channel.toString(HEX_RADIX).padStart(HEX_PAIR_LENGTH, '0');
+}
+
+/**
+ * Serializes sRGB channels and alpha in the requested format
+ *
+ * @param rgb - Gamut-mapped sRGB channels in the 0-1 range
+ * @param alpha - Alpha in the 0-1 range
+ * @param format - Output format
+ * @returns Serialized CSS color string
+ */
+function serialize(
+  rgb: ColorTriplet,
+  alpha: number,
+  format: ColorFormat,
+): string {
+  const hasAlpha = alpha < 1;
+
+  if (format === 'hex') {
+    const bytes = toByteChannels(rgb);
+    const alphaPair = hasAlpha
+      ? toHexPair(Math.round(alpha * MAX_CHANNEL_VALUE))
+      : '';
+    return `#${bytes.map(toHexPair).join('')}${alphaPair}`;
+  }
+
+  const alphaValue = round(alpha, ALPHA_PRECISION);
+
+  if (format === 'rgb') {
+    const [red, green, blue] = toByteChannels(rgb);
+    return hasAlpha
+      ? `rgba(${red}, ${green}, ${blue}, ${alphaValue})`
+      : `rgb(${red}, ${green}, ${blue})`;
+  }
+
+  const [hue, saturation, lightness] = srgbToHsl(rgb);
+  const h = round(hue, HSL_PRECISION) % FULL_CIRCLE_DEGREES;
+  const s = round(saturation, HSL_PRECISION);
+  const l = round(lightness, HSL_PRECISION);
+  return hasAlpha
+    ? `hsla(${h}, ${s}%, ${l}%, ${alphaValue})`
+    : `hsl(${h}, ${s}%, ${l}%)`;
+}
+
+/**
+ * Converts a CSS color value to the requested output format
+ *
+ * Colors outside the sRGB gamut (e.g., wide-gamut oklch() or display-p3
+ * values) are gamut mapped in OKLCH rather than clipped per channel, so hue
+ * is preserved. Values that cannot be parsed as a color (var() references,
+ * color-mix(), named colors) are returned unchanged.
+ *
+ * @param value - CSS color value
+ * @param format - Output format
+ * @returns Converted color string, or the original value if it is not a supported color
+ *
+ * @example
+ * convertColor('oklch(62.3% 0.214 259.815)', 'hex') // '#2b7fff'
+ * convertColor('oklch(62.3% 0.214 259.815 / 50%)', 'rgb') // 'rgba(43, 127, 255, 0.5)'
+ * convertColor('var(--primary)', 'hex') // 'var(--primary)'
+ */
+export function convertColor(value: string, format: ColorFormat): string {
+  const parsed = parseColor(value);
+
+  if (parsed === null) {
+    return value;
+  }
+
+  return serialize(toSrgbGamut(parsed), parsed.alpha, format);
+}
+
+/**
+ * Converts every color in a theme colors object to the requested format
+ * Returns a new object; nested color scales are copied, never mutated
+ *
+ * @param colors - Theme colors (flat values or nested color scales)
+ * @param format - Output format
+ * @returns New colors object with converted values
+ */
+export function formatThemeColors(
+  colors: ThemeColors,
+  format: ColorFormat,
+): ThemeColors {
+  return formatColorRecord(colors, format) as ThemeColors;
+}
+
+/**
+ * Recursively converts color strings within a nested record
+ *
+ * @param record - Record containing color strings or nested records
+ * @param format - Output format
+ * @returns New record with converted values
+ */
+function formatColorRecord(
+  record: Record<string, unknown>,
+  format: ColorFormat,
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(record)) {
+    if (isString(value)) {
+      result[key] = convertColor(value, format);
+    } else if (isRecord(value)) {
+      result[key] = formatColorRecord(value, format);
+    } else {
+      result[key] = value;
+    }
+  }
+
+  return result;
+}
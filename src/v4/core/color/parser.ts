@@ -0,0 +1,380 @@
+/**
+ * CSS Color 4 value parser
+ * Parses hex, rgb(), hsl(), hwb(), lab(), lch(), oklab(), oklch() and color()
+ */
+
+import type { ColorSpace, ColorTriplet, ParsedColor } from './spaces';
+
+/**
+ * Compiled regex patterns for color parsing (avoid recompilation on each call)
+ */
+const HEX_COLOR_REGEX = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const COLOR_FUNCTION_REGEX = /^([a-z][a-z0-9-]*)\(([^()]*)\)$/i;
+const NUMBER_REGEX =
+  /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(%|deg|rad|grad|turn)?$/i;
+const WHITESPACE_REGEX = /\s+/;
+
+/**
+ * Hex notation lengths and channel ranges
+ */
+const SHORT_HEX_RGB_LENGTH = 3; // #rgb
+const SHORT_HEX_RGBA_LENGTH = 4; // #rgba
+const SHORT_HEX_LENGTHS = new Set([
+  SHORT_HEX_RGB_LENGTH,
+  SHORT_HEX_RGBA_LENGTH,
+]);
+const HEX_PAIR_LENGTH = 2;
+const HEX_RADIX = 16;
+const MAX_CHANNEL_VALUE = 255;
+const PERCENT = 100;
+const DEGREES_PER_HALF_TURN = 180;
+const DEGREES_PER_RADIAN = DEGREES_PER_HALF_TURN / Math.PI;
+
+/**
+ * Number of channels in every supported color function (excluding alpha)
+ */
+const CHANNEL_COUNT = 3;
+
+/**
+ * Angle unit multipliers for converting hue values to degrees
+ */
+const ANGLE_TO_DEGREES: Record<string, number> = {
+  deg: 1,
+  rad: DEGREES_PER_RADIAN,
+  grad: 0.9,
+  turn: 360,
+};
+
+/**
+ * How a single color function component maps plain numbers and percentages
+ * into the color space's native units
+ */
+interface ComponentSpec {
+  /** Multiplier applied to plain numbers */
+  number: number;
+  /** Value that 100% corresponds to */
+  percent: number;
+  /** Whether the component is a hue angle */
+  hue?: boolean;
+  /** Upper bound of the component; values are clamped to 0-max when set */
+  max?: number;
+}
+
+const HUE: ComponentSpec = { number: 1, percent: 1, hue: true };
+const UNIT_RANGE: ComponentSpec = { number: 1, percent: 1 };
+const PERCENT_RANGE: ComponentSpec = { number: 1, percent: PERCENT };
+
+/**
+ * Components of the sRGB syntaxes (rgb(), hsl(), hwb())
+ * CSS Color 4 clamps them at parse time, so out-of-range values never reach
+ * gamut mapping (rgb(300 0 0) is red, not a lighter hue-preserving color).
+ */
+const RGB_CHANNEL: ComponentSpec = {
+  number: 1 / MAX_CHANNEL_VALUE,
+  percent: 1,
+  max: 1,
+};
+const SRGB_PERCENT: ComponentSpec = { ...PERCENT_RANGE, max: PERCENT };
+
+/**
+ * Color function definitions keyed by CSS function name
+ * Percentage references follow the CSS Color 4 specification
+ */
+const COLOR_FUNCTIONS: Record<
+  string,
+  {
+    space: ColorSpace;
+    components: [ComponentSpec, ComponentSpec, ComponentSpec];
+  }
+> = {
+  rgb: { space: 'srgb', components: [RGB_CHANNEL, RGB_CHANNEL, RGB_CHANNEL] },
+  rgba: { space: 'srgb', components: [RGB_CHANNEL, RGB_CHANNEL, RGB_CHANNEL] },
+  hsl: { space: 'hsl', components: [HUE, SRGB_PERCENT, SRGB_PERCENT] },
+  hsla: { space: 'hsl', components: [HUE, SRGB_PERCENT, SRGB_PERCENT] },
+  hwb: { space: 'hwb', components: [HUE, SRGB_PERCENT, SRGB_PERCENT] },
+  lab: {
+    space: 'lab',
+    components: [
+      PERCENT_RANGE,
+      { number: 1, percent: 125 },
+      { number: 1, percent: 125 },
+    ],
+  },
+  lch: {
+    space: 'lch',
+    components: [PERCENT_RANGE, { number: 1, percent: 150 }, HUE],
+  },
+  oklab: {
+    space: 'oklab',
+    components: [
+      UNIT_RANGE,
+      { number: 1, percent: 0.4 },
+      { number: 1, percent: 0.4 },
+    ],
+  },
+  oklch: {
+    space: 'oklch',
+    components: [UNIT_RANGE, { number: 1, percent: 0.4 }, HUE],
+  },
+};
+
+/**
+ * Predefined color spaces accepted by the color() function
+ */
+const PREDEFINED_SPACES: Record<string, ColorSpace> = {
+  srgb: 'srgb',
+  'srgb-linear': 'srgb-linear',
+  'display-p3': 'display-p3',
+  rec2020: 'rec2020',
+  xyz: 'xyz-d65',
+  'xyz-d65': 'xyz-d65',
+  'xyz-d50': 'xyz-d50',
+};
+
+/**
+ * Clamps a component to the range of its spec
+ *
+ * @param value - Component value in native units, or null if invalid
+ * @param spec - Component spec
+ * @returns Value clamped to 0-max when the spec has a maximum
+ */
+function clampComponent(
+  value: number | null,
+  spec: ComponentSpec,
+): number | null {
+  return value === null || spec.max === undefined
+    ? value
+    : Math.min(spec.max, Math.max(0, value));
+}
+
+/**
+ * Parses a single numeric component (number, percentage, angle or `none`)
+ *
+ * @param token - Raw component token
+ * @param spec - How numbers and percentages map to native units
+ * @returns Component value in native units, or null if invalid
+ */
+function parseComponent(token: string, spec: ComponentSpec): number | null {
+  if (token.toLowerCase() === 'none') {
+    return 0;
+  }
+
+  const match = token.match(NUMBER_REGEX);
+  if (match === null) {
+    return null;
+  }
+
+  const value = parseFloat(match[1] ?? '');
+  const unit = match[2]?.toLowerCase();
+
+  if (unit === undefined) {
+    return value * spec.number;
+  }
+
+  if (unit === '%') {
+    return spec.hue === true ? null : (value / PERCENT) * spec.percent;
+  }
+
+  // Angle units are only valid for hue components
+  const multiplier = ANGLE_TO_DEGREES[unit];
+  return spec.hue === true && multiplier !== undefined
+    ? value * multiplier
+    : null;
+}
+
+/**
+ * Parses an alpha component (number or percentage)
+ *
+ * @param token - Raw alpha token, or undefined when omitted
+ * @returns Alpha clamped to 0-1, or null if invalid
+ */
+function parseAlpha(token: string | undefined): number | null {
+  if (token === undefined) {
+    return 1;
+  }
+
+  const alpha = parseComponent(token, UNIT_RANGE);
+  return alpha === null ? null : Math.min(1, Math.max(0, alpha));
+}
+
+/**
+ * Splits color function arguments into channel tokens and an optional alpha token
+ * Supports both the modern space-separated syntax (`r g b / a`) and the
+ * legacy comma-separated syntax (`r, g, b, a`)
+ *
+ * @param args - Raw argument string
+ * @returns Channel tokens and alpha token
+ */
+function splitArguments(args: string): {
+  channels: Array<string>;
+  alpha?: string;
+} {
+  if (args.includes(',')) {
+    const parts = args.split(',').map((part) => part.trim());
+    return {
+      channels: parts.slice(0, CHANNEL_COUNT),
+      alpha: parts[CHANNEL_COUNT],
+    };
+  }
+
+  const [channelPart = '', alphaPart] = args.split('/');
+  return {
+    channels: channelPart.trim().split(WHITESPACE_REGEX).filter(Boolean),
+    alpha: alphaPart?.trim(),
+  };
+}
+
+/**
+ * Parses channel tokens against their component specs
+ *
+ * @param tokens - Channel tokens
+ * @param specs - Component specs for each channel
+ * @returns Parsed coordinates, or null if any channel is invalid
+ */
+function parseChannels(
+  tokens: Array<string>,
+  specs: [ComponentSpec, ComponentSpec, ComponentSpec],
+): ColorTriplet | null {
+  if (tokens.length !== specs.length) {
+    return null;
+  }
+
+  const coords: Array<number> = [];
+  for (let i = 0; i < specs.length; i++) {
+    const value = clampComponent(
+      parseComponent(tokens[i] ?? '', specs[i]!),
+      specs[i]!,
+    );
+    if (value === null) {
+      return null;
+    }
+    coords.push(value);
+  }
+
+  return coords as ColorTriplet;
+}
+
+/**
+ * Parses hex color notation (#rgb, #rgba, #rrggbb, #rrggbbaa)
+ *
+ * @param hex - Hex digits without the leading #
+ * @returns Parsed sRGB color
+ */
+function parseHex(hex: string): ParsedColor {
+  const digits = SHORT_HEX_LENGTHS.has(hex.length)
+    ? hex
+        .split('')
+        .map((digit) => digit + digit)
+        .join('')
+    : hex;
+
+  const channels: Array<number> = [];
+  for (let i = 0; i < digits.length; i += HEX_PAIR_LENGTH) {
+    channels.push(
+      parseInt(digits.slice(i, i + HEX_PAIR_LENGTH), HEX_RADIX) /
+        MAX_CHANNEL_VALUE,
+    );
+  }
+
+  return {
+    space: 'srgb',
+    coords: [channels[0] ?? 0, channels[1] ?? 0, channels[2] ?? 0],
+    alpha: channels[3] ?? 1,
+  };
+}
+
+/**
+ * Parses a color() function with a predefined color space
+ *
+ * @param args - Raw argument string (e.g., 'display-p3 1 0 0 / 50%')
+ * @returns Parsed color, or null if the space or channels are invalid
+ */
+function parsePredefinedColor(args: string): ParsedColor | null {
+  const { channels, alpha: alphaToken } = splitArguments(args);
+  const [spaceName = '', ...channelTokens] = channels;
+  const space = PREDEFINED_SPACES[spaceName.toLowerCase()];
+  if (space === undefined) {
+    return null;
+  }
+
+  const coords = parseChannels(channelTokens, [
+    UNIT_RANGE,
+    UNIT_RANGE,
+    UNIT_RANGE,
+  ]);
+  const alpha = parseAlpha(alphaToken);
+
+  return coords === null || alpha === null ? null : { space, coords, alpha };
+}
+
+/**
+ * Parses a named color function such as rgb(), hsl() or oklch()
+ *
+ * @param name - Lowercase function name
+ * @param args - Raw argument string
+ * @returns Parsed color, or null if the function or channels are invalid
+ */
+function parseColorFunction(name: string, args: string): ParsedColor | null {
+  const definition = COLOR_FUNCTIONS[name];
+  if (definition === undefined) {
+    return null;
+  }
+
+  const { channels, alpha: alphaToken } = splitArguments(args);
+  const coords = parseChannels(channels, definition.components);
+  const alpha = parseAlpha(alphaToken);
+
+  if (coords === null || alpha === null) {
+    return null;
+  }
+
+  return { space: definition.space, coords, alpha };
+}
+
+/**
+ * Parses a CSS color value into its color space coordinates
+ *
+ * Supports hex notation, `transparent`, and the CSS Color 4 functions
+ * rgb(), hsl(), hwb(), lab(), lch(), oklab(), oklch() and color() with
+ * the srgb, srgb-linear, display-p3, rec2020 and xyz spaces. Both modern
+ * (`/ alpha`) and legacy comma-separated syntaxes are accepted.
+ *
+ * Values that are not plain colors (named colors, var() references,
+ * color-mix(), relative colors) return null so callers can leave them untouched.
+ *
+ * @param value - CSS color value
+ * @returns Parsed color, or null if the value is not a supported color
+ *
+ * @example
+ * parseColor('oklch(62.3% 0.214 259.815)')
+ * // { space: 'oklch', coords: [0.623, 0.214, 259.815], alpha: 1 }
+ *
+ * parseColor('#3b82f680')
+ * // { space: 'srgb', coords: [0.23, 0.51, 0.96], alpha: 0.5 }
+ *
+ * parseColor('var(--primary)') // null
+ */
+export function parseColor(value: string): ParsedColor | null {
+  const trimmed = value.trim();
+
+  if (trimmed.toLowerCase() === 'transparent') {
+    return { space: 'srgb', coords: [0, 0, 0], alpha: 0 };
+  }
+
+  const hexMatch = trimmed.match(HEX_COLOR_REGEX);
+  if (hexMatch?.[1] !== undefined) {
+    return parseHex(hexMatch[1]);
+  }
+
+  const functionMatch = trimmed.match(COLOR_FUNCTION_REGEX);
+  if (functionMatch === null) {
+    return null;
+  }
+
+  const name = (functionMatch[1] ?? '').toLowerCase();
+  const args = functionMatch[2] ?? '';
+
+  return name === 'color'
+    ? parsePredefinedColor(args)
+    : parseColorFunction(name, args);
+}
@@ -0,0 +1,471 @@
+/**
+ * Color space conversion math for CSS Color 4
+ * Converts between sRGB, Display P3, Rec. 2020, CIE Lab/LCH, OKLab/OKLCH and XYZ
+ */
+
+/* eslint-disable @typescript-eslint/no-magic-numbers -- conversion matrices and transfer functions are defined by the CSS Color 4 specification */
+
+/**
+ * Three color channel values in a given color space
+ */
+export type ColorTriplet = [number, number, number];
+
+/**
+ * Color spaces understood by the color parser and converter
+ */
+export type ColorSpace =
+  | 'srgb'
+  | 'srgb-linear'
+  | 'display-p3'
+  | 'rec2020'
+  | 'xyz-d50'
+  | 'xyz-d65'
+  | 'hsl'
+  | 'hwb'
+  | 'lab'
+  | 'lch'
+  | 'oklab'
+  | 'oklch';
+
+/**
+ * A color parsed from a CSS value, expressed in its original color space
+ */
+export interface ParsedColor {
+  /** Color space the coordinates are expressed in */
+  space: ColorSpace;
+  /** Channel values in the units of the color space (hue in degrees) */
+  coords: ColorTriplet;
+  /** Alpha channel between 0 and 1 */
+  alpha: number;
+}
+
+type Matrix3 = readonly [ColorTriplet, ColorTriplet, ColorTriplet];
+
+const LINEAR_SRGB_TO_XYZ: Matrix3 = [
+  [0.41239079926595934, 0.357584339383878, 0.1804807884018343],
+  [0.21263900587151027, 0.715168678767756, 0.07219231536073371],
+  [0.01933081871559182, 0.11919477979462598, 0.9505321522496607],
+];
+
+const XYZ_TO_LINEAR_SRGB: Matrix3 = [
+  [3.2409699419045226, -1.537383177570094, -0.4986107602930034],
+  [-0.9692436362808796, 1.8759675015077202, 0.04155505740717559],
+  [0.05563007969699366, -0.20397695888897652, 1.0569715142428786],
+];
+
+const LINEAR_P3_TO_XYZ: Matrix3 = [
+  [0.4865709486482162, 0.26566769316909306, 0.1982172852343625],
+  [0.2289745640697488, 0.6917385218365064, 0.079286914093745],
+  [0, 0.04511338185890264, 1.043944368900976],
+];
+
+const LINEAR_REC2020_TO_XYZ: Matrix3 = [
+  [0.6369580483012914, 0.14461690358620832, 0.1688809751641721],
+  [0.2627002120112671, 0.6779980715188708, 0.05930171646986196],
+  [0, 0.028072693049087428, 1.060985057710791],
+];
+
+const D50_TO_D65: Matrix3 = [
+  [0.9554734527042182, -0.023098536874261423, 0.0632593086610217],
+  [-0.028369706963208136, 1.0099954580106629, 0.021041398966943008],
+  [0.012314001688319899, -0.020507696433477912, 1.3303659366080753],
+];
+
+const XYZ_TO_LMS: Matrix3 = [
+  [0.819022437996703, 0.3619062600528904, -0.1288737815209879],
+  [0.0329836539323885, 0.9292868615863434, 0.0361446663506424],
+  [0.0481771893596242, 0.2642395317527308, 0.6335478284694309],
+];
+
+const LMS_TO_OKLAB: Matrix3 = [
+  [0.210454268309314, 0.7936177747023054, -0.0040720430116193],
+  [1.9779985324311684, -2.42859224204858, 0.450593709617411],
+  [0.0259040424655478, 0.7827717124575296, -0.8086757549230774],
+];
+
+const LMS_TO_XYZ: Matrix3 = [
+  [1.2268798758459243, -0.5578149944602171, 0.2813910456659647],
+  [-0.0405757452148008, 1.112286803280317, -0.0717110580655164],
+  [-0.0763729366746601, -0.4214933324022432, 1.5869240198367816],
+];
+
+const OKLAB_TO_LMS: Matrix3 = [
+  [1, 0.3963377773761749, 0.2158037573099136],
+  [1, -0.1055613458156586, -0.0638541728258133],
+  [1, -0.0894841775298119, -1.2914855480194092],
+];
+
+/**
+ * D50 reference white used by CIE Lab
+ */
+const D50_WHITE: ColorTriplet = [
+  0.3457 / 0.3585,
+  1,
+  (1 - 0.3457 - 0.3585) / 0.3585,
+];
+
+const LAB_KAPPA = 24389 / 27;
+const LAB_EPSILON = 216 / 24389;
+
+/**
+ * Rec. 2020 transfer function constants
+ */
+const REC2020_ALPHA = 1.09929682680944;
+const REC2020_BETA = 0.018053968510807;
+
+/**
+ * Gamut mapping tolerances from the CSS Color 4 algorithm
+ * JND is the "just noticeable difference" in deltaEOK
+ */
+const GAMUT_JND = 0.02;
+const GAMUT_EPSILON = 0.0001;
+
+/**
+ * Tolerance when checking whether sRGB channels are within [0, 1]
+ */
+const GAMUT_CHECK_TOLERANCE = 0.000075;
+
+/**
+ * Channel spread below which an sRGB color is treated as achromatic,
+ * so floating point noise does not produce a spurious hue
+ */
+const ACHROMATIC_THRESHOLD = 0.000001;
+
+function multiply(matrix: Matrix3, vector: ColorTriplet): ColorTriplet {
+  return matrix.map(
+    (row) => row[0] * vector[0] + row[1] * vector[1] + row[2] * vector[2],
+  ) as ColorTriplet;
+}
+
+function degreesToRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+function normalizeHue(hue: number): number {
+  return ((hue % 360) + 360) % 360;
+}
+
+function srgbToLinearChannel(value: number): number {
+  const abs = Math.abs(value);
+  if (abs <= 0.04045) {
+    return value / 12.92;
+  }
+  return Math.sign(value) * ((abs + 0.055) / 1.055) ** 2.4;
+}
+
+function linearToSrgbChannel(value: number): number {
+  const abs = Math.abs(value);
+  if (abs > 0.0031308) {
+    return Math.sign(value) * (1.055 * abs ** (1 / 2.4) - 0.055);
+  }
+  return value * 12.92;
+}
+
+function rec2020ToLinearChannel(value: number): number {
+  const abs = Math.abs(value);
+  if (abs < REC2020_BETA * 4.5) {
+    return value / 4.5;
+  }
+  return (
+    Math.sign(value) * ((abs + REC2020_ALPHA - 1) / REC2020_ALPHA) ** (1 / 0.45)
+  );
+}
+
+/**
+ * Converts HSL (hue in degrees, saturation and lightness in 0-100) to sRGB
+ *
+ * @param hsl - HSL coordinates
+ * @returns Gamma-encoded sRGB channels in the 0-1 range
+ */
+function hslToSrgb(hsl: ColorTriplet): ColorTriplet {
+  const [hue, saturation, lightness] = hsl;
+  const h = normalizeHue(Number.isNaN(hue) ? 0 : hue);
+  const s = saturation / 100;
+  const l = lightness / 100;
+
+  const channel = (n: number): number => {
+    const k = (n + h / 30) % 12;
+    const a = s * Math.min(l, 1 - l);
+    return l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+  };
+
+  return [channel(0), channel(8), channel(4)];
+}
+
+/**
+ * Converts HWB (hue in degrees, whiteness and blackness in 0-100) to sRGB
+ *
+ * @param hwb - HWB coordinates
+ * @returns Gamma-encoded sRGB channels in the 0-1 range
+ */
+function hwbToSrgb(hwb: ColorTriplet): ColorTriplet {
+  const [hue, whiteness, blackness] = hwb;
+  const w = whiteness / 100;
+  const b = blackness / 100;
+
+  if (w + b >= 1) {
+    const gray = w / (w + b);
+    return [gray, gray, gray];
+  }
+
+  return hslToSrgb([hue, 100, 50]).map(
+    (channel) => channel * (1 - w - b) + w,
+  ) as ColorTriplet;
+}
+
+function polarToRectangular([
+  lightness,
+  chroma,
+  hue,
+]: ColorTriplet): ColorTriplet {
+  const radians = degreesToRadians(Number.isNaN(hue) ? 0 : hue);
+  return [lightness, chroma * Math.cos(radians), chroma * Math.sin(radians)];
+}
+
+function rectangularToPolar([lightness, a, b]: ColorTriplet): ColorTriplet {
+  const chroma = Math.sqrt(a ** 2 + b ** 2);
+  const hue = normalizeHue((Math.atan2(b, a) * 180) / Math.PI);
+  return [lightness, chroma, hue];
+}
+
+function labToXyzD50([lightness, a, b]: ColorTriplet): ColorTriplet {
+  const f1 = (lightness + 16) / 116;
+  const f0 = a / 500 + f1;
+  const f2 = f1 - b / 200;
+
+  const x = f0 ** 3 > LAB_EPSILON ? f0 ** 3 : (116 * f0 - 16) / LAB_KAPPA;
+  const y =
+    lightness > LAB_KAPPA * LAB_EPSILON
+      ? ((lightness + 16) / 116) ** 3
+      : lightness / LAB_KAPPA;
+  const z = f2 ** 3 > LAB_EPSILON ? f2 ** 3 : (116 * f2 - 16) / LAB_KAPPA;
+
+  return [x * D50_WHITE[0], y * D50_WHITE[1], z * D50_WHITE[2]];
+}
+
+function oklabToXyzD65(oklab: ColorTriplet): ColorTriplet {
+  const lms = multiply(OKLAB_TO_LMS, oklab).map(
+    (value) => value ** 3,
+  ) as ColorTriplet;
+  return multiply(LMS_TO_XYZ, lms);
+}
+
+function xyzD65ToOklab(xyz: ColorTriplet): ColorTriplet {
+  const lms = multiply(XYZ_TO_LMS, xyz).map(Math.cbrt) as ColorTriplet;
+  return multiply(LMS_TO_OKLAB, lms);
+}
+
+/**
+ * Converts a parsed color of any supported space to CIE XYZ (D65)
+ *
+ * @param color - Parsed color
+ * @returns XYZ coordinates relative to the D65 white point
+ */
+// eslint-disable-next-line complexity
+export function toXyzD65(color: ParsedColor): ColorTriplet {
+  const { coords } = color;
+
+  switch (color.space) {
+    case 'srgb':
+      return multiply(
+        LINEAR_SRGB_TO_XYZ,
+        coords.map(srgbToLinearChannel) as ColorTriplet,
+      );
+    case 'srgb-linear':
+      return multiply(LINEAR_SRGB_TO_XYZ, coords);
+    case 'hsl':
+      return toXyzD65({ ...color, space: 'srgb', coords: hslToSrgb(coords) });
+    case 'hwb':
+      return toXyzD65({ ...color, space: 'srgb', coords: hwbToSrgb(coords) });
+    case 'display-p3':
+      return multiply(
+        LINEAR_P3_TO_XYZ,
+        coords.map(srgbToLinearChannel) as ColorTriplet,
+      );
+    case 'rec2020':
+      return multiply(
+        LINEAR_REC2020_TO_XYZ,
+        coords.map(rec2020ToLinearChannel) as ColorTriplet,
+      );
+    case 'xyz-d65':
+      return coords;
+    case 'xyz-d50':
+      return multiply(D50_TO_D65, coords);
+    case 'lab':
+      return multiply(D50_TO_D65, labToXyzD50(coords));
+    case 'lch':
+      return multiply(D50_TO_D65, labToXyzD50(polarToRectangular(coords)));
+    case 'oklab':
+      return oklabToXyzD65(coords);
+    case 'oklch':
+      return oklabToXyzD65(polarToRectangular(coords));
+  }
+}
+
+/**
+ * Converts CIE XYZ (D65) to gamma-encoded sRGB without clipping
+ *
+ * @param xyz - XYZ coordinates relative to the D65 white point
+ * @returns sRGB channels (may fall outside 0-1 for out-of-gamut colors)
+ */
+export function xyzD65ToSrgb(xyz: ColorTriplet): ColorTriplet {
+  return multiply(XYZ_TO_LINEAR_SRGB, xyz).map(
+    linearToSrgbChannel,
+  ) as ColorTriplet;
+}
+
+/**
+ * Converts gamma-encoded sRGB channels to HSL
+ *
+ * @param rgb - sRGB channels in the 0-1 range
+ * @returns HSL coordinates (hue in degrees, saturation and lightness in 0-100)
+ */
+export function srgbToHsl(rgb: ColorTriplet): ColorTriplet {
+  const [red, green, blue] = rgb;
+  const max = Math.max(red, green, blue);
+  const min = Math.min(red, green, blue);
+  const lightness = (max + min) / 2;
+  const delta = max - min;
+
+  let hue = 0;
+  let saturation = 0;
+
+  if (delta > ACHROMATIC_THRESHOLD) {
+    saturation =
+      lightness === 0 || lightness === 1
+        ? 0
+        : (max - lightness) / Math.min(lightness, 1 - lightness);
+
+    if (max === red) {
+      hue = (green - blue) / delta + (green < blue ? 6 : 0);
+    } else if (max === green) {
+      hue = (blue - red) / delta + 2;
+    } else {
+      hue = (red - green) / delta + 4;
+    }
+    hue *= 60;
+  }
+
+  return [hue, saturation * 100, lightness * 100];
+}
+
+/**
+ * Checks whether sRGB channels fall within the displayable 0-1 range
+ *
+ * @param rgb - sRGB channels
+ * @returns True if every channel is within gamut (with a small tolerance)
+ */
+function isInSrgbGamut(rgb: ColorTriplet): boolean {
+  return rgb.every(
+    (channel) =>
+      channel >= -GAMUT_CHECK_TOLERANCE && channel <= 1 + GAMUT_CHECK_TOLERANCE,
+  );
+}
+
+/**
+ * Clamps sRGB channels to the 0-1 range
+ *
+ * @param rgb - sRGB channels
+ * @returns Clipped sRGB channels
+ */
+function clipToSrgb(rgb: ColorTriplet): ColorTriplet {
+  return rgb.map((channel) =>
+    Math.min(1, Math.max(0, channel)),
+  ) as ColorTriplet;
+}
+
+/**
+ * Converts OKLCH coordinates to (possibly out-of-gamut) sRGB
+ *
+ * @param oklch - OKLCH coordinates
+ * @returns Gamma-encoded sRGB channels
+ */
+function oklchToSrgb(oklch: ColorTriplet): ColorTriplet {
+  return xyzD65ToSrgb(oklabToXyzD65(polarToRectangular(oklch)));
+}
+
+/**
+ * Computes the OKLab color difference (deltaE OK) between two sRGB colors
+ *
+ * @param srgbA - First sRGB color
+ * @param srgbB - Second sRGB color
+ * @returns Euclidean distance in OKLab
+ */
+function deltaEOK(srgbA: ColorTriplet, srgbB: ColorTriplet): number {
+  const toOklab = (rgb: ColorTriplet): ColorTriplet =>
+    xyzD65ToOklab(
+      multiply(
+        LINEAR_SRGB_TO_XYZ,
+        rgb.map(srgbToLinearChannel) as ColorTriplet,
+      ),
+    );
+  const [l1, a1, b1] = toOklab(srgbA);
+  const [l2, a2, b2] = toOklab(srgbB);
+  return Math.sqrt((l1 - l2) ** 2 + (a1 - a2) ** 2 + (b1 - b2) ** 2);
+}
+
+/**
+ * Converts a parsed color to sRGB, gamut mapping out-of-gamut colors
+ *
+ * Uses the CSS Color 4 gamut mapping algorithm: chroma is reduced in OKLCH
+ * (keeping lightness and hue) until the clipped result is within a just
+ * noticeable difference of the unclipped color. This avoids the hue shifts
+ * that naive per-channel clipping produces for wide-gamut oklch() values.
+ *
+ * @param color - Parsed color in any supported space
+ * @returns sRGB channels in the 0-1 range
+ */
+export function toSrgbGamut(color: ParsedColor): ColorTriplet {
+  const xyz = toXyzD65(color);
+  const srgb = xyzD65ToSrgb(xyz);
+
+  if (isInSrgbGamut(srgb)) {
+    return clipToSrgb(srgb);
+  }
+
+  const origin = rectangularToPolar(xyzD65ToOklab(xyz));
+  const [lightness, chroma, hue] = origin;
+
+  if (lightness >= 1) {
+    return [1, 1, 1];
+  }
+  if (lightness <= 0) {
+    return [0, 0, 0];
+  }
+
+  let current = oklchToSrgb(origin);
+  let clipped = clipToSrgb(current);
+
+  if (deltaEOK(clipped, current) < GAMUT_JND) {
+    return clipped;
+  }
+
+  let min = 0;
+  let max = chroma;
+  let minInGamut = true;
+
+  while (max - min > GAMUT_EPSILON) {
+    const midChroma = (min + max) / 2;
+    current = oklchToSrgb([lightness, midChroma, hue]);
+
+    if (minInGamut && isInSrgbGamut(current)) {
+      min = midChroma;
+      continue;
+    }
+
+    clipped = clipToSrgb(current);
+    const deltaE = deltaEOK(clipped, current);
+
+    if (deltaE < GAMUT_JND) {
+      if (GAMUT_JND - deltaE < GAMUT_EPSILON) {
+        return clipped;
+      }
+      minInGamut = false;
+      min = midChroma;
+    } else {
+      max = midChroma;
+    }
+  }
+
+  return clipped;
+}
@@ -43,6 +43,20 @@ export const NAMESPACE_TO_THEME_PROPERTY: Record<string, keyof Theme> = {
   default: 'defaults',
 } as const;
 
+/**
+ * Singular variable mappings for deprecated Tailwind v4 variables
+ * (e.g., `--radius` is read as `radius.default`; use `--radius-sm` or `--radius-md`)
+ */
+export const SINGULAR_VARIABLE_MAPPINGS: Record<
+  string,
+  { key: string; replacement: string }
+> = {
+  spacing: { key: 'base', replacement: '--spacing-base' },
+  blur: { key: 'default', replacement: '--blur-sm or --blur-md' },
+  shadow: { key: 'default', replacement: '--shadow-sm or --shadow-md' },
+  radius: { key: 'default', replacement: '--radius-sm or --radius-md' },
+};
+
 /**
  * Type-safe namespace keys extracted from the mapping
  */
@@ -5,7 +5,9 @@
 
 import type { ChildNode, Container, Declaration, Rule } from 'postcss';
 
-import type { Theme } from '../../types';
+import type { SourceLocation, Theme } from '../../types';
+
+import { getSourceLocation } from '../utils/source_location';
 
 /**
  * Represents a CSS rule override found within a variant selector
@@ -29,6 +31,8 @@ export interface CSSRuleOverride {
   inMediaQuery?: boolean;
   /** Media query params if nested (e.g., "(min-width: 1024px)") */
   mediaQuery?: string;
+  /** Where the overriding declaration was written */
+  location?: SourceLocation;
 }
 
 /**
@@ -388,6 +392,11 @@ function processRuleChildren(
         override.mediaQuery = mediaQuery;
       }
 
+      const location = getSourceLocation(decl);
+      if (location !== undefined) {
+        override.location = location;
+      }
+
       cssRules.push(override);
     });
   });
@@ -0,0 +1,232 @@
+/**
+ * Dart export
+ * Generates a Flutter `ThemeExtension` with one instance per variant
+ */
+
+import type { NativeExportOptions, NativeToken, NativeValue } from './native';
+import type { ExportableTheme } from './tokens';
+
+import {
+  collectNativeTheme,
+  formatNativeNumber,
+  toArgbHex,
+  toNativeTypeName,
+} from './native';
+
+/**
+ * Indentation of class members
+ */
+const INDENT = '  ';
+
+/**
+ * Indentation depth of class members and of statements in methods
+ */
+const MEMBER_DEPTH = 2;
+const STATEMENT_DEPTH = 3;
+
+/**
+ * Name of the generated class (Flutter's `Theme` widget takes the plain name)
+ */
+const CLASS_NAME = 'TailwindTheme';
+
+/**
+ * Field type and interpolation per value kind
+ */
+const FIELD_TYPES: Record<
+  NativeValue['kind'],
+  { type: string; lerp: (name: string) => string }
+> = {
+  color: {
+    type: 'Color',
+    lerp: (name) => `Color.lerp(${name}, other.${name}, t)!`,
+  },
+  length: {
+    type: 'double',
+    lerp: (name) => `lerpDouble(${name}, other.${name}, t)!`,
+  },
+  number: {
+    type: 'double',
+    lerp: (name) => `lerpDouble(${name}, other.${name}, t)!`,
+  },
+  string: {
+    type: 'String',
+    lerp: (name) => `t < 0.5 ? ${name} : other.${name}`,
+  },
+};
+
+/**
+ * Formats a Dart string literal
+ *
+ * @param value - String
+ * @returns Single-quoted literal with '$' escaped
+ */
+function formatDartString(value: string): string {
+  return `'${value.replace(/['\\$]/g, '\\$&')}'`;
+}
+
+/**
+ * Formats a value as a Dart constant
+ *
+ * @param value - Native value
+ * @returns Color(0xAARRGGBB), number or String literal
+ */
+function formatValue(value: NativeValue): string {
+  switch (value.kind) {
+    case 'color':
+      return `Color(0x${toArgbHex(value.hex)})`;
+    case 'length':
+      return formatNativeNumber(value.points);
+    case 'number':
+      return formatNativeNumber(value.value);
+    case 'string':
+      return formatDartString(value.value);
+  }
+}
+
+/**
+ * Returns the field type of a token
+ *
+ * @param token - Native token
+ * @returns Field type and interpolation
+ */
+function getFieldType(
+  token: NativeToken,
+): (typeof FIELD_TYPES)[NativeValue['kind']] {
+  return FIELD_TYPES[token.values[0]?.kind ?? 'string'];
+}
+
+/**
+ * Formats a parameter list (Dart has no empty named parameter list)
+ *
+ * @param parameters - Parameter lines
+ * @param depth - Indentation depth of the parameters
+ * @returns `()` or `({...})`
+ */
+function formatParameters(parameters: Array<string>, depth: number): string {
+  if (parameters.length === 0) {
+    return '()';
+  }
+  const indent = INDENT.repeat(depth);
+  return `({\n${parameters.map((line) => `${indent}${line}`).join('\n')}\n${INDENT.repeat(depth - 1)}})`;
+}
+
+/**
+ * Formats a constructor call
+ *
+ * @param names - Field names
+ * @param format - Formats the argument of a field
+ * @param depth - Indentation depth of the arguments
+ * @returns `TailwindTheme(...)` call
+ */
+function formatCall(
+  names: Array<string>,
+  format: (name: string, index: number) => string,
+  depth: number,
+): string {
+  const indent = INDENT.repeat(depth);
+  const args = names.map(
+    (name, index) => `${indent}${name}: ${format(name, index)},\n`,
+  );
+  return `${CLASS_NAME}(\n${args.join('')}${INDENT.repeat(depth - 1)})`;
+}
+
+/**
+ * Exports resolved themes as a Dart source file for Flutter
+ *
+ * `TailwindTheme` is a `ThemeExtension` with one field per token of the default
+ * theme, named after the CSS namespace and token path (`colorBlue500`,
+ * `textXlSize`). Colors are `Color(0xAARRGGBB)` in sRGB; lengths are logical
+ * pixels (rem lengths multiplied by the root font size) and unitless numbers
+ * are `double`. Every variant is a complete constant (`TailwindTheme.light` for
+ * the default theme, `TailwindTheme.dark`), so dark mode is the extension of
+ * `MaterialApp.darkTheme`. Keyframes are not exported.
+ *
+ * @param result - Resolved theme (e.g., from resolveTheme)
+ * @param options - Nesting configuration and root font size
+ * @returns Dart source
+ *
+ * @example
+ * exportDartTheme(await resolveTheme({ input: './theme.css' }));
+ * // class TailwindTheme extends ThemeExtension<TailwindTheme> {
+ * //   static const light = TailwindTheme(colorPrimary: Color(0xFF3B82F6));
+ * //   static const dark = TailwindTheme(colorPrimary: Color(0xFF60A5FA));
+ * // }
+ */
+export function exportDartTheme(
+  result: ExportableTheme,
+  options: NativeExportOptions = {},
+): string {
+  const { tokens, variants, darkIndex } = collectNativeTheme(result, options);
+  const names = tokens.map(({ name }) => name);
+  const constantNames = variants.map(({ name }, index) => {
+    const typeName = index === 0 ? 'Light' : toNativeTypeName(name);
+    return `${typeName[0]!.toLowerCase()}${typeName.slice(1)}`;
+  });
+  const dark = constantNames[darkIndex];
+
+  const constants = variants.flatMap(({ name, selector }, index) => [
+    `${INDENT}/// ${name} (${selector})`,
+    `${INDENT}static const ${constantNames[index]!} = ${formatCall(
+      names,
+      (_, token) => formatValue(tokens[token]!.values[index]!),
+      MEMBER_DEPTH,
+    )};`,
+    '',
+  ]);
+
+  return [
+    '// ⚠️ AUTO-GENERATED FILE - DO NOT EDIT MANUALLY',
+    '// Generated by tailwind-resolver from the resolved Tailwind theme',
+    '',
+    "import 'dart:ui' show lerpDouble;",
+    '',
+    "import 'package:flutter/material.dart';",
+    '',
+    '/// Tailwind theme tokens',
+    '///',
+    `/// Register \`${CLASS_NAME}.light\` in \`ThemeData.extensions\`${dark === undefined ? ',' : ''}`,
+    ...(dark === undefined
+      ? []
+      : [
+          `/// and \`${CLASS_NAME}.${dark}\` in the extensions of \`MaterialApp.darkTheme\`,`,
+        ]),
+    `/// then read the tokens with \`Theme.of(context).extension<${CLASS_NAME}>()!\`.`,
+    '@immutable',
+    `class ${CLASS_NAME} extends ThemeExtension<${CLASS_NAME}> {`,
+    `${INDENT}const ${CLASS_NAME}${formatParameters(
+      names.map((name) => `required this.${name},`),
+      MEMBER_DEPTH,
+    )};`,
+    '',
+    ...tokens.map(
+      (token) => `${INDENT}final ${getFieldType(token).type} ${token.name};`,
+    ),
+    ...(tokens.length === 0 ? [] : ['']),
+    ...constants,
+    `${INDENT}@override`,
+    `${INDENT}${CLASS_NAME} copyWith${formatParameters(
+      tokens.map((token) => `${getFieldType(token).type}? ${token.name},`),
+      MEMBER_DEPTH,
+    )} {`,
+    `${INDENT}${INDENT}return ${formatCall(
+      names,
+      (name) => `${name} ?? this.${name}`,
+      STATEMENT_DEPTH,
+    )};`,
+    `${INDENT}}`,
+    '',
+    `${INDENT}@override`,
+    `${INDENT}${CLASS_NAME} lerp(covariant ThemeExtension<${CLASS_NAME}>? other, double t) {`,
+    `${INDENT}${INDENT}if (other is! ${CLASS_NAME}) {`,
+    `${INDENT}${INDENT}${INDENT}return this;`,
+    `${INDENT}${INDENT}}`,
+    `${INDENT}${INDENT}return ${formatCall(
+      names,
+      (name, index) => getFieldType(tokens[index]!).lerp(name),
+      STATEMENT_DEPTH,
+    )};`,
+    `${INDENT}}`,
+    '}',
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,488 @@
+/**
+ * W3C Design Tokens (DTCG) export
+ * Serializes resolved themes into Design Tokens Community Group JSON
+ * (`$value`, `$type`, `$description`), keeping var() references as aliases
+ */
+
+import type { NestingOptions, Theme } from '../../types';
+import type {
+  ExportableTheme,
+  ThemeToken,
+  TokenTree,
+  TokenValueKind,
+} from './tokens';
+
+import postcss from 'postcss';
+
+import { parseColor } from '../color/parser';
+import {
+  buildTokenTree,
+  collectChangedTokens,
+  collectThemeTokens,
+  getThemeToken,
+  getTokenPath,
+  indexRawValuesByPath,
+  indexVariablesByPath,
+  inferTokenKind,
+  parseTokenNumber,
+  parseVarReference,
+  resolveAliasPath,
+} from './tokens';
+
+/**
+ * DTCG token types emitted by the exporter
+ */
+export type DTCGTokenType =
+  | 'color'
+  | 'dimension'
+  | 'number'
+  | 'fontFamily'
+  | 'fontWeight'
+  | 'shadow'
+  | 'cubicBezier'
+  | 'duration';
+
+/**
+ * Value of a `shadow` token (one layer)
+ */
+export interface DTCGShadowValue {
+  color: string;
+  offsetX: string;
+  offsetY: string;
+  blur: string;
+  spread: string;
+  inset?: boolean;
+}
+
+/**
+ * Value of a DTCG token
+ */
+export type DTCGValue =
+  | string
+  | number
+  | Array<string>
+  | Array<number>
+  | DTCGShadowValue
+  | Array<DTCGShadowValue>;
+
+/**
+ * A single design token
+ */
+export interface DTCGToken {
+  /** Token value, or an alias such as '{color.blue.500}' */
+  $value: DTCGValue;
+  /** Token type (omitted when the value does not fit a DTCG type) */
+  $type?: DTCGTokenType;
+  /** CSS variable that declares the token */
+  $description?: string;
+}
+
+/**
+ * A group of tokens and nested groups
+ */
+export type DTCGGroup = TokenTree<DTCGToken>;
+
+/**
+ * How variants are emitted
+ * - `files`: one document per variant; variant documents hold only the tokens that differ from the default theme
+ * - `modes`: a single document with one top-level group per variant
+ */
+export type DTCGVariantLayout = 'files' | 'modes';
+
+/**
+ * Options for DTCG export
+ */
+export interface DTCGExportOptions {
+  /**
+   * How variants are emitted
+   * @default 'files'
+   */
+  variants?: DTCGVariantLayout;
+  /** Nesting configuration the theme was built with (used to resolve aliases) */
+  nesting?: NestingOptions;
+}
+
+/**
+ * A DTCG JSON document
+ */
+export interface DTCGDocument {
+  /** Variant name (undefined for the default theme and for the `modes` document) */
+  variant?: string;
+  /** Token tree */
+  tokens: DTCGGroup;
+}
+
+/**
+ * Token types by theme property
+ * Properties without a type (leading, defaults) infer it from the value
+ */
+const PROPERTY_TYPES: Partial<Record<keyof Theme, DTCGTokenType>> = {
+  colors: 'color',
+  spacing: 'dimension',
+  tracking: 'dimension',
+  breakpoints: 'dimension',
+  containers: 'dimension',
+  radius: 'dimension',
+  blur: 'dimension',
+  perspective: 'dimension',
+  fonts: 'fontFamily',
+  fontWeight: 'fontWeight',
+  shadows: 'shadow',
+  insetShadows: 'shadow',
+  dropShadows: 'shadow',
+  textShadows: 'shadow',
+  ease: 'cubicBezier',
+};
+
+/**
+ * Types inferred from the value kind of tokens without a property type
+ */
+const INFERRED_TYPES: Partial<Record<TokenValueKind, DTCGTokenType>> = {
+  number: 'number',
+  duration: 'duration',
+  dimension: 'dimension',
+  cubicBezier: 'cubicBezier',
+};
+
+const CUBIC_BEZIER_PREFIX = 'cubic-bezier(';
+const FONT_WEIGHT_KEYWORD_REGEX = /^[a-z-]+$/;
+
+/**
+ * Number of control points in a cubic-bezier() easing
+ */
+const CUBIC_BEZIER_POINTS = 4;
+
+/**
+ * Minimum number of lengths in a shadow layer (offset-x, offset-y)
+ */
+const MIN_SHADOW_LENGTHS = 2;
+
+/**
+ * Default group of the `modes` layout
+ */
+const DEFAULT_VARIANT = 'default';
+
+/**
+ * Converts a length to a DTCG dimension
+ *
+ * @param value - CSS length
+ * @returns Dimension string (unitless zero becomes '0px'), or undefined
+ */
+function toDimension(value: string): string | undefined {
+  if (value === '0') {
+    return '0px';
+  }
+  return inferTokenKind(value) === 'dimension' ? value : undefined;
+}
+
+/**
+ * Converts a font stack to a DTCG font family
+ *
+ * @param value - CSS font-family list
+ * @returns Family name, or list of names for a stack
+ */
+function toFontFamily(value: string): string | Array<string> | undefined {
+  if (value.includes('var(')) {
+    return undefined;
+  }
+  const names = postcss.list
+    .comma(value)
+    .map((name) => name.replace(/^(['"])(.*)\1$/, '$2'));
+  return names.length === 1 ? names[0] : names;
+}
+
+/**
+ * Converts a cubic-bezier() easing to DTCG control points
+ *
+ * @param value - CSS easing function
+ * @returns Four control points, or undefined for keywords and other functions
+ */
+function toCubicBezier(value: string): Array<number> | undefined {
+  if (inferTokenKind(value) !== 'cubicBezier') {
+    return undefined;
+  }
+  const points = value
+    .trim()
+    .slice(CUBIC_BEZIER_PREFIX.length, -1)
+    .split(',')
+    .map((point) => Number(point.trim()));
+  return points.length === CUBIC_BEZIER_POINTS &&
+    points.every((point) => Number.isFinite(point))
+    ? points
+    : undefined;
+}
+
+/**
+ * Converts one shadow layer to a DTCG shadow
+ *
+ * @param layer - CSS shadow layer (e.g., 'inset 0 1px 2px rgb(0 0 0 / 0.05)')
+ * @returns Shadow value, or undefined if the layer has no color or too few lengths
+ */
+function toShadowLayer(layer: string): DTCGShadowValue | undefined {
+  const parts = postcss.list.space(layer);
+  const inset = parts.includes('inset');
+  const lengths = parts
+    .map((part) => toDimension(part))
+    .filter((part) => part !== undefined);
+  const colors = parts.filter((part) => parseColor(part) !== null);
+
+  if (
+    colors.length !== 1 ||
+    lengths.length < MIN_SHADOW_LENGTHS ||
+    lengths.length + colors.length + Number(inset) !== parts.length
+  ) {
+    return undefined;
+  }
+
+  const [offsetX = '0px', offsetY = '0px', blur = '0px', spread = '0px'] =
+    lengths;
+  return {
+    color: colors[0]!,
+    offsetX,
+    offsetY,
+    blur,
+    spread,
+    ...(inset && { inset }),
+  };
+}
+
+/**
+ * Converts a CSS shadow list to a DTCG shadow
+ *
+ * @param value - CSS box-shadow, drop-shadow or text-shadow value
+ * @returns Shadow (a list for multiple layers), or undefined if any layer cannot be converted
+ */
+function toShadow(
+  value: string,
+): DTCGShadowValue | Array<DTCGShadowValue> | undefined {
+  const layers = postcss.list.comma(value).map(toShadowLayer);
+  if (layers.some((layer) => layer === undefined)) {
+    return undefined;
+  }
+  const shadows = layers as Array<DTCGShadowValue>;
+  return shadows.length === 1 ? shadows[0] : shadows;
+}
+
+/**
+ * Converts a number or a font weight keyword to a DTCG font weight
+ *
+ * @param value - CSS font weight
+ * @returns Numeric weight or keyword, or undefined
+ */
+function toFontWeight(value: string): number | string | undefined {
+  return (
+    parseTokenNumber(value) ??
+    (FONT_WEIGHT_KEYWORD_REGEX.test(value) ? value : undefined)
+  );
+}
+
+/**
+ * Value converters by token type
+ * Each returns undefined when the value does not fit the type
+ */
+const VALUE_CONVERTERS: Record<
+  DTCGTokenType,
+  (value: string) => DTCGValue | undefined
+> = {
+  color: (value) => (parseColor(value) === null ? undefined : value),
+  dimension: toDimension,
+  number: parseTokenNumber,
+  fontFamily: toFontFamily,
+  fontWeight: toFontWeight,
+  shadow: toShadow,
+  cubicBezier: toCubicBezier,
+  duration: (value) =>
+    inferTokenKind(value) === 'duration' ? value : undefined,
+};
+
+/**
+ * Determines the type of a token from its theme property
+ *
+ * @param path - Token path in the theme
+ * @param value - Resolved value
+ * @returns Type, or undefined if the token has no DTCG type
+ */
+function getTokenType(
+  path: Array<string>,
+  value: string,
+): DTCGTokenType | undefined {
+  const property = path[0] as keyof Theme;
+  if (property === 'fontSize') {
+    return path.at(-1) === 'size'
+      ? 'dimension'
+      : INFERRED_TYPES[inferTokenKind(value)];
+  }
+  return PROPERTY_TYPES[property] ?? INFERRED_TYPES[inferTokenKind(value)];
+}
+
+/**
+ * Context for converting the tokens of one variant
+ */
+interface VariantContext {
+  /** Variant theme */
+  theme: unknown;
+  /** Variable names keyed by theme path */
+  variableNames: Map<string, string>;
+  /** Values as written in the CSS keyed by theme path (see indexRawValuesByPath) */
+  rawValues: Map<string, string>;
+  /** Renders the alias for a theme path */
+  formatAlias: (path: Array<string>) => string;
+  /** Nesting configuration */
+  nesting?: NestingOptions;
+}
+
+/**
+ * Finds the token a theme token aliases
+ * The CSS value is checked first, since the resolved theme has var() references inlined.
+ *
+ * @param token - Theme token
+ * @param context - Variant context
+ * @returns Path of the referenced token, or null if the token is not an alias
+ */
+function getAliasPath(
+  token: ThemeToken,
+  context: VariantContext,
+): Array<string> | null {
+  const rawValue = context.rawValues.get(token.path.join('/'));
+  return resolveAliasPath(
+    rawValue ?? token.value,
+    context.theme,
+    context.nesting,
+  );
+}
+
+/**
+ * Checks whether a token is a var() reference that did not resolve
+ *
+ * @param token - Theme token
+ * @param context - Variant context
+ * @returns True if the value is a single var() reference to a missing token
+ */
+function isUnresolvedReference(
+  token: ThemeToken,
+  context: VariantContext,
+): boolean {
+  return (
+    typeof token.value === 'string' &&
+    parseVarReference(token.value) !== null &&
+    getAliasPath(token, context) === null
+  );
+}
+
+/**
+ * Converts a theme token to a DTCG token
+ * Values that are a var() reference to another token become aliases; values that
+ * do not fit their type (e.g., calc() expressions) are kept as strings without a type.
+ *
+ * @param token - Theme token
+ * @param context - Variant context
+ * @returns DTCG token
+ */
+function toDTCGToken(token: ThemeToken, context: VariantContext): DTCGToken {
+  const { path, value } = token;
+  const description = context.variableNames.get(path.join('/'));
+  const descriptionField =
+    description === undefined ? {} : { $description: description };
+  const aliasPath = getAliasPath(token, context);
+
+  if (aliasPath !== null) {
+    const target = String(getThemeToken(context.theme, aliasPath));
+    const type = getTokenType(aliasPath, target);
+    return {
+      $value: context.formatAlias(aliasPath),
+      ...(type !== undefined && { $type: type }),
+      ...descriptionField,
+    };
+  }
+
+  const text = String(value);
+  const type = getTokenType(path, text);
+  const converted =
+    type === undefined ? undefined : VALUE_CONVERTERS[type](text.trim());
+
+  return converted === undefined
+    ? { $value: value, ...descriptionField }
+    : { $value: converted, $type: type, ...descriptionField };
+}
+
+/**
+ * Exports resolved themes as W3C Design Tokens (DTCG) JSON
+ *
+ * Tokens are grouped by CSS namespace (`color`, `spacing`, `text`, ...) and typed
+ * from the namespace: color, dimension, fontFamily, fontWeight, shadow,
+ * cubicBezier, duration (and number for unitless line heights). Tokens declared
+ * as a var() reference to another token become aliases (`{color.primary}`);
+ * references are read from `result.variables`, since the resolved theme has them
+ * inlined. References to missing tokens have no value and are skipped (they
+ * are listed in `unresolvedVariables`).
+ * `$description` names the CSS variable that declares the token (user CSS only).
+ * Keyframes are not exported.
+ *
+ * @param result - Resolved theme (e.g., from resolveTheme)
+ * @param options - Variant layout and nesting configuration
+ * @returns Documents: the default theme first, then one per variant (`files`), or a single document (`modes`)
+ *
+ * @example
+ * const [defaults, dark] = exportDTCGTokens(await resolveTheme({ input: './theme.css' }));
+ * // defaults.tokens.color.primary = { $value: '{color.blue.500}', $type: 'color', $description: '--color-primary' }
+ * // dark.variant = 'dark', dark.tokens holds only the tokens dark overrides
+ */
+export function exportDTCGTokens(
+  result: ExportableTheme,
+  options: DTCGExportOptions = {},
+): Array<DTCGDocument> {
+  const { variants: layout = 'files', nesting } = options;
+  const variableNames = indexVariablesByPath(result.variables ?? [], nesting);
+  const baseTheme = result.variants[DEFAULT_VARIANT];
+
+  const documents = Object.entries(result.variants).map(([variant, theme]) => {
+    const isDefault = variant === DEFAULT_VARIANT;
+    const rawValues = indexRawValuesByPath(
+      result.variables ?? [],
+      variant,
+      nesting,
+    );
+    // In the modes layout, aliases point into the variant group that holds the target
+    const aliasGroup = (path: Array<string>): Array<string> => {
+      if (layout === 'files') {
+        return [];
+      }
+      const changed =
+        getThemeToken(theme, path) !== getThemeToken(baseTheme, path);
+      return [isDefault || !changed ? DEFAULT_VARIANT : variant];
+    };
+
+    const context: VariantContext = {
+      theme,
+      variableNames,
+      rawValues,
+      nesting,
+      formatAlias: (path) =>
+        `{${[...aliasGroup(path), ...getTokenPath(path)].join('.')}}`,
+    };
+    const tokens = (
+      isDefault
+        ? collectThemeTokens(theme)
+        : collectChangedTokens(theme, baseTheme)
+    ).filter((token) => !isUnresolvedReference(token, context));
+
+    return {
+      variant,
+      tokens: buildTokenTree(tokens, (token) => toDTCGToken(token, context)),
+    };
+  });
+
+  if (layout === 'modes') {
+    return [
+      {
+        tokens: Object.fromEntries(
+          documents.map(({ variant, tokens }) => [variant, tokens]),
+        ),
+      },
+    ];
+  }
+
+  return documents.map(({ variant, tokens }) =>
+    variant === DEFAULT_VARIANT ? { tokens } : { variant, tokens },
+  );
+}
@@ -0,0 +1,685 @@
+/**
+ * Figma Variables export and import
+ * Serializes resolved themes into the Figma Variables REST API payload (one
+ * collection per theme property, one mode per variant) and reads Figma variables
+ * back into theme overrides
+ */
+
+import type { NestingOptions, OverrideOptions } from '../../types';
+import type { ExportableTheme } from './tokens';
+
+import { convertColor } from '../color/format';
+import { parseColor } from '../color/parser';
+import { toSrgbGamut } from '../color/spaces';
+import { DEFAULT_ROOT_FONT_SIZE } from '../math/evaluator';
+import { convertLength } from '../units/normalize';
+import { isRecord } from '../utils/type_guards';
+import {
+  collectThemeTokens,
+  getTokenVariableName,
+  indexRawValuesByPath,
+  indexVariablesByPath,
+  inferTokenKind,
+  isLengthToken,
+  parseVarReference,
+  resolveAliasPath,
+  toTokenNumber,
+} from './tokens';
+
+/**
+ * Variable types of Figma
+ */
+export type FigmaResolvedType = 'COLOR' | 'FLOAT' | 'STRING' | 'BOOLEAN';
+
+/**
+ * Value of a COLOR variable (sRGB channels between 0 and 1)
+ */
+export interface FigmaColor {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+/**
+ * Value that points to another variable
+ */
+export interface FigmaVariableAlias {
+  type: 'VARIABLE_ALIAS';
+  id: string;
+}
+
+/**
+ * Value of a variable in one mode
+ */
+export type FigmaVariableValue =
+  | FigmaColor
+  | number
+  | string
+  | boolean
+  | FigmaVariableAlias;
+
+/**
+ * Request body of `POST /v1/files/:file_key/variables`
+ * IDs are temporary IDs that reference objects created in the same request.
+ */
+export interface FigmaVariablesPayload {
+  variableCollections: Array<{
+    action: 'CREATE';
+    id: string;
+    name: string;
+    initialModeId: string;
+  }>;
+  variableModes: Array<{
+    action: 'CREATE' | 'UPDATE';
+    id: string;
+    name: string;
+    variableCollectionId: string;
+  }>;
+  variables: Array<{
+    action: 'CREATE';
+    id: string;
+    name: string;
+    variableCollectionId: string;
+    resolvedType: FigmaResolvedType;
+    codeSyntax: { WEB: string };
+  }>;
+  variableModeValues: Array<{
+    variableId: string;
+    modeId: string;
+    value: FigmaVariableValue;
+  }>;
+}
+
+/**
+ * Options for Figma Variables export
+ */
+export interface FigmaExportOptions {
+  /** Nesting configuration the theme was built with (used to resolve aliases) */
+  nesting?: NestingOptions;
+  /**
+   * Root font size in pixels used to convert rem lengths to FLOAT pixels
+   * @default 16
+   */
+  rootFontSize?: number;
+}
+
+/**
+ * Options for Figma Variables import
+ */
+export interface FigmaImportOptions {
+  /**
+   * Resolved theme the variables were exported from
+   * Only values that differ from its export are returned.
+   * @default undefined (every value is returned)
+   */
+  baseline?: ExportableTheme;
+  /** Nesting configuration of the baseline */
+  nesting?: NestingOptions;
+  /**
+   * Root font size in pixels used to convert FLOAT pixels to rem lengths
+   * @default 16
+   */
+  rootFontSize?: number;
+}
+
+/**
+ * A theme token with its value in every variant
+ */
+interface VariantToken {
+  /** Path within the theme */
+  path: Array<string>;
+  /** Value keyed by variant name */
+  values: Map<string, string | number>;
+}
+
+/**
+ * State shared while exporting one theme
+ */
+interface ExportContext {
+  /** Tokens keyed by path (parts joined with '/') */
+  tokens: Map<string, VariantToken>;
+  /** Resolved themes keyed by variant name */
+  themes: Record<string, unknown>;
+  /** Values as written in the CSS keyed by variant name, then by token path */
+  rawValues: Map<string, Map<string, string>>;
+  /** Variable types keyed by token path, filled on demand */
+  types: Map<string, FigmaResolvedType>;
+  rootFontSize: number;
+  nesting?: NestingOptions;
+}
+
+/**
+ * A Figma variable read from a payload or a local variables response
+ */
+interface ImportedVariable {
+  /** Theme path (collection name followed by the variable name parts) */
+  path: Array<string>;
+  /** `var()` reference from the WEB code syntax, if any */
+  reference?: string;
+  /** Value keyed by mode name */
+  values: Map<string, unknown>;
+}
+
+/**
+ * Characters Figma does not allow in variable names
+ */
+const RESERVED_NAME_CHARS = /[.{}]/g;
+
+/**
+ * Decimal places kept for color channels and imported FLOAT values
+ */
+const PRECISION = 10000;
+
+/**
+ * Rounds a value to four decimals, normalizing negative zero
+ *
+ * @param value - Value to round
+ * @returns Rounded value
+ */
+function round(value: number): number {
+  return Math.round(value * PRECISION) / PRECISION + 0;
+}
+
+/**
+ * Converts a CSS color to a Figma color
+ *
+ * @param value - Resolved value
+ * @returns Gamut-mapped sRGB color, or undefined if the value is not a color
+ */
+function toColor(value: string | number): FigmaColor | undefined {
+  const parsed = typeof value === 'string' ? parseColor(value) : null;
+  if (parsed === null) {
+    return undefined;
+  }
+  const [r = 0, g = 0, b = 0] = toSrgbGamut(parsed).map(round);
+  return { r, g, b, a: round(parsed.alpha) };
+}
+
+/**
+ * Infers the variable type of a value
+ *
+ * @param value - Resolved value
+ * @param path - Path in the theme
+ * @param rootFontSize - Root font size in pixels
+ * @returns COLOR, FLOAT or STRING
+ */
+function getValueType(
+  value: string | number,
+  path: Array<string>,
+  rootFontSize: number,
+): FigmaResolvedType {
+  if (inferTokenKind(value) === 'color') {
+    return 'COLOR';
+  }
+  return toTokenNumber(value, path, rootFontSize) === undefined
+    ? 'STRING'
+    : 'FLOAT';
+}
+
+/**
+ * Collects the tokens of every variant
+ *
+ * @param variants - Resolved themes keyed by variant name
+ * @returns Tokens keyed by path, in theme order (tokens of the default theme first)
+ */
+function collectVariantTokens(
+  variants: Record<string, unknown>,
+): Map<string, VariantToken> {
+  const tokens = new Map<string, VariantToken>();
+
+  for (const [variant, theme] of Object.entries(variants)) {
+    for (const { path, value } of collectThemeTokens(theme)) {
+      const key = path.join('/');
+      const token = tokens.get(key) ?? { path, values: new Map() };
+      token.values.set(variant, value);
+      tokens.set(key, token);
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Finds the token a value refers to with var()
+ * The CSS value is checked first, since the resolved theme has var() references inlined.
+ *
+ * @param key - Path of the token that holds the value
+ * @param variant - Variant the value belongs to
+ * @param value - Resolved value
+ * @param context - Export context
+ * @returns Path of the referenced token, or undefined
+ */
+function getAliasKey(
+  key: string,
+  variant: string,
+  value: string | number,
+  context: ExportContext,
+): string | undefined {
+  const target = resolveAliasPath(
+    context.rawValues.get(variant)?.get(key) ?? value,
+    context.themes[variant],
+    context.nesting,
+  )?.join('/');
+  return target !== undefined && target !== key && context.tokens.has(target)
+    ? target
+    : undefined;
+}
+
+/**
+ * Determines the type of a variable
+ * Aliases take the type of their target; variables whose modes disagree become STRING.
+ *
+ * @param key - Token path
+ * @param context - Export context
+ * @param visiting - Tokens on the current alias chain (guards against cycles)
+ * @returns Variable type
+ */
+function getVariableType(
+  key: string,
+  context: ExportContext,
+  visiting: Set<string> = new Set(),
+): FigmaResolvedType {
+  const cached = context.types.get(key);
+  if (cached !== undefined) {
+    return cached;
+  }
+  if (visiting.has(key)) {
+    return 'STRING';
+  }
+  visiting.add(key);
+
+  const { path, values } = context.tokens.get(key)!;
+  const types = new Set(
+    [...values].map(([variant, value]) => {
+      const alias = getAliasKey(key, variant, value, context);
+      return alias === undefined
+        ? getValueType(value, path, context.rootFontSize)
+        : getVariableType(alias, context, visiting);
+    }),
+  );
+  const type = types.size === 1 ? [...types][0]! : 'STRING';
+
+  context.types.set(key, type);
+  return type;
+}
+
+/**
+ * Converts the value of a variable in one mode
+ *
+ * @param key - Token path
+ * @param variant - Variant (mode) name
+ * @param value - Resolved value
+ * @param context - Export context
+ * @returns Alias, color, float or string
+ */
+function toModeValue(
+  key: string,
+  variant: string,
+  value: string | number,
+  context: ExportContext,
+): FigmaVariableValue {
+  const type = getVariableType(key, context);
+  const alias = getAliasKey(key, variant, value, context);
+
+  if (alias !== undefined && getVariableType(alias, context) === type) {
+    return { type: 'VARIABLE_ALIAS', id: `variable:${alias}` };
+  }
+  if (type === 'COLOR') {
+    return toColor(value) ?? String(value);
+  }
+  if (type === 'FLOAT') {
+    const { path } = context.tokens.get(key)!;
+    return toTokenNumber(value, path, context.rootFontSize) ?? String(value);
+  }
+  return String(value);
+}
+
+/**
+ * Exports resolved themes as a Figma Variables REST API payload
+ *
+ * Every theme property (`colors`, `spacing`, `radius`, ...) becomes a collection,
+ * and every variant becomes a mode of each collection (the default theme is the
+ * initial mode). Variables are named after the rest of the path (`blue/500`);
+ * `.`, `{` and `}`, which Figma does not allow, become '_'. Values that are a var()
+ * reference to another token become aliases. Colors are COLOR (gamut-mapped
+ * sRGB), numbers and lengths are FLOAT (lengths in pixels), everything else is
+ * STRING. The WEB code syntax is the token's CSS variable. Keyframes are not
+ * exported.
+ *
+ * @param result - Resolved theme (e.g., from resolveTheme)
+ * @param options - Nesting configuration and root font size
+ * @returns Request body for `POST /v1/files/:file_key/variables`
+ *
+ * @example
+ * const payload = exportFigmaVariables(await resolveTheme({ input: './theme.css' }));
+ * // payload.variableCollections = [{ action: 'CREATE', id: 'collection:colors', name: 'colors', ... }]
+ * // payload.variableModes = [{ action: 'UPDATE', name: 'default', ... }, { action: 'CREATE', name: 'dark', ... }]
+ */
+export function exportFigmaVariables(
+  result: ExportableTheme,
+  options: FigmaExportOptions = {},
+): FigmaVariablesPayload {
+  const { nesting, rootFontSize = DEFAULT_ROOT_FONT_SIZE } = options;
+  const variableNames = indexVariablesByPath(result.variables ?? [], nesting);
+  const variants = Object.keys(result.variants);
+  const context: ExportContext = {
+    tokens: collectVariantTokens(result.variants),
+    themes: result.variants,
+    rawValues: new Map(
+      variants.map((variant) => [
+        variant,
+        indexRawValuesByPath(result.variables ?? [], variant, nesting),
+      ]),
+    ),
+    types: new Map(),
+    rootFontSize,
+    nesting,
+  };
+  const payload: FigmaVariablesPayload = {
+    variableCollections: [],
+    variableModes: [],
+    variables: [],
+    variableModeValues: [],
+  };
+
+  const collections = new Set(
+    [...context.tokens.values()].map(({ path }) => path[0] ?? ''),
+  );
+  for (const collection of collections) {
+    const collectionId = `collection:${collection}`;
+    payload.variableCollections.push({
+      action: 'CREATE',
+      id: collectionId,
+      name: collection,
+      initialModeId: `mode:${collection}:${variants[0]}`,
+    });
+    payload.variableModes.push(
+      ...variants.map((variant, index) => ({
+        action: index === 0 ? ('UPDATE' as const) : ('CREATE' as const),
+        id: `mode:${collection}:${variant}`,
+        name: variant,
+        variableCollectionId: collectionId,
+      })),
+    );
+  }
+
+  for (const [key, { path, values }] of context.tokens) {
+    const [collection = '', ...name] = path;
+    payload.variables.push({
+      action: 'CREATE',
+      id: `variable:${key}`,
+      name: name.join('/').replace(RESERVED_NAME_CHARS, '_'),
+      variableCollectionId: `collection:${collection}`,
+      resolvedType: getVariableType(key, context),
+      codeSyntax: {
+        WEB: `var(${getTokenVariableName(path, variableNames)})`,
+      },
+    });
+    payload.variableModeValues.push(
+      ...[...values].map(([variant, value]) => ({
+        variableId: `variable:${key}`,
+        modeId: `mode:${collection}:${variant}`,
+        value: toModeValue(key, variant, value, context),
+      })),
+    );
+  }
+
+  return payload;
+}
+
+/**
+ * Returns the records of an array (or of an object's values)
+ *
+ * @param value - Array or record from the document
+ * @returns Records
+ */
+function toRecords(value: unknown): Array<Record<string, unknown>> {
+  const entries = Array.isArray(value)
+    ? (value as Array<unknown>)
+    : Object.values(isRecord(value) ? value : {});
+  return entries.filter(isRecord);
+}
+
+/**
+ * Reads the variables of a `POST /variables` payload
+ *
+ * @param payload - Payload (e.g., from exportFigmaVariables)
+ * @returns Variables keyed by ID
+ */
+function readPayload(
+  payload: Record<string, unknown>,
+): Map<string, ImportedVariable> {
+  const collections = new Map<string, string>();
+  const modes = new Map<string, string>();
+  const variables = new Map<string, ImportedVariable>();
+
+  for (const collection of toRecords(payload['variableCollections'])) {
+    collections.set(String(collection['id']), String(collection['name']));
+  }
+  for (const mode of toRecords(payload['variableModes'])) {
+    modes.set(String(mode['id']), String(mode['name']));
+  }
+  for (const variable of toRecords(payload['variables'])) {
+    variables.set(String(variable['id']), {
+      path: [
+        collections.get(String(variable['variableCollectionId'])) ?? '',
+        ...String(variable['name']).split('/'),
+      ],
+      reference: readReference(variable['codeSyntax']),
+      values: new Map(),
+    });
+  }
+  for (const entry of toRecords(payload['variableModeValues'])) {
+    const modeId = String(entry['modeId']);
+    variables
+      .get(String(entry['variableId']))
+      ?.values.set(modes.get(modeId) ?? modeId, entry['value']);
+  }
+
+  return variables;
+}
+
+/**
+ * Reads the variables of a `GET /variables/local` response
+ *
+ * @param meta - `meta` object of the response
+ * @returns Variables keyed by ID
+ */
+function readLocalVariables(
+  meta: Record<string, unknown>,
+): Map<string, ImportedVariable> {
+  const collections = new Map<string, string>();
+  const modes = new Map<string, string>();
+  const variables = new Map<string, ImportedVariable>();
+
+  for (const collection of toRecords(meta['variableCollections'])) {
+    collections.set(String(collection['id']), String(collection['name']));
+    for (const mode of toRecords(collection['modes'])) {
+      modes.set(String(mode['modeId']), String(mode['name']));
+    }
+  }
+  for (const variable of toRecords(meta['variables'])) {
+    const valuesByMode = isRecord(variable['valuesByMode'])
+      ? variable['valuesByMode']
+      : {};
+    variables.set(String(variable['id']), {
+      path: [
+        collections.get(String(variable['variableCollectionId'])) ?? '',
+        ...String(variable['name']).split('/'),
+      ],
+      reference: readReference(variable['codeSyntax']),
+      values: new Map(
+        Object.entries(valuesByMode).map(([modeId, value]) => [
+          modes.get(modeId) ?? modeId,
+          value,
+        ]),
+      ),
+    });
+  }
+
+  return variables;
+}
+
+/**
+ * Reads the var() reference from a variable's code syntax
+ *
+ * @param codeSyntax - `codeSyntax` of the variable
+ * @returns WEB code syntax if it is a var() reference
+ */
+function readReference(codeSyntax: unknown): string | undefined {
+  const web = isRecord(codeSyntax) ? codeSyntax['WEB'] : undefined;
+  return typeof web === 'string' && parseVarReference(web) !== null
+    ? web
+    : undefined;
+}
+
+/**
+ * Reads the variables of a Figma Variables document
+ *
+ * @param document - `POST /variables` payload or `GET /variables/local` response
+ * @returns Variables keyed by ID
+ * @throws Error if the document is neither
+ */
+function readFigmaVariables(document: unknown): Map<string, ImportedVariable> {
+  if (isRecord(document) && isRecord(document['meta'])) {
+    return readLocalVariables(document['meta']);
+  }
+  if (isRecord(document) && Array.isArray(document['variables'])) {
+    return readPayload(document);
+  }
+  throw new Error(
+    'Figma variables must be a POST /variables payload or a GET /variables/local response',
+  );
+}
+
+/**
+ * Converts an imported alias or color to a CSS value
+ *
+ * @param value - Figma alias or color
+ * @param variables - All variables keyed by ID (used to resolve aliases)
+ * @returns var() reference or hex color, or undefined for aliases to unknown variables
+ */
+function formatObjectValue(
+  value: Record<string, unknown>,
+  variables: Map<string, ImportedVariable>,
+): string | undefined {
+  if (value['type'] === 'VARIABLE_ALIAS') {
+    const target = variables.get(String(value['id']));
+    return (
+      target?.reference ??
+      (target && `var(${getTokenVariableName(target.path, new Map())})`)
+    );
+  }
+
+  const { r, g, b, a = 1 } = value;
+  return convertColor(
+    `color(srgb ${String(r)} ${String(g)} ${String(b)} / ${String(a)})`,
+    'hex',
+  );
+}
+
+/**
+ * Converts the value of an imported variable to a CSS value
+ *
+ * @param value - Figma value
+ * @param path - Theme path of the variable
+ * @param variables - All variables keyed by ID (used to resolve aliases)
+ * @param rootFontSize - Root font size in pixels
+ * @returns CSS value, or undefined for aliases to unknown variables and unsupported values
+ */
+function toCSSValue(
+  value: unknown,
+  path: Array<string>,
+  variables: Map<string, ImportedVariable>,
+  rootFontSize: number,
+): string | undefined {
+  if (isRecord(value)) {
+    return formatObjectValue(value, variables);
+  }
+  if (typeof value === 'number') {
+    return isLengthToken(path)
+      ? String(convertLength(`${value}px`, 'rem', rootFontSize))
+      : String(round(value));
+  }
+  return typeof value === 'string' || typeof value === 'boolean'
+    ? String(value)
+    : undefined;
+}
+
+/**
+ * Converts imported variables to CSS values keyed by mode and flat path
+ *
+ * @param variables - Variables keyed by ID
+ * @param rootFontSize - Root font size in pixels
+ * @returns CSS values keyed by mode name, then by flat path ('colors.blue.500')
+ */
+function toCSSValues(
+  variables: Map<string, ImportedVariable>,
+  rootFontSize: number,
+): Map<string, Map<string, string>> {
+  const modes = new Map<string, Map<string, string>>();
+
+  for (const { path, values } of variables.values()) {
+    for (const [mode, value] of values) {
+      const css = toCSSValue(value, path, variables, rootFontSize);
+      if (css !== undefined) {
+        const modeValues = modes.get(mode) ?? new Map<string, string>();
+        modeValues.set(path.join('.'), css);
+        modes.set(mode, modeValues);
+      }
+    }
+  }
+
+  return modes;
+}
+
+/**
+ * Imports Figma variables as theme overrides
+ *
+ * Reads a `POST /variables` payload (e.g., from exportFigmaVariables) or a
+ * `GET /v1/files/:file_key/variables/local` response. Mode names become override
+ * selectors (variant names) and collection and variable names become paths
+ * (`colors` + `blue/500` → `colors.blue.500`). Colors become hex, FLOAT lengths
+ * become rem and aliases become var() references (the WEB code syntax of the
+ * target, or its Tailwind variable name). With a `baseline`, only values that
+ * differ from the baseline's export are returned, so designers' edits round-trip
+ * without rewriting the rest of the theme.
+ *
+ * @param document - Parsed Figma Variables JSON
+ * @param options - Baseline theme, nesting configuration and root font size
+ * @returns Overrides keyed by mode name
+ * @throws Error if the document is not a Figma Variables document
+ *
+ * @example
+ * importFigmaVariables(JSON.parse(json), { baseline: await resolveTheme({ input: './theme.css' }) });
+ * // { dark: { 'colors.primary': '#1d4ed8' } }
+ */
+export function importFigmaVariables(
+  document: unknown,
+  options: FigmaImportOptions = {},
+): OverrideOptions {
+  const { baseline, nesting, rootFontSize = DEFAULT_ROOT_FONT_SIZE } = options;
+  const imported = toCSSValues(readFigmaVariables(document), rootFontSize);
+  const original =
+    baseline === undefined
+      ? new Map<string, Map<string, string>>()
+      : toCSSValues(
+          readFigmaVariables(
+            exportFigmaVariables(baseline, { nesting, rootFontSize }),
+          ),
+          rootFontSize,
+        );
+  const overrides: OverrideOptions = {};
+
+  for (const [mode, values] of imported) {
+    const changed = [...values].filter(
+      ([path, value]) => original.get(mode)?.get(path) !== value,
+    );
+    if (changed.length > 0) {
+      overrides[mode] = Object.fromEntries(changed);
+    }
+  }
+
+  return overrides;
+}
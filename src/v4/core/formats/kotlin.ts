@@ -0,0 +1,406 @@
+/**
+ * Kotlin export
+ * Generates Jetpack Compose theme tokens with one instance per variant and an
+ * accessor that follows the system dark theme
+ */
+
+import type { NativeExportOptions, NativeToken, NativeValue } from './native';
+import type { ExportableTheme } from './tokens';
+
+import {
+  collectNativeTheme,
+  formatNativeNumber,
+  toArgbHex,
+  toNativeMemberName,
+  toNativeTypeName,
+} from './native';
+
+/**
+ * Options for Kotlin export
+ */
+export interface KotlinExportOptions extends NativeExportOptions {
+  /**
+   * Package of the generated file
+   * @default 'theme'
+   */
+  packageName?: string;
+}
+
+/**
+ * Indentation of class members
+ */
+const INDENT = '    ';
+
+/**
+ * Package used when none is configured
+ */
+const DEFAULT_PACKAGE_NAME = 'theme';
+
+/**
+ * Property type per value kind (font sizes are TextUnit)
+ */
+const PROPERTY_TYPES: Record<NativeValue['kind'] | 'font', string> = {
+  color: 'Color',
+  length: 'Dp',
+  font: 'TextUnit',
+  number: 'Float',
+  string: 'String',
+};
+
+/**
+ * Formats a Kotlin string literal
+ *
+ * @param value - String
+ * @returns Double-quoted literal with '$' escaped
+ */
+function formatKotlinString(value: string): string {
+  return `"${value.replace(/["\\$]/g, '\\$&')}"`;
+}
+
+/**
+ * Formats a value as a Kotlin expression
+ *
+ * @param value - Native value
+ * @returns Color(0xAARRGGBB), dp or sp length, Float or String literal
+ */
+function formatValue(value: NativeValue): string {
+  switch (value.kind) {
+    case 'color':
+      return `Color(0x${toArgbHex(value.hex)})`;
+    case 'length':
+      return `${formatNativeNumber(value.points)}.${value.font ? 'sp' : 'dp'}`;
+    case 'number':
+      return `${formatNativeNumber(value.value)}f`;
+    case 'string':
+      return formatKotlinString(value.value);
+  }
+}
+
+/**
+ * Parameter slots a JVM method can take (long values take two)
+ */
+const MAX_PARAMETER_SLOTS = 255;
+
+/**
+ * Properties per bitmask of default arguments in a data class `copy$default`
+ */
+const PROPERTIES_PER_MASK = 32;
+
+/**
+ * Slots `copy$default` takes besides the properties and masks (receiver and marker)
+ */
+const COPY_EXTRA_SLOTS = 2;
+
+/**
+ * Slots of a long parameter
+ */
+const LONG_SLOTS = 2;
+
+/**
+ * Indentation depth of the arguments of a variant instance in `object Theme`
+ */
+const INSTANCE_DEPTH = 2;
+
+/**
+ * Property types backed by a long (`Color` and `TextUnit` are value classes)
+ */
+const LONG_TYPES: ReadonlySet<string> = new Set([
+  PROPERTY_TYPES.color,
+  PROPERTY_TYPES.font,
+]);
+
+/**
+ * Property of a tokens class: a token, or a nested class for a group of tokens
+ */
+type KotlinProperty =
+  | { name: string; token: NativeToken }
+  | { name: string; group: KotlinClass };
+
+/**
+ * Tokens class
+ */
+interface KotlinClass {
+  /** Class name (e.g., 'ThemeColors') */
+  name: string;
+  /** Properties in token order */
+  properties: Array<KotlinProperty>;
+}
+
+/**
+ * Returns the property type of a token
+ *
+ * @param token - Native token
+ * @returns Kotlin type name
+ */
+function getPropertyType(token: NativeToken): string {
+  const [value] = token.values;
+  return value?.kind === 'length' && value.font
+    ? PROPERTY_TYPES.font
+    : PROPERTY_TYPES[value?.kind ?? 'string'];
+}
+
+/**
+ * Returns the type of a class property
+ *
+ * @param property - Class property
+ * @returns Kotlin type name
+ */
+function getKotlinType(property: KotlinProperty): string {
+  return 'token' in property
+    ? getPropertyType(property.token)
+    : property.group.name;
+}
+
+/**
+ * Checks whether tokens fit in the constructor (and `copy`) of one data class
+ * The JVM limits methods to 255 parameter slots, and `Color` takes two.
+ *
+ * @param tokens - Native tokens
+ * @returns True if a class with one property per token compiles
+ */
+function fitsInClass(tokens: Array<NativeToken>): boolean {
+  const slots = tokens.reduce(
+    (total, token) =>
+      total + (LONG_TYPES.has(getPropertyType(token)) ? LONG_SLOTS : 1),
+    0,
+  );
+  return (
+    slots + Math.ceil(tokens.length / PROPERTIES_PER_MASK) + COPY_EXTRA_SLOTS <=
+    MAX_PARAMETER_SLOTS
+  );
+}
+
+/**
+ * Groups tokens by the path part at a depth, in token order
+ *
+ * @param tokens - Native tokens
+ * @param depth - Index of the path part
+ * @returns Tokens keyed by their path up to and including the part
+ */
+function groupByPath(
+  tokens: Array<NativeToken>,
+  depth: number,
+): Map<string, Array<NativeToken>> {
+  const groups = new Map<string, Array<NativeToken>>();
+  for (const token of tokens) {
+    const key = token.path.slice(0, depth + 1).join('/');
+    groups.set(key, [...(groups.get(key) ?? []), token]);
+  }
+  return groups;
+}
+
+/**
+ * Builds the class for a group of tokens
+ * Groups too large for one class are split by the next path part into nested
+ * classes (e.g., `ThemeColors` holds `ThemeColorRed` for the red scale).
+ *
+ * @param name - Class name
+ * @param tokens - Tokens of the group
+ * @param depth - Number of path parts the group shares
+ * @returns Class with token and nested class properties
+ */
+function buildClass(
+  name: string,
+  tokens: Array<NativeToken>,
+  depth: number,
+): KotlinClass {
+  if (fitsInClass(tokens)) {
+    return {
+      name,
+      properties: tokens.map((token) => ({ name: token.name, token })),
+    };
+  }
+
+  const properties = [...groupByPath(tokens, depth)].map(
+    ([, group]): KotlinProperty => {
+      const [first] = group;
+      if (group.length === 1 && first!.path.length === depth + 1) {
+        return { name: first!.name, token: first! };
+      }
+      const groupName = toNativeMemberName(first!.path.slice(0, depth + 1));
+      return {
+        name: groupName,
+        group: buildClass(
+          `Theme${toNativeTypeName(groupName)}`,
+          group,
+          depth + 1,
+        ),
+      };
+    },
+  );
+  return { name, properties };
+}
+
+/**
+ * Builds the tokens class: one property per theme property (`colors`,
+ * `spacing`, ...) holding a class with its tokens
+ *
+ * @param tokens - Native tokens
+ * @returns `ThemeTokens` class
+ */
+function buildTokensClass(tokens: Array<NativeToken>): KotlinClass {
+  return {
+    name: 'ThemeTokens',
+    properties: [...groupByPath(tokens, 0)].map(([property, group]) => ({
+      name: property,
+      group: buildClass(`Theme${toNativeTypeName(property)}`, group, 1),
+    })),
+  };
+}
+
+/**
+ * Lists a class and its nested classes, outermost first
+ *
+ * @param kotlinClass - Tokens class
+ * @returns Classes in declaration order
+ */
+function listClasses(kotlinClass: KotlinClass): Array<KotlinClass> {
+  return [
+    kotlinClass,
+    ...kotlinClass.properties.flatMap((property) =>
+      'group' in property ? listClasses(property.group) : [],
+    ),
+  ];
+}
+
+/**
+ * Formats a class declaration
+ * A data class needs at least one property, so a theme without tokens gets a
+ * plain class.
+ *
+ * @param kotlinClass - Tokens class
+ * @returns Class declaration lines
+ */
+function formatClass(kotlinClass: KotlinClass): Array<string> {
+  if (kotlinClass.properties.length === 0) {
+    return [`class ${kotlinClass.name}`];
+  }
+  return [
+    `data class ${kotlinClass.name}(`,
+    ...kotlinClass.properties.map(
+      (property) =>
+        `${INDENT}val ${property.name}: ${getKotlinType(property)},`,
+    ),
+    ')',
+  ];
+}
+
+/**
+ * Formats the instance of a class for one variant
+ *
+ * @param kotlinClass - Tokens class
+ * @param index - Variant index
+ * @param depth - Indentation depth of the arguments
+ * @returns Constructor call lines (the first line has no indentation)
+ */
+function formatInstance(
+  kotlinClass: KotlinClass,
+  index: number,
+  depth: number,
+): Array<string> {
+  if (kotlinClass.properties.length === 0) {
+    return [`${kotlinClass.name}()`];
+  }
+  const indent = INDENT.repeat(depth);
+  const args = kotlinClass.properties.flatMap((property) => {
+    if ('token' in property) {
+      return [
+        `${indent}${property.name} = ${formatValue(property.token.values[index]!)},`,
+      ];
+    }
+    const lines = formatInstance(property.group, index, depth + 1);
+    lines[0] = `${indent}${property.name} = ${lines[0]}`;
+    lines[lines.length - 1] += ',';
+    return lines;
+  });
+  return [`${kotlinClass.name}(`, ...args, `${INDENT.repeat(depth - 1)})`];
+}
+
+/**
+ * Exports resolved themes as a Kotlin source file for Jetpack Compose
+ *
+ * `ThemeTokens` has one property per theme property (`colors`, `spacing`, ...),
+ * holding a class (`ThemeColors`, `ThemeSpacing`) with one property per token of
+ * the default theme, named after the CSS namespace and token path
+ * (`colorBlue500`, `textXlSize`). The JVM limits constructors to 255 parameter
+ * slots, so classes that would exceed it are split by the next path part
+ * (`colors.colorRed.colorRed500`). Colors are
+ * `Color(0xAARRGGBB)` in sRGB, lengths are `Dp` and font sizes `TextUnit` (`sp`),
+ * with rem lengths multiplied by the root font size; unitless numbers are
+ * `Float`. `Theme` holds one complete `ThemeTokens` per variant (`Theme.Default`,
+ * `Theme.Dark`), and `Theme.current` returns the dark variant when
+ * `isSystemInDarkTheme()` is true. Keyframes are not exported.
+ *
+ * @param result - Resolved theme (e.g., from resolveTheme)
+ * @param options - Package name, nesting configuration and root font size
+ * @returns Kotlin source
+ *
+ * @example
+ * exportKotlinTheme(await resolveTheme({ input: './theme.css' }));
+ * // data class ThemeTokens(val colors: ThemeColors, val spacing: ThemeSpacing)
+ * // data class ThemeColors(val colorPrimary: Color)
+ * // object Theme {
+ * //     val Default = ThemeTokens(colors = ThemeColors(colorPrimary = Color(0xFF3B82F6)), ...)
+ * //     val Dark = ThemeTokens(colors = ThemeColors(colorPrimary = Color(0xFF60A5FA)), ...)
+ * // }
+ */
+export function exportKotlinTheme(
+  result: ExportableTheme,
+  options: KotlinExportOptions = {},
+): string {
+  const { packageName = DEFAULT_PACKAGE_NAME } = options;
+  const { tokens, variants, darkIndex } = collectNativeTheme(result, options);
+  const defaultName = toNativeTypeName(variants[0]?.name ?? 'default');
+  const darkName =
+    darkIndex === -1 ? undefined : toNativeTypeName(variants[darkIndex]!.name);
+
+  const tokensClass = buildTokensClass(tokens);
+
+  const instances = variants.flatMap(({ name, selector }, index) => {
+    const [call = '', ...rest] = formatInstance(
+      tokensClass,
+      index,
+      INSTANCE_DEPTH,
+    );
+    return [
+      `${INDENT}/** ${name} (${selector}) */`,
+      `${INDENT}val ${toNativeTypeName(name)} = ${call}`,
+      ...rest,
+      '',
+    ];
+  });
+
+  return [
+    '// ⚠️ AUTO-GENERATED FILE - DO NOT EDIT MANUALLY',
+    '// Generated by tailwind-resolver from the resolved Tailwind theme',
+    '',
+    `package ${packageName}`,
+    '',
+    ...(darkName === undefined
+      ? []
+      : ['import androidx.compose.foundation.isSystemInDarkTheme']),
+    'import androidx.compose.runtime.Composable',
+    'import androidx.compose.runtime.ReadOnlyComposable',
+    'import androidx.compose.ui.graphics.Color',
+    'import androidx.compose.ui.unit.Dp',
+    'import androidx.compose.ui.unit.TextUnit',
+    'import androidx.compose.ui.unit.dp',
+    'import androidx.compose.ui.unit.sp',
+    '',
+    ...listClasses(tokensClass).flatMap((kotlinClass) => [
+      ...formatClass(kotlinClass),
+      '',
+    ]),
+    'object Theme {',
+    ...instances,
+    `${INDENT}/** Tokens for the system theme */`,
+    `${INDENT}val current: ThemeTokens`,
+    `${INDENT}${INDENT}@Composable`,
+    `${INDENT}${INDENT}@ReadOnlyComposable`,
+    darkName === undefined
+      ? `${INDENT}${INDENT}get() = ${defaultName}`
+      : `${INDENT}${INDENT}get() = if (isSystemInDarkTheme()) ${darkName} else ${defaultName}`,
+    '}',
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,329 @@
+/**
+ * Native platform token helpers
+ * Converts resolved themes into the values the Swift, Kotlin and Dart exports
+ * are built from: sRGB colors, lengths in points, numbers and strings
+ */
+
+import type { NestingOptions } from '../../types';
+import type { ExportableTheme } from './tokens';
+
+import { convertColor } from '../color/format';
+import { DEFAULT_ROOT_FONT_SIZE } from '../math/evaluator';
+import {
+  collectThemeTokens,
+  getThemeToken,
+  getTokenPath,
+  inferTokenKind,
+  isLengthToken,
+  parseTokenNumber,
+  resolveTokenValue,
+  toTokenNumber,
+} from './tokens';
+
+/**
+ * Options shared by the native platform exports
+ */
+export interface NativeExportOptions {
+  /** Nesting configuration the theme was built with (used to resolve references) */
+  nesting?: NestingOptions;
+  /**
+   * Root font size in pixels (used to convert rem lengths to points)
+   * @default 16
+   */
+  rootFontSize?: number;
+}
+
+/**
+ * Token value in a platform-neutral form
+ * - `color`: sRGB color as `RRGGBBAA` hex digits
+ * - `length`: length in points (`font` is true for font sizes)
+ * - `number`: unitless number
+ * - `string`: any other value, as written in the theme
+ */
+export type NativeValue =
+  | { kind: 'color'; hex: string }
+  | { kind: 'length'; points: number; font: boolean }
+  | { kind: 'number'; value: number }
+  | { kind: 'string'; value: string };
+
+/**
+ * Token of the default theme with its value in every variant
+ */
+export interface NativeToken {
+  /** Member name (e.g., 'colorBlue500', 'textXlLineHeight') */
+  name: string;
+  /** Path in the theme (e.g., ['colors', 'blue', '500']) */
+  path: Array<string>;
+  /** Values in variant order; every value has the same kind */
+  values: Array<NativeValue>;
+}
+
+/**
+ * Variant of a native theme
+ */
+export interface NativeVariant {
+  /** Variant name (e.g., 'default', 'dark') */
+  name: string;
+  /** CSS selector of the variant */
+  selector: string;
+}
+
+/**
+ * Resolved themes prepared for a native platform export
+ */
+export interface NativeTheme {
+  /** Tokens of the default theme */
+  tokens: Array<NativeToken>;
+  /** Variants in result order (the default theme first) */
+  variants: Array<NativeVariant>;
+  /** Index of the variant that maps to dark mode, or -1 */
+  darkIndex: number;
+}
+
+/**
+ * Matches a selector that applies in dark mode (e.g., '@media (prefers-color-scheme: dark)')
+ */
+const DARK_SCHEME_REGEX = /prefers-color-scheme:\s*dark/;
+
+/**
+ * Matches characters that cannot appear in identifiers
+ */
+const IDENTIFIER_SEPARATOR_REGEX = /[^\w]+/;
+
+/**
+ * Matches a word boundary between two digits (e.g., between '1' and '5' of spacing.1.5)
+ */
+const DIGIT_BOUNDARY_REGEX = /\d$/;
+
+/**
+ * Length of a `#rrggbb` color
+ */
+const OPAQUE_HEX_LENGTH = 7;
+
+/**
+ * Alpha digits of an opaque color
+ */
+const OPAQUE_ALPHA = 'FF';
+
+/**
+ * Number of hex digits per channel
+ */
+const CHANNEL_DIGITS = 2;
+
+/**
+ * Joins words into a camelCase identifier
+ *
+ * Words that would run two digits together are joined with '_' so that
+ * `spacing.1.5` and `spacing.15` stay distinct.
+ *
+ * @param words - Identifier parts
+ * @returns Identifier with every word after the first capitalized
+ */
+function toCamelCase(words: Array<string>): string {
+  return words
+    .flatMap((word) => word.split(IDENTIFIER_SEPARATOR_REGEX))
+    .filter((word) => word !== '')
+    .reduce((name, word) => {
+      if (name === '') {
+        return word;
+      }
+      return DIGIT_BOUNDARY_REGEX.test(name) && /^\d/.test(word)
+        ? `${name}_${word}`
+        : `${name}${word[0]!.toUpperCase()}${word.slice(1)}`;
+    }, '');
+}
+
+/**
+ * Converts a token path to a member name
+ *
+ * @param path - Path in the theme
+ * @returns camelCase name after the CSS namespace and token path
+ *
+ * @example
+ * toNativeMemberName(['colors', 'blue', '500']) // 'colorBlue500'
+ * toNativeMemberName(['fontSize', 'xl', 'lineHeight']) // 'textXlLineHeight'
+ * toNativeMemberName(['spacing', '1.5']) // 'spacing1_5'
+ */
+export function toNativeMemberName(path: Array<string>): string {
+  return toCamelCase(getTokenPath(path));
+}
+
+/**
+ * Converts a variant name to a type name
+ *
+ * @param variant - Variant name (e.g., 'dark', '@md/sidebar')
+ * @returns PascalCase name (e.g., 'Dark', 'MdSidebar'), prefixed with 'Variant' if it would start with a digit
+ */
+export function toNativeTypeName(variant: string): string {
+  const name = toCamelCase([variant]);
+  const typeName = `${name.charAt(0).toUpperCase()}${name.slice(1)}`;
+  return /^(?:\d|$)/.test(typeName) ? `Variant${typeName}` : typeName;
+}
+
+/**
+ * Formats a number for source code
+ *
+ * @param value - Number
+ * @returns Number without negative zero
+ */
+export function formatNativeNumber(value: number): string {
+  return String(value + 0);
+}
+
+/**
+ * Moves the alpha digits of a color to the front
+ *
+ * @param hex - `RRGGBBAA` digits
+ * @returns `AARRGGBB` digits (the layout of Android and Flutter colors)
+ */
+export function toArgbHex(hex: string): string {
+  return `${hex.slice(-CHANNEL_DIGITS)}${hex.slice(0, -CHANNEL_DIGITS)}`;
+}
+
+/**
+ * Converts a CSS color to sRGB hex digits
+ *
+ * @param value - CSS color
+ * @returns `RRGGBBAA` digits
+ */
+function toHex(value: string): string {
+  const hex = convertColor(value, 'hex').toUpperCase();
+  return hex.length === OPAQUE_HEX_LENGTH
+    ? `${hex.slice(1)}${OPAQUE_ALPHA}`
+    : hex.slice(1);
+}
+
+/**
+ * Converts a resolved value
+ * Numbers and lengths at length paths become points; other numbers stay unitless.
+ *
+ * @param value - Resolved value
+ * @param path - Path in the theme
+ * @param rootFontSize - Root font size in pixels
+ * @returns Color, length, number or string value
+ */
+function toNativeValue(
+  value: string | number,
+  path: Array<string>,
+  rootFontSize: number,
+): NativeValue {
+  const text = String(value).trim();
+  if (inferTokenKind(text) === 'color') {
+    return { kind: 'color', hex: toHex(text) };
+  }
+
+  if (!isLengthToken(path)) {
+    const number = parseTokenNumber(text);
+    return number === undefined
+      ? { kind: 'string', value: text }
+      : { kind: 'number', value: number };
+  }
+
+  const points = toTokenNumber(text, path, rootFontSize);
+  return points !== undefined
+    ? { kind: 'length', points, font: path[0] === 'fontSize' }
+    : { kind: 'string', value: text };
+}
+
+/**
+ * Returns the kind of a value, telling font sizes apart from other lengths
+ *
+ * @param value - Native value
+ * @returns Kind key
+ */
+function getKindKey(value: NativeValue): string {
+  return value.kind === 'length' && value.font ? 'font' : value.kind;
+}
+
+/**
+ * Prepares resolved themes for a native platform export
+ *
+ * Every token of the default theme gets a value in every variant (variants that
+ * lack the token use the default value). Aliases are replaced with the
+ * referenced value (looked up in the variant, then in the default theme), colors are converted to sRGB and lengths to points. Tokens
+ * whose values have different kinds across variants fall back to strings.
+ * The dark variant is the one named 'dark', or else the first variant whose
+ * selector matches `prefers-color-scheme: dark`.
+ *
+ * @param result - Resolved theme (e.g., from resolveTheme)
+ * @param options - Nesting configuration and root font size
+ * @returns Tokens, variants and the index of the dark variant
+ * @throws {Error} If two tokens map to the same member name
+ */
+export function collectNativeTheme(
+  result: ExportableTheme,
+  options: NativeExportOptions = {},
+): NativeTheme {
+  const { nesting, rootFontSize = DEFAULT_ROOT_FONT_SIZE } = options;
+  const defaultTheme = result.variants['default'];
+  const themes = Object.entries(result.variants);
+  const names = new Map<string, Array<string>>();
+  const tokens: Array<NativeToken> = [];
+
+  for (const token of collectThemeTokens(defaultTheme)) {
+    const name = toNativeMemberName(token.path);
+    const existing = names.get(name);
+    if (existing !== undefined) {
+      throw new Error(
+        `Native member name '${name}' is used by both ${existing.join('.')} and ${token.path.join('.')}`,
+      );
+    }
+    names.set(name, token.path);
+
+    const raw = themes.map(([, theme]) => {
+      const value = resolveTokenValue(
+        {
+          path: token.path,
+          value: getThemeToken(theme, token.path) ?? token.value,
+        },
+        theme,
+        nesting,
+      );
+      return resolveTokenValue(
+        { path: token.path, value },
+        defaultTheme,
+        nesting,
+      );
+    });
+    const values = raw.map((value) =>
+      toNativeValue(value, token.path, rootFontSize),
+    );
+    const consistent = values.every(
+      (value) => getKindKey(value) === getKindKey(values[0]!),
+    );
+
+    tokens.push({
+      name,
+      path: token.path,
+      values: consistent
+        ? values
+        : raw.map((value) => ({ kind: 'string', value: String(value).trim() })),
+    });
+  }
+
+  const variants = themes.map(([name]) => ({
+    name,
+    selector: result.selectors[name] ?? ':root',
+  }));
+  const named = variants.findIndex(({ name }) => name === 'dark');
+
+  return {
+    tokens,
+    variants,
+    darkIndex:
+      named === -1
+        ? variants.findIndex(({ selector }) => DARK_SCHEME_REGEX.test(selector))
+        : named,
+  };
+}
+
+/**
+ * Checks whether two native values are equal
+ *
+ * @param a - First value
+ * @param b - Second value
+ * @returns True if both values have the same kind and content
+ */
+export function isSameNativeValue(a: NativeValue, b: NativeValue): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
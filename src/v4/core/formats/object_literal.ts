@@ -0,0 +1,74 @@
+/**
+ * TypeScript source helpers for the code-generating export formats
+ */
+
+import type { TokenTree } from './tokens';
+
+/**
+ * Indentation of generated TypeScript
+ */
+const INDENT = '  ';
+
+/**
+ * Matches keys that can be written without quotes
+ */
+const IDENTIFIER_REGEX = /^[a-zA-Z_$][a-zA-Z0-9_$]*$/;
+
+/**
+ * Formats an object key, quoting keys that are not identifiers
+ *
+ * @param key - Object key
+ * @returns Key as written in TypeScript source
+ *
+ * @example
+ * formatPropertyKey('primary') // 'primary'
+ * formatPropertyKey('500') // "'500'"
+ */
+export function formatPropertyKey(key: string): string {
+  return IDENTIFIER_REGEX.test(key) ? key : `'${key.replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * Formats a string as a single-quoted TypeScript string literal
+ *
+ * @param value - String value
+ * @returns String literal
+ */
+export function formatStringLiteral(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * Formats a token tree as an object literal or type literal
+ *
+ * @param tree - Token tree whose leaves are already formatted
+ * @param separator - Member separator (',' for objects, ';' for types)
+ * @param depth - Indentation depth of the members
+ * @returns Multi-line literal
+ *
+ * @example
+ * formatObjectLiteral({ colors: { primary: "'#fff'" } }, ',')
+ * // {
+ * //   colors: {
+ * //     primary: '#fff',
+ * //   },
+ * // }
+ */
+export function formatObjectLiteral(
+  tree: TokenTree<string>,
+  separator: ',' | ';',
+  depth: number = 1,
+): string {
+  const indent = INDENT.repeat(depth);
+  const members = Object.entries(tree).map(([key, child]) => {
+    const value =
+      typeof child === 'string'
+        ? child
+        : formatObjectLiteral(child, separator, depth + 1);
+    return `${indent}${formatPropertyKey(key)}: ${value}${separator}`;
+  });
+
+  return members.length === 0
+    ? '{}'
+    : `{\n${members.join('\n')}\n${INDENT.repeat(depth - 1)}}`;
+}
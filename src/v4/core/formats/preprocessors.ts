@@ -0,0 +1,315 @@
+/**
+ * SCSS, Less and Stylus export
+ * Serializes resolved themes into preprocessor variables and maps, so stylesheets
+ * that cannot read CSS custom properties (media queries, compile-time math) can
+ * use the theme
+ */
+
+import type { NestingOptions } from '../../types';
+import type { ExportableTheme, TokenTree } from './tokens';
+
+import postcss from 'postcss';
+
+import { camelToKebabCase } from '../utils/string';
+import {
+  buildTokenTree,
+  collectThemeTokens,
+  getTokenPath,
+  resolveTokenValue,
+} from './tokens';
+
+/**
+ * Supported preprocessor languages
+ */
+export type PreprocessorLanguage = 'scss' | 'less' | 'stylus';
+
+/**
+ * Options for preprocessor export
+ */
+export interface PreprocessorExportOptions {
+  /** Nesting configuration the theme was built with (used to resolve references) */
+  nesting?: NestingOptions;
+}
+
+/**
+ * Syntax of a preprocessor language
+ */
+interface Dialect {
+  /** Variable prefix */
+  prefix: string;
+  /** Assignment between variable name and value */
+  assign: string;
+  /** Statement terminator */
+  end: string;
+  /** Map delimiters */
+  mapOpen: string;
+  mapClose: string;
+  /** Separator after a map entry */
+  separator: string;
+  /** Separator after a nested map */
+  groupSeparator: string;
+  /** Formats a map key (`group` is true for nested maps) */
+  key: (name: string, group: boolean) => string;
+  /** Checks whether the preprocessor would change a value (e.g., evaluate '4 / 3' as division) */
+  evaluates: (value: string) => boolean;
+  /** Keeps a value from being evaluated */
+  escape: (value: string) => string;
+  /** Wraps a comma-separated value inside a map */
+  list: (value: string) => string;
+}
+
+/**
+ * Checks whether a value contains a top-level division (e.g., '4 / 3')
+ *
+ * @param value - Value
+ * @returns True if the value has a '/' outside of functions
+ */
+function hasDivision(value: string): boolean {
+  return postcss.list.split(value, ['/'], false).length > 1;
+}
+
+/**
+ * Quotes a value as a Stylus string
+ * Stylus strings cannot escape their quote, so values with both quote
+ * characters are concatenated from parts.
+ *
+ * @param value - Value
+ * @returns String expression
+ *
+ * @example
+ * toStylusString('"Inter", sans-serif') // `'"Inter", sans-serif'`
+ */
+function toStylusString(value: string): string {
+  if (!value.includes('"')) {
+    return `"${value}"`;
+  }
+  if (!value.includes("'")) {
+    return `'${value}'`;
+  }
+  return value
+    .split('"')
+    .map((part) => `"${part}"`)
+    .join(` + '"' + `);
+}
+
+/**
+ * Syntax per language
+ * - SCSS: `$name: value;` and `(key: value,)` maps, read with `map.get($color, 'blue', '500')`
+ * - Less: `@name: value;` and detached rulesets, read with `@color[@blue][500]`
+ * - Stylus: `$name = value` and hashes, read with `$color.blue['500']`; values with
+ *   functions are escaped, since Stylus evaluates color functions (dropping the
+ *   alpha of `rgb(0 0 0 / 10%)`), and comma lists in hashes are escaped, since
+ *   hash values cannot be lists
+ */
+const DIALECTS: Record<PreprocessorLanguage, Dialect> = {
+  scss: {
+    prefix: '$',
+    assign: ': ',
+    end: ';',
+    mapOpen: '(',
+    mapClose: ')',
+    separator: ',',
+    groupSeparator: ',',
+    key: (name) => `'${name}'`,
+    evaluates: hasDivision,
+    escape: (value) => `#{${JSON.stringify(value)}}`,
+    list: (value) => `(${value})`,
+  },
+  less: {
+    prefix: '@',
+    assign: ': ',
+    end: ';',
+    mapOpen: '{',
+    mapClose: '}',
+    separator: ';',
+    groupSeparator: '',
+    key: (name, group) => (group ? `@${name}` : name),
+    evaluates: hasDivision,
+    escape: (value) => `~${JSON.stringify(value)}`,
+    list: (value) => value,
+  },
+  stylus: {
+    prefix: '$',
+    assign: ' = ',
+    end: '',
+    mapOpen: '{',
+    mapClose: '}',
+    separator: ',',
+    groupSeparator: ',',
+    key: (name) => `'${name}'`,
+    evaluates: (value) => hasDivision(value) || value.includes('('),
+    escape: (value) => `unquote(${toStylusString(value)})`,
+    list: (value) => `unquote(${toStylusString(value)})`,
+  },
+};
+
+/**
+ * Indentation of map entries
+ */
+const INDENT = '  ';
+
+/**
+ * Converts a token path part to a preprocessor name part
+ *
+ * @param part - Token path part (e.g., 'lineHeight', '1_5')
+ * @returns Kebab-case name part with characters other than letters, digits, '-' and '_' replaced by '_'
+ */
+function toNamePart(part: string): string {
+  return camelToKebabCase(part).replace(/[^\w-]/g, '_');
+}
+
+/**
+ * Formats a value for a variable or map entry
+ *
+ * @param value - Resolved value
+ * @param dialect - Target syntax
+ * @param inMap - Whether the value is a map entry
+ * @returns Value in the target syntax
+ */
+function formatValue(
+  value: string | number,
+  dialect: Dialect,
+  inMap: boolean,
+): string {
+  // Declarations may span lines (e.g., long font stacks)
+  const text = String(value)
+    .trim()
+    .replace(/\s*\n\s*/g, ' ');
+  if (dialect.evaluates(text)) {
+    return dialect.escape(text);
+  }
+  return inMap && postcss.list.comma(text).length > 1
+    ? dialect.list(text)
+    : text;
+}
+
+/**
+ * Formats a token tree as a map
+ *
+ * @param tree - Token tree with formatted values
+ * @param dialect - Target syntax
+ * @param depth - Nesting depth of the map
+ * @returns Map in the target syntax
+ */
+function formatMap(
+  tree: TokenTree<string>,
+  dialect: Dialect,
+  depth: number = 1,
+): string {
+  const indent = INDENT.repeat(depth);
+  const entries = Object.entries(tree).map(([name, child]) =>
+    typeof child === 'string'
+      ? `${indent}${dialect.key(toNamePart(name), false)}: ${child}${dialect.separator}`
+      : `${indent}${dialect.key(toNamePart(name), true)}: ${formatMap(child, dialect, depth + 1)}${dialect.groupSeparator}`,
+  );
+
+  if (entries.length === 0) {
+    return `${dialect.mapOpen}${dialect.mapClose}`;
+  }
+
+  return `${dialect.mapOpen}\n${entries.join('\n')}\n${INDENT.repeat(depth - 1)}${dialect.mapClose}`;
+}
+
+/**
+ * Formats a variable declaration
+ *
+ * @param name - Variable name without prefix
+ * @param value - Formatted value
+ * @param dialect - Target syntax
+ * @returns Declaration statement
+ */
+function formatDeclaration(
+  name: string,
+  value: string,
+  dialect: Dialect,
+): string {
+  return `${dialect.prefix}${name}${dialect.assign}${value}${dialect.end}`;
+}
+
+/**
+ * Exports resolved themes as SCSS, Less or Stylus variables and maps
+ *
+ * The file has three sections:
+ * - Variables for every token of the default theme, named after the CSS
+ *   namespace and token path (`$color-primary-500`, `$text-xl-line-height`)
+ * - One map per namespace of the default theme, with nested scales as nested
+ *   maps (`$color`, `$text`)
+ * - One map per variant (`$theme-default`, `$theme-dark`), each a complete theme
+ *   keyed by namespace
+ *
+ * Values that are a var() reference to another token are replaced with the
+ * referenced value. Values the preprocessor would evaluate (e.g., `4 / 3`) are
+ * escaped. Keyframes are not exported.
+ *
+ * @param result - Resolved theme (e.g., from resolveTheme)
+ * @param language - Target language
+ * @param options - Nesting configuration
+ * @returns Stylesheet source
+ *
+ * @example
+ * exportPreprocessorTokens(await resolveTheme({ input: './theme.css' }), 'scss');
+ * // $color-primary-500: #3b82f6;
+ * // $color: ('primary': ('500': #3b82f6,),);
+ * // $theme-dark: ('color': ('primary': ('500': #60a5fa,),),);
+ */
+export function exportPreprocessorTokens(
+  result: ExportableTheme,
+  language: PreprocessorLanguage,
+  options: PreprocessorExportOptions = {},
+): string {
+  const { nesting } = options;
+  const dialect = DIALECTS[language];
+  const lines = [
+    '// ⚠️ AUTO-GENERATED FILE - DO NOT EDIT MANUALLY',
+    '// Generated by tailwind-resolver from the resolved Tailwind theme',
+  ];
+
+  const toTree = (theme: unknown): TokenTree<string> =>
+    buildTokenTree(collectThemeTokens(theme), (token) =>
+      formatValue(resolveTokenValue(token, theme, nesting), dialect, true),
+    );
+
+  const defaultTheme = result.variants['default'];
+  const tokens = collectThemeTokens(defaultTheme);
+  if (tokens.length > 0) {
+    lines.push('', '// Tokens (default theme)');
+    for (const token of tokens) {
+      lines.push(
+        formatDeclaration(
+          getTokenPath(token.path).map(toNamePart).join('-'),
+          formatValue(
+            resolveTokenValue(token, defaultTheme, nesting),
+            dialect,
+            false,
+          ),
+          dialect,
+        ),
+      );
+    }
+
+    lines.push('', '// Scales (default theme)');
+    for (const [namespace, scale] of Object.entries(toTree(defaultTheme))) {
+      lines.push(
+        formatDeclaration(
+          toNamePart(namespace),
+          formatMap(scale as TokenTree<string>, dialect),
+          dialect,
+        ),
+      );
+    }
+  }
+
+  lines.push('', '// Variants');
+  for (const [variant, theme] of Object.entries(result.variants)) {
+    lines.push(
+      `// ${result.selectors[variant] ?? variant}`,
+      formatDeclaration(
+        `theme-${toNamePart(variant)}`,
+        formatMap(toTree(theme), dialect),
+        dialect,
+      ),
+    );
+  }
+
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,123 @@
+/**
+ * Style Dictionary export
+ * Serializes resolved themes into Style Dictionary source JSON (`value`, `comment`),
+ * one source per variant, keeping var() references as aliases
+ */
+
+import type { NestingOptions } from '../../types';
+import type { ExportableTheme, ThemeToken, TokenTree } from './tokens';
+
+import {
+  buildTokenTree,
+  collectThemeTokens,
+  getTokenPath,
+  indexRawValuesByPath,
+  indexVariablesByPath,
+  resolveAliasPath,
+} from './tokens';
+
+/**
+ * A single Style Dictionary token
+ */
+export interface StyleDictionaryToken {
+  /** Token value, or a reference such as '{color.blue.500}' */
+  value: string | number;
+  /** CSS variable that declares the token */
+  comment?: string;
+}
+
+/**
+ * A group of tokens and nested groups
+ */
+export type StyleDictionaryGroup = TokenTree<StyleDictionaryToken>;
+
+/**
+ * Options for Style Dictionary export
+ */
+export interface StyleDictionaryExportOptions {
+  /** Nesting configuration the theme was built with (used to resolve references) */
+  nesting?: NestingOptions;
+}
+
+/**
+ * Style Dictionary source of one variant
+ */
+export interface StyleDictionarySource {
+  /** Variant name (a key of `selectors`) */
+  variant: string;
+  /** Token tree */
+  tokens: StyleDictionaryGroup;
+}
+
+/**
+ * Converts a theme token to a Style Dictionary token
+ *
+ * @param token - Theme token
+ * @param theme - Variant theme (used to resolve references)
+ * @param comment - Declaring CSS variable, if known
+ * @param rawValue - Value as written in the CSS, if known (the resolved theme has var() references inlined)
+ * @param nesting - Nesting configuration
+ * @returns Style Dictionary token
+ */
+function toStyleDictionaryToken(
+  token: ThemeToken,
+  theme: unknown,
+  comment: string | undefined,
+  rawValue: string | undefined,
+  nesting?: NestingOptions,
+): StyleDictionaryToken {
+  const aliasPath = resolveAliasPath(rawValue ?? token.value, theme, nesting);
+  const value =
+    aliasPath === null ? token.value : `{${getTokenPath(aliasPath).join('.')}}`;
+
+  return comment === undefined ? { value } : { value, comment };
+}
+
+/**
+ * Exports resolved themes as Style Dictionary source JSON
+ *
+ * Tokens are grouped by CSS namespace (`color`, `spacing`, `text`, ...), so the
+ * category/type/item (CTI) attributes Style Dictionary derives from the path match
+ * the Tailwind namespace. Every variant is exported as a complete source (variants
+ * are resolved on top of the default theme), so a platform build needs only the
+ * source of the variant it targets. Tokens declared as a var() reference to
+ * another token become references (`{color.primary}`). `comment` names the CSS
+ * variable that declares the token (user CSS only). Keyframes are not exported.
+ *
+ * @param result - Resolved theme (e.g., from resolveTheme)
+ * @param options - Nesting configuration
+ * @returns One source per variant, in `variants` order (the default theme first)
+ *
+ * @example
+ * const [defaults, dark] = exportStyleDictionaryTokens(await resolveTheme({ input: './theme.css' }));
+ * // defaults.tokens.color.primary = { value: '#3b82f6', comment: '--color-primary' }
+ * // dark.variant = 'dark'
+ */
+export function exportStyleDictionaryTokens(
+  result: ExportableTheme,
+  options: StyleDictionaryExportOptions = {},
+): Array<StyleDictionarySource> {
+  const { nesting } = options;
+  const variableNames = indexVariablesByPath(result.variables ?? [], nesting);
+
+  return Object.entries(result.variants).map(([variant, theme]) => {
+    const rawValues = indexRawValuesByPath(
+      result.variables ?? [],
+      variant,
+      nesting,
+    );
+
+    return {
+      variant,
+      tokens: buildTokenTree(collectThemeTokens(theme), (token) =>
+        toStyleDictionaryToken(
+          token,
+          theme,
+          variableNames.get(token.path.join('/')),
+          rawValues.get(token.path.join('/')),
+          nesting,
+        ),
+      ),
+    };
+  });
+}
@@ -0,0 +1,57 @@
+/**
+ * styled-components export
+ * Generates a `DefaultTheme` augmentation typed after the resolved theme
+ */
+
+import type { ExportableTheme } from './tokens';
+
+import { formatObjectLiteral } from './object_literal';
+import { buildTokenTree, collectThemeTokens } from './tokens';
+
+/**
+ * Indentation depth of the interface members inside `declare module`
+ */
+const INTERFACE_DEPTH = 2;
+
+/**
+ * Exports resolved themes as a styled-components `DefaultTheme` augmentation
+ * (`.d.ts` source)
+ *
+ * The interface has the shape of the default theme with `string` (or `number`)
+ * leaves rather than literal types, so every variant object of the generated
+ * runtime (`defaultTheme`, `dark`, ...) can be passed to `<ThemeProvider>`.
+ * Keyframes are not included.
+ *
+ * @param result - Resolved theme (e.g., from resolveTheme)
+ * @returns TypeScript declaration source
+ *
+ * @example
+ * exportStyledComponentsTheme(await resolveTheme({ input: './theme.css' }));
+ * // declare module 'styled-components' {
+ * //   export interface DefaultTheme { colors: { primary: string } }
+ * // }
+ */
+export function exportStyledComponentsTheme(result: ExportableTheme): string {
+  const shape = buildTokenTree(
+    collectThemeTokens(result.variants['default']),
+    ({ value }) => typeof value,
+    (path) => path,
+  );
+
+  return [
+    '/**',
+    ' * ⚠️ AUTO-GENERATED FILE - DO NOT EDIT MANUALLY',
+    ' *',
+    ' * styled-components theme type generated by tailwind-resolver.',
+    ' * Pass a variant of the generated runtime to <ThemeProvider theme={...}>.',
+    ' */',
+    '',
+    '/* eslint-disable */',
+    "import 'styled-components';",
+    '',
+    "declare module 'styled-components' {",
+    `  export interface DefaultTheme ${formatObjectLiteral(shape, ';', INTERFACE_DEPTH)}`,
+    '}',
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,148 @@
+/**
+ * Swift export
+ * Generates a SwiftUI `enum Theme` whose colors follow the system appearance
+ */
+
+import type { NativeExportOptions, NativeValue } from './native';
+import type { ExportableTheme } from './tokens';
+
+import {
+  collectNativeTheme,
+  formatNativeNumber,
+  isSameNativeValue,
+  toNativeTypeName,
+} from './native';
+
+/**
+ * Indentation of enum members
+ */
+const INDENT = '    ';
+
+/**
+ * Color initializers used by the generated members
+ * `Color(light:dark:)` resolves against the trait collection, so colors switch
+ * with the system appearance without any code in the app.
+ */
+const COLOR_EXTENSIONS = [
+  'private extension UIColor {',
+  '    convenience init(hex: UInt32) {',
+  '        self.init(',
+  '            red: CGFloat((hex >> 24) & 0xFF) / 255,',
+  '            green: CGFloat((hex >> 16) & 0xFF) / 255,',
+  '            blue: CGFloat((hex >> 8) & 0xFF) / 255,',
+  '            alpha: CGFloat(hex & 0xFF) / 255',
+  '        )',
+  '    }',
+  '}',
+  '',
+  'private extension Color {',
+  '    init(hex: UInt32) {',
+  '        self.init(UIColor(hex: hex))',
+  '    }',
+  '',
+  '    init(light: UInt32, dark: UInt32) {',
+  '        self.init(UIColor { traits in',
+  '            UIColor(hex: traits.userInterfaceStyle == .dark ? dark : light)',
+  '        })',
+  '    }',
+  '}',
+];
+
+/**
+ * Formats a Swift string literal
+ *
+ * @param value - String
+ * @returns Double-quoted literal
+ */
+function formatSwiftString(value: string): string {
+  return `"${value.replace(/["\\]/g, '\\$&')}"`;
+}
+
+/**
+ * Formats a static member
+ *
+ * @param name - Member name
+ * @param value - Value in the variant
+ * @param dark - Value in the dark variant (colors that differ become dynamic)
+ * @returns Declaration
+ */
+function formatMember(
+  name: string,
+  value: NativeValue,
+  dark: NativeValue = value,
+): string {
+  const declaration = `public static let ${name}`;
+  switch (value.kind) {
+    case 'color':
+      return dark.kind === 'color' && dark.hex !== value.hex
+        ? `${declaration} = Color(light: 0x${value.hex}, dark: 0x${dark.hex})`
+        : `${declaration} = Color(hex: 0x${value.hex})`;
+    case 'length':
+      return `${declaration}: CGFloat = ${formatNativeNumber(value.points)}`;
+    case 'number':
+      return `${declaration}: CGFloat = ${formatNativeNumber(value.value)}`;
+    case 'string':
+      return `${declaration} = ${formatSwiftString(value.value)}`;
+  }
+}
+
+/**
+ * Exports resolved themes as a Swift source file for SwiftUI
+ *
+ * `Theme` has one static member per token of the default theme, named after the
+ * CSS namespace and token path (`Theme.colorBlue500`, `Theme.textXlSize`).
+ * Colors are `Color` values in sRGB; lengths are `CGFloat` points (rem lengths
+ * are multiplied by the root font size) and unitless numbers are `CGFloat` too.
+ * Colors that the dark variant changes resolve against the trait collection,
+ * so they follow dark mode on their own. Every other variant (and the dark
+ * variant itself) is a nested enum with the tokens it changes
+ * (`Theme.Dark.colorPrimary`). Keyframes are not exported.
+ *
+ * @param result - Resolved theme (e.g., from resolveTheme)
+ * @param options - Nesting configuration and root font size
+ * @returns Swift source
+ *
+ * @example
+ * exportSwiftTheme(await resolveTheme({ input: './theme.css' }));
+ * // public enum Theme {
+ * //     public static let colorPrimary = Color(light: 0x3B82F6FF, dark: 0x60A5FAFF)
+ * //     public static let spacing: CGFloat = 4
+ * // }
+ */
+export function exportSwiftTheme(
+  result: ExportableTheme,
+  options: NativeExportOptions = {},
+): string {
+  const { tokens, variants, darkIndex } = collectNativeTheme(result, options);
+  const lines = [
+    '// ⚠️ AUTO-GENERATED FILE - DO NOT EDIT MANUALLY',
+    '// Generated by tailwind-resolver from the resolved Tailwind theme',
+    '',
+    'import SwiftUI',
+    'import UIKit',
+    '',
+    'public enum Theme {',
+    ...tokens.map(
+      ({ name, values }) =>
+        `${INDENT}${formatMember(name, values[0]!, values[darkIndex])}`,
+    ),
+  ];
+
+  variants.slice(1).forEach(({ name, selector }, index) => {
+    const changed = tokens.filter(
+      ({ values }) => !isSameNativeValue(values[index + 1]!, values[0]!),
+    );
+    lines.push(
+      '',
+      `${INDENT}/// ${name} (${selector})`,
+      `${INDENT}public enum ${toNativeTypeName(name)} {`,
+      ...changed.map(
+        ({ name: member, values }) =>
+          `${INDENT}${INDENT}${formatMember(member, values[index + 1]!)}`,
+      ),
+      `${INDENT}}`,
+    );
+  });
+
+  return [...lines, '}', '', ...COLOR_EXTENSIONS, ''].join('\n');
+}
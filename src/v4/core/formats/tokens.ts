@@ -0,0 +1,484 @@
+/**
+ * Token helpers shared by the export formats
+ * Walks resolved themes as leaf tokens and maps theme paths back to CSS namespaces
+ */
+
+import type { CSSVariable, NestingOptions, Theme } from '../../types';
+
+import { parseColor } from '../color/parser';
+import { NAMESPACE_TO_THEME_PROPERTY } from '../constants/namespaces';
+import { hasThemeMode, variantNameToCamelCase } from '../parser/extractor';
+import { getVariableThemePath } from '../theme/builder';
+import { convertLength, LENGTH_PROPERTIES } from '../units/normalize';
+import { camelToKebabCase } from '../utils/string';
+import { isRecord } from '../utils/type_guards';
+
+/**
+ * The parts of a resolved theme that are exported
+ */
+export interface ExportableTheme {
+  /** Resolved themes keyed by variant name */
+  variants: Record<string, unknown>;
+  /** Selectors keyed by variant name */
+  selectors: Record<string, string>;
+  /** CSS variables (used to name tokens after their declaring variable and to find aliases) */
+  variables?: Array<CSSVariable>;
+}
+
+/**
+ * A leaf value of a resolved theme
+ */
+export interface ThemeToken {
+  /** Path within the theme (e.g., ['colors', 'red', '500']) */
+  path: Array<string>;
+  /** Resolved value */
+  value: string | number;
+}
+
+/**
+ * A var() reference that makes up a whole value
+ */
+export interface VarReference {
+  /** Referenced variable (e.g., '--color-blue-500') */
+  variable: string;
+  /** Fallback value, if any */
+  fallback?: string;
+}
+
+/**
+ * Tokens grouped by token path
+ */
+export interface TokenTree<T> {
+  [name: string]: T | TokenTree<T>;
+}
+
+/**
+ * Theme properties that hold CSS blocks instead of values
+ */
+const NON_TOKEN_PROPERTIES: ReadonlyArray<string> = ['keyframes'];
+
+/**
+ * Matches a value that is a single var() reference
+ */
+const VAR_REFERENCE_REGEX = /^var\(\s*(--[\w-]+)\s*(?:,\s*([\s\S]*))?\)$/;
+
+/**
+ * Value patterns used to infer token kinds
+ * NUMBER_REGEX matches a plain number (e.g., '700', '1.5', '-0.025')
+ */
+const NUMBER_REGEX = /^-?(?:\d+\.?\d*|\.\d+)$/;
+const DIMENSION_REGEX = /^-?(?:\d+\.?\d*|\.\d+)[a-z%]+$/i;
+const DURATION_REGEX = /^(?:\d+\.?\d*|\.\d+)m?s$/;
+const CUBIC_BEZIER_REGEX = /^cubic-bezier\([^)]*\)$/;
+
+/**
+ * Maps theme properties back to their CSS variable namespace
+ *
+ * @example
+ * THEME_PROPERTY_TO_NAMESPACE.colors // 'color'
+ * THEME_PROPERTY_TO_NAMESPACE.fontSize // 'text'
+ */
+export const THEME_PROPERTY_TO_NAMESPACE = Object.fromEntries(
+  Object.entries(NAMESPACE_TO_THEME_PROPERTY).map(([namespace, property]) => [
+    property,
+    namespace,
+  ]),
+) as Partial<Record<keyof Theme, string>>;
+
+/**
+ * Converts a theme path to a token path
+ * The first part becomes the CSS namespace; characters that alias syntax
+ * (`{group.token}`) reserves become '_'
+ *
+ * @param path - Path in the theme (e.g., ['colors', 'blue', '500'])
+ * @returns Token path (e.g., ['color', 'blue', '500'])
+ */
+export function getTokenPath(path: Array<string>): Array<string> {
+  const [property = '', ...rest] = path;
+  const namespace =
+    THEME_PROPERTY_TO_NAMESPACE[property as keyof Theme] ?? property;
+  return [namespace, ...rest].map((part) => part.replace(/[.{}$]/g, '_'));
+}
+
+/**
+ * Groups converted tokens by token path (see getTokenPath)
+ *
+ * @param tokens - Theme tokens
+ * @param convert - Converts a theme token to the format's token
+ * @param toPath - Maps a theme path to the path in the tree (default: grouped by namespace)
+ * @returns Token tree
+ *
+ * @example
+ * buildTokenTree([{ path: ['colors', 'red', '500'], value: '#f00' }], ({ value }) => ({ value }))
+ * // { color: { red: { 500: { value: '#f00' } } } }
+ */
+export function buildTokenTree<T>(
+  tokens: Array<ThemeToken>,
+  convert: (token: ThemeToken) => T,
+  toPath: (path: Array<string>) => Array<string> = getTokenPath,
+): TokenTree<T> {
+  const tree: TokenTree<T> = {};
+
+  for (const token of tokens) {
+    const tokenPath = [...toPath(token.path)];
+    const name = tokenPath.pop()!;
+    let group = tree;
+    for (const part of tokenPath) {
+      group[part] ??= {};
+      group = group[part] as TokenTree<T>;
+    }
+    group[name] = convert(token);
+  }
+
+  return tree;
+}
+
+/**
+ * Collects the leaf tokens of a resolved theme, in theme order
+ * Keyframes are skipped (they are CSS blocks, not values)
+ *
+ * @param theme - Resolved theme (or nested theme object)
+ * @param path - Path of `theme` within the resolved theme
+ * @param tokens - Array to collect tokens into
+ * @returns The collected tokens
+ *
+ * @example
+ * collectThemeTokens({ colors: { red: { 500: '#f00' } }, keyframes: { spin: '...' } })
+ * // [{ path: ['colors', 'red', '500'], value: '#f00' }]
+ */
+export function collectThemeTokens(
+  theme: unknown,
+  path: Array<string> = [],
+  tokens: Array<ThemeToken> = [],
+): Array<ThemeToken> {
+  if (typeof theme === 'string' || typeof theme === 'number') {
+    tokens.push({ path, value: theme });
+    return tokens;
+  }
+
+  if (!isRecord(theme)) {
+    return tokens;
+  }
+
+  for (const [key, child] of Object.entries(theme)) {
+    if (path.length > 0 || !NON_TOKEN_PROPERTIES.includes(key)) {
+      collectThemeTokens(child, [...path, key], tokens);
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Reads a token from a theme by path
+ *
+ * @param theme - Resolved theme
+ * @param path - Token path
+ * @returns Token value, or undefined if the path does not exist or is a group
+ */
+export function getThemeToken(
+  theme: unknown,
+  path: Array<string>,
+): string | number | undefined {
+  let current = theme;
+  for (const key of path) {
+    current = isRecord(current) ? current[key] : undefined;
+  }
+
+  return typeof current === 'string' || typeof current === 'number'
+    ? current
+    : undefined;
+}
+
+/**
+ * Collects the tokens of a variant that differ from the base theme
+ *
+ * @param theme - Variant theme
+ * @param base - Base (default) theme
+ * @returns Tokens that are missing from the base theme or have another value
+ */
+export function collectChangedTokens(
+  theme: unknown,
+  base: unknown,
+): Array<ThemeToken> {
+  return collectThemeTokens(theme).filter(
+    ({ path, value }) => getThemeToken(base, path) !== value,
+  );
+}
+
+/**
+ * Parses a value that is a single var() reference
+ *
+ * @param value - Resolved token value
+ * @returns Reference, or null if the value is not exactly one var()
+ *
+ * @example
+ * parseVarReference('var(--color-blue-500)') // { variable: '--color-blue-500' }
+ * parseVarReference('var(--font-sans, Inter)') // { variable: '--font-sans', fallback: 'Inter' }
+ * parseVarReference('calc(var(--spacing) * 4)') // null
+ */
+export function parseVarReference(value: string): VarReference | null {
+  const match = VAR_REFERENCE_REGEX.exec(value.trim());
+  if (match === null) {
+    return null;
+  }
+
+  const [, variable = '', fallback] = match;
+  return fallback === undefined
+    ? { variable }
+    : { variable, fallback: fallback.trim() };
+}
+
+/**
+ * Finds the theme token a var() reference points to
+ *
+ * @param value - Resolved token value
+ * @param theme - Theme the reference is looked up in
+ * @param nesting - Nesting configuration the theme was built with
+ * @returns Path of the referenced token, or null if the value is not an alias of an existing token
+ *
+ * @example
+ * resolveAliasPath('var(--color-blue-500)', theme) // ['colors', 'blue', '500']
+ */
+export function resolveAliasPath(
+  value: string | number,
+  theme: unknown,
+  nesting?: NestingOptions,
+): Array<string> | null {
+  const reference = typeof value === 'string' ? parseVarReference(value) : null;
+  const path =
+    reference === null
+      ? null
+      : getVariableThemePath(reference.variable, nesting);
+
+  return path !== null && getThemeToken(theme, path) !== undefined
+    ? path
+    : null;
+}
+
+/**
+ * Follows var() references between tokens to the referenced value
+ * Used by formats that cannot read custom properties, so aliases are inlined.
+ *
+ * @param token - Theme token
+ * @param theme - Variant theme
+ * @param nesting - Nesting configuration
+ * @returns Value of the last token in the reference chain
+ */
+export function resolveTokenValue(
+  token: ThemeToken,
+  theme: unknown,
+  nesting?: NestingOptions,
+): string | number {
+  const visited = new Set<string>();
+  let value = token.value;
+  let path = resolveAliasPath(value, theme, nesting);
+
+  while (path !== null && !visited.has(path.join('/'))) {
+    visited.add(path.join('/'));
+    value = getThemeToken(theme, path) ?? value;
+    path = resolveAliasPath(value, theme, nesting);
+  }
+
+  return value;
+}
+
+/**
+ * Checks whether a token holds a length
+ *
+ * @param path - Path in the theme
+ * @returns True for length properties and font sizes
+ */
+export function isLengthToken(path: Array<string>): boolean {
+  const property = path[0] ?? '';
+  return (
+    (LENGTH_PROPERTIES as ReadonlyArray<string>).includes(property) ||
+    (property === 'fontSize' && path.at(-1) === 'size')
+  );
+}
+
+/**
+ * Kind of a resolved token value, independent of the export format
+ * - `color`: CSS color that can be converted (see parseColor)
+ * - `number`: plain number
+ * - `duration`: time in ms or s
+ * - `dimension`: number with a unit (e.g., '1rem', '50%')
+ * - `cubicBezier`: cubic-bezier() easing
+ * - `string`: any other value
+ */
+export type TokenValueKind =
+  | 'color'
+  | 'number'
+  | 'duration'
+  | 'dimension'
+  | 'cubicBezier'
+  | 'string';
+
+/**
+ * Parses a plain number
+ *
+ * @param value - Resolved value
+ * @returns Number, or undefined if the value is not a plain number
+ *
+ * @example
+ * parseTokenNumber('1.5') // 1.5
+ * parseTokenNumber('1.5rem') // undefined
+ */
+export function parseTokenNumber(value: string | number): number | undefined {
+  if (typeof value === 'number') {
+    return value;
+  }
+  const text = value.trim();
+  return NUMBER_REGEX.test(text) ? Number(text) : undefined;
+}
+
+/**
+ * Infers the kind of a resolved value
+ *
+ * @param value - Resolved value
+ * @returns Value kind
+ *
+ * @example
+ * inferTokenKind('oklch(62.3% 0.214 259.815)') // 'color'
+ * inferTokenKind('150ms') // 'duration'
+ * inferTokenKind('var(--spacing)') // 'string'
+ */
+export function inferTokenKind(value: string | number): TokenValueKind {
+  if (parseTokenNumber(value) !== undefined) {
+    return 'number';
+  }
+  const text = String(value).trim();
+  if (parseColor(text) !== null) {
+    return 'color';
+  }
+  if (DURATION_REGEX.test(text)) {
+    return 'duration';
+  }
+  if (DIMENSION_REGEX.test(text)) {
+    return 'dimension';
+  }
+  return CUBIC_BEZIER_REGEX.test(text) ? 'cubicBezier' : 'string';
+}
+
+/**
+ * Converts a token to a number
+ * Plain numbers are kept; lengths at length paths become pixels.
+ *
+ * @param value - Resolved value
+ * @param path - Path in the theme
+ * @param rootFontSize - Root font size in pixels (used for rem lengths)
+ * @returns Number, or undefined if the value has no numeric form
+ */
+export function toTokenNumber(
+  value: string | number,
+  path: Array<string>,
+  rootFontSize: number,
+): number | undefined {
+  const number = parseTokenNumber(value);
+  if (number !== undefined || !isLengthToken(path)) {
+    return number;
+  }
+  const pixels = convertLength(String(value), 'number', rootFontSize);
+  return typeof pixels === 'number' ? pixels : undefined;
+}
+
+/**
+ * Returns the CSS variable that declares a token
+ * Variables of the input CSS are looked up by path; other tokens (e.g., Tailwind
+ * defaults) are named after the namespace and path like Tailwind names them.
+ *
+ * @param path - Path in the theme
+ * @param variableNames - Variable names keyed by path (see indexVariablesByPath)
+ * @returns CSS variable name
+ *
+ * @example
+ * getTokenVariableName(['colors', 'red', '500'], new Map()) // '--color-red-500'
+ * getTokenVariableName(['fontSize', 'xl', 'lineHeight'], new Map()) // '--text-xl--line-height'
+ */
+export function getTokenVariableName(
+  path: Array<string>,
+  variableNames: Map<string, string>,
+): string {
+  const known = variableNames.get(path.join('/'));
+  if (known !== undefined) {
+    return known;
+  }
+
+  const [property = '', key = '', field] = path;
+  if (property === 'fontSize') {
+    return field === 'lineHeight'
+      ? `--text-${key}--line-height`
+      : `--text-${key}`;
+  }
+
+  const namespace =
+    THEME_PROPERTY_TO_NAMESPACE[property as keyof Theme] ?? property;
+  return `--${[namespace, ...path.slice(1).map(camelToKebabCase)].join('-')}`;
+}
+
+/**
+ * Indexes raw CSS variables by the theme path they are placed at
+ *
+ * @param variables - Raw CSS variables
+ * @param nesting - Nesting configuration the theme was built with
+ * @returns Variable names keyed by path (parts joined with '/')
+ */
+export function indexVariablesByPath(
+  variables: Array<CSSVariable>,
+  nesting?: NestingOptions,
+): Map<string, string> {
+  const index = new Map<string, string>();
+
+  for (const { name } of variables) {
+    const path = getVariableThemePath(name, nesting);
+    if (path !== null && !index.has(path.join('/'))) {
+      index.set(path.join('/'), name);
+    }
+  }
+
+  return index;
+}
+
+/**
+ * Indexes the values of CSS variables as written in the CSS by theme path
+ * Variables of the variant are layered over `@theme` and `:root` variables in
+ * the order the resolver applies them. The resolved theme has var() references
+ * inlined, so exports read aliases from these values.
+ *
+ * @param variables - CSS variables of a resolved result
+ * @param variant - Variant name as in the result (e.g., 'default', 'dark')
+ * @param nesting - Nesting configuration the theme was built with
+ * @returns Values keyed by path (parts joined with '/')
+ *
+ * @example
+ * // @theme { --color-accent: var(--color-primary); }
+ * indexRawValuesByPath(result.variables, 'default').get('colors/accent') // 'var(--color-primary)'
+ */
+export function indexRawValuesByPath(
+  variables: Array<CSSVariable>,
+  variant: string,
+  nesting?: NestingOptions,
+): Map<string, string> {
+  const themeVariables = variables.filter(({ source }) => source === 'theme');
+  const layers = [
+    themeVariables.filter((v) => hasThemeMode(v, 'default')),
+    themeVariables.filter((v) => !hasThemeMode(v, 'default')),
+    variables.filter(({ source }) => source === 'root'),
+    variables.filter(
+      ({ source, variantName }) =>
+        source === 'variant' &&
+        variantName !== undefined &&
+        variantNameToCamelCase(variantName) === variant,
+    ),
+  ];
+  const index = new Map<string, string>();
+
+  for (const variable of layers.flat()) {
+    const path = getVariableThemePath(variable.name, nesting);
+    if (path !== null) {
+      index.set(path.join('/'), variable.rawValue ?? variable.value);
+    }
+  }
+
+  return index;
+}
@@ -0,0 +1,161 @@
+/**
+ * vanilla-extract export
+ * Generates a global theme contract whose variables are the theme's CSS variables,
+ * plus one theme per variant selector
+ */
+
+import type { NestingOptions } from '../../types';
+import type { ExportableTheme, ThemeToken, TokenTree } from './tokens';
+
+import { formatObjectLiteral, formatStringLiteral } from './object_literal';
+import {
+  buildTokenTree,
+  collectThemeTokens,
+  getThemeToken,
+  getTokenVariableName,
+  indexVariablesByPath,
+} from './tokens';
+
+/**
+ * Options for vanilla-extract export
+ */
+export interface VanillaExtractExportOptions {
+  /** Nesting configuration the theme was built with (used to name variables) */
+  nesting?: NestingOptions;
+}
+
+/**
+ * Splits a variant selector into the selector and its at-rule condition
+ * (e.g., '.theme-mono @media (width >= 64rem)')
+ */
+const AT_RULE_SELECTOR_REGEX =
+  /^(?:(.+?)\s+)?@(media|container|supports)\s+(.+)$/;
+
+/**
+ * Scope of at-rule variants without a selector
+ */
+const ROOT_SELECTOR = ':root';
+
+/**
+ * Depth of the token object inside a globalStyle() call
+ */
+const AT_RULE_VALUES_DEPTH = 4;
+
+/**
+ * Formats the token values of a variant for the contract tokens
+ *
+ * @param tokens - Contract tokens (from the default theme)
+ * @param theme - Variant theme
+ * @returns Token tree with string literal leaves
+ */
+function formatThemeValues(
+  tokens: Array<ThemeToken>,
+  theme: unknown,
+): TokenTree<string> {
+  return buildTokenTree(
+    tokens,
+    ({ path, value }) =>
+      formatStringLiteral(String(getThemeToken(theme, path) ?? value)),
+    (path) => path,
+  );
+}
+
+/**
+ * Formats the call that assigns a variant's values to its selector
+ * Plain selectors use createGlobalTheme(); media, container and supports
+ * conditions assign the variables in a globalStyle() block.
+ *
+ * @param selector - Variant selector
+ * @param values - Token values with string literal leaves
+ * @returns Statement
+ */
+function formatThemeCall(selector: string, values: TokenTree<string>): string {
+  const match = AT_RULE_SELECTOR_REGEX.exec(selector);
+
+  if (match === null) {
+    return `createGlobalTheme(${formatStringLiteral(selector)}, vars, ${formatObjectLiteral(values, ',')});`;
+  }
+
+  const [, scope = ROOT_SELECTOR, atRule = '', condition = ''] = match;
+  return [
+    `globalStyle(${formatStringLiteral(scope)}, {`,
+    `  '@${atRule}': {`,
+    `    ${formatStringLiteral(condition)}: {`,
+    `      vars: assignVars(vars, ${formatObjectLiteral(values, ',', AT_RULE_VALUES_DEPTH)}),`,
+    '    },',
+    '  },',
+    '});',
+  ].join('\n');
+}
+
+/**
+ * Exports resolved themes as a vanilla-extract theme (`.css.ts` source)
+ *
+ * `vars` is a createGlobalThemeContract() with the shape of the default theme
+ * (`vars.colors.primary`) whose variables are the CSS variables of the theme
+ * (`var(--color-primary)`), so styles written with vanilla-extract use the same
+ * variables as Tailwind. Every variant assigns its values to its selector:
+ * createGlobalTheme() for selectors, globalStyle() with assignVars() for media,
+ * container and supports conditions. Keyframes are not exported.
+ *
+ * @param result - Resolved theme (e.g., from resolveTheme)
+ * @param options - Nesting configuration
+ * @returns TypeScript source
+ *
+ * @example
+ * exportVanillaExtractTheme(await resolveTheme({ input: './theme.css' }));
+ * // export const vars = createGlobalThemeContract({ colors: { primary: 'color-primary' } });
+ * // createGlobalTheme(':root', vars, { colors: { primary: '#3b82f6' } });
+ * // createGlobalTheme('.dark', vars, { colors: { primary: '#60a5fa' } });
+ */
+export function exportVanillaExtractTheme(
+  result: ExportableTheme,
+  options: VanillaExtractExportOptions = {},
+): string {
+  const variableNames = indexVariablesByPath(
+    result.variables ?? [],
+    options.nesting,
+  );
+  const tokens = collectThemeTokens(result.variants['default']);
+  const contract = buildTokenTree(
+    tokens,
+    ({ path }) =>
+      formatStringLiteral(
+        getTokenVariableName(path, variableNames).replace(/^--/, ''),
+      ),
+    (path) => path,
+  );
+
+  const selectors = Object.keys(result.variants).map(
+    (variant) => result.selectors[variant] ?? ROOT_SELECTOR,
+  );
+  const calls = Object.entries(result.variants).map(
+    ([variant, theme], index) =>
+      `// ${variant}\n${formatThemeCall(selectors[index]!, formatThemeValues(tokens, theme))}`,
+  );
+  const usesGlobalStyle = selectors.some((selector) =>
+    AT_RULE_SELECTOR_REGEX.test(selector),
+  );
+  const imports = [
+    ...(usesGlobalStyle ? ['assignVars'] : []),
+    'createGlobalTheme',
+    'createGlobalThemeContract',
+    ...(usesGlobalStyle ? ['globalStyle'] : []),
+  ];
+
+  return [
+    '/**',
+    ' * ⚠️ AUTO-GENERATED FILE - DO NOT EDIT MANUALLY',
+    ' *',
+    ' * vanilla-extract theme generated by tailwind-resolver.',
+    ' * Variables match the CSS variables of the theme; edit the theme CSS instead.',
+    ' */',
+    '',
+    '/* eslint-disable */',
+    `import { ${imports.join(', ')} } from '@vanilla-extract/css';`,
+    '',
+    `export const vars = createGlobalThemeContract(${formatObjectLiteral(contract, ',')});`,
+    '',
+    ...calls.flatMap((call) => [call, '']),
+  ].join('\n');
+}
@@ -4,7 +4,8 @@
  */
 
 // Main parsing entry point
-export { parseCSS } from './parser/css';
+export { extractCSS, parseCSS } from './parser/css';
+export { clearImportCache } from './parser/imports';
 
 // Tailwind defaults
 export {
@@ -23,6 +24,119 @@ export {
   applyInitialExclusionToTheme,
 } from './theme/filters';
 
+// Color conversion
+export { convertColor, formatThemeColors } from './color/format';
+export { parseColor } from './color/parser';
+
+// Math evaluation
+export { evaluateMathExpressions } from './math/evaluator';
+export { foldThemeMath, getRootFontSize } from './math/fold';
+
+// Unit normalization
+export {
+  convertLength,
+  convertTimes,
+  normalizeThemeUnits,
+} from './units/normalize';
+
+// Theme comparison
+export type {
+  ComparableTheme,
+  ThemeChangeType,
+  ThemeDiff,
+  TokenChange,
+  VariantChange,
+} from './analysis/theme_diff';
+export { diffThemes, hasThemeChanges } from './analysis/theme_diff';
+export type { ThemeDiffReportMetadata } from './reporting/theme_diff';
+export {
+  generateJSONReport as generateThemeDiffJSON,
+  generateMarkdownReport as generateThemeDiffMarkdown,
+} from './reporting/theme_diff';
+
+// Token resolution tracing
+export type {
+  ConflictResolution,
+  ExplainContext,
+  OverrideResolution,
+  ResolutionSource,
+  ResolutionStep,
+  TokenExplanation,
+} from './analysis/explain';
+export { explainTokenResolution, getTokenValue } from './analysis/explain';
+
+// Diagnostic gating
+export type {
+  BaselineConflict,
+  BaselineUnresolved,
+  DiagnosticsBaseline,
+  GateResult,
+  ThemeDiagnostics,
+} from './analysis/gating';
+export {
+  createDiagnosticsBaseline,
+  DIAGNOSTIC_LEVELS,
+  evaluateDiagnostics,
+  formatGateFailure,
+  getConflictLevel,
+  getUnresolvedLevel,
+} from './analysis/gating';
+
+// Tailwind v3 config migration
+export type {
+  MigrationIssue,
+  MigrationIssueKind,
+  TailwindV3Migration,
+} from './migration/tailwind_v3';
+export {
+  migrateTailwindV3Config,
+  V3_THEME_PROPERTIES,
+} from './migration/tailwind_v3';
+
+// Token format exporters
+export type { ExportableTheme, ThemeToken, TokenTree } from './formats/tokens';
+export type {
+  DTCGDocument,
+  DTCGExportOptions,
+  DTCGGroup,
+  DTCGShadowValue,
+  DTCGToken,
+  DTCGTokenType,
+  DTCGValue,
+  DTCGVariantLayout,
+} from './formats/dtcg';
+export { exportDTCGTokens } from './formats/dtcg';
+export type {
+  StyleDictionaryExportOptions,
+  StyleDictionaryGroup,
+  StyleDictionarySource,
+  StyleDictionaryToken,
+} from './formats/style_dictionary';
+export { exportStyleDictionaryTokens } from './formats/style_dictionary';
+export type {
+  PreprocessorExportOptions,
+  PreprocessorLanguage,
+} from './formats/preprocessors';
+export { exportPreprocessorTokens } from './formats/preprocessors';
+export type { VanillaExtractExportOptions } from './formats/vanilla_extract';
+export { exportVanillaExtractTheme } from './formats/vanilla_extract';
+export { exportStyledComponentsTheme } from './formats/styled_components';
+export type {
+  FigmaColor,
+  FigmaExportOptions,
+  FigmaImportOptions,
+  FigmaResolvedType,
+  FigmaVariableAlias,
+  FigmaVariablesPayload,
+  FigmaVariableValue,
+} from './formats/figma';
+export { exportFigmaVariables, importFigmaVariables } from './formats/figma';
+export type { NativeExportOptions } from './formats/native';
+export { exportSwiftTheme } from './formats/swift';
+export type { KotlinExportOptions } from './formats/kotlin';
+export { exportKotlinTheme } from './formats/kotlin';
+export { exportDartTheme } from './formats/dart';
+
 // Types re-exported for internal use
 export type { CSSRuleConflict } from './analysis/conflicts';
 export type { UnresolvedVariable } from './analysis/unresolved';
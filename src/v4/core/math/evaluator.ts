@@ -0,0 +1,761 @@
+/**
+ * Static evaluator for CSS math functions
+ * Folds calc(), min(), max(), clamp() and related functions into single values
+ */
+
+/**
+ * Compiled regex patterns for tokenizing (avoid recompilation on each call)
+ * Sticky (`y`) patterns match at the tokenizer's current position only
+ */
+const NUMBER_TOKEN_REGEX =
+  /[+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?(%|[a-z]+)?/iy;
+const IDENT_TOKEN_REGEX = /-?[a-z][a-z0-9-]*/iy;
+const WHITESPACE_TOKEN_REGEX = /\s+/y;
+const SIGNED_NUMBER_START_REGEX = /^[+-](?:\d|\.\d)/;
+const MATH_FUNCTION_START_REGEX =
+  /(?<![\w-])(calc|min|max|clamp|abs|sign|round|mod|rem|sin|cos|tan|asin|acos|atan|atan2|pow|sqrt|hypot|log|exp)\(/gi;
+
+/**
+ * Default root font size in pixels (browser default) for rem conversion
+ */
+export const DEFAULT_ROOT_FONT_SIZE = 16;
+
+/**
+ * Decimal precision used when serializing folded values
+ */
+const OUTPUT_PRECISION = 10000;
+
+/**
+ * Pixels per inch as defined by CSS absolute length units
+ */
+const PX_PER_INCH = 96;
+const CM_PER_INCH = 2.54;
+const MM_PER_INCH = 25.4;
+const Q_PER_INCH = 101.6;
+const PT_PER_INCH = 72;
+const PC_PER_INCH = 6;
+const MS_PER_SECOND = 1000;
+const DEGREES_PER_TURN = 360;
+const DEGREES_PER_HALF_TURN = 180;
+const DEGREES_PER_GRAD = 0.9;
+
+/**
+ * Argument counts for fixed-arity math functions
+ */
+const BINARY_ARGUMENT_COUNT = 2;
+const CLAMP_ARGUMENT_COUNT = 3;
+
+/**
+ * Kinds of quantities that can be folded
+ * Each kind has a canonical unit (px, ms, deg) used during evaluation
+ */
+type Dimension = 'number' | 'length' | 'time' | 'angle';
+
+/**
+ * A numeric value in its dimension's canonical unit
+ */
+interface Quantity {
+  value: number;
+  dimension: Dimension;
+}
+
+/**
+ * Lexical token of a math expression
+ */
+type Token =
+  | { type: 'number'; value: number; unit: string }
+  | { type: 'operator'; value: string }
+  | { type: 'ident'; value: string }
+  | { type: 'function'; value: string }
+  | { type: 'open' }
+  | { type: 'close' }
+  | { type: 'comma' };
+
+/**
+ * Evaluation state shared across a single expression
+ */
+interface EvaluationContext {
+  tokens: Array<Token>;
+  position: number;
+  rootFontSize: number;
+  /** First unit seen per dimension, used as the output unit */
+  preferredUnits: Partial<Record<Dimension, string>>;
+}
+
+/**
+ * Dimension and multiplier to the canonical unit for each foldable unit
+ * rem is handled separately because it depends on the root font size
+ */
+const UNIT_INFO: Record<string, { dimension: Dimension; factor: number }> = {
+  '': { dimension: 'number', factor: 1 },
+  px: { dimension: 'length', factor: 1 },
+  in: { dimension: 'length', factor: PX_PER_INCH },
+  cm: { dimension: 'length', factor: PX_PER_INCH / CM_PER_INCH },
+  mm: { dimension: 'length', factor: PX_PER_INCH / MM_PER_INCH },
+  q: { dimension: 'length', factor: PX_PER_INCH / Q_PER_INCH },
+  pt: { dimension: 'length', factor: PX_PER_INCH / PT_PER_INCH },
+  pc: { dimension: 'length', factor: PX_PER_INCH / PC_PER_INCH },
+  ms: { dimension: 'time', factor: 1 },
+  s: { dimension: 'time', factor: MS_PER_SECOND },
+  deg: { dimension: 'angle', factor: 1 },
+  rad: { dimension: 'angle', factor: DEGREES_PER_HALF_TURN / Math.PI },
+  grad: { dimension: 'angle', factor: DEGREES_PER_GRAD },
+  turn: { dimension: 'angle', factor: DEGREES_PER_TURN },
+};
+
+/**
+ * Resolves a unit to its dimension and canonical multiplier
+ *
+ * Only absolute units (and rem, via the configured root font size) can be
+ * folded. Percentages, viewport, container and font-relative units depend on
+ * layout context and return null.
+ *
+ * @param unit - Lowercase CSS unit ('' for plain numbers)
+ * @param rootFontSize - Root font size in pixels
+ * @returns Dimension and multiplier to the canonical unit, or null if not foldable
+ */
+function getUnitInfo(
+  unit: string,
+  rootFontSize: number,
+): { dimension: Dimension; factor: number } | null {
+  if (unit === 'rem') {
+    return { dimension: 'length', factor: rootFontSize };
+  }
+  return UNIT_INFO[unit] ?? null;
+}
+
+/**
+ * Splits a math expression into tokens
+ *
+ * @param source - Expression source (function arguments or full function call)
+ * @returns Array of tokens, or null if the source contains unsupported syntax
+ */
+// eslint-disable-next-line complexity
+function tokenize(source: string): Array<Token> | null {
+  const tokens: Array<Token> = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index] ?? '';
+    const previous = tokens[tokens.length - 1];
+
+    WHITESPACE_TOKEN_REGEX.lastIndex = index;
+    if (WHITESPACE_TOKEN_REGEX.test(source)) {
+      index = WHITESPACE_TOKEN_REGEX.lastIndex;
+      continue;
+    }
+
+    // A sign directly attached to a digit is part of the number when it
+    // cannot be a binary operator (CSS requires whitespace around + and -)
+    const isSignedNumber =
+      SIGNED_NUMBER_START_REGEX.test(source.slice(index)) &&
+      (previous === undefined ||
+        previous.type === 'operator' ||
+        previous.type === 'open' ||
+        previous.type === 'function' ||
+        previous.type === 'comma');
+
+    if (isSignedNumber || /[\d.]/.test(char)) {
+      NUMBER_TOKEN_REGEX.lastIndex = index;
+      const match = NUMBER_TOKEN_REGEX.exec(source);
+      if (match === null) {
+        return null;
+      }
+      const number = match[0].slice(
+        0,
+        match[0].length - (match[1]?.length ?? 0),
+      );
+      tokens.push({
+        type: 'number',
+        value: parseFloat(number),
+        unit: match[1]?.toLowerCase() ?? '',
+      });
+      index = NUMBER_TOKEN_REGEX.lastIndex;
+      continue;
+    }
+
+    if ('+-*/'.includes(char)) {
+      tokens.push({ type: 'operator', value: char });
+      index++;
+      continue;
+    }
+
+    if (char === '(' || char === ')' || char === ',') {
+      tokens.push(
+        char === '('
+          ? { type: 'open' }
+          : char === ')'
+            ? { type: 'close' }
+            : { type: 'comma' },
+      );
+      index++;
+      continue;
+    }
+
+    IDENT_TOKEN_REGEX.lastIndex = index;
+    const identMatch = IDENT_TOKEN_REGEX.exec(source);
+    if (identMatch === null) {
+      return null;
+    }
+
+    index = IDENT_TOKEN_REGEX.lastIndex;
+    const name = identMatch[0].toLowerCase();
+    if (source[index] === '(') {
+      tokens.push({ type: 'function', value: name });
+      index++;
+    } else {
+      tokens.push({ type: 'ident', value: name });
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Returns the current token without consuming it
+ *
+ * @param context - Evaluation context
+ * @returns Current token, or undefined at end of input
+ */
+function peek(context: EvaluationContext): Token | undefined {
+  return context.tokens[context.position];
+}
+
+/**
+ * Consumes the current token if it matches the given type
+ *
+ * @param context - Evaluation context
+ * @param type - Expected token type
+ * @returns True if a token was consumed
+ */
+function accept(context: EvaluationContext, type: Token['type']): boolean {
+  if (peek(context)?.type === type) {
+    context.position++;
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Checks whether two quantities share a dimension (required for +, -, min, max, etc.)
+ *
+ * @param quantities - Quantities to compare
+ * @returns True if all quantities have the same dimension
+ */
+function haveSameDimension(quantities: Array<Quantity>): boolean {
+  return quantities.every(
+    (quantity) => quantity.dimension === quantities[0]?.dimension,
+  );
+}
+
+/**
+ * Parses a sum: product (('+' | '-') product)*
+ *
+ * @param context - Evaluation context
+ * @returns Folded quantity, or null if the expression cannot be folded
+ */
+function parseSum(context: EvaluationContext): Quantity | null {
+  let left = parseProduct(context);
+
+  while (left !== null) {
+    const token = peek(context);
+    if (
+      token?.type !== 'operator' ||
+      (token.value !== '+' && token.value !== '-')
+    ) {
+      break;
+    }
+    context.position++;
+
+    const right = parseProduct(context);
+    if (right === null || right.dimension !== left.dimension) {
+      return null;
+    }
+
+    left = {
+      value:
+        token.value === '+'
+          ? left.value + right.value
+          : left.value - right.value,
+      dimension: left.dimension,
+    };
+  }
+
+  return left;
+}
+
+/**
+ * Multiplies or divides two quantities
+ *
+ * @param left - Left operand
+ * @param right - Right operand
+ * @param operator - '*' or '/'
+ * @returns Product or quotient, or null if the units are incompatible
+ */
+function multiply(
+  left: Quantity,
+  right: Quantity,
+  operator: string,
+): Quantity | null {
+  if (operator === '*') {
+    // At least one side of a multiplication must be a plain number
+    if (left.dimension !== 'number' && right.dimension !== 'number') {
+      return null;
+    }
+    return {
+      value: left.value * right.value,
+      dimension: left.dimension === 'number' ? right.dimension : left.dimension,
+    };
+  }
+
+  // Division is only defined for non-zero plain number divisors
+  if (right.dimension !== 'number' || right.value === 0) {
+    return null;
+  }
+  return { value: left.value / right.value, dimension: left.dimension };
+}
+
+/**
+ * Parses a product: value (('*' | '/') value)*
+ *
+ * @param context - Evaluation context
+ * @returns Folded quantity, or null if the expression cannot be folded
+ */
+function parseProduct(context: EvaluationContext): Quantity | null {
+  let left = parseValue(context);
+
+  while (left !== null) {
+    const token = peek(context);
+    if (
+      token?.type !== 'operator' ||
+      (token.value !== '*' && token.value !== '/')
+    ) {
+      break;
+    }
+    context.position++;
+
+    const right = parseValue(context);
+    left = right === null ? null : multiply(left, right, token.value);
+  }
+
+  return left;
+}
+
+/**
+ * Parses a single value: number, constant, parenthesized sum or math function
+ *
+ * @param context - Evaluation context
+ * @returns Folded quantity, or null if the value cannot be folded
+ */
+function parseValue(context: EvaluationContext): Quantity | null {
+  const token = peek(context);
+  if (token === undefined) {
+    return null;
+  }
+  context.position++;
+
+  switch (token.type) {
+    case 'number': {
+      const info = getUnitInfo(token.unit, context.rootFontSize);
+      if (info === null) {
+        return null;
+      }
+      context.preferredUnits[info.dimension] ??= token.unit;
+      return { value: token.value * info.factor, dimension: info.dimension };
+    }
+    case 'ident':
+      return parseConstant(token.value);
+    case 'open': {
+      const inner = parseSum(context);
+      return accept(context, 'close') ? inner : null;
+    }
+    case 'function':
+      return parseFunction(token.value, context);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Resolves CSS math constants
+ *
+ * @param name - Lowercase identifier
+ * @returns Constant value, or null for unknown identifiers
+ */
+function parseConstant(name: string): Quantity | null {
+  if (name === 'pi') {
+    return { value: Math.PI, dimension: 'number' };
+  }
+  if (name === 'e') {
+    return { value: Math.E, dimension: 'number' };
+  }
+  return null;
+}
+
+/**
+ * Parses comma-separated function arguments up to the closing parenthesis
+ * A leading rounding strategy keyword (round() only) is returned separately
+ *
+ * @param context - Evaluation context
+ * @returns Parsed arguments and optional keyword, or null if any argument fails
+ */
+function parseArguments(
+  context: EvaluationContext,
+): { args: Array<Quantity>; keyword?: string } | null {
+  const args: Array<Quantity> = [];
+  let keyword: string | undefined;
+
+  const first = peek(context);
+  const next = context.tokens[context.position + 1];
+  if (first?.type === 'ident' && next?.type === 'comma') {
+    keyword = first.value;
+    context.position += 2;
+  }
+
+  do {
+    const arg = parseSum(context);
+    if (arg === null) {
+      return null;
+    }
+    args.push(arg);
+  } while (accept(context, 'comma'));
+
+  return accept(context, 'close') ? { args, keyword } : null;
+}
+
+/**
+ * Converts an angle or number argument to radians for trigonometric functions
+ *
+ * @param quantity - Angle (degrees) or plain number (radians)
+ * @returns Angle in radians
+ */
+function toRadians(quantity: Quantity): number {
+  return quantity.dimension === 'angle'
+    ? (quantity.value * Math.PI) / DEGREES_PER_HALF_TURN
+    : quantity.value;
+}
+
+/**
+ * Creates an angle quantity from radians
+ *
+ * @param radians - Angle in radians
+ * @param context - Evaluation context (records deg as the output unit)
+ * @returns Angle quantity in degrees
+ */
+function fromRadians(radians: number, context: EvaluationContext): Quantity {
+  context.preferredUnits.angle ??= 'deg';
+  return {
+    value: (radians * DEGREES_PER_HALF_TURN) / Math.PI,
+    dimension: 'angle',
+  };
+}
+
+/**
+ * Applies a rounding strategy from the CSS round() function
+ *
+ * @param value - Value to round
+ * @param step - Rounding interval
+ * @param strategy - 'nearest' (default), 'up', 'down' or 'to-zero'
+ * @returns Rounded value, or null for an unknown strategy
+ */
+function roundToStep(
+  value: number,
+  step: number,
+  strategy = 'nearest',
+): number | null {
+  const ratio = value / step;
+  switch (strategy) {
+    case 'nearest':
+      return Math.round(ratio) * step;
+    case 'up':
+      return Math.ceil(ratio) * step;
+    case 'down':
+      return Math.floor(ratio) * step;
+    case 'to-zero':
+      return Math.trunc(ratio) * step;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Evaluates a math function with already-parsed arguments
+ *
+ * @param name - Lowercase function name
+ * @param args - Parsed arguments
+ * @param keyword - Optional leading keyword (round() strategy)
+ * @param context - Evaluation context
+ * @returns Folded quantity, or null if the arguments are invalid for the function
+ */
+// eslint-disable-next-line complexity
+function applyFunction(
+  name: string,
+  args: Array<Quantity>,
+  keyword: string | undefined,
+  context: EvaluationContext,
+): Quantity | null {
+  const [a, b, c] = args;
+  if (a === undefined || (keyword !== undefined && name !== 'round')) {
+    return null;
+  }
+
+  const sameDimension = haveSameDimension(args);
+  const isNumber = a.dimension === 'number';
+
+  switch (name) {
+    case 'calc':
+      return args.length === 1 ? a : null;
+    case 'min':
+    case 'max':
+      return sameDimension
+        ? {
+            value: (name === 'min' ? Math.min : Math.max)(
+              ...args.map((arg) => arg.value),
+            ),
+            dimension: a.dimension,
+          }
+        : null;
+    case 'clamp':
+      return args.length === CLAMP_ARGUMENT_COUNT && sameDimension && b && c
+        ? {
+            value: Math.max(a.value, Math.min(b.value, c.value)),
+            dimension: a.dimension,
+          }
+        : null;
+    case 'abs':
+      return args.length === 1
+        ? { value: Math.abs(a.value), dimension: a.dimension }
+        : null;
+    case 'sign':
+      return args.length === 1
+        ? { value: Math.sign(a.value), dimension: 'number' }
+        : null;
+    case 'round': {
+      const step = b ?? (isNumber ? { value: 1, dimension: 'number' } : null);
+      if (step === null || step.dimension !== a.dimension || step.value === 0) {
+        return null;
+      }
+      const rounded = roundToStep(a.value, step.value, keyword);
+      return rounded === null
+        ? null
+        : { value: rounded, dimension: a.dimension };
+    }
+    case 'mod':
+    case 'rem': {
+      if (
+        args.length !== BINARY_ARGUMENT_COUNT ||
+        !sameDimension ||
+        !b ||
+        b.value === 0
+      ) {
+        return null;
+      }
+      const remainder = a.value % b.value;
+      // mod() takes the sign of the divisor, rem() the sign of the dividend
+      const value =
+        name === 'mod' &&
+        remainder !== 0 &&
+        Math.sign(remainder) !== Math.sign(b.value)
+          ? remainder + b.value
+          : remainder;
+      return { value, dimension: a.dimension };
+    }
+    case 'sin':
+    case 'cos':
+    case 'tan':
+      return args.length === 1 && (isNumber || a.dimension === 'angle')
+        ? { value: Math[name](toRadians(a)), dimension: 'number' }
+        : null;
+    case 'asin':
+    case 'acos':
+    case 'atan':
+      return args.length === 1 && isNumber
+        ? fromRadians(Math[name](a.value), context)
+        : null;
+    case 'atan2':
+      return args.length === BINARY_ARGUMENT_COUNT && sameDimension && b
+        ? fromRadians(Math.atan2(a.value, b.value), context)
+        : null;
+    case 'pow':
+      return args.length === BINARY_ARGUMENT_COUNT &&
+        sameDimension &&
+        isNumber &&
+        b
+        ? { value: a.value ** b.value, dimension: 'number' }
+        : null;
+    case 'sqrt':
+    case 'exp':
+      return args.length === 1 && isNumber
+        ? { value: Math[name](a.value), dimension: 'number' }
+        : null;
+    case 'log':
+      return args.length <= BINARY_ARGUMENT_COUNT && sameDimension && isNumber
+        ? {
+            value:
+              b === undefined
+                ? Math.log(a.value)
+                : Math.log(a.value) / Math.log(b.value),
+            dimension: 'number',
+          }
+        : null;
+    case 'hypot':
+      return sameDimension
+        ? {
+            value: Math.hypot(...args.map((arg) => arg.value)),
+            dimension: a.dimension,
+          }
+        : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parses and evaluates a math function call (the opening parenthesis is already consumed)
+ *
+ * @param name - Lowercase function name
+ * @param context - Evaluation context
+ * @returns Folded quantity, or null if the function cannot be folded
+ */
+function parseFunction(
+  name: string,
+  context: EvaluationContext,
+): Quantity | null {
+  const parsed = parseArguments(context);
+  if (parsed === null) {
+    return null;
+  }
+
+  return applyFunction(name, parsed.args, parsed.keyword, context);
+}
+
+/**
+ * Serializes a folded quantity in the first unit seen for its dimension
+ *
+ * @param quantity - Folded quantity in canonical units
+ * @param context - Evaluation context with preferred output units
+ * @returns CSS value string, or null if the result is not a finite number
+ */
+function serializeQuantity(
+  quantity: Quantity,
+  context: EvaluationContext,
+): string | null {
+  if (!Number.isFinite(quantity.value)) {
+    return null;
+  }
+
+  const unit = context.preferredUnits[quantity.dimension] ?? '';
+  const info = getUnitInfo(unit, context.rootFontSize);
+  if (info === null) {
+    return null;
+  }
+
+  const value =
+    Math.round((quantity.value / info.factor) * OUTPUT_PRECISION) /
+      OUTPUT_PRECISION +
+    0;
+  return `${value}${unit}`;
+}
+
+/**
+ * Evaluates a single math function call such as `calc(0.625rem - 4px)`
+ *
+ * @param expression - Complete math function call
+ * @param rootFontSize - Root font size in pixels for rem conversion
+ * @returns Folded value, or null if the expression cannot be folded statically
+ */
+function evaluateExpression(
+  expression: string,
+  rootFontSize: number,
+): string | null {
+  const tokens = tokenize(expression);
+  if (tokens === null) {
+    return null;
+  }
+
+  const context: EvaluationContext = {
+    tokens,
+    position: 0,
+    rootFontSize,
+    preferredUnits: {},
+  };
+
+  const result = parseValue(context);
+  if (result === null || context.position !== tokens.length) {
+    return null;
+  }
+
+  return serializeQuantity(result, context);
+}
+
+/**
+ * Finds the index of the parenthesis closing the one at `openIndex`
+ *
+ * @param value - Source string
+ * @param openIndex - Index of the opening parenthesis
+ * @returns Index of the matching closing parenthesis, or -1 if unbalanced
+ */
+function findClosingParen(value: string, openIndex: number): number {
+  let depth = 0;
+  for (let i = openIndex; i < value.length; i++) {
+    if (value[i] === '(') {
+      depth++;
+    } else if (value[i] === ')') {
+      depth--;
+      if (depth === 0) {
+        return i;
+      }
+    }
+  }
+  return -1;
+}
+
+/**
+ * Folds CSS math functions within a value into single values
+ *
+ * Each top-level calc(), min(), max(), clamp() (and the other CSS math
+ * functions) is evaluated when all operands have compatible, absolute units.
+ * rem and px are interchangeable using `rootFontSize`; the result uses the
+ * first unit that appears in the expression. Expressions that depend on
+ * layout context (%, vw, vh, em, container units) or on unresolved var()
+ * references are kept as-is.
+ *
+ * @param value - CSS value that may contain math functions
+ * @param rootFontSize - Root font size in pixels for rem↔px conversion
+ * @returns Value with foldable math functions replaced by their results
+ *
+ * @example
+ * evaluateMathExpressions('calc(0.625rem - 4px)') // '0.375rem'
+ * evaluateMathExpressions('calc(4px + 1rem)', 10) // '14px'
+ * evaluateMathExpressions('0 0 calc(2px * 2) black') // '0 0 4px black'
+ * evaluateMathExpressions('calc(100vw - 2rem)') // 'calc(100vw - 2rem)'
+ */
+export function evaluateMathExpressions(
+  value: string,
+  rootFontSize = DEFAULT_ROOT_FONT_SIZE,
+): string {
+  let result = '';
+  let cursor = 0;
+
+  MATH_FUNCTION_START_REGEX.lastIndex = 0;
+  let match = MATH_FUNCTION_START_REGEX.exec(value);
+
+  while (match !== null) {
+    const start = match.index;
+    const end = findClosingParen(value, start + match[0].length - 1);
+    if (end === -1) {
+      break;
+    }
+
+    const expression = value.slice(start, end + 1);
+    const folded = evaluateExpression(expression, rootFontSize);
+
+    result += value.slice(cursor, start) + (folded ?? expression);
+    cursor = end + 1;
+
+    MATH_FUNCTION_START_REGEX.lastIndex = cursor;
+    match = MATH_FUNCTION_START_REGEX.exec(value);
+  }
+
+  return result + value.slice(cursor);
+}
@@ -0,0 +1,102 @@
+/**
+ * Math folding for resolved theme objects
+ * Applies the CSS math evaluator to every theme value and records what changed
+ */
+
+import type { EvaluateMathOptions, FoldedExpression, Theme } from '../../types';
+
+import { isRecord, isString } from '../utils/type_guards';
+import { DEFAULT_ROOT_FONT_SIZE, evaluateMathExpressions } from './evaluator';
+
+/**
+ * Theme properties that hold raw CSS rather than token values
+ * Keyframes are emitted verbatim and are never folded
+ */
+const UNFOLDED_PROPERTIES = new Set<string>(['keyframes']);
+
+/**
+ * Normalizes the `evaluateMath` option into a root font size
+ *
+ * @param option - `true` or an options object
+ * @returns Root font size in pixels
+ */
+export function getRootFontSize(option: true | EvaluateMathOptions): number {
+  return option === true
+    ? DEFAULT_ROOT_FONT_SIZE
+    : (option.rootFontSize ?? DEFAULT_ROOT_FONT_SIZE);
+}
+
+/**
+ * Recursively folds math expressions within a nested record
+ *
+ * @param record - Record containing CSS values or nested records
+ * @param path - Dot-notation path of the record within the theme
+ * @param context - Folding context (root font size, variant name, records)
+ * @param context.rootFontSize - Root font size in pixels
+ * @param context.variantName - Name of the variant being folded
+ * @param context.folded - Array collecting folded expressions
+ * @returns New record with folded values
+ */
+function foldRecord(
+  record: Record<string, unknown>,
+  path: string,
+  context: {
+    rootFontSize: number;
+    variantName: string;
+    folded: Array<FoldedExpression>;
+  },
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(record)) {
+    const valuePath = path === '' ? key : `${path}.${key}`;
+
+    if (isString(value)) {
+      const folded = evaluateMathExpressions(value, context.rootFontSize);
+      if (folded !== value) {
+        context.folded.push({
+          variantName: context.variantName,
+          path: valuePath,
+          original: value,
+          value: folded,
+        });
+      }
+      result[key] = folded;
+    } else if (isRecord(value) && !UNFOLDED_PROPERTIES.has(valuePath)) {
+      result[key] = foldRecord(value, valuePath, context);
+    } else {
+      result[key] = value;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Folds static CSS math expressions in every value of a theme
+ * Returns a new theme; the input (which may be a cached default theme) is never mutated
+ *
+ * @param theme - Resolved theme
+ * @param variantName - Variant name recorded on folded expressions (e.g., 'default', 'dark')
+ * @param rootFontSize - Root font size in pixels for rem↔px conversion
+ * @param folded - Array collecting folded expressions
+ * @returns New theme with folded values
+ *
+ * @example
+ * const folded: Array<FoldedExpression> = [];
+ * foldThemeMath(theme, 'default', 16, folded);
+ * // theme.radius.sm: 'calc(0.625rem - 4px)' → '0.375rem'
+ * // folded: [{ variantName: 'default', path: 'radius.sm', original: 'calc(0.625rem - 4px)', value: '0.375rem' }]
+ */
+export function foldThemeMath(
+  theme: Theme,
+  variantName: string,
+  rootFontSize: number,
+  folded: Array<FoldedExpression>,
+): Theme {
+  return foldRecord(theme as unknown as Record<string, unknown>, '', {
+    rootFontSize,
+    variantName,
+    folded,
+  }) as unknown as Theme;
+}
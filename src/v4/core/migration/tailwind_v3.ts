@@ -0,0 +1,804 @@
+/**
+ * Tailwind v3 config migration
+ * Converts `theme` and `theme.extend` from a v3 `tailwind.config.js` into v4 `@theme` CSS
+ */
+
+import type { Theme } from '../../types';
+
+import {
+  NAMESPACE_TO_THEME_PROPERTY,
+  SINGULAR_VARIABLE_MAPPINGS,
+} from '../constants/namespaces';
+import { isNumber, isRecord, isString } from '../utils/type_guards';
+
+/**
+ * v3 theme keys and the v4 theme property they map to
+ * Keys are migrated in this order.
+ */
+export const V3_THEME_PROPERTIES: Record<string, keyof Theme> = {
+  colors: 'colors',
+  spacing: 'spacing',
+  fontFamily: 'fonts',
+  fontSize: 'fontSize',
+  fontWeight: 'fontWeight',
+  letterSpacing: 'tracking',
+  lineHeight: 'leading',
+  screens: 'breakpoints',
+  containers: 'containers',
+  borderRadius: 'radius',
+  boxShadow: 'shadows',
+  dropShadow: 'dropShadows',
+  textShadow: 'textShadows',
+  blur: 'blur',
+  perspective: 'perspective',
+  aspectRatio: 'aspect',
+  transitionTimingFunction: 'ease',
+  animation: 'animations',
+  keyframes: 'keyframes',
+};
+
+/**
+ * Hints for top-level v3 config options that have no theme equivalent
+ */
+const V3_OPTION_HINTS: Record<string, string> = {
+  content:
+    'Tailwind v4 detects source files automatically; add others with @source',
+  plugins: 'Load plugins with @plugin in CSS',
+  presets: "Import the preset's theme as CSS instead",
+  prefix: 'Use @import "tailwindcss" prefix(...)',
+  important: 'Use @import "tailwindcss" important',
+  corePlugins: 'Core plugins cannot be disabled in Tailwind v4',
+  safelist: 'Use @source inline(...)',
+  blocklist: 'Use @source not inline(...)',
+  separator: 'Custom separators are not supported in Tailwind v4',
+};
+
+/**
+ * Font size tuple options and the v4 variable suffix they map to
+ */
+const FONT_SIZE_SUFFIXES: Record<string, string> = {
+  lineHeight: 'line-height',
+  letterSpacing: 'letter-spacing',
+  fontWeight: 'font-weight',
+};
+
+/**
+ * Font family tuple options and the v4 variable suffix they map to
+ */
+const FONT_FAMILY_SUFFIXES: Record<string, string> = {
+  fontFeatureSettings: 'font-feature-settings',
+  fontVariationSettings: 'font-variation-settings',
+};
+
+/**
+ * v3 theme key segment that maps to the bare parent key
+ */
+const DEFAULT_KEY = 'DEFAULT';
+
+const ALPHA_VALUE_REGEX = /\s*\/\s*<alpha-value>/g;
+const VARIABLE_KEY_REGEX = /^[\w-]*$/;
+const CAMEL_CASE_REGEX = /[A-Z]/g;
+const UNQUOTED_SPACE_REGEX = /^[^'"].*\s/;
+
+/**
+ * Kinds of migration issues
+ */
+export type MigrationIssueKind =
+  | 'unmapped' // Not migrated
+  | 'deprecated' // Migrated to a variable that is deprecated in v4
+  | 'converted'; // Migrated with a change in value
+
+/**
+ * Config entry that could not be migrated as-is
+ */
+export interface MigrationIssue {
+  /** Config path (e.g., 'theme.extend.opacity') */
+  path: string;
+  /** Kind of issue */
+  kind: MigrationIssueKind;
+  /** What happened */
+  message: string;
+  /** Suggested Tailwind v4 replacement */
+  replacement?: string;
+}
+
+/**
+ * Result of migrating a Tailwind v3 config
+ */
+export interface TailwindV3Migration {
+  /** Tailwind v4 CSS (`@custom-variant`, `@theme` and dark mode block) */
+  css: string;
+  /** Number of theme variables written */
+  variableCount: number;
+  /** Entries that could not be migrated as-is */
+  issues: Array<MigrationIssue>;
+}
+
+/**
+ * A theme token collected from the config, before it is named
+ */
+interface CollectedToken {
+  /** Key segments below the theme key (e.g., ['red', '500']) */
+  segments: Array<string>;
+  /** CSS value */
+  value: string;
+  /** Config path for issues */
+  path: string;
+}
+
+/**
+ * Reverse lookup of NAMESPACE_TO_THEME_PROPERTY
+ */
+const THEME_PROPERTY_TO_NAMESPACE = new Map(
+  Object.entries(NAMESPACE_TO_THEME_PROPERTY).map(([namespace, property]) => [
+    property,
+    namespace,
+  ]),
+);
+
+/**
+ * Formats a scalar config value as a CSS value
+ * Arrays of strings (font stacks, layered shadows) are joined with commas
+ *
+ * @param value - Config value
+ * @returns CSS value, or undefined if the value is not a scalar or string list
+ */
+function formatScalar(value: unknown): string | undefined {
+  if (isString(value) || isNumber(value)) {
+    return String(value);
+  }
+
+  if (Array.isArray(value) && value.every(isString)) {
+    return value.join(', ');
+  }
+
+  return undefined;
+}
+
+/**
+ * Describes why a value cannot be migrated
+ *
+ * @param value - Config value
+ * @returns Issue message
+ */
+function describeUnsupportedValue(value: unknown): string {
+  return typeof value === 'function'
+    ? 'Function values are not evaluated; replace them with static values'
+    : 'Value cannot be converted to a CSS variable';
+}
+
+/**
+ * Collects tokens from a (possibly nested) theme value
+ *
+ * @param value - Config value
+ * @param segments - Key segments so far
+ * @param path - Config path
+ * @param issues - Collected migration issues
+ * @returns Tokens in config order
+ */
+function collectNestedTokens(
+  value: unknown,
+  segments: Array<string>,
+  path: string,
+  issues: Array<MigrationIssue>,
+): Array<CollectedToken> {
+  const scalar = formatScalar(value);
+  if (scalar !== undefined) {
+    return [{ segments, value: scalar, path }];
+  }
+
+  if (!isRecord(value)) {
+    issues.push({
+      path,
+      kind: 'unmapped',
+      message: describeUnsupportedValue(value),
+    });
+    return [];
+  }
+
+  return Object.entries(value).flatMap(([key, item]) =>
+    collectNestedTokens(item, [...segments, key], `${path}.${key}`, issues),
+  );
+}
+
+/**
+ * A v3 `[value, options]` tuple split into its parts
+ */
+interface TupleParts {
+  /** Token value */
+  value: unknown;
+  /** Per-token options (e.g., `{ lineHeight: '1.5rem' }`) */
+  options: Record<string, unknown>;
+}
+
+/**
+ * Splits a v3 fontSize value
+ * `['1rem', '1.5rem']` is shorthand for `['1rem', { lineHeight: '1.5rem' }]`.
+ *
+ * @param item - String or `[size, lineHeight | options]` tuple
+ * @returns Size and options
+ */
+function splitFontSize(item: unknown): TupleParts {
+  if (!Array.isArray(item)) {
+    return { value: item, options: {} };
+  }
+
+  const [value, options] = item as Array<unknown>;
+  if (options === undefined) {
+    return { value, options: {} };
+  }
+
+  return {
+    value,
+    options: isRecord(options) ? options : { lineHeight: options },
+  };
+}
+
+/**
+ * Quotes font names containing spaces in a v3 font stack
+ * v3 joined stacks as-is, so `['Cal Sans', 'sans-serif']` needs quotes in CSS.
+ *
+ * @param stack - Font stack array (other values are returned unchanged)
+ * @returns Font stack with quoted names
+ */
+function quoteFontNames(stack: unknown): unknown {
+  if (!Array.isArray(stack) || !stack.every(isString)) {
+    return stack;
+  }
+
+  return stack.map((name) =>
+    UNQUOTED_SPACE_REGEX.test(name) ? `"${name}"` : name,
+  );
+}
+
+/**
+ * Splits a v3 fontFamily value
+ * A trailing object holds font-feature-settings and font-variation-settings;
+ * otherwise an array is a font stack.
+ *
+ * @param item - String, font stack or `[stack, options]` tuple
+ * @returns Font stack and options
+ */
+function splitFontFamily(item: unknown): TupleParts {
+  const options: unknown = Array.isArray(item) ? item.at(-1) : undefined;
+
+  if (!Array.isArray(item) || !isRecord(options)) {
+    return { value: quoteFontNames(item), options: {} };
+  }
+
+  return { value: quoteFontNames(item[0]), options };
+}
+
+/**
+ * Collects tokens from a split `[value, options]` tuple (fontSize, fontFamily)
+ * Options become `--{namespace}-{key}--{suffix}` variables.
+ *
+ * @param key - Token key
+ * @param parts - Value and options
+ * @param path - Config path
+ * @param suffixes - Option name → v4 variable suffix
+ * @param issues - Collected migration issues
+ * @returns Tokens for the value and each mapped option
+ */
+function collectTupleTokens(
+  key: string,
+  parts: TupleParts,
+  path: string,
+  suffixes: Record<string, string>,
+  issues: Array<MigrationIssue>,
+): Array<CollectedToken> {
+  const value = formatScalar(parts.value);
+
+  if (value === undefined) {
+    issues.push({
+      path,
+      kind: 'unmapped',
+      message: describeUnsupportedValue(parts.value),
+    });
+    return [];
+  }
+
+  const tokens: Array<CollectedToken> = [{ segments: [key], value, path }];
+
+  for (const [option, optionValue] of Object.entries(parts.options)) {
+    const suffix = suffixes[option];
+    const formatted = formatScalar(optionValue);
+    if (suffix === undefined || formatted === undefined) {
+      issues.push({
+        path: `${path}.${option}`,
+        kind: 'unmapped',
+        message: 'Option has no Tailwind v4 equivalent',
+      });
+      continue;
+    }
+    tokens.push({
+      segments: [`${key}-`, suffix],
+      value: formatted,
+      path: `${path}.${option}`,
+    });
+  }
+
+  return tokens;
+}
+
+/**
+ * Collects breakpoint tokens; only min-width screens map to v4 breakpoints
+ *
+ * @param key - Screen name
+ * @param item - Screen value (string or `{ min }`)
+ * @param path - Config path
+ * @param issues - Collected migration issues
+ * @returns Breakpoint token, if the screen can be migrated
+ */
+function collectScreenTokens(
+  key: string,
+  item: unknown,
+  path: string,
+  issues: Array<MigrationIssue>,
+): Array<CollectedToken> {
+  const min =
+    isRecord(item) && Object.keys(item).length === 1 ? item.min : item;
+
+  if (!isString(min)) {
+    issues.push({
+      path,
+      kind: 'unmapped',
+      message:
+        'Only min-width screens map to breakpoints; use @custom-variant for max-width or raw screens',
+    });
+    return [];
+  }
+
+  return [{ segments: [key], value: min, path }];
+}
+
+/**
+ * Collects tokens for one theme key
+ *
+ * @param themeKey - v3 theme key (e.g., 'fontSize')
+ * @param value - Theme value
+ * @param path - Config path
+ * @param issues - Collected migration issues
+ * @returns Tokens in config order
+ */
+function collectTokens(
+  themeKey: string,
+  value: unknown,
+  path: string,
+  issues: Array<MigrationIssue>,
+): Array<CollectedToken> {
+  if (!isRecord(value)) {
+    issues.push({
+      path,
+      kind: 'unmapped',
+      message: describeUnsupportedValue(value),
+    });
+    return [];
+  }
+
+  return Object.entries(value).flatMap(([key, item]) => {
+    const itemPath = `${path}.${key}`;
+    switch (themeKey) {
+      case 'fontSize':
+        return collectTupleTokens(
+          key,
+          splitFontSize(item),
+          itemPath,
+          FONT_SIZE_SUFFIXES,
+          issues,
+        );
+      case 'fontFamily':
+        return collectTupleTokens(
+          key,
+          splitFontFamily(item),
+          itemPath,
+          FONT_FAMILY_SUFFIXES,
+          issues,
+        );
+      case 'screens':
+        return collectScreenTokens(key, item, itemPath, issues);
+      default:
+        return collectNestedTokens(item, [key], itemPath, issues);
+    }
+  });
+}
+
+/**
+ * Removes the v3 `<alpha-value>` placeholder
+ * Tailwind v4 applies opacity modifiers with color-mix(), so colors need no placeholder.
+ *
+ * @param token - Collected token
+ * @param issues - Collected migration issues
+ * @returns CSS value without the placeholder
+ */
+function stripAlphaValue(
+  token: CollectedToken,
+  issues: Array<MigrationIssue>,
+): string {
+  if (!token.value.includes('<alpha-value>')) {
+    return token.value;
+  }
+
+  const value = token.value
+    .replace(ALPHA_VALUE_REGEX, '')
+    .replaceAll('<alpha-value>', '1');
+  issues.push({
+    path: token.path,
+    kind: 'converted',
+    message: `Removed <alpha-value> (${token.value} → ${value}); Tailwind v4 applies opacity modifiers with color-mix()`,
+  });
+
+  return value;
+}
+
+/**
+ * Builds the v4 variable name for a token
+ * `DEFAULT` segments map to the parent key and `.` becomes `_` (e.g., `spacing.1.5` → `--spacing-1_5`).
+ *
+ * @param namespace - v4 namespace (e.g., 'color')
+ * @param token - Collected token
+ * @param issues - Collected migration issues
+ * @returns Variable name, or undefined if the key cannot be used in a variable name
+ */
+function toVariableName(
+  namespace: string,
+  token: CollectedToken,
+  issues: Array<MigrationIssue>,
+): string | undefined {
+  const key = token.segments
+    .filter((segment) => segment !== DEFAULT_KEY)
+    .join('-')
+    .replaceAll('.', '_');
+
+  if (!VARIABLE_KEY_REGEX.test(key)) {
+    issues.push({
+      path: token.path,
+      kind: 'unmapped',
+      message: `Key "${key}" cannot be used in a CSS variable name`,
+    });
+    return undefined;
+  }
+
+  if (key !== '') {
+    return `--${namespace}-${key}`;
+  }
+
+  const variable = `--${namespace}`;
+  const mapping = SINGULAR_VARIABLE_MAPPINGS[namespace];
+
+  if (mapping === undefined) {
+    issues.push({
+      path: token.path,
+      kind: 'unmapped',
+      message: `DEFAULT has no Tailwind v4 equivalent (${variable} is not a theme variable)`,
+    });
+    return undefined;
+  }
+
+  issues.push({
+    path: token.path,
+    kind: 'deprecated',
+    message: `Singular variable '${variable}' is deprecated in Tailwind v4`,
+    replacement: mapping.replacement,
+  });
+
+  return variable;
+}
+
+/**
+ * Converts a camelCase CSS property to kebab-case
+ *
+ * @param property - Property name (e.g., 'animationTimingFunction')
+ * @returns Kebab-case property name
+ */
+function toKebabCase(property: string): string {
+  return property.replace(
+    CAMEL_CASE_REGEX,
+    (letter) => `-${letter.toLowerCase()}`,
+  );
+}
+
+/**
+ * Renders `@keyframes` rules for the `@theme` block
+ *
+ * @param value - v3 keyframes object (name → step selector → declarations)
+ * @param path - Config path
+ * @param issues - Collected migration issues
+ * @returns CSS lines, indented for the `@theme` block
+ */
+function renderKeyframes(
+  value: unknown,
+  path: string,
+  issues: Array<MigrationIssue>,
+): Array<string> {
+  if (!isRecord(value)) {
+    issues.push({
+      path,
+      kind: 'unmapped',
+      message: describeUnsupportedValue(value),
+    });
+    return [];
+  }
+
+  return Object.entries(value).flatMap(([name, steps]) => {
+    if (!isRecord(steps) || !Object.values(steps).every(isRecord)) {
+      issues.push({
+        path: `${path}.${name}`,
+        kind: 'unmapped',
+        message: describeUnsupportedValue(steps),
+      });
+      return [];
+    }
+
+    const lines = [`  @keyframes ${name} {`];
+    for (const [step, declarations] of Object.entries(steps)) {
+      lines.push(`    ${step} {`);
+      for (const [property, propertyValue] of Object.entries(
+        declarations as Record<string, unknown>,
+      )) {
+        lines.push(`      ${toKebabCase(property)}: ${String(propertyValue)};`);
+      }
+      lines.push('    }');
+    }
+    lines.push('  }');
+    return lines;
+  });
+}
+
+/**
+ * Renders the variables for one theme key
+ * Keys set directly on `theme` replace Tailwind's defaults, so the namespace is reset first.
+ *
+ * @param themeKey - v3 theme key
+ * @param theme - v3 `theme` object
+ * @param extend - v3 `theme.extend` object
+ * @param issues - Collected migration issues
+ * @returns CSS lines and the number of variables written
+ */
+function renderThemeKey(
+  themeKey: string,
+  theme: Record<string, unknown>,
+  extend: Record<string, unknown>,
+  issues: Array<MigrationIssue>,
+): { lines: Array<string>; count: number } {
+  const property = V3_THEME_PROPERTIES[themeKey] ?? 'defaults';
+  const namespace = THEME_PROPERTY_TO_NAMESPACE.get(property) ?? '';
+  const replaced = theme[themeKey];
+  const extended = extend[themeKey];
+
+  const variables = new Map<string, string>();
+  const sources: Array<[unknown, string]> = [
+    [replaced, `theme.${themeKey}`],
+    [extended, `theme.extend.${themeKey}`],
+  ];
+
+  for (const [value, path] of sources) {
+    if (value === undefined) {
+      continue;
+    }
+    for (const token of collectTokens(themeKey, value, path, issues)) {
+      const name = toVariableName(namespace, token, issues);
+      if (name !== undefined) {
+        variables.set(name, stripAlphaValue(token, issues));
+      }
+    }
+  }
+
+  const lines = [...variables].map(([name, value]) => `  ${name}: ${value};`);
+  if (replaced !== undefined) {
+    lines.unshift(`  --${namespace}-*: initial;`);
+  }
+
+  return { lines, count: variables.size };
+}
+
+/**
+ * Reports theme keys without a v4 namespace
+ *
+ * @param object - v3 `theme` or `theme.extend` object
+ * @param path - Config path of the object
+ * @param issues - Collected migration issues
+ */
+function reportUnmappedThemeKeys(
+  object: Record<string, unknown>,
+  path: string,
+  issues: Array<MigrationIssue>,
+): void {
+  for (const key of Object.keys(object)) {
+    if (key !== 'extend' && V3_THEME_PROPERTIES[key] === undefined) {
+      issues.push({
+        path: `${path}.${key}`,
+        kind: 'unmapped',
+        message:
+          'No Tailwind v4 theme namespace; define a custom variable or utility instead',
+      });
+    }
+  }
+}
+
+/**
+ * Gets the dark mode selector from the v3 `darkMode` option
+ *
+ * @param darkMode - v3 darkMode option
+ * @param issues - Collected migration issues
+ * @returns Selector for class/selector strategies, or undefined for media (the v4 default)
+ */
+function getDarkModeSelector(
+  darkMode: unknown,
+  issues: Array<MigrationIssue>,
+): string | undefined {
+  if (darkMode === undefined || darkMode === false || darkMode === 'media') {
+    return undefined;
+  }
+
+  const [strategy, selector = '.dark'] = Array.isArray(darkMode)
+    ? (darkMode as Array<unknown>)
+    : [darkMode];
+
+  if ((strategy === 'class' || strategy === 'selector') && isString(selector)) {
+    return selector;
+  }
+
+  issues.push({
+    path: 'darkMode',
+    kind: 'unmapped',
+    message: `Only the 'media', 'class' and 'selector' strategies can be migrated`,
+    replacement: '@custom-variant dark (...)',
+  });
+
+  return undefined;
+}
+
+/**
+ * Reports top-level config options other than `theme` and `darkMode`
+ *
+ * @param config - v3 config
+ * @param issues - Collected migration issues
+ */
+function reportConfigOptions(
+  config: Record<string, unknown>,
+  issues: Array<MigrationIssue>,
+): void {
+  for (const key of Object.keys(config)) {
+    if (key === 'theme' || key === 'darkMode') {
+      continue;
+    }
+    issues.push({
+      path: key,
+      kind: 'unmapped',
+      message: V3_OPTION_HINTS[key] ?? 'Unknown option; not migrated',
+    });
+  }
+}
+
+/**
+ * Renders the `@theme` contents: variables per theme key, then keyframes
+ *
+ * @param theme - v3 `theme` object
+ * @param extend - v3 `theme.extend` object
+ * @param issues - Collected migration issues
+ * @returns `@theme` lines per theme key and the number of variables written
+ */
+function renderTheme(
+  theme: Record<string, unknown>,
+  extend: Record<string, unknown>,
+  issues: Array<MigrationIssue>,
+): { groups: Array<Array<string>>; variableCount: number } {
+  const groups: Array<Array<string>> = [];
+  let variableCount = 0;
+
+  for (const themeKey of Object.keys(V3_THEME_PROPERTIES)) {
+    if (themeKey === 'keyframes') {
+      continue;
+    }
+    const { lines, count } = renderThemeKey(themeKey, theme, extend, issues);
+    variableCount += count;
+    if (lines.length > 0) {
+      groups.push(lines);
+    }
+  }
+
+  for (const [value, path] of [
+    [theme.keyframes, 'theme.keyframes'],
+    [extend.keyframes, 'theme.extend.keyframes'],
+  ] as const) {
+    if (value !== undefined) {
+      groups.push(renderKeyframes(value, path, issues));
+    }
+  }
+
+  return { groups, variableCount };
+}
+
+/**
+ * Assembles the migrated CSS file
+ *
+ * @param groups - `@theme` lines per theme key
+ * @param darkSelector - Dark mode selector, if the class/selector strategy was used
+ * @param source - Config file name for the header comment
+ * @returns CSS text
+ */
+function renderCSS(
+  groups: Array<Array<string>>,
+  darkSelector: string | undefined,
+  source: string | undefined,
+): string {
+  const sections: Array<string> = [];
+
+  if (source !== undefined) {
+    sections.push(`/* Migrated from ${source} */`);
+  }
+
+  if (darkSelector !== undefined) {
+    sections.push(
+      `@custom-variant dark (&:where(${darkSelector}, ${darkSelector} *));`,
+    );
+  }
+
+  const body = groups
+    .filter((lines) => lines.length > 0)
+    .map((lines) => `${lines.join('\n')}\n`)
+    .join('\n');
+  sections.push(`@theme {\n${body}}`);
+
+  if (darkSelector !== undefined) {
+    sections.push(
+      `${darkSelector} {\n  /* Dark mode values (e.g., --color-background: #000;) */\n}`,
+    );
+  }
+
+  return `${sections.join('\n\n')}\n`;
+}
+
+/**
+ * Migrates a Tailwind v3 config to Tailwind v4 CSS
+ *
+ * Theme keys map to v4 namespaces through NAMESPACE_TO_THEME_PROPERTY. Keys set
+ * directly on `theme` reset the namespace (`--color-*: initial`) because they
+ * replaced Tailwind's defaults in v3; `theme.extend` keys are added on top.
+ * `fontSize` tuples become `--text-*` plus `--text-*--line-height` (and
+ * letter-spacing/font-weight), and the `class`/`selector` dark mode strategies
+ * become a `@custom-variant` and a dark mode block.
+ *
+ * @param config - v3 config (the `tailwind.config.js` export)
+ * @param source - Config file name for the header comment
+ * @returns v4 CSS and the entries that could not be migrated as-is
+ * @throws Error if the config is not an object
+ *
+ * @example
+ * migrateTailwindV3Config({ theme: { extend: { colors: { brand: '#336699' } } } })
+ * // css: '@theme {\n  --color-brand: #336699;\n}\n'
+ */
+export function migrateTailwindV3Config(
+  config: unknown,
+  source?: string,
+): TailwindV3Migration {
+  if (!isRecord(config)) {
+    throw new Error('Tailwind config must export an object');
+  }
+
+  const issues: Array<MigrationIssue> = [];
+  const theme = isRecord(config.theme) ? config.theme : {};
+  const extend = isRecord(theme.extend) ? theme.extend : {};
+
+  if (config.theme !== undefined && !isRecord(config.theme)) {
+    issues.push({
+      path: 'theme',
+      kind: 'unmapped',
+      message: describeUnsupportedValue(config.theme),
+    });
+  }
+
+  reportConfigOptions(config, issues);
+  reportUnmappedThemeKeys(theme, 'theme', issues);
+  reportUnmappedThemeKeys(extend, 'theme.extend', issues);
+
+  const { groups, variableCount } = renderTheme(theme, extend, issues);
+  const darkSelector = getDarkModeSelector(config.darkMode, issues);
+
+  return {
+    css: renderCSS(groups, darkSelector, source),
+    variableCount,
+    issues,
+  };
+}
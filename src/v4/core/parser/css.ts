@@ -3,7 +3,13 @@
  * Entry point for parsing CSS files and building theme objects
  */
 
-import type { ParseOptions, ParseResult, Theme } from '../../types';
+import type {
+  CSSVariable,
+  ParseOptions,
+  ParseResult,
+  Theme,
+} from '../../types';
+import type { CSSRuleOverride } from '../extraction/rules';
 
 import { readFile } from 'node:fs/promises';
 import { dirname, resolve } from 'node:path';
@@ -15,6 +21,7 @@ import { buildThemes } from '../theme/builder';
 import { loadTailwindDefaults } from '../theme/defaults';
 import { extractVariables } from './extractor';
 import { resolveImports } from './imports';
+import { resolveAliasTargets } from './module_resolver';
 
 /**
  * Reads CSS content from either a file or inline string
@@ -25,6 +32,7 @@ async function readCSSContent(options: ParseOptions): Promise<{
   cssContent: string;
   baseDir: string;
   processedFiles: Array<string>;
+  sourcePath?: string;
 }> {
   const { input, css, basePath } = options;
 
@@ -35,8 +43,9 @@ async function readCSSContent(options: ParseOptions): Promise<{
   if (input !== undefined) {
     const cssContent = await readFile(input, 'utf-8');
     const baseDir = dirname(resolve(input));
-    const processedFiles = [resolve(input)];
-    return { cssContent, baseDir, processedFiles };
+    const sourcePath = resolve(input);
+    const processedFiles = [sourcePath];
+    return { cssContent, baseDir, processedFiles, sourcePath };
   }
 
   return {
@@ -46,12 +55,98 @@ async function readCSSContent(options: ParseOptions): Promise<{
   };
 }
 
+/**
+ * Variables and rules extracted from CSS before theme building
+ */
+export interface ExtractedCSS {
+  /** Raw variables in source order (values still contain var() references) */
+  variables: Array<CSSVariable>;
+  /** Keyframes keyed by name */
+  keyframes: Map<string, string>;
+  /** CSS rules from variant selectors (used for conflict detection) */
+  cssRules: Array<CSSRuleOverride>;
+  /** Original Tailwind default variables, if Tailwind is installed */
+  defaultVariables?: Array<CSSVariable>;
+  /** Processed files (input + resolved imports) */
+  files: Array<string>;
+}
+
+/**
+ * Reads CSS (and its imports) and extracts raw variables, keyframes and rules
+ *
+ * First stage of parseCSS; exposed so tooling can inspect variables before
+ * they are resolved into theme objects.
+ *
+ * @param options - Parse options specifying the CSS source and behavior
+ * @returns Extracted variables, keyframes, rules, Tailwind default variables and files
+ * @throws Error if neither input nor css is provided
+ * @throws Error if input is provided but file cannot be read
+ */
+export async function extractCSS(options: ParseOptions): Promise<ExtractedCSS> {
+  const {
+    basePath,
+    resolveImports: shouldResolveImports = true,
+    debug = false,
+    nesting,
+    aliases = {},
+  } = options;
+
+  // Read CSS content from file or inline string
+  const { cssContent, baseDir, processedFiles, sourcePath } =
+    await readCSSContent(options);
+
+  // Parse CSS with PostCSS (from: records the file for source locations)
+  const root = postcss.parse(cssContent, { from: sourcePath });
+
+  // Run independent async operations in parallel for better performance
+  const [importedFiles, defaultsResult] = await Promise.all([
+    shouldResolveImports
+      ? resolveImports(
+          root,
+          baseDir,
+          new Set(processedFiles),
+          debug,
+          0,
+          resolveAliasTargets(aliases, process.cwd()),
+        )
+      : Promise.resolve([]),
+    // Load Tailwind defaults for var() resolution with nesting config
+    // Use basePath if provided, otherwise fall back to process.cwd()
+    // (baseDir is the CSS file's directory, not the project root)
+    // Pass nesting config to ensure defaults respect the same nesting rules as user variables
+    loadTailwindDefaults(basePath ?? process.cwd(), nesting),
+  ]);
+
+  // Track imported files
+  if (shouldResolveImports) {
+    processedFiles.push(...importedFiles);
+  }
+
+  // Extract default variables for resolution (preserves original variable names)
+  const defaultVariables = defaultsResult?.variables;
+
+  // Extract variables, keyframes, and CSS rules from @theme, :root, and variant selectors
+  // Default breakpoints and containers name responsive variants
+  const { variables, keyframes, cssRules } = extractVariables(
+    root,
+    defaultVariables,
+  );
+
+  return {
+    variables,
+    keyframes,
+    cssRules,
+    defaultVariables,
+    files: processedFiles,
+  };
+}
+
 /**
  * Parses CSS file(s) and resolves Tailwind v4 theme variables
  *
  * This is the main entry point for CSS parsing. It handles:
  * - Reading CSS files or parsing raw CSS strings
- * - Recursively resolving @import statements
+ * - Recursively resolving @import statements (relative, aliased and node_modules packages)
  * - Resolving variables from @theme and :root blocks
  * - Building a structured theme object
  *
@@ -107,46 +202,15 @@ async function readCSSContent(options: ParseOptions): Promise<{
 export async function parseCSS<TTheme extends Theme = Theme>(
   options: ParseOptions,
 ): Promise<ParseResult<TTheme>> {
-  const {
-    basePath,
-    resolveImports: shouldResolveImports = true,
-    debug = false,
-    overrides,
-    nesting,
-  } = options;
-
-  // Read CSS content from file or inline string
-  const { cssContent, baseDir, processedFiles } = await readCSSContent(options);
-
-  // Parse CSS with PostCSS
-  const root = postcss.parse(cssContent);
-
-  // Run independent async operations in parallel for better performance
-  const [importedFiles, defaultsResult] = await Promise.all([
-    shouldResolveImports
-      ? resolveImports(root, baseDir, new Set(processedFiles), debug)
-      : Promise.resolve([]),
-    // Load Tailwind defaults for var() resolution with nesting config
-    // Use basePath if provided, otherwise fall back to process.cwd()
-    // (baseDir is the CSS file's directory, not the project root)
-    // Pass nesting config to ensure defaults respect the same nesting rules as user variables
-    loadTailwindDefaults(basePath ?? process.cwd(), nesting),
-  ]);
+  const { debug = false, overrides, nesting } = options;
 
-  // Track imported files
-  if (shouldResolveImports) {
-    processedFiles.push(...importedFiles);
-  }
-
-  // Extract variables, keyframes, and CSS rules from @theme, :root, and variant selectors
   const {
     variables: rawVariables,
     keyframes,
     cssRules,
-  } = extractVariables(root);
-
-  // Extract default variables for resolution (preserves original variable names)
-  const defaultVariables = defaultsResult?.variables;
+    defaultVariables,
+    files,
+  } = await extractCSS(options);
 
   // Build structured theme objects (base + variants) and resolve all variables
   // Detects and applies CSS rule overrides and unresolved variable references
@@ -172,7 +236,7 @@ export async function parseCSS<TTheme extends Theme = Theme>(
     theme,
     variants,
     variables,
-    files: processedFiles,
+    files,
     deprecationWarnings,
     cssConflicts,
     unresolvedVariables,
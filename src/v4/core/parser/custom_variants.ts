@@ -0,0 +1,281 @@
+/**
+ * `@custom-variant` parser for Tailwind v4 theme files
+ * Discovers variant names and the selectors Tailwind uses to activate them
+ */
+
+import type { AtRule, Container, Root, Rule } from 'postcss';
+
+/**
+ * Compiled regex patterns for custom variant parsing (avoid recompilation on each call)
+ */
+const SHORTHAND_REGEX = /^([\w-]+)\s*\(([\s\S]*)\)$/;
+const AT_RULE_REGEX = /^@[\w-]+\s/;
+const LEADING_NESTING_REGEX = /^&/;
+const WRAPPER_PSEUDO_REGEX = /^:(?:where|is)\(([\s\S]*)\)$/;
+const TRAILING_DESCENDANT_REGEX = /\s+\*$/;
+
+/**
+ * One way a custom variant applies: optional at-rule wrappers plus a selector
+ *
+ * @example
+ * // @custom-variant dark (&:where(.dark, .dark *));
+ * { atRules: [], selector: '&:where(.dark, .dark *)' }
+ * // @custom-variant dark { @media (prefers-color-scheme: dark) { @slot; } }
+ * { atRules: ['@media (prefers-color-scheme: dark)'] }
+ */
+export interface CustomVariantBranch {
+  /** At-rule wrappers, outermost first (e.g., '@media (hover: hover)') */
+  atRules: Array<string>;
+  /** Selector template where `&` stands for the styled element (undefined for at-rule only branches) */
+  selector?: string;
+}
+
+/**
+ * A variant defined with `@custom-variant`
+ */
+export interface CustomVariant {
+  /** Variant name (e.g., 'dark') */
+  name: string;
+  /** Branches the variant applies through (multiple `@slot` locations in the block form) */
+  branches: Array<CustomVariantBranch>;
+}
+
+/**
+ * Splits a selector list on top-level commas (commas inside parentheses are kept)
+ *
+ * @param selector - Selector list (e.g., '.dark, :where(.a, .b)')
+ * @returns Individual selectors, trimmed
+ */
+function splitSelectorList(selector: string): Array<string> {
+  const parts: Array<string> = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of selector) {
+    if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+    }
+
+    if (char === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  parts.push(current.trim());
+  return parts.filter((part) => part !== '');
+}
+
+/**
+ * Parses the shorthand form: `@custom-variant name (selector-or-at-rule);`
+ *
+ * @param params - The `@custom-variant` params (e.g., 'dark (&:where(.dark, .dark *))')
+ * @returns Custom variant, or null if the params are not a shorthand definition
+ */
+function parseShorthand(params: string): CustomVariant | null {
+  const match = params.trim().match(SHORTHAND_REGEX);
+  const name = match?.[1];
+  const body = match?.[2]?.trim();
+
+  if (name === undefined || body === undefined || body === '') {
+    return null;
+  }
+
+  const branch: CustomVariantBranch = body.startsWith('@')
+    ? { atRules: [body] }
+    : { atRules: [], selector: body };
+
+  return { name, branches: [branch] };
+}
+
+/**
+ * Parses the block form by following every `@slot` up to the `@custom-variant` rule
+ *
+ * @param atRule - The `@custom-variant` at-rule with a body
+ * @returns Branches, one per `@slot`
+ */
+function parseBlockBranches(atRule: AtRule): Array<CustomVariantBranch> {
+  const branches: Array<CustomVariantBranch> = [];
+
+  atRule.walkAtRules('slot', (slot) => {
+    const atRules: Array<string> = [];
+    const selectors: Array<string> = [];
+    let parent: Container | undefined = slot.parent;
+
+    while (parent !== undefined && parent !== atRule) {
+      if (parent.type === 'rule') {
+        selectors.unshift((parent as Rule).selector);
+      } else if (parent.type === 'atrule') {
+        const wrapper = parent as AtRule;
+        atRules.unshift(`@${wrapper.name} ${wrapper.params}`.trim());
+      }
+      parent = parent.parent as Container | undefined;
+    }
+
+    // Nested rules compose like CSS nesting: inner `&` is the outer selector
+    const selector = selectors.reduce<string | undefined>(
+      (outer, inner) =>
+        outer === undefined ? inner : substituteNesting(inner, outer),
+      undefined,
+    );
+
+    branches.push(selector === undefined ? { atRules } : { atRules, selector });
+  });
+
+  return branches;
+}
+
+/**
+ * Replaces `&` in a selector template with a parent selector
+ *
+ * Parent selector lists are wrapped in `:is()` so the template applies to each of them.
+ *
+ * @param template - Selector template (e.g., '&:is(.dark *)')
+ * @param parentSelector - Selector that `&` stands for (e.g., '.theme-mono')
+ * @returns Composed selector (e.g., '.theme-mono:is(.dark *)')
+ *
+ * @example
+ * substituteNesting('&:is(.dark *)', '.card') // '.card:is(.dark *)'
+ * substituteNesting('&:hover', '.a, .b') // ':is(.a, .b):hover'
+ */
+export function substituteNesting(
+  template: string,
+  parentSelector: string,
+): string {
+  const parent =
+    splitSelectorList(parentSelector).length > 1
+      ? `:is(${parentSelector})`
+      : parentSelector;
+
+  return template.includes('&')
+    ? template.replaceAll('&', parent)
+    : `${parent} ${template}`;
+}
+
+/**
+ * Collects all `@custom-variant` definitions in a stylesheet
+ *
+ * Supports the shorthand form (`@custom-variant dark (&:where(.dark, .dark *));`)
+ * and the block form with one or more `@slot` placeholders. Later definitions
+ * of the same name win, as in Tailwind.
+ *
+ * @param root - The PostCSS root (after `@import` resolution)
+ * @returns Map of variant name to definition
+ */
+export function extractCustomVariants(root: Root): Map<string, CustomVariant> {
+  const customVariants = new Map<string, CustomVariant>();
+
+  root.walkAtRules('custom-variant', (atRule) => {
+    if (atRule.nodes === undefined) {
+      const variant = parseShorthand(atRule.params);
+      if (variant !== null) {
+        customVariants.set(variant.name, variant);
+      }
+      return;
+    }
+
+    const name = atRule.params.trim();
+    const branches = parseBlockBranches(atRule);
+    if (name !== '' && branches.length > 0) {
+      customVariants.set(name, { name, branches });
+    }
+  });
+
+  return customVariants;
+}
+
+/**
+ * Builds the selector that activates a custom variant on a given element
+ *
+ * @param variant - Custom variant definition
+ * @param parentSelector - Selector of the styled element, or undefined for a standalone selector
+ * @returns Selector string; at-rule wrappers are prefixed (e.g., '@media (hover: hover) .card:hover')
+ *
+ * @example
+ * // @custom-variant dark (&:where(.dark, .dark *));
+ * getCustomVariantSelector(dark) // ':where(.dark, .dark *)'
+ * getCustomVariantSelector(dark, '.theme-mono') // '.theme-mono:where(.dark, .dark *)'
+ */
+export function getCustomVariantSelector(
+  variant: CustomVariant,
+  parentSelector?: string,
+): string {
+  return variant.branches
+    .map((branch) => {
+      let selector = parentSelector ?? '';
+      if (branch.selector !== undefined) {
+        // Standalone: a leading `&` is the element itself, any other `&` is any element
+        selector =
+          parentSelector === undefined
+            ? branch.selector
+                .replace(LEADING_NESTING_REGEX, '')
+                .replaceAll('&', '*')
+            : substituteNesting(branch.selector, parentSelector);
+      }
+      return [...branch.atRules, selector].join(' ').trim();
+    })
+    .join(', ');
+}
+
+/**
+ * Extracts the plain selectors a custom variant is activated by
+ *
+ * @param template - Selector template (e.g., '&:where(.dark, .dark *)')
+ * @returns Activating selectors (e.g., ['.dark'])
+ *
+ * @example
+ * getActivatingSelectors('&:is(.dark *)') // ['.dark']
+ * getActivatingSelectors('&:where([data-theme=dark], [data-theme=dark] *)') // ['[data-theme=dark]']
+ */
+function getActivatingSelectors(template: string): Array<string> {
+  const withoutNesting = template.replaceAll('&', '').trim();
+  const unwrapped =
+    withoutNesting.match(WRAPPER_PSEUDO_REGEX)?.[1] ?? withoutNesting;
+
+  return splitSelectorList(unwrapped).map((part) =>
+    part.replace(TRAILING_DESCENDANT_REGEX, '').trim(),
+  );
+}
+
+/**
+ * Finds the custom variant activated by a rule selector or `@media` query
+ *
+ * @param customVariants - Custom variant definitions
+ * @param selector - Rule selector (e.g., '.dark') or at-rule (e.g., '@media (prefers-color-scheme: dark)')
+ * @returns Custom variant, or undefined if no definition is activated by the selector
+ *
+ * @example
+ * // @custom-variant night (&:where([data-mode=night] *));
+ * findCustomVariant(customVariants, '[data-mode=night]') // night
+ */
+export function findCustomVariant(
+  customVariants: Map<string, CustomVariant>,
+  selector: string,
+): CustomVariant | undefined {
+  const parts = splitSelectorList(selector);
+  const isAtRule = AT_RULE_REGEX.test(selector);
+
+  for (const variant of customVariants.values()) {
+    for (const branch of variant.branches) {
+      if (isAtRule && branch.selector === undefined) {
+        if (branch.atRules.join(' ') === selector) {
+          return variant;
+        }
+        continue;
+      }
+
+      if (branch.selector !== undefined && branch.atRules.length === 0) {
+        const activating = new Set(getActivatingSelectors(branch.selector));
+        if (parts.every((part) => activating.has(part))) {
+          return variant;
+        }
+      }
+    }
+  }
+
+  return undefined;
+}
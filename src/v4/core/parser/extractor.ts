@@ -3,26 +3,30 @@
  * Extracts variables from `@theme`, :root, and variant selectors
  */
 
-import type { AtRule, ChildNode, Container, Root } from 'postcss';
-
-import type { CSSVariable, DeprecationWarning } from '../../types';
+import type {
+  AtRule,
+  ChildNode,
+  Container,
+  Declaration,
+  Root,
+  Rule,
+} from 'postcss';
+
+import type { CSSVariable, DeprecationWarning, ThemeMode } from '../../types';
 import type { CSSRuleOverride } from '../extraction/rules';
+import type { CustomVariant } from './custom_variants';
+import type { ResponsiveSizes } from './responsive';
 
+import { SINGULAR_VARIABLE_MAPPINGS } from '../constants/namespaces';
 import { extractCSSRules } from '../extraction/rules';
 import { LRUCache } from '../utils/lru_cache';
-
-/**
- * Singular variable mappings for deprecated Tailwind v4 variables
- */
-const SINGULAR_VARIABLE_MAPPINGS: Record<
-  string,
-  { key: string; replacement: string }
-> = {
-  spacing: { key: 'base', replacement: '--spacing-base' },
-  blur: { key: 'default', replacement: '--blur-sm or --blur-md' },
-  shadow: { key: 'default', replacement: '--shadow-sm or --shadow-md' },
-  radius: { key: 'default', replacement: '--radius-sm or --radius-md' },
-};
+import { getSourceLocation } from '../utils/source_location';
+import {
+  extractCustomVariants,
+  findCustomVariant,
+  getCustomVariantSelector,
+} from './custom_variants';
+import { collectResponsiveSizes, getResponsiveVariant } from './responsive';
 
 /**
  * Multi-word CSS variable namespaces that need special parsing
@@ -44,6 +48,28 @@ const MEDIA_COLOR_SCHEME_REGEX = /prefers-color-scheme:\s*(\w+)/;
 const SELF_REFERENTIAL_REGEX = /^var\((--[\w-]+)\)$/;
 const FONT_SIZE_LINE_HEIGHT_REGEX = /^(.+)--line-height$/;
 const KEBAB_TO_CAMEL_REGEX = /-([a-z0-9])/g;
+const CONDITION_AT_RULE_NAME_REGEX = /^(?:media|container)$/;
+
+/**
+ * Grouping at-rules whose children are extracted as if they were top-level
+ * (e.g., `@import "./theme.css" layer(theme)` is inlined as `@layer theme { ... }`)
+ */
+const TRANSPARENT_AT_RULES = new Set(['layer', 'supports']);
+
+/**
+ * Conditional at-rules whose variables become variants (color scheme, breakpoints, containers)
+ */
+const CONDITION_AT_RULES = new Set(['media', 'container']);
+
+/**
+ * Modifiers accepted in `@theme` params
+ */
+const THEME_MODES: ReadonlySet<string> = new Set<ThemeMode>([
+  'inline',
+  'static',
+  'reference',
+  'default',
+]);
 
 /**
  * Checks if a CSS variable is self-referential (e.g., --font-sans: var(--font-sans))
@@ -70,6 +96,59 @@ function isSelfReferential(name: string, value: string): boolean {
   return referencedVar === name;
 }
 
+/**
+ * Creates a CSS variable entry from a declaration, including its source location
+ *
+ * @param decl - The custom property declaration
+ * @param source - Where the variable was declared ('theme', 'root', 'variant')
+ * @param variant - Selector and variant name for variant variables
+ * @param variant.selector - CSS selector that activates the variant
+ * @param variant.variantName - Resolved variant name
+ * @returns CSS variable entry
+ */
+function createVariable(
+  decl: Declaration,
+  source: CSSVariable['source'],
+  variant?: { selector: string; variantName: string },
+): CSSVariable {
+  const location = getSourceLocation(decl);
+
+  return {
+    name: decl.prop,
+    value: decl.value,
+    source,
+    ...variant,
+    ...(location !== undefined && { location }),
+  };
+}
+
+/**
+ * Parses the modifiers of a `@theme` at-rule
+ *
+ * @param params - The `@theme` params (e.g., 'inline reference')
+ * @returns Recognized modes in declaration order (unknown words are ignored)
+ *
+ * @example
+ * parseThemeModes('inline reference') // ['inline', 'reference']
+ * parseThemeModes('') // []
+ */
+export function parseThemeModes(params: string): Array<ThemeMode> {
+  return params
+    .split(/\s+/)
+    .filter((word): word is ThemeMode => THEME_MODES.has(word));
+}
+
+/**
+ * Checks if a variable was declared in a `@theme` block with the given mode
+ *
+ * @param variable - CSS variable to check
+ * @param mode - Theme mode to look for
+ * @returns true if the declaring `@theme` block has the mode
+ */
+export function hasThemeMode(variable: CSSVariable, mode: ThemeMode): boolean {
+  return variable.themeModes?.includes(mode) === true;
+}
+
 /**
  * Extracts data-theme attribute values from a selector
  * @param selector - CSS selector to parse
@@ -222,12 +301,14 @@ function applyVariantToSelector(selector: string, variantName: string): string {
  * @param baseVariantName - The base variant name to prepend
  * @param baseSelector - The base selector for tracking
  * @param variables - Array to push extracted variables into
+ * @param customVariants - `@custom-variant` definitions used to build nested selectors
  */
 function processNestedVariants(
   container: Container<ChildNode>,
   baseVariantName: string,
   baseSelector: string,
   variables: Array<CSSVariable>,
+  customVariants: Map<string, CustomVariant> = new Map(),
 ): void {
   // Process @variant at-rules nested in this container
   container.walkAtRules('variant', (variantRule) => {
@@ -236,12 +317,15 @@ function processNestedVariants(
       // Create compound variant name (e.g., "theme-mono.dark" or "theme-mono.dark.hover")
       const compoundVariantName = `${baseVariantName}.${nestedVariantName}`;
 
-      // Create valid CSS selector by applying the variant as a class
+      // Resolve through the @custom-variant definition when there is one
+      // Example: .theme-purple + dark (&:is(.dark *)) = .theme-purple:is(.dark *)
+      // Otherwise apply the variant as a class
       // Example: .theme-purple .container + dark = .theme-purple.dark .container
-      const compoundSelector = applyVariantToSelector(
-        baseSelector,
-        nestedVariantName,
-      );
+      const customVariant = customVariants.get(nestedVariantName);
+      const compoundSelector =
+        customVariant === undefined
+          ? applyVariantToSelector(baseSelector, nestedVariantName)
+          : getCustomVariantSelector(customVariant, baseSelector);
 
       // Extract direct declarations in this @variant (not in nested @variant blocks)
       variantRule.each((child) => {
@@ -249,13 +333,12 @@ function processNestedVariants(
           const decl = child;
           if (decl.prop.startsWith('--')) {
             if (!isSelfReferential(decl.prop, decl.value)) {
-              variables.push({
-                name: decl.prop,
-                value: decl.value,
-                source: 'variant',
-                selector: compoundSelector,
-                variantName: compoundVariantName,
-              });
+              variables.push(
+                createVariable(decl, 'variant', {
+                  selector: compoundSelector,
+                  variantName: compoundVariantName,
+                }),
+              );
             }
           }
         }
@@ -267,11 +350,260 @@ function processNestedVariants(
         compoundVariantName,
         compoundSelector,
         variables,
+        customVariants,
       );
     }
   });
 }
 
+/**
+ * Extracts variables and keyframes from a `@theme` block
+ *
+ * @param atRule - The `@theme` at-rule
+ * @param variables - Array to push extracted variables into
+ * @param keyframes - Map to store keyframes into (skipped for `@theme reference`)
+ */
+function extractThemeBlock(
+  atRule: AtRule,
+  variables: Array<CSSVariable>,
+  keyframes: Map<string, string>,
+): void {
+  const themeModes = parseThemeModes(atRule.params);
+
+  atRule.walkDecls((decl) => {
+    if (decl.prop.startsWith('--')) {
+      if (!isSelfReferential(decl.prop, decl.value)) {
+        // Always include variables, even with 'initial' value
+        // The 'initial' values will be used to filter defaults, but we need to track them
+        const variable = createVariable(decl, 'theme');
+        variables.push(
+          themeModes.length > 0 ? { ...variable, themeModes } : variable,
+        );
+      }
+    }
+  });
+
+  // Reference themes are never emitted, including their keyframes
+  if (themeModes.includes('reference')) {
+    return;
+  }
+
+  // Extract keyframes nested inside @theme blocks
+  atRule.walkAtRules('keyframes', (keyframesRule) => {
+    if (keyframesRule.params !== '') {
+      keyframes.set(keyframesRule.params, keyframesRule.toString());
+    }
+  });
+}
+
+/**
+ * Names a variant and finds its selector, preferring `@custom-variant` definitions
+ *
+ * A custom variant names the variant when the selector activates it
+ * (e.g., `[data-mode=night]` for `@custom-variant dark (&:where([data-mode=night] *))`).
+ * When the name matches a custom variant, its selector is the one Tailwind uses.
+ *
+ * @param selector - Rule selector or `@media ...` at-rule
+ * @param customVariants - `@custom-variant` definitions
+ * @returns Variant name and selector, or null if the selector is not a recognized variant
+ */
+function resolveVariant(
+  selector: string,
+  customVariants: Map<string, CustomVariant>,
+): { variantName: string; selector: string } | null {
+  const activated = findCustomVariant(customVariants, selector);
+  const variantName = activated?.name ?? extractVariantName(selector);
+
+  if (variantName === null) {
+    return null;
+  }
+
+  const customVariant = activated ?? customVariants.get(variantName);
+  return {
+    variantName,
+    selector:
+      customVariant === undefined
+        ? selector
+        : getCustomVariantSelector(customVariant),
+  };
+}
+
+/**
+ * Names the variant activated by a `@media` or `@container` at-rule
+ *
+ * Color scheme and `@custom-variant` queries are resolved first, then width
+ * conditions are matched against the theme's breakpoints and containers.
+ *
+ * @param atRule - The `@media` or `@container` at-rule
+ * @param customVariants - `@custom-variant` definitions
+ * @param sizes - Named breakpoint and container sizes
+ * @returns Variant name and selector, or null if the condition is not a recognized variant
+ */
+function resolveConditionVariant(
+  atRule: AtRule,
+  customVariants: Map<string, CustomVariant>,
+  sizes: ResponsiveSizes,
+): { variantName: string; selector: string } | null {
+  if (atRule.name === 'media') {
+    const variant = resolveVariant(`@media ${atRule.params}`, customVariants);
+    if (variant !== null) {
+      return variant;
+    }
+  }
+
+  return getResponsiveVariant(atRule, sizes);
+}
+
+/**
+ * Extracts variant variables from a top-level `@media` or `@container` block
+ *
+ * @param atRule - The `@media` or `@container` at-rule
+ * @param customVariants - `@custom-variant` definitions
+ * @param sizes - Named breakpoint and container sizes
+ * @returns Variant variables, or an empty array if the condition is not a recognized variant
+ */
+function extractConditionVariables(
+  atRule: AtRule,
+  customVariants: Map<string, CustomVariant>,
+  sizes: ResponsiveSizes,
+): Array<CSSVariable> {
+  const variables: Array<CSSVariable> = [];
+  const variant = resolveConditionVariant(atRule, customVariants, sizes);
+
+  if (variant === null) {
+    return variables;
+  }
+
+  atRule.walkDecls((decl) => {
+    if (decl.prop.startsWith('--')) {
+      if (!isSelfReferential(decl.prop, decl.value)) {
+        variables.push(createVariable(decl, 'variant', variant));
+      }
+    }
+  });
+
+  return variables;
+}
+
+/**
+ * Extracts variables from a :root rule
+ *
+ * Declarations nested in recognized `@media` / `@container` blocks become variants
+ * (e.g., `:root { @media (width >= 48rem) { --spacing: 0.3rem } }` → 'md').
+ * Declarations in other nested blocks are treated as base values.
+ *
+ * @param rule - The :root rule
+ * @param customVariants - `@custom-variant` definitions
+ * @param sizes - Named breakpoint and container sizes
+ * @param variables - Array to push extracted variables into
+ */
+function extractRootRule(
+  rule: Rule,
+  customVariants: Map<string, CustomVariant>,
+  sizes: ResponsiveSizes,
+  variables: Array<CSSVariable>,
+): void {
+  rule.walkDecls((decl) => {
+    if (
+      !decl.prop.startsWith('--') ||
+      isSelfReferential(decl.prop, decl.value)
+    ) {
+      return;
+    }
+
+    const condition = decl.parent;
+    const variant =
+      condition?.type === 'atrule' &&
+      CONDITION_AT_RULES.has((condition as AtRule).name)
+        ? resolveConditionVariant(condition as AtRule, customVariants, sizes)
+        : null;
+
+    variables.push(
+      variant === null
+        ? createVariable(decl, 'root')
+        : createVariable(decl, 'variant', variant),
+    );
+  });
+}
+
+/**
+ * Extracts variables, CSS rules and nested variants from a variant rule
+ *
+ * Breakpoint and container blocks nested in the rule become compound variants
+ * (e.g., `.theme-mono { @media (min-width: 1024px) { ... } }` → 'theme-mono.lg').
+ *
+ * @param rule - Top-level rule other than :root (e.g., `.dark { ... }`)
+ * @param customVariants - `@custom-variant` definitions
+ * @param sizes - Named breakpoint and container sizes
+ * @param variables - Array to push extracted variables into
+ * @param cssRules - Array to push extracted CSS rules into
+ */
+function extractVariantRule(
+  rule: Rule,
+  customVariants: Map<string, CustomVariant>,
+  sizes: ResponsiveSizes,
+  variables: Array<CSSVariable>,
+  cssRules: Array<CSSRuleOverride>,
+): void {
+  const variant = resolveVariant(rule.selector, customVariants);
+
+  if (variant === null) {
+    return;
+  }
+
+  const { variantName } = variant;
+
+  // Walk declarations directly in this rule (not nested in at-rules)
+  // Use rule.each() instead of rule.walkDecls() to only get direct children
+  rule.each((child) => {
+    if (child.type === 'decl') {
+      const decl = child;
+      if (decl.prop.startsWith('--')) {
+        if (!isSelfReferential(decl.prop, decl.value)) {
+          variables.push(createVariable(decl, 'variant', variant));
+        }
+      }
+    }
+  });
+
+  // Extract CSS rules from this variant
+  const rules = extractCSSRules(rule, variantName);
+  cssRules.push(...rules);
+
+  // Process nested @variant at-rules recursively
+  processNestedVariants(
+    rule,
+    variantName,
+    rule.selector,
+    variables,
+    customVariants,
+  );
+
+  // Check for media and container queries nested inside this rule
+  // Breakpoints create compound variants, other queries extend this variant
+  rule.walkAtRules(CONDITION_AT_RULE_NAME_REGEX, (conditionRule) => {
+    const responsive = getResponsiveVariant(conditionRule, sizes);
+    const nestedVariant =
+      responsive === null
+        ? {
+            selector: `${rule.selector} @${conditionRule.name} ${conditionRule.params}`,
+            variantName,
+          }
+        : {
+            selector: `${rule.selector} ${responsive.selector}`,
+            variantName: `${variantName}.${responsive.variantName}`,
+          };
+
+    conditionRule.walkDecls((decl) => {
+      if (decl.prop.startsWith('--')) {
+        if (!isSelfReferential(decl.prop, decl.value)) {
+          variables.push(createVariable(decl, 'variant', nestedVariant));
+        }
+      }
+    });
+  });
+}
+
 /**
  * Extracts CSS variables, keyframes, and CSS rules from a PostCSS AST
  *
@@ -282,11 +614,19 @@ function processNestedVariants(
  * - Nested @variant blocks: creates compound variants with recursive support
  *   (e.g., .theme-mono @variant dark @variant hover → theme-mono.dark.hover)
  * - CSS Rules: Direct style rules within variants (e.g., .rounded-lg { border-radius: 0; })
+ * - `@layer` and `@supports` blocks: children are extracted as if they were top-level
+ * - `@custom-variant` definitions: name variants and provide the selectors Tailwind uses
+ * - Breakpoint and container queries: variants named after `--breakpoint-*` / `--container-*`
+ *   (e.g., `@media (width >= 48rem)` → 'md', `@container (width >= 28rem)` → '@md')
  *
  * @param root - The PostCSS root node to extract variables from
+ * @param defaultVariables - Tailwind default variables, used to name breakpoint and container variants
  * @returns Object with extracted CSS variables, keyframes, and CSS rules
  */
-export function extractVariables(root: Root): {
+export function extractVariables(
+  root: Root,
+  defaultVariables?: Array<CSSVariable>,
+): {
   variables: Array<CSSVariable>;
   keyframes: Map<string, string>;
   cssRules: Array<CSSRuleOverride>;
@@ -295,52 +635,23 @@ export function extractVariables(root: Root): {
   const keyframes = new Map<string, string>();
   const cssRules: Array<CSSRuleOverride> = [];
 
-  // Single pass through all top-level nodes
-  root.each((node) => {
+  // Collect @custom-variant definitions first (they may appear after the rules using them)
+  const customVariants = extractCustomVariants(root);
+  const sizes = collectResponsiveSizes(root, defaultVariables);
+
+  // Single pass through all top-level nodes (and transparent grouping blocks)
+  const visitNode = (node: ChildNode): void => {
     if (node.type === 'atrule') {
       const atRule = node as AtRule;
 
-      if (atRule.name === 'theme') {
-        // Extract variables from @theme blocks
-        atRule.walkDecls((decl) => {
-          if (decl.prop.startsWith('--')) {
-            if (!isSelfReferential(decl.prop, decl.value)) {
-              // Always include variables, even with 'initial' value
-              // The 'initial' values will be used to filter defaults, but we need to track them
-              variables.push({
-                name: decl.prop,
-                value: decl.value,
-                source: 'theme',
-              });
-            }
-          }
-        });
-
-        // Extract keyframes nested inside @theme blocks
-        atRule.walkAtRules('keyframes', (keyframesRule) => {
-          if (keyframesRule.params !== '') {
-            keyframes.set(keyframesRule.params, keyframesRule.toString());
-          }
-        });
-      } else if (atRule.name === 'media') {
-        // Extract variables from @media blocks
-        const variantName = extractVariantName(atRule.params);
-
-        if (variantName !== null) {
-          atRule.walkDecls((decl) => {
-            if (decl.prop.startsWith('--')) {
-              if (!isSelfReferential(decl.prop, decl.value)) {
-                variables.push({
-                  name: decl.prop,
-                  value: decl.value,
-                  source: 'variant',
-                  selector: `@media ${atRule.params}`,
-                  variantName,
-                });
-              }
-            }
-          });
-        }
+      if (TRANSPARENT_AT_RULES.has(atRule.name)) {
+        atRule.each(visitNode);
+      } else if (atRule.name === 'theme') {
+        extractThemeBlock(atRule, variables, keyframes);
+      } else if (CONDITION_AT_RULES.has(atRule.name)) {
+        variables.push(
+          ...extractConditionVariables(atRule, customVariants, sizes),
+        );
       } else if (atRule.name === 'keyframes') {
         // Extract @keyframes rules
         if (atRule.params !== '') {
@@ -352,68 +663,15 @@ export function extractVariables(root: Root): {
 
       if (rule.selector === ':root') {
         // Extract variables from :root blocks
-        rule.walkDecls((decl) => {
-          if (decl.prop.startsWith('--')) {
-            if (!isSelfReferential(decl.prop, decl.value)) {
-              variables.push({
-                name: decl.prop,
-                value: decl.value,
-                source: 'root',
-              });
-            }
-          }
-        });
+        extractRootRule(rule, customVariants, sizes, variables);
       } else {
         // Extract variables from variant selectors
-        const variantName = extractVariantName(rule.selector);
-
-        if (variantName !== null) {
-          // Walk declarations directly in this rule (not nested in at-rules)
-          // Use rule.each() instead of rule.walkDecls() to only get direct children
-          rule.each((child) => {
-            if (child.type === 'decl') {
-              const decl = child;
-              if (decl.prop.startsWith('--')) {
-                if (!isSelfReferential(decl.prop, decl.value)) {
-                  variables.push({
-                    name: decl.prop,
-                    value: decl.value,
-                    source: 'variant',
-                    selector: rule.selector,
-                    variantName,
-                  });
-                }
-              }
-            }
-          });
-
-          // Extract CSS rules from this variant
-          const rules = extractCSSRules(rule, variantName);
-          cssRules.push(...rules);
-
-          // Process nested @variant at-rules recursively
-          processNestedVariants(rule, variantName, rule.selector, variables);
-
-          // Check for media queries nested inside this rule
-          rule.walkAtRules('media', (mediaRule) => {
-            mediaRule.walkDecls((decl) => {
-              if (decl.prop.startsWith('--')) {
-                if (!isSelfReferential(decl.prop, decl.value)) {
-                  variables.push({
-                    name: decl.prop,
-                    value: decl.value,
-                    source: 'variant',
-                    selector: `${rule.selector} @media ${mediaRule.params}`,
-                    variantName,
-                  });
-                }
-              }
-            });
-          });
-        }
+        extractVariantRule(rule, customVariants, sizes, variables, cssRules);
       }
     }
-  });
+  };
+
+  root.each(visitNode);
 
   return { variables, keyframes, cssRules };
 }
@@ -3,14 +3,18 @@
  * Recursively resolves and inlines `@import` statements
  */
 
-import type { AtRule, Root } from 'postcss';
+import type { AtRule, ChildNode, Root } from 'postcss';
 
-import { readFile } from 'node:fs/promises';
-import { dirname, resolve } from 'node:path';
+import type { ImportAliases } from '../../types';
+
+import { readFile, stat } from 'node:fs/promises';
+import { dirname } from 'node:path';
 
 import postcss from 'postcss';
 
 import { ImportDepthExceededError } from '../utils/errors';
+import { LRUCache } from '../utils/lru_cache';
+import { resolveImportSpecifier } from './module_resolver';
 
 /**
  * Maximum import depth to prevent stack overflow from deeply nested imports
@@ -22,12 +26,107 @@ const MAX_IMPORT_DEPTH = 50;
  */
 const URL_IMPORT_REGEX = /^url\(['"]?([^'"]+)['"]?\)/;
 const STRING_IMPORT_REGEX = /^['"]([^'"]+)['"]/;
+const TAILWIND_IMPORT_REGEX = /^tailwindcss(\/|$)/;
+const LAYER_KEYWORD_REGEX = /^layer(?=\s|$)/i;
+
+/**
+ * Function-style conditions accepted after the import path
+ * `prefix()` only affects Tailwind's class names and is dropped
+ */
+const IMPORT_FUNCTIONS = ['layer', 'supports', 'theme', 'prefix'] as const;
+
+/**
+ * Maximum number of parsed imported files to keep in memory
+ */
+const MAX_IMPORT_CACHE_SIZE = 200;
+
+/**
+ * Parsed imported file, validated by modification time and size
+ */
+interface ParsedImportCacheEntry {
+  mtimeMs: number;
+  size: number;
+  root: Root;
+}
+
+/**
+ * Cache of parsed imported files
+ * Stylesheets imported by several inputs (shared tokens, brand palettes) are
+ * parsed once per process, e.g., across monorepo entries
+ */
+const parsedImportCache = new LRUCache<string, ParsedImportCacheEntry>(
+  MAX_IMPORT_CACHE_SIZE,
+);
+
+/**
+ * Clears the parsed import cache
+ * Exported for testing purposes only
+ * @internal
+ */
+export function clearImportCache(): void {
+  parsedImportCache.clear();
+}
+
+/**
+ * Reads and parses an imported file, reusing the cached AST while the file is unchanged
+ * Returns a clone, since inlining moves the nodes into the importing file
+ *
+ * @param path - Absolute path to the imported file
+ * @returns Parsed file (nodes keep their source file for locations)
+ * @throws Error if the file cannot be read or parsed
+ */
+async function parseImportedFile(path: string): Promise<Root> {
+  const stats = await stat(path);
+  const cached = parsedImportCache.get(path);
+
+  if (cached?.mtimeMs === stats.mtimeMs && cached.size === stats.size) {
+    return cached.root.clone();
+  }
+
+  const root = postcss.parse(await readFile(path, 'utf-8'), { from: path });
+  parsedImportCache.set(path, {
+    mtimeMs: stats.mtimeMs,
+    size: stats.size,
+    root,
+  });
+
+  return root.clone();
+}
+
+/**
+ * Conditions attached to an `@import` rule after the path
+ *
+ * @example
+ * `@import "./theme.css" layer(theme) supports(color: oklch(0 0 0)) screen`
+ * // { layer: 'theme', supports: 'color: oklch(0 0 0)', media: 'screen' }
+ */
+interface ImportConditions {
+  /** Cascade layer name ('' for an anonymous `layer`) */
+  layer?: string;
+  /** Condition inside `supports(...)` */
+  supports?: string;
+  /** Theme modes inside `theme(...)` (e.g., 'static reference') */
+  theme?: string;
+  /** Media query list */
+  media?: string;
+}
+
+/**
+ * Path and conditions parsed from an `@import` rule
+ */
+interface ParsedImport {
+  /** Import specifier */
+  path: string;
+  /** Conditions to preserve when inlining */
+  conditions: ImportConditions;
+}
 
 /**
  * Resolves all `@import` statements in a PostCSS AST recursively
  *
  * This function performs graceful error handling by design:
  * - Missing files: `@import` statements referencing non-existent files are silently removed
+ * - Remote URLs and unresolvable packages: `@import` statements are silently removed
  * - Invalid CSS: Malformed CSS in imported files causes the `@import` to be removed
  * - Permission errors: Files that can't be read due to permissions are skipped
  * - Circular imports: Already-processed files are skipped to prevent infinite loops
@@ -36,11 +135,21 @@ const STRING_IMPORT_REGEX = /^['"]([^'"]+)['"]/;
  * When errors occur, the `@import` rule is removed from the AST, allowing the rest of the
  * CSS to be parsed successfully. Enable `debug` mode to log warnings for troubleshooting.
  *
+ * Specifiers are resolved with resolveImportSpecifier: relative paths, path
+ * aliases, and bare package specifiers through node_modules (package.json
+ * `exports` with the `style` condition).
+ *
+ * Import conditions are preserved: `layer()`, `supports()` and media queries
+ * wrap the inlined nodes in `@layer`, `@supports` and `@media` blocks.
+ * `theme()` modes are added to the imported `@theme` blocks, and `prefix()`
+ * is ignored.
+ *
  * @param root - The PostCSS root node to process
  * @param basePath - Base directory path for resolving relative imports
  * @param processedFiles - Set of already processed file paths to prevent circular imports
  * @param debug - Enable debug logging for troubleshooting failed imports
  * @param depth - Current import depth (internal use for recursion tracking)
+ * @param aliases - Path aliases with absolute targets (e.g., { '@': '/app/src' })
  * @returns Array of file paths that were processed
  * @throws ImportDepthExceededError if import depth exceeds MAX_IMPORT_DEPTH
  */
@@ -50,6 +159,7 @@ export async function resolveImports(
   processedFiles: Set<string> = new Set(),
   debug: boolean = false,
   depth: number = 0,
+  aliases: ImportAliases = {},
 ): Promise<Array<string>> {
   // Prevent stack overflow from deeply nested imports
   if (depth > MAX_IMPORT_DEPTH) {
@@ -59,22 +169,40 @@ export async function resolveImports(
   const importsToProcess: Array<{
     atRule: AtRule;
     importPath: string;
+    conditions: ImportConditions;
   }> = [];
 
   // Collect all `@import` rules
   root.walkAtRules('import', (atRule: AtRule) => {
-    const importPath = parseImportPath(atRule.params);
+    const parsed = parseImportParams(atRule.params);
 
-    if (importPath !== null && !importPath.startsWith('tailwindcss')) {
-      // Skip Tailwind's own imports
-      importsToProcess.push({ atRule, importPath });
+    // Skip Tailwind's own imports (defaults are loaded separately)
+    if (parsed !== null && !TAILWIND_IMPORT_REGEX.test(parsed.path)) {
+      importsToProcess.push({
+        atRule,
+        importPath: parsed.path,
+        conditions: parsed.conditions,
+      });
     }
   });
 
   // Process imports in parallel for better performance
   const results = await Promise.allSettled(
-    importsToProcess.map(async ({ atRule, importPath }) => {
-      const resolvedPath = resolve(basePath, importPath);
+    importsToProcess.map(async ({ atRule, importPath, conditions }) => {
+      const resolvedPath = await resolveImportSpecifier(
+        importPath,
+        basePath,
+        aliases,
+      );
+
+      if (resolvedPath === null) {
+        if (debug) {
+          console.warn(
+            `[Tailwind Theme Resolver] Skipping unresolvable import: ${importPath}`,
+          );
+        }
+        return { atRule, action: 'error' as const };
+      }
 
       // Skip if already processed (circular import prevention)
       if (processedFiles.has(resolvedPath)) {
@@ -82,11 +210,8 @@ export async function resolveImports(
       }
 
       try {
-        // Read the imported file
-        const importedCss = await readFile(resolvedPath, 'utf-8');
-
-        // Parse the imported CSS
-        const importedRoot = postcss.parse(importedCss);
+        // Read and parse the imported file (cached across inputs while unchanged)
+        const importedRoot = await parseImportedFile(resolvedPath);
 
         // Mark as processed before recursing to prevent circular imports
         processedFiles.add(resolvedPath);
@@ -98,12 +223,19 @@ export async function resolveImports(
           processedFiles,
           debug,
           depth + 1,
+          aliases,
         );
 
+        // Apply theme() modes to nested imports as well
+        if (conditions.theme !== undefined) {
+          addThemeModes(importedRoot, conditions.theme);
+        }
+
         return {
           atRule,
           action: 'replace' as const,
           importedRoot,
+          conditions,
           resolvedPath,
           nestedFiles,
         };
@@ -137,7 +269,9 @@ export async function resolveImports(
     } else {
       // value.action === 'replace'
       importedFiles.push(value.resolvedPath, ...value.nestedFiles);
-      value.atRule.replaceWith(value.importedRoot.nodes);
+      value.atRule.replaceWith(
+        wrapInConditions(value.importedRoot.nodes, value.conditions),
+      );
     }
   }
 
@@ -145,32 +279,190 @@ export async function resolveImports(
 }
 
 /**
- * Parses an `@import` rule parameter to extract the file path
+ * Adds the modes of a `theme()` import condition to the imported `@theme` blocks
+ *
+ * @param root - Parsed imported file
+ * @param modes - Theme modes (e.g., 'static')
+ *
+ * @example
+ * // @import "./tokens.css" theme(static);
+ * // @theme { ... } → @theme static { ... }
+ */
+function addThemeModes(root: Root, modes: string): void {
+  root.walkAtRules('theme', (atRule) => {
+    atRule.params = `${atRule.params} ${modes}`.trim();
+  });
+}
+
+/**
+ * Wraps inlined nodes in the at-rules equivalent to the import conditions
+ *
+ * Conditions nest in the order CSS applies them: `@layer` outermost, then
+ * `@supports`, then `@media`, so media-conditioned imports are extracted as
+ * variants instead of base theme.
+ *
+ * @param nodes - Nodes from the imported file
+ * @param conditions - Conditions from the `@import` rule
+ * @returns Nodes to insert in place of the `@import` rule
+ *
+ * @example
+ * // @import "./dark.css" (prefers-color-scheme: dark);
+ * wrapInConditions(nodes, { media: '(prefers-color-scheme: dark)' })
+ * // [@media (prefers-color-scheme: dark) { ...nodes }]
+ */
+function wrapInConditions(
+  nodes: Array<ChildNode>,
+  conditions: ImportConditions,
+): Array<ChildNode> {
+  let wrapped = nodes;
+
+  if (conditions.media !== undefined) {
+    wrapped = [
+      postcss
+        .atRule({ name: 'media', params: conditions.media })
+        .append(wrapped),
+    ];
+  }
+
+  if (conditions.supports !== undefined) {
+    wrapped = [
+      postcss
+        .atRule({ name: 'supports', params: `(${conditions.supports})` })
+        .append(wrapped),
+    ];
+  }
+
+  if (conditions.layer !== undefined) {
+    wrapped = [
+      postcss
+        .atRule({ name: 'layer', params: conditions.layer })
+        .append(wrapped),
+    ];
+  }
+
+  return wrapped;
+}
+
+/**
+ * Reads a function-style condition (e.g., `layer(theme)`, `supports(display: grid)`)
+ * from the start of a string, honoring nested parentheses
+ *
+ * @param text - Text starting with the condition
+ * @param name - Function name (e.g., 'layer', 'supports')
+ * @returns Argument and remaining text, or null if the text does not start with the function
+ */
+function readFunctionCondition(
+  text: string,
+  name: string,
+): { argument: string; rest: string } | null {
+  if (!text.toLowerCase().startsWith(`${name}(`)) {
+    return null;
+  }
+
+  let depth = 0;
+
+  for (let index = name.length; index < text.length; index++) {
+    const char = text[index];
+    if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+      if (depth === 0) {
+        return {
+          argument: text.slice(name.length + 1, index).trim(),
+          rest: text.slice(index + 1).trim(),
+        };
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Reads the condition at the start of the text after an import path
+ *
+ * @param text - Remaining import conditions
+ * @returns Condition name, argument and remaining text, or null if the text starts with a media query
+ */
+function readImportCondition(text: string): {
+  name: (typeof IMPORT_FUNCTIONS)[number];
+  argument: string;
+  rest: string;
+} | null {
+  for (const name of IMPORT_FUNCTIONS) {
+    const condition = readFunctionCondition(text, name);
+    if (condition !== null) {
+      return { name, ...condition };
+    }
+  }
+
+  if (LAYER_KEYWORD_REGEX.test(text)) {
+    return {
+      name: 'layer',
+      argument: '',
+      rest: text.replace(LAYER_KEYWORD_REGEX, '').trim(),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Parses the conditions following the path in an `@import` rule
+ *
+ * @param text - Text after the import path (e.g., 'layer(theme) theme(static) screen')
+ * @returns Parsed layer, supports, theme and media conditions
+ */
+function parseImportConditions(text: string): ImportConditions {
+  const conditions: ImportConditions = {};
+  let rest = text.trim();
+  let condition = readImportCondition(rest);
+
+  while (condition !== null) {
+    if (condition.name !== 'prefix') {
+      conditions[condition.name] = condition.argument;
+    }
+    rest = condition.rest;
+    condition = readImportCondition(rest);
+  }
+
+  if (rest !== '') {
+    conditions.media = rest;
+  }
+
+  return conditions;
+}
+
+/**
+ * Parses an `@import` rule parameter to extract the file path and conditions
  *
  * Handles various formats:
  * - `@import` "file.css"
  * - `@import` 'file.css'
  * - `@import` url("file.css")
  * - `@import` url('file.css')
+ * - `@import` "file.css" layer(name) supports(condition) media-query
+ * - `@import` "file.css" theme(static) prefix(tw)
  *
  * @param params - The raw params string from the `@import` at-rule
- * @returns The resolved file path, or null if parsing fails
+ * @returns The import path and conditions, or null if parsing fails
  */
-function parseImportPath(params: string): string | null {
+function parseImportParams(params: string): ParsedImport | null {
   // Remove whitespace
   const trimmed = params.trim();
 
-  // Handle url() syntax
-  const urlMatch = trimmed.match(URL_IMPORT_REGEX);
-  if (urlMatch?.[1] !== undefined) {
-    return urlMatch[1];
-  }
+  // Handle url() syntax, then direct string syntax
+  const match =
+    trimmed.match(URL_IMPORT_REGEX) ?? trimmed.match(STRING_IMPORT_REGEX);
+  const path = match?.[1];
 
-  // Handle direct string syntax
-  const stringMatch = trimmed.match(STRING_IMPORT_REGEX);
-  if (stringMatch?.[1] !== undefined) {
-    return stringMatch[1];
+  if (match === null || path === undefined) {
+    return null;
   }
 
-  return null;
+  return {
+    path,
+    conditions: parseImportConditions(trimmed.slice(match[0].length)),
+  };
 }
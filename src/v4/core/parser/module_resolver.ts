@@ -0,0 +1,351 @@
+/**
+ * Module resolution for CSS `@import` specifiers
+ * Resolves relative paths, path aliases, and bare package specifiers (node_modules)
+ */
+
+import type { ImportAliases } from '../../types';
+
+import { readFile } from 'node:fs/promises';
+import { dirname, isAbsolute, join, resolve } from 'node:path';
+
+import { isRecord, isString } from '../utils/type_guards';
+
+/**
+ * package.json `exports` conditions matched for CSS imports, in addition to `default`
+ * Mirrors Tailwind's own resolver, which prefers the `style` condition
+ */
+const EXPORT_CONDITIONS = new Set(['style', 'default']);
+
+/**
+ * Number of path segments in a scoped package name (@scope/name)
+ */
+const SCOPED_NAME_SEGMENTS = 2;
+
+/**
+ * Compiled regex patterns for specifier classification (avoid recompilation on each call)
+ */
+const RELATIVE_SPECIFIER_REGEX = /^\.{1,2}(\/|$)/;
+const URL_SPECIFIER_REGEX = /^[a-z][a-z0-9+.-]*:/i;
+const ALIAS_WILDCARD_REGEX = /\/?\*$/;
+const TRAILING_SLASH_REGEX = /\/$/;
+
+/**
+ * Bare specifier split into package name and subpath
+ */
+interface PackageSpecifier {
+  /** Package name (e.g., '@acme/tokens') */
+  name: string;
+  /** Subpath in package.json `exports` form (e.g., './theme.css' or '.') */
+  subpath: string;
+}
+
+/**
+ * Normalizes an alias key or target by removing tsconfig-style wildcards and trailing slashes
+ *
+ * @param value - Alias key or target (e.g., '@/*', './src/*', '~/')
+ * @returns Normalized prefix (e.g., '@', './src', '~')
+ */
+function normalizeAliasPrefix(value: string): string {
+  return value
+    .replace(ALIAS_WILDCARD_REGEX, '')
+    .replace(TRAILING_SLASH_REGEX, '');
+}
+
+/**
+ * Resolves an aliased specifier against the alias map
+ *
+ * An alias matches when the specifier equals the key or starts with `key/`.
+ * Longer keys win, so `@/components` can override `@`.
+ *
+ * @param specifier - Import specifier (e.g., '@/styles/theme.css')
+ * @param aliases - Alias map with absolute targets
+ * @returns Aliased path, or null if no alias matches
+ *
+ * @example
+ * applyAlias('@/styles/theme.css', { '@': '/app/src' }) // '/app/src/styles/theme.css'
+ * applyAlias('@acme/tokens', { '@': '/app/src' }) // null
+ */
+export function applyAlias(
+  specifier: string,
+  aliases: ImportAliases,
+): string | null {
+  const candidates = Object.entries(aliases)
+    .map(([key, target]) => ({
+      key: normalizeAliasPrefix(key),
+      target: normalizeAliasPrefix(target),
+    }))
+    .sort((a, b) => b.key.length - a.key.length);
+
+  for (const { key, target } of candidates) {
+    if (specifier === key) {
+      return target;
+    }
+    if (specifier.startsWith(`${key}/`)) {
+      return join(target, specifier.slice(key.length + 1));
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Resolves relative alias targets to absolute paths
+ *
+ * @param aliases - Alias map as configured by the user
+ * @param rootDir - Directory relative targets are resolved against
+ * @returns Alias map with absolute targets
+ *
+ * @example
+ * resolveAliasTargets({ '@': './src' }, '/app') // { '@': '/app/src' }
+ */
+export function resolveAliasTargets(
+  aliases: ImportAliases,
+  rootDir: string,
+): ImportAliases {
+  return Object.fromEntries(
+    Object.entries(aliases).map(([key, target]) => [
+      key,
+      resolve(rootDir, target),
+    ]),
+  );
+}
+
+/**
+ * Splits a bare specifier into package name and subpath
+ *
+ * @param specifier - Bare specifier (e.g., '@acme/tokens/theme.css')
+ * @returns Package name and subpath, or null for invalid scoped names
+ */
+function parsePackageSpecifier(specifier: string): PackageSpecifier | null {
+  const segments = specifier.split('/');
+  const nameLength = specifier.startsWith('@') ? SCOPED_NAME_SEGMENTS : 1;
+
+  if (segments.length < nameLength || segments[nameLength - 1] === '') {
+    return null;
+  }
+
+  const name = segments.slice(0, nameLength).join('/');
+  const rest = segments.slice(nameLength).join('/');
+
+  return { name, subpath: rest === '' ? '.' : `./${rest}` };
+}
+
+/**
+ * Resolves a conditional `exports` target (string, array or condition object)
+ *
+ * @param target - Export target from package.json
+ * @param wildcard - Text matched by a `*` subpath pattern, substituted into the target
+ * @returns Relative target path, or null if no condition matches
+ */
+function resolveExportTarget(
+  target: unknown,
+  wildcard?: string,
+): string | null {
+  if (isString(target)) {
+    return wildcard === undefined ? target : target.replaceAll('*', wildcard);
+  }
+
+  if (Array.isArray(target)) {
+    for (const item of target) {
+      const resolved = resolveExportTarget(item, wildcard);
+      if (resolved !== null) {
+        return resolved;
+      }
+    }
+    return null;
+  }
+
+  if (isRecord(target)) {
+    // Conditions are matched in object order, as Node does
+    for (const [condition, value] of Object.entries(target)) {
+      if (EXPORT_CONDITIONS.has(condition)) {
+        const resolved = resolveExportTarget(value, wildcard);
+        if (resolved !== null) {
+          return resolved;
+        }
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Resolves a subpath through a package.json `exports` field
+ *
+ * Supports exact subpaths, `*` subpath patterns, and condition objects
+ * (the `style` and `default` conditions are matched).
+ *
+ * @param exportsField - The package.json `exports` value
+ * @param subpath - Subpath to resolve (e.g., '.' or './theme.css')
+ * @returns Relative target path, or null if the subpath is not exported
+ *
+ * @example
+ * resolvePackageExports({ '.': { style: './dist/theme.css' } }, '.') // './dist/theme.css'
+ * resolvePackageExports({ './*': './css/*' }, './colors.css') // './css/colors.css'
+ */
+export function resolvePackageExports(
+  exportsField: unknown,
+  subpath: string,
+): string | null {
+  const isSubpathMap =
+    isRecord(exportsField) &&
+    Object.keys(exportsField).some((key) => key.startsWith('.'));
+
+  // Sugar: "exports": "./index.css" or a condition object for "."
+  if (!isSubpathMap) {
+    return subpath === '.' ? resolveExportTarget(exportsField) : null;
+  }
+
+  const exact = exportsField[subpath];
+  if (exact !== undefined) {
+    return resolveExportTarget(exact);
+  }
+
+  // Subpath patterns: the longest matching prefix wins
+  const patterns = Object.keys(exportsField)
+    .filter((key) => key.includes('*'))
+    .sort((a, b) => b.length - a.length);
+
+  for (const pattern of patterns) {
+    const wildcard = matchSubpathPattern(pattern, subpath);
+    if (wildcard !== null) {
+      return resolveExportTarget(exportsField[pattern], wildcard);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Matches a subpath against an `exports` subpath pattern
+ *
+ * @param pattern - Subpath pattern containing one `*` (e.g., './css/*.css')
+ * @param subpath - Subpath to match (e.g., './css/colors.css')
+ * @returns Text matched by `*`, or null if the subpath does not match
+ */
+function matchSubpathPattern(pattern: string, subpath: string): string | null {
+  const [prefix = '', suffix = ''] = pattern.split('*');
+
+  if (
+    !subpath.startsWith(prefix) ||
+    !subpath.endsWith(suffix) ||
+    subpath.length < prefix.length + suffix.length
+  ) {
+    return null;
+  }
+
+  return subpath.slice(prefix.length, subpath.length - suffix.length);
+}
+
+/**
+ * Resolves a subpath within a package directory using its package.json
+ *
+ * @param packageDir - Absolute path to the package directory
+ * @param subpath - Subpath to resolve (e.g., '.' or './theme.css')
+ * @returns Absolute file path, or null if the package does not expose the subpath
+ */
+async function resolvePackageEntry(
+  packageDir: string,
+  subpath: string,
+): Promise<string | null> {
+  const manifest: unknown = JSON.parse(
+    await readFile(join(packageDir, 'package.json'), 'utf-8'),
+  );
+
+  if (!isRecord(manifest)) {
+    return null;
+  }
+
+  if (manifest.exports !== undefined) {
+    const target = resolvePackageExports(manifest.exports, subpath);
+    return target === null ? null : resolve(packageDir, target);
+  }
+
+  if (subpath !== '.') {
+    return resolve(packageDir, subpath);
+  }
+
+  // Packages without exports expose their stylesheet through the `style` field
+  return isString(manifest.style)
+    ? resolve(packageDir, manifest.style)
+    : resolve(packageDir, 'index.css');
+}
+
+/**
+ * Resolves a bare package specifier by walking up node_modules directories
+ *
+ * @param specifier - Bare specifier (e.g., '@acme/tokens/theme.css')
+ * @param basePath - Directory of the importing file
+ * @returns Absolute file path, or null if the package cannot be found
+ */
+async function resolvePackageSpecifier(
+  specifier: string,
+  basePath: string,
+): Promise<string | null> {
+  const parsed = parsePackageSpecifier(specifier);
+  if (parsed === null) {
+    return null;
+  }
+
+  let directory = resolve(basePath);
+
+  for (;;) {
+    const packageDir = join(directory, 'node_modules', parsed.name);
+
+    try {
+      return await resolvePackageEntry(packageDir, parsed.subpath);
+    } catch {
+      // No (readable) package here - keep walking up
+    }
+
+    const parent = dirname(directory);
+    if (parent === directory) {
+      return null;
+    }
+    directory = parent;
+  }
+}
+
+/**
+ * Resolves an `@import` specifier to an absolute file path
+ *
+ * Resolution order:
+ * 1. Relative (`./`, `../`) and absolute paths resolve against the importing file
+ * 2. Path aliases (e.g., `@/`, `~/`) are replaced with their configured targets
+ * 3. Bare specifiers (e.g., `@acme/tokens/theme.css`) resolve through node_modules,
+ *    honoring package.json `exports` (`style` and `default` conditions) and the `style` field
+ * 4. Anything else resolves against the importing file (legacy behavior)
+ *
+ * @param specifier - Import specifier from the `@import` rule
+ * @param basePath - Directory of the importing file
+ * @param aliases - Alias map with absolute targets
+ * @returns Absolute file path, or null for remote URLs and unresolvable packages
+ */
+export async function resolveImportSpecifier(
+  specifier: string,
+  basePath: string,
+  aliases: ImportAliases = {},
+): Promise<string | null> {
+  if (RELATIVE_SPECIFIER_REGEX.test(specifier) || isAbsolute(specifier)) {
+    return resolve(basePath, specifier);
+  }
+
+  // Remote and data URLs cannot be inlined
+  if (URL_SPECIFIER_REGEX.test(specifier)) {
+    return null;
+  }
+
+  const aliased = applyAlias(specifier, aliases);
+  if (aliased !== null) {
+    return resolve(basePath, aliased);
+  }
+
+  const packagePath = await resolvePackageSpecifier(specifier, basePath);
+  if (packagePath !== null) {
+    return packagePath;
+  }
+
+  // Plain file names (e.g., `@import "theme.css"`) are relative in CSS
+  return resolve(basePath, specifier);
+}
@@ -0,0 +1,219 @@
+/**
+ * Responsive variant detection for breakpoint `@media` and `@container` blocks
+ * Names variants after the matching `--breakpoint-*` / `--container-*` theme value
+ */
+
+import type { AtRule, Root } from 'postcss';
+
+import type { CSSVariable } from '../../types';
+
+import { convertLength } from '../units/normalize';
+
+/**
+ * Compiled regex patterns for width conditions (avoid recompilation on each call)
+ * Matches `(min-width: 48rem)`, `(width >= 48rem)` and their max/less-than forms,
+ * optionally preceded by a media type (`screen and`) or a container name
+ */
+const MIN_WIDTH_REGEX =
+  /^(?:([\w-]+)\s+(?:and\s+)?)?\(\s*(?:min-width\s*:|width\s*>=)\s*([^\s)]+)\s*\)$/i;
+const MAX_WIDTH_REGEX =
+  /^(?:([\w-]+)\s+(?:and\s+)?)?\(\s*(?:max-width\s*:|width\s*<)\s*([^\s)]+)\s*\)$/i;
+const BREAKPOINT_VARIABLE_REGEX = /^--breakpoint-(.+)$/;
+const CONTAINER_VARIABLE_REGEX = /^--container-(.+)$/;
+
+/**
+ * Media types allowed before a width condition in `@media`
+ */
+const MEDIA_TYPES = new Set(['all', 'screen', 'only']);
+
+/**
+ * Named breakpoint and container sizes used to name responsive variants
+ */
+export interface ResponsiveSizes {
+  /** Breakpoint name to value (e.g., { md: '48rem' }) */
+  breakpoints: Map<string, string>;
+  /** Container size name to value (e.g., { md: '28rem' }) */
+  containers: Map<string, string>;
+}
+
+/**
+ * Responsive variant derived from a `@media` or `@container` at-rule
+ */
+export interface ResponsiveVariant {
+  /** Variant name (e.g., 'md', 'max-lg', '@md', '@md/sidebar') */
+  variantName: string;
+  /** The at-rule condition (e.g., '@media (min-width: 48rem)') */
+  selector: string;
+}
+
+/**
+ * Parsed width condition from an at-rule
+ */
+interface WidthCondition {
+  /** Whether the condition is a lower (min) or upper (max) bound */
+  bound: 'min' | 'max';
+  /** Width value (e.g., '48rem') */
+  value: string;
+  /** Media type or container name preceding the condition */
+  prefix?: string;
+}
+
+/**
+ * Collects named breakpoint and container sizes from theme variables
+ *
+ * @param root - The PostCSS root (user `@theme` blocks are scanned)
+ * @param defaultVariables - Tailwind default variables (user values override them)
+ * @returns Breakpoint and container sizes by name
+ */
+export function collectResponsiveSizes(
+  root: Root,
+  defaultVariables: Array<CSSVariable> = [],
+): ResponsiveSizes {
+  const sizes: ResponsiveSizes = {
+    breakpoints: new Map(),
+    containers: new Map(),
+  };
+
+  const addSize = (name: string, value: string): void => {
+    const breakpoint = name.match(BREAKPOINT_VARIABLE_REGEX)?.[1];
+    const container = name.match(CONTAINER_VARIABLE_REGEX)?.[1];
+    const key = breakpoint ?? container;
+    const target =
+      breakpoint === undefined ? sizes.containers : sizes.breakpoints;
+
+    if (key === undefined) {
+      return;
+    }
+
+    // `--breakpoint-*: initial` clears the namespace, `--breakpoint-md: initial` one size
+    if (value === 'initial') {
+      if (key === '*') {
+        target.clear();
+      } else {
+        target.delete(key);
+      }
+      return;
+    }
+
+    target.set(key, value);
+  };
+
+  for (const variable of defaultVariables) {
+    addSize(variable.name, variable.value);
+  }
+
+  root.walkAtRules('theme', (atRule) => {
+    atRule.walkDecls((decl) => addSize(decl.prop, decl.value));
+  });
+
+  return sizes;
+}
+
+/**
+ * Parses a single width condition from at-rule params
+ *
+ * @param params - At-rule params (e.g., 'screen and (min-width: 48rem)')
+ * @returns Width condition, or null for other conditions (ranges, orientation, etc.)
+ */
+function parseWidthCondition(params: string): WidthCondition | null {
+  const trimmed = params.trim();
+  const min = trimmed.match(MIN_WIDTH_REGEX);
+  const match = min ?? trimmed.match(MAX_WIDTH_REGEX);
+  const value = match?.[2];
+
+  if (match === null || value === undefined) {
+    return null;
+  }
+
+  return { bound: min === null ? 'max' : 'min', value, prefix: match[1] };
+}
+
+/**
+ * Finds the size name whose value equals the given width
+ * Values are compared in pixels, so `48rem` matches `768px`
+ *
+ * @param sizes - Size name to value
+ * @param value - Width from the condition
+ * @returns Size name, or undefined if no size matches
+ */
+function findSizeName(
+  sizes: Map<string, string>,
+  value: string,
+): string | undefined {
+  const target = convertLength(value, 'number');
+
+  for (const [name, size] of sizes) {
+    if (size === value || convertLength(size, 'number') === target) {
+      return name;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Builds a Tailwind-style variant name for a width condition
+ *
+ * @param condition - Parsed width condition
+ * @param sizes - Named sizes to match against
+ * @returns Named variant (e.g., 'md', 'max-md') or arbitrary one (e.g., 'min-[50rem]')
+ */
+function toVariantName(
+  condition: WidthCondition,
+  sizes: Map<string, string>,
+): string {
+  const sizeName = findSizeName(sizes, condition.value);
+
+  if (sizeName === undefined) {
+    return `${condition.bound}-[${condition.value}]`;
+  }
+
+  return condition.bound === 'min' ? sizeName : `max-${sizeName}`;
+}
+
+/**
+ * Derives a responsive variant from a `@media` or `@container` at-rule
+ *
+ * - `@media (min-width: 48rem)` / `@media (width >= 48rem)` → 'md'
+ * - `@media (max-width: 48rem)` / `@media (width < 48rem)` → 'max-md'
+ * - `@container (min-width: 28rem)` → '@md', `@container sidebar (...)` → '@md/sidebar'
+ * - Widths without a named size get arbitrary names (e.g., 'min-[50rem]')
+ *
+ * @param atRule - The `@media` or `@container` at-rule
+ * @param sizes - Named breakpoint and container sizes
+ * @returns Responsive variant, or null if the at-rule is not a single width condition
+ */
+export function getResponsiveVariant(
+  atRule: AtRule,
+  sizes: ResponsiveSizes,
+): ResponsiveVariant | null {
+  const condition = parseWidthCondition(atRule.params);
+
+  if (condition === null) {
+    return null;
+  }
+
+  const selector = `@${atRule.name} ${atRule.params.trim()}`;
+
+  if (atRule.name === 'media') {
+    const mediaType = condition.prefix?.toLowerCase();
+    if (mediaType !== undefined && !MEDIA_TYPES.has(mediaType)) {
+      return null;
+    }
+    return {
+      variantName: toVariantName(condition, sizes.breakpoints),
+      selector,
+    };
+  }
+
+  if (atRule.name === 'container') {
+    const name = `@${toVariantName(condition, sizes.containers)}`;
+    return {
+      variantName:
+        condition.prefix === undefined ? name : `${name}/${condition.prefix}`,
+      selector,
+    };
+  }
+
+  return null;
+}
@@ -3,11 +3,16 @@
  * Generates human-readable and machine-readable conflict reports
  */
 
+import type { SourceLocation } from '../../types';
 import type { CSSRuleConflict } from '../analysis/conflicts';
 
 import { JSON_INDENT_SPACES } from '../constants/formatting';
 import { groupBy } from '../utils/grouping';
 import { writeReportFiles } from '../utils/report_writer';
+import {
+  formatSourceLink,
+  relativizeSourceLocation,
+} from '../utils/source_location';
 import { capitalizeFirst } from '../utils/string';
 
 /**
@@ -20,6 +25,8 @@ export interface ConflictReportMetadata {
   source: string;
   /** Package version */
   version?: string;
+  /** Directory that source location paths are relative to (defaults to absolute paths) */
+  baseDir?: string;
 }
 
 /**
@@ -55,6 +62,7 @@ export interface ConflictReportJSON {
     reason?: string;
     inMediaQuery?: boolean;
     mediaQuery?: string;
+    location?: SourceLocation;
   }>;
 }
 
@@ -151,10 +159,12 @@ function generateMarkdownSummary(summary: ConflictSummary): Array<string> {
 /**
  * Generates auto-resolved conflicts section
  * @param conflicts - All conflicts
+ * @param baseDir - Directory that source links are relative to
  * @returns Array of lines for auto-resolved section
  */
 function generateAutoResolvedSection(
   conflicts: Array<CSSRuleConflict>,
+  baseDir?: string,
 ): Array<string> {
   const lines: Array<string> = [];
   const autoResolved = conflicts.filter(
@@ -175,6 +185,11 @@ function generateAutoResolvedSection(
     for (const conflict of variantConflicts) {
       lines.push(`#### \`${conflict.themeProperty}.${conflict.themeKey}\``);
       lines.push(`- **Location:** \`${conflict.ruleSelector}\``);
+      if (conflict.location !== undefined) {
+        lines.push(
+          `- **File:** ${formatSourceLink(conflict.location, baseDir)}`,
+        );
+      }
       lines.push(`- **Variable value:** \`${conflict.variableValue}\``);
       lines.push(`- **Rule value:** \`${conflict.ruleValue}\``);
       lines.push(`- **Confidence:** ${capitalizeFirst(conflict.confidence)}`);
@@ -188,10 +203,12 @@ function generateAutoResolvedSection(
 /**
  * Generates manual review section
  * @param conflicts - All conflicts
+ * @param baseDir - Directory that source links are relative to
  * @returns Array of lines for manual review section
  */
 function generateManualReviewSection(
   conflicts: Array<CSSRuleConflict>,
+  baseDir?: string,
 ): Array<string> {
   const lines: Array<string> = [];
   const manualReview = conflicts.filter(
@@ -212,6 +229,11 @@ function generateManualReviewSection(
     for (const conflict of variantConflicts) {
       lines.push(`#### \`${conflict.themeProperty}.${conflict.themeKey}\``);
       lines.push(`- **Location:** \`${conflict.ruleSelector}\``);
+      if (conflict.location !== undefined) {
+        lines.push(
+          `- **File:** ${formatSourceLink(conflict.location, baseDir)}`,
+        );
+      }
 
       if (
         conflict.cssRule.inMediaQuery === true &&
@@ -323,8 +345,8 @@ export function generateMarkdownReport(
 
   lines.push(...generateMarkdownHeader(metadata));
   lines.push(...generateMarkdownSummary(summary));
-  lines.push(...generateAutoResolvedSection(conflicts));
-  lines.push(...generateManualReviewSection(conflicts));
+  lines.push(...generateAutoResolvedSection(conflicts, metadata.baseDir));
+  lines.push(...generateManualReviewSection(conflicts, metadata.baseDir));
   lines.push(...generateRecommendationsSection(conflicts));
   lines.push(...generateMarkdownFooter(metadata));
 
@@ -361,6 +383,10 @@ export function generateJSONReport(
       reason: c.cssRule.reason,
       inMediaQuery: c.cssRule.inMediaQuery,
       mediaQuery: c.cssRule.mediaQuery,
+      location:
+        c.location === undefined
+          ? undefined
+          : relativizeSourceLocation(c.location, metadata.baseDir),
     })),
   };
 
@@ -379,8 +405,13 @@ export async function writeConflictReports(
   conflicts: Array<CSSRuleConflict>,
   metadata: ConflictReportMetadata,
 ): Promise<{ markdown: string; json: string }> {
-  const markdownContent = generateMarkdownReport(conflicts, metadata);
-  const jsonContent = generateJSONReport(conflicts, metadata);
+  // Link source locations relative to the report files
+  const reportMetadata = {
+    ...metadata,
+    baseDir: metadata.baseDir ?? outputDir,
+  };
+  const markdownContent = generateMarkdownReport(conflicts, reportMetadata);
+  const jsonContent = generateJSONReport(conflicts, reportMetadata);
 
   return writeReportFiles(outputDir, 'conflicts', markdownContent, jsonContent);
 }
@@ -0,0 +1,305 @@
+/**
+ * Theme diff reporting
+ * Generates human-readable and machine-readable reports for token-level theme changes
+ */
+
+import type {
+  ThemeChangeType,
+  ThemeDiff,
+  TokenChange,
+  VariantChange,
+} from '../analysis/theme_diff';
+
+import { JSON_INDENT_SPACES } from '../constants/formatting';
+import { groupBy } from '../utils/grouping';
+import { capitalizeFirst } from '../utils/string';
+import { isRecord } from '../utils/type_guards';
+
+/**
+ * Metadata for theme diff report generation
+ */
+export interface ThemeDiffReportMetadata {
+  /** Timestamp when report was generated */
+  generatedAt: string;
+  /** Label of the baseline theme (e.g., 'main:src/theme.css') */
+  before: string;
+  /** Label of the compared theme (e.g., 'src/theme.css') */
+  after: string;
+  /** Package version */
+  version?: string;
+}
+
+/**
+ * Change counts for tokens or variants
+ */
+interface ChangeCounts {
+  added: number;
+  removed: number;
+  changed: number;
+}
+
+/**
+ * Summary statistics for a theme diff
+ */
+interface ThemeDiffSummary {
+  /** Token changes by kind */
+  tokens: ChangeCounts;
+  /** Variant changes by kind ('changed' counts selector changes) */
+  variants: ChangeCounts;
+}
+
+/**
+ * JSON structure for theme diff report
+ */
+export interface ThemeDiffReportJSON {
+  generatedAt: string;
+  before: string;
+  after: string;
+  version?: string;
+  summary: ThemeDiffSummary;
+  variants: Array<VariantChange>;
+  tokens: Array<TokenChange>;
+}
+
+/**
+ * Runtime type guard for theme diff report JSON structure
+ *
+ * @param data - The data to validate
+ * @returns True if the data matches ThemeDiffReportJSON structure
+ */
+export function isThemeDiffReportJSON(
+  data: unknown,
+): data is ThemeDiffReportJSON {
+  if (!isRecord(data)) {
+    return false;
+  }
+
+  return (
+    typeof data.generatedAt === 'string' &&
+    typeof data.before === 'string' &&
+    typeof data.after === 'string' &&
+    (data.version === undefined || typeof data.version === 'string') &&
+    isRecord(data.summary) &&
+    Array.isArray(data.variants) &&
+    Array.isArray(data.tokens)
+  );
+}
+
+/**
+ * Counts changes by kind
+ *
+ * @param changes - Token or variant changes
+ * @returns Change counts
+ */
+function countChanges(changes: Array<{ type: ThemeChangeType }>): ChangeCounts {
+  return {
+    added: changes.filter((c) => c.type === 'added').length,
+    removed: changes.filter((c) => c.type === 'removed').length,
+    changed: changes.filter((c) => c.type === 'changed').length,
+  };
+}
+
+/**
+ * Calculates summary statistics from a theme diff
+ *
+ * @param diff - Theme diff
+ * @returns Summary statistics
+ */
+function calculateSummary(diff: ThemeDiff): ThemeDiffSummary {
+  return {
+    tokens: countChanges(diff.tokens),
+    variants: countChanges(diff.variants),
+  };
+}
+
+/**
+ * Formats a token value or selector for inline code
+ *
+ * @param value - Token value
+ * @returns Inline code (strings as-is, other values as JSON)
+ */
+function formatValue(value: unknown): string {
+  return `\`${typeof value === 'string' ? value : JSON.stringify(value)}\``;
+}
+
+/**
+ * Formats the value part of a change line
+ *
+ * @param change - Token or variant change
+ * @returns Old value, new value, or `old → new` for changed entries
+ */
+function formatChange(change: TokenChange | VariantChange): string {
+  switch (change.type) {
+    case 'added':
+      return formatValue(change.after);
+    case 'removed':
+      return formatValue(change.before);
+    case 'changed':
+      return `${formatValue(change.before)} → ${formatValue(change.after)}`;
+  }
+}
+
+/**
+ * Generates header section of Markdown report
+ *
+ * @param metadata - Report metadata
+ * @returns Array of header lines
+ */
+function generateMarkdownHeader(
+  metadata: ThemeDiffReportMetadata,
+): Array<string> {
+  const lines: Array<string> = [];
+  lines.push('# Theme Diff\n');
+  lines.push(`**Generated:** ${metadata.generatedAt}`);
+  lines.push(`**Before:** ${metadata.before}`);
+  lines.push(`**After:** ${metadata.after}`);
+  if (metadata.version !== undefined) {
+    lines.push(`**Version:** ${metadata.version}`);
+  }
+  lines.push('');
+  return lines;
+}
+
+/**
+ * Generates summary section of Markdown report
+ *
+ * @param summary - Theme diff summary
+ * @returns Array of summary lines
+ */
+function generateMarkdownSummary(summary: ThemeDiffSummary): Array<string> {
+  const lines: Array<string> = [];
+  lines.push('## Summary\n');
+  lines.push(`- **Tokens added:** ${summary.tokens.added}`);
+  lines.push(`- **Tokens removed:** ${summary.tokens.removed}`);
+  lines.push(`- **Tokens changed:** ${summary.tokens.changed}`);
+  lines.push(`- **Variants added:** ${summary.variants.added}`);
+  lines.push(`- **Variants removed:** ${summary.variants.removed}`);
+  lines.push(`- **Selectors changed:** ${summary.variants.changed}`);
+  lines.push('\n---\n');
+  return lines;
+}
+
+/**
+ * Generates section for added, removed and re-targeted variants
+ *
+ * @param variants - Variant changes
+ * @returns Array of lines for the section
+ */
+function generateVariantsSection(
+  variants: Array<VariantChange>,
+): Array<string> {
+  const lines: Array<string> = [];
+
+  if (variants.length === 0) {
+    return lines;
+  }
+
+  lines.push('## Variants\n');
+
+  for (const change of variants) {
+    const label =
+      change.type === 'changed'
+        ? 'Selector changed'
+        : capitalizeFirst(change.type);
+    lines.push(`- **${label}** \`${change.variant}\`: ${formatChange(change)}`);
+  }
+
+  lines.push('');
+  return lines;
+}
+
+/**
+ * Generates section for token changes grouped by variant
+ *
+ * @param tokens - Token changes
+ * @returns Array of lines for the section
+ */
+function generateTokensSection(tokens: Array<TokenChange>): Array<string> {
+  const lines: Array<string> = [];
+
+  lines.push('## Tokens\n');
+
+  if (tokens.length === 0) {
+    lines.push('No token changes.\n');
+    return lines;
+  }
+
+  for (const [variant, changes] of groupBy(tokens, (t) => t.variant)) {
+    lines.push(`### \`${variant}\`\n`);
+    for (const change of changes) {
+      lines.push(
+        `- **${capitalizeFirst(change.type)}** \`${change.path}\`: ${formatChange(change)}`,
+      );
+    }
+    lines.push('');
+  }
+
+  return lines;
+}
+
+/**
+ * Generates footer section
+ *
+ * @param metadata - Report metadata
+ * @returns Array of footer lines
+ */
+function generateMarkdownFooter(
+  metadata: ThemeDiffReportMetadata,
+): Array<string> {
+  const lines: Array<string> = [];
+  lines.push('---\n');
+  if (metadata.version !== undefined) {
+    lines.push(`_Generated by tailwind-resolver v${metadata.version}_`);
+  } else {
+    lines.push('_Generated by tailwind-resolver_');
+  }
+  lines.push('');
+  return lines;
+}
+
+/**
+ * Generates Markdown report from a theme diff
+ *
+ * @param diff - Theme diff
+ * @param metadata - Report metadata
+ * @returns Markdown content
+ */
+export function generateMarkdownReport(
+  diff: ThemeDiff,
+  metadata: ThemeDiffReportMetadata,
+): string {
+  const summary = calculateSummary(diff);
+  const lines: Array<string> = [];
+
+  lines.push(...generateMarkdownHeader(metadata));
+  lines.push(...generateMarkdownSummary(summary));
+  lines.push(...generateVariantsSection(diff.variants));
+  lines.push(...generateTokensSection(diff.tokens));
+  lines.push(...generateMarkdownFooter(metadata));
+
+  return lines.join('\n');
+}
+
+/**
+ * Generates JSON report from a theme diff
+ *
+ * @param diff - Theme diff
+ * @param metadata - Report metadata
+ * @returns JSON content
+ */
+export function generateJSONReport(
+  diff: ThemeDiff,
+  metadata: ThemeDiffReportMetadata,
+): string {
+  const report: ThemeDiffReportJSON = {
+    generatedAt: metadata.generatedAt,
+    before: metadata.before,
+    after: metadata.after,
+    version: metadata.version,
+    summary: calculateSummary(diff),
+    variants: diff.variants,
+    tokens: diff.tokens,
+  };
+
+  return JSON.stringify(report, null, JSON_INDENT_SPACES);
+}
@@ -3,6 +3,7 @@
  * Generates human-readable and machine-readable reports for unresolved var() references
  */
 
+import type { SourceLocation } from '../../types';
 import type {
   UnresolvedCause,
   UnresolvedVariable,
@@ -11,6 +12,10 @@ import type {
 import { groupByLikelyCause } from '../analysis/unresolved';
 import { JSON_INDENT_SPACES } from '../constants/formatting';
 import { writeReportFiles } from '../utils/report_writer';
+import {
+  formatSourceLink,
+  relativizeSourceLocation,
+} from '../utils/source_location';
 import { capitalizeFirst } from '../utils/string';
 
 /**
@@ -23,6 +28,8 @@ export interface UnresolvedReportMetadata {
   source: string;
   /** Package version */
   version?: string;
+  /** Directory that source location paths are relative to (defaults to absolute paths) */
+  baseDir?: string;
 }
 
 /**
@@ -56,6 +63,7 @@ export interface UnresolvedReportJSON {
     variantName?: string;
     selector?: string;
     likelyCause: UnresolvedCause;
+    location?: SourceLocation;
   }>;
 }
 
@@ -198,10 +206,12 @@ function formatCause(cause: UnresolvedCause): string {
  * Generates section for unresolved variables grouped by cause
  *
  * @param unresolved - Array of unresolved variables
+ * @param baseDir - Directory that source links are relative to
  * @returns Array of lines for the section
  */
 function generateUnresolvedSection(
   unresolved: Array<UnresolvedVariable>,
+  baseDir?: string,
 ): Array<string> {
   const lines: Array<string> = [];
 
@@ -248,6 +258,10 @@ function generateUnresolvedSection(
         lines.push(`- **Selector:** \`${item.selector}\``);
       }
 
+      if (item.location !== undefined) {
+        lines.push(`- **File:** ${formatSourceLink(item.location, baseDir)}`);
+      }
+
       lines.push(`- **Action:** ${getSuggestedAction(cause)}\n`);
     }
   }
@@ -333,7 +347,7 @@ export function generateMarkdownReport(
 
   lines.push(...generateMarkdownHeader(metadata));
   lines.push(...generateMarkdownSummary(summary));
-  lines.push(...generateUnresolvedSection(unresolved));
+  lines.push(...generateUnresolvedSection(unresolved, metadata.baseDir));
   lines.push(...generateRecommendationsSection(summary));
   lines.push(...generateMarkdownFooter(metadata));
 
@@ -367,6 +381,10 @@ export function generateJSONReport(
       variantName: u.variantName,
       selector: u.selector,
       likelyCause: u.likelyCause,
+      location:
+        u.location === undefined
+          ? undefined
+          : relativizeSourceLocation(u.location, metadata.baseDir),
     })),
   };
 
@@ -386,8 +404,13 @@ export async function writeUnresolvedReports(
   unresolved: Array<UnresolvedVariable>,
   metadata: UnresolvedReportMetadata,
 ): Promise<{ markdown: string; json: string }> {
-  const markdownContent = generateMarkdownReport(unresolved, metadata);
-  const jsonContent = generateJSONReport(unresolved, metadata);
+  // Link source locations relative to the report files
+  const reportMetadata = {
+    ...metadata,
+    baseDir: metadata.baseDir ?? outputDir,
+  };
+  const markdownContent = generateMarkdownReport(unresolved, reportMetadata);
+  const jsonContent = generateJSONReport(unresolved, reportMetadata);
 
   return writeReportFiles(
     outputDir,
@@ -25,6 +25,7 @@ import {
 } from '../analysis/conflicts';
 import { detectUnresolvedVariables } from '../analysis/unresolved';
 import {
+  hasThemeMode,
   kebabToCamelCase,
   parseFontSizeLineHeight,
   parseNestedKey,
@@ -335,6 +336,52 @@ const NAMESPACE_MAP: Record<string, NamespaceMapping> = {
   animate: { property: 'animations' },
 };
 
+/**
+ * Computes where a namespaced variable is placed in the theme
+ * Mirrors the placement done by the namespace processors in buildTheme
+ *
+ * @param variableName - CSS variable name (e.g., '--color-red-500')
+ * @param nestingConfig - Optional nesting configuration
+ * @returns Theme path (e.g., ['colors', 'red', '500']), or null if the variable is not placed
+ *
+ * @example
+ * getVariableThemePath('--color-red-500') // ['colors', 'red', '500']
+ * getVariableThemePath('--text-xl--line-height') // ['fontSize', 'xl', 'lineHeight']
+ * getVariableThemePath('--background') // null (no theme namespace)
+ */
+export function getVariableThemePath(
+  variableName: string,
+  nestingConfig?: NestingOptions,
+): Array<string> | null {
+  const parsed = parseVariableName(variableName);
+  const mapping = parsed === null ? undefined : NAMESPACE_MAP[parsed.namespace];
+  if (parsed === null || mapping === undefined) {
+    return null;
+  }
+
+  const { namespace, key } = parsed;
+
+  if (namespace === 'text') {
+    const lineHeightKey = parseFontSizeLineHeight(key);
+    return lineHeightKey === null
+      ? ['fontSize', key, 'size']
+      : ['fontSize', lineHeightKey, 'lineHeight'];
+  }
+
+  if (namespace === 'default') {
+    return ['defaults', kebabToCamelCase(key)];
+  }
+
+  const nested = parseNestedKey(
+    key,
+    resolveNestingConfig(namespace, nestingConfig),
+  );
+
+  return nested === null
+    ? [mapping.property, kebabToCamelCase(key)]
+    : [mapping.property, ...nested.parts];
+}
+
 /**
  * Creates an empty theme object with all properties initialized
  *
@@ -378,6 +425,11 @@ function buildReferenceMap(
   const referenceMap = new Map<string, VariableReference>();
 
   for (const variable of themeVariables) {
+    // Reference themes only feed resolution, they never place values
+    if (hasThemeMode(variable, 'reference')) {
+      continue;
+    }
+
     const varRef = extractVarReference(variable.value);
     if (varRef === null) {
       continue;
@@ -482,6 +534,27 @@ function separateVariablesBySource(variables: Array<CSSVariable>): {
   return { themeVariables, rootVariables, variantVariables };
 }
 
+/**
+ * Moves variables from `@theme default` blocks before all other theme variables
+ *
+ * Default values are overridable: any plain `@theme` declaration wins over a
+ * `@theme default` declaration of the same variable, regardless of source order.
+ *
+ * @param themeVariables - Variables from @theme blocks in source order
+ * @returns Variables with default-mode variables first (stable within each group)
+ */
+function prioritizeDefaultThemeVariables(
+  themeVariables: Array<CSSVariable>,
+): Array<CSSVariable> {
+  const defaults = themeVariables.filter((v) => hasThemeMode(v, 'default'));
+  if (defaults.length === 0 || defaults.length === themeVariables.length) {
+    return themeVariables;
+  }
+
+  const overrides = themeVariables.filter((v) => !hasThemeMode(v, 'default'));
+  return [...defaults, ...overrides];
+}
+
 /**
  * Deduplicates variables by name, keeping last occurrence
  *
@@ -647,7 +720,7 @@ function getOrCreateVariantResolutionMap(
 }
 
 /**
- * Logs debug messages to console
+ * Logs debug messages to stderr (stdout stays free for CLI output)
  *
  * @param logs - Array of log messages
  * @param debug - Whether debug logging is enabled
@@ -658,7 +731,7 @@ function logDebugMessages(logs: Array<string>, debug: boolean): void {
   }
 
   for (const log of logs) {
-    console.log(log);
+    console.warn(log);
   }
 }
 
@@ -720,10 +793,9 @@ function resolveVariable(
   }
 
   const resolvedValue = resolveVarReferences(variable.value, resolveMap);
-  return {
-    ...variable,
-    value: resolvedValue,
-  };
+  return resolvedValue === variable.value
+    ? { ...variable }
+    : { ...variable, value: resolvedValue, rawValue: variable.value };
 }
 
 /**
@@ -768,7 +840,9 @@ export function buildThemes(
   const { themeVariables, rootVariables, variantVariables } =
     separateVariablesBySource(variables);
 
-  const dedupedThemeVars = deduplicateByName(themeVariables);
+  const dedupedThemeVars = deduplicateByName(
+    prioritizeDefaultThemeVariables(themeVariables),
+  );
   const dedupedRootVars = deduplicateByName(rootVariables);
 
   // Use original default variables if provided (preserves variable names)
@@ -978,6 +1052,11 @@ function buildTheme(
   const helpers: ProcessorHelpers = { fontSizeLineHeights, nestingConfig };
 
   for (const variable of variables) {
+    // `@theme reference` variables are available for var() resolution only
+    if (hasThemeMode(variable, 'reference')) {
+      continue;
+    }
+
     // Handle 'initial' values by removing matching properties from theme
     // This respects CSS cascade order: initial overrides earlier values
     if (variable.value.trim() === 'initial') {
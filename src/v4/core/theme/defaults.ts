@@ -30,7 +30,8 @@ interface ThemeCache {
 
 /**
  * Cache for Tailwind's default theme
- * Keyed by base path to support multiple projects in the same process
+ * Keyed by the resolved theme.css path, so projects (or monorepo entries) sharing
+ * one Tailwind install parse it once
  */
 const defaultThemeCache = new Map<string, ThemeCache>();
 
@@ -73,7 +74,7 @@ function createNestingCacheKey(nestingConfig?: NestingOptions): string {
 /**
  * Attempts to load Tailwind's default theme from node_modules
  *
- * Results are cached per base path and nesting configuration with timestamp validation
+ * Results are cached per resolved theme.css and nesting configuration with timestamp validation
  * to detect package updates. This significantly improves performance for repeated calls
  * while ensuring updates are detected.
  *
@@ -100,9 +101,9 @@ export async function loadTailwindDefaults(
 
     // Create a cache key that includes nesting configuration
     const nestingKey = createNestingCacheKey(nestingConfig);
-    const cacheKey = `${basePath}:${nestingKey}`;
+    const cacheKey = `${themePath}:${nestingKey}`;
 
-    // Check if we have a valid cache for this base path and nesting config
+    // Check if we have a valid cache for this theme.css and nesting config
     const cached = defaultThemeCache.get(cacheKey);
     if (cached?.path === themePath && cached.nestingKey === nestingKey) {
       // Validate cache by checking file modification time
@@ -116,7 +117,7 @@ export async function loadTailwindDefaults(
       const themeCSS = await readFile(themePath, 'utf-8');
 
       // Parse it
-      const root = postcss.parse(themeCSS);
+      const root = postcss.parse(themeCSS, { from: themePath });
 
       // Extract variables, keyframes, and CSS rules
       const { variables, keyframes, cssRules } = extractVariables(root);
@@ -152,7 +153,7 @@ export async function loadTailwindDefaults(
     ]);
 
     // Parse it
-    const root = postcss.parse(themeCSS);
+    const root = postcss.parse(themeCSS, { from: themePath });
 
     // Extract variables, keyframes, and CSS rules
     const { variables, keyframes, cssRules } = extractVariables(root);
@@ -199,6 +200,11 @@ export async function loadTailwindDefaults(
 /**
  * Deep merges two themes, with userTheme taking precedence
  *
+ * `@theme default` precedence is applied earlier, when the user theme is built
+ * (see buildThemes): a built theme no longer carries theme modes, and Tailwind's
+ * own defaults are `@theme default` declarations that come first in source order,
+ * so every user value wins here regardless of its mode.
+ *
  * @param defaultTheme - The base theme (Tailwind defaults)
  * @param userTheme - The user's theme (overrides)
  * @param options - Controls which properties to merge from defaults (default: all enabled)
@@ -187,7 +187,7 @@ function isOverrideValue(value: unknown): value is OverrideValue {
  * @param depth - Current recursion depth
  * @returns Array of parsed overrides
  */
-function parseOverrideConfig(
+export function parseOverrideConfig(
   config: OverrideConfig,
   currentPath: Array<string> = [],
   depth = 0,
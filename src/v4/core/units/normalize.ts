@@ -0,0 +1,275 @@
+/**
+ * Unit normalization for resolved theme values
+ * Converts lengths to px/rem/numbers and animation durations to ms/s
+ */
+
+import type {
+  LengthThemeProperty,
+  NormalizedFontSizes,
+  NormalizedLengths,
+  NormalizedTheme,
+  Theme,
+  UnitsOptions,
+} from '../../types';
+
+import { DEFAULT_ROOT_FONT_SIZE } from '../math/evaluator';
+import { isRecord } from '../utils/type_guards';
+
+/**
+ * Compiled regex patterns for unit conversion (avoid recompilation on each call)
+ * TIME_VALUE_REGEX_GLOBAL matches durations embedded in animation shorthands
+ */
+const LENGTH_VALUE_REGEX = /^(-?(?:\d+\.?\d*|\.\d+))(px|rem)?$/i;
+const TIME_VALUE_REGEX_GLOBAL =
+  /(?<![\w.-])(-?(?:\d+\.?\d*|\.\d+))(ms|s)(?![\w-])/gi;
+
+/**
+ * Decimal precision used when serializing converted values
+ */
+const OUTPUT_PRECISION = 10000;
+const MS_PER_SECOND = 1000;
+
+/**
+ * Theme properties whose values are lengths
+ */
+export const LENGTH_PROPERTIES = [
+  'spacing',
+  'radius',
+  'breakpoints',
+  'containers',
+  'tracking',
+  'blur',
+] as const satisfies ReadonlyArray<LengthThemeProperty>;
+
+/**
+ * Rounds a converted value, normalizing negative zero
+ *
+ * @param value - Value to round
+ * @returns Rounded value
+ */
+function round(value: number): number {
+  return Math.round(value * OUTPUT_PRECISION) / OUTPUT_PRECISION + 0;
+}
+
+/**
+ * Resolves a plain length value to pixels
+ *
+ * @param value - CSS length value
+ * @param rootFontSize - Root font size in pixels for rem conversion
+ * @returns Length in pixels, or null if the value is not a plain length
+ */
+function toPixels(value: string, rootFontSize: number): number | null {
+  const match = value.trim().match(LENGTH_VALUE_REGEX);
+
+  if (match === null) {
+    return null;
+  }
+
+  const amount = parseFloat(match[1] ?? '');
+  const unit = match[2]?.toLowerCase();
+
+  // Unitless values are only lengths when they are zero
+  if (unit === undefined) {
+    return amount === 0 ? 0 : null;
+  }
+
+  return unit === 'px' ? amount : amount * rootFontSize;
+}
+
+/**
+ * Converts a single length value to the target unit
+ *
+ * Only plain lengths in px or rem (and unitless zero) are converted. em is
+ * relative to the font size of the element using the token (e.g., tracking),
+ * so em values are returned unchanged like calc(), % and keywords.
+ *
+ * @param value - CSS length value (e.g., '0.25rem')
+ * @param target - Target unit ('number' yields raw pixel numbers)
+ * @param rootFontSize - Root font size in pixels for rem conversion
+ * @returns Converted value, or the original value if it is not a plain length
+ *
+ * @example
+ * convertLength('0.25rem', 'px') // '4px'
+ * convertLength('0.25rem', 'number') // 4
+ * convertLength('24px', 'rem') // '1.5rem'
+ * convertLength('-0.025em', 'px') // '-0.025em'
+ * convertLength('calc(100vw - 2rem)', 'px') // 'calc(100vw - 2rem)'
+ */
+export function convertLength(
+  value: string,
+  target: NonNullable<UnitsOptions['length']>,
+  rootFontSize = DEFAULT_ROOT_FONT_SIZE,
+): string | number {
+  const pixels = toPixels(value, rootFontSize);
+
+  if (pixels === null) {
+    return value;
+  }
+
+  if (target === 'number') {
+    return round(pixels);
+  }
+
+  return target === 'px'
+    ? `${round(pixels)}px`
+    : `${round(pixels / rootFontSize)}rem`;
+}
+
+/**
+ * Converts every duration within a value to the target time unit
+ *
+ * @param value - CSS value containing durations (e.g., 'spin 1s linear infinite')
+ * @param target - Target time unit
+ * @returns Value with durations converted
+ *
+ * @example
+ * convertTimes('spin 1s linear infinite', 'ms') // 'spin 1000ms linear infinite'
+ * convertTimes('150ms', 's') // '0.15s'
+ */
+export function convertTimes(
+  value: string,
+  target: NonNullable<UnitsOptions['time']>,
+): string {
+  return value.replace(
+    TIME_VALUE_REGEX_GLOBAL,
+    (_match, amount: string, unit: string) => {
+      const milliseconds =
+        unit.toLowerCase() === 's'
+          ? parseFloat(amount) * MS_PER_SECOND
+          : parseFloat(amount);
+
+      return target === 'ms'
+        ? `${round(milliseconds)}ms`
+        : `${round(milliseconds / MS_PER_SECOND)}s`;
+    },
+  );
+}
+
+/**
+ * Converts length values within a (possibly nested) record
+ *
+ * @param record - Record of length values
+ * @param target - Target length unit
+ * @param rootFontSize - Root font size in pixels
+ * @returns New record with converted values
+ */
+function convertLengthRecord(
+  record: NormalizedLengths,
+  target: NonNullable<UnitsOptions['length']>,
+  rootFontSize: number,
+): NormalizedLengths {
+  const result: NormalizedLengths = {};
+
+  for (const [key, value] of Object.entries(record)) {
+    if (typeof value === 'string') {
+      result[key] = convertLength(value, target, rootFontSize);
+    } else if (typeof value === 'number') {
+      result[key] = value;
+    } else {
+      result[key] = convertLengthRecord(value, target, rootFontSize);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Converts font sizes (and line heights expressed as lengths)
+ * Unitless line-height ratios are left unchanged
+ *
+ * @param fontSize - Theme font sizes
+ * @param target - Target length unit
+ * @param rootFontSize - Root font size in pixels
+ * @returns New font size record with converted values
+ */
+function convertFontSizes(
+  fontSize: Theme['fontSize'],
+  target: NonNullable<UnitsOptions['length']>,
+  rootFontSize: number,
+): NormalizedFontSizes {
+  const result: NormalizedFontSizes = {};
+
+  for (const [key, config] of Object.entries(fontSize)) {
+    const lineHeight =
+      config.lineHeight === undefined
+        ? undefined
+        : convertLineHeight(config.lineHeight, target, rootFontSize);
+
+    result[key] = {
+      ...config,
+      size: convertLength(config.size, target, rootFontSize),
+      ...(lineHeight !== undefined && { lineHeight }),
+    };
+  }
+
+  return result;
+}
+
+/**
+ * Converts a line height only when it has an explicit length unit
+ *
+ * @param lineHeight - Line height value
+ * @param target - Target length unit
+ * @param rootFontSize - Root font size in pixels
+ * @returns Converted line height, or the original ratio
+ */
+function convertLineHeight(
+  lineHeight: string,
+  target: NonNullable<UnitsOptions['length']>,
+  rootFontSize: number,
+): string | number {
+  const unit = lineHeight.trim().match(LENGTH_VALUE_REGEX)?.[2];
+  return unit === undefined
+    ? lineHeight
+    : convertLength(lineHeight, target, rootFontSize);
+}
+
+/**
+ * Normalizes length and time units across a theme
+ * Returns a new theme; the input (which may be a cached default theme) is never mutated
+ *
+ * Length conversion applies to spacing, radius, breakpoints, containers,
+ * fontSize, tracking and blur. Time conversion applies to animations.
+ *
+ * @param theme - Resolved theme
+ * @param options - Target units and root font size
+ * @returns New theme with converted values (numbers with `length: 'number'`)
+ *
+ * @example
+ * normalizeThemeUnits(theme, { length: 'number', time: 'ms' });
+ * // spacing.base: '0.25rem' → 4
+ * // animations.spin: 'spin 1s linear infinite' → 'spin 1000ms linear infinite'
+ */
+export function normalizeThemeUnits(
+  theme: Theme,
+  options: UnitsOptions,
+): NormalizedTheme {
+  const { length, time, rootFontSize = DEFAULT_ROOT_FONT_SIZE } = options;
+  const result: NormalizedTheme = { ...theme };
+
+  if (length !== undefined) {
+    for (const property of LENGTH_PROPERTIES) {
+      // Variant themes only contain the properties they override
+      if (isRecord(theme[property])) {
+        result[property] = convertLengthRecord(
+          theme[property],
+          length,
+          rootFontSize,
+        );
+      }
+    }
+    if (isRecord(theme.fontSize)) {
+      result.fontSize = convertFontSizes(theme.fontSize, length, rootFontSize);
+    }
+  }
+
+  if (time !== undefined && isRecord(theme.animations)) {
+    const animations: Record<string, string> = {};
+    for (const [key, value] of Object.entries(theme.animations)) {
+      animations[key] = convertTimes(value, time);
+    }
+    result.animations = animations;
+  }
+
+  return result;
+}
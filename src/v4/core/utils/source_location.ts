@@ -0,0 +1,98 @@
+/**
+ * Source location utilities
+ * Reads declaration positions from PostCSS nodes and formats them for reports
+ */
+
+import type { Node } from 'postcss';
+
+import type { SourceLocation } from '../../types';
+
+import { relative, sep } from 'node:path';
+
+/**
+ * Reads the source location of a PostCSS node
+ *
+ * The file comes from the `from` option of the parse that created the node,
+ * so declarations inlined by `@import` resolution keep their original file.
+ *
+ * @param node - PostCSS node (declaration, rule or at-rule)
+ * @returns Source location, or undefined if the node has no position
+ */
+export function getSourceLocation(node: Node): SourceLocation | undefined {
+  const start = node.source?.start;
+
+  if (start === undefined) {
+    return undefined;
+  }
+
+  const file = node.source?.input.file;
+
+  return {
+    ...(file !== undefined && { file }),
+    line: start.line,
+    column: start.column,
+  };
+}
+
+/**
+ * Makes a location's file path relative to a directory
+ * Paths use forward slashes so they work as Markdown links on every platform
+ *
+ * @param location - Source location
+ * @param baseDir - Directory to make the path relative to (undefined keeps it absolute)
+ * @returns Source location with a relative file path
+ */
+export function relativizeSourceLocation(
+  location: SourceLocation,
+  baseDir?: string,
+): SourceLocation {
+  if (location.file === undefined || baseDir === undefined) {
+    return location;
+  }
+
+  return {
+    ...location,
+    file: relative(baseDir, location.file).split(sep).join('/'),
+  };
+}
+
+/**
+ * Formats a source location as `file:line:column`
+ *
+ * @param location - Source location
+ * @returns Formatted location (`line:column` for inline CSS)
+ *
+ * @example
+ * formatSourceLocation({ file: 'theme.css', line: 4, column: 3 }) // 'theme.css:4:3'
+ */
+export function formatSourceLocation(location: SourceLocation): string {
+  const position = `${location.line}:${location.column}`;
+  return location.file === undefined
+    ? position
+    : `${location.file}:${position}`;
+}
+
+/**
+ * Formats a source location as a Markdown link to the declaring line
+ *
+ * @param location - Source location
+ * @param baseDir - Directory the Markdown file lives in (link paths are relative to it)
+ * @returns Markdown link, or inline code for inline CSS without a file
+ *
+ * @example
+ * formatSourceLink({ file: '/app/src/theme.css', line: 4, column: 3 }, '/app/src/generated')
+ * // '[../theme.css:4:3](../theme.css#L4)'
+ */
+export function formatSourceLink(
+  location: SourceLocation,
+  baseDir?: string,
+): string {
+  const relativeLocation = relativizeSourceLocation(location, baseDir);
+  const label = formatSourceLocation(relativeLocation);
+
+  if (relativeLocation.file === undefined) {
+    return `\`${label}\``;
+  }
+
+  return `[${label}](${encodeURI(relativeLocation.file)}#L${relativeLocation.line})`;
+}
@@ -27,3 +27,19 @@ export function capitalizeFirst(str: string): string {
 
   return str.charAt(0).toUpperCase() + str.slice(1);
 }
+
+/**
+ * Converts a camelCase string to kebab-case
+ *
+ * @param str - Input string
+ * @returns Kebab-case string
+ *
+ * @example
+ * ```typescript
+ * camelToKebabCase('lineHeight'); // 'line-height'
+ * camelToKebabCase('2xl'); // '2xl'
+ * ```
+ */
+export function camelToKebabCase(str: string): string {
+  return str.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase();
+}
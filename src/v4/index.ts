@@ -19,20 +19,94 @@
  * ```
  */
 
+import type { CSSRuleConflict, ThemeDiff, TokenExplanation } from './core';
 import type {
+  ColorFormat,
+  DiffThemeOptions,
+  ExplainTokenOptions,
+  FoldedExpression,
+  NormalizedTheme,
   ParseOptions,
   TailwindResult,
   Theme,
+  ThemeDiffSource,
+  UnitsOptions,
   UnknownTailwind,
 } from './types';
 
+import { existsSync } from 'node:fs';
+import path from 'node:path';
+
 import {
+  diffThemes,
+  explainTokenResolution,
+  extractCSS,
   extractInitialExclusions,
   filterThemeByExclusions,
+  foldThemeMath,
+  formatThemeColors,
+  getRootFontSize,
+  getTokenValue,
   loadTailwindDefaults,
   mergeThemes,
+  normalizeThemeUnits,
   parseCSS,
 } from './core';
+import { resolveAliasTargets } from './core/parser/module_resolver';
+import { isRecord } from './core/utils/type_guards';
+import { GitRevisionError, withRevisionCheckout } from './shared/git';
+
+/**
+ * Output transforms applied to each resolved variant theme
+ */
+interface ThemeTransforms {
+  /** Target color format (undefined keeps colors as authored) */
+  colorFormat?: ColorFormat;
+  /** Root font size for math folding (undefined disables folding) */
+  rootFontSize?: number;
+  /** Collects values folded by math evaluation */
+  foldedExpressions: Array<FoldedExpression>;
+  /** Target units (undefined keeps units as authored) */
+  units?: UnitsOptions;
+}
+
+/**
+ * Applies output transforms (color format, math folding, units) to a resolved theme
+ * Always returns new objects so cached Tailwind defaults are never mutated
+ *
+ * @param theme - Resolved variant theme
+ * @param variantName - Variant name ('default' for the base theme)
+ * @param transforms - Transforms to apply
+ * @returns Transformed theme (or the input theme if no transforms are enabled)
+ */
+function transformTheme(
+  theme: Theme,
+  variantName: string,
+  transforms: ThemeTransforms,
+): Theme | NormalizedTheme {
+  let result = theme;
+
+  if (transforms.colorFormat !== undefined) {
+    result = {
+      ...result,
+      colors: formatThemeColors(result.colors, transforms.colorFormat),
+    };
+  }
+
+  if (transforms.rootFontSize !== undefined) {
+    result = foldThemeMath(
+      result,
+      variantName,
+      transforms.rootFontSize,
+      transforms.foldedExpressions,
+    );
+  }
+
+  // Units run after folding so folded calc() results are converted too
+  return transforms.units === undefined
+    ? result
+    : normalizeThemeUnits(result, transforms.units);
+}
 
 /**
  * Resolves theme variables from Tailwind v4 CSS files with full type safety
@@ -92,7 +166,14 @@ import {
 export async function resolveTheme<TTailwind = UnknownTailwind>(
   options: ParseOptions,
 ): Promise<TailwindResult<TTailwind>> {
-  const { includeDefaults = true, basePath, nesting } = options;
+  const {
+    includeDefaults = true,
+    basePath,
+    nesting,
+    colorFormat,
+    evaluateMath = false,
+    units,
+  } = options;
 
   // Parse user's theme (returns ParseResult<Theme> from internal parser)
   const userResult = await parseCSS(options);
@@ -142,9 +223,19 @@ export async function resolveTheme<TTailwind = UnknownTailwind>(
     }
   }
 
+  // Output transforms applied to every variant theme
+  const foldedExpressions: Array<FoldedExpression> = [];
+  const transforms: ThemeTransforms = {
+    colorFormat,
+    rootFontSize:
+      evaluateMath === false ? undefined : getRootFontSize(evaluateMath),
+    foldedExpressions,
+    units,
+  };
+
   // Build variants object with default variant
   const variants: Record<string, unknown> = {
-    default: finalTheme,
+    default: transformTheme(finalTheme, 'default', transforms),
   };
 
   const selectors: Record<string, string> = {
@@ -155,7 +246,11 @@ export async function resolveTheme<TTailwind = UnknownTailwind>(
   for (const [variantName, variantData] of Object.entries(
     userResult.variants,
   )) {
-    variants[variantName] = variantData.theme;
+    variants[variantName] = transformTheme(
+      variantData.theme,
+      variantName,
+      transforms,
+    );
     selectors[variantName] = variantData.selector;
   }
 
@@ -168,9 +263,194 @@ export async function resolveTheme<TTailwind = UnknownTailwind>(
     deprecationWarnings: userResult.deprecationWarnings,
     cssConflicts: userResult.cssConflicts,
     unresolvedVariables: userResult.unresolvedVariables,
+    ...(transforms.rootFontSize !== undefined && { foldedExpressions }),
   } as TailwindResult<TTailwind>;
 }
 
+/**
+ * Resolves one side of a theme comparison, checking out its git revision if given
+ *
+ * @param source - CSS file path, optionally at a git revision
+ * @param options - Shared resolution options
+ * @returns Resolved theme
+ * @throws GitRevisionError if the revision cannot be checked out or lacks the input file
+ */
+async function resolveDiffSource(
+  source: ThemeDiffSource,
+  options: Omit<DiffThemeOptions, 'before' | 'after'>,
+): Promise<TailwindResult> {
+  const { input, revision } =
+    typeof source === 'string'
+      ? { input: source, revision: undefined }
+      : source;
+  const inputPath = path.resolve(input);
+
+  if (revision === undefined) {
+    return resolveTheme({ ...options, input: inputPath });
+  }
+
+  // The input may only exist at the revision, so fall back to the cwd to locate the repository
+  const inputDir = path.dirname(inputPath);
+  const repoDir = existsSync(inputDir) ? inputDir : process.cwd();
+
+  return withRevisionCheckout(repoDir, revision, async (checkout) => {
+    const revisionInput = checkout.resolvePath(inputPath);
+    if (!existsSync(revisionInput)) {
+      throw new GitRevisionError(
+        revision,
+        `${path.relative(checkout.root, inputPath)} does not exist at this revision`,
+      );
+    }
+
+    // Aliases pointing into the repository follow the checkout
+    const aliases =
+      options.aliases === undefined
+        ? undefined
+        : Object.fromEntries(
+            Object.entries(
+              resolveAliasTargets(options.aliases, process.cwd()),
+            ).map(([key, target]) => [key, checkout.resolvePath(target)]),
+          );
+
+    return resolveTheme({
+      ...options,
+      input: revisionInput,
+      aliases,
+      // Tailwind defaults come from the working tree's node_modules
+      basePath: options.basePath ?? process.cwd(),
+    });
+  });
+}
+
+/**
+ * Compares two themes per variant and token path
+ *
+ * Resolves both sides with `resolveTheme` and reports added, removed and changed
+ * tokens, plus variants that were added, removed or moved to another selector.
+ * Either side can be read from a git revision, which is checked out into a
+ * temporary worktree (untracked files such as node_modules are not included).
+ *
+ * @param options - Both sides of the comparison and shared resolution options
+ * @returns Variant and token changes; both empty when the themes are equal
+ * @throws GitRevisionError if a revision cannot be checked out or lacks the input file
+ * @throws Error if an input file cannot be read
+ *
+ * @example
+ * ```typescript
+ * import { diffTheme } from 'tailwind-resolver';
+ *
+ * // What changed since main?
+ * const diff = await diffTheme({
+ *   before: { input: './src/theme.css', revision: 'main' },
+ *   after: './src/theme.css',
+ * });
+ *
+ * for (const token of diff.tokens) {
+ *   console.log(token.variant, token.path, token.before, '→', token.after);
+ * }
+ * ```
+ */
+export async function diffTheme(options: DiffThemeOptions): Promise<ThemeDiff> {
+  const { before, after, ...shared } = options;
+
+  const beforeResult = await resolveDiffSource(before, shared);
+  const afterResult = await resolveDiffSource(after, shared);
+
+  return diffThemes(beforeResult, afterResult);
+}
+
+/**
+ * Finds the variant name for a variant name or CSS selector
+ *
+ * @param selectors - Selectors keyed by variant name
+ * @param variant - Variant name or CSS selector
+ * @returns Variant name
+ * @throws Error if no variant matches
+ */
+function findVariantName(
+  selectors: Record<string, string>,
+  variant: string,
+): string {
+  const name =
+    variant in selectors
+      ? variant
+      : Object.keys(selectors).find((key) => selectors[key] === variant);
+
+  if (name === undefined) {
+    throw new Error(
+      `Unknown variant "${variant}". Available variants: ${Object.keys(selectors).join(', ')}`,
+    );
+  }
+
+  return name;
+}
+
+/**
+ * Explains how a single token was resolved
+ *
+ * Resolves the theme with `resolveTheme`, then traces the token back through
+ * the CSS: the variable that places it, every var() hop with the source that
+ * supplied it (`theme`, `root`, `variant`, Tailwind `defaults` or an
+ * `override`), and any conflict auto-resolution or override applied on top.
+ * Hops declared in a file include their source location.
+ *
+ * @param options - Parse options plus the token path and variant
+ * @returns Final value and resolution chain of the token
+ * @throws Error if the variant does not exist
+ * @throws Error if the token does not exist or is a group of tokens
+ *
+ * @example
+ * ```typescript
+ * import { explainToken } from 'tailwind-resolver';
+ *
+ * const explanation = await explainToken({
+ *   input: './src/theme.css',
+ *   path: 'colors.primary',
+ *   variant: 'dark',
+ * });
+ *
+ * for (const step of explanation.chain) {
+ *   console.log(step.variable, step.value, step.source, step.location);
+ * }
+ * ```
+ */
+export async function explainToken(
+  options: ExplainTokenOptions,
+): Promise<TokenExplanation> {
+  const { path: tokenPath, variant = 'default', ...parseOptions } = options;
+
+  const result = await resolveTheme(parseOptions);
+  const variantName = findVariantName(result.selectors, variant);
+  const value = getTokenValue(result.variants[variantName], tokenPath);
+
+  if (value === undefined) {
+    throw new Error(
+      `Token "${tokenPath}" not found in variant "${variantName}"`,
+    );
+  }
+
+  if (isRecord(value)) {
+    const children = Object.keys(value).map((key) => `${tokenPath}.${key}`);
+    throw new Error(
+      `"${tokenPath}" is a group of tokens. Inspect one of: ${children.join(', ')}`,
+    );
+  }
+
+  const { variables, defaultVariables } = await extractCSS(parseOptions);
+
+  return explainTokenResolution({
+    path: tokenPath,
+    variant: variantName,
+    value,
+    selectors: result.selectors,
+    variables,
+    defaultVariables,
+    cssConflicts: (result.cssConflicts ?? []) as Array<CSSRuleConflict>,
+    overrides: parseOptions.overrides,
+    nesting: parseOptions.nesting,
+  });
+}
+
 // Re-export types for consumers
 export type {
   Theme,
@@ -196,7 +476,18 @@ export type {
   ThemeDefaults,
   ThemeKeyframes,
   ColorScale,
+  ColorFormat,
   CSSVariable,
+  SourceLocation,
+  ThemeMode,
+  EvaluateMathOptions,
+  FoldedExpression,
+  ImportAliases,
+  UnitsOptions,
+  LengthThemeProperty,
+  NormalizedLengths,
+  NormalizedFontSizes,
+  NormalizedTheme,
   ParseOptions,
   ParseResult,
   ThemeVariant,
@@ -207,8 +498,24 @@ export type {
   OverrideConfig,
   OverrideOptions,
   TailwindDefaultsOptions,
+  ResolverConfig,
+  ThemeEntryConfig,
+  OutputFormatOptions,
+  DTCGFormatOptions,
+  KotlinFormatOptions,
+  ThemeDiffSource,
+  DiffThemeOptions,
+  ExplainTokenOptions,
+  DiagnosticLevel,
+  FailOnOptions,
 } from './types';
 
+// Re-export color conversion utilities
+export { convertColor, parseColor } from './core';
+
+// Re-export math evaluation utilities
+export { evaluateMathExpressions } from './core';
+
 // Re-export initial filter utilities for advanced use cases
 export type { InitialExclusion } from './core';
 export {
@@ -217,3 +524,103 @@ export {
   filterThemeByExclusions,
   matchesExclusion,
 } from './core';
+
+// Re-export project config helpers
+export type { LoadedConfig } from './shared/config';
+export {
+  ConfigError,
+  defineConfig,
+  loadConfig,
+  mergeConfigs,
+} from './shared/config';
+
+// Re-export theme comparison utilities
+export type {
+  ThemeChangeType,
+  ThemeDiff,
+  ThemeDiffReportMetadata,
+  TokenChange,
+  VariantChange,
+} from './core';
+export {
+  diffThemes,
+  generateThemeDiffJSON,
+  generateThemeDiffMarkdown,
+} from './core';
+export { GitRevisionError } from './shared/git';
+
+// Re-export token resolution tracing types
+export type {
+  ConflictResolution,
+  OverrideResolution,
+  ResolutionSource,
+  ResolutionStep,
+  TokenExplanation,
+} from './core';
+
+// Re-export diagnostic gating utilities
+export type {
+  BaselineConflict,
+  BaselineUnresolved,
+  DiagnosticsBaseline,
+  GateResult,
+  ThemeDiagnostics,
+} from './core';
+export { createDiagnosticsBaseline, evaluateDiagnostics } from './core';
+export type { DiagnosticsGateOptions } from './shared/diagnostics';
+export {
+  BaselineError,
+  DiagnosticsError,
+  enforceDiagnostics,
+  readBaseline,
+  writeBaseline,
+} from './shared/diagnostics';
+
+// Re-export Tailwind v3 config migration
+export type {
+  MigrationIssue,
+  MigrationIssueKind,
+  TailwindV3Migration,
+} from './core';
+export { migrateTailwindV3Config } from './core';
+
+// Re-export token format exporters
+export type {
+  DTCGDocument,
+  DTCGExportOptions,
+  DTCGGroup,
+  DTCGShadowValue,
+  DTCGToken,
+  DTCGTokenType,
+  DTCGValue,
+  DTCGVariantLayout,
+  ExportableTheme,
+  FigmaColor,
+  FigmaExportOptions,
+  FigmaImportOptions,
+  FigmaResolvedType,
+  FigmaVariableAlias,
+  FigmaVariablesPayload,
+  FigmaVariableValue,
+  KotlinExportOptions,
+  NativeExportOptions,
+  PreprocessorExportOptions,
+  PreprocessorLanguage,
+  StyleDictionaryExportOptions,
+  StyleDictionaryGroup,
+  StyleDictionarySource,
+  StyleDictionaryToken,
+  VanillaExtractExportOptions,
+} from './core';
+export {
+  exportDartTheme,
+  exportDTCGTokens,
+  exportFigmaVariables,
+  exportKotlinTheme,
+  exportPreprocessorTokens,
+  exportStyledComponentsTheme,
+  exportStyleDictionaryTokens,
+  exportSwiftTheme,
+  exportVanillaExtractTheme,
+  importFigmaVariables,
+} from './core';
@@ -0,0 +1,119 @@
+/**
+ * Staleness check for generated theme files
+ * Compares freshly rendered files with the files on disk without writing anything
+ */
+
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import { createUnifiedDiff } from './unified_diff';
+
+/**
+ * Compiled regex pattern for the timestamp line in generated file headers
+ */
+const GENERATED_AT_REGEX = /^ \* Generated at: .*$/m;
+
+/**
+ * A generated file whose contents on disk are out of date
+ */
+export interface FileDrift {
+  /** File name (e.g., 'types.ts') */
+  file: string;
+  /** Absolute path of the file on disk */
+  path: string;
+  /** Whether the file is missing or its contents differ */
+  status: 'missing' | 'changed';
+  /** Unified diff from the file on disk to the expected contents */
+  diff: string;
+}
+
+/**
+ * Reads a file, returning null if it does not exist
+ *
+ * @param filePath - Absolute file path
+ * @returns File contents, or null for missing files
+ */
+async function readIfExists(filePath: string): Promise<string | null> {
+  try {
+    return await readFile(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Copies the `Generated at` timestamp from the file on disk into the expected contents
+ * so that regenerating at a different time does not count as drift
+ *
+ * @param expected - Freshly rendered contents
+ * @param actual - Contents on disk
+ * @returns Expected contents with the timestamp from disk
+ */
+function ignoreTimestamp(expected: string, actual: string): string {
+  const timestamp = actual.match(GENERATED_AT_REGEX)?.[0];
+
+  return timestamp === undefined
+    ? expected
+    : expected.replace(GENERATED_AT_REGEX, timestamp);
+}
+
+/**
+ * Compares rendered theme files with the files in the output directory
+ *
+ * The `Generated at` header line is ignored. Files on disk that are no longer
+ * generated (e.g., `theme.ts` after disabling runtime output) are not reported.
+ *
+ * @param outputDir - Absolute path to the output directory
+ * @param contents - Expected contents keyed by file name (see renderThemeFiles)
+ * @param cwd - Directory diff labels are relative to (default: process.cwd())
+ * @returns Drifted files in generation order; empty when everything is up to date
+ *
+ * @example
+ * const { contents } = await renderThemeFiles({
+ *   inputPath: input,
+ *   outputDir,
+ *   resolveImports: true,
+ *   runtimeOptions: false,
+ *   includeDefaults: true,
+ * });
+ * const drift = await checkGeneratedFiles(outputDir, contents);
+ * if (drift.length > 0) process.exitCode = 1;
+ */
+export async function checkGeneratedFiles(
+  outputDir: string,
+  contents: Map<string, string>,
+  cwd: string = process.cwd(),
+): Promise<Array<FileDrift>> {
+  const drift: Array<FileDrift> = [];
+
+  for (const [file, content] of contents) {
+    const filePath = path.join(outputDir, file);
+    const label = path.relative(cwd, filePath);
+    const actual = await readIfExists(filePath);
+
+    if (actual === null) {
+      drift.push({
+        file,
+        path: filePath,
+        status: 'missing',
+        diff: createUnifiedDiff('', content, '/dev/null', `b/${label}`),
+      });
+      continue;
+    }
+
+    const expected = ignoreTimestamp(content, actual);
+    if (expected !== actual) {
+      drift.push({
+        file,
+        path: filePath,
+        status: 'changed',
+        diff: createUnifiedDiff(actual, expected, `a/${label}`, `b/${label}`),
+      });
+    }
+  }
+
+  return drift;
+}
@@ -0,0 +1,711 @@
+/**
+ * Project config file loader shared by the CLI and Vite plugin
+ * Discovers `tailwind-resolver.config.{ts,mjs,json}`, validates it and resolves its paths
+ */
+
+import type * as TypeScript from 'typescript';
+
+import type { ResolverConfig } from '../types';
+
+import { existsSync } from 'node:fs';
+import { readFile, rm, writeFile } from 'node:fs/promises';
+import { basename, dirname, extname, join, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+import { DIAGNOSTIC_LEVELS } from '../core/analysis/gating';
+import { resolveAliasTargets } from '../core/parser/module_resolver';
+import { isNumber, isRecord, isString } from '../core/utils/type_guards';
+import {
+  CONFIG_FILE_NAMES,
+  VALID_DEFAULT_CATEGORIES,
+  VALID_NESTING_NAMESPACES,
+  VALID_REPORT_CATEGORIES,
+} from './constants';
+
+/**
+ * Validator for a single config value; pushes messages for invalid values
+ */
+type ValueValidator = (
+  value: unknown,
+  path: string,
+  issues: Array<string>,
+) => void;
+
+/**
+ * A loaded config file
+ */
+export interface LoadedConfig {
+  /** Validated config with paths resolved against the config file's directory */
+  config: ResolverConfig;
+  /** Absolute path to the config file */
+  path: string;
+}
+
+/**
+ * Error thrown when a config file cannot be loaded or fails validation
+ */
+export class ConfigError extends Error {
+  /**
+   * @param path - Path to the config file
+   * @param issues - Validation messages (one per invalid option)
+   */
+  constructor(
+    public readonly path: string,
+    public readonly issues: Array<string>,
+  ) {
+    super(
+      `Invalid config file ${path}:\n${issues.map((issue) => `  - ${issue}`).join('\n')}`,
+    );
+    this.name = 'ConfigError';
+  }
+}
+
+/**
+ * Describes a value for error messages
+ *
+ * @param value - Any value
+ * @returns Short description (e.g., 'string "abc"', 'array', 'null')
+ */
+function describe(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (isString(value)) {
+    return `string "${value}"`;
+  }
+  if (typeof value === 'object') {
+    return 'object';
+  }
+  return `${typeof value} ${String(value)}`;
+}
+
+/**
+ * Creates a validator accepting one of a fixed set of strings
+ *
+ * @param allowed - Allowed values
+ * @returns Validator
+ */
+function oneOf(allowed: ReadonlyArray<string>): ValueValidator {
+  return (value, path, issues) => {
+    if (!isString(value) || !allowed.includes(value)) {
+      issues.push(
+        `${path} must be one of ${allowed.map((item) => `'${item}'`).join(', ')} (got ${describe(value)})`,
+      );
+    }
+  };
+}
+
+/**
+ * Validates a string value
+ *
+ * @param value - Value to check
+ * @param path - Option path for messages
+ * @param issues - Collected validation messages
+ */
+function validateString(
+  value: unknown,
+  path: string,
+  issues: Array<string>,
+): void {
+  if (!isString(value)) {
+    issues.push(`${path} must be a string (got ${describe(value)})`);
+  }
+}
+
+/**
+ * Validates a boolean value
+ *
+ * @param value - Value to check
+ * @param path - Option path for messages
+ * @param issues - Collected validation messages
+ */
+function validateBoolean(
+  value: unknown,
+  path: string,
+  issues: Array<string>,
+): void {
+  if (typeof value !== 'boolean') {
+    issues.push(`${path} must be a boolean (got ${describe(value)})`);
+  }
+}
+
+/**
+ * Validates a positive number
+ *
+ * @param value - Value to check
+ * @param path - Option path for messages
+ * @param issues - Collected validation messages
+ */
+function validatePositiveNumber(
+  value: unknown,
+  path: string,
+  issues: Array<string>,
+): void {
+  if (!isNumber(value) || value <= 0) {
+    issues.push(`${path} must be a positive number (got ${describe(value)})`);
+  }
+}
+
+/**
+ * Validates a non-negative number (Infinity allowed)
+ *
+ * @param value - Value to check
+ * @param path - Option path for messages
+ * @param issues - Collected validation messages
+ */
+function validateDepth(
+  value: unknown,
+  path: string,
+  issues: Array<string>,
+): void {
+  if (typeof value !== 'number' || Number.isNaN(value) || value < 0) {
+    issues.push(
+      `${path} must be a non-negative number (got ${describe(value)})`,
+    );
+  }
+}
+
+/**
+ * Creates a validator for an object with known keys
+ *
+ * @param shape - Validator for each allowed key
+ * @returns Validator that reports unknown keys and invalid values
+ */
+function objectOf(shape: Record<string, ValueValidator>): ValueValidator {
+  return (value, path, issues) => {
+    if (!isRecord(value)) {
+      issues.push(`${path} must be an object (got ${describe(value)})`);
+      return;
+    }
+
+    for (const [key, item] of Object.entries(value)) {
+      const validator = shape[key];
+      const itemPath = path === '' ? key : `${path}.${key}`;
+      if (validator === undefined) {
+        issues.push(`Unknown option '${itemPath}'`);
+      } else if (item !== undefined) {
+        validator(item, itemPath, issues);
+      }
+    }
+  };
+}
+
+/**
+ * Creates a validator accepting a boolean or an object of the given shape
+ *
+ * @param shape - Object validator
+ * @returns Validator
+ */
+function booleanOr(shape: ValueValidator): ValueValidator {
+  return (value, path, issues) => {
+    if (typeof value !== 'boolean') {
+      shape(value, path, issues);
+    }
+  };
+}
+
+/**
+ * Creates an object shape where every listed key is a boolean
+ *
+ * @param keys - Allowed keys
+ * @returns Validator
+ */
+function booleanFlags(keys: ReadonlyArray<string>): ValueValidator {
+  return objectOf(
+    Object.fromEntries(keys.map((key) => [key, validateBoolean])),
+  );
+}
+
+/**
+ * Validates a string-to-string record (e.g., aliases)
+ *
+ * @param value - Value to check
+ * @param path - Option path for messages
+ * @param issues - Collected validation messages
+ */
+function validateStringRecord(
+  value: unknown,
+  path: string,
+  issues: Array<string>,
+): void {
+  if (!isRecord(value)) {
+    issues.push(`${path} must be an object (got ${describe(value)})`);
+    return;
+  }
+
+  for (const [key, item] of Object.entries(value)) {
+    validateString(item, `${path}.${key}`, issues);
+  }
+}
+
+/**
+ * Validates an override value: a string, a `{ value }` object or nested overrides
+ *
+ * @param value - Value to check
+ * @param path - Option path for messages
+ * @param issues - Collected validation messages
+ */
+export function validateOverrideValue(
+  value: unknown,
+  path: string,
+  issues: Array<string>,
+): void {
+  if (isString(value)) {
+    return;
+  }
+
+  if (!isRecord(value)) {
+    issues.push(
+      `${path} must be a string, { value } object or nested overrides (got ${describe(value)})`,
+    );
+    return;
+  }
+
+  if ('value' in value) {
+    objectOf({
+      value: validateString,
+      force: validateBoolean,
+      resolveVars: validateBoolean,
+    })(value, path, issues);
+    return;
+  }
+
+  for (const [key, item] of Object.entries(value)) {
+    validateOverrideValue(item, `${path}.${key}`, issues);
+  }
+}
+
+/**
+ * Validates the overrides option (selector → path → value)
+ *
+ * @param value - Value to check
+ * @param path - Option path for messages ('' for a standalone overrides object)
+ * @param issues - Collected validation messages
+ */
+export function validateOverrides(
+  value: unknown,
+  path: string,
+  issues: Array<string>,
+): void {
+  if (!isRecord(value)) {
+    issues.push(`${path} must be an object (got ${describe(value)})`);
+    return;
+  }
+
+  for (const [selector, config] of Object.entries(value)) {
+    validateOverrideValue(
+      config,
+      path === '' ? selector : `${path}.${selector}`,
+      issues,
+    );
+  }
+}
+
+/**
+ * Validates a nesting config `pattern` (only possible in ts/mjs configs)
+ *
+ * @param value - Value to check
+ * @param path - Option path for messages
+ * @param issues - Collected validation messages
+ */
+function validatePattern(
+  value: unknown,
+  path: string,
+  issues: Array<string>,
+): void {
+  if (!(value instanceof RegExp)) {
+    issues.push(`${path} must be a RegExp (got ${describe(value)})`);
+  }
+}
+
+const validateNestingConfig = objectOf({
+  maxDepth: validateDepth,
+  consecutiveDashes: oneOf(['exclude', 'nest', 'camelcase', 'literal']),
+  flattenMode: oneOf(['camelcase', 'literal']),
+  pattern: validatePattern,
+});
+
+const validateFailOnThreshold = booleanOr(oneOf(DIAGNOSTIC_LEVELS));
+
+/**
+ * Validators for the options shared by the config and its entries, mirroring `ResolverConfig`
+ */
+const OPTION_VALIDATORS: Record<string, ValueValidator> = {
+  input: validateString,
+  outputDir: validateString,
+  resolveImports: validateBoolean,
+  aliases: validateStringRecord,
+  includeDefaults: booleanOr(booleanFlags(VALID_DEFAULT_CATEGORIES)),
+  debug: validateBoolean,
+  overrides: validateOverrides,
+  nesting: objectOf(
+    Object.fromEntries(
+      VALID_NESTING_NAMESPACES.map((namespace) => [
+        namespace,
+        validateNestingConfig,
+      ]),
+    ),
+  ),
+  colorFormat: oneOf(['hex', 'rgb', 'hsl']),
+  evaluateMath: booleanOr(objectOf({ rootFontSize: validatePositiveNumber })),
+  units: objectOf({
+    length: oneOf(['px', 'rem', 'number']),
+    time: oneOf(['ms', 's']),
+    rootFontSize: validatePositiveNumber,
+  }),
+  generateRuntime: booleanOr(
+    objectOf({
+      variants: validateBoolean,
+      selectors: validateBoolean,
+      files: validateBoolean,
+      variables: validateBoolean,
+      reports: booleanOr(booleanFlags(VALID_REPORT_CATEGORIES)),
+    }),
+  ),
+  formats: objectOf({
+    dtcg: booleanOr(objectOf({ variants: oneOf(['files', 'modes']) })),
+    styleDictionary: validateBoolean,
+    scss: validateBoolean,
+    less: validateBoolean,
+    stylus: validateBoolean,
+    vanillaExtract: validateBoolean,
+    styledComponents: validateBoolean,
+    figma: validateBoolean,
+    swift: validateBoolean,
+    kotlin: booleanOr(objectOf({ packageName: validateString })),
+    dart: validateBoolean,
+  }),
+  failOn: objectOf({
+    conflicts: validateFailOnThreshold,
+    unresolved: validateFailOnThreshold,
+  }),
+  baseline: validateString,
+};
+
+const validateEntryShape = objectOf({
+  ...OPTION_VALIDATORS,
+  name: validateString,
+});
+
+/**
+ * Validates the entries option (an array of entry configs with input and outputDir)
+ *
+ * @param value - Value to check
+ * @param path - Option path for messages
+ * @param issues - Collected validation messages
+ */
+function validateEntries(
+  value: unknown,
+  path: string,
+  issues: Array<string>,
+): void {
+  if (!Array.isArray(value)) {
+    issues.push(`${path} must be an array (got ${describe(value)})`);
+    return;
+  }
+
+  value.forEach((entry: unknown, index) => {
+    const entryPath = `${path}[${index}]`;
+    validateEntryShape(entry, entryPath, issues);
+
+    for (const key of ['input', 'outputDir']) {
+      if (isRecord(entry) && entry[key] === undefined) {
+        issues.push(`${entryPath}.${key} is required`);
+      }
+    }
+  });
+}
+
+/**
+ * Validator for the whole config object, mirroring `ResolverConfig`
+ */
+const validateConfigShape = objectOf({
+  ...OPTION_VALIDATORS,
+  entries: validateEntries,
+});
+
+/**
+ * Validates a config object against the `ResolverConfig` option types
+ *
+ * @param value - Config value (default export or parsed JSON)
+ * @param path - Config file path used in error messages
+ * @returns The config, typed
+ * @throws ConfigError listing every invalid or unknown option
+ *
+ * @example
+ * validateConfig({ colorFormat: 'cmyk' }, 'tailwind-resolver.config.json')
+ * // ConfigError: colorFormat must be one of 'hex', 'rgb', 'hsl' (got string "cmyk")
+ */
+export function validateConfig(value: unknown, path: string): ResolverConfig {
+  const issues: Array<string> = [];
+
+  if (!isRecord(value)) {
+    throw new ConfigError(path, [
+      `Config must export an object (got ${describe(value)})`,
+    ]);
+  }
+
+  validateConfigShape(value, '', issues);
+
+  if (
+    value.entries !== undefined &&
+    (value.input !== undefined || value.outputDir !== undefined)
+  ) {
+    issues.push(
+      'input and outputDir cannot be combined with entries (set them on each entry)',
+    );
+  }
+
+  if (issues.length > 0) {
+    throw new ConfigError(path, issues);
+  }
+
+  return value as ResolverConfig;
+}
+
+/**
+ * Finds the config file in a directory
+ *
+ * @param directory - Directory to search (usually the project root)
+ * @returns Absolute path to the first matching config file, or null if none exists
+ */
+export function findConfigFile(directory: string): string | null {
+  for (const fileName of CONFIG_FILE_NAMES) {
+    const candidate = join(directory, fileName);
+    if (existsSync(candidate)) {
+      return candidate;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Imports a module file and returns its default export
+ *
+ * @param path - Absolute path to the module
+ * @returns Default export
+ */
+async function importDefault(path: string): Promise<unknown> {
+  const module = (await import(pathToFileURL(path).href)) as {
+    default?: unknown;
+  };
+  return module.default;
+}
+
+/**
+ * Loads the `typescript` package (an optional peer dependency)
+ *
+ * @param path - Absolute path to the TypeScript file being loaded (used in the error)
+ * @returns TypeScript compiler API
+ * @throws Error if the package is not installed
+ */
+async function loadTypeScript(path: string): Promise<typeof TypeScript> {
+  try {
+    const { default: ts } = await import('typescript');
+    return ts;
+  } catch {
+    throw new Error(
+      `${basename(path)} needs the typescript package on this runtime (Bun and Node.js 22.18+ load .ts files natively). Install typescript or use an .mjs or .json file`,
+    );
+  }
+}
+
+/**
+ * Transpiles a TypeScript module and imports it
+ * The output is written next to the source so relative imports resolve, and removed afterwards
+ *
+ * @param path - Absolute path to the TypeScript file
+ * @returns Default export
+ */
+async function importTranspiled(path: string): Promise<unknown> {
+  const ts = await loadTypeScript(path);
+  const { outputText } = ts.transpileModule(await readFile(path, 'utf-8'), {
+    fileName: path,
+    compilerOptions: {
+      module: ts.ModuleKind.ESNext,
+      target: ts.ScriptTarget.ES2022,
+    },
+  });
+
+  const outputPath = `${path}.timestamp-${Date.now()}.mjs`;
+  await writeFile(outputPath, outputText, 'utf-8');
+  try {
+    return await importDefault(outputPath);
+  } finally {
+    await rm(outputPath, { force: true });
+  }
+}
+
+/**
+ * Reads the raw contents of a JSON or module file
+ * JSON files are parsed; ts/mjs files are imported and their default export is used.
+ * TypeScript files are transpiled with the `typescript` package when the runtime
+ * cannot import them (Node.js before 22.18, including inside Vite).
+ *
+ * @param path - Absolute path to the file
+ * @returns Raw file value
+ * @throws Error if the file cannot be read, parsed or imported
+ */
+export async function readModuleFile(path: string): Promise<unknown> {
+  if (extname(path) === '.json') {
+    return JSON.parse(await readFile(path, 'utf-8')) as unknown;
+  }
+
+  try {
+    return await importDefault(path);
+  } catch (error) {
+    const { code } = error as NodeJS.ErrnoException;
+    if (extname(path) !== '.ts' || code !== 'ERR_UNKNOWN_FILE_EXTENSION') {
+      throw error;
+    }
+    return importTranspiled(path);
+  }
+}
+
+/**
+ * Reads the raw contents of a config file
+ *
+ * @param path - Absolute path to the config file
+ * @returns Raw config value
+ * @throws ConfigError if the file cannot be read, parsed or imported
+ */
+async function readConfigFile(path: string): Promise<unknown> {
+  try {
+    return await readModuleFile(path);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new ConfigError(path, [`Failed to load config: ${reason}`]);
+  }
+}
+
+/**
+ * Resolves relative paths in a config against the config file's directory
+ *
+ * @param config - Validated config
+ * @param configDir - Directory containing the config file
+ * @returns Config with absolute `input`, `outputDir`, `baseline` and alias targets
+ */
+function resolveConfigPaths<T extends Omit<ResolverConfig, 'entries'>>(
+  config: T,
+  configDir: string,
+): T {
+  return {
+    ...config,
+    ...(config.input !== undefined && {
+      input: resolve(configDir, config.input),
+    }),
+    ...(config.outputDir !== undefined && {
+      outputDir: resolve(configDir, config.outputDir),
+    }),
+    ...(config.aliases !== undefined && {
+      aliases: resolveAliasTargets(config.aliases, configDir),
+    }),
+    ...(config.baseline !== undefined && {
+      baseline: resolve(configDir, config.baseline),
+    }),
+  };
+}
+
+/**
+ * Loads and validates the project config file
+ *
+ * @param directory - Directory to discover the config file in
+ * @param configFile - Explicit config file path (relative to `directory`); skips discovery
+ * @returns Loaded config, or null if no config file exists
+ * @throws ConfigError if an explicit config file is missing, fails to load or is invalid
+ *
+ * @example
+ * const loaded = await loadConfig(process.cwd());
+ * loaded?.config.input; // '/project/src/styles.css'
+ */
+export async function loadConfig(
+  directory: string,
+  configFile?: string,
+): Promise<LoadedConfig | null> {
+  const path =
+    configFile === undefined
+      ? findConfigFile(directory)
+      : resolve(directory, configFile);
+
+  if (path === null) {
+    return null;
+  }
+
+  if (!existsSync(path)) {
+    throw new ConfigError(path, ['Config file not found']);
+  }
+
+  const config = validateConfig(await readConfigFile(path), path);
+  const configDir = dirname(path);
+
+  return {
+    config: {
+      ...resolveConfigPaths(config, configDir),
+      ...(config.entries !== undefined && {
+        entries: config.entries.map((entry) =>
+          resolveConfigPaths(entry, configDir),
+        ),
+      }),
+    },
+    path,
+  };
+}
+
+/**
+ * Layers config objects, later ones taking precedence
+ *
+ * Plain-object options (`aliases`, `nesting`, `overrides`, `units`, ...) are merged
+ * one level deep, so a CLI `--units px` keeps `units.time` from the config file.
+ *
+ * @param configs - Configs from lowest to highest precedence
+ * @returns Merged config
+ *
+ * @example
+ * mergeConfigs({ units: { time: 'ms' } }, { units: { length: 'px' } })
+ * // { units: { time: 'ms', length: 'px' } }
+ */
+export function mergeConfigs(
+  ...configs: Array<ResolverConfig>
+): ResolverConfig {
+  const merged: Record<string, unknown> = {};
+
+  for (const config of configs) {
+    for (const [key, value] of Object.entries(config)) {
+      if (value === undefined) {
+        continue;
+      }
+      const previous = merged[key];
+      merged[key] =
+        isRecord(previous) && isRecord(value) && !(value instanceof RegExp)
+          ? { ...previous, ...value }
+          : value;
+    }
+  }
+
+  return merged as ResolverConfig;
+}
+
+/**
+ * Type helper for `tailwind-resolver.config.ts`
+ *
+ * @param config - Project config
+ * @returns The same config, typed
+ *
+ * @example
+ * ```typescript
+ * // tailwind-resolver.config.ts
+ * import { defineConfig } from 'tailwind-resolver';
+ *
+ * export default defineConfig({
+ *   input: 'src/styles.css',
+ *   nesting: { colors: { maxDepth: 2 } },
+ * });
+ * ```
+ */
+export function defineConfig(config: ResolverConfig): ResolverConfig {
+  return config;
+}
@@ -2,6 +2,13 @@
  * Shared constants used across CLI, Vite plugin, and file generators
  */
 
+import type {
+  NestingOptions,
+  OutputFormatOptions,
+  ReportGenerationOptions,
+  TailwindDefaultsOptions,
+} from '../types';
+
 /**
  * Output file names used by the plugin and CLI
  */
@@ -9,6 +16,17 @@ export const OUTPUT_FILES = {
   TYPES: 'types.ts',
   THEME: 'theme.ts',
   INDEX: 'index.ts',
+  DTCG: 'tokens.json',
+  STYLE_DICTIONARY_DIR: 'style-dictionary',
+  SCSS: '_tokens.scss',
+  LESS: 'tokens.less',
+  STYLUS: 'tokens.styl',
+  VANILLA_EXTRACT: 'theme.css.ts',
+  STYLED_COMPONENTS: 'styled.d.ts',
+  FIGMA: 'figma-variables.json',
+  SWIFT: 'Theme.swift',
+  KOTLIN: 'Theme.kt',
+  DART: 'theme.dart',
 } as const;
 
 /**
@@ -23,3 +41,92 @@ export const DEFAULT_OUTPUT_DIRS = {
  * Default interface name for generated theme types
  */
 export const DEFAULT_INTERFACE_NAME = 'DefaultTheme';
+
+/**
+ * Config file names, in lookup order
+ */
+export const CONFIG_FILE_NAMES = [
+  'tailwind-resolver.config.ts',
+  'tailwind-resolver.config.mjs',
+  'tailwind-resolver.config.json',
+] as const;
+
+/**
+ * Valid Tailwind default category names
+ */
+export const VALID_DEFAULT_CATEGORIES: ReadonlyArray<
+  keyof TailwindDefaultsOptions
+> = [
+  'colors',
+  'spacing',
+  'fonts',
+  'fontSize',
+  'fontWeight',
+  'tracking',
+  'leading',
+  'breakpoints',
+  'containers',
+  'radius',
+  'shadows',
+  'insetShadows',
+  'dropShadows',
+  'textShadows',
+  'blur',
+  'perspective',
+  'aspect',
+  'ease',
+  'animations',
+  'defaults',
+  'keyframes',
+];
+
+/**
+ * Valid report category names
+ */
+export const VALID_REPORT_CATEGORIES: ReadonlyArray<
+  keyof ReportGenerationOptions
+> = ['conflicts', 'unresolved'];
+
+/**
+ * Valid output format names
+ */
+export const VALID_OUTPUT_FORMATS: ReadonlyArray<keyof OutputFormatOptions> = [
+  'dtcg',
+  'styleDictionary',
+  'scss',
+  'less',
+  'stylus',
+  'vanillaExtract',
+  'styledComponents',
+  'figma',
+  'swift',
+  'kotlin',
+  'dart',
+];
+
+/**
+ * Namespaces accepted in nesting options (plus `default`)
+ */
+export const VALID_NESTING_NAMESPACES: ReadonlyArray<keyof NestingOptions> = [
+  'default',
+  'colors',
+  'shadows',
+  'insetShadows',
+  'dropShadows',
+  'textShadows',
+  'spacing',
+  'radius',
+  'blur',
+  'perspective',
+  'aspect',
+  'ease',
+  'animations',
+  'fonts',
+  'fontSize',
+  'fontWeight',
+  'tracking',
+  'leading',
+  'breakpoints',
+  'containers',
+  'defaults',
+];
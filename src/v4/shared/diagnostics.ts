@@ -0,0 +1,251 @@
+/**
+ * Diagnostic gating for the CLI and Vite plugin
+ * Reads and writes baseline files and fails generation on diagnostics above `failOn`
+ */
+
+import type {
+  BaselineConflict,
+  BaselineUnresolved,
+  DiagnosticsBaseline,
+  GateResult,
+  ThemeDiagnostics,
+} from '../core';
+import type { FailOnOptions } from '../types';
+
+import { existsSync } from 'node:fs';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+import {
+  createDiagnosticsBaseline,
+  evaluateDiagnostics,
+  formatGateFailure,
+} from '../core';
+import { JSON_INDENT_SPACES } from '../core/constants/formatting';
+import { isRecord, isString } from '../core/utils/type_guards';
+
+/**
+ * Error thrown when diagnostics exceed the `failOn` thresholds
+ */
+export class DiagnosticsError extends Error {
+  /**
+   * @param result - Gate result listing the failing diagnostics
+   * @param baseDir - Directory file paths in the message are relative to
+   */
+  constructor(
+    public readonly result: GateResult,
+    baseDir?: string,
+  ) {
+    super(formatGateFailure(result, baseDir));
+    this.name = 'DiagnosticsError';
+  }
+}
+
+/**
+ * Options for enforceDiagnostics
+ */
+export interface DiagnosticsGateOptions {
+  /** Thresholds per category (default with a baseline: fail on any new diagnostic) */
+  failOn?: FailOnOptions;
+  /** Absolute path to the baseline file */
+  baseline?: string;
+  /** Directory file paths in error messages are relative to */
+  baseDir?: string;
+}
+
+/**
+ * Sources an accepted unresolved variable can be declared in
+ */
+const UNRESOLVED_SOURCES: ReadonlySet<unknown> = new Set<
+  BaselineUnresolved['source']
+>(['theme', 'root', 'variant']);
+
+/**
+ * Error thrown when a baseline file cannot be parsed or has invalid entries
+ */
+export class BaselineError extends Error {
+  /**
+   * @param path - Path to the baseline file
+   * @param issues - Validation messages (one per invalid entry)
+   */
+  constructor(
+    public readonly path: string,
+    public readonly issues: Array<string>,
+  ) {
+    super(
+      `Invalid baseline file ${path}:\n${issues.map((issue) => `  - ${issue}`).join('\n')}`,
+    );
+    this.name = 'BaselineError';
+  }
+}
+
+/**
+ * Checks whether a value is an accepted conflict
+ *
+ * @param value - Baseline entry
+ * @returns True if the entry has string `variant`, `selector` and `token`
+ */
+function isBaselineConflict(value: unknown): value is BaselineConflict {
+  return (
+    isRecord(value) &&
+    isString(value.variant) &&
+    isString(value.selector) &&
+    isString(value.token)
+  );
+}
+
+/**
+ * Checks whether a value is an accepted unresolved variable
+ *
+ * @param value - Baseline entry
+ * @returns True if the entry has string `variable` and `reference`, a known `source` and an optional string `variant`
+ */
+function isBaselineUnresolved(value: unknown): value is BaselineUnresolved {
+  return (
+    isRecord(value) &&
+    isString(value.variable) &&
+    isString(value.reference) &&
+    UNRESOLVED_SOURCES.has(value.source) &&
+    (value.variant === undefined || isString(value.variant))
+  );
+}
+
+/**
+ * Validates the entries of a baseline list
+ *
+ * @param value - Value of the list
+ * @param key - Baseline key for messages
+ * @param isEntry - Checks a single entry
+ * @param issues - Collected validation messages
+ * @returns Valid entries (empty if the value is not an array)
+ */
+function validateEntries<T>(
+  value: unknown,
+  key: string,
+  isEntry: (entry: unknown) => entry is T,
+  issues: Array<string>,
+): Array<T> {
+  if (!Array.isArray(value)) {
+    issues.push(`${key} must be an array`);
+    return [];
+  }
+
+  const entries: Array<T> = [];
+  value.forEach((entry: unknown, index) => {
+    if (isEntry(entry)) {
+      entries.push(entry);
+    } else {
+      issues.push(`${key}[${index}] is not a valid ${key} entry`);
+    }
+  });
+  return entries;
+}
+
+/**
+ * Reads a baseline file
+ *
+ * @param path - Absolute path to the baseline file
+ * @returns Accepted diagnostics
+ * @throws Error if the file is missing
+ * @throws BaselineError if the file is not valid JSON or has invalid entries
+ */
+export async function readBaseline(path: string): Promise<DiagnosticsBaseline> {
+  if (!existsSync(path)) {
+    throw new Error(
+      `Baseline file not found: ${path} (create it with tailwind-resolver --update-baseline)`,
+    );
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(await readFile(path, 'utf-8'));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new BaselineError(path, [`Failed to parse baseline: ${reason}`]);
+  }
+
+  if (!isRecord(value)) {
+    throw new BaselineError(path, [
+      'expected { "conflicts": [...], "unresolved": [...] }',
+    ]);
+  }
+
+  const issues: Array<string> = [];
+  const baseline: DiagnosticsBaseline = {
+    conflicts: validateEntries(
+      value.conflicts,
+      'conflicts',
+      isBaselineConflict,
+      issues,
+    ),
+    unresolved: validateEntries(
+      value.unresolved,
+      'unresolved',
+      isBaselineUnresolved,
+      issues,
+    ),
+  };
+
+  if (issues.length > 0) {
+    throw new BaselineError(path, issues);
+  }
+
+  return baseline;
+}
+
+/**
+ * Writes a baseline accepting all current diagnostics
+ *
+ * @param path - Absolute path to the baseline file
+ * @param diagnostics - Diagnostics from theme resolution
+ * @returns The written baseline
+ */
+export async function writeBaseline(
+  path: string,
+  diagnostics: ThemeDiagnostics,
+): Promise<DiagnosticsBaseline> {
+  const baseline = createDiagnosticsBaseline(diagnostics);
+
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(
+    path,
+    `${JSON.stringify(baseline, null, JSON_INDENT_SPACES)}\n`,
+    'utf-8',
+  );
+
+  return baseline;
+}
+
+/**
+ * Fails generation when diagnostics exceed the `failOn` thresholds
+ * Does nothing unless `failOn` or a baseline is set.
+ *
+ * @param diagnostics - Diagnostics from theme resolution
+ * @param options - Thresholds, baseline path and base directory for messages
+ * @returns Gate result, or undefined if gating is disabled
+ * @throws DiagnosticsError if any new diagnostic meets its threshold
+ * @throws Error if the baseline file is missing or invalid
+ *
+ * @example
+ * await enforceDiagnostics(result.diagnostics, { failOn: { unresolved: true } });
+ */
+export async function enforceDiagnostics(
+  diagnostics: ThemeDiagnostics,
+  options: DiagnosticsGateOptions,
+): Promise<GateResult | undefined> {
+  if (options.failOn === undefined && options.baseline === undefined) {
+    return undefined;
+  }
+
+  const baseline =
+    options.baseline === undefined
+      ? undefined
+      : await readBaseline(options.baseline);
+  const result = evaluateDiagnostics(diagnostics, options.failOn, baseline);
+
+  if (result.failed) {
+    throw new DiagnosticsError(result, options.baseDir);
+  }
+
+  return result;
+}
@@ -0,0 +1,155 @@
+/**
+ * Multi-entry generation shared by the CLI and Vite plugin
+ * Expands `entries` into per-entry configs and formats the per-entry diagnostics summary
+ */
+
+import type { ThemeDiagnostics } from '../core';
+import type { ResolverConfig } from '../types';
+
+import { relative } from 'node:path';
+
+import { mergeConfigs } from './config';
+
+/**
+ * A config entry with the top-level options layered underneath
+ */
+export interface ResolvedEntry {
+  /** Entry name for logs and the summary */
+  name: string;
+  /** Merged options with absolute input and output paths */
+  config: ResolverConfig & { input: string; outputDir: string };
+}
+
+/**
+ * Outcome of generating one entry
+ * - `ok`: files written and diagnostics within the thresholds
+ * - `failed`: files written, but diagnostics exceed `failOn`
+ * - `error`: generation threw (e.g., missing input file)
+ */
+export type EntryStatus = 'ok' | 'failed' | 'error';
+
+/**
+ * One row of the multi-entry summary
+ */
+export interface EntrySummary {
+  /** Entry name */
+  name: string;
+  /** Absolute output directory */
+  outputDir: string;
+  /** Outcome */
+  status: EntryStatus;
+  /** Diagnostics, unless generation threw */
+  diagnostics?: ThemeDiagnostics;
+}
+
+/**
+ * Summary table columns
+ */
+const SUMMARY_HEADERS = ['Entry', 'Conflicts', 'Unresolved', 'Status'];
+
+/**
+ * Expands `entries` into one config per entry
+ * Entry options override the top-level options (which already include CLI flags
+ * or plugin options).
+ *
+ * @param config - Merged config with `entries`
+ * @param baseDir - Directory default entry names are relative to
+ * @returns Entries in config order (empty if `entries` is not set)
+ * @throws Error if two entries share a name or an output directory
+ *
+ * @example
+ * resolveEntries({ colorFormat: 'hex', entries: [{ input: '/app/web.css', outputDir: '/app/gen/web' }] }, '/app')
+ * // [{ name: 'web.css', config: { colorFormat: 'hex', input: '/app/web.css', outputDir: '/app/gen/web' } }]
+ */
+export function resolveEntries(
+  config: ResolverConfig,
+  baseDir: string,
+): Array<ResolvedEntry> {
+  const { entries = [], ...shared } = config;
+  const names = new Set<string>();
+  const outputs = new Map<string, string>();
+
+  return entries.map(({ name: entryName, ...options }) => {
+    const name = entryName ?? relative(baseDir, options.input);
+    const sameOutput = outputs.get(options.outputDir);
+
+    if (names.has(name)) {
+      throw new Error(`Duplicate entry name "${name}"`);
+    }
+    if (sameOutput !== undefined) {
+      throw new Error(
+        `Entries "${sameOutput}" and "${name}" share the output directory ${options.outputDir}`,
+      );
+    }
+    names.add(name);
+    outputs.set(options.outputDir, name);
+
+    return {
+      name,
+      config: mergeConfigs(shared, options) as ResolvedEntry['config'],
+    };
+  });
+}
+
+/**
+ * Formats a diagnostic count for the summary ('-' if generation failed)
+ *
+ * @param items - Diagnostics of one category
+ * @returns Count or '-'
+ */
+function formatCount(items: Array<unknown> | undefined): string {
+  return items === undefined ? '-' : String(items.length);
+}
+
+/**
+ * Formats the diagnostics summary printed after generating all entries
+ *
+ * @param rows - One row per entry, in generation order
+ * @param baseDir - Directory output paths are shown relative to
+ * @returns Aligned table followed by a totals line
+ *
+ * @example
+ * formatEntrySummary(rows, process.cwd())
+ * // Entry  Conflicts  Unresolved  Status  Output
+ * // web    0          2           ok      apps/web/src/generated/tailwindcss
+ * // acme   1          0           failed  brands/generated/acme
+ * //
+ * // 2 entries: 1 ok, 1 failed, 0 errors
+ */
+export function formatEntrySummary(
+  rows: Array<EntrySummary>,
+  baseDir: string,
+): string {
+  const table = [
+    SUMMARY_HEADERS,
+    ...rows.map((row) => [
+      row.name,
+      formatCount(row.diagnostics?.conflicts),
+      formatCount(row.diagnostics?.unresolved),
+      row.status,
+    ]),
+  ];
+  const widths = SUMMARY_HEADERS.map((_, column) =>
+    Math.max(...table.map((cells) => cells[column]!.length)),
+  );
+  const outputs = [
+    'Output',
+    ...rows.map((row) => relative(baseDir, row.outputDir)),
+  ];
+
+  const lines = table.map(
+    (cells, index) =>
+      `${cells.map((cell, column) => cell.padEnd(widths[column]!)).join('  ')}  ${outputs[index]!}`,
+  );
+
+  const count = (status: EntryStatus): number =>
+    rows.filter((row) => row.status === status).length;
+  const errors = count('error');
+
+  lines.push(
+    '',
+    `${rows.length} entr${rows.length === 1 ? 'y' : 'ies'}: ${count('ok')} ok, ${count('failed')} failed, ${errors} error${errors === 1 ? '' : 's'}`,
+  );
+
+  return lines.join('\n');
+}
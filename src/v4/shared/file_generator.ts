@@ -2,13 +2,22 @@
  * Shared file generation logic for CLI and Vite plugin
  */
 
-import type { CSSRuleConflict, UnresolvedVariable } from '../core';
 import type {
+  CSSRuleConflict,
+  ThemeDiagnostics,
+  UnresolvedVariable,
+} from '../core';
+import type {
+  ColorFormat,
+  EvaluateMathOptions,
+  ImportAliases,
   NestingOptions,
+  OutputFormatOptions,
   OverrideOptions,
   ReportGenerationOptions,
   RuntimeGenerationOptions,
   TailwindDefaultsOptions,
+  UnitsOptions,
 } from '../types';
 
 import fs from 'node:fs/promises';
@@ -18,40 +27,71 @@ import { writeConflictReports } from '../core/reporting/conflicts';
 import { writeUnresolvedReports } from '../core/reporting/unresolved';
 import { resolveTheme } from '../index';
 import { DEFAULT_INTERFACE_NAME, OUTPUT_FILES } from './constants';
+import { renderFormatFiles } from './formats';
 import {
   generateRuntimeFile,
   generateTypeDeclarations,
 } from './type_generator';
 
 /**
- * Prepares runtime file write promises
- *
- * @param runtimeOptions - Runtime generation options or false
- * @param result - Theme resolution result
- * @param outputDir - Output directory path
- * @returns Array of write promises
+ * Theme resolution result as returned by resolveTheme
  */
-async function prepareRuntimeFileWrites(
-  runtimeOptions: RuntimeGenerationOptions | false,
-  result: ReturnType<typeof resolveTheme> extends Promise<infer T> ? T : never,
-  outputDir: string,
-): Promise<Array<Promise<void>>> {
-  if (runtimeOptions === false) {
-    return [];
-  }
+type ThemeResult =
+  ReturnType<typeof resolveTheme> extends Promise<infer T> ? T : never;
 
-  const runtimeFile = generateRuntimeFile(
-    result,
-    DEFAULT_INTERFACE_NAME,
-    runtimeOptions,
-  );
-  const themePath = path.join(outputDir, OUTPUT_FILES.THEME);
-  const indexTs = `export type * from './types';\nexport * from './theme';\n`;
+/**
+ * Generated file contents, kept in memory before writing
+ */
+export interface RenderedThemeFiles {
+  /** File contents keyed by file name (e.g., 'types.ts', 'theme.ts', 'index.ts') */
+  contents: Map<string, string>;
+  /** Theme resolution result the files were rendered from */
+  result: ThemeResult;
+}
 
-  return [
-    fs.writeFile(themePath, runtimeFile, 'utf-8'),
-    fs.writeFile(path.join(outputDir, OUTPUT_FILES.INDEX), indexTs, 'utf-8'),
-  ];
+/**
+ * Options for rendering the generated files (see renderThemeFiles)
+ */
+export interface RenderThemeFilesOptions {
+  /** Absolute path to the CSS input file */
+  inputPath: string;
+  /** Absolute path to the output directory (used for relative source paths) */
+  outputDir: string;
+  /** Whether to resolve `@import` statements recursively */
+  resolveImports: boolean;
+  /** Controls what gets generated in runtime file (false = no runtime file) */
+  runtimeOptions: RuntimeGenerationOptions | false;
+  /** Control inclusion of Tailwind CSS defaults (boolean or granular options) */
+  includeDefaults: boolean | TailwindDefaultsOptions;
+  /**
+   * Enable debug logging for troubleshooting
+   * @default false
+   */
+  debug?: boolean;
+  /** Base path for resolving node_modules (defaults to input file's directory) */
+  basePath?: string;
+  /** Theme value overrides */
+  overrides?: OverrideOptions;
+  /** Nesting configuration for CSS variable keys */
+  nesting?: NestingOptions;
+  /** Output format for resolved color values */
+  colorFormat?: ColorFormat;
+  /** Fold static CSS math expressions (boolean or options with rootFontSize) */
+  evaluateMath?: boolean | EvaluateMathOptions;
+  /** Unit normalization for lengths and animation durations */
+  units?: UnitsOptions;
+  /** Path aliases for `@import` resolution */
+  aliases?: ImportAliases;
+  /** Token formats to render (e.g., DTCG or Style Dictionary JSON) */
+  formats?: OutputFormatOptions;
+}
+
+/**
+ * Options for generating theme files (see generateThemeFiles)
+ */
+export interface GenerateThemeFilesOptions extends RenderThemeFilesOptions {
+  /** Controls which diagnostic reports to generate */
+  reportOptions?: ReportGenerationOptions;
 }
 
 /**
@@ -59,7 +99,7 @@ async function prepareRuntimeFileWrites(
  *
  * @returns Package version or undefined if not found
  */
-async function findPackageVersion(): Promise<string | undefined> {
+export async function findPackageVersion(): Promise<string | undefined> {
   const possiblePaths = [
     path.join(__dirname, '../../package.json'), // From dist/v4/shared
     path.join(__dirname, '../../../package.json'), // Fallback
@@ -93,7 +133,7 @@ async function findPackageVersion(): Promise<string | undefined> {
  * @returns Conflict info or undefined
  */
 async function processConflictReports(
-  result: ReturnType<typeof resolveTheme> extends Promise<infer T> ? T : never,
+  result: ThemeResult,
   outputDir: string,
   relativeSourcePath: string,
   enabled: boolean,
@@ -134,7 +174,7 @@ async function processConflictReports(
  * @returns Unresolved variable info or undefined
  */
 async function processUnresolvedReports(
-  result: ReturnType<typeof resolveTheme> extends Promise<infer T> ? T : never,
+  result: ThemeResult,
   outputDir: string,
   relativeSourcePath: string,
   enabled: boolean,
@@ -166,6 +206,19 @@ async function processUnresolvedReports(
   };
 }
 
+/**
+ * Collects conflicts and unresolved variables from a theme result
+ *
+ * @param result - Theme resolution result
+ * @returns Diagnostics (empty arrays when none were detected)
+ */
+function getThemeDiagnostics(result: ThemeResult): ThemeDiagnostics {
+  return {
+    conflicts: (result.cssConflicts ?? []) as Array<CSSRuleConflict>,
+    unresolved: (result.unresolvedVariables ?? []) as Array<UnresolvedVariable>,
+  };
+}
+
 /**
  * Normalizes report options to ensure all properties are defined
  *
@@ -184,37 +237,121 @@ function getNormalizedReportOptions(
 }
 
 /**
- * Generates type declarations and prepares file write operations
+ * Renders type declarations, runtime and token format files without writing them
  *
  * @param result - Theme resolution result
- * @param outputDir - Output directory path
- * @param relativeSourcePath - Relative source path
- * @param runtimeOptions - Runtime generation options
- * @returns Array of write promises
+ * @param relativeSourcePath - Source path relative to the output directory (shown in headers)
+ * @param runtimeOptions - Runtime generation options (false = types only)
+ * @param formats - Additional token formats
+ * @param nesting - Nesting configuration the theme was built with
+ * @param units - Unit normalization the theme was built with
+ * @returns File contents keyed by file name
  */
-async function prepareTypeAndRuntimeWrites(
-  result: ReturnType<typeof resolveTheme> extends Promise<infer T> ? T : never,
-  outputDir: string,
+function renderFileContents(
+  result: ThemeResult,
   relativeSourcePath: string,
   runtimeOptions: RuntimeGenerationOptions | false,
-): Promise<Array<Promise<void>>> {
-  const typeDeclarations = generateTypeDeclarations(
+  formats?: OutputFormatOptions,
+  nesting?: NestingOptions,
+  units?: UnitsOptions,
+): Map<string, string> {
+  const contents = new Map<string, string>([
+    [
+      OUTPUT_FILES.TYPES,
+      generateTypeDeclarations(
+        result,
+        DEFAULT_INTERFACE_NAME,
+        relativeSourcePath,
+      ),
+    ],
+  ]);
+
+  if (runtimeOptions !== false) {
+    contents.set(
+      OUTPUT_FILES.THEME,
+      generateRuntimeFile(
+        result,
+        DEFAULT_INTERFACE_NAME,
+        runtimeOptions,
+        units,
+      ),
+    );
+    contents.set(
+      OUTPUT_FILES.INDEX,
+      `export type * from './types';\nexport * from './theme';\n`,
+    );
+  }
+
+  for (const [fileName, content] of renderFormatFiles(
     result,
-    DEFAULT_INTERFACE_NAME,
-    relativeSourcePath,
-  );
+    formats,
+    nesting,
+    units?.rootFontSize,
+  )) {
+    contents.set(fileName, content);
+  }
 
-  const typesPath = path.join(outputDir, OUTPUT_FILES.TYPES);
-  const writePromises = [fs.writeFile(typesPath, typeDeclarations, 'utf-8')];
+  return contents;
+}
 
-  const runtimeWrites = await prepareRuntimeFileWrites(
-    runtimeOptions,
-    result,
+/**
+ * Resolves the theme and renders the generated files in memory
+ *
+ * Runs the same pipeline as generateThemeFiles without touching the file system,
+ * so the output can be compared with files on disk (see checkThemeFiles).
+ *
+ * @param options - Input and output paths, resolution settings and formats
+ * @returns Rendered file contents and the theme resolution result
+ * @throws Error if input file cannot be read or parsed
+ *
+ * @example
+ * const { contents } = await renderThemeFiles({
+ *   inputPath: '/project/src/styles.css',
+ *   outputDir: '/project/src/generated/tailwindcss',
+ *   resolveImports: true,
+ *   runtimeOptions: false,
+ *   includeDefaults: true,
+ * });
+ */
+export async function renderThemeFiles(
+  options: RenderThemeFilesOptions,
+): Promise<RenderedThemeFiles> {
+  const {
+    inputPath,
     outputDir,
-  );
-  writePromises.push(...runtimeWrites);
+    runtimeOptions,
+    debug = false,
+    nesting,
+    units,
+    formats,
+  } = options;
+  const result = await resolveTheme({
+    input: inputPath,
+    resolveImports: options.resolveImports,
+    includeDefaults: options.includeDefaults,
+    debug,
+    basePath: options.basePath,
+    overrides: options.overrides,
+    nesting,
+    colorFormat: options.colorFormat,
+    evaluateMath: options.evaluateMath,
+    units,
+    aliases: options.aliases,
+  });
 
-  return writePromises;
+  const relativeSourcePath = path.relative(outputDir, inputPath);
+
+  return {
+    contents: renderFileContents(
+      result,
+      relativeSourcePath,
+      runtimeOptions,
+      formats,
+      nesting,
+      units,
+    ),
+    result,
+  };
 }
 
 /**
@@ -228,12 +365,18 @@ async function prepareTypeAndRuntimeWrites(
  * - Missing `@import` files: Silently skipped (see resolveTheme)
  * - Invalid CSS syntax: Throws error with parse details
  * - File system errors: Throws if output directory cannot be created or files cannot be written
- * - Enable `debug` parameter to log warnings for import resolution failures
+ * - Enable the `debug` option to log warnings for import resolution failures
  *
  * Generated Files:
  * - Always: types.ts (TypeScript interfaces including Tailwind and DefaultTheme)
  * - Conditional: theme.ts (runtime theme objects, if runtimeOptions is not false)
  * - Conditional: index.ts (re-exports from types.ts and theme.ts, if runtimeOptions is not false)
+ * - Conditional: tokens.json and tokens.<variant>.json (if formats.dtcg is enabled)
+ * - Conditional: style-dictionary/<variant>.json (if formats.styleDictionary is enabled)
+ * - Conditional: _tokens.scss, tokens.less and tokens.styl (if formats.scss, formats.less or formats.stylus is enabled)
+ * - Conditional: theme.css.ts and styled.d.ts (if formats.vanillaExtract or formats.styledComponents is enabled)
+ * - Conditional: figma-variables.json (if formats.figma is enabled)
+ * - Conditional: Theme.swift, Theme.kt and theme.dart (if formats.swift, formats.kotlin or formats.dart is enabled)
  * - Conditional: conflicts.md and conflicts.json (if CSS conflicts detected and reports enabled)
  * - Conditional: unresolved.md and unresolved.json (if unresolved variables detected and reports enabled)
  *
@@ -241,58 +384,35 @@ async function prepareTypeAndRuntimeWrites(
  * The types.ts file generates a Tailwind interface that users pass as a generic parameter
  * to resolveTheme<Tailwind>() for full type safety with autocomplete for all theme properties.
  *
- * @param inputPath - Absolute path to the CSS input file
- * @param outputDir - Absolute path to the output directory
- * @param resolveImports - Whether to resolve `@import` statements recursively
- * @param runtimeOptions - Controls what gets generated in runtime file (false = no runtime file)
- * @param includeDefaults - Control inclusion of Tailwind CSS defaults (boolean or granular options)
- * @param debug - Enable debug logging for troubleshooting
- * @param basePath - Base path for resolving node_modules (defaults to input file's directory)
- * @param reportOptions - Controls which diagnostic reports to generate
- * @param overrides - Optional theme value overrides
- * @param nesting - Optional nesting configuration for CSS variable keys
- * @returns Promise resolving to object with files and optional report info
+ * @param options - Input and output paths, resolution settings, reports and formats
+ * @returns Promise resolving to object with processed files, written files, diagnostics and optional report info
  * @throws Error if input file cannot be read or parsed
  * @throws Error if output files cannot be written
  */
 export async function generateThemeFiles(
-  inputPath: string,
-  outputDir: string,
-  resolveImports: boolean,
-  runtimeOptions: RuntimeGenerationOptions | false,
-  includeDefaults: boolean | TailwindDefaultsOptions,
-  debug: boolean = false,
-  basePath?: string,
-  reportOptions?: ReportGenerationOptions,
-  overrides?: OverrideOptions,
-  nesting?: NestingOptions,
+  options: GenerateThemeFilesOptions,
 ): Promise<{
   files: Array<string>;
+  outputFiles: Array<string>;
   conflictCount?: number;
   conflictReportPath?: string;
   unresolvedCount?: number;
   unresolvedReportPath?: string;
+  diagnostics: ThemeDiagnostics;
 }> {
+  const { inputPath, outputDir, reportOptions } = options;
+
   try {
-    const result = await resolveTheme({
-      input: inputPath,
-      resolveImports,
-      includeDefaults,
-      debug,
-      basePath,
-      overrides,
-      nesting,
-    });
+    const { contents, result } = await renderThemeFiles(options);
 
     const relativeSourcePath = path.relative(outputDir, inputPath);
     await fs.mkdir(outputDir, { recursive: true });
 
-    const writePromises = await prepareTypeAndRuntimeWrites(
-      result,
-      outputDir,
-      relativeSourcePath,
-      runtimeOptions,
-    );
+    const writePromises = [...contents].map(async ([fileName, content]) => {
+      const filePath = path.join(outputDir, fileName);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, content, 'utf-8');
+    });
 
     const normalizedReportOptions = getNormalizedReportOptions(reportOptions);
 
@@ -314,10 +434,14 @@ export async function generateThemeFiles(
 
     return {
       files: result.files,
+      outputFiles: [...contents.keys()].map((fileName) =>
+        path.join(outputDir, fileName),
+      ),
       conflictCount: conflictInfo?.count,
       conflictReportPath: conflictInfo?.reportPath,
       unresolvedCount: unresolvedInfo?.count,
       unresolvedReportPath: unresolvedInfo?.reportPath,
+      diagnostics: getThemeDiagnostics(result),
     };
   } catch (error) {
     const errorMessage =
@@ -0,0 +1,253 @@
+/**
+ * Token format files written next to the generated TypeScript files
+ * Renders the formats enabled in `formats` from a resolved theme
+ */
+
+import type { ExportableTheme } from '../core';
+import type { NestingOptions, OutputFormatOptions } from '../types';
+
+import { posix } from 'node:path';
+
+import {
+  exportDartTheme,
+  exportDTCGTokens,
+  exportFigmaVariables,
+  exportKotlinTheme,
+  exportPreprocessorTokens,
+  exportStyledComponentsTheme,
+  exportStyleDictionaryTokens,
+  exportSwiftTheme,
+  exportVanillaExtractTheme,
+} from '../core';
+import { JSON_INDENT_SPACES } from '../core/constants/formatting';
+import { OUTPUT_FILES } from './constants';
+
+/**
+ * Characters that cannot appear in file names (e.g., in '@md/sidebar')
+ */
+const UNSAFE_FILE_NAME_CHARS = /[\\/:*?"<>|]/g;
+
+/**
+ * Settings the theme was resolved with
+ */
+interface RenderOptions {
+  /** Nesting configuration the theme was built with */
+  nesting?: NestingOptions;
+  /** Root font size in pixels */
+  rootFontSize?: number;
+}
+
+/**
+ * Formats that are written to a single file
+ */
+type SingleFileFormat =
+  | 'scss'
+  | 'less'
+  | 'stylus'
+  | 'vanillaExtract'
+  | 'styledComponents'
+  | 'figma'
+  | 'swift'
+  | 'kotlin'
+  | 'dart';
+
+/**
+ * Options objects accepted by single-file formats (e.g., `kotlin: { packageName }`)
+ */
+type SingleFileFormatOptions = Exclude<
+  OutputFormatOptions[SingleFileFormat],
+  boolean | undefined
+>;
+
+/**
+ * Output file and renderer per single-file format
+ */
+const SINGLE_FILE_FORMATS: Record<
+  SingleFileFormat,
+  {
+    fileName: string;
+    render: (
+      result: ExportableTheme,
+      options: RenderOptions,
+      formatOptions: SingleFileFormatOptions,
+    ) => string;
+  }
+> = {
+  scss: {
+    fileName: OUTPUT_FILES.SCSS,
+    render: (result, { nesting }) =>
+      exportPreprocessorTokens(result, 'scss', { nesting }),
+  },
+  less: {
+    fileName: OUTPUT_FILES.LESS,
+    render: (result, { nesting }) =>
+      exportPreprocessorTokens(result, 'less', { nesting }),
+  },
+  stylus: {
+    fileName: OUTPUT_FILES.STYLUS,
+    render: (result, { nesting }) =>
+      exportPreprocessorTokens(result, 'stylus', { nesting }),
+  },
+  vanillaExtract: {
+    fileName: OUTPUT_FILES.VANILLA_EXTRACT,
+    render: (result, { nesting }) =>
+      exportVanillaExtractTheme(result, { nesting }),
+  },
+  styledComponents: {
+    fileName: OUTPUT_FILES.STYLED_COMPONENTS,
+    render: (result) => exportStyledComponentsTheme(result),
+  },
+  figma: {
+    fileName: OUTPUT_FILES.FIGMA,
+    render: (result, options) => toJSON(exportFigmaVariables(result, options)),
+  },
+  swift: {
+    fileName: OUTPUT_FILES.SWIFT,
+    render: (result, options) => exportSwiftTheme(result, options),
+  },
+  kotlin: {
+    fileName: OUTPUT_FILES.KOTLIN,
+    render: (result, options, { packageName }) =>
+      exportKotlinTheme(result, { ...options, packageName }),
+  },
+  dart: {
+    fileName: OUTPUT_FILES.DART,
+    render: (result, options) => exportDartTheme(result, options),
+  },
+};
+
+/**
+ * Normalizes a format option
+ *
+ * @param option - Format option (boolean or options object)
+ * @returns Options object, or undefined if the format is disabled
+ */
+function normalizeFormat<T extends object>(
+  option: boolean | T | undefined,
+): T | undefined {
+  if (option === undefined || option === false) {
+    return undefined;
+  }
+  return option === true ? ({} as T) : option;
+}
+
+/**
+ * Serializes a token document
+ *
+ * @param tokens - Token tree
+ * @returns Indented JSON with a trailing newline
+ */
+function toJSON(tokens: unknown): string {
+  return `${JSON.stringify(tokens, null, JSON_INDENT_SPACES)}\n`;
+}
+
+/**
+ * Converts a variant name to a file name part
+ *
+ * @param variant - Variant name
+ * @returns Variant name with unsafe characters replaced by '_'
+ */
+function toFileNamePart(variant: string): string {
+  return variant.replace(UNSAFE_FILE_NAME_CHARS, '_');
+}
+
+/**
+ * Inserts a variant name before a file extension
+ *
+ * @param fileName - Base file name (e.g., 'tokens.json')
+ * @param variant - Variant name, or undefined for the default theme
+ * @returns File name for the variant (e.g., 'tokens.dark.json')
+ */
+function getVariantFileName(
+  fileName: string,
+  variant: string | undefined,
+): string {
+  if (variant === undefined) {
+    return fileName;
+  }
+  const extensionIndex = fileName.lastIndexOf('.');
+  return `${fileName.slice(0, extensionIndex)}.${toFileNamePart(variant)}${fileName.slice(extensionIndex)}`;
+}
+
+/**
+ * Renders the enabled single-file formats (SCSS, Less, Stylus, vanilla-extract,
+ * styled-components, Figma Variables, Swift, Kotlin, Dart)
+ *
+ * @param result - Resolved theme
+ * @param formats - Enabled formats
+ * @param options - Settings the theme was resolved with
+ * @param contents - Map to add the file contents to
+ */
+function renderSingleFileFormats(
+  result: ExportableTheme,
+  formats: OutputFormatOptions,
+  options: RenderOptions,
+  contents: Map<string, string>,
+): void {
+  for (const format of Object.keys(
+    SINGLE_FILE_FORMATS,
+  ) as Array<SingleFileFormat>) {
+    const formatOptions = normalizeFormat(formats[format]);
+    if (formatOptions !== undefined) {
+      const { fileName, render } = SINGLE_FILE_FORMATS[format];
+      contents.set(fileName, render(result, options, formatOptions));
+    }
+  }
+}
+
+/**
+ * Renders the token format files enabled in `formats`
+ *
+ * @param result - Resolved theme
+ * @param formats - Enabled formats
+ * @param nesting - Nesting configuration the theme was built with
+ * @param rootFontSize - Root font size in pixels (used to convert rem lengths)
+ * @returns File contents keyed by path relative to the output directory (empty if no format is enabled)
+ *
+ * @example
+ * renderFormatFiles(result, { dtcg: true, styleDictionary: true })
+ * // Map { 'tokens.json' => '{...}', 'tokens.dark.json' => '{...}',
+ * //       'style-dictionary/default.json' => '{...}', 'style-dictionary/dark.json' => '{...}' }
+ *
+ * renderFormatFiles(result, { scss: true })
+ * // Map { '_tokens.scss' => '$color-primary: ...' }
+ */
+export function renderFormatFiles(
+  result: ExportableTheme,
+  formats: OutputFormatOptions | undefined,
+  nesting?: NestingOptions,
+  rootFontSize?: number,
+): Map<string, string> {
+  const contents = new Map<string, string>();
+
+  const dtcg = normalizeFormat(formats?.dtcg);
+  if (dtcg !== undefined) {
+    for (const document of exportDTCGTokens(result, { ...dtcg, nesting })) {
+      contents.set(
+        getVariantFileName(OUTPUT_FILES.DTCG, document.variant),
+        toJSON(document.tokens),
+      );
+    }
+  }
+
+  if (normalizeFormat(formats?.styleDictionary) !== undefined) {
+    for (const source of exportStyleDictionaryTokens(result, { nesting })) {
+      contents.set(
+        posix.join(
+          OUTPUT_FILES.STYLE_DICTIONARY_DIR,
+          `${toFileNamePart(source.variant)}.json`,
+        ),
+        toJSON(source.tokens),
+      );
+    }
+  }
+
+  renderSingleFileFormats(
+    result,
+    formats ?? {},
+    { nesting, rootFontSize },
+    contents,
+  );
+
+  return contents;
+}
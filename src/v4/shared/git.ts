@@ -0,0 +1,201 @@
+/**
+ * Git revision checkouts for comparing themes across revisions
+ * Materializes a revision in a temporary worktree without touching the working tree or index
+ */
+
+import { execFile } from 'node:child_process';
+import { existsSync } from 'node:fs';
+import { mkdtemp, realpath, rm, symlink } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { promisify } from 'node:util';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Error thrown when a git revision cannot be read
+ */
+export class GitRevisionError extends Error {
+  /**
+   * @param revision - Revision that was requested (e.g., 'main', 'HEAD~1')
+   * @param reason - Why the revision could not be read
+   */
+  constructor(
+    public readonly revision: string,
+    reason: string,
+  ) {
+    super(`Cannot read git revision '${revision}': ${reason}`);
+    this.name = 'GitRevisionError';
+  }
+}
+
+/**
+ * A temporary checkout of a git revision
+ */
+export interface RevisionCheckout {
+  /** Revision that was checked out */
+  revision: string;
+  /** Root of the repository in the working tree */
+  root: string;
+  /** Root of the temporary checkout */
+  directory: string;
+  /**
+   * Maps a path in the working tree to the same path in the checkout
+   * Paths outside the repository are returned unchanged
+   */
+  resolvePath: (filePath: string) => string;
+}
+
+/**
+ * Runs a git command
+ *
+ * @param args - Git arguments
+ * @param cwd - Directory to run git in
+ * @returns Trimmed standard output
+ */
+async function git(args: Array<string>, cwd: string): Promise<string> {
+  const { stdout } = await execFileAsync('git', args, { cwd });
+  return stdout.trim();
+}
+
+/**
+ * Extracts the most useful message from a failed git command
+ *
+ * @param error - Error thrown by execFile
+ * @returns First line of git's stderr, or the error message
+ */
+function describeGitError(error: unknown): string {
+  const { stderr, message } = error as { stderr?: string; message: string };
+  const firstLine = stderr?.trim().split('\n')[0];
+
+  return firstLine === undefined || firstLine === '' ? message : firstLine;
+}
+
+/**
+ * Maps a working tree path into a checkout
+ *
+ * @param filePath - Absolute path in the working tree
+ * @param roots - Repository root paths the file may be relative to
+ * @param checkoutDir - Root of the checkout
+ * @returns Path in the checkout, or the path unchanged if it is outside the repository
+ */
+function mapIntoCheckout(
+  filePath: string,
+  roots: Array<string>,
+  checkoutDir: string,
+): string {
+  for (const root of roots) {
+    const relative = path.relative(root, filePath);
+    if (!relative.startsWith('..') && !path.isAbsolute(relative)) {
+      return path.join(checkoutDir, relative);
+    }
+  }
+  return filePath;
+}
+
+/**
+ * Links the working tree's node_modules directories into a checkout
+ * Covers `directory` and each parent up to the repository root, so bare package
+ * imports (e.g., `@import "@acme/tokens"`) resolve as they do in the working tree
+ *
+ * @param directory - Real path of a directory inside the repository
+ * @param root - Real path of the repository root
+ * @param checkoutDir - Root of the checkout
+ */
+async function linkNodeModules(
+  directory: string,
+  root: string,
+  checkoutDir: string,
+): Promise<void> {
+  let current = directory;
+
+  for (;;) {
+    const source = path.join(current, 'node_modules');
+    const target = mapIntoCheckout(source, [root], checkoutDir);
+
+    // Skip directories missing at the revision and node_modules that are tracked
+    if (
+      existsSync(source) &&
+      existsSync(path.dirname(target)) &&
+      !existsSync(target)
+    ) {
+      await symlink(source, target, 'junction');
+    }
+
+    const parent = path.dirname(current);
+    if (current === root || parent === current) {
+      return;
+    }
+    current = parent;
+  }
+}
+
+/**
+ * Checks out a git revision into a temporary worktree for the duration of a callback
+ *
+ * The worktree is removed afterwards, even if the callback throws. Untracked and
+ * ignored files are not part of the checkout, except node_modules directories
+ * between `directory` and the repository root, which are linked from the working tree.
+ *
+ * @param directory - Any directory inside the repository
+ * @param revision - Commit-ish to check out (e.g., 'main', 'v1.2.0', 'HEAD~1')
+ * @param callback - Receives the checkout; its result is returned
+ * @returns The callback's result
+ * @throws GitRevisionError if the directory is not in a git repository or the revision does not exist
+ *
+ * @example
+ * const theme = await withRevisionCheckout(process.cwd(), 'main', (checkout) =>
+ *   resolveTheme({ input: checkout.resolvePath(path.resolve('src/theme.css')) }),
+ * );
+ */
+export async function withRevisionCheckout<T>(
+  directory: string,
+  revision: string,
+  callback: (checkout: RevisionCheckout) => Promise<T>,
+): Promise<T> {
+  const root = await git(['rev-parse', '--show-toplevel'], directory)
+    .then((toplevel) => realpath(toplevel))
+    .catch((error: unknown) => {
+      throw new GitRevisionError(revision, describeGitError(error));
+    });
+  const commit = await git(
+    ['rev-parse', '--verify', '--quiet', `${revision}^{commit}`],
+    root,
+  ).catch(() => {
+    throw new GitRevisionError(revision, 'unknown revision');
+  });
+
+  const checkoutDir = await mkdtemp(
+    path.join(tmpdir(), 'tailwind-resolver-rev-'),
+  );
+
+  try {
+    await git(['worktree', 'add', '--detach', checkoutDir, commit], root);
+  } catch (error) {
+    await rm(checkoutDir, { recursive: true, force: true });
+    throw new GitRevisionError(revision, describeGitError(error));
+  }
+
+  // The same root as seen through `directory`, which may be a symlinked path (e.g., /tmp on macOS)
+  const realDirectory = await realpath(directory);
+  const linkedRoot = path.resolve(
+    directory,
+    path.relative(realDirectory, root),
+  );
+
+  try {
+    await linkNodeModules(realDirectory, root, checkoutDir);
+    return await callback({
+      revision,
+      root: linkedRoot,
+      directory: checkoutDir,
+      resolvePath: (filePath) =>
+        mapIntoCheckout(filePath, [linkedRoot, root], checkoutDir),
+    });
+  } finally {
+    await git(['worktree', 'remove', '--force', checkoutDir], root).catch(
+      () => undefined,
+    );
+    await rm(checkoutDir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,222 @@
+/**
+ * Theme overrides from CLI flags and override files
+ * Parses `--override <selector>:<path>=<value>` and loads `--overrides <file>`
+ */
+
+import type { OverrideConfig, OverrideOptions, OverrideValue } from '../types';
+
+import { existsSync } from 'node:fs';
+import { resolve } from 'node:path';
+
+import { isRecord } from '../core/utils/type_guards';
+import {
+  readModuleFile,
+  validateOverrides,
+  validateOverrideValue,
+} from './config';
+
+/**
+ * Error thrown when overrides from a flag or file are malformed or invalid
+ */
+export class OverrideError extends Error {
+  /**
+   * @param source - Where the overrides came from (file path or `--override` flag)
+   * @param issues - Validation messages (one per invalid override path)
+   */
+  constructor(
+    public readonly source: string,
+    public readonly issues: Array<string>,
+  ) {
+    super(
+      `Invalid overrides in ${source}:\n${issues.map((issue) => `  - ${issue}`).join('\n')}`,
+    );
+    this.name = 'OverrideError';
+  }
+}
+
+/**
+ * Parses the value of an `--override` flag
+ * Values starting with `{` are read as the JSON object form of `OverrideValue`
+ *
+ * @param value - Raw value after `=`
+ * @param label - Override path for error messages (`<selector>:<path>`)
+ * @param flag - Full flag for error messages
+ * @returns Override value
+ * @throws OverrideError if the JSON is malformed or not a valid override value
+ */
+function parseOverrideFlagValue(
+  value: string,
+  label: string,
+  flag: string,
+): OverrideValue {
+  if (!value.trimStart().startsWith('{')) {
+    return value;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new OverrideError(`--override ${flag}`, [
+      `${label} has an invalid JSON value: ${reason}`,
+    ]);
+  }
+
+  const issues: Array<string> = [];
+  if (!isRecord(parsed) || !('value' in parsed)) {
+    issues.push(`${label} must be a string or a { value } object`);
+  } else {
+    validateOverrideValue(parsed, label, issues);
+  }
+
+  if (issues.length > 0) {
+    throw new OverrideError(`--override ${flag}`, issues);
+  }
+
+  return parsed as OverrideValue;
+}
+
+/**
+ * Finds the `:` ending the selector and the `=` starting the value of an
+ * `--override` flag, skipping over `(...)` and `[...]` in the selector
+ *
+ * @param flag - Flag value (e.g., `[data-theme="dark"]:colors.background=#000`)
+ * @returns Index of the selector `:` and of the value `=` (-1 when missing)
+ */
+function findOverrideFlagSeparators(flag: string): {
+  colonIndex: number;
+  equalsIndex: number;
+} {
+  let depth = 0;
+  let colonIndex = -1;
+  for (let index = 0; index < flag.length; index++) {
+    const char = flag.charAt(index);
+    if ('(['.includes(char)) {
+      depth++;
+    } else if (')]'.includes(char)) {
+      depth--;
+    } else if (depth === 0 && char === ':') {
+      colonIndex = index;
+    } else if (depth === 0 && char === '=') {
+      return { colonIndex, equalsIndex: index };
+    }
+  }
+
+  return { colonIndex, equalsIndex: -1 };
+}
+
+/**
+ * Parses an `--override` flag into overrides for one selector and path
+ *
+ * The selector ends at the last `:` outside brackets before the first `=`
+ * outside brackets, so selectors containing colons or `=` (e.g.,
+ * `@media (prefers-color-scheme: dark)`, `[data-theme="dark"]`) work.
+ *
+ * @param flag - Flag value (e.g., `dark:colors.background=#000`)
+ * @returns Overrides containing the single path
+ * @throws OverrideError if the flag is malformed or its value is invalid
+ *
+ * @example
+ * parseOverrideFlag('dark:colors.background=#000')
+ * // { dark: { 'colors.background': '#000' } }
+ * parseOverrideFlag('[data-theme="dark"]:colors.background=#000')
+ * // { '[data-theme="dark"]': { 'colors.background': '#000' } }
+ * parseOverrideFlag('*:fonts.sans={"value":"Inter","resolveVars":false}')
+ * // { '*': { 'fonts.sans': { value: 'Inter', resolveVars: false } } }
+ */
+export function parseOverrideFlag(flag: string): OverrideOptions {
+  const { colonIndex, equalsIndex } = findOverrideFlagSeparators(flag);
+  const target = equalsIndex === -1 ? flag : flag.slice(0, equalsIndex);
+  const selector = target.slice(0, colonIndex).trim();
+  const path = target.slice(colonIndex + 1).trim();
+
+  if (equalsIndex === -1 || colonIndex === -1 || selector === '') {
+    throw new OverrideError(`--override ${flag}`, [
+      'Expected <selector>:<path>=<value> (e.g., dark:colors.background=#000)',
+    ]);
+  }
+
+  const label = `${selector}:${path}`;
+  if (path === '' || path.split('.').some((segment) => segment === '')) {
+    throw new OverrideError(`--override ${flag}`, [
+      `${label} is not a valid token path (e.g., colors.primary.500)`,
+    ]);
+  }
+
+  const value = parseOverrideFlagValue(
+    flag.slice(equalsIndex + 1),
+    label,
+    flag,
+  );
+
+  return { [selector]: { [path]: value } };
+}
+
+/**
+ * Loads and validates an overrides file
+ * The file holds (or default-exports) `OverrideOptions`: selector → path → value
+ *
+ * @param file - Path to a .json, .ts or .mjs file
+ * @param directory - Directory relative paths are resolved against
+ * @returns Validated overrides
+ * @throws OverrideError if the file is missing, fails to load or is invalid
+ *
+ * @example
+ * // overrides.json: { "dark": { "colors.background": "#000" } }
+ * await loadOverridesFile('overrides.json', process.cwd());
+ */
+export async function loadOverridesFile(
+  file: string,
+  directory: string,
+): Promise<OverrideOptions> {
+  const path = resolve(directory, file);
+
+  if (!existsSync(path)) {
+    throw new OverrideError(path, ['Overrides file not found']);
+  }
+
+  let value: unknown;
+  try {
+    value = await readModuleFile(path);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new OverrideError(path, [`Failed to load overrides: ${reason}`]);
+  }
+
+  const issues: Array<string> = [];
+  validateOverrides(value, '', issues);
+
+  if (issues.length > 0) {
+    throw new OverrideError(path, issues);
+  }
+
+  return value as OverrideOptions;
+}
+
+/**
+ * Layers override options, later ones taking precedence
+ * Paths are merged per selector, so a flag keeps the file's other paths
+ *
+ * @param layers - Overrides from lowest to highest precedence
+ * @returns Merged overrides, or undefined if no layer has any
+ *
+ * @example
+ * mergeOverrides({ dark: { 'colors.a': '#000' } }, { dark: { 'colors.b': '#111' } })
+ * // { dark: { 'colors.a': '#000', 'colors.b': '#111' } }
+ */
+export function mergeOverrides(
+  ...layers: Array<OverrideOptions | undefined>
+): OverrideOptions | undefined {
+  const merged: Record<string, Record<string, unknown>> = {};
+
+  for (const layer of layers) {
+    for (const [selector, config] of Object.entries(layer ?? {})) {
+      merged[selector] = { ...merged[selector], ...config };
+    }
+  }
+
+  return Object.keys(merged).length === 0
+    ? undefined
+    : (merged as Record<string, OverrideConfig>);
+}
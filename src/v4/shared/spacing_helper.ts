@@ -10,6 +10,9 @@
  * - As object: spacing.xs → '0.75rem'
  * - As function: spacing(4) → 'calc(0.25rem * 4)'
  *
+ * When spacing values were normalized to numbers (`units: { length: 'number' }`),
+ * the function multiplies instead: spacing(4) → 16
+ *
  * @param spacingValues - Record of spacing values from the theme (e.g., { base: '0.25rem', xs: '0.75rem' })
  * @param fallbackBase - Fallback base spacing unit if not defined in spacingValues
  * @returns Callable object that can be accessed as properties or called as function
@@ -17,11 +20,22 @@
 export function createSpacingHelper(
   spacingValues: Record<string, string>,
   fallbackBase: string,
-): Record<string, string> & ((n: number) => string) {
+): Record<string, string> & ((n: number) => string);
+export function createSpacingHelper(
+  spacingValues: Record<string, number>,
+  fallbackBase: number,
+): Record<string, number> & ((n: number) => number);
+export function createSpacingHelper(
+  spacingValues: Record<string, string | number>,
+  fallbackBase: string | number,
+): Record<string, string | number> & ((n: number) => string | number) {
   const baseUnit = spacingValues.base ?? fallbackBase;
 
   // Create the callable function
-  const spacingFn = (n: number): string => {
+  const spacingFn = (n: number): string | number => {
+    if (typeof baseUnit === 'number') {
+      return baseUnit * n;
+    }
     return `calc(${baseUnit} * ${n})`;
   };
 
@@ -7,10 +7,24 @@ import type {
   RuntimeGenerationOptions,
   TailwindResult,
   Theme,
+  UnitsOptions,
 } from '../types';
 
+import { convertLength } from '../core/units/normalize';
+
 const JSON_INDENT_SPACES = 2;
 
+/**
+ * Spacing base used by Tailwind when the theme does not define `--spacing`
+ */
+const DEFAULT_SPACING_BASE = '0.25rem';
+
+/**
+ * Type of a raw CSS variable entry in generated files
+ */
+const CSS_VARIABLE_TYPE =
+  "{ name: string; value: string; source: string; selector?: string; variantName?: string; location?: { file?: string; line: number; column: number }; themeModes?: Array<'inline' | 'static' | 'reference' | 'default'> }";
+
 /**
  * Converts TailwindResult to ParseResult format for compatibility with generator functions
  * This allows us to use the same generator logic for both runtime and build-time results
@@ -69,7 +83,7 @@ const THEME_PROPERTY_CONFIGS: Array<PropertyConfig> = [
   },
   {
     key: 'fonts',
-    generator: (v) => generateRecordType(v as Record<string, string>),
+    generator: (v) => generateRecordType(v as Record<string, string | number>),
   },
   {
     key: 'fontWeight',
@@ -78,59 +92,59 @@ const THEME_PROPERTY_CONFIGS: Array<PropertyConfig> = [
   },
   {
     key: 'spacing',
-    generator: (v) => generateSpacingType(v as Record<string, string>),
+    generator: (v) => generateSpacingType(v as Record<string, string | number>),
   },
   {
     key: 'breakpoints',
-    generator: (v) => generateRecordType(v as Record<string, string>),
+    generator: (v) => generateRecordType(v as Record<string, string | number>),
   },
   {
     key: 'containers',
-    generator: (v) => generateRecordType(v as Record<string, string>),
+    generator: (v) => generateRecordType(v as Record<string, string | number>),
   },
   {
     key: 'radius',
-    generator: (v) => generateRecordType(v as Record<string, string>),
+    generator: (v) => generateRecordType(v as Record<string, string | number>),
   },
   {
     key: 'shadows',
-    generator: (v) => generateRecordType(v as Record<string, string>),
+    generator: (v) => generateRecordType(v as Record<string, string | number>),
   },
   {
     key: 'insetShadows',
-    generator: (v) => generateRecordType(v as Record<string, string>),
+    generator: (v) => generateRecordType(v as Record<string, string | number>),
   },
   {
     key: 'dropShadows',
-    generator: (v) => generateRecordType(v as Record<string, string>),
+    generator: (v) => generateRecordType(v as Record<string, string | number>),
   },
   {
     key: 'textShadows',
-    generator: (v) => generateRecordType(v as Record<string, string>),
+    generator: (v) => generateRecordType(v as Record<string, string | number>),
   },
   {
     key: 'blur',
-    generator: (v) => generateRecordType(v as Record<string, string>),
+    generator: (v) => generateRecordType(v as Record<string, string | number>),
   },
   {
     key: 'perspective',
-    generator: (v) => generateRecordType(v as Record<string, string>),
+    generator: (v) => generateRecordType(v as Record<string, string | number>),
   },
   {
     key: 'aspect',
-    generator: (v) => generateRecordType(v as Record<string, string>),
+    generator: (v) => generateRecordType(v as Record<string, string | number>),
   },
   {
     key: 'ease',
-    generator: (v) => generateRecordType(v as Record<string, string>),
+    generator: (v) => generateRecordType(v as Record<string, string | number>),
   },
   {
     key: 'animations',
-    generator: (v) => generateRecordType(v as Record<string, string>),
+    generator: (v) => generateRecordType(v as Record<string, string | number>),
   },
   {
     key: 'tracking',
-    generator: (v) => generateRecordType(v as Record<string, string>),
+    generator: (v) => generateRecordType(v as Record<string, string | number>),
   },
   {
     key: 'leading',
@@ -139,11 +153,11 @@ const THEME_PROPERTY_CONFIGS: Array<PropertyConfig> = [
   },
   {
     key: 'defaults',
-    generator: (v) => generateRecordType(v as Record<string, string>),
+    generator: (v) => generateRecordType(v as Record<string, string | number>),
   },
   {
     key: 'keyframes',
-    generator: (v) => generateRecordType(v as Record<string, string>),
+    generator: (v) => generateRecordType(v as Record<string, string | number>),
   },
 ] as const;
 
@@ -287,9 +301,7 @@ function generateTypeDeclarationsInternal(
   typeDefinitions.push('  files: Array<string>;');
 
   typeDefinitions.push(`  /** Raw CSS variables */`);
-  typeDefinitions.push(
-    '  variables: Array<{ name: string; value: string; source: string; selector?: string; variantName?: string }>;',
-  );
+  typeDefinitions.push(`  variables: Array<${CSS_VARIABLE_TYPE}>;`);
 
   typeDefinitions.push('}');
   typeDefinitions.push('');
@@ -359,19 +371,33 @@ function generateFontSizeTypes(fontSize: Theme['fontSize']): string {
   const fontSizeProps = entries
     .map(([key, config]) => {
       const safeKey = isValidIdentifier(key) ? key : `'${key}'`;
+      const sizeType = generateValueType(config.size);
 
       if (config.lineHeight !== undefined) {
-        return `${safeKey}: { size: '${config.size}'; lineHeight: '${config.lineHeight}' }`;
+        return `${safeKey}: { size: ${sizeType}; lineHeight: ${generateValueType(config.lineHeight)} }`;
       }
 
-      return `${safeKey}: { size: '${config.size}'; lineHeight?: undefined }`;
+      return `${safeKey}: { size: ${sizeType}; lineHeight?: undefined }`;
     })
     .join(';\n  ');
 
   return `{\n  ${fontSizeProps}\n}`;
 }
 
-function generateRecordType(obj: Record<string, string>): string {
+/**
+ * Generates the type for a single theme value
+ * Strings become literal types; numbers (from unit normalization) are typed as `number`
+ *
+ * @param value - Theme value
+ * @returns Type string for the value
+ */
+function generateValueType(value: string | number): string {
+  return typeof value === 'number'
+    ? 'number'
+    : `'${escapeStringLiteral(value)}'`;
+}
+
+function generateRecordType(obj: Record<string, string | number>): string {
   const entries = Object.entries(obj);
 
   if (entries.length === 0) {
@@ -381,7 +407,7 @@ function generateRecordType(obj: Record<string, string>): string {
   const props = entries
     .map(([key, value]) => {
       const safeKey = isValidIdentifier(key) ? key : `'${key}'`;
-      return `${safeKey}: '${escapeStringLiteral(value)}'`;
+      return `${safeKey}: ${generateValueType(value)}`;
     })
     .join(';\n  ');
 
@@ -395,7 +421,7 @@ function generateRecordType(obj: Record<string, string>): string {
  * @param obj - The spacing object with keys like base, xs, sm, etc.
  * @returns Type string for spacing
  */
-function generateSpacingType(obj: Record<string, string>): string {
+function generateSpacingType(obj: Record<string, string | number>): string {
   const entries = Object.entries(obj);
 
   if (entries.length === 0) {
@@ -405,12 +431,15 @@ function generateSpacingType(obj: Record<string, string>): string {
   const props = entries
     .map(([key, value]) => {
       const safeKey = isValidIdentifier(key) ? key : `'${key}'`;
-      return `${safeKey}: '${escapeStringLiteral(value)}'`;
+      return `${safeKey}: ${generateValueType(value)}`;
     })
     .join(';\n  ');
 
+  // Numeric spacing (unit normalization) multiplies instead of emitting calc()
+  const returnType = typeof obj.base === 'number' ? 'number' : 'string';
+
   // Intersection type: callable function & record of static values
-  return `{\n  ${props}\n} & ((n: number) => string)`;
+  return `{\n  ${props}\n} & ((n: number) => ${returnType})`;
 }
 
 function isValidIdentifier(str: string): boolean {
@@ -452,6 +481,28 @@ function toSafeIdentifier(str: string): string {
   return safe;
 }
 
+/**
+ * Returns the spacing base the runtime spacing helpers fall back to
+ * Uses the default theme's `spacing.base`, or Tailwind's base converted to the
+ * normalized length unit so numeric themes get a numeric fallback
+ *
+ * @param spacing - Spacing values of the default theme
+ * @param units - Unit normalization the theme was built with
+ * @returns Spacing base (a number when lengths are raw pixel numbers)
+ */
+function getSpacingFallback(
+  spacing: Record<string, unknown> | undefined,
+  units?: UnitsOptions,
+): string | number {
+  const base = spacing?.base;
+  if (typeof base === 'string' || typeof base === 'number') {
+    return base;
+  }
+  return units?.length === undefined
+    ? DEFAULT_SPACING_BASE
+    : convertLength(DEFAULT_SPACING_BASE, units.length, units.rootFontSize);
+}
+
 /**
  * Checks if a theme property has any keys
  *
@@ -554,6 +605,7 @@ function generateVariantExports(
  * @param result - The parsed theme result
  * @param interfaceName - Name of the generated interface for type annotations
  * @param runtimeOptions - Controls what gets exported in the runtime file
+ * @param units - Unit normalization the theme was built with
  * @returns TypeScript runtime file string
  */
 // eslint-disable-next-line complexity
@@ -566,6 +618,7 @@ function generateRuntimeFileInternal(
     files: false,
     variables: false,
   },
+  units?: UnitsOptions,
 ): string {
   const lines: Array<string> = [];
 
@@ -610,9 +663,10 @@ function generateRuntimeFileInternal(
   const { variantsObj, selectorsObj } = buildVariantsAndSelectors(result);
 
   // Get default spacing base for fallback
-  const defaultSpacingBase =
-    (result.theme.spacing as Record<string, string> | undefined)?.base ??
-    '0.25rem';
+  const defaultSpacingBase = getSpacingFallback(
+    result.theme.spacing as Record<string, unknown> | undefined,
+    units,
+  );
 
   // Conditionally export variants
   if (runtimeOptions.variants === true) {
@@ -686,7 +740,7 @@ function generateRuntimeFileInternal(
     lines.push(' * Raw CSS variables');
     lines.push(' */');
     lines.push(
-      `export const variables: Array<{ name: string; value: string; source: string; selector?: string; variantName?: string }> = ${JSON.stringify(result.variables, null, JSON_INDENT_SPACES)};`,
+      `export const variables: Array<${CSS_VARIABLE_TYPE}> = ${JSON.stringify(result.variables, null, JSON_INDENT_SPACES)};`,
     );
     lines.push('');
   }
@@ -776,6 +830,7 @@ export function generateTypeDeclarations(
  * @param result - Either TailwindResult (from resolveTheme) or ParseResult (from parseCSS)
  * @param interfaceName - Name of the generated interface for type annotations
  * @param runtimeOptions - Controls what gets exported in the runtime file
+ * @param units - Unit normalization the theme was built with (sets the spacing fallback)
  * @returns TypeScript runtime file string
  */
 export function generateRuntimeFile(
@@ -787,6 +842,7 @@ export function generateRuntimeFile(
     files: false,
     variables: false,
   },
+  units?: UnitsOptions,
 ): string {
   // Check if it's a TailwindResult by looking for the new structure
   const isTailwindResult = 'variants' in result && 'default' in result.variants;
@@ -798,6 +854,7 @@ export function generateRuntimeFile(
       parseResult,
       interfaceName,
       runtimeOptions,
+      units,
     );
   }
 
@@ -806,5 +863,6 @@ export function generateRuntimeFile(
     result as ParseResult,
     interfaceName,
     runtimeOptions,
+    units,
   );
 }
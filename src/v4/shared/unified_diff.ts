@@ -0,0 +1,324 @@
+/**
+ * Line-based unified diff used to report drift in generated files
+ * Implements Myers' O(ND) difference algorithm without external dependencies
+ */
+
+/**
+ * Lines of unchanged context shown around each change
+ */
+const DEFAULT_CONTEXT_LINES = 3;
+
+/**
+ * Edit distance above which the diff falls back to replacing the whole range
+ * Bounds memory for files that were rewritten entirely
+ */
+const MAX_EDIT_DISTANCE = 2000;
+
+/**
+ * A single line-level edit
+ */
+interface DiffOp {
+  /** Edit kind */
+  type: 'equal' | 'delete' | 'insert';
+  /** Line content (without newline) */
+  line: string;
+}
+
+/**
+ * Splits text into lines, ignoring the trailing newline
+ *
+ * @param text - Text to split
+ * @returns Lines without newline characters
+ */
+function splitLines(text: string): Array<string> {
+  if (text === '') {
+    return [];
+  }
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * Diagonals reachable with d edits share the parity of d
+ */
+const DIAGONAL_STEP = 2;
+
+/**
+ * Line prefixes for each edit kind
+ */
+const DIFF_PREFIXES: Record<DiffOp['type'], string> = {
+  equal: ' ',
+  delete: '-',
+  insert: '+',
+};
+
+/**
+ * Determines whether diagonal k is reached by an insertion (down) from k + 1
+ *
+ * @param v - Furthest-reaching x per diagonal after d - 1 edits
+ * @param k - Diagonal (x - y)
+ * @param d - Edit distance
+ * @returns True for an insertion from k + 1, false for a deletion from k - 1
+ */
+function movesDown(v: Map<number, number>, k: number, d: number): boolean {
+  return k === -d || (k !== d && (v.get(k - 1) ?? -1) < (v.get(k + 1) ?? -1));
+}
+
+/**
+ * Follows matching lines diagonally
+ *
+ * @param a - Old lines
+ * @param b - New lines
+ * @param x - Starting index into `a`
+ * @param k - Diagonal (x - y)
+ * @returns Furthest x reached on the diagonal
+ */
+function slide(
+  a: Array<string>,
+  b: Array<string>,
+  x: number,
+  k: number,
+): number {
+  let end = x;
+  while (end < a.length && end - k < b.length && a[end] === b[end - k]) {
+    end++;
+  }
+  return end;
+}
+
+/**
+ * Runs the forward pass of Myers' algorithm
+ *
+ * @param a - Old lines
+ * @param b - New lines
+ * @returns Furthest-reaching x per diagonal for each edit distance, or null if too different
+ */
+function traceEdits(
+  a: Array<string>,
+  b: Array<string>,
+): Array<Map<number, number>> | null {
+  const limit = Math.min(a.length + b.length, MAX_EDIT_DISTANCE);
+  const trace: Array<Map<number, number>> = [];
+  let previous = new Map<number, number>([[1, 0]]);
+
+  for (let d = 0; d <= limit; d++) {
+    const v = new Map<number, number>();
+    trace.push(v);
+    for (let k = -d; k <= d; k += DIAGONAL_STEP) {
+      const start = movesDown(previous, k, d)
+        ? (previous.get(k + 1) ?? 0)
+        : (previous.get(k - 1) ?? 0) + 1;
+      const x = slide(a, b, start, k);
+      v.set(k, x);
+      if (x >= a.length && x - k >= b.length) {
+        return trace;
+      }
+    }
+    previous = v;
+  }
+
+  return null;
+}
+
+/**
+ * Finds the edit that led to point (x, y) after d edits
+ *
+ * @param a - Old lines
+ * @param b - New lines
+ * @param v - Furthest-reaching x per diagonal after d - 1 edits
+ * @param point - Current point as [x, y]
+ * @param d - Edit distance
+ * @returns The edit, the point before it, and the x where the following matches begin
+ */
+function previousEdit(
+  a: Array<string>,
+  b: Array<string>,
+  v: Map<number, number>,
+  point: [number, number],
+  d: number,
+): { op: DiffOp; from: [number, number]; matchStart: number } {
+  const k = point[0] - point[1];
+  const down = movesDown(v, k, d);
+  const prevK = down ? k + 1 : k - 1;
+  const prevX = v.get(prevK) ?? 0;
+  const prevY = prevX - prevK;
+
+  return down
+    ? {
+        op: { type: 'insert', line: b[prevY] ?? '' },
+        from: [prevX, prevY],
+        matchStart: prevX,
+      }
+    : {
+        op: { type: 'delete', line: a[prevX] ?? '' },
+        from: [prevX, prevY],
+        matchStart: prevX + 1,
+      };
+}
+
+/**
+ * Walks the trace backwards to produce the edit script
+ *
+ * @param a - Old lines
+ * @param b - New lines
+ * @param trace - Forward pass result
+ * @returns Edits in order
+ */
+function backtrack(
+  a: Array<string>,
+  b: Array<string>,
+  trace: Array<Map<number, number>>,
+): Array<DiffOp> {
+  const ops: Array<DiffOp> = [];
+  let point: [number, number] = [a.length, b.length];
+
+  for (let d = trace.length - 1; d > 0; d--) {
+    const edit = previousEdit(a, b, trace[d - 1] ?? new Map(), point, d);
+
+    // Matching lines after the edit
+    for (let x = point[0]; x > edit.matchStart; x--) {
+      ops.push({ type: 'equal', line: a[x - 1] ?? '' });
+    }
+    ops.push(edit.op);
+    point = edit.from;
+  }
+
+  for (let x = point[0]; x > 0; x--) {
+    ops.push({ type: 'equal', line: a[x - 1] ?? '' });
+  }
+
+  return ops.reverse();
+}
+
+/**
+ * Computes line edits between two texts
+ *
+ * @param a - Old lines
+ * @param b - New lines
+ * @returns Edit script (falls back to delete-all/insert-all for very different inputs)
+ */
+function diffLines(a: Array<string>, b: Array<string>): Array<DiffOp> {
+  const trace = traceEdits(a, b);
+
+  if (trace === null) {
+    return [
+      ...a.map((line): DiffOp => ({ type: 'delete', line })),
+      ...b.map((line): DiffOp => ({ type: 'insert', line })),
+    ];
+  }
+
+  return backtrack(a, b, trace);
+}
+
+/**
+ * Formats a hunk range for the `@@` header
+ *
+ * @param start - Zero-based index of the first line in the hunk
+ * @param count - Number of lines in the hunk
+ * @returns Range (e.g., '12,7', or '11,0' for an empty range after line 11)
+ */
+function formatRange(start: number, count: number): string {
+  return count === 0 ? `${start},0` : `${start + 1},${count}`;
+}
+
+/**
+ * Groups edits into hunks with surrounding context
+ *
+ * @param ops - Edit script
+ * @param context - Lines of context around changes
+ * @returns Hunks as [start, end) ranges into `ops`
+ */
+function groupHunks(
+  ops: Array<DiffOp>,
+  context: number,
+): Array<[number, number]> {
+  const hunks: Array<[number, number]> = [];
+
+  ops.forEach((op, index) => {
+    if (op.type === 'equal') {
+      return;
+    }
+    const start = Math.max(0, index - context);
+    const end = Math.min(ops.length, index + context + 1);
+    const last = hunks[hunks.length - 1];
+    if (last !== undefined && start <= last[1]) {
+      last[1] = end;
+    } else {
+      hunks.push([start, end]);
+    }
+  });
+
+  return hunks;
+}
+
+/**
+ * Computes the old and new line offsets before each edit
+ *
+ * @param ops - Edit script
+ * @returns Zero-based offsets into the old and new text, one per edit
+ */
+function lineOffsets(ops: Array<DiffOp>): Array<[number, number]> {
+  const offsets: Array<[number, number]> = [];
+  let oldLine = 0;
+  let newLine = 0;
+
+  for (const op of ops) {
+    offsets.push([oldLine, newLine]);
+    oldLine += op.type === 'insert' ? 0 : 1;
+    newLine += op.type === 'delete' ? 0 : 1;
+  }
+
+  return offsets;
+}
+
+/**
+ * Creates a unified diff between two texts
+ *
+ * @param oldText - Original text (e.g., file on disk)
+ * @param newText - Updated text (e.g., freshly generated file)
+ * @param oldLabel - Label for the `---` header
+ * @param newLabel - Label for the `+++` header
+ * @param context - Lines of unchanged context around changes (default: 3)
+ * @returns Unified diff, or an empty string when the texts are equal
+ *
+ * @example
+ * createUnifiedDiff('a\nb\n', 'a\nc\n', 'a/theme.ts', 'b/theme.ts')
+ * // --- a/theme.ts
+ * // +++ b/theme.ts
+ * // @@ -1,2 +1,2 @@
+ * //  a
+ * // -b
+ * // +c
+ */
+export function createUnifiedDiff(
+  oldText: string,
+  newText: string,
+  oldLabel: string,
+  newLabel: string,
+  context: number = DEFAULT_CONTEXT_LINES,
+): string {
+  if (oldText === newText) {
+    return '';
+  }
+
+  const ops = diffLines(splitLines(oldText), splitLines(newText));
+  const offsets = lineOffsets(ops);
+  const lines = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+
+  for (const [start, end] of groupHunks(ops, context)) {
+    const hunk = ops.slice(start, end);
+    const [oldStart, newStart] = offsets[start] ?? [0, 0];
+    const oldCount = hunk.filter((op) => op.type !== 'insert').length;
+    const newCount = hunk.filter((op) => op.type !== 'delete').length;
+
+    lines.push(
+      `@@ -${formatRange(oldStart, oldCount)} +${formatRange(newStart, newCount)} @@`,
+      ...hunk.map((op) => `${DIFF_PREFIXES[op.type]}${op.line}`),
+    );
+  }
+
+  return `${lines.join('\n')}\n`;
+}
@@ -187,6 +187,32 @@ export interface Theme {
   keyframes: ThemeKeyframes;
 }
 
+/**
+ * Position of a declaration in its source CSS file
+ */
+export interface SourceLocation {
+  /**
+   * Absolute path of the file that declared the node
+   * Undefined when parsing inline CSS (the `css` option)
+   */
+  file?: string;
+  /** 1-based line number */
+  line: number;
+  /** 1-based column number */
+  column: number;
+}
+
+/**
+ * Modifier on a Tailwind v4 `@theme` block (e.g., `@theme inline reference`)
+ *
+ * - `inline`: values are used in place instead of through `var(--name)`
+ *   (recorded only; resolution already substitutes `var()` in place per variant)
+ * - `static`: all variables are emitted, even when unused
+ * - `reference`: variables are available for resolution but not emitted
+ * - `default`: values are overridable defaults (as in Tailwind's own theme.css)
+ */
+export type ThemeMode = 'inline' | 'static' | 'reference' | 'default';
+
 /**
  * Raw CSS variable resolved from parsing
  */
@@ -204,6 +230,20 @@ export interface CSSVariable {
    * Examples: 'dark', 'blue', 'midnight'
    */
   variantName?: string;
+  /**
+   * Where the variable was declared (file follows `@import` resolution)
+   */
+  location?: SourceLocation;
+  /**
+   * For theme source: modifiers of the declaring `@theme` block
+   * Omitted for plain `@theme` blocks
+   */
+  themeModes?: Array<ThemeMode>;
+  /**
+   * Value as written in the CSS, when resolving var() references changed it
+   * Only set on the variables of a resolved result
+   */
+  rawValue?: string;
 }
 
 /**
@@ -702,6 +742,42 @@ export interface ReportGenerationOptions {
   unresolved?: boolean;
 }
 
+/**
+ * How likely a diagnostic is to be a real problem
+ *
+ * - Conflicts use their confidence level
+ * - Unresolved variables: `high` without a fallback, `medium` with a fallback,
+ *   `low` for Tailwind (`--tw-*`) and self-referential variables
+ */
+export type DiagnosticLevel = 'low' | 'medium' | 'high';
+
+/**
+ * Diagnostics that fail generation
+ *
+ * - `true`: Fail on any diagnostic in the category
+ * - `false`: Never fail (default)
+ * - Level: Fail on diagnostics at or above the level
+ *
+ * @example
+ * ```typescript
+ * // Fail on every unresolved variable and on medium/high confidence conflicts
+ * { unresolved: true, conflicts: 'medium' }
+ * ```
+ */
+export interface FailOnOptions {
+  /**
+   * Fail on CSS rules that conflict with theme variables
+   * @default false
+   */
+  conflicts?: boolean | DiagnosticLevel;
+
+  /**
+   * Fail on var() references that could not be resolved
+   * @default false
+   */
+  unresolved?: boolean | DiagnosticLevel;
+}
+
 /**
  * Options for controlling what gets generated in runtime files
  *
@@ -791,6 +867,102 @@ export interface RuntimeGenerationOptions {
   reports?: boolean | ReportGenerationOptions;
 }
 
+/**
+ * Options for the W3C Design Tokens (DTCG) output format
+ */
+export interface DTCGFormatOptions {
+  /**
+   * How variants are written
+   * - `'files'`: `tokens.json` for the default theme plus `tokens.<variant>.json` per variant
+   *   holding only the tokens the variant changes
+   * - `'modes'`: a single `tokens.json` with one top-level group per variant
+   * @default 'files'
+   */
+  variants?: 'files' | 'modes';
+}
+
+/**
+ * Options for the Kotlin format
+ */
+export interface KotlinFormatOptions {
+  /**
+   * Package of `Theme.kt`
+   * @default 'theme'
+   */
+  packageName?: string;
+}
+
+/**
+ * Token formats written next to the generated TypeScript files
+ * Every format is off by default; `true` enables it with default options.
+ *
+ * @example
+ * ```typescript
+ * // W3C Design Tokens with one group per variant
+ * {
+ *   dtcg: { variants: 'modes' }
+ * }
+ * ```
+ */
+export interface OutputFormatOptions {
+  /**
+   * W3C Design Tokens Community Group JSON (`$value`, `$type`, `$description`)
+   * @default false
+   */
+  dtcg?: boolean | DTCGFormatOptions;
+  /**
+   * Style Dictionary source JSON (`value`, `comment`), one file per variant
+   * in `style-dictionary/<variant>.json`
+   * @default false
+   */
+  styleDictionary?: boolean;
+  /**
+   * SCSS variables and maps (`_tokens.scss`)
+   * @default false
+   */
+  scss?: boolean;
+  /**
+   * Less variables and maps (`tokens.less`)
+   * @default false
+   */
+  less?: boolean;
+  /**
+   * Stylus variables and hashes (`tokens.styl`)
+   * @default false
+   */
+  stylus?: boolean;
+  /**
+   * vanilla-extract theme contract and themes (`theme.css.ts`)
+   * @default false
+   */
+  vanillaExtract?: boolean;
+  /**
+   * styled-components `DefaultTheme` augmentation (`styled.d.ts`)
+   * @default false
+   */
+  styledComponents?: boolean;
+  /**
+   * Figma Variables REST API payload (`figma-variables.json`)
+   * @default false
+   */
+  figma?: boolean;
+  /**
+   * SwiftUI `enum Theme` with `Color` and `CGFloat` members (`Theme.swift`)
+   * @default false
+   */
+  swift?: boolean;
+  /**
+   * Jetpack Compose theme tokens with one instance per variant (`Theme.kt`)
+   * @default false
+   */
+  kotlin?: boolean | KotlinFormatOptions;
+  /**
+   * Flutter `ThemeExtension` with one constant per variant (`theme.dart`)
+   * @default false
+   */
+  dart?: boolean;
+}
+
 /**
  * Represents the value for an override entry
  * Can be a simple string value or a detailed override with options
@@ -864,6 +1036,96 @@ export interface OverrideOptions {
   [selectorOrVariant: string]: OverrideConfig;
 }
 
+/**
+ * Output format for resolved color values
+ *
+ * - `'hex'`: `#rrggbb` (or `#rrggbbaa` when translucent)
+ * - `'rgb'`: `rgb(r, g, b)` (or `rgba(r, g, b, a)` when translucent)
+ * - `'hsl'`: `hsl(h, s%, l%)` (or `hsla(h, s%, l%, a)` when translucent)
+ */
+export type ColorFormat = 'hex' | 'rgb' | 'hsl';
+
+/**
+ * Options for static evaluation of CSS math functions
+ */
+export interface EvaluateMathOptions {
+  /**
+   * Root font size in pixels used to convert between rem and px
+   * @default 16
+   */
+  rootFontSize?: number;
+}
+
+/**
+ * Options for normalizing units in resolved theme values
+ */
+export interface UnitsOptions {
+  /**
+   * Target unit for length values in spacing, radius, breakpoints, containers,
+   * fontSize, tracking and blur
+   * - `'px'`: `'0.25rem'` → `'4px'`
+   * - `'rem'`: `'4px'` → `'0.25rem'`
+   * - `'number'`: `'0.25rem'` → `4` (pixels as raw numbers)
+   * @default undefined (lengths kept as authored)
+   */
+  length?: 'px' | 'rem' | 'number';
+  /**
+   * Target unit for durations in animations
+   * @default undefined (durations kept as authored)
+   */
+  time?: 'ms' | 's';
+  /**
+   * Root font size in pixels used to convert rem and em values
+   * @default 16
+   */
+  rootFontSize?: number;
+}
+
+/**
+ * Theme properties whose values are lengths (fontSize is handled separately)
+ */
+export type LengthThemeProperty =
+  | 'spacing'
+  | 'radius'
+  | 'breakpoints'
+  | 'containers'
+  | 'tracking'
+  | 'blur';
+
+/**
+ * Length values after unit normalization
+ * Nested records (see NestingOptions) are converted recursively
+ */
+export interface NormalizedLengths {
+  [key: string]: string | number | NormalizedLengths;
+}
+
+/**
+ * Font sizes after unit normalization
+ */
+export interface NormalizedFontSizes {
+  [key: string]: {
+    size: string | number;
+    lineHeight?: string | number;
+  };
+}
+
+/**
+ * Theme after unit normalization (see UnitsOptions)
+ * With `length: 'number'`, lengths are raw pixel numbers instead of strings
+ */
+export type NormalizedTheme = Omit<Theme, LengthThemeProperty | 'fontSize'> &
+  Record<LengthThemeProperty, NormalizedLengths> & {
+    fontSize: NormalizedFontSizes;
+  };
+
+/**
+ * Path aliases for `@import` resolution
+ * Maps a prefix to a directory (e.g., { '@': './src', '~': './src' })
+ * tsconfig-style wildcards are accepted (e.g., { '@/*': './src/*' })
+ */
+export type ImportAliases = Record<string, string>;
+
 /**
  * Shared configuration options for theme parsing and resolution
  *
@@ -876,6 +1138,25 @@ export interface SharedThemeOptions {
    * @default true
    */
   resolveImports?: boolean;
+  /**
+   * Path aliases for `@import` resolution (tsconfig/Vite style)
+   *
+   * An alias matches when the import equals the key or starts with `key/`.
+   * Relative targets resolve against the current working directory
+   * (the Vite plugin resolves them against the project root).
+   *
+   * Bare specifiers without an alias (e.g., `@acme/tokens/theme.css`) are resolved
+   * through node_modules using package.json `exports` (`style` condition) or `style`.
+   *
+   * @default undefined
+   *
+   * @example
+   * ```typescript
+   * { aliases: { '@': './src', '~': './src' } }
+   * // @import "@/styles/theme.css" → ./src/styles/theme.css
+   * ```
+   */
+  aliases?: ImportAliases;
   /**
    * Control inclusion of Tailwind's default theme
    *
@@ -1031,6 +1312,153 @@ export interface SharedThemeOptions {
    * ```
    */
   nesting?: NestingOptions;
+  /**
+   * Convert resolved color values to a single output format
+   * Parses hex, rgb(), hsl(), hwb(), lab(), lch(), oklab(), oklch() and color()
+   * values (including alpha) and serializes them as hex, rgb() or hsl().
+   * Wide-gamut colors are gamut mapped to sRGB in OKLCH, preserving hue.
+   * Values that are not plain colors (e.g., var() references) are left unchanged.
+   * @default undefined (colors are kept as authored)
+   *
+   * @example
+   * ```typescript
+   * // oklch(62.3% 0.214 259.815) → #2b7fff
+   * { colorFormat: 'hex' }
+   *
+   * // oklch(62.3% 0.214 259.815 / 50%) → rgba(43, 127, 255, 0.5)
+   * { colorFormat: 'rgb' }
+   * ```
+   */
+  colorFormat?: ColorFormat;
+  /**
+   * Fold static calc(), min(), max(), clamp() (and other CSS math function)
+   * expressions into single values
+   * Operands with compatible units are combined, converting between rem and px
+   * using `rootFontSize`. Expressions that depend on layout context (%, vw, vh,
+   * em, container units) or unresolved var() references are kept as authored.
+   * Folded values are listed in `foldedExpressions` on the result.
+   * @default false
+   *
+   * @example
+   * ```typescript
+   * // calc(0.625rem - 4px) → 0.375rem
+   * { evaluateMath: true }
+   *
+   * // calc(0.625rem - 4px) → 0.225rem (10px root font size)
+   * { evaluateMath: { rootFontSize: 10 } }
+   * ```
+   */
+  evaluateMath?: boolean | EvaluateMathOptions;
+  /**
+   * Normalize length and time units in resolved theme values
+   * Plain px, rem and em lengths are converted; other values (calc(), %,
+   * keywords) are kept as authored. Combine with `evaluateMath` to convert
+   * folded calc() results as well. With `length: 'number'`, converted values
+   * are emitted as numbers in the runtime file and typed as `number`.
+   * @default undefined
+   *
+   * @example
+   * ```typescript
+   * // React Native: spacing.base '0.25rem' → 4
+   * { units: { length: 'number' } }
+   *
+   * // Pixels with a 10px root font size, durations in milliseconds
+   * { units: { length: 'px', time: 'ms', rootFontSize: 10 } }
+   * ```
+   */
+  units?: UnitsOptions;
+}
+
+/**
+ * Project configuration file (`tailwind-resolver.config.{ts,mjs,json}`)
+ *
+ * Shared by the CLI and the Vite plugin. CLI flags and plugin options are
+ * layered on top. Relative paths (`input`, `outputDir`, `baseline` and alias targets,
+ * also inside `entries`) resolve against the directory of the config file.
+ *
+ * @example
+ * ```typescript
+ * // tailwind-resolver.config.ts
+ * import { defineConfig } from 'tailwind-resolver';
+ *
+ * export default defineConfig({
+ *   input: 'src/styles.css',
+ *   nesting: { colors: { maxDepth: 2 } },
+ *   overrides: { dark: { 'colors.background': '#000' } },
+ *   generateRuntime: { variants: true, selectors: true, files: true },
+ * });
+ * ```
+ */
+export interface ResolverConfig extends SharedThemeOptions {
+  /**
+   * Path to the CSS input file
+   */
+  input?: string;
+  /**
+   * Output directory for generated files
+   * @default 'src/generated/tailwindcss' if src/ exists, otherwise 'generated/tailwindcss'
+   */
+  outputDir?: string;
+  /**
+   * Control what gets generated in the runtime file (see the Vite plugin option)
+   * @default true
+   */
+  generateRuntime?: boolean | RuntimeGenerationOptions;
+  /**
+   * Additional token formats to write (see the Vite plugin option)
+   * @default undefined (TypeScript files only)
+   */
+  formats?: OutputFormatOptions;
+  /**
+   * Fail generation on diagnostics at or above these levels
+   * (the CLI exits with code 1, the Vite plugin fails production builds)
+   * @default undefined (never fail)
+   */
+  failOn?: FailOnOptions;
+  /**
+   * Baseline file of accepted diagnostics; only new diagnostics fail generation
+   * Without `failOn`, any new diagnostic fails.
+   */
+  baseline?: string;
+  /**
+   * Generate several themes in one run (e.g., one per app or brand in a monorepo)
+   * Top-level options apply to every entry; options set on an entry override them.
+   * Cannot be combined with top-level `input` or `outputDir`.
+   * @default undefined (single input)
+   *
+   * @example
+   * ```typescript
+   * {
+   *   colorFormat: 'hex',
+   *   entries: [
+   *     { name: 'web', input: 'apps/web/src/theme.css', outputDir: 'apps/web/src/generated/tailwindcss' },
+   *     { name: 'acme', input: 'brands/acme.css', outputDir: 'brands/generated/acme', generateRuntime: false },
+   *   ],
+   * }
+   * ```
+   */
+  entries?: Array<ThemeEntryConfig>;
+}
+
+/**
+ * One theme in a multi-entry config
+ * Accepts every top-level option except `entries`; entry options win.
+ */
+export interface ThemeEntryConfig
+  extends Omit<ResolverConfig, 'entries' | 'input' | 'outputDir'> {
+  /**
+   * Name shown in logs and the summary
+   * @default input path relative to the working directory
+   */
+  name?: string;
+  /**
+   * Path to the CSS input file
+   */
+  input: string;
+  /**
+   * Output directory for generated files (must be unique per entry)
+   */
+  outputDir: string;
 }
 
 /**
@@ -1140,6 +1568,71 @@ export interface ParseOptions extends SharedThemeOptions {
   basePath?: string;
 }
 
+/**
+ * One side of a theme comparison
+ * A plain string is a CSS file path in the working tree
+ */
+export type ThemeDiffSource =
+  | string
+  | {
+      /** Path to the CSS file (relative to current working directory, or absolute) */
+      input: string;
+      /**
+       * Git revision to read the file and its imports from (e.g., 'main', 'HEAD~1')
+       * The revision is checked out into a temporary worktree; omit to read the working tree
+       */
+      revision?: string;
+    };
+
+/**
+ * Options for comparing two themes
+ *
+ * Both sides are resolved with the same shared options, so only changes to the
+ * CSS (not to resolver settings) show up in the diff.
+ *
+ * @example
+ * ```typescript
+ * // Compare the working tree against main
+ * {
+ *   before: { input: './src/theme.css', revision: 'main' },
+ *   after: './src/theme.css'
+ * }
+ * ```
+ */
+export interface DiffThemeOptions extends SharedThemeOptions {
+  /**
+   * Baseline theme
+   */
+  before: ThemeDiffSource;
+
+  /**
+   * Theme compared against the baseline
+   */
+  after: ThemeDiffSource;
+
+  /**
+   * Base path for loading Tailwind defaults
+   * @default process.cwd()
+   */
+  basePath?: string;
+}
+
+/**
+ * Options for explaining how a single token was resolved
+ */
+export interface ExplainTokenOptions extends ParseOptions {
+  /**
+   * Token path in the resolved theme (e.g., 'colors.primary')
+   */
+  path: string;
+
+  /**
+   * Variant to explain the token in (name or CSS selector)
+   * @default 'default'
+   */
+  variant?: string;
+}
+
 /**
  * Theme variant with its CSS selector
  *
@@ -1175,6 +1668,28 @@ export interface DeprecationWarning {
   replacement: string;
 }
 
+/**
+ * A theme value whose CSS math expression was folded by `evaluateMath`
+ */
+export interface FoldedExpression {
+  /**
+   * Variant containing the value (e.g., 'default', 'dark')
+   */
+  variantName: string;
+  /**
+   * Dot-notation path of the value within the theme (e.g., 'radius.sm')
+   */
+  path: string;
+  /**
+   * Value before folding (e.g., 'calc(0.625rem - 4px)')
+   */
+  original: string;
+  /**
+   * Folded value (e.g., '0.375rem')
+   */
+  value: string;
+}
+
 /**
  * Result from CSS parsing (internal use)
  *
@@ -1272,6 +1787,10 @@ export interface TailwindResult<TTailwind = UnknownTailwind> {
    * Unresolved CSS variable references (optional for backward compatibility)
    */
   unresolvedVariables?: Array<unknown>;
+  /**
+   * Theme values folded by `evaluateMath` (only present when enabled)
+   */
+  foldedExpressions?: Array<FoldedExpression>;
 }
 
 /**
@@ -5,30 +5,48 @@
 
 import type { HmrContext, PluginOption } from 'vite';
 
+import type { ThemeDiagnostics } from '../core';
+import type { EntrySummary, ResolvedEntry } from '../shared/entries';
 import type {
+  DiagnosticLevel,
+  FailOnOptions,
   NestingOptions,
+  OutputFormatOptions,
   OverrideOptions,
+  ResolverConfig,
   RuntimeGenerationOptions,
   SharedThemeOptions,
   TailwindDefaultsOptions,
+  ThemeEntryConfig,
 } from '../types';
 
 import { existsSync } from 'node:fs';
 import path from 'node:path';
 
+import { resolveAliasTargets } from '../core/parser/module_resolver';
+import { loadConfig, mergeConfigs } from '../shared/config';
 import { DEFAULT_OUTPUT_DIRS } from '../shared/constants';
+import { DiagnosticsError, enforceDiagnostics } from '../shared/diagnostics';
+import { formatEntrySummary, resolveEntries } from '../shared/entries';
 import { generateThemeFiles } from '../shared/file_generator';
-import { normalizeRuntimeOptions } from '../shared/utils';
+import {
+  normalizeReportOptions,
+  normalizeRuntimeOptions,
+} from '../shared/utils';
 
 /**
  * Re-export for convenience
  */
 export type {
+  DiagnosticLevel,
+  FailOnOptions,
   NestingOptions,
+  OutputFormatOptions,
   OverrideOptions,
   RuntimeGenerationOptions,
   SharedThemeOptions,
   TailwindDefaultsOptions,
+  ThemeEntryConfig,
 };
 
 /**
@@ -41,6 +59,11 @@ export type {
  *   input: 'src/theme.css'
  * }
  *
+ * // Options from tailwind-resolver.config.ts, with a plugin-level override
+ * {
+ *   colorFormat: 'hex'
+ * }
+ *
  * // Production configuration
  * {
  *   input: 'src/theme.css',
@@ -93,6 +116,12 @@ export type {
  *     default: { maxDepth: 1, flattenMode: 'camelcase' },
  *     colors: { maxDepth: 2, flattenMode: 'literal', consecutiveDashes: 'exclude' }
  *   },
+ *   colorFormat: 'hex',
+ *   evaluateMath: { rootFontSize: 16 },
+ *   units: { length: 'px', time: 'ms' },
+ *   aliases: { '@': './src' },
+ *   failOn: { unresolved: 'high', conflicts: 'medium' },
+ *   baseline: 'diagnostics.json',
  *   debug: false
  * }
  * ```
@@ -100,8 +129,18 @@ export type {
 export interface VitePluginOptions extends SharedThemeOptions {
   /**
    * Path to your CSS input file (relative to Vite project root)
+   * Required unless set in `tailwind-resolver.config`
    */
-  input: string;
+  input?: string;
+
+  /**
+   * Path to the project config file (relative to Vite project root)
+   * - `undefined`: Use `tailwind-resolver.config.{ts,mjs,json}` from the project root if present
+   * - `false`: Ignore config files
+   *
+   * Plugin options take precedence over values from the config file.
+   */
+  configFile?: string | false;
 
   /**
    * Output directory for generated files (relative to Vite project root)
@@ -141,106 +180,391 @@ export interface VitePluginOptions extends SharedThemeOptions {
    * ```
    */
   generateRuntime?: boolean | RuntimeGenerationOptions;
-}
 
-export function tailwindResolver(options: VitePluginOptions): PluginOption {
-  const {
-    input,
-    resolveImports = true,
-    generateRuntime = true,
-    includeDefaults = true,
-    debug = false,
-    overrides,
-    nesting,
-  } = options;
+  /**
+   * Additional token formats written to the output directory
+   * @default undefined (TypeScript files only)
+   *
+   * @example
+   * ```typescript
+   * // W3C Design Tokens: tokens.json plus tokens.<variant>.json per variant
+   * formats: { dtcg: true }
+   *
+   * // A single tokens.json with one group per variant
+   * formats: { dtcg: { variants: 'modes' } }
+   *
+   * // Style Dictionary sources: style-dictionary/<variant>.json
+   * formats: { styleDictionary: true }
+   *
+   * // SCSS variables and maps: _tokens.scss
+   * formats: { scss: true }
+   *
+   * // vanilla-extract theme (theme.css.ts) and styled-components theme type (styled.d.ts)
+   * formats: { vanillaExtract: true, styledComponents: true }
+   *
+   * // Figma Variables REST API payload: figma-variables.json
+   * formats: { figma: true }
+   *
+   * // Native apps: Theme.swift, Theme.kt (in package com.acme.theme) and theme.dart
+   * formats: { swift: true, kotlin: { packageName: 'com.acme.theme' }, dart: true }
+   * ```
+   */
+  formats?: OutputFormatOptions;
+
+  /**
+   * Fail production builds (`vite build`) on diagnostics at or above these levels
+   * The dev server never fails; diagnostics are still written to the reports.
+   * @default undefined (never fail)
+   *
+   * @example
+   * ```typescript
+   * // Fail on any unresolved variable and on medium/high confidence conflicts
+   * failOn: { unresolved: true, conflicts: 'medium' }
+   * ```
+   */
+  failOn?: FailOnOptions;
 
-  const runtimeOptions = normalizeRuntimeOptions(generateRuntime);
+  /**
+   * Baseline file of accepted diagnostics (relative to Vite project root)
+   * Only new diagnostics fail the build; without `failOn`, any new diagnostic fails.
+   * Create it with `tailwind-resolver --baseline <path> --update-baseline`.
+   */
+  baseline?: string;
+
+  /**
+   * Themes to generate in one build, each with its own input, output and options
+   * Paths are relative to the Vite project root. Entry options override the
+   * plugin-level options. Cannot be combined with `input`.
+   * A diagnostics summary per entry is printed after generating all entries.
+   *
+   * @example
+   * ```typescript
+   * entries: [
+   *   { name: 'web', input: 'apps/web/theme.css', outputDir: 'apps/web/src/generated' },
+   *   { name: 'acme', input: 'brands/acme.css', outputDir: 'brands/generated/acme', colorFormat: 'hex' }
+   * ]
+   * ```
+   */
+  entries?: Array<ThemeEntryConfig>;
+}
+
+export function tailwindResolver(
+  options: VitePluginOptions = {},
+): PluginOption {
+  const { configFile, entries: pluginEntries, ...pluginOptions } = options;
 
   let projectRoot = '';
-  let watchedFiles: Set<string> = new Set();
+  let isBuild = false;
   let resolvedOutputDir = '';
+  let configPath: string | undefined;
+  let resolvedEntries: Array<ResolvedEntry> | undefined;
+  // Files processed by the last generation of each entry, by entry name
+  let entryFiles = new Map<string, Array<string>>();
 
   /**
-   * Regenerates theme files and updates watched files
+   * Resolves a plugin path option against the Vite project root
    *
-   * @param addWatchFile - Optional callback to add files to Vite's watch list (buildStart only)
-   * @param sourceFile - Optional source file that triggered regeneration (HMR only)
+   * @param value - Path from the plugin options
+   * @returns Absolute path, or undefined if the option is not set
    */
-  async function regenerateThemeFiles(
-    addWatchFile?: (file: string) => void,
-    sourceFile?: string,
-  ): Promise<void> {
-    const fullInputPath = path.resolve(projectRoot, input);
-    const fullOutputDir = path.resolve(projectRoot, resolvedOutputDir);
-    const basePath = path.dirname(fullInputPath);
+  function resolveFromRoot(value: string | undefined): string | undefined {
+    return value === undefined ? undefined : path.resolve(projectRoot, value);
+  }
+
+  /**
+   * Resolves the path options of a plugin options layer against the Vite project root
+   *
+   * @param layer - Plugin options or one plugin entry
+   * @returns The same options with absolute input, output, baseline and alias paths
+   */
+  function resolvePluginPaths<T extends Omit<ResolverConfig, 'entries'>>(
+    layer: T,
+  ): T {
+    const { input, outputDir, aliases, baseline } = layer;
+    return {
+      ...layer,
+      input: resolveFromRoot(input),
+      outputDir: resolveFromRoot(outputDir),
+      // Relative alias targets are relative to the Vite project root
+      aliases:
+        aliases === undefined
+          ? undefined
+          : resolveAliasTargets(aliases, projectRoot),
+      baseline: resolveFromRoot(baseline),
+    };
+  }
+
+  /**
+   * Expands merged options into the entries to generate
+   * An `input` (from the plugin options or the config file) selects a single theme.
+   *
+   * @param merged - Config file options with the plugin options layered on top
+   * @returns Entries in config order
+   * @throws Error if neither `input` nor `entries` is set
+   */
+  function expandEntries(merged: ResolverConfig): Array<ResolvedEntry> {
+    const { entries, ...config } = merged;
+
+    if (config.input !== undefined) {
+      return [
+        {
+          name: path.relative(projectRoot, config.input),
+          config: {
+            ...config,
+            input: config.input,
+            outputDir:
+              config.outputDir ?? path.resolve(projectRoot, resolvedOutputDir),
+          },
+        },
+      ];
+    }
+
+    if (entries === undefined) {
+      throw new Error(
+        'tailwindResolver: `input` is required (set it in the plugin options or in tailwind-resolver.config)',
+      );
+    }
+
+    return resolveEntries(merged, projectRoot);
+  }
+
+  /**
+   * Loads the config file and layers the plugin options on top
+   * Plugin paths are relative to the Vite project root, config paths to the config file
+   *
+   * @returns Entries with absolute input, output, baseline and alias paths
+   * @throws Error if the plugin options set both `input` and `entries`
+   */
+  async function resolveOptions(): Promise<Array<ResolvedEntry>> {
+    if (pluginOptions.input !== undefined && pluginEntries !== undefined) {
+      throw new Error(
+        'tailwindResolver: `input` and `entries` cannot be combined (set input and outputDir on each entry)',
+      );
+    }
+
+    const loaded =
+      configFile === false ? null : await loadConfig(projectRoot, configFile);
+    configPath = loaded?.path;
+
+    return expandEntries(
+      mergeConfigs(loaded?.config ?? {}, {
+        ...resolvePluginPaths(pluginOptions),
+        entries: pluginEntries?.map(resolvePluginPaths),
+      }),
+    );
+  }
+
+  /**
+   * Lists the files watched for regeneration
+   *
+   * @returns Processed files of all entries, plus the config file
+   */
+  function getWatchedFiles(): Set<string> {
+    const files = new Set([...entryFiles.values()].flat());
+    // Watching the config file reloads options when it changes
+    if (configPath !== undefined) {
+      files.add(configPath);
+    }
+    return files;
+  }
+
+  /**
+   * Generates theme files for one entry and records its processed files
+   *
+   * @param entry - Entry to generate
+   * @returns Diagnostics from generation
+   */
+  async function generateEntry(
+    entry: ResolvedEntry,
+  ): Promise<ThemeDiagnostics> {
+    const {
+      input,
+      outputDir,
+      resolveImports = true,
+      generateRuntime = true,
+      includeDefaults = true,
+      debug = false,
+      overrides,
+      nesting,
+      colorFormat,
+      evaluateMath,
+      units,
+      aliases,
+      formats,
+    } = entry.config;
+
+    const runtimeOptions = normalizeRuntimeOptions(generateRuntime);
 
     // Extract report options from runtime options
-    const reportOptions =
-      runtimeOptions !== false && runtimeOptions.reports !== undefined
-        ? typeof runtimeOptions.reports === 'boolean'
-          ? runtimeOptions.reports
-            ? { conflicts: true, unresolved: true }
-            : { conflicts: false, unresolved: false }
-          : runtimeOptions.reports
-        : { conflicts: true, unresolved: true };
-
-    const result = await generateThemeFiles(
-      fullInputPath,
-      fullOutputDir,
+    const reportOptions = normalizeReportOptions(
+      runtimeOptions === false ? undefined : runtimeOptions.reports,
+    );
+
+    const result = await generateThemeFiles({
+      inputPath: input,
+      outputDir,
       resolveImports,
       runtimeOptions,
       includeDefaults,
       debug,
-      basePath,
+      basePath: path.dirname(input),
       reportOptions,
       overrides,
       nesting,
-    );
+      colorFormat,
+      evaluateMath,
+      units,
+      aliases,
+      formats,
+    });
 
-    // Update watched files set
-    watchedFiles = new Set(result.files);
+    entryFiles.set(entry.name, result.files);
 
-    // Add files to Vite's watch list if callback provided (buildStart only)
-    if (addWatchFile !== undefined) {
-      for (const file of result.files) {
-        addWatchFile(file);
-      }
+    return result.diagnostics;
+  }
+
+  /**
+   * Fails production builds on diagnostics above the entry's thresholds
+   * Diagnostics only fail production builds, never the dev server
+   *
+   * @param entry - Generated entry
+   * @param diagnostics - Diagnostics from generation
+   * @throws DiagnosticsError if new diagnostics exceed the thresholds
+   */
+  async function checkDiagnostics(
+    entry: ResolvedEntry,
+    diagnostics: ThemeDiagnostics,
+  ): Promise<void> {
+    if (isBuild) {
+      await enforceDiagnostics(diagnostics, {
+        failOn: entry.config.failOn,
+        baseline: entry.config.baseline,
+        baseDir: projectRoot,
+      });
     }
+  }
+
+  /**
+   * Regenerates one entry and checks its diagnostics
+   *
+   * @param entry - Entry to regenerate
+   * @param sourceFile - Optional source file that triggered regeneration (HMR only)
+   */
+  async function regenerateEntry(
+    entry: ResolvedEntry,
+    sourceFile?: string,
+  ): Promise<void> {
+    await checkDiagnostics(entry, await generateEntry(entry));
 
     // Log if source file provided (HMR only)
     if (sourceFile !== undefined) {
+      const theme =
+        (resolvedEntries?.length ?? 0) > 1 ? ` "${entry.name}"` : '';
       console.log(
-        `  ℹ  Tailwind theme updated from ${path.basename(sourceFile)}`,
+        `  ℹ  Tailwind theme${theme} updated from ${path.basename(sourceFile)}`,
+      );
+    }
+  }
+
+  /**
+   * Generates every entry, then prints a diagnostics summary per entry
+   * A failing entry does not stop the others; the build fails at the end.
+   *
+   * @param entries - Entries to generate
+   * @throws Error if any entry failed to generate or exceeded its `failOn` thresholds
+   */
+  async function generateAllEntries(
+    entries: Array<ResolvedEntry>,
+  ): Promise<void> {
+    const rows: Array<EntrySummary> = [];
+
+    for (const entry of entries) {
+      const row: EntrySummary = {
+        name: entry.name,
+        outputDir: entry.config.outputDir,
+        status: 'error',
+      };
+      rows.push(row);
+
+      try {
+        row.diagnostics = await generateEntry(entry);
+        await checkDiagnostics(entry, row.diagnostics);
+        row.status = 'ok';
+      } catch (error) {
+        row.status = error instanceof DiagnosticsError ? 'failed' : 'error';
+        // generateThemeFiles logs its own errors
+        if (row.diagnostics !== undefined) {
+          const reason = error instanceof Error ? error.message : String(error);
+          console.error(`\n[${entry.name}] ${reason}`);
+        }
+      }
+    }
+
+    console.log(`\n${formatEntrySummary(rows, projectRoot)}\n`);
+
+    const failed = rows.filter((row) => row.status !== 'ok').length;
+    if (failed > 0) {
+      throw new Error(
+        `tailwindResolver: ${failed} of ${rows.length} entries failed (see the summary above)`,
       );
     }
   }
 
+  /**
+   * Regenerates the entries that processed a changed file
+   * A change to the config file reloads options and regenerates every entry.
+   *
+   * @param file - Changed file
+   */
+  async function handleFileChange(file: string): Promise<void> {
+    if (file === configPath || resolvedEntries === undefined) {
+      resolvedEntries = await resolveOptions();
+      entryFiles = new Map();
+    }
+
+    for (const entry of resolvedEntries) {
+      const files = entryFiles.get(entry.name);
+      if (files === undefined || files.includes(file)) {
+        await regenerateEntry(entry, file);
+      }
+    }
+  }
+
   return {
     name: 'vite-plugin-tailwind-resolver',
 
     configResolved(config) {
       projectRoot = config.root;
+      isBuild = config.command === 'build';
 
       // Auto-detect output directory based on project structure
-      if (options.outputDir !== undefined) {
-        resolvedOutputDir = options.outputDir;
-      } else {
-        const srcPath = path.join(projectRoot, 'src');
-        const srcExists = existsSync(srcPath);
-        resolvedOutputDir = srcExists
-          ? DEFAULT_OUTPUT_DIRS.WITH_SRC
-          : DEFAULT_OUTPUT_DIRS.WITHOUT_SRC;
-      }
+      // (used when neither the plugin options nor the config file set one)
+      const srcPath = path.join(projectRoot, 'src');
+      const srcExists = existsSync(srcPath);
+      resolvedOutputDir = srcExists
+        ? DEFAULT_OUTPUT_DIRS.WITH_SRC
+        : DEFAULT_OUTPUT_DIRS.WITHOUT_SRC;
     },
 
     async buildStart() {
-      await regenerateThemeFiles((file) => this.addWatchFile(file));
+      resolvedEntries ??= await resolveOptions();
+      const [entry] = resolvedEntries;
+
+      if (resolvedEntries.length === 1 && entry !== undefined) {
+        await regenerateEntry(entry);
+      } else {
+        await generateAllEntries(resolvedEntries);
+      }
+
+      for (const file of getWatchedFiles()) {
+        this.addWatchFile(file);
+      }
     },
 
     async handleHotUpdate({ file }: HmrContext) {
       // Regenerate types when any watched CSS file changes
-      if (watchedFiles.has(file)) {
-        await regenerateThemeFiles(undefined, file);
+      if (getWatchedFiles().has(file)) {
+        await handleFileChange(file);
       }
 
       return undefined;
@@ -0,0 +1,258 @@
+/**
+ * @file Tests for token resolution tracing
+ */
+
+import type { CSSRuleConflict } from '../../../src/v4/core/analysis/conflicts';
+import type { CSSRuleOverride } from '../../../src/v4/core/extraction/rules';
+import type { CSSVariable } from '../../../src/v4/types';
+
+import { describe, expect, test } from 'bun:test';
+
+import {
+  explainTokenResolution,
+  getTokenValue,
+} from '../../../src/v4/core/analysis/explain';
+import { explainToken } from '../../../src/v4/index';
+
+const selectors = { default: ':root', dark: '.dark' };
+
+const variables: Array<CSSVariable> = [
+  {
+    name: '--color-primary',
+    value: 'var(--brand)',
+    source: 'theme',
+    location: { file: '/app/theme.css', line: 2, column: 3 },
+  },
+  { name: '--brand', value: 'var(--brand-base)', source: 'root' },
+  { name: '--brand-base', value: '#336699', source: 'root' },
+  {
+    name: '--brand',
+    value: '#112233',
+    source: 'variant',
+    selector: '.dark',
+    variantName: 'dark',
+    location: { file: '/app/theme.css', line: 9, column: 3 },
+  },
+];
+
+describe('explainTokenResolution', () => {
+  test('follows var() hops through the declarations visible to the base theme', () => {
+    const explanation = explainTokenResolution({
+      path: 'colors.primary',
+      variant: 'default',
+      value: '#336699',
+      selectors,
+      variables,
+      cssConflicts: [],
+    });
+
+    expect(explanation.selector).toBe(':root');
+    expect(explanation.chain).toEqual([
+      {
+        variable: '--color-primary',
+        value: 'var(--brand)',
+        source: 'theme',
+        location: { file: '/app/theme.css', line: 2, column: 3 },
+      },
+      { variable: '--brand', value: 'var(--brand-base)', source: 'root' },
+      { variable: '--brand-base', value: '#336699', source: 'root' },
+    ]);
+    expect(explanation.unresolved).toEqual([]);
+  });
+
+  test('prefers variant declarations in variant themes', () => {
+    const explanation = explainTokenResolution({
+      path: 'colors.primary',
+      variant: 'dark',
+      value: '#112233',
+      selectors,
+      variables,
+      cssConflicts: [],
+    });
+
+    expect(explanation.chain.map((step) => step.source)).toEqual([
+      'theme',
+      'variant',
+    ]);
+    expect(explanation.chain[1]).toMatchObject({
+      variable: '--brand',
+      selector: '.dark',
+      location: { line: 9 },
+    });
+  });
+
+  test('attributes hops to Tailwind defaults and injected overrides', () => {
+    const explanation = explainTokenResolution({
+      path: 'colors.accent',
+      variant: 'default',
+      value: '#3b82f6',
+      selectors,
+      variables: [
+        {
+          name: '--color-accent',
+          value:
+            'color-mix(in oklab, var(--color-blue-500), var(--color-brand))',
+          source: 'theme',
+        },
+      ],
+      defaultVariables: [
+        { name: '--color-blue-500', value: '#3b82f6', source: 'theme' },
+      ],
+      overrides: { '*': { 'color.brand': '#123456' } },
+      cssConflicts: [],
+    });
+
+    expect(
+      explanation.chain.map((step) => [step.variable, step.source]),
+    ).toEqual([
+      ['--color-accent', 'theme'],
+      ['--color-blue-500', 'defaults'],
+      ['--color-brand', 'override'],
+    ]);
+  });
+
+  test('falls back to the Tailwind default that places the token', () => {
+    const explanation = explainTokenResolution({
+      path: 'radius.lg',
+      variant: 'default',
+      value: '0.5rem',
+      selectors,
+      variables: [],
+      defaultVariables: [
+        { name: '--radius-lg', value: '0.5rem', source: 'theme' },
+      ],
+      cssConflicts: [],
+    });
+
+    expect(explanation.chain).toEqual([
+      { variable: '--radius-lg', value: '0.5rem', source: 'defaults' },
+    ]);
+  });
+
+  test('lists references without a declaration as unresolved', () => {
+    const explanation = explainTokenResolution({
+      path: 'colors.accent',
+      variant: 'default',
+      value: 'var(--missing)',
+      selectors,
+      variables: [
+        { name: '--color-accent', value: 'var(--missing)', source: 'theme' },
+      ],
+      cssConflicts: [],
+    });
+
+    expect(explanation.chain).toHaveLength(1);
+    expect(explanation.unresolved).toEqual(['--missing']);
+  });
+
+  test('reports conflicts and overrides applied to the token', () => {
+    const conflict: CSSRuleConflict = {
+      variantName: 'dark',
+      themeProperty: 'colors',
+      themeKey: 'primary',
+      variableValue: '#112233',
+      ruleValue: '#000',
+      ruleSelector: '.dark .text-primary',
+      canResolve: true,
+      confidence: 'high',
+      cssRule: {} as CSSRuleOverride,
+    };
+
+    const explanation = explainTokenResolution({
+      path: 'colors.primary',
+      variant: 'dark',
+      value: '#fff',
+      selectors,
+      variables,
+      cssConflicts: [
+        conflict,
+        { ...conflict, themeKey: 'secondary' },
+        { ...conflict, variantName: 'light' },
+      ],
+      overrides: {
+        '.dark': { colors: { primary: '#fff' } },
+        default: { 'colors.primary': '#eee' },
+      },
+    });
+
+    expect(explanation.conflicts).toEqual([
+      {
+        ruleSelector: '.dark .text-primary',
+        ruleValue: '#000',
+        variableValue: '#112233',
+        confidence: 'high',
+        applied: true,
+      },
+    ]);
+    expect(explanation.overrides).toEqual([
+      { selector: '.dark', value: '#fff' },
+    ]);
+  });
+});
+
+describe('getTokenValue', () => {
+  test('reads nested tokens by dot path', () => {
+    const theme = { colors: { red: { 500: '#f00' } } };
+
+    expect(getTokenValue(theme, 'colors.red.500')).toBe('#f00');
+    expect(getTokenValue(theme, 'colors.red.500.x')).toBeUndefined();
+    expect(getTokenValue(theme, 'colors.blue')).toBeUndefined();
+  });
+});
+
+describe('explainToken', () => {
+  const css = `
+    @theme {
+      --color-primary: var(--brand);
+    }
+    :root {
+      --brand: #336699;
+    }
+    [data-theme='dark'] {
+      --brand: #112233;
+    }
+  `;
+
+  test('explains a token in a variant selected by name or selector', async () => {
+    const byName = await explainToken({
+      css,
+      includeDefaults: false,
+      path: 'colors.primary',
+      variant: 'dark',
+    });
+    const bySelector = await explainToken({
+      css,
+      includeDefaults: false,
+      path: 'colors.primary',
+      variant: "[data-theme='dark']",
+    });
+
+    expect(byName.value).toBe('#112233');
+    expect(byName.chain.map((step) => step.variable)).toEqual([
+      '--color-primary',
+      '--brand',
+    ]);
+    expect(bySelector).toEqual(byName);
+  });
+
+  test('throws for unknown variants, missing tokens and token groups', () => {
+    expect(
+      explainToken({
+        css,
+        includeDefaults: false,
+        path: 'colors.primary',
+        variant: 'nope',
+      }),
+    ).rejects.toThrow(
+      'Unknown variant "nope". Available variants: default, dark',
+    );
+    expect(
+      explainToken({ css, includeDefaults: false, path: 'colors.secondary' }),
+    ).rejects.toThrow(
+      'Token "colors.secondary" not found in variant "default"',
+    );
+    expect(
+      explainToken({ css, includeDefaults: false, path: 'colors' }),
+    ).rejects.toThrow('Inspect one of: colors.primary');
+  });
+});
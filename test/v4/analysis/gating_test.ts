@@ -0,0 +1,172 @@
+/**
+ * @file Tests for diagnostic gating and baselines
+ */
+
+import type { CSSRuleConflict } from '../../../src/v4/core/analysis/conflicts';
+import type { ThemeDiagnostics } from '../../../src/v4/core/analysis/gating';
+import type { UnresolvedVariable } from '../../../src/v4/core/analysis/unresolved';
+import type { CSSRuleOverride } from '../../../src/v4/core/extraction/rules';
+
+import { describe, expect, test } from 'bun:test';
+
+import {
+  createDiagnosticsBaseline,
+  evaluateDiagnostics,
+  formatGateFailure,
+  getUnresolvedLevel,
+} from '../../../src/v4/core/analysis/gating';
+
+const conflict: CSSRuleConflict = {
+  variantName: 'dark',
+  themeProperty: 'radius',
+  themeKey: 'lg',
+  variableValue: '0.5rem',
+  ruleValue: '0',
+  ruleSelector: '.dark .rounded-lg',
+  canResolve: true,
+  confidence: 'high',
+  cssRule: {} as CSSRuleOverride,
+  location: { file: '/app/src/theme.css', line: 20, column: 5 },
+};
+
+const missing: UnresolvedVariable = {
+  variableName: '--color-brand',
+  originalValue: 'var(--brand-500)',
+  referencedVariable: '--brand-500',
+  source: 'theme',
+  likelyCause: 'unknown',
+  location: { file: '/app/src/theme.css', line: 4, column: 3 },
+};
+
+const withFallback: UnresolvedVariable = {
+  ...missing,
+  variableName: '--color-accent',
+  originalValue: 'var(--accent, #f00)',
+  referencedVariable: '--accent',
+  fallbackValue: '#f00',
+};
+
+const tailwind: UnresolvedVariable = {
+  ...missing,
+  variableName: '--shadow-sm',
+  originalValue: 'var(--tw-shadow-color)',
+  referencedVariable: '--tw-shadow-color',
+  likelyCause: 'external',
+};
+
+const diagnostics: ThemeDiagnostics = {
+  conflicts: [conflict, { ...conflict, themeKey: 'md', confidence: 'low' }],
+  unresolved: [missing, withFallback, tailwind],
+};
+
+describe('getUnresolvedLevel', () => {
+  test('ranks missing references above fallbacks and Tailwind variables', () => {
+    expect(getUnresolvedLevel(missing)).toBe('high');
+    expect(getUnresolvedLevel(withFallback)).toBe('medium');
+    expect(getUnresolvedLevel(tailwind)).toBe('low');
+    expect(
+      getUnresolvedLevel({ ...missing, likelyCause: 'self-referential' }),
+    ).toBe('low');
+  });
+});
+
+describe('evaluateDiagnostics', () => {
+  test('fails on diagnostics at or above each category threshold', () => {
+    const result = evaluateDiagnostics(diagnostics, {
+      unresolved: 'medium',
+      conflicts: 'high',
+    });
+
+    expect(result.failed).toBe(true);
+    expect(result.unresolved).toEqual([missing, withFallback]);
+    expect(result.conflicts).toEqual([conflict]);
+    expect(result.baselined).toBe(0);
+  });
+
+  test('treats true as any level and ignores categories without a threshold', () => {
+    const result = evaluateDiagnostics(diagnostics, { unresolved: true });
+
+    expect(result.unresolved).toEqual(diagnostics.unresolved);
+    expect(result.conflicts).toEqual([]);
+    expect(evaluateDiagnostics(diagnostics, { conflicts: false }).failed).toBe(
+      false,
+    );
+  });
+
+  test('accepts diagnostics recorded in the baseline', () => {
+    const baseline = createDiagnosticsBaseline({
+      conflicts: diagnostics.conflicts,
+      unresolved: [tailwind, withFallback],
+    });
+
+    const result = evaluateDiagnostics(diagnostics, undefined, baseline);
+
+    expect(result.failed).toBe(true);
+    expect(result.unresolved).toEqual([missing]);
+    expect(result.conflicts).toEqual([]);
+    expect(result.baselined).toBe(
+      baseline.conflicts.length + baseline.unresolved.length,
+    );
+  });
+
+  test('passes when the baseline accepts every diagnostic', () => {
+    const result = evaluateDiagnostics(
+      diagnostics,
+      undefined,
+      createDiagnosticsBaseline(diagnostics),
+    );
+
+    expect(result.failed).toBe(false);
+    expect(result.baselined).toBe(
+      diagnostics.conflicts.length + diagnostics.unresolved.length,
+    );
+  });
+});
+
+describe('createDiagnosticsBaseline', () => {
+  test('records sorted, de-duplicated identities without values', () => {
+    const baseline = createDiagnosticsBaseline({
+      conflicts: [conflict, conflict],
+      unresolved: [
+        missing,
+        { ...withFallback, source: 'variant', variantName: 'dark' },
+      ],
+    });
+
+    expect(baseline).toEqual({
+      conflicts: [
+        { variant: 'dark', selector: '.dark .rounded-lg', token: 'radius.lg' },
+      ],
+      unresolved: [
+        {
+          variable: '--color-brand',
+          reference: '--brand-500',
+          source: 'theme',
+        },
+        {
+          variable: '--color-accent',
+          reference: '--accent',
+          source: 'variant',
+          variant: 'dark',
+        },
+      ],
+    });
+  });
+});
+
+describe('formatGateFailure', () => {
+  test('lists failing diagnostics with levels and relative locations', () => {
+    const result = evaluateDiagnostics(diagnostics, {
+      unresolved: 'high',
+      conflicts: 'high',
+    });
+
+    expect(formatGateFailure({ ...result, baselined: 2 }, '/app')).toBe(
+      [
+        '2 diagnostics exceed the fail-on thresholds (2 accepted by baseline):',
+        '  - unresolved (high): --color-brand references --brand-500 in theme (src/theme.css:4:3)',
+        '  - conflict (high): .dark .rounded-lg overrides radius.lg in dark (src/theme.css:20:5)',
+      ].join('\n'),
+    );
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * @file Tests for token-level theme comparison
+ */
+
+import { describe, expect, test } from 'bun:test';
+
+import {
+  diffThemes,
+  hasThemeChanges,
+} from '../../../src/v4/core/analysis/theme_diff';
+
+describe('diffThemes', () => {
+  test('reports added, removed and changed tokens with old and new values', () => {
+    const diff = diffThemes(
+      {
+        variants: {
+          default: {
+            colors: { primary: { 500: 'blue' } },
+            spacing: { 4: '1rem' },
+          },
+        },
+        selectors: { default: ':root' },
+      },
+      {
+        variants: {
+          default: {
+            colors: { primary: { 500: 'red' }, accent: '#fff' },
+            spacing: {},
+          },
+        },
+        selectors: { default: ':root' },
+      },
+    );
+
+    expect(diff.variants).toEqual([]);
+    expect(diff.tokens).toEqual([
+      {
+        variant: 'default',
+        path: 'colors.primary.500',
+        type: 'changed',
+        before: 'blue',
+        after: 'red',
+      },
+      {
+        variant: 'default',
+        path: 'spacing.4',
+        type: 'removed',
+        before: '1rem',
+      },
+      {
+        variant: 'default',
+        path: 'colors.accent',
+        type: 'added',
+        after: '#fff',
+      },
+    ]);
+  });
+
+  test('reports added and removed variants with their tokens', () => {
+    const diff = diffThemes(
+      {
+        variants: { default: {}, dark: { colors: { background: '#000' } } },
+        selectors: { default: ':root', dark: '.dark' },
+      },
+      {
+        variants: { default: {}, midnight: { colors: { background: '#001' } } },
+        selectors: { default: ':root', midnight: '.midnight' },
+      },
+    );
+
+    expect(diff.variants).toEqual([
+      { variant: 'dark', type: 'removed', before: '.dark' },
+      { variant: 'midnight', type: 'added', after: '.midnight' },
+    ]);
+    expect(diff.tokens).toEqual([
+      {
+        variant: 'dark',
+        path: 'colors.background',
+        type: 'removed',
+        before: '#000',
+      },
+      {
+        variant: 'midnight',
+        path: 'colors.background',
+        type: 'added',
+        after: '#001',
+      },
+    ]);
+  });
+
+  test('compares kept variants layered over their own default theme', () => {
+    const diff = diffThemes(
+      {
+        variants: {
+          default: { colors: { primary: 'blue', muted: 'gray' } },
+          dark: { colors: { primary: 'navy', muted: 'black' } },
+        },
+        selectors: { default: ':root', dark: '.dark' },
+      },
+      {
+        variants: {
+          default: { colors: { primary: 'red', muted: 'gray' } },
+          dark: { colors: { primary: 'navy' } },
+        },
+        selectors: { default: ':root', dark: '[data-theme="dark"]' },
+      },
+    );
+
+    expect(diff.tokens).toEqual([
+      {
+        variant: 'default',
+        path: 'colors.primary',
+        type: 'changed',
+        before: 'blue',
+        after: 'red',
+      },
+      {
+        variant: 'dark',
+        path: 'colors.muted',
+        type: 'changed',
+        before: 'black',
+        after: 'gray',
+      },
+    ]);
+  });
+
+  test('omits base changes that variants inherit', () => {
+    const diff = diffThemes(
+      {
+        variants: {
+          default: { colors: { primary: 'blue' }, spacing: { 4: '1rem' } },
+          dark: { colors: { background: '#000' } },
+        },
+        selectors: { default: ':root', dark: '.dark' },
+      },
+      {
+        variants: {
+          default: { colors: { primary: 'red' }, radius: { lg: '0.5rem' } },
+          dark: { colors: { background: '#000' } },
+        },
+        selectors: { default: ':root', dark: '.dark' },
+      },
+    );
+
+    expect(diff.tokens.map(({ variant }) => variant)).toEqual([
+      'default',
+      'default',
+      'default',
+    ]);
+  });
+
+  test('reports selector changes of kept variants', () => {
+    const diff = diffThemes(
+      { variants: { dark: {} }, selectors: { dark: '.dark' } },
+      { variants: { dark: {} }, selectors: { dark: '[data-theme="dark"]' } },
+    );
+
+    expect(diff.variants).toEqual([
+      {
+        variant: 'dark',
+        type: 'changed',
+        before: '.dark',
+        after: '[data-theme="dark"]',
+      },
+    ]);
+  });
+
+  test('compares array and number values structurally', () => {
+    const diff = diffThemes(
+      {
+        variants: {
+          default: { fonts: { sans: ['Inter', 'sans-serif'] }, ratio: 1 },
+        },
+        selectors: { default: ':root' },
+      },
+      {
+        variants: {
+          default: { fonts: { sans: ['Inter', 'sans-serif'] }, ratio: 2 },
+        },
+        selectors: { default: ':root' },
+      },
+    );
+
+    expect(diff.tokens).toEqual([
+      {
+        variant: 'default',
+        path: 'ratio',
+        type: 'changed',
+        before: 1,
+        after: 2,
+      },
+    ]);
+  });
+});
+
+describe('hasThemeChanges', () => {
+  test('returns false for identical themes', () => {
+    const theme = {
+      variants: { default: { colors: { primary: 'blue' } } },
+      selectors: { default: ':root' },
+    };
+
+    expect(hasThemeChanges(diffThemes(theme, theme))).toBe(false);
+  });
+
+  test('returns true when only a selector changed', () => {
+    expect(
+      hasThemeChanges({
+        variants: [
+          { variant: 'dark', type: 'changed', before: 'a', after: 'b' },
+        ],
+        tokens: [],
+      }),
+    ).toBe(true);
+  });
+});
@@ -3,8 +3,11 @@
  * Tests argument parsing, validation, and file generation workflow
  */
 
+import type { FigmaVariablesPayload } from '../../../src/v4/core/formats/figma';
+
+import { spawnSync } from 'node:child_process';
 import { existsSync } from 'node:fs';
-import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
 import { tmpdir } from 'node:os';
 import { join } from 'node:path';
 
@@ -32,14 +35,19 @@ describe('CLI - File generation integration', () => {
       '../../../src/v4/shared/file_generator'
     );
 
-    const result = await generateThemeFiles(
-      inputFile,
+    const result = await generateThemeFiles({
+      inputPath: inputFile,
       outputDir,
-      true,
-      { variants: true, selectors: true, files: false, variables: false },
-      false,
-      false,
-    );
+      resolveImports: true,
+      runtimeOptions: {
+        variants: true,
+        selectors: true,
+        files: false,
+        variables: false,
+      },
+      includeDefaults: false,
+      debug: false,
+    });
 
     expect(result.files).toContain(inputFile);
     expect(existsSync(join(outputDir, 'types.ts'))).toBe(true);
@@ -57,7 +65,14 @@ describe('CLI - File generation integration', () => {
       '../../../src/v4/shared/file_generator'
     );
 
-    await generateThemeFiles(inputFile, outputDir, true, false, false, false);
+    await generateThemeFiles({
+      inputPath: inputFile,
+      outputDir,
+      resolveImports: true,
+      runtimeOptions: false,
+      includeDefaults: false,
+      debug: false,
+    });
 
     expect(existsSync(join(outputDir, 'types.ts'))).toBe(true);
     expect(existsSync(join(outputDir, 'theme.ts'))).toBe(false);
@@ -74,14 +89,19 @@ describe('CLI - File generation integration', () => {
       '../../../src/v4/shared/file_generator'
     );
 
-    await generateThemeFiles(
-      inputFile,
+    await generateThemeFiles({
+      inputPath: inputFile,
       outputDir,
-      true,
-      { variants: true, selectors: true, files: true, variables: true },
-      false,
-      true,
-    );
+      resolveImports: true,
+      runtimeOptions: {
+        variants: true,
+        selectors: true,
+        files: true,
+        variables: true,
+      },
+      includeDefaults: false,
+      debug: true,
+    });
 
     expect(existsSync(join(outputDir, 'types.ts'))).toBe(true);
     expect(existsSync(join(outputDir, 'theme.ts'))).toBe(true);
@@ -113,14 +133,14 @@ describe('CLI - File generation integration', () => {
       '../../../src/v4/shared/file_generator'
     );
 
-    const result = await generateThemeFiles(
-      mainFile,
+    const result = await generateThemeFiles({
+      inputPath: mainFile,
       outputDir,
-      true,
-      false,
-      false,
-      false,
-    );
+      resolveImports: true,
+      runtimeOptions: false,
+      includeDefaults: false,
+      debug: false,
+    });
 
     expect(result.files).toContain(mainFile);
     expect(result.files).toContain(baseFile);
@@ -135,7 +155,14 @@ describe('CLI - File generation integration', () => {
     );
 
     expect(
-      generateThemeFiles(inputFile, outputDir, true, false, false, false),
+      generateThemeFiles({
+        inputPath: inputFile,
+        outputDir,
+        resolveImports: true,
+        runtimeOptions: false,
+        includeDefaults: false,
+        debug: false,
+      }),
     ).rejects.toThrow();
   });
 
@@ -149,7 +176,14 @@ describe('CLI - File generation integration', () => {
       '../../../src/v4/shared/file_generator'
     );
 
-    await generateThemeFiles(inputFile, outputDir, true, false, false, false);
+    await generateThemeFiles({
+      inputPath: inputFile,
+      outputDir,
+      resolveImports: true,
+      runtimeOptions: false,
+      includeDefaults: false,
+      debug: false,
+    });
 
     expect(existsSync(outputDir)).toBe(true);
     expect(existsSync(join(outputDir, 'types.ts'))).toBe(true);
@@ -165,14 +199,14 @@ describe('CLI - File generation integration', () => {
       '../../../src/v4/shared/file_generator'
     );
 
-    const result = await generateThemeFiles(
-      inputFile,
+    const result = await generateThemeFiles({
+      inputPath: inputFile,
       outputDir,
-      true,
-      false,
-      false,
-      false,
-    );
+      resolveImports: true,
+      runtimeOptions: false,
+      includeDefaults: false,
+      debug: false,
+    });
 
     expect(result.files).toContain(inputFile);
     expect(existsSync(join(outputDir, 'types.ts'))).toBe(true);
@@ -188,14 +222,19 @@ describe('CLI - File generation integration', () => {
       '../../../src/v4/shared/file_generator'
     );
 
-    await generateThemeFiles(
-      inputFile,
+    await generateThemeFiles({
+      inputPath: inputFile,
       outputDir,
-      true,
-      { variants: true, selectors: true, files: false, variables: false },
-      false,
-      false,
-    );
+      resolveImports: true,
+      runtimeOptions: {
+        variants: true,
+        selectors: true,
+        files: false,
+        variables: false,
+      },
+      includeDefaults: false,
+      debug: false,
+    });
 
     const themeContent = await Bun.file(join(outputDir, 'theme.ts')).text();
 
@@ -215,14 +254,19 @@ describe('CLI - File generation integration', () => {
       '../../../src/v4/shared/file_generator'
     );
 
-    await generateThemeFiles(
-      inputFile,
+    await generateThemeFiles({
+      inputPath: inputFile,
       outputDir,
-      true,
-      { variants: true, selectors: true, files: true, variables: true },
-      false,
-      false,
-    );
+      resolveImports: true,
+      runtimeOptions: {
+        variants: true,
+        selectors: true,
+        files: true,
+        variables: true,
+      },
+      includeDefaults: false,
+      debug: false,
+    });
 
     const themeContent = await Bun.file(join(outputDir, 'theme.ts')).text();
 
@@ -243,15 +287,15 @@ describe('CLI - File generation integration', () => {
       '../../../src/v4/shared/file_generator'
     );
 
-    const result = await generateThemeFiles(
-      inputFile,
+    const result = await generateThemeFiles({
+      inputPath: inputFile,
       outputDir,
-      true,
-      false,
-      false,
-      false,
-      customBasePath,
-    );
+      resolveImports: true,
+      runtimeOptions: false,
+      includeDefaults: false,
+      debug: false,
+      basePath: customBasePath,
+    });
 
     expect(result.files).toContain(inputFile);
   });
@@ -338,14 +382,14 @@ describe('CLI - Granular Tailwind Defaults', () => {
       '../../../src/v4/shared/file_generator'
     );
 
-    const result = await generateThemeFiles(
-      inputFile,
+    const result = await generateThemeFiles({
+      inputPath: inputFile,
       outputDir,
-      true,
-      false,
-      true, // Include all defaults
-      false,
-    );
+      resolveImports: true,
+      runtimeOptions: false,
+      includeDefaults: true, // Include all defaults
+      debug: false,
+    });
 
     // Should succeed
     expect(result.files).toContain(inputFile);
@@ -362,14 +406,14 @@ describe('CLI - Granular Tailwind Defaults', () => {
       '../../../src/v4/shared/file_generator'
     );
 
-    await generateThemeFiles(
-      inputFile,
+    await generateThemeFiles({
+      inputPath: inputFile,
       outputDir,
-      true,
-      false,
-      false, // Exclude all defaults
-      false,
-    );
+      resolveImports: true,
+      runtimeOptions: false,
+      includeDefaults: false, // Exclude all defaults
+      debug: false,
+    });
 
     const typesContent = await Bun.file(join(outputDir, 'types.ts')).text();
 
@@ -395,19 +439,19 @@ describe('CLI - Granular Tailwind Defaults', () => {
       '../../../src/v4/shared/file_generator'
     );
 
-    const result = await generateThemeFiles(
-      inputFile,
+    const result = await generateThemeFiles({
+      inputPath: inputFile,
       outputDir,
-      true,
-      false,
-      {
+      resolveImports: true,
+      runtimeOptions: false,
+      includeDefaults: {
         colors: true,
         spacing: true,
         shadows: false,
         radius: false,
       },
-      false,
-    );
+      debug: false,
+    });
 
     // Should succeed
     expect(result.files).toContain(inputFile);
@@ -424,12 +468,12 @@ describe('CLI - Granular Tailwind Defaults', () => {
       '../../../src/v4/shared/file_generator'
     );
 
-    await generateThemeFiles(
-      inputFile,
+    await generateThemeFiles({
+      inputPath: inputFile,
       outputDir,
-      true,
-      false,
-      {
+      resolveImports: true,
+      runtimeOptions: false,
+      includeDefaults: {
         colors: false, // Exclude colors
         spacing: true,
         fonts: true,
@@ -452,8 +496,8 @@ describe('CLI - Granular Tailwind Defaults', () => {
         defaults: true,
         keyframes: true,
       },
-      false,
-    );
+      debug: false,
+    });
 
     const typesContent = await Bun.file(join(outputDir, 'types.ts')).text();
 
@@ -603,16 +647,15 @@ describe('CLI - Granular Report Options', () => {
       '../../../src/v4/shared/file_generator'
     );
 
-    const result = await generateThemeFiles(
-      inputFile,
+    const result = await generateThemeFiles({
+      inputPath: inputFile,
       outputDir,
-      true,
-      false,
-      false,
-      false,
-      undefined,
-      { conflicts: true, unresolved: true },
-    );
+      resolveImports: true,
+      runtimeOptions: false,
+      includeDefaults: false,
+      debug: false,
+      reportOptions: { conflicts: true, unresolved: true },
+    });
 
     // Should have conflict info (if conflicts exist)
     if (result.conflictCount !== undefined && result.conflictCount > 0) {
@@ -649,16 +692,15 @@ describe('CLI - Granular Report Options', () => {
       '../../../src/v4/shared/file_generator'
     );
 
-    const result = await generateThemeFiles(
-      inputFile,
+    const result = await generateThemeFiles({
+      inputPath: inputFile,
       outputDir,
-      true,
-      false,
-      false,
-      false,
-      undefined,
-      { conflicts: false, unresolved: true },
-    );
+      resolveImports: true,
+      runtimeOptions: false,
+      includeDefaults: false,
+      debug: false,
+      reportOptions: { conflicts: false, unresolved: true },
+    });
 
     // Should not have conflict reports
     expect(result.conflictCount).toBeUndefined();
@@ -686,16 +728,15 @@ describe('CLI - Granular Report Options', () => {
       '../../../src/v4/shared/file_generator'
     );
 
-    const result = await generateThemeFiles(
-      inputFile,
+    const result = await generateThemeFiles({
+      inputPath: inputFile,
       outputDir,
-      true,
-      false,
-      false,
-      false,
-      undefined,
-      { conflicts: true, unresolved: false },
-    );
+      resolveImports: true,
+      runtimeOptions: false,
+      includeDefaults: false,
+      debug: false,
+      reportOptions: { conflicts: true, unresolved: false },
+    });
 
     // Should not have unresolved reports
     expect(result.unresolvedCount).toBeUndefined();
@@ -727,16 +768,15 @@ describe('CLI - Granular Report Options', () => {
       '../../../src/v4/shared/file_generator'
     );
 
-    const result = await generateThemeFiles(
-      inputFile,
+    const result = await generateThemeFiles({
+      inputPath: inputFile,
       outputDir,
-      true,
-      false,
-      false,
-      false,
-      undefined,
-      { conflicts: false, unresolved: false },
-    );
+      resolveImports: true,
+      runtimeOptions: false,
+      includeDefaults: false,
+      debug: false,
+      reportOptions: { conflicts: false, unresolved: false },
+    });
 
     // Should not have any reports
     expect(result.conflictCount).toBeUndefined();
@@ -770,16 +810,15 @@ describe('CLI - Granular Report Options', () => {
       '../../../src/v4/shared/file_generator'
     );
 
-    const result = await generateThemeFiles(
-      inputFile,
+    const result = await generateThemeFiles({
+      inputPath: inputFile,
       outputDir,
-      true,
-      false,
-      false,
-      false,
-      undefined,
-      { conflicts: true, unresolved: false },
-    );
+      resolveImports: true,
+      runtimeOptions: false,
+      includeDefaults: false,
+      debug: false,
+      reportOptions: { conflicts: true, unresolved: false },
+    });
 
     // Should not have unresolved reports
     expect(result.unresolvedCount).toBeUndefined();
@@ -814,16 +853,14 @@ describe('CLI - Granular Report Options', () => {
       '../../../src/v4/shared/file_generator'
     );
 
-    const result = await generateThemeFiles(
-      inputFile,
+    const result = await generateThemeFiles({
+      inputPath: inputFile,
       outputDir,
-      true,
-      false,
-      false,
-      false,
-      undefined,
-      undefined, // Default should be all enabled
-    );
+      resolveImports: true,
+      runtimeOptions: false,
+      includeDefaults: false,
+      debug: false,
+    });
 
     // Should potentially have conflict reports if conflicts exist
     // (default is to generate all reports)
@@ -853,12 +890,12 @@ describe('CLI - Argument Parsing and Validation', () => {
     );
 
     // Simulate --include-defaults colors,spacing
-    const result = await generateThemeFiles(
-      inputFile,
+    const result = await generateThemeFiles({
+      inputPath: inputFile,
       outputDir,
-      true,
-      false,
-      {
+      resolveImports: true,
+      runtimeOptions: false,
+      includeDefaults: {
         colors: true,
         spacing: true,
         // All others should be false
@@ -882,8 +919,8 @@ describe('CLI - Argument Parsing and Validation', () => {
         defaults: false,
         keyframes: false,
       },
-      false,
-    );
+      debug: false,
+    });
 
     expect(result.files).toContain(inputFile);
     expect(existsSync(join(outputDir, 'types.ts'))).toBe(true);
@@ -900,12 +937,12 @@ describe('CLI - Argument Parsing and Validation', () => {
     );
 
     // Simulate --exclude-defaults shadows,animations
-    const result = await generateThemeFiles(
-      inputFile,
+    const result = await generateThemeFiles({
+      inputPath: inputFile,
       outputDir,
-      true,
-      false,
-      {
+      resolveImports: true,
+      runtimeOptions: false,
+      includeDefaults: {
         colors: true,
         spacing: true,
         fonts: true,
@@ -928,8 +965,8 @@ describe('CLI - Argument Parsing and Validation', () => {
         defaults: true,
         keyframes: true,
       },
-      false,
-    );
+      debug: false,
+    });
 
     expect(result.files).toContain(inputFile);
     expect(existsSync(join(outputDir, 'types.ts'))).toBe(true);
@@ -959,19 +996,18 @@ describe('CLI - Argument Parsing and Validation', () => {
     );
 
     // Simulate --reports conflicts
-    const result = await generateThemeFiles(
-      inputFile,
+    const result = await generateThemeFiles({
+      inputPath: inputFile,
       outputDir,
-      true,
-      false,
-      false,
-      false,
-      undefined,
-      {
+      resolveImports: true,
+      runtimeOptions: false,
+      includeDefaults: false,
+      debug: false,
+      reportOptions: {
         conflicts: true,
         unresolved: false,
       },
-    );
+    });
 
     expect(result.files).toContain(inputFile);
     expect(result.unresolvedCount).toBeUndefined();
@@ -997,19 +1033,18 @@ describe('CLI - Argument Parsing and Validation', () => {
     );
 
     // Simulate --exclude-reports unresolved
-    const result = await generateThemeFiles(
-      inputFile,
+    const result = await generateThemeFiles({
+      inputPath: inputFile,
       outputDir,
-      true,
-      false,
-      false,
-      false,
-      undefined,
-      {
+      resolveImports: true,
+      runtimeOptions: false,
+      includeDefaults: false,
+      debug: false,
+      reportOptions: {
         conflicts: true,
         unresolved: false,
       },
-    );
+    });
 
     expect(result.files).toContain(inputFile);
     expect(result.unresolvedCount).toBeUndefined();
@@ -1027,12 +1062,12 @@ describe('CLI - Argument Parsing and Validation', () => {
     );
 
     // Simulate --include-defaults colors
-    const result = await generateThemeFiles(
-      inputFile,
+    const result = await generateThemeFiles({
+      inputPath: inputFile,
       outputDir,
-      true,
-      false,
-      {
+      resolveImports: true,
+      runtimeOptions: false,
+      includeDefaults: {
         colors: true,
         spacing: false,
         fonts: false,
@@ -1055,8 +1090,8 @@ describe('CLI - Argument Parsing and Validation', () => {
         defaults: false,
         keyframes: false,
       },
-      false,
-    );
+      debug: false,
+    });
 
     expect(result.files).toContain(inputFile);
     expect(existsSync(join(outputDir, 'types.ts'))).toBe(true);
@@ -1073,12 +1108,12 @@ describe('CLI - Argument Parsing and Validation', () => {
     );
 
     // Simulate --include-defaults " colors , spacing " (with whitespace)
-    const result = await generateThemeFiles(
-      inputFile,
+    const result = await generateThemeFiles({
+      inputPath: inputFile,
       outputDir,
-      true,
-      false,
-      {
+      resolveImports: true,
+      runtimeOptions: false,
+      includeDefaults: {
         colors: true,
         spacing: true,
         fonts: false,
@@ -1101,8 +1136,8 @@ describe('CLI - Argument Parsing and Validation', () => {
         defaults: false,
         keyframes: false,
       },
-      false,
-    );
+      debug: false,
+    });
 
     expect(result.files).toContain(inputFile);
     expect(existsSync(join(outputDir, 'types.ts'))).toBe(true);
@@ -1119,12 +1154,12 @@ describe('CLI - Argument Parsing and Validation', () => {
     );
 
     // Simulate --include-defaults with all 21 categories
-    const result = await generateThemeFiles(
-      inputFile,
+    const result = await generateThemeFiles({
+      inputPath: inputFile,
       outputDir,
-      true,
-      false,
-      {
+      resolveImports: true,
+      runtimeOptions: false,
+      includeDefaults: {
         colors: true,
         spacing: true,
         fonts: true,
@@ -1147,8 +1182,8 @@ describe('CLI - Argument Parsing and Validation', () => {
         defaults: true,
         keyframes: true,
       },
-      false,
-    );
+      debug: false,
+    });
 
     expect(result.files).toContain(inputFile);
     expect(existsSync(join(outputDir, 'types.ts'))).toBe(true);
@@ -1173,12 +1208,12 @@ describe('CLI - Argument Parsing and Validation', () => {
     );
 
     // Simulate --include-defaults colors,spacing --reports conflicts
-    const result = await generateThemeFiles(
-      inputFile,
+    const result = await generateThemeFiles({
+      inputPath: inputFile,
       outputDir,
-      true,
-      false,
-      {
+      resolveImports: true,
+      runtimeOptions: false,
+      includeDefaults: {
         colors: true,
         spacing: true,
         fonts: false,
@@ -1201,13 +1236,12 @@ describe('CLI - Argument Parsing and Validation', () => {
         defaults: false,
         keyframes: false,
       },
-      false,
-      undefined,
-      {
+      debug: false,
+      reportOptions: {
         conflicts: true,
         unresolved: false,
       },
-    );
+    });
 
     expect(result.files).toContain(inputFile);
     expect(result.unresolvedCount).toBeUndefined();
@@ -1236,14 +1270,14 @@ describe('CLI - Edge Cases', () => {
     );
 
     // Pass empty object - should default all to true
-    const result = await generateThemeFiles(
-      inputFile,
+    const result = await generateThemeFiles({
+      inputPath: inputFile,
       outputDir,
-      true,
-      false,
-      {},
-      false,
-    );
+      resolveImports: true,
+      runtimeOptions: false,
+      includeDefaults: {},
+      debug: false,
+    });
 
     expect(result.files).toContain(inputFile);
     expect(existsSync(join(outputDir, 'types.ts'))).toBe(true);
@@ -1260,17 +1294,17 @@ describe('CLI - Edge Cases', () => {
     );
 
     // Only specify a few properties - others should default to true
-    const result = await generateThemeFiles(
-      inputFile,
+    const result = await generateThemeFiles({
+      inputPath: inputFile,
       outputDir,
-      true,
-      false,
-      {
+      resolveImports: true,
+      runtimeOptions: false,
+      includeDefaults: {
         colors: false,
         shadows: false,
       },
-      false,
-    );
+      debug: false,
+    });
 
     expect(result.files).toContain(inputFile);
     expect(existsSync(join(outputDir, 'types.ts'))).toBe(true);
@@ -1287,12 +1321,12 @@ describe('CLI - Edge Cases', () => {
     );
 
     // All categories explicitly false
-    const result = await generateThemeFiles(
-      inputFile,
+    const result = await generateThemeFiles({
+      inputPath: inputFile,
       outputDir,
-      true,
-      false,
-      {
+      resolveImports: true,
+      runtimeOptions: false,
+      includeDefaults: {
         colors: false,
         spacing: false,
         fonts: false,
@@ -1315,8 +1349,8 @@ describe('CLI - Edge Cases', () => {
         defaults: false,
         keyframes: false,
       },
-      false,
-    );
+      debug: false,
+    });
 
     expect(result.files).toContain(inputFile);
     expect(existsSync(join(outputDir, 'types.ts'))).toBe(true);
@@ -1345,19 +1379,18 @@ describe('CLI - Edge Cases', () => {
       '../../../src/v4/shared/file_generator'
     );
 
-    const result = await generateThemeFiles(
-      inputFile,
+    const result = await generateThemeFiles({
+      inputPath: inputFile,
       outputDir,
-      true,
-      false,
-      false,
-      false,
-      undefined,
-      {
+      resolveImports: true,
+      runtimeOptions: false,
+      includeDefaults: false,
+      debug: false,
+      reportOptions: {
         conflicts: false,
         unresolved: false,
       },
-    );
+    });
 
     expect(result.files).toContain(inputFile);
     expect(result.conflictCount).toBeUndefined();
@@ -1377,12 +1410,12 @@ describe('CLI - Edge Cases', () => {
     );
 
     // Runtime disabled (false) + granular defaults
-    const result = await generateThemeFiles(
-      inputFile,
+    const result = await generateThemeFiles({
+      inputPath: inputFile,
       outputDir,
-      false, // No runtime
-      false,
-      {
+      resolveImports: false,
+      runtimeOptions: false, // No runtime
+      includeDefaults: {
         colors: true,
         spacing: true,
         fonts: false,
@@ -1405,8 +1438,8 @@ describe('CLI - Edge Cases', () => {
         defaults: false,
         keyframes: false,
       },
-      false,
-    );
+      debug: false,
+    });
 
     expect(result.files).toContain(inputFile);
     expect(existsSync(join(outputDir, 'types.ts'))).toBe(true);
@@ -1425,12 +1458,17 @@ describe('CLI - Edge Cases', () => {
     );
 
     // Debug mode + granular defaults + granular reports
-    const result = await generateThemeFiles(
-      inputFile,
+    const result = await generateThemeFiles({
+      inputPath: inputFile,
       outputDir,
-      true,
-      { variants: true, selectors: true, files: true, variables: true },
-      {
+      resolveImports: true,
+      runtimeOptions: {
+        variants: true,
+        selectors: true,
+        files: true,
+        variables: true,
+      },
+      includeDefaults: {
         colors: true,
         spacing: false,
         fonts: false,
@@ -1453,13 +1491,12 @@ describe('CLI - Edge Cases', () => {
         defaults: false,
         keyframes: false,
       },
-      true, // Debug mode
-      undefined,
-      {
+      debug: true, // Debug mode
+      reportOptions: {
         conflicts: true,
         unresolved: false,
       },
-    );
+    });
 
     expect(result.files).toContain(inputFile);
     expect(existsSync(join(outputDir, 'types.ts'))).toBe(true);
@@ -1495,12 +1532,17 @@ describe('CLI - Edge Cases', () => {
     );
 
     // Complex scenario: runtime + granular defaults + granular reports + debug
-    const result = await generateThemeFiles(
-      inputFile,
+    const result = await generateThemeFiles({
+      inputPath: inputFile,
       outputDir,
-      true,
-      { variants: true, selectors: false, files: true, variables: false },
-      {
+      resolveImports: true,
+      runtimeOptions: {
+        variants: true,
+        selectors: false,
+        files: true,
+        variables: false,
+      },
+      includeDefaults: {
         colors: true,
         spacing: true,
         fonts: false,
@@ -1523,13 +1565,12 @@ describe('CLI - Edge Cases', () => {
         defaults: false,
         keyframes: true,
       },
-      true,
-      undefined,
-      {
+      debug: true,
+      reportOptions: {
         conflicts: false,
         unresolved: true,
       },
-    );
+    });
 
     expect(result.files).toContain(inputFile);
     expect(existsSync(join(outputDir, 'types.ts'))).toBe(true);
@@ -1545,3 +1586,560 @@ describe('CLI - Edge Cases', () => {
     }
   });
 });
+
+describe('CLI - Print mode', () => {
+  const cliPath = join(import.meta.dir, '../../../src/v4/cli/index.ts');
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'cli-print-test-'));
+    await writeFile(
+      join(tempDir, 'tokens.css'),
+      '@theme { --spacing-4: 1rem; }',
+    );
+    // Keeps a project config in the cwd from applying
+    await writeFile(join(tempDir, 'config.json'), '{"includeDefaults": false}');
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  /**
+   * Runs the CLI in the temp directory
+   *
+   * @param args - CLI arguments
+   * @param input - Standard input
+   * @returns Exit code, stdout and stderr
+   */
+  function runCli(
+    args: Array<string>,
+    input?: string,
+  ): { status: number | null; stdout: string; stderr: string } {
+    return spawnSync(
+      process.execPath,
+      [cliPath, '--config', 'config.json', ...args],
+      { cwd: tempDir, input, encoding: 'utf-8' },
+    );
+  }
+
+  it('should read CSS from stdin and print the resolved result as JSON', () => {
+    const { status, stdout } = runCli(
+      ['--stdin', '--print', 'json'],
+      '@import "./tokens.css";\n@theme { --color-primary: var(--missing); }\n.dark { --color-primary: #000; }',
+    );
+
+    expect(status).toBe(0);
+    const result = JSON.parse(stdout) as {
+      variants: Record<string, Record<string, unknown>>;
+      selectors: Record<string, string>;
+    };
+    expect(result.selectors).toEqual({ default: ':root', dark: '.dark' });
+    expect(result.variants.default?.spacing).toEqual({ 4: '1rem' });
+  });
+
+  it('should keep diagnostics on stderr', () => {
+    const { stdout, stderr } = runCli(
+      ['--stdin', '--print', 'json'],
+      '@theme { --color-primary: var(--missing); }',
+    );
+
+    expect(() => JSON.parse(stdout) as unknown).not.toThrow();
+    expect(stderr).toContain('1 unresolved variable detected');
+  });
+
+  it('should print type declarations without writing files', () => {
+    const { status, stdout } = runCli([
+      '-i',
+      'tokens.css',
+      '--print',
+      'types',
+      '-o',
+      'out',
+    ]);
+
+    expect(status).toBe(0);
+    expect(stdout).toContain('export interface Tailwind');
+    expect(existsSync(join(tempDir, 'out'))).toBe(false);
+  });
+
+  it('should reject --stdin without --print', () => {
+    const { status, stderr } = runCli(['--stdin'], '');
+
+    expect(status).toBe(1);
+    expect(stderr).toContain('--stdin requires --print <format>');
+  });
+});
+
+describe('CLI - Diagnostic gating', () => {
+  const cliPath = join(import.meta.dir, '../../../src/v4/cli/index.ts');
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'cli-gating-test-'));
+    await writeFile(
+      join(tempDir, 'theme.css'),
+      '@theme { --color-primary: var(--brand); --color-accent: var(--accent, #f00); }',
+    );
+    // Keeps a project config in the cwd from applying
+    await writeFile(join(tempDir, 'config.json'), '{"includeDefaults": false}');
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  /**
+   * Generates theme files in the temp directory
+   *
+   * @param args - Additional CLI arguments
+   * @returns Exit code, stdout and stderr
+   */
+  function runCli(args: Array<string>): {
+    status: number | null;
+    stdout: string;
+    stderr: string;
+  } {
+    return spawnSync(
+      process.execPath,
+      [
+        cliPath,
+        '--config',
+        'config.json',
+        '-i',
+        'theme.css',
+        '-o',
+        'out',
+        ...args,
+      ],
+      { cwd: tempDir, encoding: 'utf-8' },
+    );
+  }
+
+  it('should exit with code 1 on diagnostics at or above --fail-on', () => {
+    const { status, stderr } = runCli(['--fail-on', 'unresolved:high']);
+
+    expect(status).toBe(1);
+    expect(stderr).toContain('1 diagnostic exceeds the fail-on thresholds');
+    expect(stderr).toContain(
+      'unresolved (high): --color-primary references --brand in theme (theme.css:1:10)',
+    );
+    expect(stderr).not.toContain('--color-accent');
+  });
+
+  it('should only fail on diagnostics missing from the baseline', async () => {
+    const update = runCli([
+      '--baseline',
+      'diagnostics.json',
+      '--update-baseline',
+    ]);
+    expect(update.status).toBe(0);
+    expect(update.stdout).toContain('Baseline written to diagnostics.json');
+
+    expect(runCli(['--baseline', 'diagnostics.json']).status).toBe(0);
+
+    await writeFile(
+      join(tempDir, 'theme.css'),
+      '@theme { --color-primary: var(--brand); --color-ring: var(--ring); }',
+    );
+    const { status, stderr } = runCli(['--baseline', 'diagnostics.json']);
+
+    expect(status).toBe(1);
+    expect(stderr).toContain('--color-ring references --ring');
+    expect(stderr).not.toContain('--color-primary');
+  });
+
+  it('should reject invalid --fail-on entries and gating flags with commands', () => {
+    expect(runCli(['--fail-on', 'conflicts:severe']).stderr).toContain(
+      'Invalid --fail-on entry: conflicts:severe',
+    );
+    expect(runCli(['--update-baseline']).stderr).toContain(
+      '--update-baseline requires --baseline',
+    );
+    expect(runCli(['check', '--fail-on', 'conflicts']).stderr).toContain(
+      '--fail-on cannot be used with the check command',
+    );
+  });
+});
+
+describe('CLI - Migrate command', () => {
+  const cliPath = join(import.meta.dir, '../../../src/v4/cli/index.ts');
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'cli-migrate-test-'));
+    await writeFile(
+      join(tempDir, 'tailwind.config.js'),
+      `module.exports = {
+        darkMode: 'class',
+        plugins: [],
+        theme: { extend: { colors: { brand: '#336699' } } },
+      };`,
+    );
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  /**
+   * Runs the CLI in the temp directory
+   *
+   * @param args - CLI arguments
+   * @returns Exit code, stdout and stderr
+   */
+  function runCli(args: Array<string>): {
+    status: number | null;
+    stdout: string;
+    stderr: string;
+  } {
+    return spawnSync(process.execPath, [cliPath, ...args], {
+      cwd: tempDir,
+      encoding: 'utf-8',
+    });
+  }
+
+  it('should print CSS for the config in cwd and report issues to stderr', () => {
+    const { status, stdout, stderr } = runCli(['migrate']);
+
+    expect(status).toBe(0);
+    expect(stdout).toContain('@custom-variant dark (&:where(.dark, .dark *));');
+    expect(stdout).toContain('  --color-brand: #336699;');
+    expect(stderr).toContain('✓ Migrated 1 theme variable to stdout');
+    expect(stderr).toContain('  - plugins: Load plugins with @plugin in CSS');
+  });
+
+  it('should write the CSS to --output', async () => {
+    const { status } = runCli([
+      'migrate',
+      'tailwind.config.js',
+      '-o',
+      'src/theme.css',
+    ]);
+
+    expect(status).toBe(0);
+    expect(await readFile(join(tempDir, 'src/theme.css'), 'utf-8')).toStartWith(
+      '/* Migrated from tailwind.config.js */',
+    );
+  });
+
+  it('should exit with code 1 when the config is missing', () => {
+    const { status, stderr } = runCli(['migrate', 'missing.config.js']);
+
+    expect(status).toBe(1);
+    expect(stderr).toContain('Tailwind config not found: missing.config.js');
+  });
+});
+
+describe('CLI - Multiple entries', () => {
+  const cliPath = join(import.meta.dir, '../../../src/v4/cli/index.ts');
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'cli-entries-test-'));
+    await writeFile(
+      join(tempDir, 'web.css'),
+      '@theme { --color-primary: var(--brand); }',
+    );
+    await writeFile(join(tempDir, 'docs.css'), '@theme { --spacing-1: 4px; }');
+    await writeFile(
+      join(tempDir, 'tailwind-resolver.config.json'),
+      JSON.stringify({
+        includeDefaults: false,
+        entries: [
+          {
+            name: 'web',
+            input: 'web.css',
+            outputDir: 'gen/web',
+            failOn: { unresolved: true },
+          },
+          { name: 'docs', input: 'docs.css', outputDir: 'gen/docs' },
+        ],
+      }),
+    );
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  /**
+   * Runs the CLI in the temp directory
+   *
+   * @param args - CLI arguments
+   * @returns Exit code, stdout and stderr
+   */
+  function runCli(args: Array<string>): {
+    status: number | null;
+    stdout: string;
+    stderr: string;
+  } {
+    return spawnSync(process.execPath, [cliPath, ...args], {
+      cwd: tempDir,
+      encoding: 'utf-8',
+    });
+  }
+
+  it('should generate every entry and fail after the summary', () => {
+    const { status, stdout, stderr } = runCli([]);
+
+    expect(status).toBe(1);
+    expect(existsSync(join(tempDir, 'gen/web/types.ts'))).toBe(true);
+    expect(existsSync(join(tempDir, 'gen/docs/types.ts'))).toBe(true);
+    expect(stderr).toContain('[web] 1 diagnostic exceeds');
+    expect(stdout).toContain(
+      [
+        'Entry  Conflicts  Unresolved  Status  Output',
+        'web    0          1           failed  gen/web',
+        'docs   0          0           ok      gen/docs',
+        '',
+        '2 entries: 1 ok, 1 failed, 0 errors',
+      ].join('\n'),
+    );
+    expect(stderr).toContain('1 of 2 entries failed');
+  });
+
+  it('should replace the config entries with --entry', () => {
+    const { status, stdout } = runCli(['--entry', 'docs.css=out/docs']);
+
+    expect(status).toBe(0);
+    expect(existsSync(join(tempDir, 'out/docs/types.ts'))).toBe(true);
+    expect(existsSync(join(tempDir, 'gen'))).toBe(false);
+    expect(stdout).toContain('1 entry: 1 ok, 0 failed, 0 errors');
+  });
+
+  it('should generate a single entry selected with --input', () => {
+    const { status } = runCli(['-i', 'web.css', '-o', 'gen/web']);
+
+    expect(status).toBe(0);
+    expect(existsSync(join(tempDir, 'gen/docs'))).toBe(false);
+  });
+
+  it('should require --input for commands', () => {
+    const { status, stderr } = runCli(['check']);
+
+    expect(status).toBe(1);
+    expect(stderr).toContain(
+      '--input is required to select one theme when the config defines entries',
+    );
+  });
+
+  it('should reject a malformed --entry', () => {
+    const { status, stderr } = runCli(['--entry', 'docs.css']);
+
+    expect(status).toBe(1);
+    expect(stderr).toContain(
+      '--entry must be in the form <input>=<outputDir> (got: docs.css)',
+    );
+  });
+});
+
+describe('CLI - Token formats', () => {
+  const cliPath = join(import.meta.dir, '../../../src/v4/cli/index.ts');
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'cli-formats-test-'));
+    await writeFile(
+      join(tempDir, 'theme.css'),
+      '@theme { --color-primary: #3b82f6; } .dark { --color-primary: #60a5fa; }',
+    );
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should write DTCG token files with --formats dtcg', () => {
+    const { status, stdout } = spawnSync(
+      process.execPath,
+      [cliPath, '-i', 'theme.css', '-o', 'gen', '--formats', 'dtcg'],
+      { cwd: tempDir, encoding: 'utf-8' },
+    );
+
+    expect(status).toBe(0);
+    expect(existsSync(join(tempDir, 'gen/tokens.json'))).toBe(true);
+    expect(existsSync(join(tempDir, 'gen/tokens.dark.json'))).toBe(true);
+    expect(stdout).toContain('tokens.dark.json');
+  });
+
+  it('should write preprocessor files with --formats scss,less,stylus', () => {
+    const { status } = spawnSync(
+      process.execPath,
+      [
+        cliPath,
+        '-i',
+        'theme.css',
+        '-o',
+        'gen',
+        '--formats',
+        'scss,less,stylus',
+      ],
+      { cwd: tempDir, encoding: 'utf-8' },
+    );
+
+    expect(status).toBe(0);
+    expect(existsSync(join(tempDir, 'gen/_tokens.scss'))).toBe(true);
+    expect(existsSync(join(tempDir, 'gen/tokens.less'))).toBe(true);
+    expect(existsSync(join(tempDir, 'gen/tokens.styl'))).toBe(true);
+    expect(existsSync(join(tempDir, 'gen/tokens.json'))).toBe(false);
+  });
+
+  it('should write theme files with --formats vanillaExtract,styledComponents', async () => {
+    const { status } = spawnSync(
+      process.execPath,
+      [
+        cliPath,
+        '-i',
+        'theme.css',
+        '-o',
+        'gen',
+        '--formats',
+        'vanillaExtract,styledComponents',
+      ],
+      { cwd: tempDir, encoding: 'utf-8' },
+    );
+
+    expect(status).toBe(0);
+    const vanillaExtract = await readFile(
+      join(tempDir, 'gen/theme.css.ts'),
+      'utf-8',
+    );
+    expect(vanillaExtract).toContain("primary: 'color-primary'");
+    expect(vanillaExtract).toContain("createGlobalTheme('.dark', vars, {");
+    expect(existsSync(join(tempDir, 'gen/styled.d.ts'))).toBe(true);
+  });
+
+  it('should write Figma variables with --formats figma', () => {
+    const { status } = spawnSync(
+      process.execPath,
+      [cliPath, '-i', 'theme.css', '-o', 'gen', '--formats', 'figma'],
+      { cwd: tempDir, encoding: 'utf-8' },
+    );
+
+    expect(status).toBe(0);
+    expect(existsSync(join(tempDir, 'gen/figma-variables.json'))).toBe(true);
+  });
+
+  it('should write native themes with --formats swift,kotlin,dart', async () => {
+    const { status } = spawnSync(
+      process.execPath,
+      [
+        cliPath,
+        '-i',
+        'theme.css',
+        '-o',
+        'gen',
+        '--formats',
+        'swift,kotlin,dart',
+      ],
+      { cwd: tempDir, encoding: 'utf-8' },
+    );
+
+    expect(status).toBe(0);
+    expect(existsSync(join(tempDir, 'gen/Theme.swift'))).toBe(true);
+    expect(await readFile(join(tempDir, 'gen/Theme.kt'), 'utf-8')).toContain(
+      'package theme',
+    );
+    expect(existsSync(join(tempDir, 'gen/theme.dart'))).toBe(true);
+  });
+
+  it('should reject unknown formats', () => {
+    const { status, stderr } = spawnSync(
+      process.execPath,
+      [cliPath, '-i', 'theme.css', '--formats', 'dtcg,yaml'],
+      { cwd: tempDir, encoding: 'utf-8' },
+    );
+
+    expect(status).toBe(1);
+    expect(stderr).toContain('Invalid --formats entry: yaml');
+  });
+});
+
+describe('CLI - import-figma', () => {
+  const cliPath = join(import.meta.dir, '../../../src/v4/cli/index.ts');
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'cli-figma-test-'));
+    await writeFile(
+      join(tempDir, 'theme.css'),
+      '@theme { --color-primary: #3b82f6; } .dark { --color-primary: #60a5fa; }',
+    );
+    spawnSync(
+      process.execPath,
+      [cliPath, '-i', 'theme.css', '-o', 'gen', '--formats', 'figma'],
+      { cwd: tempDir, encoding: 'utf-8' },
+    );
+    const payload = JSON.parse(
+      await readFile(join(tempDir, 'gen/figma-variables.json'), 'utf-8'),
+    ) as FigmaVariablesPayload;
+    const primary = payload.variableModeValues.find(
+      ({ variableId, modeId }) =>
+        variableId === 'variable:colors/primary' &&
+        modeId === 'mode:colors:default',
+    )!;
+    primary.value = { r: 1, g: 0, b: 0, a: 1 };
+    await writeFile(join(tempDir, 'variables.json'), JSON.stringify(payload));
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should print the edited values as overrides', () => {
+    const { status, stdout, stderr } = spawnSync(
+      process.execPath,
+      [cliPath, 'import-figma', 'variables.json', '-i', 'theme.css'],
+      { cwd: tempDir, encoding: 'utf-8' },
+    );
+
+    expect(status).toBe(0);
+    const overrides: unknown = JSON.parse(stdout);
+    expect(overrides).toEqual({
+      default: { 'colors.primary': '#ff0000' },
+    });
+    expect(stderr).toContain('✓ Imported 1 override from variables.json');
+  });
+
+  it('should merge the overrides into the -o file', async () => {
+    await writeFile(
+      join(tempDir, 'overrides.json'),
+      '{ "dark": { "colors.accent": "#000" } }',
+    );
+
+    const { status } = spawnSync(
+      process.execPath,
+      [
+        cliPath,
+        'import-figma',
+        'variables.json',
+        '-i',
+        'theme.css',
+        '-o',
+        'overrides.json',
+      ],
+      { cwd: tempDir, encoding: 'utf-8' },
+    );
+
+    expect(status).toBe(0);
+    const overrides: unknown = JSON.parse(
+      await readFile(join(tempDir, 'overrides.json'), 'utf-8'),
+    );
+    expect(overrides).toMatchObject({
+      dark: { 'colors.accent': '#000' },
+      default: { 'colors.primary': '#ff0000' },
+    });
+  });
+
+  it('should require a Figma variables file', () => {
+    const { status, stderr } = spawnSync(
+      process.execPath,
+      [cliPath, 'import-figma', '-i', 'theme.css'],
+      { cwd: tempDir, encoding: 'utf-8' },
+    );
+
+    expect(status).toBe(1);
+    expect(stderr).toContain('import-figma requires a Figma variables file');
+  });
+});
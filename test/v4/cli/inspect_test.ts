@@ -0,0 +1,87 @@
+/**
+ * Unit tests for CLI inspect mode
+ * Tests the text output of token explanations
+ */
+
+import type { TokenExplanation } from '../../../src/v4/core';
+
+import { describe, expect, it } from 'bun:test';
+
+import { formatTokenExplanation } from '../../../src/v4/cli/inspect';
+
+describe('formatTokenExplanation', () => {
+  it('should list each hop with its source and relative location', () => {
+    const explanation: TokenExplanation = {
+      path: 'colors.primary',
+      variant: 'dark',
+      selector: '.dark',
+      value: '#fff',
+      chain: [
+        {
+          variable: '--color-primary',
+          value: 'var(--brand)',
+          source: 'theme',
+          location: { file: '/app/src/theme.css', line: 2, column: 3 },
+        },
+        {
+          variable: '--brand',
+          value: '#112233',
+          source: 'variant',
+          variantName: 'dark',
+          selector: '.dark',
+          location: { file: '/app/src/theme.css', line: 9, column: 3 },
+        },
+      ],
+      unresolved: ['--missing'],
+      conflicts: [
+        {
+          ruleSelector: '.dark .text-primary',
+          ruleValue: '#000',
+          variableValue: '#112233',
+          confidence: 'low',
+          applied: false,
+        },
+      ],
+      overrides: [{ selector: 'dark', value: '#fff' }],
+    };
+
+    expect(formatTokenExplanation(explanation, '/app')).toBe(
+      [
+        'colors.primary [dark: .dark]',
+        '  = #fff',
+        '',
+        'Resolution:',
+        '  1. --color-primary: var(--brand)  theme (src/theme.css:2:3)',
+        '  2. --brand: #112233  variant .dark (src/theme.css:9:3)',
+        '',
+        'Unresolved (left as var()):',
+        '  --missing',
+        '',
+        'Conflicting CSS rules:',
+        '  .dark .text-primary: #000 (low confidence, not applied)',
+        '',
+        'Overrides:',
+        '  dark → #fff',
+      ].join('\n'),
+    );
+  });
+
+  it('should note tokens that no variable declares', () => {
+    const output = formatTokenExplanation(
+      {
+        path: 'fonts.sans',
+        variant: 'default',
+        selector: ':root',
+        value: ['Inter', 'sans-serif'],
+        chain: [],
+        unresolved: [],
+        conflicts: [],
+        overrides: [],
+      },
+      '/app',
+    );
+
+    expect(output).toContain('  = ["Inter","sans-serif"]');
+    expect(output).toContain('  (not declared by a CSS variable)');
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Unit tests for the CLI migrate command
+ * Tests config discovery and the migration report
+ */
+
+import type { TailwindV3Migration } from '../../../src/v4/core';
+
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+
+import {
+  findTailwindV3Config,
+  formatMigrationReport,
+} from '../../../src/v4/cli/migrate';
+
+describe('findTailwindV3Config', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'migrate-test-'));
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should find the first matching config file', async () => {
+    expect(findTailwindV3Config(tempDir)).toBeNull();
+
+    await writeFile(join(tempDir, 'tailwind.config.ts'), 'export default {}');
+    await writeFile(join(tempDir, 'tailwind.config.cjs'), 'module.exports={}');
+
+    expect(findTailwindV3Config(tempDir)).toBe(
+      join(tempDir, 'tailwind.config.cjs'),
+    );
+  });
+});
+
+describe('formatMigrationReport', () => {
+  it('should group issues by kind with replacements', () => {
+    const migration: TailwindV3Migration = {
+      css: '',
+      variableCount: 1,
+      issues: [
+        {
+          path: 'theme.extend.borderRadius.DEFAULT',
+          kind: 'deprecated',
+          message: "Singular variable '--radius' is deprecated in Tailwind v4",
+          replacement: '--radius-sm or --radius-md',
+        },
+        {
+          path: 'plugins',
+          kind: 'unmapped',
+          message: 'Load plugins with @plugin in CSS',
+        },
+      ],
+    };
+
+    expect(formatMigrationReport(migration, 'src/theme.css')).toBe(
+      [
+        '✓ Migrated 1 theme variable to src/theme.css',
+        '',
+        'Not migrated:',
+        '  - plugins: Load plugins with @plugin in CSS',
+        '',
+        'Deprecated in Tailwind v4:',
+        "  - theme.extend.borderRadius.DEFAULT: Singular variable '--radius' is deprecated in Tailwind v4 (use --radius-sm or --radius-md)",
+      ].join('\n'),
+    );
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Unit tests for CLI watch mode
+ * Tests debounced regeneration, watch list updates and error recovery
+ */
+
+/* eslint-disable @typescript-eslint/no-magic-numbers */
+
+import type { ThemeWatcher } from '../../../src/v4/cli/watcher';
+
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+
+import { watchThemeFiles } from '../../../src/v4/cli/watcher';
+
+const DEBOUNCE_MS = 20;
+const SETTLE_MS = 200;
+
+/**
+ * Waits for file system events and debounced runs to settle
+ *
+ * @returns Promise resolving after the settle delay
+ */
+function settle(): Promise<void> {
+  return new Promise((resolvePromise) => setTimeout(resolvePromise, SETTLE_MS));
+}
+
+describe('watchThemeFiles', () => {
+  let tempDir: string;
+  let watcher: ThemeWatcher | undefined;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'watch-test-'));
+  });
+
+  afterEach(async () => {
+    watcher?.close();
+    watcher = undefined;
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should debounce bursts of changes into one regeneration', async () => {
+    const input = join(tempDir, 'input.css');
+    await writeFile(input, '@theme { --color-primary: blue; }', 'utf-8');
+
+    let runs = 0;
+    watcher = watchThemeFiles(
+      [input],
+      async () => {
+        runs++;
+        return [input];
+      },
+      { debounceMs: DEBOUNCE_MS },
+    );
+
+    await writeFile(input, '@theme { --color-primary: red; }', 'utf-8');
+    await writeFile(input, '@theme { --color-primary: green; }', 'utf-8');
+    await settle();
+
+    expect(runs).toBe(1);
+  });
+
+  it('should watch files returned by the last regeneration', async () => {
+    const input = join(tempDir, 'input.css');
+    const imported = join(tempDir, 'colors.css');
+    await writeFile(input, '@theme { --color-primary: blue; }', 'utf-8');
+    await writeFile(imported, '@theme { --color-accent: red; }', 'utf-8');
+
+    let runs = 0;
+    watcher = watchThemeFiles(
+      [input],
+      async () => {
+        runs++;
+        return [input, imported];
+      },
+      { debounceMs: DEBOUNCE_MS },
+    );
+
+    await writeFile(input, '@import "./colors.css";', 'utf-8');
+    await settle();
+    expect(watcher.files.has(imported)).toBe(true);
+
+    await writeFile(imported, '@theme { --color-accent: green; }', 'utf-8');
+    await settle();
+    expect(runs).toBe(2);
+  });
+
+  it('should keep watching a changed file dropped from the processed files', async () => {
+    const input = join(tempDir, 'input.css');
+    const imported = join(tempDir, 'colors.css');
+    await writeFile(input, '@import "./colors.css";', 'utf-8');
+    await writeFile(imported, '@theme { --color-accent: red; }', 'utf-8');
+
+    let runs = 0;
+    watcher = watchThemeFiles(
+      [input, imported],
+      async () => {
+        runs++;
+        // First run: the broken import is skipped by import resolution
+        return runs === 1 ? [input] : [input, imported];
+      },
+      { debounceMs: DEBOUNCE_MS },
+    );
+
+    await writeFile(imported, '@theme { --color-accent: ', 'utf-8');
+    await settle();
+    expect(watcher.files.has(imported)).toBe(true);
+
+    await writeFile(imported, '@theme { --color-accent: green; }', 'utf-8');
+    await settle();
+    expect(runs).toBe(2);
+  });
+
+  it('should report errors and keep watching', async () => {
+    const input = join(tempDir, 'input.css');
+    await writeFile(input, '@theme { --color-primary: blue; }', 'utf-8');
+
+    const errors: Array<unknown> = [];
+    let runs = 0;
+    watcher = watchThemeFiles(
+      [input],
+      async () => {
+        runs++;
+        if (runs === 1) {
+          throw new Error('Unclosed block');
+        }
+        return [input];
+      },
+      { debounceMs: DEBOUNCE_MS, onError: (error) => errors.push(error) },
+    );
+
+    await writeFile(input, '@theme { --color-primary: ', 'utf-8');
+    await settle();
+    expect(errors).toHaveLength(1);
+
+    await writeFile(input, '@theme { --color-primary: red; }', 'utf-8');
+    await settle();
+    expect(runs).toBe(2);
+  });
+
+  it('should stop regenerating after close', async () => {
+    const input = join(tempDir, 'input.css');
+    await writeFile(input, '@theme { --color-primary: blue; }', 'utf-8');
+
+    let runs = 0;
+    watcher = watchThemeFiles(
+      [input],
+      async () => {
+        runs++;
+        return [input];
+      },
+      { debounceMs: DEBOUNCE_MS },
+    );
+    watcher.close();
+
+    await writeFile(input, '@theme { --color-primary: red; }', 'utf-8');
+    await settle();
+
+    expect(runs).toBe(0);
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Tests for color format conversion and gamut mapping
+ */
+
+import { describe, expect, test } from 'bun:test';
+
+import { resolveTheme } from '../../../src/v4';
+import {
+  convertColor,
+  formatThemeColors,
+} from '../../../src/v4/core/color/format';
+
+// Tailwind v4 default palette values and their published sRGB equivalents
+const RED_500 = 'oklch(63.7% 0.237 25.331)';
+const BLUE_500 = 'oklch(62.3% 0.214 259.815)';
+const NEUTRAL_50 = 'oklch(0.985 0 0)';
+
+// Hue range (degrees) that still reads as green after gamut mapping
+const GREEN_HUE_MIN = 110;
+const GREEN_HUE_MAX = 150;
+
+describe('convertColor', () => {
+  describe('hex output', () => {
+    test('converts oklch() to hex', () => {
+      expect(convertColor('oklch(1 0 0)', 'hex')).toBe('#ffffff');
+      expect(convertColor(RED_500, 'hex')).toBe('#fb2c36');
+      expect(convertColor(BLUE_500, 'hex')).toBe('#2b7fff');
+      expect(convertColor(NEUTRAL_50, 'hex')).toBe('#fafafa');
+    });
+
+    test('appends alpha channel for translucent colors', () => {
+      expect(convertColor(`oklch(62.3% 0.214 259.815 / 50%)`, 'hex')).toBe(
+        '#2b7fff80',
+      );
+      expect(convertColor('transparent', 'hex')).toBe('#00000000');
+    });
+
+    test('converts hsl(), hwb() and lab() to hex', () => {
+      expect(convertColor('hsl(0 100% 50%)', 'hex')).toBe('#ff0000');
+      expect(convertColor('hwb(120 0% 0%)', 'hex')).toBe('#00ff00');
+      expect(convertColor('lab(100% 0 0)', 'hex')).toBe('#ffffff');
+    });
+
+    test('normalizes short hex notation', () => {
+      expect(convertColor('#ABC', 'hex')).toBe('#aabbcc');
+    });
+  });
+
+  describe('rgb output', () => {
+    test('converts to rgb() and rgba()', () => {
+      expect(convertColor(BLUE_500, 'rgb')).toBe('rgb(43, 127, 255)');
+      expect(convertColor('#ff000080', 'rgb')).toBe('rgba(255, 0, 0, 0.502)');
+    });
+  });
+
+  describe('hsl output', () => {
+    test('converts to hsl() and hsla()', () => {
+      expect(convertColor('#ff0000', 'hsl')).toBe('hsl(0, 100%, 50%)');
+      expect(convertColor('rgb(0 0 255 / 0.5)', 'hsl')).toBe(
+        'hsla(240, 100%, 50%, 0.5)',
+      );
+    });
+
+    test('reports zero hue and saturation for grays', () => {
+      expect(convertColor('oklch(1 0 0)', 'hsl')).toBe('hsl(0, 0%, 100%)');
+      expect(convertColor(NEUTRAL_50, 'hsl')).toBe('hsl(0, 0%, 98%)');
+    });
+  });
+
+  describe('Gamut mapping', () => {
+    test('keeps out-of-gamut colors within sRGB', () => {
+      const result = convertColor('color(display-p3 1 0 0)', 'rgb');
+
+      expect(result).toMatch(/^rgb\(255, \d+, \d+\)$/);
+    });
+
+    test('clamps out-of-range rgb(), hsl() and hwb() channels instead of mapping them', () => {
+      expect(convertColor('rgb(300, 0, 0)', 'hex')).toBe('#ff0000');
+      expect(convertColor('rgb(-20 128 400)', 'hex')).toBe('#0080ff');
+      expect(convertColor('hsl(0 150% 50%)', 'hex')).toBe('#ff0000');
+    });
+
+    test('preserves hue when reducing chroma', () => {
+      // A very saturated oklch green should stay green, not shift toward yellow/cyan
+      const result = convertColor('oklch(0.7 0.4 145)', 'hsl');
+      const hue = Number(result.match(/^hsl\(([\d.]+),/)?.[1]);
+
+      expect(hue).toBeGreaterThan(GREEN_HUE_MIN);
+      expect(hue).toBeLessThan(GREEN_HUE_MAX);
+    });
+  });
+
+  describe('Unsupported values', () => {
+    test('returns non-color values unchanged', () => {
+      expect(convertColor('var(--primary)', 'hex')).toBe('var(--primary)');
+      expect(convertColor('currentColor', 'rgb')).toBe('currentColor');
+      expect(convertColor('color-mix(in oklch, red, blue)', 'hsl')).toBe(
+        'color-mix(in oklch, red, blue)',
+      );
+    });
+  });
+});
+
+describe('formatThemeColors', () => {
+  test('converts flat and nested color values', () => {
+    expect(
+      formatThemeColors(
+        { white: 'oklch(1 0 0)', blue: { 500: BLUE_500 } },
+        'hex',
+      ),
+    ).toEqual({ white: '#ffffff', blue: { 500: '#2b7fff' } });
+  });
+
+  test('does not mutate the input object', () => {
+    const colors = { blue: { 500: BLUE_500 } };
+
+    formatThemeColors(colors, 'hex');
+
+    expect(colors.blue[500]).toBe(BLUE_500);
+  });
+});
+
+describe('resolveTheme colorFormat option', () => {
+  const css = `
+    @theme {
+      --color-primary: ${BLUE_500};
+      --color-red-500: ${RED_500};
+      --color-accent: var(--color-primary);
+    }
+
+    [data-theme='dark'] {
+      --color-primary: oklch(1 0 0);
+    }
+  `;
+
+  test('converts colors in default and variant themes', async () => {
+    const result = await resolveTheme({
+      css,
+      includeDefaults: false,
+      colorFormat: 'hex',
+    });
+
+    expect(result.variants.default.colors.primary).toBe('#2b7fff');
+    expect(result.variants.default.colors.red?.[500]).toBe('#fb2c36');
+    expect(result.variants.default.colors.accent).toBe('#2b7fff');
+    expect(result.variants.dark?.colors.primary).toBe('#ffffff');
+  });
+
+  test('keeps colors as authored when colorFormat is not set', async () => {
+    const result = await resolveTheme({ css, includeDefaults: false });
+
+    expect(result.variants.default.colors.primary).toBe(BLUE_500);
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Tests for CSS color value parsing
+ */
+
+/* eslint-disable @typescript-eslint/no-magic-numbers */
+
+import { describe, expect, test } from 'bun:test';
+
+import { parseColor } from '../../../src/v4/core/color/parser';
+
+describe('parseColor', () => {
+  describe('Hex notation', () => {
+    test('parses 6-digit hex', () => {
+      const color = parseColor('#ff8000');
+
+      expect(color?.space).toBe('srgb');
+      expect(color?.coords[0]).toBeCloseTo(1);
+      expect(color?.coords[1]).toBeCloseTo(128 / 255);
+      expect(color?.coords[2]).toBeCloseTo(0);
+      expect(color?.alpha).toBe(1);
+    });
+
+    test('expands 3-digit and 4-digit hex', () => {
+      expect(parseColor('#f00')?.coords).toEqual([1, 0, 0]);
+      expect(parseColor('#f008')?.alpha).toBeCloseTo(136 / 255);
+    });
+
+    test('parses 8-digit hex alpha', () => {
+      expect(parseColor('#00000080')?.alpha).toBeCloseTo(128 / 255);
+    });
+
+    test('rejects invalid hex lengths', () => {
+      expect(parseColor('#12345')).toBeNull();
+      expect(parseColor('#ggg')).toBeNull();
+    });
+  });
+
+  describe('Color functions', () => {
+    test('parses modern rgb() with slash alpha', () => {
+      const color = parseColor('rgb(255 0 0 / 50%)');
+
+      expect(color?.space).toBe('srgb');
+      expect(color?.coords).toEqual([1, 0, 0]);
+      expect(color?.alpha).toBe(0.5);
+    });
+
+    test('parses legacy comma-separated rgba()', () => {
+      const color = parseColor('rgba(0, 0, 255, 0.25)');
+
+      expect(color?.coords).toEqual([0, 0, 1]);
+      expect(color?.alpha).toBe(0.25);
+    });
+
+    test('parses rgb() percentages', () => {
+      expect(parseColor('rgb(100% 50% 0%)')?.coords).toEqual([1, 0.5, 0]);
+    });
+
+    test('parses hsl() and hwb()', () => {
+      expect(parseColor('hsl(210 40% 50%)')).toEqual({
+        space: 'hsl',
+        coords: [210, 40, 50],
+        alpha: 1,
+      });
+      expect(parseColor('hwb(120 10% 20%)')?.space).toBe('hwb');
+    });
+
+    test('converts hue angle units to degrees', () => {
+      expect(parseColor('hsl(0.5turn 100% 50%)')?.coords[0]).toBe(180);
+      expect(parseColor('hsl(200grad 100% 50%)')?.coords[0]).toBe(180);
+      expect(parseColor('hsl(3.14159rad 100% 50%)')?.coords[0]).toBeCloseTo(
+        180,
+        2,
+      );
+    });
+
+    test('parses oklch() with percentage lightness', () => {
+      expect(parseColor('oklch(62.3% 0.214 259.815)')).toEqual({
+        space: 'oklch',
+        coords: [0.623, 0.214, 259.815],
+        alpha: 1,
+      });
+    });
+
+    test('maps percentages to spec reference ranges', () => {
+      expect(parseColor('oklab(50% 100% -100%)')?.coords).toEqual([
+        0.5, 0.4, -0.4,
+      ]);
+      expect(parseColor('lab(50% 100% 0)')?.coords).toEqual([50, 125, 0]);
+      expect(parseColor('lch(50% 100% 0)')?.coords).toEqual([50, 150, 0]);
+    });
+
+    test('clamps sRGB channels of rgb(), hsl() and hwb()', () => {
+      expect(parseColor('rgb(300 -10 0)')?.coords).toEqual([1, 0, 0]);
+      expect(parseColor('hsl(120 150% -5%)')?.coords).toEqual([120, 100, 0]);
+      expect(parseColor('hwb(0 120% 0%)')?.coords).toEqual([0, 100, 0]);
+      expect(parseColor('color(srgb 1.2 0 0)')?.coords).toEqual([1.2, 0, 0]);
+    });
+
+    test('treats none as zero', () => {
+      expect(parseColor('oklch(0.5 none none)')?.coords).toEqual([0.5, 0, 0]);
+    });
+
+    test('parses color() with predefined spaces', () => {
+      expect(parseColor('color(display-p3 1 0 0 / 0.5)')).toEqual({
+        space: 'display-p3',
+        coords: [1, 0, 0],
+        alpha: 0.5,
+      });
+      expect(parseColor('color(xyz 0.5 0.5 0.5)')?.space).toBe('xyz-d65');
+      expect(parseColor('color(rec2020 50% 50% 50%)')?.coords).toEqual([
+        0.5, 0.5, 0.5,
+      ]);
+    });
+
+    test('is case-insensitive', () => {
+      expect(parseColor('OKLCH(0.5 0.1 120)')?.space).toBe('oklch');
+      expect(parseColor('#FFF')?.coords).toEqual([1, 1, 1]);
+    });
+  });
+
+  describe('Unsupported values', () => {
+    test('returns null for var() and nested functions', () => {
+      expect(parseColor('var(--primary)')).toBeNull();
+      expect(parseColor('oklch(var(--l) 0.1 120)')).toBeNull();
+      expect(parseColor('color-mix(in oklch, red, blue)')).toBeNull();
+    });
+
+    test('returns null for named colors and non-color values', () => {
+      expect(parseColor('red')).toBeNull();
+      expect(parseColor('currentColor')).toBeNull();
+      expect(parseColor('1rem')).toBeNull();
+    });
+
+    test('returns null for malformed channels', () => {
+      expect(parseColor('rgb(1 2)')).toBeNull();
+      expect(parseColor('hsl(10% 50% 50%)')).toBeNull();
+      expect(parseColor('color(unknown-space 1 0 0)')).toBeNull();
+    });
+
+    test('parses transparent as fully transparent black', () => {
+      expect(parseColor('transparent')).toEqual({
+        space: 'srgb',
+        coords: [0, 0, 0],
+        alpha: 0,
+      });
+    });
+  });
+});
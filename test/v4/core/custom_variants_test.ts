@@ -0,0 +1,148 @@
+/**
+ * Unit tests for @custom-variant parsing
+ * Tests shorthand and block forms, selector building and variant matching
+ */
+
+import { describe, expect, test } from 'bun:test';
+import postcss from 'postcss';
+
+import {
+  extractCustomVariants,
+  findCustomVariant,
+  getCustomVariantSelector,
+  substituteNesting,
+} from '../../../src/v4/core/parser/custom_variants';
+
+describe('extractCustomVariants', () => {
+  test('parses the shorthand selector form', () => {
+    const variants = extractCustomVariants(
+      postcss.parse('@custom-variant dark (&:where(.dark, .dark *));'),
+    );
+
+    expect(variants.get('dark')).toEqual({
+      name: 'dark',
+      branches: [{ atRules: [], selector: '&:where(.dark, .dark *)' }],
+    });
+  });
+
+  test('parses the shorthand at-rule form', () => {
+    const variants = extractCustomVariants(
+      postcss.parse('@custom-variant any-hover (@media (any-hover: hover));'),
+    );
+
+    expect(variants.get('any-hover')?.branches).toEqual([
+      { atRules: ['@media (any-hover: hover)'] },
+    ]);
+  });
+
+  test('parses the block form with nested rules and at-rules', () => {
+    const variants = extractCustomVariants(
+      postcss.parse(`
+        @custom-variant hocus {
+          &:hover { @slot; }
+          @media (hover: none) {
+            &:focus { @slot; }
+          }
+        }
+      `),
+    );
+
+    expect(variants.get('hocus')?.branches).toEqual([
+      { atRules: [], selector: '&:hover' },
+      { atRules: ['@media (hover: none)'], selector: '&:focus' },
+    ]);
+  });
+
+  test('composes nested selectors in the block form', () => {
+    const variants = extractCustomVariants(
+      postcss.parse(`
+        @custom-variant dark {
+          &:where([data-theme=dark]) {
+            & * { @slot; }
+          }
+        }
+      `),
+    );
+
+    expect(variants.get('dark')?.branches).toEqual([
+      { atRules: [], selector: '&:where([data-theme=dark]) *' },
+    ]);
+  });
+
+  test('ignores definitions without a body or slot', () => {
+    const variants = extractCustomVariants(
+      postcss.parse(`
+        @custom-variant broken;
+        @custom-variant empty { &:hover { color: red; } }
+      `),
+    );
+
+    expect(variants.size).toBe(0);
+  });
+});
+
+describe('getCustomVariantSelector', () => {
+  const dark = {
+    name: 'dark',
+    branches: [{ atRules: [], selector: '&:where(.dark, .dark *)' }],
+  };
+
+  test('builds a standalone selector', () => {
+    expect(getCustomVariantSelector(dark)).toBe(':where(.dark, .dark *)');
+    expect(
+      getCustomVariantSelector({
+        name: 'dark',
+        branches: [{ atRules: [], selector: '.dark &' }],
+      }),
+    ).toBe('.dark *');
+  });
+
+  test('applies the variant to a parent selector', () => {
+    expect(getCustomVariantSelector(dark, '.theme-mono')).toBe(
+      '.theme-mono:where(.dark, .dark *)',
+    );
+  });
+
+  test('prefixes at-rule wrappers', () => {
+    const print = {
+      name: 'print',
+      branches: [{ atRules: ['@media print'] }],
+    };
+
+    expect(getCustomVariantSelector(print)).toBe('@media print');
+    expect(getCustomVariantSelector(print, '.card')).toBe('@media print .card');
+  });
+});
+
+describe('substituteNesting', () => {
+  test('wraps parent selector lists in :is()', () => {
+    expect(substituteNesting('&:hover', '.a, .b')).toBe(':is(.a, .b):hover');
+  });
+
+  test('treats templates without & as descendants', () => {
+    expect(substituteNesting('.child', '.parent')).toBe('.parent .child');
+  });
+});
+
+describe('findCustomVariant', () => {
+  const variants = extractCustomVariants(
+    postcss.parse(`
+      @custom-variant dark (&:where([data-mode=night], [data-mode=night] *));
+      @custom-variant contrast (@media (prefers-contrast: more));
+    `),
+  );
+
+  test('finds the variant activated by a selector', () => {
+    expect(findCustomVariant(variants, '[data-mode=night]')?.name).toBe('dark');
+  });
+
+  test('finds the variant activated by an at-rule', () => {
+    expect(
+      findCustomVariant(variants, '@media (prefers-contrast: more)')?.name,
+    ).toBe('contrast');
+  });
+
+  test('returns undefined for unrelated selectors', () => {
+    expect(findCustomVariant(variants, '.midnight')).toBeUndefined();
+  });
+});
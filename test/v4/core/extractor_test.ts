@@ -3,13 +3,16 @@
  */
 
 import { describe, expect, test } from 'bun:test';
+import postcss from 'postcss';
 
 import {
+  extractVariables,
   extractVariantName,
   kebabToCamelCase,
   parseColorScale,
   parseFontSizeLineHeight,
   parseNestedKey,
+  parseThemeModes,
   parseVariableName,
 } from '../../../src/v4/core/parser/extractor';
 
@@ -587,3 +590,44 @@ describe('parseNestedKey', () => {
     });
   });
 });
+
+describe('parseThemeModes', () => {
+  test('parses @theme modifiers in order', () => {
+    expect(parseThemeModes('inline')).toEqual(['inline']);
+    expect(parseThemeModes('default inline reference')).toEqual([
+      'default',
+      'inline',
+      'reference',
+    ]);
+    expect(parseThemeModes('static')).toEqual(['static']);
+  });
+
+  test('returns an empty array for plain @theme and unknown words', () => {
+    expect(parseThemeModes('')).toEqual([]);
+    expect(parseThemeModes('unknown')).toEqual([]);
+  });
+});
+
+describe('extractVariables - @theme modes', () => {
+  test('exposes modes on theme variables', () => {
+    const root = postcss.parse(`
+      @theme inline reference { --color-a: red; }
+      @theme { --color-b: blue; }
+    `);
+    const { variables } = extractVariables(root);
+
+    expect(variables[0]?.themeModes).toEqual(['inline', 'reference']);
+    expect(variables[1]?.themeModes).toBeUndefined();
+  });
+
+  test('skips keyframes from @theme reference blocks', () => {
+    const root = postcss.parse(`
+      @theme reference { @keyframes hidden { to { opacity: 0; } } }
+      @theme { @keyframes shown { to { opacity: 1; } } }
+    `);
+    const { keyframes } = extractVariables(root);
+
+    expect(keyframes.has('hidden')).toBe(false);
+    expect(keyframes.has('shown')).toBe(true);
+  });
+});
@@ -3,7 +3,9 @@
  * Tests recursive @import resolution, circular import prevention, and error handling
  */
 
-import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import type { AtRule } from 'postcss';
+
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
 import { tmpdir } from 'node:os';
 import { join } from 'node:path';
 
@@ -357,6 +359,147 @@ describe('resolveImports - Tailwind imports', () => {
   });
 });
 
+describe('resolveImports - Package and alias imports', () => {
+  test('inlines stylesheets from node_modules packages', async () => {
+    const packageDir = join(tempDir, 'node_modules', '@acme', 'tokens');
+    await mkdir(packageDir, { recursive: true });
+    await writeFile(
+      join(packageDir, 'package.json'),
+      JSON.stringify({ exports: { '.': { style: './theme.css' } } }),
+    );
+    await writeFile(
+      join(packageDir, 'theme.css'),
+      '@theme { --color-brand: red; }',
+    );
+
+    const root = postcss.parse('@import "@acme/tokens";');
+    const files = await resolveImports(root, tempDir);
+
+    expect(files).toEqual([join(packageDir, 'theme.css')]);
+    expect(root.toString()).toContain('--color-brand: red');
+  });
+
+  test('inlines stylesheets through path aliases', async () => {
+    await mkdir(join(tempDir, 'src'));
+    await writeFile(
+      join(tempDir, 'src', 'tokens.css'),
+      '@theme { --color-accent: blue; }',
+    );
+
+    const root = postcss.parse('@import "@/tokens.css";');
+    const files = await resolveImports(root, tempDir, new Set(), false, 0, {
+      '@': join(tempDir, 'src'),
+    });
+
+    expect(files).toEqual([join(tempDir, 'src', 'tokens.css')]);
+    expect(root.toString()).toContain('--color-accent: blue');
+  });
+
+  test('does not treat packages prefixed with tailwindcss as Tailwind', async () => {
+    const packageDir = join(tempDir, 'node_modules', 'tailwindcss-animate');
+    await mkdir(packageDir, { recursive: true });
+    await writeFile(
+      join(packageDir, 'package.json'),
+      JSON.stringify({ style: 'index.css' }),
+    );
+    await writeFile(join(packageDir, 'index.css'), '--animate-x: 1s;');
+
+    const root = postcss.parse('@import "tailwindcss-animate";');
+    const files = await resolveImports(root, tempDir);
+
+    expect(files).toEqual([join(packageDir, 'index.css')]);
+  });
+
+  test('skips remote URL imports without reading files', async () => {
+    const root = postcss.parse(
+      '@import "https://fonts.example.com/inter.css";',
+    );
+    const files = await resolveImports(root, tempDir);
+
+    expect(files).toHaveLength(0);
+  });
+});
+
+describe('resolveImports - Import conditions', () => {
+  test('wraps media-conditioned imports in @media', async () => {
+    await writeFile(join(tempDir, 'dark.css'), ':root { --color: black; }');
+
+    const root = postcss.parse(
+      '@import "dark.css" (prefers-color-scheme: dark);',
+    );
+    await resolveImports(root, tempDir);
+
+    const media = root.first;
+    expect(media?.type).toBe('atrule');
+    expect(media?.toString()).toStartWith(
+      '@media (prefers-color-scheme: dark)',
+    );
+    expect(media?.toString()).toContain('--color: black');
+  });
+
+  test('nests layer(), supports() and media conditions in CSS order', async () => {
+    await writeFile(join(tempDir, 'theme.css'), ':root { --color: red; }');
+
+    const root = postcss.parse(
+      '@import url("theme.css") layer(theme) supports(display: grid) screen and (min-width: 40rem);',
+    );
+    await resolveImports(root, tempDir);
+
+    const layer = root.first as AtRule;
+    const supports = layer.first as AtRule;
+    const media = supports.first as AtRule;
+
+    expect(layer.name).toBe('layer');
+    expect(layer.params).toBe('theme');
+    expect(supports.name).toBe('supports');
+    expect(supports.params).toBe('(display: grid)');
+    expect(media.name).toBe('media');
+    expect(media.params).toBe('screen and (min-width: 40rem)');
+  });
+
+  test('supports anonymous layers and nested parentheses', async () => {
+    await writeFile(join(tempDir, 'theme.css'), ':root { --color: red; }');
+
+    const root = postcss.parse(
+      '@import "theme.css" layer supports(selector(:has(a)));',
+    );
+    await resolveImports(root, tempDir);
+
+    expect(root.toString()).toStartWith('@layer');
+    expect(root.toString()).toContain('@supports (selector(:has(a)))');
+    expect(root.toString()).not.toContain('@media');
+  });
+
+  test('adds theme() modes to imported @theme blocks and ignores prefix()', async () => {
+    await writeFile(
+      join(tempDir, 'tokens.css'),
+      '@theme { --color-primary: red; } @theme inline { --font-body: var(--font-sans); }',
+    );
+
+    const root = postcss.parse(
+      '@import "tokens.css" layer(theme) theme(static reference) prefix(tw);',
+    );
+    await resolveImports(root, tempDir);
+
+    const layer = root.first as AtRule;
+    expect(layer.name).toBe('layer');
+    expect((layer.nodes ?? []).map((node) => (node as AtRule).params)).toEqual([
+      'static reference',
+      'inline static reference',
+    ]);
+    expect(root.toString()).not.toContain('@media');
+  });
+
+  test('inlines unconditional imports without wrappers', async () => {
+    await writeFile(join(tempDir, 'theme.css'), ':root { --color: red; }');
+
+    const root = postcss.parse('@import "theme.css";');
+    await resolveImports(root, tempDir);
+
+    expect(root.first?.type).toBe('rule');
+  });
+});
+
 describe('resolveImports - Parallel processing', () => {
   test('processes multiple imports in parallel', async () => {
     await writeFile(join(tempDir, 'file1.css'), '--color-1: red;');
@@ -509,3 +652,33 @@ describe('resolveImports - Return value', () => {
     expect(files).toContain(join(tempDir, 'level2.css'));
   });
 });
+
+describe('resolveImports - Parsed import cache', () => {
+  test('inlines a shared import into several inputs independently', async () => {
+    await writeFile(
+      join(tempDir, 'tokens.css'),
+      '@theme { --color-brand: blue; }',
+    );
+
+    const first = postcss.parse('@import "tokens.css";');
+    const second = postcss.parse('@import "tokens.css";');
+    await resolveImports(first, tempDir);
+    await resolveImports(second, tempDir);
+
+    expect(first.toString()).toContain('--color-brand: blue');
+    expect(second.toString()).toContain('--color-brand: blue');
+    expect(second.first?.source?.input.file).toBe(join(tempDir, 'tokens.css'));
+  });
+
+  test('re-parses an import after it changes', async () => {
+    const path = join(tempDir, 'tokens.css');
+    await writeFile(path, '@theme { --color-brand: blue; }');
+    await resolveImports(postcss.parse('@import "tokens.css";'), tempDir);
+
+    await writeFile(path, '@theme { --color-brand: darkblue; }');
+    const root = postcss.parse('@import "tokens.css";');
+    await resolveImports(root, tempDir);
+
+    expect(root.toString()).toContain('--color-brand: darkblue');
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Unit tests for @import module resolution
+ * Tests path aliases, package.json exports conditions, and node_modules lookup
+ */
+
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+
+import {
+  applyAlias,
+  resolveAliasTargets,
+  resolveImportSpecifier,
+  resolvePackageExports,
+} from '../../../src/v4/core/parser/module_resolver';
+
+// Temp directory for test files
+let tempDir: string;
+
+beforeEach(async () => {
+  tempDir = await mkdtemp(join(tmpdir(), 'module-resolver-test-'));
+});
+
+afterEach(async () => {
+  await rm(tempDir, { recursive: true, force: true });
+});
+
+/**
+ * Writes a fake package into the temp directory's node_modules
+ *
+ * @param name - Package name (e.g., '@acme/tokens')
+ * @param manifest - package.json contents
+ */
+async function writePackage(
+  name: string,
+  manifest: Record<string, unknown>,
+): Promise<void> {
+  const packageDir = join(tempDir, 'node_modules', name);
+  await mkdir(packageDir, { recursive: true });
+  await writeFile(
+    join(packageDir, 'package.json'),
+    JSON.stringify({ name, ...manifest }),
+  );
+}
+
+describe('applyAlias', () => {
+  test('replaces a matching alias prefix', () => {
+    expect(applyAlias('@/styles/theme.css', { '@': '/app/src' })).toBe(
+      '/app/src/styles/theme.css',
+    );
+    expect(applyAlias('~/theme.css', { '~': '/app/src' })).toBe(
+      '/app/src/theme.css',
+    );
+  });
+
+  test('does not match scoped package names', () => {
+    expect(applyAlias('@acme/tokens', { '@': '/app/src' })).toBeNull();
+  });
+
+  test('accepts tsconfig-style wildcard keys and targets', () => {
+    expect(applyAlias('@/theme.css', { '@/*': '/app/src/*' })).toBe(
+      '/app/src/theme.css',
+    );
+  });
+
+  test('prefers the longest matching alias', () => {
+    const aliases = { '@': '/app/src', '@/tokens': '/app/design/tokens' };
+
+    expect(applyAlias('@/tokens/colors.css', aliases)).toBe(
+      '/app/design/tokens/colors.css',
+    );
+  });
+});
+
+describe('resolveAliasTargets', () => {
+  test('resolves relative targets against the root directory', () => {
+    expect(
+      resolveAliasTargets({ '@': './src', '~': '/abs/src' }, '/app'),
+    ).toEqual({ '@': '/app/src', '~': '/abs/src' });
+  });
+});
+
+describe('resolvePackageExports', () => {
+  test('resolves string sugar for the package root', () => {
+    expect(resolvePackageExports('./index.css', '.')).toBe('./index.css');
+    expect(resolvePackageExports('./index.css', './other.css')).toBeNull();
+  });
+
+  test('prefers the style condition in object order', () => {
+    const exportsField = {
+      '.': { style: './dist/theme.css', default: './dist/index.js' },
+    };
+
+    expect(resolvePackageExports(exportsField, '.')).toBe('./dist/theme.css');
+  });
+
+  test('ignores unsupported conditions', () => {
+    const exportsField = { '.': { import: './index.js', require: './i.cjs' } };
+
+    expect(resolvePackageExports(exportsField, '.')).toBeNull();
+  });
+
+  test('resolves subpath patterns', () => {
+    const exportsField = { './*': { style: './css/*' } };
+
+    expect(resolvePackageExports(exportsField, './colors.css')).toBe(
+      './css/colors.css',
+    );
+  });
+
+  test('returns null for subpaths that are not exported', () => {
+    expect(
+      resolvePackageExports({ '.': './index.css' }, './private.css'),
+    ).toBeNull();
+  });
+});
+
+describe('resolveImportSpecifier', () => {
+  test('resolves relative specifiers against the base path', async () => {
+    expect(await resolveImportSpecifier('./theme.css', tempDir)).toBe(
+      join(tempDir, 'theme.css'),
+    );
+    expect(await resolveImportSpecifier('theme.css', tempDir)).toBe(
+      join(tempDir, 'theme.css'),
+    );
+  });
+
+  test('returns null for URL specifiers', async () => {
+    expect(
+      await resolveImportSpecifier('https://example.com/theme.css', tempDir),
+    ).toBeNull();
+  });
+
+  test('resolves aliases before packages', async () => {
+    const aliases = { '@': join(tempDir, 'src') };
+
+    expect(await resolveImportSpecifier('@/tokens.css', tempDir, aliases)).toBe(
+      join(tempDir, 'src', 'tokens.css'),
+    );
+  });
+
+  test('resolves scoped packages through the exports style condition', async () => {
+    await writePackage('@acme/tokens', {
+      exports: {
+        '.': { style: './dist/theme.css', default: './dist/index.js' },
+        './colors.css': './dist/colors.css',
+      },
+    });
+
+    expect(await resolveImportSpecifier('@acme/tokens', tempDir)).toBe(
+      join(tempDir, 'node_modules/@acme/tokens/dist/theme.css'),
+    );
+    expect(
+      await resolveImportSpecifier('@acme/tokens/colors.css', tempDir),
+    ).toBe(join(tempDir, 'node_modules/@acme/tokens/dist/colors.css'));
+  });
+
+  test('falls back to the style field without exports', async () => {
+    await writePackage('legacy-theme', { style: 'theme.css' });
+
+    expect(await resolveImportSpecifier('legacy-theme', tempDir)).toBe(
+      join(tempDir, 'node_modules/legacy-theme/theme.css'),
+    );
+  });
+
+  test('walks up to node_modules in parent directories', async () => {
+    await writePackage('shared-theme', { exports: './theme.css' });
+    const nestedDir = join(tempDir, 'packages', 'app', 'src');
+    await mkdir(nestedDir, { recursive: true });
+
+    expect(await resolveImportSpecifier('shared-theme', nestedDir)).toBe(
+      join(tempDir, 'node_modules/shared-theme/theme.css'),
+    );
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Unit tests for responsive variant detection
+ * Tests breakpoint/container size collection and media/container condition naming
+ */
+
+import type { AtRule } from 'postcss';
+
+import type { ResponsiveSizes } from '../../../src/v4/core/parser/responsive';
+
+import { describe, expect, test } from 'bun:test';
+import postcss from 'postcss';
+
+import {
+  collectResponsiveSizes,
+  getResponsiveVariant,
+} from '../../../src/v4/core/parser/responsive';
+
+const sizes: ResponsiveSizes = {
+  breakpoints: new Map([
+    ['md', '48rem'],
+    ['lg', '64rem'],
+  ]),
+  containers: new Map([['md', '28rem']]),
+};
+
+/**
+ * Parses a single at-rule from CSS
+ *
+ * @param css - CSS containing one at-rule
+ * @returns The parsed at-rule
+ */
+function parseAtRule(css: string): AtRule {
+  return postcss.parse(css).first as AtRule;
+}
+
+describe('collectResponsiveSizes', () => {
+  test('collects breakpoints and containers from @theme blocks', () => {
+    const collected = collectResponsiveSizes(
+      postcss.parse(`
+        @theme {
+          --breakpoint-tablet: 40rem;
+          --container-card: 20rem;
+          --color-primary: red;
+        }
+      `),
+    );
+
+    expect([...collected.breakpoints]).toEqual([['tablet', '40rem']]);
+    expect([...collected.containers]).toEqual([['card', '20rem']]);
+  });
+
+  test('user values override default variables', () => {
+    const collected = collectResponsiveSizes(
+      postcss.parse('@theme { --breakpoint-md: 50rem; }'),
+      [
+        { name: '--breakpoint-md', value: '48rem', source: 'theme' },
+        { name: '--breakpoint-lg', value: '64rem', source: 'theme' },
+      ],
+    );
+
+    expect(collected.breakpoints.get('md')).toBe('50rem');
+    expect(collected.breakpoints.get('lg')).toBe('64rem');
+  });
+
+  test('initial removes a size or the whole namespace', () => {
+    const defaults = [
+      { name: '--breakpoint-md', value: '48rem', source: 'theme' as const },
+      { name: '--breakpoint-lg', value: '64rem', source: 'theme' as const },
+      { name: '--container-md', value: '28rem', source: 'theme' as const },
+    ];
+
+    const single = collectResponsiveSizes(
+      postcss.parse('@theme { --breakpoint-md: initial; }'),
+      defaults,
+    );
+    const namespace = collectResponsiveSizes(
+      postcss.parse('@theme { --container-*: initial; }'),
+      defaults,
+    );
+
+    expect([...single.breakpoints.keys()]).toEqual(['lg']);
+    expect(namespace.containers.size).toBe(0);
+  });
+});
+
+describe('getResponsiveVariant', () => {
+  test('names min-width media queries after the breakpoint', () => {
+    expect(
+      getResponsiveVariant(parseAtRule('@media (min-width: 48rem) {}'), sizes),
+    ).toEqual({ variantName: 'md', selector: '@media (min-width: 48rem)' });
+    expect(
+      getResponsiveVariant(parseAtRule('@media (width >= 64rem) {}'), sizes)
+        ?.variantName,
+    ).toBe('lg');
+  });
+
+  test('matches breakpoints across units', () => {
+    expect(
+      getResponsiveVariant(parseAtRule('@media (min-width: 1024px) {}'), sizes)
+        ?.variantName,
+    ).toBe('lg');
+  });
+
+  test('names max-width media queries with a max- prefix', () => {
+    expect(
+      getResponsiveVariant(parseAtRule('@media (max-width: 48rem) {}'), sizes)
+        ?.variantName,
+    ).toBe('max-md');
+    expect(
+      getResponsiveVariant(parseAtRule('@media (width < 64rem) {}'), sizes)
+        ?.variantName,
+    ).toBe('max-lg');
+  });
+
+  test('uses arbitrary names for unknown widths', () => {
+    expect(
+      getResponsiveVariant(parseAtRule('@media (min-width: 50rem) {}'), sizes)
+        ?.variantName,
+    ).toBe('min-[50rem]');
+  });
+
+  test('accepts a screen media type', () => {
+    expect(
+      getResponsiveVariant(
+        parseAtRule('@media screen and (min-width: 48rem) {}'),
+        sizes,
+      )?.variantName,
+    ).toBe('md');
+  });
+
+  test('ignores non-width and compound media queries', () => {
+    expect(
+      getResponsiveVariant(
+        parseAtRule('@media (prefers-color-scheme: dark) {}'),
+        sizes,
+      ),
+    ).toBeNull();
+    expect(
+      getResponsiveVariant(
+        parseAtRule('@media (min-width: 48rem) and (max-width: 64rem) {}'),
+        sizes,
+      ),
+    ).toBeNull();
+    expect(
+      getResponsiveVariant(
+        parseAtRule('@media print and (min-width: 48rem) {}'),
+        sizes,
+      ),
+    ).toBeNull();
+  });
+
+  test('names container queries with an @ prefix', () => {
+    expect(
+      getResponsiveVariant(
+        parseAtRule('@container (width >= 28rem) {}'),
+        sizes,
+      ),
+    ).toEqual({
+      variantName: '@md',
+      selector: '@container (width >= 28rem)',
+    });
+    expect(
+      getResponsiveVariant(
+        parseAtRule('@container (max-width: 28rem) {}'),
+        sizes,
+      )?.variantName,
+    ).toBe('@max-md');
+  });
+
+  test('appends the container name for named containers', () => {
+    expect(
+      getResponsiveVariant(
+        parseAtRule('@container sidebar (min-width: 28rem) {}'),
+        sizes,
+      )?.variantName,
+    ).toBe('@md/sidebar');
+  });
+
+  test('ignores other at-rules', () => {
+    expect(
+      getResponsiveVariant(
+        parseAtRule('@supports (min-width: 48rem) {}'),
+        sizes,
+      ),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * @file Tests for the Dart exporter
+ */
+
+import type { ExportableTheme } from '../../../src/v4/core/formats/tokens';
+
+import { describe, expect, test } from 'bun:test';
+
+import { exportDartTheme } from '../../../src/v4/core/formats/dart';
+
+const THEME: ExportableTheme = {
+  variants: {
+    default: {
+      colors: { primary: '#3b82f6' },
+      spacing: { base: '0.25rem' },
+      fonts: { sans: "'Inter', sans-serif" },
+    },
+    dark: {
+      colors: { primary: '#60a5fa' },
+    },
+  },
+  selectors: { default: ':root', dark: '.dark' },
+};
+
+describe('exportDartTheme', () => {
+  test('writes a theme extension with a constant per variant', () => {
+    expect(exportDartTheme(THEME)).toContain(
+      [
+        '@immutable',
+        'class TailwindTheme extends ThemeExtension<TailwindTheme> {',
+        '  const TailwindTheme({',
+        '    required this.colorPrimary,',
+        '    required this.spacingBase,',
+        '    required this.fontSans,',
+        '  });',
+        '',
+        '  final Color colorPrimary;',
+        '  final double spacingBase;',
+        '  final String fontSans;',
+        '',
+        '  /// default (:root)',
+        '  static const light = TailwindTheme(',
+        '    colorPrimary: Color(0xFF3B82F6),',
+        '    spacingBase: 4,',
+        "    fontSans: '\\'Inter\\', sans-serif',",
+        '  );',
+        '',
+        '  /// dark (.dark)',
+        '  static const dark = TailwindTheme(',
+        '    colorPrimary: Color(0xFF60A5FA),',
+        '    spacingBase: 4,',
+        "    fontSans: '\\'Inter\\', sans-serif',",
+        '  );',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  test('interpolates colors and numbers and switches strings halfway', () => {
+    const source = exportDartTheme(THEME);
+
+    expect(source).toContain(
+      '      colorPrimary: colorPrimary ?? this.colorPrimary,',
+    );
+    expect(source).toContain(
+      '      colorPrimary: Color.lerp(colorPrimary, other.colorPrimary, t)!,',
+    );
+    expect(source).toContain(
+      '      spacingBase: lerpDouble(spacingBase, other.spacingBase, t)!,',
+    );
+    expect(source).toContain(
+      '      fontSans: t < 0.5 ? fontSans : other.fontSans,',
+    );
+  });
+
+  test('writes an empty constructor for a theme without tokens', () => {
+    const source = exportDartTheme({
+      variants: { default: {} },
+      selectors: { default: ':root' },
+    });
+
+    expect(source).toContain('  const TailwindTheme();');
+    expect(source).toContain('  TailwindTheme copyWith() {');
+    expect(source).not.toContain('MaterialApp.darkTheme');
+  });
+});
@@ -0,0 +1,271 @@
+/**
+ * @file Tests for the W3C Design Tokens (DTCG) exporter
+ */
+
+import { describe, expect, test } from 'bun:test';
+
+import { resolveTheme } from '../../../src/v4';
+import { exportDTCGTokens } from '../../../src/v4/core/formats/dtcg';
+
+describe('exportDTCGTokens', () => {
+  test('types tokens by namespace and names them after their variable', async () => {
+    const result = await resolveTheme({
+      css: `@theme {
+        --color-blue-500: #3b82f6;
+        --font-sans: "Inter", sans-serif;
+        --text-xl: 1.25rem;
+        --text-xl--line-height: 1.4;
+        --radius-lg: 0.5rem;
+        --shadow-card: inset 0 1px 2px #0000001a;
+        --ease-snappy: cubic-bezier(1, 0, 0, 1);
+      }`,
+      includeDefaults: false,
+    });
+
+    const [document] = exportDTCGTokens(result);
+
+    expect(document).toEqual({
+      tokens: {
+        color: {
+          blue: {
+            500: {
+              $value: '#3b82f6',
+              $type: 'color',
+              $description: '--color-blue-500',
+            },
+          },
+        },
+        font: {
+          sans: {
+            $value: ['Inter', 'sans-serif'],
+            $type: 'fontFamily',
+            $description: '--font-sans',
+          },
+        },
+        text: {
+          xl: {
+            size: {
+              $value: '1.25rem',
+              $type: 'dimension',
+              $description: '--text-xl',
+            },
+            lineHeight: {
+              $value: 1.4,
+              $type: 'number',
+              $description: '--text-xl--line-height',
+            },
+          },
+        },
+        radius: {
+          lg: {
+            $value: '0.5rem',
+            $type: 'dimension',
+            $description: '--radius-lg',
+          },
+        },
+        shadow: {
+          card: {
+            $value: {
+              color: '#0000001a',
+              offsetX: '0px',
+              offsetY: '1px',
+              blur: '2px',
+              spread: '0px',
+              inset: true,
+            },
+            $type: 'shadow',
+            $description: '--shadow-card',
+          },
+        },
+        ease: {
+          snappy: {
+            $value: [1, 0, 0, 1],
+            $type: 'cubicBezier',
+            $description: '--ease-snappy',
+          },
+        },
+      },
+    });
+  });
+
+  test('keeps values that do not fit their type as untyped strings', () => {
+    const [document] = exportDTCGTokens({
+      variants: {
+        default: {
+          spacing: { gutter: 'calc(var(--spacing) * 4)' },
+          colors: { brand: 'light-dark(#fff, #000)' },
+        },
+      },
+      selectors: { default: ':root' },
+    });
+
+    expect(document?.tokens).toEqual({
+      spacing: { gutter: { $value: 'calc(var(--spacing) * 4)' } },
+      color: { brand: { $value: 'light-dark(#fff, #000)' } },
+    });
+  });
+
+  test('exports var() references to other tokens as aliases', () => {
+    const [document] = exportDTCGTokens({
+      variants: {
+        default: {
+          colors: {
+            blue: { 500: '#3b82f6' },
+            primary: 'var(--color-blue-500)',
+            accent: 'var(--color-missing)',
+          },
+        },
+      },
+      selectors: { default: ':root' },
+    });
+
+    expect(document?.tokens).toEqual({
+      color: {
+        blue: { 500: { $value: '#3b82f6', $type: 'color' } },
+        primary: { $value: '{color.blue.500}', $type: 'color' },
+      },
+    });
+  });
+
+  test('exports aliases declared in the CSS of a resolved theme', async () => {
+    const result = await resolveTheme({
+      css: `@theme {
+        --color-primary: #3b82f6;
+        --color-accent: var(--color-primary);
+        --color-muted: var(--color-missing);
+        --spacing-base: 0.25rem;
+        --spacing-gutter: calc(var(--spacing-base) * 4);
+      }
+      .dark {
+        --color-primary: #60a5fa;
+        --color-accent: var(--color-primary);
+      }`,
+      includeDefaults: false,
+    });
+
+    const [defaults, dark] = exportDTCGTokens(result);
+
+    expect(defaults?.tokens).toEqual({
+      color: {
+        primary: {
+          $value: '#3b82f6',
+          $type: 'color',
+          $description: '--color-primary',
+        },
+        accent: {
+          $value: '{color.primary}',
+          $type: 'color',
+          $description: '--color-accent',
+        },
+      },
+      spacing: {
+        base: {
+          $value: '0.25rem',
+          $type: 'dimension',
+          $description: '--spacing-base',
+        },
+        gutter: {
+          $value: 'calc(0.25rem * 4)',
+          $description: '--spacing-gutter',
+        },
+      },
+    });
+    expect(dark?.tokens).toEqual({
+      color: {
+        primary: {
+          $value: '#60a5fa',
+          $type: 'color',
+          $description: '--color-primary',
+        },
+        accent: {
+          $value: '{color.primary}',
+          $type: 'color',
+          $description: '--color-accent',
+        },
+      },
+    });
+  });
+
+  test('writes one document per variant with only the changed tokens', () => {
+    const documents = exportDTCGTokens({
+      variants: {
+        default: { colors: { background: '#ffffff', text: '#111111' } },
+        dark: { colors: { background: '#000000', text: '#111111' } },
+      },
+      selectors: { default: ':root', dark: '.dark' },
+    });
+
+    expect(documents).toEqual([
+      {
+        tokens: {
+          color: {
+            background: { $value: '#ffffff', $type: 'color' },
+            text: { $value: '#111111', $type: 'color' },
+          },
+        },
+      },
+      {
+        variant: 'dark',
+        tokens: {
+          color: { background: { $value: '#000000', $type: 'color' } },
+        },
+      },
+    ]);
+  });
+
+  test('groups variants as modes and points aliases at the group that holds the target', () => {
+    const documents = exportDTCGTokens(
+      {
+        variants: {
+          default: {
+            colors: {
+              white: '#ffffff',
+              black: '#000000',
+              surface: 'var(--color-white)',
+            },
+          },
+          dark: {
+            colors: {
+              white: '#ffffff',
+              black: '#000000',
+              surface: 'var(--color-black)',
+            },
+          },
+        },
+        selectors: { default: ':root', dark: '.dark' },
+      },
+      { variants: 'modes' },
+    );
+
+    expect(documents).toHaveLength(1);
+    expect(documents[0]?.variant).toBeUndefined();
+    expect(documents[0]?.tokens['default']).toEqual({
+      color: {
+        white: { $value: '#ffffff', $type: 'color' },
+        black: { $value: '#000000', $type: 'color' },
+        surface: { $value: '{default.color.white}', $type: 'color' },
+      },
+    });
+    expect(documents[0]?.tokens['dark']).toEqual({
+      color: {
+        surface: { $value: '{default.color.black}', $type: 'color' },
+      },
+    });
+  });
+
+  test('skips keyframes', () => {
+    const [document] = exportDTCGTokens({
+      variants: {
+        default: {
+          animations: { spin: 'spin 1s linear infinite' },
+          keyframes: { spin: '@keyframes spin { to { rotate: 360deg; } }' },
+        },
+      },
+      selectors: { default: ':root' },
+    });
+
+    expect(document?.tokens).toEqual({
+      animate: { spin: { $value: 'spin 1s linear infinite' } },
+    });
+  });
+});
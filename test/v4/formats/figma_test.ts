@@ -0,0 +1,260 @@
+/**
+ * @file Tests for the Figma Variables exporter and importer
+ */
+
+import type { ExportableTheme } from '../../../src/v4/core/formats/tokens';
+
+import { describe, expect, test } from 'bun:test';
+
+import { resolveTheme } from '../../../src/v4';
+import {
+  exportFigmaVariables,
+  importFigmaVariables,
+} from '../../../src/v4/core/formats/figma';
+
+const THEME: ExportableTheme = {
+  variants: {
+    default: {
+      colors: {
+        blue: { 500: '#0000ff' },
+        primary: 'var(--color-blue-500)',
+      },
+      spacing: { card: '1rem' },
+      fontWeight: { bold: '700' },
+      fonts: { sans: 'Inter, sans-serif' },
+      keyframes: { spin: '@keyframes spin { to { rotate: 360deg; } }' },
+    },
+    dark: {
+      colors: {
+        blue: { 500: '#0000ff' },
+        primary: '#ffffff',
+      },
+      spacing: { card: '1rem' },
+      fontWeight: { bold: '700' },
+      fonts: { sans: 'Inter, sans-serif' },
+    },
+  },
+  selectors: { default: ':root', dark: '.dark' },
+};
+
+describe('exportFigmaVariables', () => {
+  test('creates a collection per theme property with a mode per variant', () => {
+    const payload = exportFigmaVariables(THEME);
+
+    expect(payload.variableCollections.map(({ name }) => name)).toEqual([
+      'colors',
+      'spacing',
+      'fontWeight',
+      'fonts',
+    ]);
+    expect(payload.variableCollections[0]).toEqual({
+      action: 'CREATE',
+      id: 'collection:colors',
+      name: 'colors',
+      initialModeId: 'mode:colors:default',
+    });
+    expect(
+      payload.variableModes.filter(
+        ({ variableCollectionId }) =>
+          variableCollectionId === 'collection:colors',
+      ),
+    ).toEqual([
+      {
+        action: 'UPDATE',
+        id: 'mode:colors:default',
+        name: 'default',
+        variableCollectionId: 'collection:colors',
+      },
+      {
+        action: 'CREATE',
+        id: 'mode:colors:dark',
+        name: 'dark',
+        variableCollectionId: 'collection:colors',
+      },
+    ]);
+  });
+
+  test('types variables and names them after their path', () => {
+    const payload = exportFigmaVariables(THEME);
+
+    expect(
+      payload.variables.map(({ name, resolvedType, codeSyntax }) => ({
+        name,
+        resolvedType,
+        web: codeSyntax.WEB,
+      })),
+    ).toEqual([
+      { name: 'blue/500', resolvedType: 'COLOR', web: 'var(--color-blue-500)' },
+      { name: 'primary', resolvedType: 'COLOR', web: 'var(--color-primary)' },
+      { name: 'card', resolvedType: 'FLOAT', web: 'var(--spacing-card)' },
+      { name: 'bold', resolvedType: 'FLOAT', web: 'var(--font-weight-bold)' },
+      { name: 'sans', resolvedType: 'STRING', web: 'var(--font-sans)' },
+    ]);
+  });
+
+  test('keeps var() references as aliases and converts values per mode', () => {
+    const values = exportFigmaVariables(THEME).variableModeValues;
+
+    expect(values).toContainEqual({
+      variableId: 'variable:colors/primary',
+      modeId: 'mode:colors:default',
+      value: { type: 'VARIABLE_ALIAS', id: 'variable:colors/blue/500' },
+    });
+    expect(values).toContainEqual({
+      variableId: 'variable:colors/primary',
+      modeId: 'mode:colors:dark',
+      value: { r: 1, g: 1, b: 1, a: 1 },
+    });
+    expect(values).toContainEqual({
+      variableId: 'variable:spacing/card',
+      modeId: 'mode:spacing:default',
+      value: 16,
+    });
+  });
+
+  test('reads aliases from the CSS of a resolved theme', async () => {
+    const result = await resolveTheme({
+      css: `@theme {
+        --color-blue-500: #0000ff;
+        --color-primary: var(--color-blue-500);
+        --color-accent: var(--color-primary);
+      }
+      .dark { --color-accent: #ffffff; }`,
+      includeDefaults: false,
+    });
+
+    const payload = exportFigmaVariables(result);
+    const valueOf = (variable: string, mode: string): unknown =>
+      payload.variableModeValues.find(
+        ({ variableId, modeId }) =>
+          variableId === `variable:colors/${variable}` &&
+          modeId === `mode:colors:${mode}`,
+      )?.value;
+
+    expect(valueOf('primary', 'default')).toEqual({
+      type: 'VARIABLE_ALIAS',
+      id: 'variable:colors/blue/500',
+    });
+    expect(valueOf('accent', 'default')).toEqual({
+      type: 'VARIABLE_ALIAS',
+      id: 'variable:colors/primary',
+    });
+    expect(valueOf('primary', 'dark')).toEqual({
+      type: 'VARIABLE_ALIAS',
+      id: 'variable:colors/blue/500',
+    });
+    expect(valueOf('accent', 'dark')).toEqual({ r: 1, g: 1, b: 1, a: 1 });
+    expect(
+      payload.variables.map(({ name, resolvedType }) => [name, resolvedType]),
+    ).toEqual([
+      ['blue/500', 'COLOR'],
+      ['primary', 'COLOR'],
+      ['accent', 'COLOR'],
+    ]);
+    expect(importFigmaVariables(payload)['default']).toMatchObject({
+      'colors.accent': 'var(--color-primary)',
+    });
+    expect(importFigmaVariables(payload, { baseline: result })).toEqual({});
+  });
+
+  test('falls back to STRING when modes disagree on the type', () => {
+    const payload = exportFigmaVariables({
+      variants: {
+        default: { colors: { accent: 'currentcolor' } },
+        dark: { colors: { accent: '#000000' } },
+      },
+      selectors: { default: ':root', dark: '.dark' },
+    });
+
+    expect(payload.variables[0]?.resolvedType).toBe('STRING');
+    expect(payload.variableModeValues.map(({ value }) => value)).toEqual([
+      'currentcolor',
+      '#000000',
+    ]);
+  });
+});
+
+describe('importFigmaVariables', () => {
+  test('reads an exported payload as overrides per mode', () => {
+    expect(importFigmaVariables(exportFigmaVariables(THEME))).toEqual({
+      default: {
+        'colors.blue.500': '#0000ff',
+        'colors.primary': 'var(--color-blue-500)',
+        'spacing.card': '1rem',
+        'fontWeight.bold': '700',
+        'fonts.sans': 'Inter, sans-serif',
+      },
+      dark: {
+        'colors.blue.500': '#0000ff',
+        'colors.primary': '#ffffff',
+        'spacing.card': '1rem',
+        'fontWeight.bold': '700',
+        'fonts.sans': 'Inter, sans-serif',
+      },
+    });
+  });
+
+  test('returns only values that differ from the baseline', () => {
+    const payload = exportFigmaVariables(THEME);
+    const primary = payload.variableModeValues.find(
+      ({ variableId, modeId }) =>
+        variableId === 'variable:colors/primary' &&
+        modeId === 'mode:colors:dark',
+    )!;
+    primary.value = { r: 1, g: 0, b: 0, a: 1 };
+
+    expect(importFigmaVariables(payload, { baseline: THEME })).toEqual({
+      dark: { 'colors.primary': '#ff0000' },
+    });
+  });
+
+  test('reads a local variables response', () => {
+    const response = {
+      status: 200,
+      meta: {
+        variableCollections: {
+          'VariableCollectionId:1:1': {
+            id: 'VariableCollectionId:1:1',
+            name: 'spacing',
+            modes: [
+              { modeId: '1:0', name: 'default' },
+              { modeId: '1:1', name: 'compact' },
+            ],
+          },
+        },
+        variables: {
+          'VariableID:1:2': {
+            id: 'VariableID:1:2',
+            name: 'card',
+            variableCollectionId: 'VariableCollectionId:1:1',
+            resolvedType: 'FLOAT',
+            valuesByMode: { '1:0': 24, '1:1': 12 },
+          },
+          'VariableID:1:3': {
+            id: 'VariableID:1:3',
+            name: 'gutter',
+            variableCollectionId: 'VariableCollectionId:1:1',
+            resolvedType: 'FLOAT',
+            valuesByMode: {
+              '1:0': { type: 'VARIABLE_ALIAS', id: 'VariableID:1:2' },
+            },
+          },
+        },
+      },
+    };
+
+    expect(importFigmaVariables(response)).toEqual({
+      default: {
+        'spacing.card': '1.5rem',
+        'spacing.gutter': 'var(--spacing-card)',
+      },
+      compact: { 'spacing.card': '0.75rem' },
+    });
+  });
+
+  test('rejects documents that are not Figma variables', () => {
+    expect(() => importFigmaVariables({ colors: {} })).toThrow(
+      'Figma variables must be a POST /variables payload or a GET /variables/local response',
+    );
+  });
+});
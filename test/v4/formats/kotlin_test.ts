@@ -0,0 +1,162 @@
+/**
+ * @file Tests for the Kotlin exporter
+ */
+
+import type { ExportableTheme } from '../../../src/v4/core/formats/tokens';
+
+import { describe, expect, test } from 'bun:test';
+
+import { resolveTheme } from '../../../src/v4';
+import { exportKotlinTheme } from '../../../src/v4/core/formats/kotlin';
+
+// JVM methods take at most 255 parameter slots; data class copy$default adds the
+// receiver, a bitmask per 32 properties and a marker
+const MAX_PARAMETER_SLOTS = 255;
+const PROPERTIES_PER_MASK = 32;
+const COPY_EXTRA_SLOTS = 2;
+const LONG_SLOTS = 2;
+const FIXTURE_TOKEN_COUNT = 360;
+
+const THEME: ExportableTheme = {
+  variants: {
+    default: {
+      colors: { primary: '#3b82f6' },
+      spacing: { base: '0.25rem' },
+      fontSize: { xl: { size: '1.25rem', lineHeight: '1.4' } },
+      fonts: { sans: '"Inter", $sans' },
+    },
+    dark: {
+      colors: { primary: 'rgb(96 165 250 / 50%)' },
+    },
+  },
+  selectors: { default: ':root', dark: '.dark' },
+};
+
+describe('exportKotlinTheme', () => {
+  test('writes a class per theme property and an instance per variant', () => {
+    expect(exportKotlinTheme(THEME)).toContain(
+      [
+        'data class ThemeTokens(',
+        '    val colors: ThemeColors,',
+        '    val spacing: ThemeSpacing,',
+        '    val fontSize: ThemeFontSize,',
+        '    val fonts: ThemeFonts,',
+        ')',
+        '',
+        'data class ThemeColors(',
+        '    val colorPrimary: Color,',
+        ')',
+        '',
+        'data class ThemeSpacing(',
+        '    val spacingBase: Dp,',
+        ')',
+        '',
+        'data class ThemeFontSize(',
+        '    val textXlSize: TextUnit,',
+        '    val textXlLineHeight: Float,',
+        ')',
+        '',
+        'data class ThemeFonts(',
+        '    val fontSans: String,',
+        ')',
+        '',
+        'object Theme {',
+        '    /** default (:root) */',
+        '    val Default = ThemeTokens(',
+        '        colors = ThemeColors(',
+        '            colorPrimary = Color(0xFF3B82F6),',
+        '        ),',
+        '        spacing = ThemeSpacing(',
+        '            spacingBase = 4.dp,',
+        '        ),',
+        '        fontSize = ThemeFontSize(',
+        '            textXlSize = 20.sp,',
+        '            textXlLineHeight = 1.4f,',
+        '        ),',
+        '        fonts = ThemeFonts(',
+        '            fontSans = "\\"Inter\\", \\$sans",',
+        '        ),',
+        '    )',
+        '',
+        '    /** dark (.dark) */',
+        '    val Dark = ThemeTokens(',
+        '        colors = ThemeColors(',
+        '            colorPrimary = Color(0x8060A5FA),',
+        '        ),',
+        '        spacing = ThemeSpacing(',
+        '            spacingBase = 4.dp,',
+        '        ),',
+        '        fontSize = ThemeFontSize(',
+        '            textXlSize = 20.sp,',
+        '            textXlLineHeight = 1.4f,',
+        '        ),',
+        '        fonts = ThemeFonts(',
+        '            fontSans = "\\"Inter\\", \\$sans",',
+        '        ),',
+        '    )',
+        '',
+        '    /** Tokens for the system theme */',
+        '    val current: ThemeTokens',
+        '        @Composable',
+        '        @ReadOnlyComposable',
+        '        get() = if (isSystemInDarkTheme()) Dark else Default',
+        '}',
+      ].join('\n'),
+    );
+  });
+
+  test('keeps every class within the JVM parameter slot limit', async () => {
+    const result = await resolveTheme({
+      input: './test/v4/fixtures/default_theme.css',
+      includeDefaults: false,
+    });
+    const source = exportKotlinTheme(result);
+    const classes = [
+      ...source.matchAll(/^data class (\w+)\(\n([\s\S]*?)^\)/gm),
+    ].map(([, name = '', body = '']) => ({
+      name,
+      types: [...body.matchAll(/^ {4}val \w+: (\w+),$/gm)].map(
+        ([, type = '']) => type,
+      ),
+    }));
+
+    expect(classes.map(({ name }) => name)).toContain('ThemeColors');
+    expect(classes.map(({ name }) => name)).toContain('ThemeColorRed');
+    expect(source).toContain('    val colorRed: ThemeColorRed,');
+    for (const { types } of classes) {
+      // Color and TextUnit are long-backed value classes
+      const slots = types.reduce(
+        (total, type) =>
+          total + (type === 'Color' || type === 'TextUnit' ? LONG_SLOTS : 1),
+        0,
+      );
+      expect(
+        slots +
+          Math.ceil(types.length / PROPERTIES_PER_MASK) +
+          COPY_EXTRA_SLOTS,
+      ).toBeLessThanOrEqual(MAX_PARAMETER_SLOTS);
+    }
+    expect(
+      classes.flatMap(({ types }) =>
+        types.filter((type) => !type.startsWith('Theme')),
+      ),
+    ).toHaveLength(FIXTURE_TOKEN_COUNT);
+  });
+
+  test('uses the configured package', () => {
+    const source = exportKotlinTheme(THEME, { packageName: 'com.acme.theme' });
+
+    expect(source).toContain('\npackage com.acme.theme\n');
+    expect(exportKotlinTheme(THEME)).toContain('\npackage theme\n');
+  });
+
+  test('returns the default tokens without a dark variant', () => {
+    const source = exportKotlinTheme({
+      variants: { default: THEME.variants['default'] },
+      selectors: { default: ':root' },
+    });
+
+    expect(source).toContain('        get() = Default\n');
+    expect(source).not.toContain('isSystemInDarkTheme');
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * @file Tests for the native platform token helpers
+ */
+
+import type { ExportableTheme } from '../../../src/v4/core/formats/tokens';
+
+import { describe, expect, test } from 'bun:test';
+
+import {
+  collectNativeTheme,
+  toNativeMemberName,
+  toNativeTypeName,
+} from '../../../src/v4/core/formats/native';
+
+const THEME: ExportableTheme = {
+  variants: {
+    default: {
+      colors: {
+        blue: { 500: 'oklch(62.3% 0.214 259.815)' },
+        primary: 'var(--color-blue-500)',
+        overlay: 'rgb(0 0 0 / 50%)',
+      },
+      spacing: { base: '0.25rem', px: '1px', 0: '0' },
+      fontSize: { xl: { size: '1.25rem', lineHeight: '1.4' } },
+      fontWeight: { bold: '700' },
+      fonts: { sans: 'Inter, sans-serif' },
+      keyframes: { spin: '@keyframes spin { to { rotate: 360deg; } }' },
+    },
+    dark: {
+      colors: { primary: '#60a5fa' },
+      fontWeight: { bold: 'bolder' },
+    },
+  },
+  selectors: { default: ':root', dark: '.dark' },
+};
+
+describe('collectNativeTheme', () => {
+  test('converts colors to sRGB, lengths to points and inlines aliases', () => {
+    const { tokens } = collectNativeTheme(THEME);
+    const values = Object.fromEntries(
+      tokens.map(({ name, values: [value] }) => [name, value]),
+    );
+
+    expect(tokens.map(({ name }) => name)).toEqual([
+      'colorBlue500',
+      'colorPrimary',
+      'colorOverlay',
+      'spacing0',
+      'spacingBase',
+      'spacingPx',
+      'textXlSize',
+      'textXlLineHeight',
+      'fontWeightBold',
+      'fontSans',
+    ]);
+    expect(values).toMatchObject({
+      colorBlue500: { kind: 'color', hex: '2B7FFFFF' },
+      colorPrimary: { kind: 'color', hex: '2B7FFFFF' },
+      colorOverlay: { kind: 'color', hex: '00000080' },
+      spacingBase: { kind: 'length', points: 4, font: false },
+      spacingPx: { kind: 'length', points: 1, font: false },
+      spacing0: { kind: 'length', points: 0, font: false },
+      textXlSize: { kind: 'length', points: 20, font: true },
+      textXlLineHeight: { kind: 'number', value: 1.4 },
+      fontSans: { kind: 'string', value: 'Inter, sans-serif' },
+    });
+  });
+
+  test('uses the root font size for rem lengths', () => {
+    const { tokens } = collectNativeTheme(THEME, { rootFontSize: 10 });
+
+    expect(
+      tokens.find(({ name }) => name === 'spacingBase')?.values[0],
+    ).toEqual({ kind: 'length', points: 2.5, font: false });
+  });
+
+  test('keeps em lengths as strings', () => {
+    const { tokens } = collectNativeTheme({
+      variants: { default: { tracking: { tight: '-0.025em', px: '1px' } } },
+      selectors: { default: ':root' },
+    });
+
+    expect(tokens.map(({ values: [value] }) => value)).toEqual([
+      { kind: 'string', value: '-0.025em' },
+      { kind: 'length', points: 1, font: false },
+    ]);
+  });
+
+  test('fills missing variant tokens and falls back to strings for mixed kinds', () => {
+    const { tokens } = collectNativeTheme(THEME);
+    const byName = new Map(tokens.map((token) => [token.name, token.values]));
+
+    expect(byName.get('colorPrimary')).toEqual([
+      { kind: 'color', hex: '2B7FFFFF' },
+      { kind: 'color', hex: '60A5FAFF' },
+    ]);
+    expect(byName.get('spacingBase')?.[1]).toEqual({
+      kind: 'length',
+      points: 4,
+      font: false,
+    });
+    expect(byName.get('fontWeightBold')).toEqual([
+      { kind: 'string', value: '700' },
+      { kind: 'string', value: 'bolder' },
+    ]);
+  });
+
+  test('finds the dark variant by name or color scheme media query', () => {
+    expect(collectNativeTheme(THEME).darkIndex).toBe(1);
+    const { variants, darkIndex } = collectNativeTheme({
+      variants: { default: {}, mono: {}, night: {} },
+      selectors: {
+        default: ':root',
+        mono: '.theme-mono',
+        night: '@media (prefers-color-scheme: dark)',
+      },
+    });
+    expect(variants[darkIndex]?.name).toBe('night');
+    expect(
+      collectNativeTheme({
+        variants: { default: {}, mono: {} },
+        selectors: { default: ':root', mono: '.theme-mono' },
+      }).darkIndex,
+    ).toBe(-1);
+  });
+
+  test('reports tokens that map to the same member name', () => {
+    expect(() =>
+      collectNativeTheme({
+        variants: {
+          default: {
+            colors: { 'blue-500': '#3b82f6', blue: { 500: '#2563eb' } },
+          },
+        },
+        selectors: { default: ':root' },
+      }),
+    ).toThrow(
+      "Native member name 'colorBlue500' is used by both colors.blue-500 and colors.blue.500",
+    );
+  });
+});
+
+describe('toNativeMemberName', () => {
+  test('joins the CSS namespace and token path in camelCase', () => {
+    expect(toNativeMemberName(['colors', 'blue', '500'])).toBe('colorBlue500');
+    expect(toNativeMemberName(['fontSize', 'xl', 'lineHeight'])).toBe(
+      'textXlLineHeight',
+    );
+    expect(toNativeMemberName(['spacing', '1_5'])).toBe('spacing1_5');
+  });
+
+  test('keeps digits of separate path parts apart', () => {
+    expect(toNativeMemberName(['spacing', '1.5'])).toBe('spacing1_5');
+    expect(toNativeMemberName(['spacing', '15'])).toBe('spacing15');
+    expect(toNativeMemberName(['colors', 'gray', '950'])).toBe('colorGray950');
+  });
+});
+
+describe('toNativeTypeName', () => {
+  test('converts variant names to type names', () => {
+    expect(toNativeTypeName('dark')).toBe('Dark');
+    expect(toNativeTypeName('@md/sidebar')).toBe('MdSidebar');
+    expect(toNativeTypeName('2xl')).toBe('Variant2xl');
+  });
+});
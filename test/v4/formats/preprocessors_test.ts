@@ -0,0 +1,203 @@
+/**
+ * @file Tests for the SCSS, Less and Stylus exporter
+ */
+
+import type { ExportableTheme } from '../../../src/v4/core/formats/tokens';
+
+import { describe, expect, test } from 'bun:test';
+import stylus from 'stylus';
+
+import { resolveTheme } from '../../../src/v4';
+import { exportPreprocessorTokens } from '../../../src/v4/core/formats/preprocessors';
+
+const THEME: ExportableTheme = {
+  variants: {
+    default: {
+      colors: {
+        blue: { 500: '#3b82f6' },
+        primary: 'var(--color-blue-500)',
+      },
+      fontSize: { xl: { size: '1.25rem', lineHeight: '1.4' } },
+      aspect: { card: '4 / 3' },
+      fonts: { sans: '"Inter", sans-serif' },
+      keyframes: { spin: '@keyframes spin { to { rotate: 360deg; } }' },
+    },
+    dark: {
+      colors: {
+        blue: { 500: '#3b82f6' },
+        primary: '#60a5fa',
+      },
+    },
+  },
+  selectors: { default: ':root', dark: '.dark' },
+};
+
+describe('exportPreprocessorTokens', () => {
+  test('writes SCSS variables, namespace maps and a map per variant', () => {
+    expect(exportPreprocessorTokens(THEME, 'scss')).toBe(
+      [
+        '// ⚠️ AUTO-GENERATED FILE - DO NOT EDIT MANUALLY',
+        '// Generated by tailwind-resolver from the resolved Tailwind theme',
+        '',
+        '// Tokens (default theme)',
+        '$color-blue-500: #3b82f6;',
+        '$color-primary: #3b82f6;',
+        '$text-xl-size: 1.25rem;',
+        '$text-xl-line-height: 1.4;',
+        '$aspect-card: #{"4 / 3"};',
+        '$font-sans: "Inter", sans-serif;',
+        '',
+        '// Scales (default theme)',
+        '$color: (',
+        "  'blue': (",
+        "    '500': #3b82f6,",
+        '  ),',
+        "  'primary': #3b82f6,",
+        ');',
+        '$text: (',
+        "  'xl': (",
+        "    'size': 1.25rem,",
+        "    'line-height': 1.4,",
+        '  ),',
+        ');',
+        '$aspect: (',
+        `  'card': #{"4 / 3"},`,
+        ');',
+        '$font: (',
+        `  'sans': ("Inter", sans-serif),`,
+        ');',
+        '',
+        '// Variants',
+        '// :root',
+        '$theme-default: (',
+        "  'color': (",
+        "    'blue': (",
+        "      '500': #3b82f6,",
+        '    ),',
+        "    'primary': #3b82f6,",
+        '  ),',
+        "  'text': (",
+        "    'xl': (",
+        "      'size': 1.25rem,",
+        "      'line-height': 1.4,",
+        '    ),',
+        '  ),',
+        "  'aspect': (",
+        `    'card': #{"4 / 3"},`,
+        '  ),',
+        "  'font': (",
+        `    'sans': ("Inter", sans-serif),`,
+        '  ),',
+        ');',
+        '// .dark',
+        '$theme-dark: (',
+        "  'color': (",
+        "    'blue': (",
+        "      '500': #3b82f6,",
+        '    ),',
+        "    'primary': #60a5fa,",
+        '  ),',
+        ');',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  test('writes Less variables and detached ruleset maps', () => {
+    const less = exportPreprocessorTokens(THEME, 'less');
+
+    expect(less).toContain('@color-primary: #3b82f6;');
+    expect(less).toContain('@aspect-card: ~"4 / 3";');
+    expect(less).toContain(
+      [
+        '@color: {',
+        '  @blue: {',
+        '    500: #3b82f6;',
+        '  }',
+        '  primary: #3b82f6;',
+        '};',
+      ].join('\n'),
+    );
+    expect(less).toContain('@theme-dark: {');
+  });
+
+  test('writes Stylus variables and hashes', () => {
+    const stylus = exportPreprocessorTokens(THEME, 'stylus');
+
+    expect(stylus).toContain('$color-primary = #3b82f6\n');
+    expect(stylus).toContain('$aspect-card = unquote("4 / 3")\n');
+    expect(stylus).toContain(
+      ['$font = {', `  'sans': unquote('"Inter", sans-serif'),`, '}'].join(
+        '\n',
+      ),
+    );
+    expect(stylus).toContain('$theme-dark = {');
+  });
+
+  test('writes Stylus that compiles with font stacks, shadows and color functions', async () => {
+    const result = await resolveTheme({
+      input: './test/v4/fixtures/default_theme.css',
+      includeDefaults: false,
+    });
+    const source = exportPreprocessorTokens(result, 'stylus');
+
+    const css = stylus(
+      [
+        source,
+        '.card',
+        '  font-family: $font.mono',
+        "  box-shadow: $theme-default.shadow['md']",
+        '  filter: drop-shadow($drop-shadow-md)',
+        '  aspect-ratio: $aspect.video',
+        '  transition-timing-function: $ease.out',
+        '',
+      ].join('\n'),
+    ).render();
+
+    expect(css).toContain(
+      "font-family: ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, 'Liberation Mono', 'Courier New', monospace;",
+    );
+    expect(css).toContain(
+      'box-shadow: 0 4px 6px -1px rgb(0 0 0 / 0.1), 0 2px 4px -2px rgb(0 0 0 / 0.1);',
+    );
+    expect(css).toContain('filter: drop-shadow(0 3px 3px rgb(0 0 0 / 0.12));');
+    expect(css).toContain('aspect-ratio: 16 / 9;');
+    expect(css).toContain(
+      'transition-timing-function: cubic-bezier(0, 0, 0.2, 1);',
+    );
+  });
+
+  test('quotes Stylus values that hold both quote characters', () => {
+    const source = exportPreprocessorTokens(
+      {
+        variants: {
+          default: { fonts: { display: `"Ivy Mode", 'Ivy Presto', serif` } },
+        },
+        selectors: { default: ':root' },
+      },
+      'stylus',
+    );
+
+    expect(
+      stylus(`${source}\n.a\n  font-family: $font.display\n`).render(),
+    ).toContain(`font-family: "Ivy Mode", 'Ivy Presto', serif;`);
+  });
+
+  test('uses identifier-safe variant names', () => {
+    const scss = exportPreprocessorTokens(
+      {
+        variants: { default: {}, '@md/sidebar': {} },
+        selectors: {
+          default: ':root',
+          '@md/sidebar': '@container sidebar (width >= 28rem)',
+        },
+      },
+      'scss',
+    );
+
+    expect(scss).toContain(
+      '// @container sidebar (width >= 28rem)\n$theme-_md_sidebar: ();',
+    );
+    expect(scss).not.toContain('// Tokens');
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * @file Tests for the Style Dictionary exporter
+ */
+
+import { describe, expect, test } from 'bun:test';
+
+import { resolveTheme } from '../../../src/v4';
+import { exportStyleDictionaryTokens } from '../../../src/v4/core/formats/style_dictionary';
+
+describe('exportStyleDictionaryTokens', () => {
+  test('exports one complete source per variant', async () => {
+    const result = await resolveTheme({
+      css: `@theme {
+        --color-blue-500: #3b82f6;
+        --color-primary: #3b82f6;
+        --text-xl: 1.25rem;
+        --text-xl--line-height: 1.4;
+      }
+      .dark { --color-primary: #60a5fa; }`,
+      includeDefaults: false,
+    });
+
+    const sources = exportStyleDictionaryTokens(result);
+
+    expect(sources.map(({ variant }) => variant)).toEqual(['default', 'dark']);
+    expect(sources[0]?.tokens).toEqual({
+      color: {
+        blue: { 500: { value: '#3b82f6', comment: '--color-blue-500' } },
+        primary: { value: '#3b82f6', comment: '--color-primary' },
+      },
+      text: {
+        xl: {
+          size: { value: '1.25rem', comment: '--text-xl' },
+          lineHeight: { value: '1.4', comment: '--text-xl--line-height' },
+        },
+      },
+    });
+    expect(sources[1]?.tokens).toMatchObject({
+      color: {
+        blue: { 500: { value: '#3b82f6' } },
+        primary: { value: '#60a5fa', comment: '--color-primary' },
+      },
+      text: { xl: { size: { value: '1.25rem' } } },
+    });
+  });
+
+  test('exports var() references to other tokens as references', () => {
+    const [source] = exportStyleDictionaryTokens({
+      variants: {
+        default: {
+          colors: {
+            blue: { 500: '#3b82f6' },
+            primary: 'var(--color-blue-500)',
+            accent: 'var(--color-missing)',
+          },
+          spacing: { gutter: 'calc(var(--spacing) * 4)' },
+        },
+      },
+      selectors: { default: ':root' },
+    });
+
+    expect(source?.tokens).toEqual({
+      color: {
+        blue: { 500: { value: '#3b82f6' } },
+        primary: { value: '{color.blue.500}' },
+        accent: { value: 'var(--color-missing)' },
+      },
+      spacing: { gutter: { value: 'calc(var(--spacing) * 4)' } },
+    });
+  });
+
+  test('exports references declared in the CSS of a resolved theme', async () => {
+    const result = await resolveTheme({
+      css: `@theme {
+        --color-blue-500: #3b82f6;
+        --color-primary: var(--color-blue-500);
+      }
+      .dark { --color-blue-500: #60a5fa; }`,
+      includeDefaults: false,
+    });
+
+    const [defaults, dark] = exportStyleDictionaryTokens(result);
+
+    expect(defaults?.tokens['color']).toMatchObject({
+      primary: { value: '{color.blue.500}', comment: '--color-primary' },
+    });
+    expect(dark?.tokens['color']).toMatchObject({
+      blue: { 500: { value: '#60a5fa' } },
+      primary: { value: '{color.blue.500}' },
+    });
+  });
+
+  test('replaces reference syntax characters in token names and skips keyframes', () => {
+    const [source] = exportStyleDictionaryTokens({
+      variants: {
+        default: {
+          spacing: { '1.5': '0.375rem' },
+          keyframes: { spin: '@keyframes spin { to { rotate: 360deg; } }' },
+        },
+      },
+      selectors: { default: ':root' },
+    });
+
+    expect(source?.tokens).toEqual({
+      spacing: { '1_5': { value: '0.375rem' } },
+    });
+  });
+});
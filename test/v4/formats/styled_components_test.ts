@@ -0,0 +1,52 @@
+/**
+ * @file Tests for the styled-components exporter
+ */
+
+import { describe, expect, test } from 'bun:test';
+
+import { exportStyledComponentsTheme } from '../../../src/v4/core/formats/styled_components';
+
+describe('exportStyledComponentsTheme', () => {
+  test('augments DefaultTheme with the shape of the default theme', () => {
+    expect(
+      exportStyledComponentsTheme({
+        variants: {
+          default: {
+            colors: { blue: { 500: '#3b82f6' }, primary: '#3b82f6' },
+            fontWeight: { bold: 700 },
+            keyframes: { spin: '@keyframes spin { to { rotate: 360deg; } }' },
+          },
+          dark: { colors: { primary: '#60a5fa' } },
+        },
+        selectors: { default: ':root', dark: '.dark' },
+      }),
+    ).toBe(
+      [
+        '/**',
+        ' * ⚠️ AUTO-GENERATED FILE - DO NOT EDIT MANUALLY',
+        ' *',
+        ' * styled-components theme type generated by tailwind-resolver.',
+        ' * Pass a variant of the generated runtime to <ThemeProvider theme={...}>.',
+        ' */',
+        '',
+        '/* eslint-disable */',
+        "import 'styled-components';",
+        '',
+        "declare module 'styled-components' {",
+        '  export interface DefaultTheme {',
+        '    colors: {',
+        '      blue: {',
+        "        '500': string;",
+        '      };',
+        '      primary: string;',
+        '    };',
+        '    fontWeight: {',
+        '      bold: number;',
+        '    };',
+        '  }',
+        '}',
+        '',
+      ].join('\n'),
+    );
+  });
+});
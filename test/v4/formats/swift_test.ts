@@ -0,0 +1,73 @@
+/**
+ * @file Tests for the Swift exporter
+ */
+
+import type { ExportableTheme } from '../../../src/v4/core/formats/tokens';
+
+import { describe, expect, test } from 'bun:test';
+
+import { exportSwiftTheme } from '../../../src/v4/core/formats/swift';
+
+const THEME: ExportableTheme = {
+  variants: {
+    default: {
+      colors: {
+        blue: { 500: '#3b82f6' },
+        primary: 'var(--color-blue-500)',
+      },
+      spacing: { base: '0.25rem' },
+      fontSize: { xl: { size: '1.25rem', lineHeight: '1.4' } },
+      fonts: { sans: '"Inter", sans-serif' },
+    },
+    dark: {
+      colors: { primary: '#60a5fa' },
+    },
+    '@md/sidebar': {
+      spacing: { base: '0.5rem' },
+    },
+  },
+  selectors: {
+    default: ':root',
+    dark: '.dark',
+    '@md/sidebar': '@media (width >= 48rem)',
+  },
+};
+
+describe('exportSwiftTheme', () => {
+  test('writes static members with dynamic colors for the dark variant', () => {
+    expect(exportSwiftTheme(THEME)).toContain(
+      [
+        'import SwiftUI',
+        'import UIKit',
+        '',
+        'public enum Theme {',
+        '    public static let colorBlue500 = Color(hex: 0x3B82F6FF)',
+        '    public static let colorPrimary = Color(light: 0x3B82F6FF, dark: 0x60A5FAFF)',
+        '    public static let spacingBase: CGFloat = 4',
+        '    public static let textXlSize: CGFloat = 20',
+        '    public static let textXlLineHeight: CGFloat = 1.4',
+        '    public static let fontSans = "\\"Inter\\", sans-serif"',
+        '',
+        '    /// dark (.dark)',
+        '    public enum Dark {',
+        '        public static let colorPrimary = Color(hex: 0x60A5FAFF)',
+        '    }',
+        '',
+        '    /// @md/sidebar (@media (width >= 48rem))',
+        '    public enum MdSidebar {',
+        '        public static let spacingBase: CGFloat = 8',
+        '    }',
+        '}',
+      ].join('\n'),
+    );
+  });
+
+  test('declares the color initializers', () => {
+    const source = exportSwiftTheme(THEME);
+
+    expect(source).toContain('private extension UIColor {');
+    expect(source).toContain(
+      'UIColor(hex: traits.userInterfaceStyle == .dark ? dark : light)',
+    );
+  });
+});
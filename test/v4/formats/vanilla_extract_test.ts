@@ -0,0 +1,152 @@
+/**
+ * @file Tests for the vanilla-extract exporter
+ */
+
+import type { ExportableTheme } from '../../../src/v4/core/formats/tokens';
+
+import { describe, expect, test } from 'bun:test';
+
+import { exportVanillaExtractTheme } from '../../../src/v4/core/formats/vanilla_extract';
+
+const THEME: ExportableTheme = {
+  variants: {
+    default: {
+      colors: {
+        blue: { 500: '#3b82f6' },
+        primary: 'var(--color-blue-500)',
+      },
+      fontSize: { xl: { size: '1.25rem', lineHeight: '1.4' } },
+      keyframes: { spin: '@keyframes spin { to { rotate: 360deg; } }' },
+    },
+    dark: {
+      colors: {
+        blue: { 500: '#3b82f6' },
+        primary: '#60a5fa',
+      },
+    },
+  },
+  selectors: { default: ':root', dark: '.dark' },
+};
+
+describe('exportVanillaExtractTheme', () => {
+  test('writes a contract of CSS variables and a theme per variant', () => {
+    expect(exportVanillaExtractTheme(THEME)).toBe(
+      [
+        '/**',
+        ' * ⚠️ AUTO-GENERATED FILE - DO NOT EDIT MANUALLY',
+        ' *',
+        ' * vanilla-extract theme generated by tailwind-resolver.',
+        ' * Variables match the CSS variables of the theme; edit the theme CSS instead.',
+        ' */',
+        '',
+        '/* eslint-disable */',
+        "import { createGlobalTheme, createGlobalThemeContract } from '@vanilla-extract/css';",
+        '',
+        'export const vars = createGlobalThemeContract({',
+        '  colors: {',
+        '    blue: {',
+        "      '500': 'color-blue-500',",
+        '    },',
+        "    primary: 'color-primary',",
+        '  },',
+        '  fontSize: {',
+        '    xl: {',
+        "      size: 'text-xl',",
+        "      lineHeight: 'text-xl--line-height',",
+        '    },',
+        '  },',
+        '});',
+        '',
+        '// default',
+        "createGlobalTheme(':root', vars, {",
+        '  colors: {',
+        '    blue: {',
+        "      '500': '#3b82f6',",
+        '    },',
+        "    primary: 'var(--color-blue-500)',",
+        '  },',
+        '  fontSize: {',
+        '    xl: {',
+        "      size: '1.25rem',",
+        "      lineHeight: '1.4',",
+        '    },',
+        '  },',
+        '});',
+        '',
+        '// dark',
+        "createGlobalTheme('.dark', vars, {",
+        '  colors: {',
+        '    blue: {',
+        "      '500': '#3b82f6',",
+        '    },',
+        "    primary: '#60a5fa',",
+        '  },',
+        '  fontSize: {',
+        '    xl: {',
+        "      size: '1.25rem',",
+        "      lineHeight: '1.4',",
+        '    },',
+        '  },',
+        '});',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  test('uses the variable names of the input CSS', () => {
+    const source = exportVanillaExtractTheme(
+      {
+        ...THEME,
+        variables: [
+          {
+            name: '--color-brandPrimary',
+            value: '#3b82f6',
+            source: 'theme',
+          },
+        ],
+        variants: { default: { colors: { brandPrimary: '#3b82f6' } } },
+      },
+      { nesting: {} },
+    );
+
+    expect(source).toContain("brandPrimary: 'color-brandPrimary'");
+  });
+
+  test('assigns at-rule variants with globalStyle()', () => {
+    const source = exportVanillaExtractTheme({
+      variants: {
+        default: { colors: { primary: '#3b82f6' } },
+        '@md/sidebar': { colors: { primary: '#60a5fa' } },
+        'mono@lg': { colors: { primary: '#000' } },
+      },
+      selectors: {
+        default: ':root',
+        '@md/sidebar': '@container sidebar (width >= 28rem)',
+        'mono@lg': '.theme-mono @media (width >= 64rem)',
+      },
+    });
+
+    expect(source).toContain(
+      "import { assignVars, createGlobalTheme, createGlobalThemeContract, globalStyle } from '@vanilla-extract/css';",
+    );
+    expect(source).toContain(
+      [
+        '// @md/sidebar',
+        "globalStyle(':root', {",
+        "  '@container': {",
+        "    'sidebar (width >= 28rem)': {",
+        '      vars: assignVars(vars, {',
+        '        colors: {',
+        "          primary: '#60a5fa',",
+        '        },',
+        '      }),',
+        '    },',
+        '  },',
+        '});',
+      ].join('\n'),
+    );
+    expect(source).toContain(
+      "globalStyle('.theme-mono', {\n  '@media': {\n    '(width >= 64rem)': {",
+    );
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * @custom-variant integration tests
+ * Tests variant naming, selector mapping and nested @variant resolution
+ */
+
+import { describe, expect, test } from 'bun:test';
+
+import { resolveTheme } from '../../../src/v4';
+
+describe('@custom-variant', () => {
+  test('maps variant selectors to the custom variant definition', async () => {
+    const result = await resolveTheme({
+      css: `
+        @custom-variant dark (&:where(.dark, .dark *));
+        @theme { --color-background: white; }
+        .dark { --color-background: black; }
+      `,
+      includeDefaults: false,
+    });
+
+    expect(result.variants.dark?.colors.background).toBe('black');
+    expect(result.selectors.dark).toBe(':where(.dark, .dark *)');
+  });
+
+  test('names variants by the custom variant they activate', async () => {
+    const result = await resolveTheme({
+      css: `
+        @custom-variant dark (&:where([data-mode=night], [data-mode=night] *));
+        @theme { --color-background: white; }
+        [data-mode=night] { --color-background: black; }
+      `,
+      includeDefaults: false,
+    });
+
+    expect(result.variants.dark?.colors.background).toBe('black');
+    expect(result.variants.night).toBeUndefined();
+    expect(result.selectors.dark).toBe(
+      ':where([data-mode=night], [data-mode=night] *)',
+    );
+  });
+
+  test('supports the block form with @media', async () => {
+    const result = await resolveTheme({
+      css: `
+        @custom-variant dark {
+          @media (prefers-color-scheme: dark) { @slot; }
+        }
+        @theme { --color-background: white; }
+        .dark { --color-background: black; }
+      `,
+      includeDefaults: false,
+    });
+
+    expect(result.selectors.dark).toBe('@media (prefers-color-scheme: dark)');
+  });
+
+  test('resolves nested @variant through the custom variant', async () => {
+    const result = await resolveTheme({
+      css: `
+        @custom-variant dark (&:is(.dark *));
+        @theme { --color-primary: blue; }
+        .theme-ocean {
+          --color-primary: teal;
+          @variant dark {
+            --color-primary: navy;
+          }
+        }
+      `,
+      includeDefaults: false,
+    });
+
+    expect(result.variants.themeOceanDark?.colors.primary).toBe('navy');
+    expect(result.selectors.themeOceanDark).toBe('.theme-ocean:is(.dark *)');
+  });
+
+  test('keeps class-based selectors without a custom variant', async () => {
+    const result = await resolveTheme({
+      css: `
+        @theme { --color-primary: blue; }
+        .theme-ocean {
+          @variant dark { --color-primary: navy; }
+        }
+      `,
+      includeDefaults: false,
+    });
+
+    expect(result.selectors.themeOceanDark).toBe('.theme-ocean.dark');
+  });
+});
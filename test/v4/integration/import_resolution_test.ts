@@ -3,7 +3,11 @@
  * Tests CSS @import statement resolution and file handling
  */
 
-import { describe, expect, test } from 'bun:test';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
 
 import { resolveTheme } from '../../../src/v4';
 
@@ -32,3 +36,105 @@ describe('Import Resolution', () => {
     expect(result.files[0]).toMatch(/main\.css$/);
   });
 });
+
+describe('Import Resolution - Import conditions', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'import-conditions-test-'));
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  test('treats media-conditioned imports as variants', async () => {
+    await writeFile(
+      join(tempDir, 'dark.css'),
+      ':root { --color-background: black; }',
+    );
+    await writeFile(
+      join(tempDir, 'main.css'),
+      `@import "./dark.css" (prefers-color-scheme: dark);
+      @theme { --color-background: white; }`,
+    );
+
+    const result = await resolveTheme({
+      input: join(tempDir, 'main.css'),
+      includeDefaults: false,
+    });
+
+    expect(result.variants.default.colors.background).toBe('white');
+    expect(result.variants.dark?.colors.background).toBe('black');
+    expect(result.selectors.dark).toBe('@media (prefers-color-scheme: dark)');
+  });
+
+  test('keeps layer() and supports() imports in the base theme', async () => {
+    await writeFile(
+      join(tempDir, 'tokens.css'),
+      '@theme { --color-primary: red; }',
+    );
+    await writeFile(
+      join(tempDir, 'modern.css'),
+      '@theme { --color-accent: oklch(0.7 0.1 200); }',
+    );
+    await writeFile(
+      join(tempDir, 'main.css'),
+      `@import "./tokens.css" layer(theme);
+      @import "./modern.css" supports(color: oklch(0 0 0));`,
+    );
+
+    const result = await resolveTheme({
+      input: join(tempDir, 'main.css'),
+      includeDefaults: false,
+    });
+
+    expect(result.variants.default.colors.primary).toBe('red');
+    expect(result.variants.default.colors.accent).toBe('oklch(0.7 0.1 200)');
+  });
+
+  test('keeps the tokens of theme() and prefix() imports', async () => {
+    await writeFile(
+      join(tempDir, 'tokens.css'),
+      '@theme { --color-primary: red; --spacing-gutter: 1rem; }',
+    );
+    await writeFile(
+      join(tempDir, 'brand.css'),
+      '@theme { --color-brand: blue; }',
+    );
+    await writeFile(
+      join(tempDir, 'main.css'),
+      `@import "./tokens.css" theme(static);
+      @import "./brand.css" prefix(tw);`,
+    );
+
+    const result = await resolveTheme({
+      input: join(tempDir, 'main.css'),
+      includeDefaults: false,
+    });
+
+    expect(result.variants.default.colors.primary).toBe('red');
+    expect(result.variants.default.spacing.gutter).toBe('1rem');
+    expect(result.variants.default.colors.brand).toBe('blue');
+    expect(Object.keys(result.variants)).toEqual(['default']);
+  });
+
+  test('does not add media-conditioned variables to the base theme', async () => {
+    await writeFile(
+      join(tempDir, 'print.css'),
+      ':root { --color-background: white; }',
+    );
+    await writeFile(
+      join(tempDir, 'main.css'),
+      `@import "./print.css" print;
+      @theme { --color-background: gray; }`,
+    );
+
+    const result = await resolveTheme({
+      input: join(tempDir, 'main.css'),
+      includeDefaults: false,
+    });
+
+    expect(result.variants.default.colors.background).toBe('gray');
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Responsive variant integration tests
+ * Tests breakpoint and container query blocks resolved as named variants
+ */
+
+import { describe, expect, test } from 'bun:test';
+
+import { resolveTheme } from '../../../src/v4';
+
+const THEME = `
+  @theme {
+    --breakpoint-md: 48rem;
+    --breakpoint-lg: 64rem;
+    --container-md: 28rem;
+    --spacing: 0.25rem;
+    --radius-lg: 0.5rem;
+  }
+`;
+
+describe('Responsive variants', () => {
+  test('resolves top-level breakpoint media queries as variants', async () => {
+    const result = await resolveTheme({
+      css: `
+        ${THEME}
+        @media (width >= 48rem) {
+          :root { --spacing: 0.3rem; }
+        }
+        @media (min-width: 1024px) {
+          :root { --radius-lg: 0.75rem; }
+        }
+      `,
+      includeDefaults: false,
+    });
+
+    expect(result.variants.default.spacing.base).toBe('0.25rem');
+    expect(result.variants.md?.spacing.base).toBe('0.3rem');
+    expect(result.selectors.md).toBe('@media (width >= 48rem)');
+    expect(result.variants.lg?.radius.lg).toBe('0.75rem');
+    expect(result.selectors.lg).toBe('@media (min-width: 1024px)');
+  });
+
+  test('keeps :root base values separate from nested breakpoints', async () => {
+    const result = await resolveTheme({
+      css: `
+        ${THEME}
+        :root {
+          --spacing: 0.25rem;
+          @media (width >= 48rem) { --spacing: 0.3rem; }
+          @media (width < 48rem) { --spacing: 0.2rem; }
+        }
+      `,
+      includeDefaults: false,
+    });
+
+    expect(result.variants.default.spacing.base).toBe('0.25rem');
+    expect(result.variants.md?.spacing.base).toBe('0.3rem');
+    expect(result.variants.maxMd?.spacing.base).toBe('0.2rem');
+    expect(result.selectors.maxMd).toBe('@media (width < 48rem)');
+  });
+
+  test('resolves container queries as variants', async () => {
+    const result = await resolveTheme({
+      css: `
+        ${THEME}
+        @container (width >= 28rem) {
+          :root { --spacing: 0.5rem; }
+        }
+        @container sidebar (width >= 28rem) {
+          :root { --spacing: 0.4rem; }
+        }
+      `,
+      includeDefaults: false,
+    });
+
+    expect(result.variants['@md']?.spacing.base).toBe('0.5rem');
+    expect(result.selectors['@md']).toBe('@container (width >= 28rem)');
+    expect(result.variants['@md/sidebar']?.spacing.base).toBe('0.4rem');
+  });
+
+  test('creates compound variants for breakpoints inside variant rules', async () => {
+    const result = await resolveTheme({
+      css: `
+        ${THEME}
+        .theme-mono {
+          --radius-lg: 0.25rem;
+          @media (min-width: 1024px) { --radius-lg: 0.45em; }
+        }
+      `,
+      includeDefaults: false,
+    });
+
+    expect(result.variants.themeMono?.radius.lg).toBe('0.25rem');
+    expect(result.variants.themeMonoLg?.radius.lg).toBe('0.45em');
+    expect(result.selectors.themeMonoLg).toBe(
+      '.theme-mono @media (min-width: 1024px)',
+    );
+  });
+
+  test('still resolves color scheme media queries by scheme', async () => {
+    const result = await resolveTheme({
+      css: `
+        ${THEME}
+        @media (prefers-color-scheme: dark) {
+          :root { --spacing: 0.3rem; }
+        }
+      `,
+      includeDefaults: false,
+    });
+
+    expect(result.variants.dark?.spacing.base).toBe('0.3rem');
+  });
+});
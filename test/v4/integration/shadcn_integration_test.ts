@@ -5,6 +5,7 @@
 
 import type { TailwindResult } from '../../../src/v4/types';
 
+import { readFile } from 'node:fs/promises';
 import { resolve } from 'node:path';
 
 import { beforeAll, describe, expect, test } from 'bun:test';
@@ -287,7 +288,21 @@ describe('Breakpoint Extensions', () => {
 describe('Theme Variants from shadcn-themes.css', () => {
   test('resolves dark mode variant from .dark selector', () => {
     expect(result.variants.dark).toBeDefined();
-    expect(result.selectors.dark).toBe('.dark');
+    // shadcn_global.css declares @custom-variant dark (&:is(.dark *))
+    expect(result.selectors.dark).toBe(':is(.dark *)');
+  });
+
+  test('reports the .dark selector when no @custom-variant is declared', async () => {
+    const fixtures = resolve(__dirname, '../fixtures');
+    const css = await readFile(resolve(fixtures, 'shadcn_global.css'), 'utf-8');
+    const plain = await resolveTheme({
+      css: css.replace(/^@custom-variant .*$/gm, ''),
+      resolveImports: true,
+      basePath: fixtures,
+    });
+
+    expect(plain.selectors.dark).toBe('.dark');
+    expect(plain.variants.dark?.colors).toEqual(result.variants.dark?.colors);
   });
 
   test('dark mode overrides semantic colors', () => {
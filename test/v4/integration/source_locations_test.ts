@@ -0,0 +1,106 @@
+/**
+ * Source location integration tests
+ * Tests that variables, unresolved references and conflicts report where they were declared
+ */
+
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+
+import { resolveTheme } from '../../../src/v4';
+
+let tempDir: string;
+
+beforeEach(async () => {
+  tempDir = await mkdtemp(join(tmpdir(), 'source-locations-test-'));
+
+  await writeFile(
+    join(tempDir, 'main.css'),
+    [
+      '@import "./colors.css";',
+      '',
+      '@theme {',
+      '  --color-primary: red;',
+      '  --font-sans: var(--font-geist);',
+      '}',
+    ].join('\n'),
+  );
+  await writeFile(
+    join(tempDir, 'colors.css'),
+    [
+      '@theme {',
+      '  --color-primary: blue;',
+      '  --radius-lg: 1rem;',
+      '}',
+      '',
+      '.theme-mono {',
+      '  --color-primary: black;',
+      '  .rounded-lg {',
+      '    border-radius: 0;',
+      '  }',
+      '}',
+    ].join('\n'),
+  );
+});
+
+afterEach(async () => {
+  await rm(tempDir, { recursive: true, force: true });
+});
+
+describe('Source Locations', () => {
+  test('records file, line and column on variables', async () => {
+    const result = await resolveTheme({
+      input: join(tempDir, 'main.css'),
+      includeDefaults: false,
+    });
+
+    const primaries = result.variables.filter(
+      (v) => v.name === '--color-primary',
+    );
+
+    expect(primaries.map((v) => v.location)).toEqual([
+      { file: join(tempDir, 'colors.css'), line: 2, column: 3 },
+      { file: join(tempDir, 'colors.css'), line: 7, column: 3 },
+      { file: join(tempDir, 'main.css'), line: 4, column: 3 },
+    ]);
+  });
+
+  test('omits the file for inline CSS', async () => {
+    const result = await resolveTheme({
+      css: '@theme {\n  --color-primary: red;\n}',
+      includeDefaults: false,
+    });
+
+    expect(result.variables[0]?.location).toEqual({ line: 2, column: 3 });
+  });
+
+  test('records location on unresolved variables', async () => {
+    const result = await resolveTheme({
+      input: join(tempDir, 'main.css'),
+      includeDefaults: false,
+    });
+
+    expect(result.unresolvedVariables).toMatchObject([
+      {
+        variableName: '--font-sans',
+        location: { file: join(tempDir, 'main.css'), line: 5, column: 3 },
+      },
+    ]);
+  });
+
+  test('records location of the overriding rule on conflicts', async () => {
+    const result = await resolveTheme({
+      input: join(tempDir, 'main.css'),
+      includeDefaults: false,
+    });
+
+    expect(result.cssConflicts).toMatchObject([
+      {
+        ruleSelector: '.rounded-lg',
+        location: { file: join(tempDir, 'colors.css'), line: 9, column: 5 },
+      },
+    ]);
+  });
+});
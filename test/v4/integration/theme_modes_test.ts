@@ -0,0 +1,95 @@
+/**
+ * @theme mode integration tests
+ * Tests inline, static, reference and default modifiers through resolveTheme
+ */
+
+import { describe, expect, test } from 'bun:test';
+
+import { resolveTheme } from '../../../src/v4';
+
+describe('@theme modes', () => {
+  test('reference themes feed resolution but are not emitted', async () => {
+    const result = await resolveTheme({
+      css: `
+        @theme reference {
+          --color-brand: #3b82f6;
+          --spacing-gutter: 2rem;
+        }
+        @theme {
+          --color-primary: var(--color-brand);
+        }
+      `,
+      includeDefaults: false,
+    });
+
+    expect(result.variants.default.colors.primary).toBe('#3b82f6');
+    expect(result.variants.default.colors.brand).toBeUndefined();
+    expect(result.variants.default.spacing.gutter).toBeUndefined();
+    expect(
+      result.variables.find((v) => v.name === '--color-brand')?.themeModes,
+    ).toEqual(['reference']);
+  });
+
+  test('variant overrides of reference variables flow into dependent values', async () => {
+    const result = await resolveTheme({
+      css: `
+        @theme reference { --color-brand: #3b82f6; }
+        @theme { --color-primary: var(--color-brand); }
+        .dark { --color-brand: #1e3a8a; }
+      `,
+      includeDefaults: false,
+    });
+
+    expect(result.variants.dark?.colors.primary).toBe('#1e3a8a');
+    expect(result.variants.dark?.colors.brand).toBe('#1e3a8a');
+  });
+
+  test('inline themes are recorded but resolve like plain themes', async () => {
+    const variants = `
+      :root { --background: white; }
+      .dark { --background: black; }
+    `;
+    const inline = await resolveTheme({
+      css: `@theme inline { --color-background: var(--background); } ${variants}`,
+      includeDefaults: false,
+    });
+    const plain = await resolveTheme({
+      css: `@theme { --color-background: var(--background); } ${variants}`,
+      includeDefaults: false,
+    });
+
+    expect(inline.variants).toEqual(plain.variants);
+    expect(inline.variants.dark?.colors.background).toBe('black');
+    expect(
+      inline.variables.find((v) => v.name === '--color-background')?.themeModes,
+    ).toEqual(['inline']);
+    expect(
+      plain.variables.find((v) => v.name === '--color-background')?.themeModes,
+    ).toBeUndefined();
+  });
+
+  test('default themes are overridden by plain themes regardless of order', async () => {
+    const result = await resolveTheme({
+      css: `
+        @theme { --color-primary: red; }
+        @theme default {
+          --color-primary: blue;
+          --color-secondary: green;
+        }
+      `,
+      includeDefaults: false,
+    });
+
+    expect(result.variants.default.colors.primary).toBe('red');
+    expect(result.variants.default.colors.secondary).toBe('green');
+  });
+
+  test('static themes are emitted like plain themes', async () => {
+    const result = await resolveTheme({
+      css: '@theme static { --color-unused: purple; }',
+      includeDefaults: false,
+    });
+
+    expect(result.variants.default.colors.unused).toBe('purple');
+  });
+});
@@ -284,14 +284,19 @@ describe('Vite Plugin - Full Integration', () => {
       '../../../src/v4/shared/file_generator'
     );
 
-    await generateThemeFiles(
-      inputFile,
-      cliOutputDir,
-      true,
-      { variants: true, selectors: true, files: false, variables: false },
-      false,
-      false,
-    );
+    await generateThemeFiles({
+      inputPath: inputFile,
+      outputDir: cliOutputDir,
+      resolveImports: true,
+      runtimeOptions: {
+        variants: true,
+        selectors: true,
+        files: false,
+        variables: false,
+      },
+      includeDefaults: false,
+      debug: false,
+    });
 
     // Compare outputs - they should be identical
     const viteTypes = await readFile(join(viteOutputDir, 'types.ts'), 'utf-8');
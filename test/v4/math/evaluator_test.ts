@@ -0,0 +1,133 @@
+/**
+ * Tests for static CSS math function evaluation
+ */
+
+/* eslint-disable @typescript-eslint/no-magic-numbers */
+
+import { describe, expect, test } from 'bun:test';
+
+import { evaluateMathExpressions } from '../../../src/v4/core/math/evaluator';
+
+describe('evaluateMathExpressions', () => {
+  describe('calc()', () => {
+    test('folds same-unit arithmetic', () => {
+      expect(evaluateMathExpressions('calc(2px + 3px)')).toBe('5px');
+      expect(evaluateMathExpressions('calc(0.25rem * 4)')).toBe('1rem');
+      expect(evaluateMathExpressions('calc(1 / 0.75)')).toBe('1.3333');
+    });
+
+    test('converts between rem and px using the root font size', () => {
+      expect(evaluateMathExpressions('calc(0.625rem - 4px)')).toBe('0.375rem');
+      expect(evaluateMathExpressions('calc(4px + 1rem)')).toBe('20px');
+      expect(evaluateMathExpressions('calc(0.625rem - 4px)', 10)).toBe(
+        '0.225rem',
+      );
+    });
+
+    test('respects operator precedence and parentheses', () => {
+      expect(evaluateMathExpressions('calc(2px + 3px * 2)')).toBe('8px');
+      expect(evaluateMathExpressions('calc((2px + 3px) * 2)')).toBe('10px');
+    });
+
+    test('handles negative numbers', () => {
+      expect(evaluateMathExpressions('calc(-1 * 0.25rem)')).toBe('-0.25rem');
+      expect(evaluateMathExpressions('calc(10px - -2px)')).toBe('12px');
+    });
+
+    test('folds time and angle units', () => {
+      expect(evaluateMathExpressions('calc(0.5s + 100ms)')).toBe('0.6s');
+      expect(evaluateMathExpressions('calc(0.25turn + 10deg)')).toBe(
+        '0.2778turn',
+      );
+    });
+
+    test('folds nested math functions', () => {
+      expect(evaluateMathExpressions('calc(max(1rem, 20px) + 2px)')).toBe(
+        '1.375rem',
+      );
+    });
+  });
+
+  describe('Comparison functions', () => {
+    test('folds min(), max() and clamp()', () => {
+      expect(evaluateMathExpressions('min(1rem, 12px)')).toBe('0.75rem');
+      expect(evaluateMathExpressions('max(1rem, 12px)')).toBe('1rem');
+      expect(evaluateMathExpressions('clamp(1rem, 20px, 2rem)')).toBe(
+        '1.25rem',
+      );
+    });
+  });
+
+  describe('Stepped value and trigonometric functions', () => {
+    test('folds round(), mod() and rem()', () => {
+      expect(evaluateMathExpressions('round(up, 13px, 5px)')).toBe('15px');
+      expect(evaluateMathExpressions('round(2.5)')).toBe('3');
+      expect(evaluateMathExpressions('mod(-7, 3)')).toBe('2');
+      expect(evaluateMathExpressions('rem(-7, 3)')).toBe('-1');
+    });
+
+    test('folds trigonometric and exponential functions', () => {
+      expect(evaluateMathExpressions('sin(90deg)')).toBe('1');
+      expect(evaluateMathExpressions('atan2(1, 1)')).toBe('45deg');
+      expect(evaluateMathExpressions('sqrt(16)')).toBe('4');
+      expect(evaluateMathExpressions('pow(2, 3)')).toBe('8');
+      expect(evaluateMathExpressions('hypot(3px, 4px)')).toBe('5px');
+      expect(evaluateMathExpressions('calc(pi * 2)')).toBe('6.2832');
+    });
+  });
+
+  describe('Embedded expressions', () => {
+    test('folds math functions inside larger values', () => {
+      expect(evaluateMathExpressions('0 0 calc(2px * 2) black')).toBe(
+        '0 0 4px black',
+      );
+      expect(evaluateMathExpressions('translateX(calc(2px * 3))')).toBe(
+        'translateX(6px)',
+      );
+    });
+
+    test('leaves values without math functions unchanged', () => {
+      expect(evaluateMathExpressions('1rem')).toBe('1rem');
+      expect(evaluateMathExpressions('oklch(0.5 0.1 120)')).toBe(
+        'oklch(0.5 0.1 120)',
+      );
+    });
+  });
+
+  describe('Non-foldable expressions', () => {
+    test('keeps viewport and percentage expressions', () => {
+      expect(evaluateMathExpressions('calc(100vw - 2rem)')).toBe(
+        'calc(100vw - 2rem)',
+      );
+      expect(evaluateMathExpressions('max(10px, 50%)')).toBe('max(10px, 50%)');
+    });
+
+    test('keeps font-relative and container units', () => {
+      expect(evaluateMathExpressions('calc(1em + 2px)')).toBe(
+        'calc(1em + 2px)',
+      );
+      expect(evaluateMathExpressions('calc(10cqw * 2)')).toBe(
+        'calc(10cqw * 2)',
+      );
+    });
+
+    test('keeps unresolved var() references', () => {
+      expect(evaluateMathExpressions('calc(var(--spacing) * 4)')).toBe(
+        'calc(var(--spacing) * 4)',
+      );
+    });
+
+    test('keeps expressions with incompatible units', () => {
+      expect(evaluateMathExpressions('calc(1px + 1)')).toBe('calc(1px + 1)');
+      expect(evaluateMathExpressions('calc(1px * 2px)')).toBe(
+        'calc(1px * 2px)',
+      );
+      expect(evaluateMathExpressions('calc(1px / 0)')).toBe('calc(1px / 0)');
+    });
+
+    test('keeps malformed expressions', () => {
+      expect(evaluateMathExpressions('calc(1px +)')).toBe('calc(1px +)');
+      expect(evaluateMathExpressions('calc(1px')).toBe('calc(1px');
+    });
+  });
+});
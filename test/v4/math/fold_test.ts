@@ -0,0 +1,100 @@
+/**
+ * Tests for math folding of resolved themes via the evaluateMath option
+ */
+
+import { describe, expect, test } from 'bun:test';
+
+import { resolveTheme } from '../../../src/v4';
+
+const CSS = `
+  @theme {
+    --radius-lg: 0.625rem;
+    --radius-md: calc(var(--radius-lg) - 2px);
+    --radius-sm: calc(var(--radius-lg) - 4px);
+    --spacing-gutter: calc(100vw - 2rem);
+    --text-xs: 0.75rem;
+    --text-xs--line-height: calc(1 / 0.75);
+  }
+
+  .dark {
+    --radius-lg: 1rem;
+  }
+`;
+
+// Custom root font size used to verify rem conversion
+const SMALL_ROOT_FONT_SIZE = 10;
+
+describe('resolveTheme evaluateMath option', () => {
+  test('keeps expressions as authored by default', async () => {
+    const result = await resolveTheme({ css: CSS, includeDefaults: false });
+
+    expect(result.variants.default.radius.sm).toBe('calc(0.625rem - 4px)');
+    expect(result.foldedExpressions).toBeUndefined();
+  });
+
+  test('folds expressions with compatible units', async () => {
+    const result = await resolveTheme({
+      css: CSS,
+      includeDefaults: false,
+      evaluateMath: true,
+    });
+
+    expect(result.variants.default.radius.md).toBe('0.5rem');
+    expect(result.variants.default.radius.sm).toBe('0.375rem');
+    expect(result.variants.default.fontSize.xs?.lineHeight).toBe('1.3333');
+  });
+
+  test('keeps viewport-dependent expressions', async () => {
+    const result = await resolveTheme({
+      css: CSS,
+      includeDefaults: false,
+      evaluateMath: true,
+    });
+
+    expect(result.variants.default.spacing.gutter).toBe('calc(100vw - 2rem)');
+  });
+
+  test('uses the configured root font size', async () => {
+    const result = await resolveTheme({
+      css: CSS,
+      includeDefaults: false,
+      evaluateMath: { rootFontSize: SMALL_ROOT_FONT_SIZE },
+    });
+
+    expect(result.variants.default.radius.sm).toBe('0.225rem');
+  });
+
+  test('folds variant themes', async () => {
+    const result = await resolveTheme({
+      css: CSS,
+      includeDefaults: false,
+      evaluateMath: true,
+    });
+
+    expect(result.variants.dark?.radius.sm).toBe('0.75rem');
+  });
+
+  test('records folded values with variant and path', async () => {
+    const result = await resolveTheme({
+      css: CSS,
+      includeDefaults: false,
+      evaluateMath: true,
+    });
+
+    expect(result.foldedExpressions).toContainEqual({
+      variantName: 'default',
+      path: 'radius.sm',
+      original: 'calc(0.625rem - 4px)',
+      value: '0.375rem',
+    });
+    expect(result.foldedExpressions).toContainEqual({
+      variantName: 'dark',
+      path: 'radius.sm',
+      original: 'calc(1rem - 4px)',
+      value: '0.75rem',
+    });
+    expect(
+      result.foldedExpressions?.some((fold) => fold.path === 'spacing.gutter'),
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,233 @@
+/**
+ * @file Tests for migrating Tailwind v3 configs to v4 @theme CSS
+ */
+
+import { describe, expect, test } from 'bun:test';
+
+import { resolveTheme } from '../../../src/v4';
+import { migrateTailwindV3Config } from '../../../src/v4/core/migration/tailwind_v3';
+
+describe('migrateTailwindV3Config', () => {
+  test('maps theme.extend keys to v4 namespaces', () => {
+    const { css, variableCount, issues } = migrateTailwindV3Config({
+      theme: {
+        extend: {
+          colors: { brand: { DEFAULT: '#336699', light: '#6699cc' } },
+          spacing: { '1.5': '0.375rem' },
+          letterSpacing: { snug: '-0.01em' },
+          boxShadow: { card: ['0 1px 2px #0001', '0 2px 4px #0002'] },
+          animation: { wiggle: 'wiggle 1s ease-in-out infinite' },
+        },
+      },
+    });
+
+    expect(css).toBe(
+      [
+        '@theme {',
+        '  --color-brand: #336699;',
+        '  --color-brand-light: #6699cc;',
+        '',
+        '  --spacing-1_5: 0.375rem;',
+        '',
+        '  --tracking-snug: -0.01em;',
+        '',
+        '  --shadow-card: 0 1px 2px #0001, 0 2px 4px #0002;',
+        '',
+        '  --animate-wiggle: wiggle 1s ease-in-out infinite;',
+        '}',
+        '',
+      ].join('\n'),
+    );
+    expect(variableCount).toBe(css.split(';').length - 1);
+    expect(issues).toEqual([]);
+  });
+
+  test('resets namespaces replaced directly on theme before extending them', () => {
+    const { css } = migrateTailwindV3Config({
+      theme: {
+        colors: { black: '#000' },
+        extend: { colors: { brand: '#336699' } },
+      },
+    });
+
+    expect(css).toContain(
+      '  --color-*: initial;\n  --color-black: #000;\n  --color-brand: #336699;',
+    );
+  });
+
+  test('converts fontSize tuples to --text-* and line-height variables', () => {
+    const { css } = migrateTailwindV3Config({
+      theme: {
+        extend: {
+          fontSize: {
+            base: '1rem',
+            xs: ['0.75rem', '1rem'],
+            lg: [
+              '1.125rem',
+              { lineHeight: '1.75rem', letterSpacing: '-0.01em' },
+            ],
+          },
+        },
+      },
+    });
+
+    expect(css).toContain(
+      [
+        '  --text-base: 1rem;',
+        '  --text-xs: 0.75rem;',
+        '  --text-xs--line-height: 1rem;',
+        '  --text-lg: 1.125rem;',
+        '  --text-lg--line-height: 1.75rem;',
+        '  --text-lg--letter-spacing: -0.01em;',
+      ].join('\n'),
+    );
+  });
+
+  test('quotes multi-word font names and maps font feature settings', () => {
+    const { css } = migrateTailwindV3Config({
+      theme: {
+        extend: {
+          fontFamily: {
+            sans: ['Inter', 'sans-serif'],
+            display: [
+              ['Cal Sans', 'sans-serif'],
+              { fontFeatureSettings: '"ss01"' },
+            ],
+          },
+        },
+      },
+    });
+
+    expect(css).toContain('  --font-sans: Inter, sans-serif;');
+    expect(css).toContain('  --font-display: "Cal Sans", sans-serif;');
+    expect(css).toContain('  --font-display--font-feature-settings: "ss01";');
+  });
+
+  test('emits a custom variant and dark block for the class strategy', () => {
+    const selectorStrategy = migrateTailwindV3Config({
+      darkMode: ['selector', '[data-theme="dark"]'],
+    });
+
+    expect(migrateTailwindV3Config({ darkMode: 'class' }).css).toContain(
+      '@custom-variant dark (&:where(.dark, .dark *));',
+    );
+    expect(selectorStrategy.css).toContain(
+      '@custom-variant dark (&:where([data-theme="dark"], [data-theme="dark"] *));',
+    );
+    expect(selectorStrategy.css).toContain('[data-theme="dark"] {\n');
+    expect(migrateTailwindV3Config({ darkMode: 'media' }).css).toBe(
+      '@theme {\n}\n',
+    );
+  });
+
+  test('renders keyframes with kebab-case properties inside @theme', () => {
+    const { css } = migrateTailwindV3Config({
+      theme: {
+        extend: {
+          keyframes: {
+            wiggle: {
+              '0%, 100%': { transform: 'rotate(-3deg)' },
+              '50%': { animationTimingFunction: 'ease-in' },
+            },
+          },
+        },
+      },
+    });
+
+    expect(css).toContain(
+      [
+        '  @keyframes wiggle {',
+        '    0%, 100% {',
+        '      transform: rotate(-3deg);',
+        '    }',
+        '    50% {',
+        '      animation-timing-function: ease-in;',
+        '    }',
+        '  }',
+      ].join('\n'),
+    );
+  });
+
+  test('warns about deprecated singular variables from DEFAULT keys', () => {
+    const { css, issues } = migrateTailwindV3Config({
+      theme: {
+        extend: {
+          borderRadius: { DEFAULT: '0.25rem' },
+          fontWeight: { DEFAULT: '400' },
+        },
+      },
+    });
+
+    expect(css).toContain('  --radius: 0.25rem;');
+    expect(css).not.toContain('--font-weight:');
+    expect(issues).toEqual([
+      {
+        path: 'theme.extend.fontWeight.DEFAULT',
+        kind: 'unmapped',
+        message:
+          'DEFAULT has no Tailwind v4 equivalent (--font-weight is not a theme variable)',
+      },
+      {
+        path: 'theme.extend.borderRadius.DEFAULT',
+        kind: 'deprecated',
+        message: "Singular variable '--radius' is deprecated in Tailwind v4",
+        replacement: '--radius-sm or --radius-md',
+      },
+    ]);
+  });
+
+  test('reports entries that cannot be mapped', () => {
+    const { css, issues } = migrateTailwindV3Config({
+      content: ['./src/**/*.tsx'],
+      darkMode: ['variant', '&:is(.dark *)'],
+      theme: {
+        screens: { sm: '640px', md: { min: '768px' }, tall: { raw: '(h)' } },
+        extend: {
+          opacity: { 15: '0.15' },
+          colors: {
+            primary: () => '#000',
+            accent: 'rgb(255 0 0 / <alpha-value>)',
+          },
+        },
+      },
+    });
+
+    expect(css).toContain(
+      '  --breakpoint-sm: 640px;\n  --breakpoint-md: 768px;',
+    );
+    expect(css).toContain('  --color-accent: rgb(255 0 0);');
+    expect(issues.map((issue) => [issue.kind, issue.path])).toEqual([
+      ['unmapped', 'content'],
+      ['unmapped', 'theme.extend.opacity'],
+      ['unmapped', 'theme.extend.colors.primary'],
+      ['converted', 'theme.extend.colors.accent'],
+      ['unmapped', 'theme.screens.tall'],
+      ['unmapped', 'darkMode'],
+    ]);
+  });
+
+  test('produces CSS the resolver reads back', async () => {
+    const { css } = migrateTailwindV3Config({
+      theme: {
+        extend: {
+          colors: { brand: { 500: '#336699' } },
+          fontSize: { xs: ['0.75rem', '1rem'] },
+        },
+      },
+    });
+
+    const result = await resolveTheme({ css, includeDefaults: false });
+
+    expect(result.variants.default.colors.brand).toEqual({ 500: '#336699' });
+    expect(result.variants.default.fontSize.xs).toEqual({
+      size: '0.75rem',
+      lineHeight: '1rem',
+    });
+  });
+
+  test('throws when the config is not an object', () => {
+    expect(() => migrateTailwindV3Config('tailwind')).toThrow(
+      'Tailwind config must export an object',
+    );
+  });
+});
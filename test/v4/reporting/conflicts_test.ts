@@ -277,6 +277,51 @@ describe('Markdown Report - Manual Review Section', () => {
     expect(markdown).toContain('- **Media Query:** `(min-width: 1024px)`');
   });
 
+  test('links the file and line of the overriding rule', () => {
+    const conflicts: Array<CSSRuleConflict> = [
+      {
+        variantName: 'themeMono',
+        themeProperty: 'radius' as keyof Theme,
+        themeKey: 'lg',
+        variableValue: '1rem',
+        ruleValue: '0',
+        ruleSelector: '.rounded-lg',
+        canResolve: false,
+        confidence: 'low',
+        cssRule: {
+          selector: '.rounded-lg',
+          property: 'border-radius',
+          value: '0',
+          variantName: 'themeMono',
+          originalSelector: '.theme-mono',
+          complexity: 'complex',
+        },
+        location: { file: '/app/src/styles.css', line: 12, column: 5 },
+      },
+    ];
+
+    const metadata = {
+      generatedAt: '2025-01-18T00:00:00Z',
+      source: '../styles.css',
+      baseDir: '/app/src/generated',
+    };
+
+    const markdown = generateMarkdownReport(conflicts, metadata);
+    const report = parseJSON(
+      generateJSONReport(conflicts, metadata),
+      isConflictReportJSON,
+    );
+
+    expect(markdown).toContain(
+      '- **File:** [../styles.css:12:5](../styles.css#L12)',
+    );
+    expect(report.conflicts[0]?.location).toEqual({
+      file: '../styles.css',
+      line: 12,
+      column: 5,
+    });
+  });
+
   test('skips manual review section when empty', () => {
     const conflicts: Array<CSSRuleConflict> = [
       {
@@ -0,0 +1,91 @@
+/**
+ * @file Tests for theme diff reporter
+ */
+
+import type { ThemeDiff } from '../../../src/v4/core/analysis/theme_diff';
+
+import { describe, expect, test } from 'bun:test';
+
+import {
+  generateJSONReport,
+  generateMarkdownReport,
+  isThemeDiffReportJSON,
+} from '../../../src/v4/core/reporting/theme_diff';
+
+const metadata = {
+  generatedAt: '2025-01-01T00:00:00.000Z',
+  before: 'main:src/theme.css',
+  after: 'src/theme.css',
+  version: '1.0.0',
+};
+
+const diff: ThemeDiff = {
+  variants: [
+    { variant: 'dark', type: 'changed', before: '.dark', after: '[data-dark]' },
+    { variant: 'midnight', type: 'added', after: '.midnight' },
+  ],
+  tokens: [
+    {
+      variant: 'default',
+      path: 'colors.primary',
+      type: 'changed',
+      before: 'blue',
+      after: 'red',
+    },
+    { variant: 'default', path: 'spacing.4', type: 'removed', before: '1rem' },
+    {
+      variant: 'midnight',
+      path: 'fonts.sans',
+      type: 'added',
+      after: ['Inter', 'sans-serif'],
+    },
+  ],
+};
+
+describe('generateMarkdownReport', () => {
+  test('lists summary, variants and tokens grouped by variant', () => {
+    const markdown = generateMarkdownReport(diff, metadata);
+
+    expect(markdown).toContain('**Before:** main:src/theme.css');
+    expect(markdown).toContain('- **Tokens changed:** 1');
+    expect(markdown).toContain('- **Selectors changed:** 1');
+    expect(markdown).toContain(
+      '- **Selector changed** `dark`: `.dark` → `[data-dark]`',
+    );
+    expect(markdown).toContain('- **Added** `midnight`: `.midnight`');
+    expect(markdown).toContain(
+      '### `default`\n\n- **Changed** `colors.primary`: `blue` → `red`\n- **Removed** `spacing.4`: `1rem`',
+    );
+    expect(markdown).toContain(
+      '- **Added** `fonts.sans`: `["Inter","sans-serif"]`',
+    );
+    expect(markdown).toContain('_Generated by tailwind-resolver v1.0.0_');
+  });
+
+  test('states when no tokens changed', () => {
+    const markdown = generateMarkdownReport(
+      { variants: [], tokens: [] },
+      metadata,
+    );
+
+    expect(markdown).toContain('No token changes.');
+    expect(markdown).not.toContain('## Variants');
+  });
+});
+
+describe('generateJSONReport', () => {
+  test('includes summary counts and raw values', () => {
+    const report: unknown = JSON.parse(generateJSONReport(diff, metadata));
+
+    expect(isThemeDiffReportJSON(report)).toBe(true);
+    expect(report).toMatchObject({
+      before: 'main:src/theme.css',
+      after: 'src/theme.css',
+      summary: {
+        tokens: { added: 1, removed: 1, changed: 1 },
+        variants: { added: 1, removed: 0, changed: 1 },
+      },
+      tokens: diff.tokens,
+    });
+  });
+});
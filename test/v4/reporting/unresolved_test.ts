@@ -274,6 +274,39 @@ describe('writeUnresolvedReports', () => {
     expect(parsedData.summary.selfReferential).toBe(1);
   });
 
+  test('links the declaring file relative to the report directory', async () => {
+    const unresolved: Array<UnresolvedVariable> = [
+      {
+        variableName: '--font-sans',
+        originalValue: 'var(--font-inter)',
+        referencedVariable: '--font-inter',
+        source: 'theme',
+        likelyCause: 'unknown',
+        location: { file: join(tempDir, 'theme.css'), line: 4, column: 3 },
+      },
+    ];
+
+    const metadata = {
+      generatedAt: '2024-01-01T00:00:00.000Z',
+      source: 'theme.css',
+    };
+
+    const paths = await writeUnresolvedReports(tempDir, unresolved, metadata);
+
+    const markdownContent = await readFile(paths.markdown, 'utf-8');
+    expect(markdownContent).toContain(
+      '- **File:** [theme.css:4:3](theme.css#L4)',
+    );
+
+    const jsonContent = await readFile(paths.json, 'utf-8');
+    const parsedData = parseJSON(jsonContent, isUnresolvedReportJSON);
+    expect(parsedData.unresolved[0]?.location).toEqual({
+      file: 'theme.css',
+      line: 4,
+      column: 3,
+    });
+  });
+
   test('handles metadata without version', async () => {
     const unresolved: Array<UnresolvedVariable> = [
       {
@@ -0,0 +1,121 @@
+/**
+ * Unit tests for the generated file staleness check
+ * Tests in-memory rendering and comparison with files on disk
+ */
+
+import { mkdtemp, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+
+import { checkGeneratedFiles } from '../../../src/v4/shared/check';
+import {
+  generateThemeFiles,
+  renderThemeFiles,
+} from '../../../src/v4/shared/file_generator';
+
+describe('checkGeneratedFiles', () => {
+  let tempDir: string;
+  let inputFile: string;
+  let outputDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'check-test-'));
+    inputFile = join(tempDir, 'theme.css');
+    outputDir = join(tempDir, 'generated');
+    await writeFile(inputFile, '@theme { --color-primary: blue; }', 'utf-8');
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should render files in memory without writing them', async () => {
+    const { contents } = await renderThemeFiles({
+      inputPath: inputFile,
+      outputDir,
+      resolveImports: true,
+      runtimeOptions: { variants: true, selectors: true },
+      includeDefaults: false,
+    });
+
+    expect([...contents.keys()]).toEqual(['types.ts', 'theme.ts', 'index.ts']);
+    expect(await readdir(tempDir)).toEqual(['theme.css']);
+  });
+
+  it('should report missing files', async () => {
+    const { contents } = await renderThemeFiles({
+      inputPath: inputFile,
+      outputDir,
+      resolveImports: true,
+      runtimeOptions: false,
+      includeDefaults: false,
+    });
+
+    const drift = await checkGeneratedFiles(outputDir, contents, tempDir);
+
+    expect(drift).toHaveLength(1);
+    expect(drift[0]?.status).toBe('missing');
+    expect(drift[0]?.diff).toStartWith(
+      '--- /dev/null\n+++ b/generated/types.ts\n',
+    );
+  });
+
+  it('should ignore the Generated at timestamp', async () => {
+    await generateThemeFiles({
+      inputPath: inputFile,
+      outputDir,
+      resolveImports: true,
+      runtimeOptions: false,
+      includeDefaults: false,
+    });
+    const typesPath = join(outputDir, 'types.ts');
+    const types = await readFile(typesPath, 'utf-8');
+    await writeFile(
+      typesPath,
+      types.replace(
+        /Generated at: .*/,
+        'Generated at: 2000-01-01T00:00:00.000Z',
+      ),
+      'utf-8',
+    );
+
+    const { contents } = await renderThemeFiles({
+      inputPath: inputFile,
+      outputDir,
+      resolveImports: true,
+      runtimeOptions: false,
+      includeDefaults: false,
+    });
+
+    expect(await checkGeneratedFiles(outputDir, contents)).toEqual([]);
+  });
+
+  it('should report changed files with a unified diff', async () => {
+    await generateThemeFiles({
+      inputPath: inputFile,
+      outputDir,
+      resolveImports: true,
+      runtimeOptions: false,
+      includeDefaults: false,
+    });
+    await writeFile(inputFile, '@theme { --color-primary: red; }', 'utf-8');
+
+    const { contents } = await renderThemeFiles({
+      inputPath: inputFile,
+      outputDir,
+      resolveImports: true,
+      runtimeOptions: false,
+      includeDefaults: false,
+    });
+    const drift = await checkGeneratedFiles(outputDir, contents, tempDir);
+
+    expect(drift).toHaveLength(1);
+    expect(drift[0]?.status).toBe('changed');
+    expect(drift[0]?.path).toBe(join(outputDir, 'types.ts'));
+    expect(drift[0]?.diff).toContain('--- a/generated/types.ts');
+    expect(drift[0]?.diff).toContain("-  primary: 'blue'");
+    expect(drift[0]?.diff).toContain("+  primary: 'red'");
+  });
+});
@@ -0,0 +1,320 @@
+/**
+ * Unit tests for the project config file loader
+ * Tests discovery, loading (json, mjs, ts), validation errors and option merging
+ */
+
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+
+import {
+  ConfigError,
+  findConfigFile,
+  loadConfig,
+  mergeConfigs,
+  validateConfig,
+} from '../../../src/v4/shared/config';
+
+describe('findConfigFile', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'config-test-'));
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should return null when no config file exists', () => {
+    expect(findConfigFile(tempDir)).toBeNull();
+  });
+
+  it('should prefer the ts config over mjs and json', async () => {
+    await writeFile(join(tempDir, 'tailwind-resolver.config.json'), '{}');
+    await writeFile(
+      join(tempDir, 'tailwind-resolver.config.ts'),
+      'export default {};',
+    );
+
+    expect(findConfigFile(tempDir)).toBe(
+      join(tempDir, 'tailwind-resolver.config.ts'),
+    );
+  });
+});
+
+describe('loadConfig', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'config-test-'));
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should return null when no config file is found', async () => {
+    expect(await loadConfig(tempDir)).toBeNull();
+  });
+
+  it('should load a json config and resolve paths against its directory', async () => {
+    await writeFile(
+      join(tempDir, 'tailwind-resolver.config.json'),
+      JSON.stringify({
+        input: 'src/styles.css',
+        outputDir: 'src/theme',
+        aliases: { '@': './src' },
+        colorFormat: 'hex',
+        baseline: 'ci/diagnostics.json',
+      }),
+    );
+
+    const loaded = await loadConfig(tempDir);
+
+    expect(loaded?.path).toBe(join(tempDir, 'tailwind-resolver.config.json'));
+    expect(loaded?.config).toEqual({
+      input: join(tempDir, 'src/styles.css'),
+      outputDir: join(tempDir, 'src/theme'),
+      aliases: { '@': join(tempDir, 'src') },
+      colorFormat: 'hex',
+      baseline: join(tempDir, 'ci/diagnostics.json'),
+    });
+  });
+
+  it('should resolve paths inside entries against the config directory', async () => {
+    await writeFile(
+      join(tempDir, 'tailwind-resolver.config.json'),
+      JSON.stringify({
+        colorFormat: 'hex',
+        entries: [
+          {
+            name: 'web',
+            input: 'apps/web/theme.css',
+            outputDir: 'apps/web/generated',
+            aliases: { '@': './apps/web' },
+          },
+        ],
+      }),
+    );
+
+    expect((await loadConfig(tempDir))?.config).toEqual({
+      colorFormat: 'hex',
+      entries: [
+        {
+          name: 'web',
+          input: join(tempDir, 'apps/web/theme.css'),
+          outputDir: join(tempDir, 'apps/web/generated'),
+          aliases: { '@': join(tempDir, 'apps/web') },
+        },
+      ],
+    });
+  });
+
+  it('should load the default export of an mjs config', async () => {
+    await writeFile(
+      join(tempDir, 'tailwind-resolver.config.mjs'),
+      "export default { input: 'theme.css', nesting: { colors: { pattern: /-/ } } };",
+    );
+
+    const loaded = await loadConfig(tempDir);
+
+    expect(loaded?.config.input).toBe(join(tempDir, 'theme.css'));
+    expect(loaded?.config.nesting?.colors?.pattern).toBeInstanceOf(RegExp);
+  });
+
+  it('should load a ts config', async () => {
+    await writeFile(
+      join(tempDir, 'tailwind-resolver.config.ts'),
+      "const config: { input: string } = { input: 'theme.css' };\nexport default config;",
+    );
+
+    const loaded = await loadConfig(tempDir);
+
+    expect(loaded?.config.input).toBe(join(tempDir, 'theme.css'));
+  });
+
+  it('should load an explicit config file path', async () => {
+    await writeFile(
+      join(tempDir, 'custom.json'),
+      JSON.stringify({ debug: true }),
+    );
+
+    const loaded = await loadConfig(tempDir, 'custom.json');
+
+    expect(loaded?.config).toEqual({ debug: true });
+  });
+
+  it('should throw when an explicit config file does not exist', () => {
+    expect(loadConfig(tempDir, 'missing.json')).rejects.toThrow(
+      'Config file not found',
+    );
+  });
+
+  it('should throw a ConfigError for invalid JSON', async () => {
+    await writeFile(join(tempDir, 'tailwind-resolver.config.json'), '{ input');
+
+    expect(loadConfig(tempDir)).rejects.toBeInstanceOf(ConfigError);
+  });
+});
+
+describe('validateConfig', () => {
+  it('should accept a complete config', () => {
+    const config: Record<string, unknown> = {
+      input: 'src/styles.css',
+      outputDir: 'src/theme',
+      resolveImports: true,
+      includeDefaults: { colors: true, shadows: false },
+      overrides: {
+        '*': { 'fonts.sans': 'Inter' },
+        dark: {
+          'colors.background': { value: '#000', force: true },
+          colors: { primary: { 500: '#f00' } },
+        },
+      },
+      nesting: {
+        default: { maxDepth: 1 },
+        colors: { maxDepth: 2, consecutiveDashes: 'camelcase' },
+      },
+      colorFormat: 'rgb',
+      evaluateMath: { rootFontSize: 10 },
+      units: { length: 'px', time: 'ms' },
+      aliases: { '@': './src' },
+      generateRuntime: { files: true, reports: { conflicts: false } },
+      debug: false,
+    };
+
+    expect(validateConfig(config, 'config.json')).toBe(config);
+  });
+
+  it('should reject a config that is not an object', () => {
+    expect(() => validateConfig([], 'config.json')).toThrow(
+      'Config must export an object (got array)',
+    );
+  });
+
+  it('should list every invalid option', () => {
+    try {
+      validateConfig(
+        {
+          input: 42,
+          colorFormat: 'cmyk',
+          includeDefaults: { colours: true },
+          nesting: { colors: { maxDepth: -1 } },
+          units: { length: 'em' },
+          generateRuntime: { reports: 'yes' },
+          outDir: 'src',
+        },
+        'config.json',
+      );
+      throw new Error('Expected validateConfig to throw');
+    } catch (error) {
+      expect(error).toBeInstanceOf(ConfigError);
+      expect((error as ConfigError).issues).toEqual([
+        'input must be a string (got number 42)',
+        "colorFormat must be one of 'hex', 'rgb', 'hsl' (got string \"cmyk\")",
+        "Unknown option 'includeDefaults.colours'",
+        'nesting.colors.maxDepth must be a non-negative number (got number -1)',
+        "units.length must be one of 'px', 'rem', 'number' (got string \"em\")",
+        'generateRuntime.reports must be an object (got string "yes")',
+        "Unknown option 'outDir'",
+      ]);
+    }
+  });
+
+  it('should reject override values that are not strings', () => {
+    expect(() =>
+      validateConfig(
+        { overrides: { dark: { 'colors.primary': 1 } } },
+        'config.json',
+      ),
+    ).toThrow('overrides.dark.colors.primary must be a string');
+  });
+
+  it('should validate failOn thresholds', () => {
+    expect(
+      validateConfig(
+        { failOn: { unresolved: true, conflicts: 'medium' } },
+        'config.json',
+      ),
+    ).toEqual({ failOn: { unresolved: true, conflicts: 'medium' } });
+    expect(() =>
+      validateConfig({ failOn: { conflicts: 'severe' } }, 'config.json'),
+    ).toThrow(
+      "failOn.conflicts must be one of 'low', 'medium', 'high' (got string \"severe\")",
+    );
+  });
+
+  it('should validate entries', () => {
+    try {
+      validateConfig(
+        {
+          input: 'theme.css',
+          entries: [
+            { input: 'web.css', outputDir: 'web', colorFormat: 'cmyk' },
+            { outputDir: 'docs', entries: [] },
+          ],
+        },
+        'config.json',
+      );
+      throw new Error('Expected validateConfig to throw');
+    } catch (error) {
+      expect(error).toBeInstanceOf(ConfigError);
+      expect((error as ConfigError).issues).toEqual([
+        "entries[0].colorFormat must be one of 'hex', 'rgb', 'hsl' (got string \"cmyk\")",
+        "Unknown option 'entries[1].entries'",
+        'entries[1].input is required',
+        'input and outputDir cannot be combined with entries (set them on each entry)',
+      ]);
+    }
+  });
+
+  it('should reject a string pattern in nesting config', () => {
+    expect(() =>
+      validateConfig({ nesting: { colors: { pattern: '-' } } }, 'config.json'),
+    ).toThrow('nesting.colors.pattern must be a RegExp');
+  });
+});
+
+describe('mergeConfigs', () => {
+  it('should let later configs override earlier ones', () => {
+    expect(
+      mergeConfigs(
+        { input: 'a.css', colorFormat: 'hex' },
+        { input: 'b.css', colorFormat: undefined },
+      ),
+    ).toEqual({ input: 'b.css', colorFormat: 'hex' });
+  });
+
+  it('should merge object options one level deep', () => {
+    expect(
+      mergeConfigs(
+        {
+          units: { time: 'ms' },
+          nesting: { colors: { maxDepth: 2 } },
+          aliases: { '@': '/app/src' },
+        },
+        {
+          units: { length: 'px' },
+          nesting: { default: { maxDepth: 1 } },
+          aliases: { '~': '/app/lib' },
+        },
+      ),
+    ).toEqual({
+      units: { time: 'ms', length: 'px' },
+      nesting: { colors: { maxDepth: 2 }, default: { maxDepth: 1 } },
+      aliases: { '@': '/app/src', '~': '/app/lib' },
+    });
+  });
+
+  it('should replace an object option with a boolean', () => {
+    expect(
+      mergeConfigs(
+        { generateRuntime: { files: true } },
+        { generateRuntime: false },
+      ),
+    ).toEqual({ generateRuntime: false });
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Unit tests for diagnostic gating in the CLI and Vite plugin
+ * Tests baseline files and failing on diagnostics above failOn thresholds
+ */
+
+import type { ThemeDiagnostics } from '../../../src/v4/core';
+
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+
+import {
+  BaselineError,
+  DiagnosticsError,
+  enforceDiagnostics,
+  readBaseline,
+  writeBaseline,
+} from '../../../src/v4/shared/diagnostics';
+
+const diagnostics: ThemeDiagnostics = {
+  conflicts: [],
+  unresolved: [
+    {
+      variableName: '--color-brand',
+      originalValue: 'var(--brand-500)',
+      referencedVariable: '--brand-500',
+      source: 'theme',
+      likelyCause: 'unknown',
+    },
+  ],
+};
+
+describe('writeBaseline / readBaseline', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'diagnostics-test-'));
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should round-trip a baseline as formatted JSON', async () => {
+    const path = join(tempDir, 'ci', 'diagnostics.json');
+
+    const written = await writeBaseline(path, diagnostics);
+
+    expect(await readFile(path, 'utf-8')).toEndWith('}\n');
+    expect(await readBaseline(path)).toEqual(written);
+    expect(written.unresolved).toEqual([
+      { variable: '--color-brand', reference: '--brand-500', source: 'theme' },
+    ]);
+  });
+
+  it('should reject missing and malformed baselines', async () => {
+    const path = join(tempDir, 'diagnostics.json');
+
+    expect(readBaseline(path)).rejects.toThrow('Baseline file not found');
+
+    await writeFile(path, JSON.stringify({ conflicts: [] }));
+    expect(readBaseline(path)).rejects.toThrow('Invalid baseline file');
+  });
+
+  it('should report invalid entries by index', async () => {
+    const path = join(tempDir, 'diagnostics.json');
+    await writeFile(
+      path,
+      JSON.stringify({
+        conflicts: [{ variant: 'default', selector: '.card' }],
+        unresolved: [
+          { variable: '--a', reference: '--b', source: 'theme' },
+          { variable: '--c', reference: '--d', source: 'media' },
+        ],
+      }),
+    );
+
+    const error: unknown = await readBaseline(path).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(BaselineError);
+    expect((error as BaselineError).issues).toEqual([
+      'conflicts[0] is not a valid conflicts entry',
+      'unresolved[1] is not a valid unresolved entry',
+    ]);
+  });
+
+  it('should report the path of a corrupt baseline', async () => {
+    const path = join(tempDir, 'diagnostics.json');
+    await writeFile(path, '{ "conflicts": [');
+
+    expect(readBaseline(path)).rejects.toThrow(
+      `Invalid baseline file ${path}:\n  - Failed to parse baseline:`,
+    );
+  });
+});
+
+describe('enforceDiagnostics', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'diagnostics-test-'));
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should do nothing without failOn or a baseline', async () => {
+    expect(await enforceDiagnostics(diagnostics, {})).toBeUndefined();
+  });
+
+  it('should throw a DiagnosticsError above the thresholds', async () => {
+    try {
+      await enforceDiagnostics(diagnostics, { failOn: { unresolved: 'high' } });
+      throw new Error('Expected a DiagnosticsError');
+    } catch (error) {
+      expect(error).toBeInstanceOf(DiagnosticsError);
+      expect((error as DiagnosticsError).result.unresolved).toHaveLength(1);
+      expect((error as DiagnosticsError).message).toContain(
+        '--color-brand references --brand-500',
+      );
+    }
+  });
+
+  it('should only fail on diagnostics missing from the baseline', async () => {
+    const path = join(tempDir, 'diagnostics.json');
+    await writeBaseline(path, diagnostics);
+
+    const result = await enforceDiagnostics(diagnostics, { baseline: path });
+    expect(result?.baselined).toBe(1);
+
+    const withNew: ThemeDiagnostics = {
+      ...diagnostics,
+      unresolved: [
+        ...diagnostics.unresolved,
+        { ...diagnostics.unresolved[0]!, variableName: '--color-ring' },
+      ],
+    };
+
+    expect(enforceDiagnostics(withNew, { baseline: path })).rejects.toThrow(
+      '1 diagnostic exceeds the fail-on thresholds (1 accepted by baseline)',
+    );
+  });
+});
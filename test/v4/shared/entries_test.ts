@@ -0,0 +1,127 @@
+/**
+ * Unit tests for multi-entry generation helpers
+ * Tests entry expansion, option layering and the per-entry summary
+ */
+
+import type { UnresolvedVariable } from '../../../src/v4/core';
+
+import { describe, expect, it } from 'bun:test';
+
+import {
+  formatEntrySummary,
+  resolveEntries,
+} from '../../../src/v4/shared/entries';
+
+describe('resolveEntries', () => {
+  it('should layer entry options over the top-level options', () => {
+    const entries = resolveEntries(
+      {
+        colorFormat: 'hex',
+        includeDefaults: { colors: true, spacing: true },
+        entries: [
+          {
+            name: 'web',
+            input: '/repo/apps/web/theme.css',
+            outputDir: '/repo/apps/web/generated',
+            includeDefaults: { spacing: false },
+          },
+          {
+            input: '/repo/brands/acme.css',
+            outputDir: '/repo/brands/generated/acme',
+            colorFormat: 'rgb',
+          },
+        ],
+      },
+      '/repo',
+    );
+
+    expect(entries).toEqual([
+      {
+        name: 'web',
+        config: {
+          colorFormat: 'hex',
+          includeDefaults: { colors: true, spacing: false },
+          input: '/repo/apps/web/theme.css',
+          outputDir: '/repo/apps/web/generated',
+        },
+      },
+      {
+        name: 'brands/acme.css',
+        config: {
+          colorFormat: 'rgb',
+          includeDefaults: { colors: true, spacing: true },
+          input: '/repo/brands/acme.css',
+          outputDir: '/repo/brands/generated/acme',
+        },
+      },
+    ]);
+  });
+
+  it('should return no entries when none are configured', () => {
+    expect(resolveEntries({ colorFormat: 'hex' }, '/repo')).toEqual([]);
+  });
+
+  it('should reject duplicate names and shared output directories', () => {
+    expect(() =>
+      resolveEntries(
+        {
+          entries: [
+            { name: 'web', input: '/a.css', outputDir: '/a' },
+            { name: 'web', input: '/b.css', outputDir: '/b' },
+          ],
+        },
+        '/',
+      ),
+    ).toThrow('Duplicate entry name "web"');
+    expect(() =>
+      resolveEntries(
+        {
+          entries: [
+            { name: 'web', input: '/a.css', outputDir: '/out' },
+            { name: 'docs', input: '/b.css', outputDir: '/out' },
+          ],
+        },
+        '/',
+      ),
+    ).toThrow('Entries "web" and "docs" share the output directory /out');
+  });
+});
+
+describe('formatEntrySummary', () => {
+  it('should align the table and count statuses', () => {
+    const unresolved: UnresolvedVariable = {
+      variableName: '--color-primary',
+      originalValue: 'var(--brand)',
+      referencedVariable: '--brand',
+      source: 'theme',
+      likelyCause: 'unknown',
+    };
+
+    expect(
+      formatEntrySummary(
+        [
+          {
+            name: 'web',
+            outputDir: '/repo/apps/web/generated',
+            status: 'ok',
+            diagnostics: { conflicts: [], unresolved: [unresolved] },
+          },
+          {
+            name: 'brands/acme.css',
+            outputDir: '/repo/brands/generated/acme',
+            status: 'error',
+          },
+        ],
+        '/repo',
+      ),
+    ).toBe(
+      [
+        'Entry            Conflicts  Unresolved  Status  Output',
+        'web              0          1           ok      apps/web/generated',
+        'brands/acme.css  -          -           error   brands/generated/acme',
+        '',
+        '2 entries: 1 ok, 0 failed, 1 error',
+      ].join('\n'),
+    );
+  });
+});
@@ -28,14 +28,14 @@ describe('generateThemeFiles', () => {
 
     await writeFile(inputFile, '@theme { --color-primary: blue; }', 'utf-8');
 
-    const result = await generateThemeFiles(
-      inputFile,
+    const result = await generateThemeFiles({
+      inputPath: inputFile,
       outputDir,
-      false,
-      false,
-      false,
-      false,
-    );
+      resolveImports: false,
+      runtimeOptions: false,
+      includeDefaults: false,
+      debug: false,
+    });
 
     const typesContent = await readFile(join(outputDir, 'types.ts'), 'utf-8');
 
@@ -49,14 +49,19 @@ describe('generateThemeFiles', () => {
 
     await writeFile(inputFile, '@theme { --color-primary: blue; }', 'utf-8');
 
-    await generateThemeFiles(
-      inputFile,
+    await generateThemeFiles({
+      inputPath: inputFile,
       outputDir,
-      false,
-      { variants: true, selectors: true, files: false, variables: false },
-      false,
-      false,
-    );
+      resolveImports: false,
+      runtimeOptions: {
+        variants: true,
+        selectors: true,
+        files: false,
+        variables: false,
+      },
+      includeDefaults: false,
+      debug: false,
+    });
 
     const themeContent = await readFile(join(outputDir, 'theme.ts'), 'utf-8');
     const indexContent = await readFile(join(outputDir, 'index.ts'), 'utf-8');
@@ -72,7 +77,14 @@ describe('generateThemeFiles', () => {
 
     await writeFile(inputFile, '@theme { --color-primary: blue; }', 'utf-8');
 
-    await generateThemeFiles(inputFile, outputDir, false, false, false, false);
+    await generateThemeFiles({
+      inputPath: inputFile,
+      outputDir,
+      resolveImports: false,
+      runtimeOptions: false,
+      includeDefaults: false,
+      debug: false,
+    });
 
     const { existsSync } = await import('node:fs');
 
@@ -93,14 +105,14 @@ describe('generateThemeFiles', () => {
       'utf-8',
     );
 
-    const result = await generateThemeFiles(
-      mainFile,
+    const result = await generateThemeFiles({
+      inputPath: mainFile,
       outputDir,
-      true,
-      false,
-      false,
-      false,
-    );
+      resolveImports: true,
+      runtimeOptions: false,
+      includeDefaults: false,
+      debug: false,
+    });
 
     expect(result.files).toContain(mainFile);
     expect(result.files).toContain(baseFile);
@@ -118,14 +130,14 @@ describe('generateThemeFiles', () => {
       'utf-8',
     );
 
-    const result = await generateThemeFiles(
-      mainFile,
+    const result = await generateThemeFiles({
+      inputPath: mainFile,
       outputDir,
-      false,
-      false,
-      false,
-      false,
-    );
+      resolveImports: false,
+      runtimeOptions: false,
+      includeDefaults: false,
+      debug: false,
+    });
 
     expect(result.files).toContain(mainFile);
     expect(result.files).not.toContain(baseFile);
@@ -137,7 +149,14 @@ describe('generateThemeFiles', () => {
 
     await writeFile(inputFile, '@theme { --color-primary: blue; }', 'utf-8');
 
-    await generateThemeFiles(inputFile, outputDir, false, false, false, false);
+    await generateThemeFiles({
+      inputPath: inputFile,
+      outputDir,
+      resolveImports: false,
+      runtimeOptions: false,
+      includeDefaults: false,
+      debug: false,
+    });
 
     const { existsSync } = await import('node:fs');
 
@@ -150,7 +169,14 @@ describe('generateThemeFiles', () => {
     const outputDir = join(tempDir, 'output');
 
     expect(
-      generateThemeFiles(inputFile, outputDir, false, false, false, false),
+      generateThemeFiles({
+        inputPath: inputFile,
+        outputDir,
+        resolveImports: false,
+        runtimeOptions: false,
+        includeDefaults: false,
+        debug: false,
+      }),
     ).rejects.toThrow();
   });
 
@@ -160,14 +186,14 @@ describe('generateThemeFiles', () => {
 
     await writeFile(inputFile, '@theme { --color-primary: blue; }', 'utf-8');
 
-    const result = await generateThemeFiles(
-      inputFile,
+    const result = await generateThemeFiles({
+      inputPath: inputFile,
       outputDir,
-      false,
-      false,
-      false,
-      false,
-    );
+      resolveImports: false,
+      runtimeOptions: false,
+      includeDefaults: false,
+      debug: false,
+    });
 
     expect(result).toHaveProperty('files');
     expect(Array.isArray(result.files)).toBe(true);
@@ -180,14 +206,14 @@ describe('generateThemeFiles', () => {
 
     await writeFile(inputFile, '@theme { --color-primary: blue; }', 'utf-8');
 
-    const result = await generateThemeFiles(
-      inputFile,
+    const result = await generateThemeFiles({
+      inputPath: inputFile,
       outputDir,
-      false,
-      false,
-      false,
-      true,
-    );
+      resolveImports: false,
+      runtimeOptions: false,
+      includeDefaults: false,
+      debug: true,
+    });
 
     expect(result.files).toContain(inputFile);
   });
@@ -199,15 +225,15 @@ describe('generateThemeFiles', () => {
 
     await writeFile(inputFile, '@theme { --color-primary: blue; }', 'utf-8');
 
-    const result = await generateThemeFiles(
-      inputFile,
+    const result = await generateThemeFiles({
+      inputPath: inputFile,
       outputDir,
-      false,
-      false,
-      false,
-      false,
-      customBasePath,
-    );
+      resolveImports: false,
+      runtimeOptions: false,
+      includeDefaults: false,
+      debug: false,
+      basePath: customBasePath,
+    });
 
     expect(result.files).toContain(inputFile);
   });
@@ -218,14 +244,14 @@ describe('generateThemeFiles', () => {
 
     await writeFile(inputFile, '', 'utf-8');
 
-    const result = await generateThemeFiles(
-      inputFile,
+    const result = await generateThemeFiles({
+      inputPath: inputFile,
       outputDir,
-      false,
-      false,
-      false,
-      false,
-    );
+      resolveImports: false,
+      runtimeOptions: false,
+      includeDefaults: false,
+      debug: false,
+    });
 
     expect(result.files).toContain(inputFile);
 
@@ -239,14 +265,19 @@ describe('generateThemeFiles', () => {
 
     await writeFile(inputFile, '@theme { --color-primary: blue; }', 'utf-8');
 
-    await generateThemeFiles(
-      inputFile,
+    await generateThemeFiles({
+      inputPath: inputFile,
       outputDir,
-      false,
-      { variants: true, selectors: true, files: true, variables: true },
-      false,
-      false,
-    );
+      resolveImports: false,
+      runtimeOptions: {
+        variants: true,
+        selectors: true,
+        files: true,
+        variables: true,
+      },
+      includeDefaults: false,
+      debug: false,
+    });
 
     const themeContent = await readFile(join(outputDir, 'theme.ts'), 'utf-8');
 
@@ -259,14 +290,19 @@ describe('generateThemeFiles', () => {
 
     await writeFile(inputFile, '@theme { --color-primary: blue; }', 'utf-8');
 
-    await generateThemeFiles(
-      inputFile,
+    await generateThemeFiles({
+      inputPath: inputFile,
       outputDir,
-      false,
-      { variants: true, selectors: false, files: false, variables: false },
-      false,
-      false,
-    );
+      resolveImports: false,
+      runtimeOptions: {
+        variants: true,
+        selectors: false,
+        files: false,
+        variables: false,
+      },
+      includeDefaults: false,
+      debug: false,
+    });
 
     const themeContent = await readFile(join(outputDir, 'theme.ts'), 'utf-8');
 
@@ -288,14 +324,14 @@ describe('generateThemeFiles', () => {
 
     await writeFile(inputFile, cssWithConflicts, 'utf-8');
 
-    const result = await generateThemeFiles(
-      inputFile,
+    const result = await generateThemeFiles({
+      inputPath: inputFile,
       outputDir,
-      false,
-      false,
-      false,
-      false,
-    );
+      resolveImports: false,
+      runtimeOptions: false,
+      includeDefaults: false,
+      debug: false,
+    });
 
     const { existsSync } = await import('node:fs');
 
@@ -319,21 +355,21 @@ describe('generateThemeFiles', () => {
 
     await writeFile(inputFile, cssWithConflicts, 'utf-8');
 
-    const result = await generateThemeFiles(
-      inputFile,
+    const result = await generateThemeFiles({
+      inputPath: inputFile,
       outputDir,
-      false,
-      false,
-      false,
-      false,
-      undefined,
-      { conflicts: false, unresolved: true },
-    );
+      resolveImports: false,
+      runtimeOptions: false,
+      includeDefaults: false,
+      debug: false,
+      reportOptions: { conflicts: false, unresolved: true },
+    });
 
     const { existsSync } = await import('node:fs');
 
-    // Conflict reports should not be generated
+    // Conflict reports should not be generated, but diagnostics are still returned
     expect(result.conflictCount).toBeUndefined();
+    expect(result.diagnostics.conflicts.length).toBeGreaterThan(0);
     expect(existsSync(join(outputDir, 'conflicts.md'))).toBe(false);
     expect(existsSync(join(outputDir, 'conflicts.json'))).toBe(false);
   });
@@ -351,16 +387,15 @@ describe('generateThemeFiles', () => {
 
     await writeFile(inputFile, cssWithUnresolved, 'utf-8');
 
-    const result = await generateThemeFiles(
-      inputFile,
+    const result = await generateThemeFiles({
+      inputPath: inputFile,
       outputDir,
-      false,
-      false,
-      false,
-      false,
-      undefined,
-      { conflicts: true, unresolved: false },
-    );
+      resolveImports: false,
+      runtimeOptions: false,
+      includeDefaults: false,
+      debug: false,
+      reportOptions: { conflicts: true, unresolved: false },
+    });
 
     const { existsSync } = await import('node:fs');
 
@@ -386,16 +421,15 @@ describe('generateThemeFiles', () => {
 
     await writeFile(inputFile, cssWithIssues, 'utf-8');
 
-    const result = await generateThemeFiles(
-      inputFile,
+    const result = await generateThemeFiles({
+      inputPath: inputFile,
       outputDir,
-      false,
-      false,
-      false,
-      false,
-      undefined,
-      { conflicts: false, unresolved: false },
-    );
+      resolveImports: false,
+      runtimeOptions: false,
+      includeDefaults: false,
+      debug: false,
+      reportOptions: { conflicts: false, unresolved: false },
+    });
 
     const { existsSync } = await import('node:fs');
 
@@ -407,4 +441,90 @@ describe('generateThemeFiles', () => {
     expect(existsSync(join(outputDir, 'unresolved.md'))).toBe(false);
     expect(existsSync(join(outputDir, 'unresolved.json'))).toBe(false);
   });
+
+  it('should write token files for enabled formats', async () => {
+    const inputFile = join(tempDir, 'input.css');
+    const outputDir = join(tempDir, 'output');
+
+    await writeFile(
+      inputFile,
+      '@theme { --color-primary: #3b82f6; } .dark { --color-primary: #60a5fa; }',
+      'utf-8',
+    );
+
+    const result = await generateThemeFiles({
+      inputPath: inputFile,
+      outputDir,
+      resolveImports: false,
+      runtimeOptions: false,
+      includeDefaults: false,
+      debug: false,
+      reportOptions: { conflicts: false, unresolved: false },
+      formats: { dtcg: true },
+    });
+
+    const tokens: unknown = JSON.parse(
+      await readFile(join(outputDir, 'tokens.json'), 'utf-8'),
+    );
+    const darkTokens: unknown = JSON.parse(
+      await readFile(join(outputDir, 'tokens.dark.json'), 'utf-8'),
+    );
+
+    expect(result.outputFiles).toEqual([
+      join(outputDir, 'types.ts'),
+      join(outputDir, 'tokens.json'),
+      join(outputDir, 'tokens.dark.json'),
+    ]);
+    expect(tokens).toEqual({
+      color: {
+        primary: {
+          $value: '#3b82f6',
+          $type: 'color',
+          $description: '--color-primary',
+        },
+      },
+    });
+    expect(darkTokens).toMatchObject({
+      color: { primary: { $value: '#60a5fa' } },
+    });
+  });
+
+  it('should write Style Dictionary sources named after the variants', async () => {
+    const inputFile = join(tempDir, 'input.css');
+    const outputDir = join(tempDir, 'output');
+
+    await writeFile(
+      inputFile,
+      `@theme { --color-primary: #3b82f6; --container-sm: 24rem; }
+      .dark { --color-primary: #60a5fa; }
+      @container sidebar (width >= 24rem) { :root { --color-primary: #1d4ed8; } }`,
+      'utf-8',
+    );
+
+    const result = await generateThemeFiles({
+      inputPath: inputFile,
+      outputDir,
+      resolveImports: false,
+      runtimeOptions: false,
+      includeDefaults: false,
+      debug: false,
+      reportOptions: { conflicts: false, unresolved: false },
+      formats: { styleDictionary: true },
+    });
+
+    const darkSource: unknown = JSON.parse(
+      await readFile(join(outputDir, 'style-dictionary/dark.json'), 'utf-8'),
+    );
+
+    expect(result.outputFiles).toEqual([
+      join(outputDir, 'types.ts'),
+      join(outputDir, 'style-dictionary/default.json'),
+      join(outputDir, 'style-dictionary/dark.json'),
+      join(outputDir, 'style-dictionary/@sm_sidebar.json'),
+    ]);
+    expect(darkSource).toEqual({
+      color: { primary: { value: '#60a5fa', comment: '--color-primary' } },
+      container: { sm: { value: '24rem', comment: '--container-sm' } },
+    });
+  });
 });
@@ -0,0 +1,181 @@
+/**
+ * Unit tests for git revision checkouts and theme diffs across revisions
+ * Uses a temporary git repository with one committed theme
+ */
+
+import { execFileSync } from 'node:child_process';
+import { existsSync } from 'node:fs';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+
+import { diffTheme } from '../../../src/v4/index';
+import {
+  GitRevisionError,
+  withRevisionCheckout,
+} from '../../../src/v4/shared/git';
+
+/**
+ * Runs git in the given repository
+ *
+ * @param cwd - Repository directory
+ * @param args - Git arguments
+ * @returns Standard output
+ */
+function git(cwd: string, ...args: Array<string>): string {
+  return execFileSync('git', args, { cwd, encoding: 'utf-8' });
+}
+
+describe('git revisions', () => {
+  let repoDir: string;
+
+  beforeEach(async () => {
+    repoDir = await mkdtemp(join(tmpdir(), 'git-test-'));
+    await mkdir(join(repoDir, 'src'));
+    await writeFile(
+      join(repoDir, 'src/tokens.css'),
+      '@theme {\n  --color-primary: blue;\n  --spacing-4: 1rem;\n}\n',
+    );
+    await writeFile(
+      join(repoDir, 'src/theme.css'),
+      '@import "./tokens.css";\n',
+    );
+
+    git(repoDir, 'init', '--quiet');
+    git(repoDir, 'add', '-A');
+    git(
+      repoDir,
+      '-c',
+      'user.name=test',
+      '-c',
+      'user.email=test@example.com',
+      'commit',
+      '--quiet',
+      '-m',
+      'init',
+    );
+
+    await writeFile(
+      join(repoDir, 'src/tokens.css'),
+      '@theme {\n  --color-primary: red;\n}\n.dark {\n  --color-primary: navy;\n}\n',
+    );
+  });
+
+  afterEach(async () => {
+    await rm(repoDir, { recursive: true, force: true });
+  });
+
+  describe('withRevisionCheckout', () => {
+    it('should expose files at the revision and remove the checkout afterwards', async () => {
+      let checkoutDir = '';
+
+      const contents = await withRevisionCheckout(
+        repoDir,
+        'HEAD',
+        async (checkout) => {
+          checkoutDir = checkout.directory;
+          return readFile(
+            checkout.resolvePath(join(repoDir, 'src/tokens.css')),
+            'utf-8',
+          );
+        },
+      );
+
+      expect(contents).toContain('--color-primary: blue');
+      expect(existsSync(checkoutDir)).toBe(false);
+      expect(git(repoDir, 'worktree', 'list').trim().split('\n')).toHaveLength(
+        1,
+      );
+    });
+
+    it('should throw a GitRevisionError for unknown revisions', () => {
+      expect(
+        withRevisionCheckout(repoDir, 'does-not-exist', () =>
+          Promise.resolve(),
+        ),
+      ).rejects.toBeInstanceOf(GitRevisionError);
+    });
+  });
+
+  describe('diffTheme', () => {
+    it('should compare the working tree against a revision', async () => {
+      const input = join(repoDir, 'src/theme.css');
+
+      const diff = await diffTheme({
+        before: { input, revision: 'HEAD' },
+        after: input,
+        includeDefaults: false,
+      });
+
+      expect(diff.variants).toEqual([
+        { variant: 'dark', type: 'added', after: '.dark' },
+      ]);
+      expect(diff.tokens).toContainEqual({
+        variant: 'default',
+        path: 'colors.primary',
+        type: 'changed',
+        before: 'blue',
+        after: 'red',
+      });
+      expect(diff.tokens).toContainEqual({
+        variant: 'default',
+        path: 'spacing.4',
+        type: 'removed',
+        before: '1rem',
+      });
+    });
+
+    it('should resolve package imports at a revision from the working tree node_modules', async () => {
+      const packageDir = join(repoDir, 'node_modules/@acme/tokens');
+      await mkdir(packageDir, { recursive: true });
+      await writeFile(
+        join(packageDir, 'package.json'),
+        JSON.stringify({ name: '@acme/tokens', style: 'theme.css' }),
+      );
+      await writeFile(
+        join(packageDir, 'theme.css'),
+        '@theme {\n  --color-brand: teal;\n}\n',
+      );
+      await writeFile(join(repoDir, '.gitignore'), 'node_modules\n');
+      await writeFile(
+        join(repoDir, 'src/brand.css'),
+        '@import "@acme/tokens";\n',
+      );
+      git(repoDir, 'add', '-A');
+      git(
+        repoDir,
+        '-c',
+        'user.name=test',
+        '-c',
+        'user.email=test@example.com',
+        'commit',
+        '--quiet',
+        '-m',
+        'brand',
+      );
+      const input = join(repoDir, 'src/brand.css');
+
+      const diff = await diffTheme({
+        before: { input, revision: 'HEAD' },
+        after: input,
+        includeDefaults: false,
+      });
+
+      expect(diff.tokens).toEqual([]);
+      expect(existsSync(join(packageDir, 'theme.css'))).toBe(true);
+    });
+
+    it('should throw when the input does not exist at the revision', async () => {
+      await writeFile(join(repoDir, 'src/new.css'), '@theme {}\n');
+
+      expect(
+        diffTheme({
+          before: { input: join(repoDir, 'src/new.css'), revision: 'HEAD' },
+          after: join(repoDir, 'src/new.css'),
+        }),
+      ).rejects.toThrow('src/new.css does not exist at this revision');
+    });
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Unit tests for CLI theme overrides
+ * Tests --override flag parsing, overrides file loading and layering
+ */
+
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+
+import {
+  loadOverridesFile,
+  mergeOverrides,
+  OverrideError,
+  parseOverrideFlag,
+} from '../../../src/v4/shared/overrides';
+
+describe('parseOverrideFlag', () => {
+  it('should parse selector, path and string value', () => {
+    expect(parseOverrideFlag('dark:colors.background=#000')).toEqual({
+      dark: { 'colors.background': '#000' },
+    });
+  });
+
+  it('should keep colons in selectors and = in values', () => {
+    expect(
+      parseOverrideFlag(
+        '@media (prefers-color-scheme: dark):colors.mask=url(a.svg?x=1)',
+      ),
+    ).toEqual({
+      '@media (prefers-color-scheme: dark)': {
+        'colors.mask': 'url(a.svg?x=1)',
+      },
+    });
+  });
+
+  it('should parse attribute selectors containing =', () => {
+    expect(parseOverrideFlag('[data-theme="dark"]:colors.bg=#000')).toEqual({
+      '[data-theme="dark"]': { 'colors.bg': '#000' },
+    });
+    expect(
+      parseOverrideFlag(
+        '[data-theme="dark"]:fonts.sans={"value":"a:b=c","force":true}',
+      ),
+    ).toEqual({
+      '[data-theme="dark"]': { 'fonts.sans': { value: 'a:b=c', force: true } },
+    });
+  });
+
+  it('should parse the JSON object form', () => {
+    expect(
+      parseOverrideFlag(
+        '*:fonts.sans={"value":"Inter","resolveVars":false,"force":true}',
+      ),
+    ).toEqual({
+      '*': {
+        'fonts.sans': { value: 'Inter', resolveVars: false, force: true },
+      },
+    });
+  });
+
+  it('should reject flags without a selector or value', () => {
+    expect(() => parseOverrideFlag('colors.background=#000')).toThrow(
+      OverrideError,
+    );
+    expect(() => parseOverrideFlag('dark:colors.background')).toThrow(
+      'Expected <selector>:<path>=<value>',
+    );
+  });
+
+  it('should point at the offending path', () => {
+    expect(() => parseOverrideFlag('dark:colors..background=#000')).toThrow(
+      'dark:colors..background is not a valid token path',
+    );
+    expect(() =>
+      parseOverrideFlag('dark:colors.background={"value":"#000","force":1}'),
+    ).toThrow('dark:colors.background.force must be a boolean (got number 1)');
+    expect(() =>
+      parseOverrideFlag('dark:colors.background={"force":true}'),
+    ).toThrow('dark:colors.background must be a string or a { value } object');
+    expect(() => parseOverrideFlag('dark:colors.background={oops')).toThrow(
+      'dark:colors.background has an invalid JSON value',
+    );
+  });
+});
+
+describe('loadOverridesFile', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'overrides-test-'));
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should load json overrides relative to the directory', async () => {
+    await writeFile(
+      join(tempDir, 'brand.json'),
+      JSON.stringify({ dark: { colors: { background: '#000' } } }),
+    );
+
+    expect(await loadOverridesFile('brand.json', tempDir)).toEqual({
+      dark: { colors: { background: '#000' } },
+    });
+  });
+
+  it('should load the default export of ts overrides', async () => {
+    await writeFile(
+      join(tempDir, 'brand.ts'),
+      "export default { '*': { 'fonts.sans': { value: 'Inter', resolveVars: false } } };",
+    );
+
+    expect(await loadOverridesFile('brand.ts', tempDir)).toEqual({
+      '*': { 'fonts.sans': { value: 'Inter', resolveVars: false } },
+    });
+  });
+
+  it('should list every invalid path', async () => {
+    await writeFile(
+      join(tempDir, 'brand.json'),
+      JSON.stringify({
+        dark: { 'colors.background': { value: '#000', force: 'yes' } },
+        default: { spacing: { 4: 4 } },
+      }),
+    );
+
+    try {
+      await loadOverridesFile('brand.json', tempDir);
+      throw new Error('Expected an OverrideError');
+    } catch (error) {
+      expect(error).toBeInstanceOf(OverrideError);
+      expect((error as OverrideError).issues).toEqual([
+        'dark.colors.background.force must be a boolean (got string "yes")',
+        'default.spacing.4 must be a string, { value } object or nested overrides (got number 4)',
+      ]);
+    }
+  });
+
+  it('should throw for missing files', () => {
+    expect(loadOverridesFile('missing.json', tempDir)).rejects.toThrow(
+      'Overrides file not found',
+    );
+  });
+});
+
+describe('mergeOverrides', () => {
+  it('should merge paths per selector with later layers winning', () => {
+    expect(
+      mergeOverrides(
+        { dark: { 'colors.a': '#000', 'colors.b': '#111' } },
+        undefined,
+        { dark: { 'colors.b': '#222' }, '*': { 'fonts.sans': 'Inter' } },
+      ),
+    ).toEqual({
+      dark: { 'colors.a': '#000', 'colors.b': '#222' },
+      '*': { 'fonts.sans': 'Inter' },
+    });
+  });
+
+  it('should return undefined when no layer has overrides', () => {
+    expect(mergeOverrides(undefined, {})).toBeUndefined();
+  });
+});
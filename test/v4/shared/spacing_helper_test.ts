@@ -61,6 +61,22 @@ describe('createSpacingHelper', () => {
     });
   });
 
+  describe('Numeric values', () => {
+    test('multiplies numeric base values', () => {
+      const spacing = createSpacingHelper({ base: 4, xs: 12 }, 4);
+
+      expect(spacing(4)).toBe(16);
+      expect(spacing(0.5)).toBe(2);
+      expect(spacing.xs).toBe(12);
+    });
+
+    test('uses numeric fallback when base is not defined', () => {
+      const spacing = createSpacingHelper({ xs: 12 }, 4);
+
+      expect(spacing(2)).toBe(8);
+    });
+  });
+
   describe('Fallback behavior', () => {
     test('uses fallback when base is not defined in spacing values', () => {
       const spacing = createSpacingHelper({ xs: '0.75rem' }, '0.5rem');
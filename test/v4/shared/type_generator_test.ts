@@ -5,6 +5,7 @@
 
 import { describe, expect, it } from 'bun:test';
 
+import { resolveTheme } from '../../../src/v4';
 import {
   generateRuntimeFile,
   generateTypeDeclarations,
@@ -155,6 +156,48 @@ describe('generateTypeDeclarations', () => {
 
     expect(types).toContain('test.css');
   });
+
+  it('should type normalized numeric values as number', () => {
+    const result = {
+      theme: {
+        colors: {},
+        spacing: { base: 4, gutter: 'calc(100vw - 2rem)' },
+        fonts: {},
+        fontSize: { lg: { size: 18, lineHeight: 28 } },
+        fontWeight: {},
+        tracking: {},
+        leading: {},
+        breakpoints: {},
+        containers: {},
+        radius: { lg: 10 },
+        shadows: {},
+        insetShadows: {},
+        dropShadows: {},
+        textShadows: {},
+        blur: {},
+        perspective: {},
+        aspect: {},
+        ease: {},
+        animations: {},
+        defaults: {},
+        keyframes: {},
+      },
+      variants: {},
+      selectors: {},
+      variables: [],
+      files: [],
+      deprecationWarnings: [],
+      cssConflicts: [],
+    } as unknown as Parameters<typeof generateTypeDeclarations>[0];
+
+    const types = generateTypeDeclarations(result, 'TestTheme', 'test.css');
+
+    expect(types).toContain('base: number');
+    expect(types).toContain("gutter: 'calc(100vw - 2rem)'");
+    expect(types).toContain('& ((n: number) => number)');
+    expect(types).toContain('lg: { size: number; lineHeight: number }');
+    expect(types).toContain('lg: number');
+  });
 });
 
 describe('generateRuntimeFile', () => {
@@ -316,4 +359,26 @@ describe('generateRuntimeFile', () => {
 
     expect(runtime).not.toContain('export const files');
   });
+
+  it('should use a numeric spacing fallback for numeric lengths', async () => {
+    const units = { length: 'number' } as const;
+    const result = await resolveTheme({
+      css: '@theme { --spacing-gutter: 1rem; } .dark { --spacing-gutter: 2rem; }',
+      includeDefaults: false,
+      units,
+    });
+    const options = {
+      variants: true,
+      selectors: true,
+      files: false,
+      variables: false,
+    };
+
+    expect(generateRuntimeFile(result, 'TestTheme', options, units)).toContain(
+      'const defaultSpacingBase = 4;',
+    );
+    expect(generateRuntimeFile(result, 'TestTheme', options)).toContain(
+      'const defaultSpacingBase = "0.25rem";',
+    );
+  });
 });
@@ -0,0 +1,60 @@
+/**
+ * Unit tests for the unified diff helper
+ * Tests hunk headers, context grouping and edge cases (empty and identical input)
+ */
+
+import { describe, expect, it } from 'bun:test';
+
+import { createUnifiedDiff } from '../../../src/v4/shared/unified_diff';
+
+describe('createUnifiedDiff', () => {
+  it('should return an empty string for identical texts', () => {
+    expect(createUnifiedDiff('a\nb\n', 'a\nb\n', 'a/x', 'b/x')).toBe('');
+  });
+
+  it('should show a changed line with surrounding context', () => {
+    expect(
+      createUnifiedDiff('a\nb\nc\n', 'a\nB\nc\n', 'a/theme.ts', 'b/theme.ts'),
+    ).toBe(
+      [
+        '--- a/theme.ts',
+        '+++ b/theme.ts',
+        '@@ -1,3 +1,3 @@',
+        ' a',
+        '-b',
+        '+B',
+        ' c',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('should split distant changes into separate hunks', () => {
+    const oldText = 'a\nb\nc\nd\ne\nf\ng\nh\ni\nj\n';
+    const newText = 'A\nb\nc\nd\ne\nf\ng\nh\ni\nJ\n';
+
+    const diff = createUnifiedDiff(oldText, newText, 'a/x', 'b/x', 1);
+
+    expect(diff).toContain('@@ -1,2 +1,2 @@\n-a\n+A\n b\n');
+    expect(diff).toContain('@@ -9,2 +9,2 @@\n i\n-j\n+J\n');
+  });
+
+  it('should merge nearby changes into one hunk', () => {
+    const diff = createUnifiedDiff('a\nb\nc\nd\n', 'A\nb\nc\nD\n', 'a', 'b');
+
+    expect(diff.match(/^@@/gm)).toHaveLength(1);
+    expect(diff).toContain('@@ -1,4 +1,4 @@');
+  });
+
+  it('should diff against an empty file', () => {
+    expect(createUnifiedDiff('', 'x\ny\n', '/dev/null', 'b/x')).toBe(
+      '--- /dev/null\n+++ b/x\n@@ -0,0 +1,2 @@\n+x\n+y\n',
+    );
+  });
+
+  it('should report removed lines', () => {
+    expect(createUnifiedDiff('x\ny\n', 'y\n', 'a/x', 'b/x')).toBe(
+      '--- a/x\n+++ b/x\n@@ -1,2 +1,1 @@\n-x\n y\n',
+    );
+  });
+});
@@ -7,7 +7,10 @@ import type { CSSVariable } from '../../../src/v4/types';
 
 import { describe, expect, test } from 'bun:test';
 
-import { buildThemes } from '../../../src/v4/core/theme/builder';
+import {
+  buildThemes,
+  getVariableThemePath,
+} from '../../../src/v4/core/theme/builder';
 
 describe('buildThemes - Basic theme construction', () => {
   test('builds empty theme from empty variables', () => {
@@ -672,3 +675,31 @@ describe('buildThemes - Edge cases', () => {
     expect(result.theme.shadows.complex).toContain('rgba(0, 0, 0, 0.1)');
   });
 });
+
+describe('getVariableThemePath', () => {
+  test('maps namespaced variables to their theme path', () => {
+    expect(getVariableThemePath('--color-red-500')).toEqual([
+      'colors',
+      'red',
+      '500',
+    ]);
+    expect(getVariableThemePath('--text-xl')).toEqual([
+      'fontSize',
+      'xl',
+      'size',
+    ]);
+    expect(getVariableThemePath('--text-xl--line-height')).toEqual([
+      'fontSize',
+      'xl',
+      'lineHeight',
+    ]);
+    expect(getVariableThemePath('--default-font-family')).toEqual([
+      'defaults',
+      'fontFamily',
+    ]);
+  });
+
+  test('returns null for variables outside theme namespaces', () => {
+    expect(getVariableThemePath('--background')).toBeNull();
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Tests for unit normalization of resolved themes via the units option
+ */
+
+/* eslint-disable @typescript-eslint/no-magic-numbers */
+
+import { describe, expect, test } from 'bun:test';
+
+import { resolveTheme } from '../../../src/v4';
+import {
+  convertLength,
+  convertTimes,
+  normalizeThemeUnits,
+} from '../../../src/v4/core/units/normalize';
+
+const CSS = `
+  @theme {
+    --spacing: 0.25rem;
+    --spacing-gutter: calc(100vw - 2rem);
+    --radius-lg: 0.625rem;
+    --radius-sm: calc(var(--radius-lg) - 4px);
+    --radius-full: 9999px;
+    --breakpoint-md: 48rem;
+    --text-xs: 0.75rem;
+    --text-xs--line-height: calc(1 / 0.75);
+    --text-lg: 1.125rem;
+    --text-lg--line-height: 1.75rem;
+    --tracking-tight: -0.025em;
+    --animate-spin: spin 1s linear infinite;
+    --animate-fade: fade 150ms ease-out;
+  }
+
+  .dark {
+    --radius-lg: 1rem;
+  }
+`;
+
+describe('convertLength', () => {
+  test('converts rem to px', () => {
+    expect(convertLength('0.25rem', 'px')).toBe('4px');
+    expect(convertLength('48rem', 'px')).toBe('768px');
+  });
+
+  test('converts px to rem', () => {
+    expect(convertLength('24px', 'rem')).toBe('1.5rem');
+  });
+
+  test('converts to raw pixel numbers', () => {
+    expect(convertLength('0.25rem', 'number')).toBe(4);
+    expect(convertLength('9999px', 'number')).toBe(9999);
+    expect(convertLength('0', 'number')).toBe(0);
+  });
+
+  test('keeps em lengths since they depend on the element font size', () => {
+    expect(convertLength('-0.025em', 'px')).toBe('-0.025em');
+    expect(convertLength('1.5em', 'number')).toBe('1.5em');
+  });
+
+  test('uses the configured root font size', () => {
+    expect(convertLength('1.5rem', 'px', 10)).toBe('15px');
+    expect(convertLength('15px', 'rem', 10)).toBe('1.5rem');
+  });
+
+  test('keeps values that are not plain lengths', () => {
+    expect(convertLength('calc(100vw - 2rem)', 'px')).toBe(
+      'calc(100vw - 2rem)',
+    );
+    expect(convertLength('50%', 'px')).toBe('50%');
+    expect(convertLength('1.5', 'px')).toBe('1.5');
+    expect(convertLength('var(--spacing)', 'number')).toBe('var(--spacing)');
+  });
+});
+
+describe('convertTimes', () => {
+  test('converts seconds to milliseconds', () => {
+    expect(convertTimes('spin 1s linear infinite', 'ms')).toBe(
+      'spin 1000ms linear infinite',
+    );
+  });
+
+  test('converts milliseconds to seconds', () => {
+    expect(convertTimes('fade 150ms ease-out', 's')).toBe(
+      'fade 0.15s ease-out',
+    );
+  });
+
+  test('converts every duration in a shorthand', () => {
+    expect(
+      convertTimes('pulse 2s cubic-bezier(0.4, 0, 0.6, 1) .5s', 'ms'),
+    ).toBe('pulse 2000ms cubic-bezier(0.4, 0, 0.6, 1) 500ms');
+  });
+
+  test('ignores identifiers containing time units', () => {
+    expect(convertTimes('fades 1s', 'ms')).toBe('fades 1000ms');
+    expect(convertTimes('spin-2s 1s', 'ms')).toBe('spin-2s 1000ms');
+  });
+});
+
+describe('normalizeThemeUnits', () => {
+  test('returns numeric lengths without mutating the input', async () => {
+    const { variants } = await resolveTheme({
+      css: CSS,
+      includeDefaults: false,
+    });
+    const theme = normalizeThemeUnits(variants.default, { length: 'number' });
+
+    expect(theme.spacing.base).toBe(4);
+    expect(theme.fontSize.lg).toEqual({ size: 18, lineHeight: 28 });
+    expect(variants.default.spacing.base).toBe('0.25rem');
+  });
+});
+
+describe('resolveTheme units option', () => {
+  test('keeps units as authored by default', async () => {
+    const result = await resolveTheme({ css: CSS, includeDefaults: false });
+
+    expect(result.variants.default.spacing.base).toBe('0.25rem');
+    expect(result.variants.default.animations.spin).toBe(
+      'spin 1s linear infinite',
+    );
+  });
+
+  test('converts lengths to px', async () => {
+    const result = await resolveTheme({
+      css: CSS,
+      includeDefaults: false,
+      units: { length: 'px' },
+    });
+    const theme = result.variants.default;
+
+    expect(theme.spacing.base).toBe('4px');
+    expect(theme.radius.lg).toBe('10px');
+    expect(theme.breakpoints.md).toBe('768px');
+    expect(theme.tracking.tight).toBe('-0.025em');
+    expect(theme.fontSize.lg).toEqual({ size: '18px', lineHeight: '28px' });
+    expect(theme.spacing.gutter).toBe('calc(100vw - 2rem)');
+    expect(result.variants.dark?.radius.lg).toBe('16px');
+  });
+
+  test('keeps unitless line-height ratios', async () => {
+    const result = await resolveTheme({
+      css: CSS,
+      includeDefaults: false,
+      units: { length: 'number' },
+    });
+
+    const fontSize: Record<string, unknown> = result.variants.default.fontSize;
+
+    expect(fontSize.xs).toEqual({ size: 12, lineHeight: 'calc(1 / 0.75)' });
+  });
+
+  test('converts lengths to numbers', async () => {
+    const result = await resolveTheme({
+      css: CSS,
+      includeDefaults: false,
+      units: { length: 'number', rootFontSize: 10 },
+    });
+    const spacing: Record<string, unknown> = result.variants.default.spacing;
+
+    expect(spacing.base).toBe(2.5);
+    expect(spacing.gutter).toBe('calc(100vw - 2rem)');
+  });
+
+  test('converts animation durations', async () => {
+    const result = await resolveTheme({
+      css: CSS,
+      includeDefaults: false,
+      units: { time: 's' },
+    });
+
+    expect(result.variants.default.animations.fade).toBe('fade 0.15s ease-out');
+    expect(result.variants.default.spacing.base).toBe('0.25rem');
+  });
+
+  test('converts folded math results', async () => {
+    const result = await resolveTheme({
+      css: CSS,
+      includeDefaults: false,
+      evaluateMath: true,
+      units: { length: 'px' },
+    });
+
+    expect(result.variants.default.radius.sm).toBe('6px');
+  });
+});
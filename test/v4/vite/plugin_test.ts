@@ -235,6 +235,53 @@ describe('tailwindResolver - buildStart hook', () => {
     expect(watchedFiles).toContain(inputFile);
   });
 
+  it('should read options from the config file in the project root', async () => {
+    const inputFile = join(tempDir, 'input.css');
+    await writeFile(inputFile, '@theme { --color-primary: blue; }', 'utf-8');
+    await writeFile(
+      join(tempDir, 'tailwind-resolver.config.json'),
+      JSON.stringify({
+        input: 'input.css',
+        outputDir: 'from-config',
+        includeDefaults: false,
+        generateRuntime: false,
+      }),
+      'utf-8',
+    );
+
+    // Plugin options take precedence over the config file
+    const plugin = tailwindResolver({
+      outputDir: 'from-plugin',
+    }) as PluginWithHooks;
+
+    plugin.configResolved({ root: tempDir } as ResolvedConfig);
+
+    const watchedFiles: Array<string> = [];
+    await plugin.buildStart.call({
+      addWatchFile: (file: string) => {
+        watchedFiles.push(file);
+      },
+    });
+
+    expect(watchedFiles).toContain(inputFile);
+    expect(watchedFiles).toContain(
+      join(tempDir, 'tailwind-resolver.config.json'),
+    );
+    expect(existsSync(join(tempDir, 'from-plugin', 'types.ts'))).toBe(true);
+    expect(existsSync(join(tempDir, 'from-plugin', 'theme.ts'))).toBe(false);
+    expect(existsSync(join(tempDir, 'from-config'))).toBe(false);
+  });
+
+  it('should require input from the plugin options or config file', async () => {
+    const plugin = tailwindResolver({ configFile: false }) as PluginWithHooks;
+
+    plugin.configResolved({ root: tempDir } as ResolvedConfig);
+
+    expect(plugin.buildStart.call({ addWatchFile: () => {} })).rejects.toThrow(
+      '`input` is required',
+    );
+  });
+
   it('should handle errors during theme generation', async () => {
     const NON_EXISTENT_FILE = '/non/existent/file.css';
     const plugin = tailwindResolver({
@@ -685,6 +732,94 @@ describe('tailwindResolver - Debug mode', () => {
   });
 });
 
+describe('tailwindResolver - Diagnostic gating', () => {
+  let tempDir: string;
+  let inputFile: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'vite-gating-test-'));
+    inputFile = join(tempDir, 'input.css');
+    await writeFile(
+      inputFile,
+      '@theme { --color-primary: var(--brand); }',
+      'utf-8',
+    );
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  /**
+   * Runs buildStart for a plugin resolved with the given Vite command
+   *
+   * @param plugin - Plugin under test
+   * @param command - Vite command ('build' or 'serve')
+   * @returns buildStart promise
+   */
+  function runBuildStart(
+    plugin: PluginWithHooks,
+    command: ResolvedConfig['command'],
+  ): Promise<void> {
+    plugin.configResolved({ root: tempDir, command } as ResolvedConfig);
+    return plugin.buildStart.call({ addWatchFile: () => {} });
+  }
+
+  it('should fail production builds on diagnostics above failOn', () => {
+    const plugin = tailwindResolver({
+      input: 'input.css',
+      outputDir: 'output',
+      includeDefaults: false,
+      failOn: { unresolved: 'high' },
+    }) as PluginWithHooks;
+
+    expect(runBuildStart(plugin, 'build')).rejects.toThrow(
+      '--color-primary references --brand',
+    );
+  });
+
+  it('should not fail the dev server', async () => {
+    const plugin = tailwindResolver({
+      input: 'input.css',
+      outputDir: 'output',
+      includeDefaults: false,
+      failOn: { unresolved: true },
+    }) as PluginWithHooks;
+
+    await runBuildStart(plugin, 'serve');
+
+    expect(existsSync(join(tempDir, 'output', 'types.ts'))).toBe(true);
+  });
+
+  it('should accept diagnostics from the baseline', async () => {
+    await writeFile(
+      join(tempDir, 'diagnostics.json'),
+      JSON.stringify({
+        conflicts: [],
+        unresolved: [
+          {
+            variable: '--color-primary',
+            reference: '--brand',
+            source: 'theme',
+          },
+        ],
+      }),
+      'utf-8',
+    );
+
+    const plugin = tailwindResolver({
+      input: 'input.css',
+      outputDir: 'output',
+      includeDefaults: false,
+      baseline: 'diagnostics.json',
+    }) as PluginWithHooks;
+
+    await runBuildStart(plugin, 'build');
+
+    expect(existsSync(join(tempDir, 'output', 'types.ts'))).toBe(true);
+  });
+});
+
 describe('tailwindResolver - Edge cases', () => {
   let tempDir: string;
 
@@ -847,3 +982,92 @@ describe('tailwindResolver - Edge cases', () => {
     expect(updates).toHaveLength(RAPID_UPDATE_COUNT);
   });
 });
+
+describe('tailwindResolver - Multiple entries', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'vite-entries-test-'));
+    await writeFile(join(tempDir, 'shared.css'), '@theme { --color-a: red; }');
+    await writeFile(
+      join(tempDir, 'web.css'),
+      '@import "./shared.css";\n@theme { --color-primary: var(--brand); }',
+    );
+    await writeFile(join(tempDir, 'docs.css'), '@theme { --spacing-1: 4px; }');
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  /**
+   * Creates a plugin with a web and a docs entry and runs configResolved
+   *
+   * @param command - Vite command ('build' or 'serve')
+   * @returns Plugin under test
+   */
+  function createPlugin(command: ResolvedConfig['command']): PluginWithHooks {
+    const plugin = tailwindResolver({
+      configFile: false,
+      includeDefaults: false,
+      entries: [
+        {
+          name: 'web',
+          input: 'web.css',
+          outputDir: 'gen/web',
+          failOn: { unresolved: true },
+        },
+        { name: 'docs', input: 'docs.css', outputDir: 'gen/docs' },
+      ],
+    }) as PluginWithHooks;
+    plugin.configResolved({ root: tempDir, command } as ResolvedConfig);
+    return plugin;
+  }
+
+  it('should generate every entry and watch their files', async () => {
+    const watchedFiles: Array<string> = [];
+
+    await createPlugin('serve').buildStart.call({
+      addWatchFile: (file: string) => {
+        watchedFiles.push(file);
+      },
+    });
+
+    expect(existsSync(join(tempDir, 'gen/web/types.ts'))).toBe(true);
+    expect(existsSync(join(tempDir, 'gen/docs/types.ts'))).toBe(true);
+    expect(watchedFiles.sort()).toEqual(
+      ['docs.css', 'shared.css', 'web.css'].map((file) => join(tempDir, file)),
+    );
+  });
+
+  it('should regenerate only the entries that processed the changed file', async () => {
+    const plugin = createPlugin('serve');
+    await plugin.buildStart.call({ addWatchFile: () => {} });
+    await rm(join(tempDir, 'gen'), { recursive: true });
+
+    await plugin.handleHotUpdate?.({
+      file: join(tempDir, 'shared.css'),
+    } as HmrContext);
+
+    expect(existsSync(join(tempDir, 'gen/web/types.ts'))).toBe(true);
+    expect(existsSync(join(tempDir, 'gen/docs'))).toBe(false);
+  });
+
+  it('should fail production builds after generating every entry', async () => {
+    expect(
+      createPlugin('build').buildStart.call({ addWatchFile: () => {} }),
+    ).rejects.toThrow('1 of 2 entries failed');
+  });
+
+  it('should reject input combined with entries', () => {
+    const plugin = tailwindResolver({
+      input: 'web.css',
+      entries: [{ input: 'docs.css', outputDir: 'gen/docs' }],
+    }) as PluginWithHooks;
+    plugin.configResolved({ root: tempDir } as ResolvedConfig);
+
+    expect(plugin.buildStart.call({ addWatchFile: () => {} })).rejects.toThrow(
+      '`input` and `entries` cannot be combined',
+    );
+  });
+});